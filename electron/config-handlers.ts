@@ -7,6 +7,23 @@ import * as path from 'path';
 import * as os from 'os';
 import * as fse from 'fs-extra';
 import { createScopedLogger } from './utils/logger';
+import {
+  getConfigManager,
+  pickNetworkSettings,
+  pickRegistryCredentialSettings,
+  pickRegistryMirrorSettings,
+  pickTransferLimitSettings,
+  type Config,
+} from '../src/core/config';
+import { applyNetworkSettings, resolveNetworkSettings } from '../src/core/shared/network-proxy';
+import {
+  applyRegistryCredentials,
+  describeRegistryCredential,
+  importRegistryCredentials,
+  resolveRegistryCredentials,
+} from '../src/core/shared/registry-credentials';
+import { applyRegistryMirrors, resolveRegistryMirrors } from '../src/core/shared/registry-mirrors';
+import { getTransferLimiter, resolveTransferLimits } from '../src/core/shared/transfer-limiter';
 
 const log = createScopedLogger('Config');
 
@@ -26,17 +43,99 @@ const ensureSettingsDir = async (): Promise<string> => {
   return settingsPath;
 };
 
+/**
+ * 설정의 프록시/사용자 CA를 메인 프로세스의 모든 HTTP 요청(fetch, axios)에 적용
+ */
+export function applyNetworkSettingsFromConfig(config: Partial<Config> | null): void {
+  try {
+    const settings = resolveNetworkSettings({
+      ...pickNetworkSettings(config ?? {}),
+      // DEPSSMUGGLER_STRICT_SSL=true가 아니면 인증서 검증 비활성화 (main.ts 참고)
+      ...(process.env.DEPSSMUGGLER_STRICT_SSL !== 'true' && { rejectUnauthorized: false }),
+    });
+    applyNetworkSettings(settings);
+    log.info('네트워크 설정 적용:', {
+      proxy: Boolean(settings.httpProxy || settings.httpsProxy),
+      noProxyCount: settings.noProxy.length,
+      customCa: Boolean(settings.ca),
+    });
+  } catch (error) {
+    log.error('네트워크 설정 적용 실패:', error);
+  }
+}
+
+/**
+ * 설정의 대역폭/호스트별 동시 연결 제한을 메인 프로세스의 모든 다운로드에 적용
+ */
+export function applyTransferLimitsFromConfig(config: Partial<Config> | null): void {
+  try {
+    const limits = resolveTransferLimits(pickTransferLimitSettings(config ?? {}));
+    getTransferLimiter().configure(limits);
+    log.info('전송 제한 적용:', limits);
+  } catch (error) {
+    log.error('전송 제한 적용 실패:', error);
+  }
+}
+
+/**
+ * 설정의 저장소 미러를 메인 프로세스의 모든 리졸버/다운로더/검색 요청에 적용
+ */
+export function applyRegistryMirrorsFromConfig(config: Partial<Config> | null): void {
+  try {
+    const mirrors = resolveRegistryMirrors(pickRegistryMirrorSettings(config ?? {}));
+    applyRegistryMirrors(mirrors);
+    log.info('저장소 미러 적용:', Object.fromEntries(
+      Object.entries(mirrors).map(([ecosystem, list]) => [ecosystem, list.map((mirror) => mirror.url)])
+    ));
+  } catch (error) {
+    log.error('저장소 미러 적용 실패:', error);
+  }
+}
+
+/**
+ * 설정의 사설 저장소 인증 정보를 pip/npm/Maven 조회와 다운로드에 적용
+ */
+export function applyRegistryCredentialsFromConfig(config: Partial<Config> | null): void {
+  try {
+    const credentials = resolveRegistryCredentials(pickRegistryCredentialSettings(config ?? {}));
+    applyRegistryCredentials(credentials);
+    log.info('저장소 인증 정보 적용:', credentials.map(describeRegistryCredential));
+  } catch (error) {
+    log.error('저장소 인증 정보 적용 실패:', error);
+  }
+}
+
+const readSettingsFileSync = (): Partial<Config> | null => {
+  try {
+    const settingsPath = getSettingsPath();
+    if (fse.pathExistsSync(settingsPath)) {
+      return getConfigManager().decryptSecrets(fse.readJsonSync(settingsPath) as Partial<Config>);
+    }
+  } catch (error) {
+    log.error('설정 로드 실패:', error);
+  }
+  return null;
+};
+
 /**
  * 설정 관련 IPC 핸들러 등록
  */
 export function registerConfigHandlers(): void {
+  // 저장된 프록시/CA, 전송 제한, 저장소 미러, 저장소 인증 설정을 첫 요청 전에 적용
+  const savedSettings = readSettingsFileSync();
+  applyNetworkSettingsFromConfig(savedSettings);
+  applyTransferLimitsFromConfig(savedSettings);
+  applyRegistryMirrorsFromConfig(savedSettings);
+  applyRegistryCredentialsFromConfig(savedSettings);
+
   // 설정 로드 IPC
   ipcMain.handle('config:get', async () => {
     try {
       const settingsPath = getSettingsPath();
       if (await fse.pathExists(settingsPath)) {
         const data = await fse.readFile(settingsPath, 'utf-8');
-        return JSON.parse(data);
+        // 비밀번호(SMTP, 프록시, 저장소 미러/인증)는 암호화되어 저장됨
+        return getConfigManager().decryptSecrets(JSON.parse(data));
       }
       return null; // 파일이 없으면 null 반환 (기본값 사용)
     } catch (error) {
@@ -49,8 +148,17 @@ export function registerConfigHandlers(): void {
   ipcMain.handle('config:set', async (_event, config: unknown) => {
     try {
       const settingsPath = await ensureSettingsDir();
-      await fse.writeFile(settingsPath, JSON.stringify(config, null, 2), 'utf-8');
+      const settings = (config ?? {}) as Partial<Config>;
+      await fse.writeFile(
+        settingsPath,
+        JSON.stringify(getConfigManager().encryptSecrets(settings), null, 2),
+        'utf-8'
+      );
       log.info('설정 저장 완료:', settingsPath);
+      applyNetworkSettingsFromConfig(settings);
+      applyTransferLimitsFromConfig(settings);
+      applyRegistryMirrorsFromConfig(settings);
+      applyRegistryCredentialsFromConfig(settings);
       return { success: true };
     } catch (error) {
       log.error('설정 저장 실패:', error);
@@ -65,6 +173,10 @@ export function registerConfigHandlers(): void {
       if (await fse.pathExists(settingsPath)) {
         await fse.remove(settingsPath);
       }
+      applyNetworkSettingsFromConfig(null);
+      applyTransferLimitsFromConfig(null);
+      applyRegistryMirrorsFromConfig(null);
+      applyRegistryCredentialsFromConfig(null);
       log.info('설정 초기화 완료');
       return { success: true };
     } catch (error) {
@@ -73,6 +185,24 @@ export function registerConfigHandlers(): void {
     }
   });
 
+  // .npmrc, pip.conf, ~/.m2/settings.xml에서 저장소 인증 정보 가져오기 IPC (저장은 렌더러가 설정 저장으로 수행)
+  ipcMain.handle('config:importRegistryCredentials', async () => {
+    try {
+      const result = importRegistryCredentials();
+      log.info('저장소 인증 정보 가져오기:', {
+        sources: result.sources,
+        credentials: result.credentials.map(describeRegistryCredential),
+        mavenMirrors: result.mavenMirrors.length,
+        pipIndexUrls: result.pipIndexUrls.length,
+        warnings: result.warnings,
+      });
+      return { success: true, ...result };
+    } catch (error) {
+      log.error('저장소 인증 정보 가져오기 실패:', error);
+      return { success: false, error: String(error) };
+    }
+  });
+
   // 설정 경로 반환 IPC
   ipcMain.handle('config:getPath', () => {
     return getSettingsPath();
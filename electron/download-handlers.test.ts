@@ -99,8 +99,14 @@ vi.mock('./utils/logger', () => ({
 vi.mock('../src/core/shared', () => ({
   getPyPIDownloadUrl: getPyPIDownloadUrlMock,
   downloadFile: downloadFileMock,
+  isNpmLockedPackage: (pkg: { type: string; metadata?: Record<string, unknown> }) =>
+    pkg.type === 'npm' && typeof pkg.metadata?.lockfile === 'string',
+  getPythonTargetSlugs: (pkg: { metadata?: Record<string, unknown> }) =>
+    pkg.metadata?.pythonTargets as string[] | undefined,
   createZipArchive: createZipArchiveMock,
   generateInstallScripts: generateInstallScriptsMock,
+  buildCargoSource: vi.fn(),
+  getCargoCrateFileName: (name: string, version: string) => `${name}-${version}.crate`,
 }));
 
 vi.mock('../src/core', () =>
@@ -122,6 +128,22 @@ vi.mock('../src/core', () =>
   }) satisfies Partial<CoreModule>
 );
 
+vi.mock('../src/core/download-session-journal', () => ({
+  getDownloadSessionJournal: () => ({
+    createSession: vi.fn(async (input: { source: string; items: Array<{ id: string; package: unknown }> }) => ({
+      id: 'journal-1',
+      source: input.source,
+      items: input.items.map((item) => ({ ...item, status: 'pending' })),
+    })),
+    prepareResume: vi.fn(async () => null),
+    markItemCompleted: vi.fn(async () => undefined),
+    markItemFailed: vi.fn(async () => undefined),
+    setStatus: vi.fn(async () => undefined),
+    removeSession: vi.fn(async () => true),
+    listSessions: vi.fn(async () => []),
+  }),
+}));
+
 vi.mock('../src/core/packager/archive-packager', () => ({
   getArchivePackager: vi.fn(() => ({
     createArchiveFromDirectory: createArchiveFromDirectoryMock,
@@ -792,7 +814,9 @@ describe('registerDownloadHandlers', () => {
             id: 'pip-requests-2.28.0',
             name: 'requests',
           }),
-        ]
+        ],
+        undefined,
+        { docker: { outputFormat: undefined, sessionBundle: false }, cargoVendorDir: undefined }
       );
       expect(createArchiveFromDirectoryMock).toHaveBeenCalledWith(
         outputDir,
@@ -894,6 +918,77 @@ describe('registerDownloadHandlers', () => {
     });
   });
 
+  it('잠금 파일 npm 패키지는 기록된 tarball URL로 받고 integrity가 다르면 실패 처리해야 함', async () => {
+    const getPackageMetadata = vi.fn();
+    const verifyIntegrity = vi.fn().mockResolvedValue(false);
+    getNpmDownloaderMock.mockReturnValue({ getPackageMetadata, verifyIntegrity });
+
+    registerDownloadHandlers(() => ({
+      webContents: {
+        send: webContentsSend,
+      },
+    }) as never);
+
+    const downloadStartHandler = ipcHandle.mock.calls.find(
+      ([channel]) => channel === 'download:start'
+    )?.[1];
+
+    const outputDir = path.join(tempDir, 'npm-lockfile-output');
+    const tarballUrl = 'https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz';
+
+    await downloadStartHandler(
+      {},
+      {
+        packages: [
+          {
+            id: 'npm-lodash-4.17.21',
+            type: 'npm',
+            name: 'lodash',
+            version: '4.17.21',
+            metadata: {
+              lockfile: 'package-lock',
+              downloadUrl: tarballUrl,
+              integrity: 'sha512-expected',
+            },
+          },
+        ],
+        options: {
+          outputDir,
+          outputFormat: 'tar.gz',
+          includeScripts: false,
+          concurrency: 1,
+        },
+      }
+    );
+
+    await waitForExpectation(() => {
+      expect(getPackageMetadata).not.toHaveBeenCalled();
+      expect(downloadFileMock).toHaveBeenCalledWith(
+        tarballUrl,
+        expect.stringContaining('lodash-4.17.21.tgz'),
+        expect.any(Function),
+        expect.any(Object)
+      );
+      expect(verifyIntegrity).toHaveBeenCalledWith(
+        expect.stringContaining('lodash-4.17.21.tgz'),
+        'sha512-expected'
+      );
+      expect(webContentsSend).toHaveBeenCalledWith(
+        'download:all-complete',
+        expect.objectContaining({
+          success: false,
+          results: [
+            {
+              id: 'npm-lodash-4.17.21',
+              success: false,
+              error: '무결성 검증 실패 (integrity): lodash@4.17.21',
+            },
+          ],
+        })
+      );
+    });
+  });
+
   it('다운로드 완료 직후 취소되면 패키징과 메일 전달 없이 cancelled 완료 이벤트로 끝나야 함', async () => {
     let resolveDownload!: () => void;
     downloadFileMock.mockImplementationOnce(
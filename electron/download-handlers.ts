@@ -41,6 +41,14 @@ export function registerDownloadHandlers(windowGetter: () => BrowserWindow | nul
     return downloadOrchestrator.clearPath(outputDir);
   });
 
+  ipcMain.handle('download:sessions:list', async () => {
+    return downloadOrchestrator.listSessions();
+  });
+
+  ipcMain.handle('download:sessions:discard', async (_event, sessionId: string) => {
+    return downloadOrchestrator.discardSession(sessionId);
+  });
+
   ipcMain.handle('os:resolveDependencies', async (_event, options) => {
     return osDownloadOrchestrator.resolveDependencies(options);
   });
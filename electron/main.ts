@@ -1,22 +1,23 @@
 import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
 import * as path from 'path';
-import * as https from 'https';
 import * as fse from 'fs-extra';
 import axios from 'axios';
 
 // SSL 인증서 검증 비활성화 (기업 프록시/방화벽 환경 지원)
 // 환경변수로 제어 가능: DEPSSMUGGLER_STRICT_SSL=true로 설정하면 검증 활성화
+// axios/fetch 에이전트에는 registerConfigHandlers()에서 네트워크 설정과 함께 적용됨
 if (process.env.DEPSSMUGGLER_STRICT_SSL !== 'true') {
   process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
-
-  // axios 기본 설정에 httpsAgent 추가
-  axios.defaults.httpsAgent = new https.Agent({
-    rejectUnauthorized: false
-  });
 }
 import { createScopedLogger } from './utils/logger';
 import { logger as coreLogger } from '../src/utils/logger';
 import { EmailSender } from '../src/core/mailer/email-sender';
+import {
+  resolveRegistryMirrors,
+  testRegistryMirror,
+  type RegistryEcosystem,
+  type RegistryMirror,
+} from '../src/core/shared/registry-mirrors';
 
 // 스코프별 로거 생성
 const log = createScopedLogger('Main');
@@ -284,6 +285,23 @@ ipcMain.handle('test-smtp-connection', async (_, config: {
   }
 });
 
+ipcMain.handle('test-registry-mirror', async (_, config: RegistryMirror & { ecosystem: RegistryEcosystem }) => {
+  const { ecosystem, ...mirror } = config;
+  try {
+    // 저장 전 입력값 검증 (URL 형식)
+    const [resolved] = resolveRegistryMirrors({ [ecosystem]: [mirror] })[ecosystem] ?? [];
+    if (!resolved) {
+      return { success: false, error: '미러 URL을 입력하세요' };
+    }
+    return await testRegistryMirror(ecosystem, resolved);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+});
+
 // 파일 저장 다이얼로그
 ipcMain.handle('save-file', async (_, defaultPath: string) => {
   const result = await dialog.showSaveDialog(mainWindow!, {
@@ -26,11 +26,20 @@ const electronAPI = {
     from?: string;
   }): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('test-smtp-connection', config),
+  testRegistryMirror: (config: {
+    ecosystem: string;
+    url: string;
+    username?: string;
+    password?: string;
+    token?: string;
+  }): Promise<{ success: boolean; url?: string; status?: number; latencyMs?: number; error?: string }> =>
+    ipcRenderer.invoke('test-registry-mirror', config),
 
   // 다운로드 관련
   download: {
     start: (data: {
       sessionId?: number;
+      resumeSessionId?: string;
       packages: unknown[];
       options: {
         outputDir: string;
@@ -40,6 +49,7 @@ const electronAPI = {
         architecture?: string;
         includeDependencies?: boolean;
         pythonVersion?: string;
+        pythonTargets?: Array<{ targetOS: string; architecture: string; pythonVersion: string }>;
         concurrency?: number;
         deliveryMethod?: 'local' | 'email';
         email?: {
@@ -77,6 +87,20 @@ const electronAPI = {
       success: boolean;
       deleted?: boolean;
     }> => ipcRenderer.invoke('download:clear-path', outputDir),
+    // 중단된 다운로드 세션 (앱 재시작 후 재개/삭제)
+    sessions: {
+      list: (): Promise<Array<{
+        id: string;
+        status: 'running' | 'completed' | 'failed' | 'cancelled';
+        createdAt: string;
+        updatedAt: string;
+        outputDir: string;
+        packages: unknown[];
+        completedPackageIds: string[];
+      }>> => ipcRenderer.invoke('download:sessions:list'),
+      discard: (sessionId: string): Promise<{ success: boolean }> =>
+        ipcRenderer.invoke('download:sessions:discard', sessionId),
+    },
     onProgress: (callback: (progress: {
       sessionId?: number;
       packageId: string;
@@ -169,6 +193,7 @@ const electronAPI = {
     set: (config: unknown): Promise<{ success: boolean; error?: string }> => ipcRenderer.invoke('config:set', config),
     reset: (): Promise<{ success: boolean; error?: string }> => ipcRenderer.invoke('config:reset'),
     getPath: (): Promise<string> => ipcRenderer.invoke('config:getPath'),
+    importRegistryCredentials: (): Promise<unknown> => ipcRenderer.invoke('config:importRegistryCredentials'),
   },
 
   // 패키지 메타데이터 캐시 관련
@@ -274,6 +299,10 @@ const electronAPI = {
       dependencyTrees?: unknown[];
       failedPackages?: unknown[];
     }> => ipcRenderer.invoke('dependency:resolve', data),
+    importProjectFile: (fileName: string, content: string): Promise<{
+      type: 'maven' | 'go' | 'cargo';
+      packages: Array<{ type: string; name: string; version: string; metadata?: Record<string, unknown> }>;
+    }> => ipcRenderer.invoke('dependency:importProjectFile', fileName, content),
     onProgress: (callback: (progress: {
       current: number;
       total: number;
@@ -333,6 +362,7 @@ const electronAPI = {
       architecture: string;
       matchType?: string;
       limit?: number;
+      moduleStreams?: string[];
     }): Promise<{ packages: unknown[]; totalCount: number }> =>
       ipcRenderer.invoke('os:search', options),
 
@@ -23,6 +23,7 @@ const {
   },
   dependencyResolveService: {
     resolveDependencies: vi.fn(),
+    importProjectFile: vi.fn(),
   },
   osSearchService: {
     getDistributions: vi.fn(),
@@ -141,4 +142,32 @@ describe('search handler wiring', () => {
       sender
     );
   });
+
+  it('dependency:importProjectFile 핸들러가 dependency resolve service로 파일 내용을 전달한다', async () => {
+    const imported = {
+      type: 'maven',
+      packages: [
+        {
+          type: 'maven',
+          name: 'com.google.guava:guava',
+          version: '33.0.0-jre',
+          metadata: { projectFile: 'gradle-lockfile' },
+        },
+      ],
+    };
+    dependencyResolveService.importProjectFile.mockResolvedValue(imported);
+    registerSearchHandlers();
+
+    const importProjectFileHandler = ipcHandle.mock.calls.find(
+      ([channel]) => channel === 'dependency:importProjectFile'
+    )?.[1];
+
+    expect(importProjectFileHandler).toBeTypeOf('function');
+
+    const content = 'com.google.guava:guava:33.0.0-jre=runtimeClasspath\n';
+    const result = await importProjectFileHandler({}, 'gradle.lockfile', content);
+
+    expect(dependencyResolveService.importProjectFile).toHaveBeenCalledWith('gradle.lockfile', content);
+    expect(result).toEqual(imported);
+  });
 });
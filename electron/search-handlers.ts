@@ -37,6 +37,13 @@ export function registerSearchHandlers(): void {
     );
   });
 
+  ipcMain.handle(
+    'dependency:importProjectFile',
+    async (_event, fileName: string, content: string) => {
+      return dependencyResolveService.importProjectFile(fileName, content);
+    }
+  );
+
   ipcMain.handle('os:getDistributions', async (_event, osType) => {
     return osSearchService.getDistributions(osType);
   });
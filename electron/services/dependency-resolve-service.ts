@@ -1,6 +1,18 @@
 import { createScopedLogger } from '../utils/logger';
-import { resolveAllDependencies } from '../../src/core/shared';
-import type { DownloadPackage } from '../../src/core/shared';
+import {
+  detectCargoProjectFileFormat,
+  detectMavenProjectFileFormat,
+  formatPythonDownloadTarget,
+  getPythonTargetSlugs,
+  isGoModFile,
+  mergePythonTargetPackages,
+  resolveAllDependencies,
+  resolveCargoProjectFile,
+  resolveGoModFile,
+  resolveMavenProjectFile,
+} from '../../src/core/shared';
+import type { DependencyResolverOptions, DownloadPackage } from '../../src/core/shared';
+import type { PythonDownloadTarget } from '../../src/types';
 
 const log = createScopedLogger('DependencyResolveService');
 
@@ -14,11 +26,13 @@ export function createDependencyResolveService() {
             targetOS?: string;
             architecture?: string;
             pythonVersion?: string;
+            muslVersion?: string;
             cudaVersion?: string | null;
-            yumDistribution?: { id: string; architecture: string };
+            yumDistribution?: { id: string; architecture: string; moduleStreams?: string[] };
             aptDistribution?: { id: string; architecture: string };
             apkDistribution?: { id: string; architecture: string };
             includeRecommends?: boolean;
+            pythonTargets?: PythonDownloadTarget[];
           }
         | undefined,
       sender: { send: (channel: string, payload: unknown) => void }
@@ -29,11 +43,12 @@ export function createDependencyResolveService() {
         }, python: ${options?.pythonVersion || 'any'}, cuda: ${options?.cudaVersion || 'none'})`
       );
 
-      const resolved = await resolveAllDependencies(packages, {
+      const resolverOptions: DependencyResolverOptions = {
         includeDependencies: options?.includeDependencies,
-        targetOS: options?.targetOS as 'any' | 'windows' | 'macos' | 'linux' | undefined,
+        targetOS: options?.targetOS as DependencyResolverOptions['targetOS'],
         architecture: options?.architecture,
         pythonVersion: options?.pythonVersion,
+        muslVersion: options?.muslVersion,
         cudaVersion: options?.cudaVersion,
         yumDistribution: options?.yumDistribution,
         aptDistribution: options?.aptDistribution,
@@ -42,14 +57,88 @@ export function createDependencyResolveService() {
         onProgress: (progress) => {
           sender.send('dependency:progress', progress);
         },
+      };
+
+      const pythonTargets = options?.pythonTargets ?? [];
+      const pythonPackages = packages.filter((pkg) => pkg.type === 'pip' || pkg.type === 'conda');
+      if (pythonTargets.length === 0 || pythonPackages.length === 0) {
+        const resolved = await resolveAllDependencies(packages, resolverOptions);
+
+        return {
+          originalPackages: packages,
+          allPackages: resolved.allPackages,
+          dependencyTrees: resolved.dependencyTrees,
+          failedPackages: resolved.failedPackages,
+        };
+      }
+
+      // 멀티 타겟: pip/conda는 대상마다 따로 해결한 뒤 같은 파일을 합친다
+      const otherPackages = packages.filter((pkg) => pkg.type !== 'pip' && pkg.type !== 'conda');
+      const others = otherPackages.length > 0
+        ? await resolveAllDependencies(otherPackages, resolverOptions)
+        : { allPackages: [], dependencyTrees: [], failedPackages: [] };
+      const targetResults: Array<{ target: PythonDownloadTarget; packages: DownloadPackage[] }> = [];
+      const dependencyTrees = [...others.dependencyTrees];
+      const failedPackages = [...others.failedPackages];
+
+      for (const target of pythonTargets) {
+        log.info(`Resolving ${pythonPackages.length} python packages for ${formatPythonDownloadTarget(target)}`);
+        // 의존성을 포함하지 않아도 대상별 파일을 골라야 하므로 루트 아티팩트만 해결
+        const resolved = await resolveAllDependencies(pythonPackages, {
+          ...resolverOptions,
+          targetOS: target.targetOS,
+          architecture: target.architecture,
+          pythonVersion: target.pythonVersion,
+          includeDependencies: true,
+          ...(options?.includeDependencies === false ? { maxDepth: 0, resolveRootArtifactsOnly: true } : {}),
+        });
+        targetResults.push({ target, packages: resolved.allPackages });
+        dependencyTrees.push(...resolved.dependencyTrees);
+        failedPackages.push(...resolved.failedPackages.map((failed) => ({
+          ...failed,
+          error: `[${formatPythonDownloadTarget(target)}] ${failed.error}`,
+        })));
+      }
+
+      // 루트 패키지는 대상마다 장바구니 ID를 그대로 쓰므로 대상별 파일이 다르면 ID를 구분한다
+      const usedIds = new Set(others.allPackages.map((pkg) => pkg.id));
+      const targetPackages = mergePythonTargetPackages(targetResults).map((pkg) => {
+        const id = usedIds.has(pkg.id) ? `${pkg.id}-${getPythonTargetSlugs(pkg)?.join('+')}` : pkg.id;
+        usedIds.add(id);
+        return id === pkg.id ? pkg : { ...pkg, id };
       });
 
       return {
         originalPackages: packages,
-        allPackages: resolved.allPackages,
-        dependencyTrees: resolved.dependencyTrees,
-        failedPackages: resolved.failedPackages,
+        allPackages: [...others.allPackages, ...targetPackages],
+        dependencyTrees,
+        failedPackages,
       };
     },
+
+    async importProjectFile(fileName: string, content: string) {
+      // go.mod만 전달되므로 go.sum 대신 체크섬 데이터베이스로 검증
+      if (isGoModFile(fileName)) {
+        log.info(`Importing go.mod: ${fileName}`);
+        const packages = await resolveGoModFile(content);
+        return { type: 'go' as const, packages };
+      }
+
+      const cargoFormat = detectCargoProjectFileFormat(fileName);
+      if (cargoFormat) {
+        log.info(`Importing Cargo project file: ${fileName} (${cargoFormat})`);
+        const packages = await resolveCargoProjectFile(content, cargoFormat);
+        return { type: 'cargo' as const, packages };
+      }
+
+      const format = detectMavenProjectFileFormat(fileName);
+      if (!format) {
+        throw new Error(`지원하지 않는 프로젝트 파일입니다: ${fileName}`);
+      }
+
+      log.info(`Importing Maven project file: ${fileName} (${format})`);
+      const packages = await resolveMavenProjectFile(content, format);
+      return { type: 'maven' as const, packages };
+    },
   };
 }
@@ -2,6 +2,23 @@ import * as path from 'path';
 import { describe, expect, it, vi } from 'vitest';
 import { createEmailSenderMock } from '../../src/core/mailer/__mocks__/email-sender-mock';
 
+// 테스트가 ~/.depssmuggler/sessions에 저널을 남기지 않도록 메모리 저널 사용
+vi.mock('../../src/core/download-session-journal', () => ({
+  getDownloadSessionJournal: () => ({
+    createSession: vi.fn(async (input: { source: string; items: Array<{ id: string; package: unknown }> }) => ({
+      id: 'journal-1',
+      source: input.source,
+      items: input.items.map((item) => ({ ...item, status: 'pending' })),
+    })),
+    prepareResume: vi.fn(async () => null),
+    markItemCompleted: vi.fn(async () => undefined),
+    markItemFailed: vi.fn(async () => undefined),
+    setStatus: vi.fn(async () => undefined),
+    removeSession: vi.fn(async () => true),
+    listSessions: vi.fn(async () => []),
+  }),
+}));
+
 const createDeferred = <T>() => {
   let resolve!: (value: T | PromiseLike<T>) => void;
   let reject!: (reason?: unknown) => void;
@@ -658,4 +675,67 @@ describe('createDownloadOrchestrator', () => {
       })
     );
   });
+
+  it('저널의 GUI 세션을 재개 목록으로 요약하고 삭제할 수 있다', async () => {
+    const { createDownloadOrchestrator } = await import('./download-orchestrator');
+    const sessionJournal = {
+      createSession: vi.fn(),
+      prepareResume: vi.fn(),
+      markItemCompleted: vi.fn(),
+      markItemFailed: vi.fn(),
+      setStatus: vi.fn(),
+      removeSession: vi.fn().mockResolvedValue(true),
+      listSessions: vi.fn().mockResolvedValue([
+        {
+          id: '1760000000000-abc123',
+          source: 'gui',
+          status: 'running',
+          createdAt: '2026-10-19T00:00:00.000Z',
+          updatedAt: '2026-10-19T00:05:00.000Z',
+          outputDir: '/tmp/out',
+          options: { outputDir: '/tmp/out' },
+          items: [
+            {
+              id: 'pip-1',
+              package: { id: 'pip-1', type: 'pip', name: 'requests', version: '2.32.0' },
+              status: 'completed',
+              filePath: '/tmp/out/packages/requests-2.32.0-py3-none-any.whl',
+              sha256: 'abc',
+            },
+            {
+              id: 'pip-2',
+              package: { id: 'pip-2', type: 'pip', name: 'urllib3', version: '2.1.0' },
+              status: 'pending',
+            },
+          ],
+        },
+      ]),
+    };
+    const orchestrator = createDownloadOrchestrator({
+      getMainWindow: () => null,
+      createProgressEmitter: () => ({}) as never,
+      createPackageRouter: () => ({ downloadPackage: vi.fn() }),
+      archivePackager: createArchivePackagerMock() as never,
+      sessionJournal: sessionJournal as never,
+    });
+
+    await expect(orchestrator.listSessions()).resolves.toEqual([
+      {
+        id: '1760000000000-abc123',
+        status: 'running',
+        createdAt: '2026-10-19T00:00:00.000Z',
+        updatedAt: '2026-10-19T00:05:00.000Z',
+        outputDir: '/tmp/out',
+        packages: [
+          { id: 'pip-1', type: 'pip', name: 'requests', version: '2.32.0' },
+          { id: 'pip-2', type: 'pip', name: 'urllib3', version: '2.1.0' },
+        ],
+        completedPackageIds: ['pip-1'],
+      },
+    ]);
+    expect(sessionJournal.listSessions).toHaveBeenCalledWith('gui');
+
+    await expect(orchestrator.discardSession('1760000000000-abc123')).resolves.toEqual({ success: true });
+    expect(sessionJournal.removeSession).toHaveBeenCalledWith('1760000000000-abc123');
+  });
 });
@@ -16,10 +16,15 @@ import {
   createDownloadProgressEmitter,
   type DownloadProgressEmitter,
 } from './download-progress';
+import {
+  getDownloadSessionJournal,
+  type DownloadSessionJournal,
+  type DownloadSessionStatus,
+} from '../../src/core/download-session-journal';
 import { initializeEmailSender } from '../../src/core/mailer/email-sender';
 import { getArchivePackager } from '../../src/core/packager/archive-packager';
 import { getFileSplitter } from '../../src/core/packager/file-splitter';
-import { generateInstallScripts } from '../../src/core/shared';
+import { buildCargoSource, generateInstallScripts } from '../../src/core/shared';
 import { createScopedLogger } from '../utils/logger';
 import type { ConcurrencyLimiterFactory } from './download/concurrency-limiter';
 import type { DownloadOptions, DownloadPackage } from '../../src/core/shared';
@@ -41,13 +46,38 @@ export interface DownloadOrchestratorDeps {
   ) => DownloadProgressEmitter;
   archivePackager?: ReturnType<typeof getArchivePackager>;
   generateInstallScripts?: typeof generateInstallScripts;
+  buildCargoSource?: typeof buildCargoSource;
   initializeEmailSender?: typeof initializeEmailSender;
   getFileSplitter?: typeof getFileSplitter;
+  sessionJournal?: Pick<
+    DownloadSessionJournal,
+    | 'createSession'
+    | 'prepareResume'
+    | 'markItemCompleted'
+    | 'markItemFailed'
+    | 'setStatus'
+    | 'removeSession'
+    | 'listSessions'
+  >;
+}
+
+/**
+ * 재개할 수 있는 다운로드 세션 요약 (시작 시 재개/삭제 목록)
+ */
+export interface DownloadSessionSummary {
+  id: string;
+  status: DownloadSessionStatus;
+  createdAt: string;
+  updatedAt: string;
+  outputDir: string;
+  packages: DownloadPackage[];
+  completedPackageIds: string[];
 }
 
 export interface DownloadOrchestrator {
   startDownload(data: {
     sessionId?: number;
+    resumeSessionId?: string;
     packages: DownloadPackage[];
     options: DownloadOptions;
   }): Promise<{ success: true; started: true }>;
@@ -58,6 +88,8 @@ export interface DownloadOrchestrator {
     outputDir: string
   ): Promise<{ exists: boolean; files: string[]; fileCount: number; totalSize: number }>;
   clearPath(outputDir: string): Promise<{ success: boolean; deleted: boolean }>;
+  listSessions(): Promise<DownloadSessionSummary[]>;
+  discardSession(sessionId: string): Promise<{ success: boolean }>;
 }
 
 export function createDownloadOrchestrator(
@@ -80,8 +112,10 @@ export function createDownloadOrchestrator(
   const createProgressEmitter = deps.createProgressEmitter ?? createDownloadProgressEmitter;
   const archivePackager = deps.archivePackager ?? getArchivePackager();
   const installScripts = deps.generateInstallScripts ?? generateInstallScripts;
+  const cargoSourceBuilder = deps.buildCargoSource ?? buildCargoSource;
   const emailSenderFactory = deps.initializeEmailSender ?? initializeEmailSender;
   const fileSplitterFactory = deps.getFileSplitter ?? getFileSplitter;
+  const sessionJournal = deps.sessionJournal ?? getDownloadSessionJournal();
 
   const progressEmitter = createProgressEmitter(deps.getMainWindow);
   const packageRouter = createPackageRouter();
@@ -89,6 +123,7 @@ export function createDownloadOrchestrator(
   const deliveryPipeline = createDeliveryPipeline({
     archivePackager,
     generateInstallScripts: installScripts,
+    buildCargoSource: cargoSourceBuilder,
     initializeEmailSender: emailSenderFactory,
     getFileSplitter: fileSplitterFactory,
     stat,
@@ -98,6 +133,7 @@ export function createDownloadOrchestrator(
     createLimiter,
     packageRouter,
     deliveryPipeline,
+    sessionJournal,
   });
 
   return {
@@ -190,5 +226,34 @@ export function createDownloadOrchestrator(
         return { success: false, deleted: false };
       }
     },
+
+    async listSessions() {
+      try {
+        const records = await sessionJournal.listSessions('gui');
+        return records.map((record) => ({
+          id: record.id,
+          status: record.status,
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+          outputDir: record.outputDir,
+          packages: record.items.map((item) => item.package as DownloadPackage),
+          completedPackageIds: record.items
+            .filter((item) => item.status === 'completed')
+            .map((item) => item.id),
+        }));
+      } catch (error) {
+        log.error('Failed to list download sessions:', error);
+        return [];
+      }
+    },
+
+    async discardSession(sessionId) {
+      try {
+        return { success: await sessionJournal.removeSession(sessionId) };
+      } catch (error) {
+        log.error('Failed to discard download session:', error);
+        return { success: false };
+      }
+    },
   };
 }
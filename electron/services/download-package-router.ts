@@ -1,18 +1,28 @@
 import * as path from 'path';
 import * as fse from 'fs-extra';
 import { createScopedLogger } from '../utils/logger';
-import { getPyPIDownloadUrl, downloadFile } from '../../src/core/shared';
+import {
+  getPyPIDownloadUrl,
+  getPythonTargetSlugs,
+  downloadFile,
+  isNpmLockedPackage,
+} from '../../src/core/shared';
 import type {
   Architecture,
   DownloadOptions,
   DownloadPackage,
 } from '../../src/core/shared';
 import {
+  getCargoDownloader,
   getCondaDownloader,
   getDockerDownloader,
+  getGoDownloader,
   getMavenDownloader,
   getNpmDownloader,
+  getNuGetDownloader,
 } from '../../src/core';
+import type { IDownloader } from '../../src/types';
+import type { DockerSessionBundle } from '../../src/core/downloaders/docker-session-bundle';
 import type { DownloadProgressEmitter } from './download-progress';
 
 const log = createScopedLogger('DownloadPackageRouter');
@@ -21,6 +31,8 @@ export interface DownloadPackageResult {
   id: string;
   success: boolean;
   error?: string;
+  /** 받은 파일 경로 (세션 재개 시 검증용, 여러 파일로 구성되는 타입은 생략) */
+  filePath?: string;
 }
 
 export interface DownloadExecutionState {
@@ -35,6 +47,8 @@ export interface DownloadPackageContext {
   options: DownloadOptions;
   progressEmitter: DownloadProgressEmitter;
   state: DownloadExecutionState;
+  /** 세션 내 Docker 이미지가 레이어를 공유하는 번들 (이미지가 여러 개일 때) */
+  dockerSessionBundle?: DockerSessionBundle;
 }
 
 export interface DownloadPackageRouter {
@@ -79,6 +93,21 @@ export function createDownloadPackageRouter(): DownloadPackageRouter {
           return await downloadDockerImage(pkg, context);
         }
 
+        // packagesDir/cache/download 아래에 GOPROXY 파일 트리로 저장
+        if (pkg.type === 'go') {
+          return await downloadWithLanguageDownloader(pkg, context, getGoDownloader());
+        }
+
+        // packagesDir/<name>-<version>.crate (sha256 검증)
+        if (pkg.type === 'cargo') {
+          return await downloadWithLanguageDownloader(pkg, context, getCargoDownloader());
+        }
+
+        // packagesDir/nuget-feed/<id>/<version>/ 로컬 NuGet 피드로 저장
+        if (pkg.type === 'nuget') {
+          return await downloadWithLanguageDownloader(pkg, context, getNuGetDownloader());
+        }
+
         const downloadTarget = await resolveDownloadTarget(pkg, options);
         if (!downloadTarget) {
           throw new Error(`다운로드 URL을 찾을 수 없습니다: ${pkg.name}@${pkg.version}`);
@@ -133,6 +162,14 @@ export function createDownloadPackageRouter(): DownloadPackageRouter {
           }
         );
 
+        if (
+          downloadTarget.integrity &&
+          !(await getNpmDownloader().verifyIntegrity(destinationPath, downloadTarget.integrity))
+        ) {
+          await fse.remove(destinationPath);
+          throw new Error(`무결성 검증 실패 (integrity): ${pkg.name}@${pkg.version}`);
+        }
+
         progressEmitter.emitPackageProgress(
           pkg.id,
           {
@@ -145,7 +182,7 @@ export function createDownloadPackageRouter(): DownloadPackageRouter {
           true
         );
         progressEmitter.clearPackageProgress(pkg.id);
-        return { id: pkg.id, success: true };
+        return { id: pkg.id, success: true, filePath: destinationPath };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         log.error(`Download failed for ${pkg.name}:`, errorMessage);
@@ -171,17 +208,29 @@ export function createDownloadPackageRouter(): DownloadPackageRouter {
 async function resolveDownloadTarget(
   pkg: DownloadPackage,
   options: DownloadOptions
-): Promise<{ url: string; filename: string } | null> {
-  const { architecture, targetOS, pythonVersion } = options;
+): Promise<{ url: string; filename: string; integrity?: string } | null> {
+  const { architecture, targetOS, pythonVersion, muslVersion } = options;
 
   if (pkg.type === 'pip') {
+    // 멀티 타겟으로 해결한 패키지는 대상별로 고른 파일을 그대로 받는다
+    const targetDownloadUrl = getPythonTargetSlugs(pkg)
+      ? pkg.downloadUrl || (pkg.metadata?.downloadUrl as string | undefined)
+      : undefined;
+    if (targetDownloadUrl) {
+      return {
+        url: targetDownloadUrl,
+        filename: pkg.filename || path.basename(new URL(targetDownloadUrl).pathname),
+      };
+    }
+
     return getPyPIDownloadUrl(
       pkg.name,
       pkg.version,
       architecture || pkg.architecture,
       targetOS,
       pythonVersion,
-      pkg.indexUrl
+      pkg.indexUrl,
+      muslVersion
     );
   }
 
@@ -219,9 +268,15 @@ async function resolveDownloadTarget(
   }
 
   if (pkg.type === 'npm') {
-    const npmDownloader = getNpmDownloader();
-    const metadata = await npmDownloader.getPackageMetadata(pkg.name, pkg.version);
-    const tarballUrl = metadata.metadata?.downloadUrl;
+    // 잠금 파일 패키지는 기록된 tarball URL과 integrity를 그대로 사용
+    const locked = isNpmLockedPackage(pkg);
+    let tarballUrl = locked
+      ? (pkg.metadata?.downloadUrl as string | undefined) || pkg.downloadUrl
+      : undefined;
+    if (!tarballUrl) {
+      const metadata = await getNpmDownloader().getPackageMetadata(pkg.name, pkg.version);
+      tarballUrl = metadata.metadata?.downloadUrl;
+    }
     if (!tarballUrl) {
       return null;
     }
@@ -229,6 +284,7 @@ async function resolveDownloadTarget(
     return {
       url: tarballUrl,
       filename: path.basename(new URL(tarballUrl).pathname),
+      integrity: locked ? (pkg.metadata?.integrity as string | undefined) : undefined,
     };
   }
 
@@ -304,7 +360,8 @@ async function downloadMavenPackage(
     ? `${artifactId}-${pkg.version}-${classifier}.jar`
     : `${artifactId}-${pkg.version}.jar`;
   const flatDestinationPath = path.join(packagesDir, flatFileName);
-  if (jarPath && (await fse.pathExists(jarPath))) {
+  const copied = Boolean(jarPath && (await fse.pathExists(jarPath)));
+  if (copied) {
     await fse.copy(jarPath, flatDestinationPath);
   }
 
@@ -320,14 +377,60 @@ async function downloadMavenPackage(
     true
   );
   progressEmitter.clearPackageProgress(pkg.id);
-  return { id: pkg.id, success: true };
+  return { id: pkg.id, success: true, filePath: copied ? flatDestinationPath : undefined };
+}
+
+/**
+ * 다운로더가 출력 레이아웃을 직접 구성하는 타입 (Go, Cargo, NuGet)
+ */
+async function downloadWithLanguageDownloader(
+  pkg: DownloadPackage,
+  context: DownloadPackageContext,
+  downloader: IDownloader
+): Promise<DownloadPackageResult> {
+  const { packagesDir, progressEmitter } = context;
+  let totalBytes = 0;
+
+  const filePath = await downloader.downloadPackage(
+    {
+      type: downloader.type,
+      name: pkg.name,
+      version: pkg.version,
+      metadata: pkg.metadata,
+    },
+    packagesDir,
+    (progress) => {
+      totalBytes = progress.totalBytes;
+      progressEmitter.emitPackageProgress(pkg.id, {
+        status: 'downloading',
+        progress: progress.progress,
+        downloadedBytes: progress.downloadedBytes,
+        totalBytes: progress.totalBytes,
+        speed: progress.speed,
+      });
+    }
+  );
+
+  progressEmitter.emitPackageProgress(
+    pkg.id,
+    {
+      status: 'completed',
+      progress: 100,
+      downloadedBytes: totalBytes,
+      totalBytes,
+      speed: 0,
+    },
+    true
+  );
+  progressEmitter.clearPackageProgress(pkg.id);
+  return { id: pkg.id, success: true, filePath };
 }
 
 async function downloadDockerImage(
   pkg: DownloadPackage,
   context: DownloadPackageContext
 ): Promise<DownloadPackageResult> {
-  const { packagesDir, progressEmitter } = context;
+  const { packagesDir, options, progressEmitter } = context;
   const dockerDownloader = getDockerDownloader();
   const registry = (pkg.metadata?.registry as string) || 'docker.io';
   const architecture = (pkg.architecture || 'amd64') as Architecture;
@@ -348,7 +451,12 @@ async function downloadDockerImage(
         speed: progress.speed,
       });
     },
-    registry
+    registry,
+    {
+      outputFormat: options.dockerOutputFormat ?? 'docker-archive',
+      platforms: options.dockerPlatforms ?? [],
+      sessionBundle: context.dockerSessionBundle ?? null,
+    }
   );
 
   progressEmitter.emitPackageProgress(
@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { describe, expect, it, vi } from 'vitest';
 import { createDeliveryPipeline } from './delivery-pipeline';
 import { createEmailSenderMock } from '../../../src/core/mailer/__mocks__/email-sender-mock';
@@ -52,6 +53,7 @@ describe('createDeliveryPipeline', () => {
     const pipeline = createDeliveryPipeline({
       archivePackager: archivePackager as never,
       generateInstallScripts: vi.fn(),
+      buildCargoSource: vi.fn(),
       initializeEmailSender: vi.fn() as never,
       getFileSplitter: vi.fn() as never,
       stat: vi.fn() as never,
@@ -94,6 +96,7 @@ describe('createDeliveryPipeline', () => {
         createArchiveFromDirectory: vi.fn().mockResolvedValue('/tmp/out.tar.gz'),
       } as never,
       generateInstallScripts: vi.fn(),
+      buildCargoSource: vi.fn(),
       initializeEmailSender: vi.fn(() => createEmailSenderMock({ sendEmail })) as never,
       getFileSplitter: vi.fn() as never,
       stat: vi.fn().mockImplementation(async () => statDeferred.promise as never),
@@ -173,6 +176,7 @@ describe('createDeliveryPipeline', () => {
         createArchiveFromDirectory: vi.fn().mockResolvedValue('/tmp/out.tar.gz'),
       } as never,
       generateInstallScripts: vi.fn(),
+      buildCargoSource: vi.fn(),
       initializeEmailSender: vi.fn(() => createEmailSenderMock({ sendEmail })) as never,
       getFileSplitter: vi.fn(() => ({
         splitFile: vi.fn().mockResolvedValue({
@@ -234,4 +238,58 @@ describe('createDeliveryPipeline', () => {
       })
     );
   });
+
+  it('cargo 패키지가 있으면 vendor 디렉토리를 만들고 설치 스크립트에 전달해야 함', async () => {
+    const generateInstallScripts = vi.fn();
+    const buildCargoSource = vi.fn().mockResolvedValue({
+      sourceDir: '/tmp/out/packages/vendor',
+      format: 'vendor',
+      crateCount: 1,
+      files: [],
+    });
+    const pipeline = createDeliveryPipeline({
+      archivePackager: {
+        createArchiveFromDirectory: vi.fn().mockResolvedValue('/tmp/out.tar.gz'),
+      } as never,
+      generateInstallScripts,
+      buildCargoSource,
+      initializeEmailSender: vi.fn() as never,
+      getFileSplitter: vi.fn() as never,
+      stat: vi.fn() as never,
+    });
+    const crate = {
+      id: 'cargo-serde-1.0.200',
+      type: 'cargo' as const,
+      name: 'serde',
+      version: '1.0.200',
+    };
+
+    const completionPayload = await pipeline.finalizeDownload({
+      ...createBaseParams(),
+      options: {
+        outputDir: '/tmp/out',
+        outputFormat: 'tar.gz',
+        includeScripts: true,
+        deliveryMethod: 'local',
+      },
+      deliveredPackages: [...createBaseParams().deliveredPackages, crate],
+      progressEmitter: {
+        emitDownloadStatus: vi.fn(),
+      } as never,
+      isCancelled: () => false,
+    });
+
+    expect(buildCargoSource).toHaveBeenCalledWith(
+      path.join('/tmp/out', 'packages'),
+      [{ name: 'serde', version: '1.0.200', filePath: path.join('/tmp/out', 'packages', 'serde-1.0.200.crate') }],
+      { format: 'vendor' }
+    );
+    expect(generateInstallScripts).toHaveBeenCalledWith(
+      '/tmp/out',
+      expect.arrayContaining([crate]),
+      undefined,
+      expect.objectContaining({ cargoVendorDir: 'vendor' })
+    );
+    expect(completionPayload).toEqual(expect.objectContaining({ success: true }));
+  });
 });
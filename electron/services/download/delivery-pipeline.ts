@@ -1,8 +1,9 @@
+import * as path from 'path';
 import * as fse from 'fs-extra';
 import { initializeEmailSender } from '../../../src/core/mailer/email-sender';
 import { getArchivePackager } from '../../../src/core/packager/archive-packager';
 import { getFileSplitter } from '../../../src/core/packager/file-splitter';
-import { generateInstallScripts } from '../../../src/core/shared';
+import { buildCargoSource, generateInstallScripts, getCargoCrateFileName } from '../../../src/core/shared';
 import type { DownloadOptions, DownloadPackage } from '../../../src/core/shared';
 import type { PackageInfo } from '../../../src/types';
 import type { DownloadPackageResult } from '../download-package-router';
@@ -11,6 +12,7 @@ import type { DownloadProgressEmitter } from '../download-progress';
 export interface DeliveryPipelineDeps {
   archivePackager: ReturnType<typeof getArchivePackager>;
   generateInstallScripts: typeof generateInstallScripts;
+  buildCargoSource: typeof buildCargoSource;
   initializeEmailSender: typeof initializeEmailSender;
   getFileSplitter: typeof getFileSplitter;
   stat: typeof fse.stat;
@@ -24,6 +26,8 @@ export interface DeliveryPipeline {
     packageInfos: PackageInfo[];
     results: DownloadPackageResult[];
     failedDownloadCount: number;
+    /** 이번 실행이 Docker 세션 번들을 만들었는지 (미지정 시 이미지 수로 판단) */
+    dockerSessionBundle?: boolean;
     progressEmitter: DownloadProgressEmitter;
     isCancelled: () => boolean;
   }): Promise<Record<string, unknown>>;
@@ -39,6 +43,7 @@ export function createDeliveryPipeline(deps: DeliveryPipelineDeps): DeliveryPipe
         packageInfos,
         results,
         failedDownloadCount,
+        dockerSessionBundle,
         progressEmitter,
         isCancelled,
       } = params;
@@ -55,9 +60,41 @@ export function createDeliveryPipeline(deps: DeliveryPipelineDeps): DeliveryPipe
         };
       }
 
+      // Cargo: 받은 .crate를 source replacement로 쓸 vendor 디렉토리로 풀어 둠
+      let cargoVendorDir: string | undefined;
+      const cargoPackages = deliveredPackages.filter((pkg) => pkg.type === 'cargo');
+      if (cargoPackages.length > 0) {
+        try {
+          const packagesDir = path.join(outputDir, 'packages');
+          const source = await deps.buildCargoSource(
+            packagesDir,
+            cargoPackages.map((pkg) => ({
+              name: pkg.name,
+              version: pkg.version,
+              filePath: path.join(packagesDir, getCargoCrateFileName(pkg.name, pkg.version)),
+            })),
+            { format: 'vendor' }
+          );
+          cargoVendorDir = path.basename(source.sourceDir);
+        } catch (error) {
+          return {
+            success: false,
+            outputPath: outputDir,
+            error: error instanceof Error ? error.message : String(error),
+            results,
+          };
+        }
+      }
+
       if (includeScripts) {
         try {
-          deps.generateInstallScripts(outputDir, deliveredPackages);
+          await deps.generateInstallScripts(outputDir, deliveredPackages, options.pythonTargets, {
+            docker: {
+              outputFormat: options.dockerOutputFormat,
+              sessionBundle: dockerSessionBundle,
+            },
+            cargoVendorDir,
+          });
         } catch (error) {
           return {
             success: false,
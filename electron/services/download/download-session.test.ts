@@ -2,6 +2,21 @@ import * as path from 'path';
 import { describe, expect, it, vi } from 'vitest';
 import { createDownloadSessionRunner } from './download-session';
 
+const createSessionJournalMock = (
+  items: Array<{ id: string; status: 'pending' | 'completed' | 'failed' }> = []
+) => ({
+  createSession: vi.fn(async (input: { items: Array<{ id: string; package: unknown }> }) => ({
+    id: 'journal-1',
+    source: 'gui',
+    items: input.items.map((item) => ({ ...item, status: 'pending' })),
+  })),
+  prepareResume: vi.fn(async (sessionId: string) => ({ id: sessionId, source: 'gui', items })),
+  markItemCompleted: vi.fn(async () => undefined),
+  markItemFailed: vi.fn(async () => undefined),
+  setStatus: vi.fn(async () => undefined),
+  removeSession: vi.fn(async () => true),
+});
+
 describe('createDownloadSessionRunner', () => {
   it('성공한 패키지만 DeliveryPipeline으로 넘기고 completion payload를 emit해야 함', async () => {
     const ensureDir = vi.fn().mockResolvedValue(undefined);
@@ -23,12 +38,14 @@ describe('createDownloadSessionRunner', () => {
     const progressEmitter = {
       emitAllComplete: vi.fn(),
     };
+    const sessionJournal = createSessionJournalMock();
 
     const runner = createDownloadSessionRunner({
       ensureDir,
       createLimiter,
       packageRouter: packageRouter as never,
       deliveryPipeline: deliveryPipeline as never,
+      sessionJournal: sessionJournal as never,
     });
 
     await runner.run(
@@ -74,6 +91,7 @@ describe('createDownloadSessionRunner', () => {
           }),
         ],
         failedDownloadCount: 1,
+        dockerSessionBundle: false,
       })
     );
     expect(progressEmitter.emitAllComplete).toHaveBeenCalledWith({
@@ -81,6 +99,90 @@ describe('createDownloadSessionRunner', () => {
       outputPath: '/tmp/out.tar.gz',
       artifactPaths: ['/tmp/out.tar.gz'],
     });
+    expect(sessionJournal.createSession).toHaveBeenCalledWith(expect.objectContaining({
+      source: 'gui',
+      outputDir: '/tmp/out',
+    }));
+    expect(sessionJournal.markItemCompleted).toHaveBeenCalledWith('journal-1', 'pip-requests-2.32.0', undefined);
+    expect(sessionJournal.markItemFailed).toHaveBeenCalledWith('journal-1', 'pip-urllib3-2.1.0', 'network failed');
+    // 실패한 패키지가 있으면 다음 실행에서 재개할 수 있게 저널을 남김
+    expect(sessionJournal.setStatus).toHaveBeenCalledWith('journal-1', 'failed');
+    expect(sessionJournal.removeSession).not.toHaveBeenCalled();
+  });
+
+  it('재개 세션에서 검증된 완료 패키지는 다시 받지 않고 전달 대상에 포함해야 함', async () => {
+    const downloadPackage = vi.fn().mockResolvedValue({
+      id: 'pip-urllib3-2.1.0',
+      success: true,
+      filePath: '/tmp/out/packages/urllib3-2.1.0-py3-none-any.whl',
+    });
+    const deliveryPipeline = {
+      finalizeDownload: vi.fn().mockResolvedValue({ success: true, outputPath: '/tmp/out.tar.gz' }),
+    };
+    const progressEmitter = {
+      emitAllComplete: vi.fn(),
+      emitPackageProgress: vi.fn(),
+      clearPackageProgress: vi.fn(),
+    };
+    const sessionJournal = createSessionJournalMock([
+      { id: 'pip-requests-2.32.0', status: 'completed' },
+      { id: 'pip-urllib3-2.1.0', status: 'pending' },
+    ]);
+    const runner = createDownloadSessionRunner({
+      ensureDir: vi.fn().mockResolvedValue(undefined),
+      createLimiter: () => (async (task: () => Promise<unknown>) => task()) as never,
+      packageRouter: { downloadPackage } as never,
+      deliveryPipeline: deliveryPipeline as never,
+      sessionJournal: sessionJournal as never,
+    });
+
+    await runner.run(
+      {
+        resumeSessionId: '1760000000000-abc123',
+        packages: [
+          { id: 'pip-requests-2.32.0', type: 'pip', name: 'requests', version: '2.32.0' },
+          { id: 'pip-urllib3-2.1.0', type: 'pip', name: 'urllib3', version: '2.1.0' },
+        ],
+        options: {
+          outputDir: '/tmp/out',
+          outputFormat: 'tar.gz',
+          includeScripts: false,
+          concurrency: 1,
+        },
+      },
+      progressEmitter as never,
+      {
+        isCancelled: () => false,
+        isPaused: () => false,
+        waitWhilePaused: async () => undefined,
+      }
+    );
+
+    expect(sessionJournal.prepareResume).toHaveBeenCalledWith('1760000000000-abc123');
+    expect(sessionJournal.createSession).not.toHaveBeenCalled();
+    expect(downloadPackage).toHaveBeenCalledTimes(1);
+    expect(downloadPackage).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'pip-urllib3-2.1.0' }),
+      expect.anything()
+    );
+    expect(progressEmitter.emitPackageProgress).toHaveBeenCalledWith(
+      'pip-requests-2.32.0',
+      expect.objectContaining({ status: 'completed', progress: 100 }),
+      true
+    );
+    expect(sessionJournal.markItemCompleted).toHaveBeenCalledWith(
+      '1760000000000-abc123',
+      'pip-urllib3-2.1.0',
+      '/tmp/out/packages/urllib3-2.1.0-py3-none-any.whl'
+    );
+    expect(deliveryPipeline.finalizeDownload).toHaveBeenCalledWith(expect.objectContaining({
+      deliveredPackages: [
+        expect.objectContaining({ id: 'pip-requests-2.32.0' }),
+        expect.objectContaining({ id: 'pip-urllib3-2.1.0' }),
+      ],
+      failedDownloadCount: 0,
+    }));
+    expect(sessionJournal.removeSession).toHaveBeenCalledWith('1760000000000-abc123');
   });
 
   it('다운로드 이후 세션이 취소되면 DeliveryPipeline 없이 cancelled 완료 이벤트를 emit해야 함', async () => {
@@ -102,6 +204,7 @@ describe('createDownloadSessionRunner', () => {
         }),
       } as never,
       deliveryPipeline: deliveryPipeline as never,
+      sessionJournal: createSessionJournalMock() as never,
     });
 
     await runner.run(
@@ -1,4 +1,12 @@
 import * as path from 'path';
+import {
+  DockerSessionBundle,
+  shouldUseDockerSessionBundle,
+} from '../../../src/core/downloaders/docker-session-bundle';
+import type {
+  DownloadSessionJournal,
+  DownloadSessionRecord,
+} from '../../../src/core/download-session-journal';
 import type { DownloadOptions, DownloadPackage } from '../../../src/core/shared';
 import type { PackageInfo } from '../../../src/types';
 import type {
@@ -10,17 +18,25 @@ import type { DownloadProgressEmitter } from '../download-progress';
 import type { ConcurrencyLimiterFactory } from './concurrency-limiter';
 import type { DeliveryPipeline } from './delivery-pipeline';
 
+export type DownloadSessionJournalPort = Pick<
+  DownloadSessionJournal,
+  'createSession' | 'prepareResume' | 'markItemCompleted' | 'markItemFailed' | 'setStatus' | 'removeSession'
+>;
+
 export interface DownloadSessionRunnerDeps {
   ensureDir: (targetPath: string) => Promise<void>;
   createLimiter: ConcurrencyLimiterFactory;
   packageRouter: DownloadPackageRouter;
   deliveryPipeline: DeliveryPipeline;
+  sessionJournal: DownloadSessionJournalPort;
 }
 
 export interface DownloadSessionRunner {
   run(
     data: {
       sessionId?: number;
+      /** 이어받을 저널 세션 ID (앱 재시작 후 재개) */
+      resumeSessionId?: string;
       packages: DownloadPackage[];
       options: DownloadOptions;
     },
@@ -50,23 +66,55 @@ export function createDownloadSessionRunner(
         });
       };
 
+      // 저널 기록 실패는 다운로드를 중단시키지 않음 (다음 재개 시 해당 항목을 다시 받을 뿐)
+      const recordJournal = (task: () => Promise<unknown>) => task().catch(() => undefined);
+      let journalSession: DownloadSessionRecord<DownloadPackage, DownloadOptions> | null = null;
+
       try {
         await deps.ensureDir(packagesDir);
-        const downloadPromises = packages.map((pkg) =>
-          limit(() =>
+        journalSession = await openJournalSession(deps.sessionJournal, data);
+        const journalSessionId = journalSession.id;
+        const verifiedPackageIds = new Set(
+          journalSession.items.filter((item) => item.status === 'completed').map((item) => item.id)
+        );
+        const pendingPackages = packages.filter((pkg) => !verifiedPackageIds.has(pkg.id));
+        const dockerSessionBundle = await openDockerSessionBundle(pendingPackages, options, packagesDir);
+        const downloadPromises = packages.map(async (pkg): Promise<DownloadPackageResult> => {
+          // 이전 실행에서 받고 검증된 패키지는 다시 받지 않음
+          if (verifiedPackageIds.has(pkg.id)) {
+            emitVerifiedPackage(progressEmitter, pkg.id);
+            return { id: pkg.id, success: true };
+          }
+
+          const result = await limit(() =>
             deps.packageRouter.downloadPackage(pkg, {
               packagesDir,
               options,
               progressEmitter,
               state,
+              ...(dockerSessionBundle ? { dockerSessionBundle } : {}),
             })
-          )
-        );
+          );
+          if (result.success) {
+            await recordJournal(() => deps.sessionJournal.markItemCompleted(journalSessionId, pkg.id, result.filePath));
+          } else if (result.error !== 'cancelled') {
+            await recordJournal(() => deps.sessionJournal.markItemFailed(
+              journalSessionId,
+              pkg.id,
+              result.error ?? 'Download failed'
+            ));
+          }
+          // 파일 경로는 저널 기록에만 쓰고 완료 이벤트에는 싣지 않음
+          const { filePath: _filePath, ...packageResult } = result;
+          return packageResult;
+        });
 
         const rawResults: DownloadPackageResult[] = await Promise.all(downloadPromises);
+        await dockerSessionBundle?.finalize();
         const results = rawResults.filter((result) => result.error !== 'cancelled');
 
         if (state.isCancelled()) {
+          await recordJournal(() => deps.sessionJournal.setStatus(journalSessionId, 'cancelled'));
           emitCancelledCompletion(outputDir);
           return;
         }
@@ -84,12 +132,23 @@ export function createDownloadSessionRunner(
           packageInfos,
           results,
           failedDownloadCount,
+          dockerSessionBundle: dockerSessionBundle !== null,
           progressEmitter,
           isCancelled: () => state.isCancelled(),
         });
 
+        // 실패 없이 전달까지 끝난 세션은 저널에서 제거, 그 외에는 다음 실행에서 재개할 수 있게 남김
+        await recordJournal(() => (
+          completionPayload.success && failedDownloadCount === 0
+            ? deps.sessionJournal.removeSession(journalSessionId)
+            : deps.sessionJournal.setStatus(journalSessionId, completionPayload.cancelled ? 'cancelled' : 'failed')
+        ));
         progressEmitter.emitAllComplete(completionPayload);
       } catch (error) {
+        const failedSession = journalSession;
+        if (failedSession) {
+          await recordJournal(() => deps.sessionJournal.setStatus(failedSession.id, 'failed'));
+        }
         progressEmitter.emitAllComplete({
           success: false,
           outputPath: outputDir,
@@ -100,6 +159,64 @@ export function createDownloadSessionRunner(
   };
 }
 
+/**
+ * 세션 저널 열기
+ *
+ * 재개 요청이면 기존 기록에서 검증된 완료 항목을 유지하고, 기록이 없어졌으면 새 세션을 만든다.
+ * SMTP 비밀번호가 디스크에 남지 않도록 옵션의 smtp 설정은 기록하지 않는다.
+ */
+async function openJournalSession(
+  journal: DownloadSessionJournalPort,
+  data: { resumeSessionId?: string; packages: DownloadPackage[]; options: DownloadOptions }
+): Promise<DownloadSessionRecord<DownloadPackage, DownloadOptions>> {
+  if (data.resumeSessionId) {
+    const resumed = await journal.prepareResume<DownloadPackage, DownloadOptions>(data.resumeSessionId);
+    if (resumed?.source === 'gui') {
+      return resumed;
+    }
+  }
+
+  return journal.createSession<DownloadPackage, DownloadOptions>({
+    source: 'gui',
+    outputDir: data.options.outputDir,
+    options: { ...data.options, smtp: undefined },
+    items: data.packages.map((pkg) => ({ id: pkg.id, package: pkg })),
+  });
+}
+
+function emitVerifiedPackage(progressEmitter: DownloadProgressEmitter, packageId: string): void {
+  progressEmitter.emitPackageProgress(
+    packageId,
+    {
+      status: 'completed',
+      progress: 100,
+      downloadedBytes: 0,
+      totalBytes: 0,
+      speed: 0,
+    },
+    true
+  );
+  progressEmitter.clearPackageProgress(packageId);
+}
+
+/**
+ * Docker 이미지가 여러 개면 레이어를 공유하는 세션 번들 생성
+ */
+async function openDockerSessionBundle(
+  packages: DownloadPackage[],
+  options: DownloadOptions,
+  packagesDir: string
+): Promise<DockerSessionBundle | null> {
+  const dockerCount = packages.filter((pkg) => pkg.type === 'docker').length;
+  if (!shouldUseDockerSessionBundle(dockerCount)) {
+    return null;
+  }
+
+  const bundle = new DockerSessionBundle(packagesDir, options.dockerOutputFormat ?? 'docker-archive');
+  await bundle.initialize();
+  return bundle;
+}
+
 function toPackageInfo(pkg: DownloadPackage): PackageInfo {
   return {
     type: pkg.type as PackageInfo['type'],
@@ -3,7 +3,10 @@ import * as fse from 'fs-extra';
 import { createScopedLogger } from '../utils/logger';
 import { OSArchivePackager } from '../../src/core/downloaders/os-shared/archive-packager';
 import { OSRepoPackager } from '../../src/core/downloaders/os-shared/repo-packager';
+import { createInstalledBaseline } from '../../src/core/downloaders/os-shared/installed-baseline';
+import { parseModuleSpec } from '../../src/core/downloaders/os-shared/yum-modules';
 import type {
+  ModuleMetadata,
   OSArchitecture,
   OSDistribution,
   OSPackageInfo,
@@ -85,6 +88,7 @@ export function createOSDownloadOrchestrator(params: {
       const warnings: string[] = [];
       let unresolved: PackageDependency[] = [];
       let conflicts: Array<{ package: string; versions: OSPackageInfo[] }> = [];
+      let modules: ModuleMetadata | undefined;
 
       log.info(`Starting OS package download: ${packages.length} packages to ${outputDir}`);
       osDownloadCancelled = false;
@@ -101,14 +105,27 @@ export function createOSDownloadOrchestrator(params: {
           includeRecommends: includeOptionalDeps ?? false,
           progressEmitter,
           abortSignal: osDownloadAbortController.signal,
+          installedBaseline: outputOptions.installedBaseline
+            ? createInstalledBaseline(outputOptions.installedBaseline, distribution.packageManager)
+            : undefined,
+          // 검색 시 선택한 모듈 스트림을 그대로 사용
+          moduleStreams: [
+            ...new Set(packages.flatMap((pkg) => (pkg.moduleStream ? [pkg.moduleStream] : []))),
+          ].map(parseModuleSpec),
         });
 
         try {
           const resolved = await resolver.resolveDependencies(packages);
           packagesToDownload = resolved.packages;
           warnings.push(...resolved.warnings);
+          if (resolved.satisfiedByBaseline && resolved.satisfiedByBaseline.length > 0) {
+            warnings.push(
+              `설치 기준선에 이미 있는 패키지 ${resolved.satisfiedByBaseline.length}개는 다운로드에서 제외했습니다.`
+            );
+          }
           unresolved = resolved.unresolved;
           conflicts = resolved.conflicts;
+          modules = resolved.modules;
         } catch (error) {
           if ((error as { name?: string })?.name === 'AbortError' || osDownloadCancelled) {
             warnings.push('의존성 해결 단계에서 취소되어 다운로드를 시작하지 않았습니다.');
@@ -300,6 +317,8 @@ export function createOSDownloadOrchestrator(params: {
                 includeSetupScript:
                   outputOptions.generateScripts &&
                   outputOptions.scriptTypes.includes('local-repo'),
+                signing: outputOptions.signRepository ? {} : undefined,
+                modules,
               });
 
               if (outputOptions.generateScripts) {
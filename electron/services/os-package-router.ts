@@ -9,8 +9,12 @@ import {
   getAptResolver,
   getApkResolver,
 } from '../../src/core';
+import { GPGVerifier } from '../../src/core/downloaders/os-shared/gpg-verifier';
+import type { InstalledBaseline } from '../../src/core/downloaders/os-shared/installed-baseline';
 import { OSScriptGenerator } from '../../src/core/downloaders/os-shared/script-generator';
 import type {
+  ModuleSelection,
+  OSDownloadError,
   OSErrorAction,
   OSArchitecture,
   OSDistribution,
@@ -71,13 +75,15 @@ export const DEFAULT_OS_OUTPUT_OPTIONS: OSPackageOutputOptions = {
 export function createOSDownloadErrorHandler(
   mainWindow: Electron.BrowserWindow | null,
   onCancel: () => void
-): (error: { package?: OSPackageInfo; message: string }) => Promise<OSErrorAction> {
+): (error: Pick<OSDownloadError, 'package' | 'message'> & Partial<Pick<OSDownloadError, 'type'>>) => Promise<OSErrorAction> {
   return async (error) => {
     const packageName = error.package?.name || '알 수 없는 패키지';
     const result = await dialog.showMessageBox(mainWindow!, {
       type: 'error',
-      title: '다운로드 오류',
-      message: `패키지 다운로드 중 오류가 발생했습니다.\n\n${packageName}: ${error.message}`,
+      title: error.type === 'gpg' ? '서명 검증 실패' : '다운로드 오류',
+      message: error.type === 'gpg'
+        ? `패키지 서명을 확인하지 못했습니다. 변조되었거나 저장소 키로 서명되지 않은 패키지일 수 있습니다.\n\n${packageName}: ${error.message}`
+        : `패키지 다운로드 중 오류가 발생했습니다.\n\n${packageName}: ${error.message}`,
       buttons: ['재시도', '건너뛰기', '취소'],
       defaultId: 0,
       cancelId: 2,
@@ -102,6 +108,8 @@ export function createOSResolverForDistribution(params: {
   includeRecommends: boolean;
   progressEmitter: DownloadProgressEmitter;
   abortSignal?: AbortSignal;
+  installedBaseline?: InstalledBaseline;
+  moduleStreams?: ModuleSelection[];
 }) {
   const {
     distribution,
@@ -110,6 +118,8 @@ export function createOSResolverForDistribution(params: {
     includeRecommends,
     progressEmitter,
     abortSignal,
+    installedBaseline,
+    moduleStreams,
   } = params;
 
   const onProgress = (message: string, current: number, total: number) => {
@@ -135,6 +145,8 @@ export function createOSResolverForDistribution(params: {
         distribution,
         onProgress,
         abortSignal,
+        installedBaseline,
+        moduleStreams,
       });
     case 'apt':
       return getAptResolver({
@@ -145,6 +157,7 @@ export function createOSResolverForDistribution(params: {
         distribution,
         onProgress,
         abortSignal,
+        installedBaseline,
       });
     case 'apk':
       return getApkResolver({
@@ -155,6 +168,7 @@ export function createOSResolverForDistribution(params: {
         distribution,
         onProgress,
         abortSignal,
+        installedBaseline,
       });
     default:
       throw new Error(`Unsupported package manager: ${distribution.packageManager}`);
@@ -190,6 +204,7 @@ export function createOSDownloaderForDistribution(params: {
     outputDir,
     concurrency,
     abortSignal,
+    gpgVerifier: new GPGVerifier({ continueOnKeyError: false }),
     onProgress: (progress: OSDownloadProgress) => {
       progressEmitter.emitOSProgress(progress);
     },
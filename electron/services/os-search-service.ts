@@ -13,6 +13,7 @@ import {
   getSimplifiedDistributions,
   invalidateDistributionCache,
 } from '../../src/core/downloaders/os-shared/distribution-fetcher';
+import { parseModuleSpec } from '../../src/core/downloaders/os-shared/yum-modules';
 import type {
   MatchType,
   OSArchitecture,
@@ -75,6 +76,8 @@ export function createOSSearchService() {
       architecture: OSArchitecture;
       matchType?: MatchType;
       limit?: number;
+      /** yum 모듈 스트림 (name:stream) */
+      moduleStreams?: string[];
     }): Promise<{ packages: unknown[]; totalCount: number }> {
       const fullDistribution = getDistributionById(options.distribution.id);
       if (!fullDistribution) {
@@ -94,6 +97,7 @@ export function createOSSearchService() {
             distribution: fullDistribution,
             includeOptional: false,
             includeRecommends: false,
+            moduleStreams: options.moduleStreams?.map(parseModuleSpec),
           }).searchPackages(options.query, options.matchType === 'exact' ? 'exact' : 'partial');
           break;
         case 'apt':
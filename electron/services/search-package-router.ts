@@ -7,6 +7,9 @@ import {
   getMavenDownloader,
   getDockerDownloader,
   getNpmDownloader,
+  getGoDownloader,
+  getCargoDownloader,
+  getNuGetDownloader,
 } from '../../src/core';
 
 const log = createScopedLogger('SearchPackageRouter');
@@ -107,6 +110,37 @@ export function createSearchPackageRouter(): SearchPackageRouter {
             'npm'
           );
         }
+        case 'go': {
+          // GOPROXY에는 검색 API가 없어 정확한 모듈 경로로만 조회
+          const goResults = await getGoDownloader().searchPackages(query);
+          return goResults.map((pkg) => ({
+            name: pkg.name,
+            version: pkg.version,
+            description: '',
+          }));
+        }
+        case 'cargo': {
+          const cargoResults = await getCargoDownloader().searchPackages(query);
+          return sortByRelevance(
+            cargoResults.map((pkg) => ({
+              name: pkg.name,
+              version: pkg.version,
+              description: (pkg.metadata?.description as string | undefined) || '',
+            })),
+            query
+          );
+        }
+        case 'nuget': {
+          const nugetResults = await getNuGetDownloader().searchPackages(query);
+          return sortByRelevance(
+            nugetResults.map((pkg) => ({
+              name: pkg.name,
+              version: pkg.version,
+              description: (pkg.metadata?.description as string | undefined) || '',
+            })),
+            query
+          );
+        }
         case 'docker': {
           const dockerRegistry = options?.registry || 'docker.io';
           const dockerResults = await getDockerDownloader().searchPackages(query, dockerRegistry);
@@ -135,6 +169,12 @@ export function createSearchPackageRouter(): SearchPackageRouter {
           return getMavenVersions(packageName);
         case 'npm':
           return getNpmDownloader().getVersions(packageName);
+        case 'go':
+          return getGoDownloader().getVersions(packageName);
+        case 'cargo':
+          return getCargoDownloader().getVersions(packageName);
+        case 'nuget':
+          return getNuGetDownloader().getVersions(packageName);
         case 'docker':
           return getDockerDownloader().getVersions(
             packageName,
@@ -178,6 +218,15 @@ export function createSearchPackageRouter(): SearchPackageRouter {
           case 'npm':
             searchPromise = getNpmDownloader().searchPackages(query);
             break;
+          case 'go':
+            searchPromise = getGoDownloader().searchPackages(query);
+            break;
+          case 'cargo':
+            searchPromise = getCargoDownloader().searchPackages(query);
+            break;
+          case 'nuget':
+            searchPromise = getNuGetDownloader().searchPackages(query);
+            break;
           case 'yum':
           case 'apt':
           case 'apk':
@@ -1,6 +1,21 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { getConfigManager } from '../../core/config';
+import {
+  CREDENTIAL_ECOSYSTEMS,
+  importRegistryCredentials,
+  mergeRegistryCredentials,
+  resolveRegistryCredentials,
+  type CredentialEcosystem,
+  type RegistryCredential,
+} from '../../core/shared/registry-credentials';
+import {
+  REGISTRY_ECOSYSTEMS,
+  resolveRegistryMirrors,
+  testRegistryMirror,
+  type RegistryEcosystem,
+  type RegistryMirror,
+} from '../../core/shared/registry-mirrors';
 
 /**
  * 설정값 조회
@@ -98,3 +113,307 @@ export async function configReset(): Promise<void> {
     process.exit(1);
   }
 }
+
+/**
+ * 저장소 미러 추가 옵션
+ */
+export interface ConfigMirrorAddOptions {
+  priority?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+}
+
+function parseEcosystem(value: string): RegistryEcosystem {
+  if (!(REGISTRY_ECOSYSTEMS as string[]).includes(value)) {
+    throw new Error(`지원하지 않는 생태계입니다: ${value} (${REGISTRY_ECOSYSTEMS.join(', ')})`);
+  }
+  return value as RegistryEcosystem;
+}
+
+/**
+ * 저장소 미러 목록 표시
+ */
+export async function configMirrorList(): Promise<void> {
+  const mirrors = getConfigManager().getRegistryMirrorSettings();
+
+  const table = new Table({
+    head: [chalk.cyan('생태계'), chalk.cyan('우선순위'), chalk.cyan('URL'), chalk.cyan('인증')],
+  });
+
+  for (const ecosystem of REGISTRY_ECOSYSTEMS) {
+    for (const mirror of mirrors[ecosystem] ?? []) {
+      const auth = mirror.token ? '토큰' : mirror.username ? `사용자 ${mirror.username}` : '-';
+      table.push([ecosystem, String(mirror.priority ?? 0), mirror.url, auth]);
+    }
+  }
+
+  if (table.length === 0) {
+    console.log(chalk.yellow('설정된 저장소 미러가 없습니다 (공개 저장소 사용)'));
+    return;
+  }
+
+  console.log(chalk.cyan('\n저장소 미러:\n'));
+  console.log(table.toString());
+}
+
+/**
+ * 저장소 미러 추가 (같은 URL이 있으면 교체)
+ */
+export async function configMirrorAdd(
+  ecosystemArg: string,
+  url: string,
+  options: ConfigMirrorAddOptions
+): Promise<void> {
+  const configManager = getConfigManager();
+
+  try {
+    const ecosystem = parseEcosystem(ecosystemArg);
+    const mirror: RegistryMirror = {
+      url: url.trim().replace(/\/+$/, ''),
+      priority: options.priority !== undefined ? Number(options.priority) : 0,
+      ...(options.username && { username: options.username }),
+      ...(options.password && { password: options.password }),
+      ...(options.token && { token: options.token }),
+    };
+    if (!Number.isInteger(mirror.priority)) {
+      throw new Error(`잘못된 우선순위입니다: ${options.priority} (정수)`);
+    }
+
+    const mirrors = configManager.getRegistryMirrorSettings();
+    const list = (mirrors[ecosystem] ?? []).filter((item) => item.url !== mirror.url);
+    // 저장 전에 URL 형식 검증
+    const next = resolveRegistryMirrors({ ...mirrors, [ecosystem]: [...list, mirror] });
+    configManager.setRegistryMirrorSettings(next);
+    console.log(chalk.green(`✓ ${ecosystem} 미러가 추가되었습니다: ${mirror.url} (우선순위 ${mirror.priority})`));
+  } catch (error) {
+    console.error(chalk.red(`미러 추가 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * 저장소 미러 삭제 (URL을 생략하면 해당 생태계 미러 전체 삭제)
+ */
+export async function configMirrorRemove(ecosystemArg: string, url?: string): Promise<void> {
+  const configManager = getConfigManager();
+
+  try {
+    const ecosystem = parseEcosystem(ecosystemArg);
+    const mirrors = configManager.getRegistryMirrorSettings();
+    const list = mirrors[ecosystem] ?? [];
+    const target = url?.trim().replace(/\/+$/, '');
+    const remaining = target ? list.filter((mirror) => mirror.url !== target) : [];
+
+    if (remaining.length === list.length) {
+      console.log(chalk.yellow(`삭제할 ${ecosystem} 미러가 없습니다${target ? `: ${target}` : ''}`));
+      return;
+    }
+
+    const next = { ...mirrors };
+    if (remaining.length > 0) {
+      next[ecosystem] = remaining;
+    } else {
+      delete next[ecosystem];
+    }
+    configManager.setRegistryMirrorSettings(next);
+    console.log(chalk.green(`✓ ${ecosystem} 미러 ${list.length - remaining.length}개가 삭제되었습니다`));
+  } catch (error) {
+    console.error(chalk.red(`미러 삭제 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * 저장소 미러 연결 테스트 (생태계를 생략하면 설정된 모든 미러)
+ */
+export async function configMirrorTest(ecosystemArg?: string): Promise<void> {
+  try {
+    const ecosystems = ecosystemArg ? [parseEcosystem(ecosystemArg)] : REGISTRY_ECOSYSTEMS;
+    const mirrors = getConfigManager().getRegistryMirrorSettings();
+    let tested = 0;
+    let failed = 0;
+
+    for (const ecosystem of ecosystems) {
+      for (const mirror of mirrors[ecosystem] ?? []) {
+        tested++;
+        const result = await testRegistryMirror(ecosystem, mirror);
+        if (result.success) {
+          console.log(chalk.green(`✓ [${ecosystem}] ${mirror.url} - HTTP ${result.status} (${result.latencyMs}ms)`));
+        } else {
+          failed++;
+          console.log(chalk.red(`✗ [${ecosystem}] ${mirror.url} - ${result.error}`));
+        }
+      }
+    }
+
+    if (tested === 0) {
+      console.log(chalk.yellow('테스트할 저장소 미러가 없습니다'));
+      return;
+    }
+    if (failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red(`미러 테스트 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * 저장소 인증 정보 추가 옵션
+ */
+export interface ConfigCredentialAddOptions {
+  scope?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+}
+
+function parseCredentialEcosystem(value: string): CredentialEcosystem {
+  if (!(CREDENTIAL_ECOSYSTEMS as string[]).includes(value)) {
+    throw new Error(`지원하지 않는 생태계입니다: ${value} (${CREDENTIAL_ECOSYSTEMS.join(', ')})`);
+  }
+  return value as CredentialEcosystem;
+}
+
+function describeCredentialAuth(credential: RegistryCredential): string {
+  if (credential.token) {
+    return '토큰';
+  }
+  return credential.username ? `사용자 ${credential.username}` : '-';
+}
+
+/**
+ * 저장소 인증 정보 목록 표시 (비밀번호/토큰은 표시하지 않음)
+ */
+export async function configCredentialList(): Promise<void> {
+  const credentials = getConfigManager().getRegistryCredentialSettings();
+
+  if (credentials.length === 0) {
+    console.log(chalk.yellow('설정된 저장소 인증 정보가 없습니다'));
+    return;
+  }
+
+  const table = new Table({
+    head: [chalk.cyan('생태계'), chalk.cyan('URL'), chalk.cyan('스코프'), chalk.cyan('인증'), chalk.cyan('가져온 파일')],
+  });
+  for (const credential of credentials) {
+    table.push([
+      credential.ecosystem,
+      credential.url,
+      credential.scope ?? '-',
+      describeCredentialAuth(credential),
+      credential.source ?? '-',
+    ]);
+  }
+
+  console.log(chalk.cyan('\n저장소 인증 정보:\n'));
+  console.log(table.toString());
+}
+
+/**
+ * 저장소 인증 정보 추가 (같은 생태계·URL·스코프가 있으면 교체)
+ */
+export async function configCredentialAdd(
+  ecosystemArg: string,
+  url: string,
+  options: ConfigCredentialAddOptions
+): Promise<void> {
+  const configManager = getConfigManager();
+
+  try {
+    const ecosystem = parseCredentialEcosystem(ecosystemArg);
+    if (options.scope && ecosystem !== 'npm') {
+      throw new Error('--scope는 npm에서만 사용할 수 있습니다');
+    }
+    const [credential] = resolveRegistryCredentials([{
+      ecosystem,
+      url,
+      ...(options.scope && { scope: options.scope }),
+      ...(options.username && { username: options.username }),
+      ...(options.password && { password: options.password }),
+      ...(options.token && { token: options.token }),
+    }]);
+
+    const next = mergeRegistryCredentials(configManager.getRegistryCredentialSettings(), [credential]);
+    configManager.setRegistryCredentialSettings(next);
+    console.log(chalk.green(`✓ ${ecosystem} 인증 정보가 저장되었습니다: ${credential.url}${credential.scope ? ` (${credential.scope})` : ''}`));
+  } catch (error) {
+    console.error(chalk.red(`인증 정보 추가 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * 저장소 인증 정보 삭제 (URL을 생략하면 해당 생태계 전체 삭제)
+ */
+export async function configCredentialRemove(ecosystemArg: string, url?: string): Promise<void> {
+  const configManager = getConfigManager();
+
+  try {
+    const ecosystem = parseCredentialEcosystem(ecosystemArg);
+    const credentials = configManager.getRegistryCredentialSettings();
+    const target = url?.trim().replace(/\/+$/, '');
+    const remaining = credentials.filter((credential) => (
+      credential.ecosystem !== ecosystem || (target !== undefined && credential.url !== target)
+    ));
+
+    if (remaining.length === credentials.length) {
+      console.log(chalk.yellow(`삭제할 ${ecosystem} 인증 정보가 없습니다${target ? `: ${target}` : ''}`));
+      return;
+    }
+
+    configManager.setRegistryCredentialSettings(remaining);
+    console.log(chalk.green(`✓ ${ecosystem} 인증 정보 ${credentials.length - remaining.length}개가 삭제되었습니다`));
+  } catch (error) {
+    console.error(chalk.red(`인증 정보 삭제 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * .npmrc, pip.conf, ~/.m2/settings.xml에서 저장소 인증 정보 가져오기
+ */
+export async function configCredentialImport(): Promise<void> {
+  const configManager = getConfigManager();
+
+  try {
+    const result = importRegistryCredentials();
+    if (result.sources.length === 0) {
+      console.log(chalk.yellow('.npmrc, pip.conf, ~/.m2/settings.xml을 찾을 수 없습니다'));
+      return;
+    }
+
+    const credentials = resolveRegistryCredentials(result.credentials);
+    configManager.setRegistryCredentialSettings(
+      mergeRegistryCredentials(configManager.getRegistryCredentialSettings(), credentials)
+    );
+
+    if (result.mavenMirrors.length > 0) {
+      const mirrors = configManager.getRegistryMirrorSettings();
+      const importedUrls = new Set(result.mavenMirrors.map((mirror) => mirror.url));
+      configManager.setRegistryMirrorSettings(resolveRegistryMirrors({
+        ...mirrors,
+        maven: [...(mirrors.maven ?? []).filter((mirror) => !importedUrls.has(mirror.url)), ...result.mavenMirrors],
+      }));
+    }
+
+    console.log(chalk.cyan(`\n읽은 파일: ${result.sources.join(', ')}`));
+    for (const credential of credentials) {
+      console.log(chalk.green(`✓ [${credential.ecosystem}] ${credential.url}${credential.scope ? ` (${credential.scope})` : ''} - ${describeCredentialAuth(credential)}`));
+    }
+    for (const mirror of result.mavenMirrors) {
+      console.log(chalk.green(`✓ [maven 미러] ${mirror.url}`));
+    }
+    if (result.pipIndexUrls.length > 0) {
+      console.log(chalk.gray(`pip 인덱스: ${result.pipIndexUrls.join(', ')} (GUI의 pip 커스텀 인덱스 또는 저장소 미러로 지정하세요)`));
+    }
+    for (const warning of result.warnings) {
+      console.log(chalk.yellow(`! ${warning}`));
+    }
+  } catch (error) {
+    console.error(chalk.red(`인증 정보 가져오기 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
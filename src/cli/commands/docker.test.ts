@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { REGISTRY_PASSWORD_ENV, resolvePushCredentials, resolvePushRegistry } from './docker';
+
+describe('docker CLI commands', () => {
+  it.each([
+    ['registry.local:5000', undefined, 'registry.local:5000'],
+    ['registry.local:5000', true, 'http://registry.local:5000'],
+    ['https://registry.local', true, 'https://registry.local'],
+  ])('%s (insecure=%s) 레지스트리 주소를 %s로 정규화한다', (registry, insecure, expected) => {
+    expect(resolvePushRegistry(registry, insecure)).toBe(expected);
+  });
+
+  it('로그인 비밀번호는 --password, 없으면 환경 변수에서 읽는다', () => {
+    expect(resolvePushCredentials({})).toEqual({});
+    expect(resolvePushCredentials({ username: 'ci', password: 'secret' }, {})).toEqual({ username: 'ci', password: 'secret' });
+    expect(resolvePushCredentials({ username: 'ci' }, { [REGISTRY_PASSWORD_ENV]: 'from-env' })).toEqual({
+      username: 'ci',
+      password: 'from-env',
+    });
+    expect(() => resolvePushCredentials({ username: 'ci' }, {})).toThrow(REGISTRY_PASSWORD_ENV);
+    expect(() => resolvePushCredentials({ password: 'secret' }, {})).toThrow('--username');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Docker CLI 명령어
+ * 다운로드한 Docker 이미지 번들을 폐쇄망 내부 레지스트리로 업로드
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { DockerAuthClient } from '../../core/downloaders/docker-auth-client';
+import { DockerBundleReader } from '../../core/downloaders/docker-bundle-reader';
+import { DockerRegistryPusher } from '../../core/downloaders/docker-registry-pusher';
+
+interface DockerPushCommandOptions {
+  registry: string;
+  repository?: string;
+  tag?: string;
+  insecure?: boolean;
+  username?: string;
+  password?: string;
+}
+
+/** --password 대신 비밀번호를 전달하는 환경 변수 */
+export const REGISTRY_PASSWORD_ENV = 'DEPSSMUGGLER_REGISTRY_PASSWORD';
+
+/**
+ * Docker 명령어 등록
+ */
+export function registerDockerCommands(program: Command): void {
+  const dockerCmd = program
+    .command('docker')
+    .description('Docker 이미지 번들 관리');
+
+  dockerCmd
+    .command('push <bundle>')
+    .description('이미지 번들(docker-archive tar, OCI 레이아웃)을 Registry v2 API로 업로드')
+    .requiredOption('-r, --registry <host>', '대상 레지스트리 (예: registry.local:5000)')
+    .option('--repository <name>', '대상 저장소 (기본값: 번들에 기록된 저장소)')
+    .option('--tag <tag>', '대상 태그 (기본값: 번들에 기록된 태그)')
+    .option('--insecure', 'HTTPS 대신 HTTP로 접속')
+    .option('-u, --username <user>', '레지스트리 로그인 사용자')
+    .option('-p, --password <password>', `레지스트리 로그인 비밀번호 (기본값: ${REGISTRY_PASSWORD_ENV} 환경 변수)`)
+    .action(async (bundle, options) => {
+      await dockerPushCommand(bundle, options);
+    });
+}
+
+/**
+ * 레지스트리 주소 정규화 (--insecure 시 http:// 사용)
+ */
+export function resolvePushRegistry(registry: string, insecure?: boolean): string {
+  if (/^https?:\/\//.test(registry) || !insecure) {
+    return registry;
+  }
+  return `http://${registry}`;
+}
+
+/**
+ * 레지스트리 로그인 정보 (비밀번호는 --password, 없으면 환경 변수)
+ */
+export function resolvePushCredentials(
+  options: Pick<DockerPushCommandOptions, 'username' | 'password'>,
+  env: NodeJS.ProcessEnv = process.env
+): { username?: string; password?: string } {
+  const password = options.password ?? env[REGISTRY_PASSWORD_ENV];
+  if (!options.username) {
+    if (options.password) {
+      throw new Error('--password는 --username과 함께 지정해야 합니다');
+    }
+    return {};
+  }
+  if (!password) {
+    throw new Error(`--username을 지정하면 --password 또는 ${REGISTRY_PASSWORD_ENV} 환경 변수로 비밀번호를 지정해야 합니다`);
+  }
+  return { username: options.username, password };
+}
+
+/**
+ * docker push 명령어 핸들러
+ */
+export async function dockerPushCommand(
+  bundlePath: string,
+  options: DockerPushCommandOptions
+): Promise<void> {
+  const reader = new DockerBundleReader();
+  const registry = resolvePushRegistry(options.registry, options.insecure);
+
+  try {
+    const credentials = resolvePushCredentials(options);
+    const bundle = await reader.open(bundlePath);
+    if (bundle.images.length > 1 && (options.repository || options.tag)) {
+      throw new Error('이미지가 여러 개인 번들에는 --repository/--tag를 지정할 수 없습니다');
+    }
+
+    console.log(chalk.cyan(`번들 형식: ${bundle.format}, 이미지 ${bundle.images.length}개`));
+
+    const pusher = new DockerRegistryPusher(new DockerAuthClient());
+    for (const image of bundle.images) {
+      const result = await pusher.pushImage(bundle, image, {
+        registry,
+        repository: options.repository,
+        tag: options.tag,
+        ...credentials,
+        onProgress: (event) => {
+          if (event.type === 'blob-uploaded') {
+            console.log(chalk.gray(`  ↑ ${event.digest.slice(0, 19)} (${event.size} bytes)`));
+          } else if (event.type === 'blob-skipped') {
+            console.log(chalk.gray(`  = ${event.digest.slice(0, 19)} 이미 존재`));
+          }
+        },
+      });
+
+      if (result.omittedManifests.length > 0) {
+        console.log(
+          chalk.yellow(
+            `⚠ 번들에 없는 플랫폼 매니페스트 ${result.omittedManifests.length}개를 매니페스트 리스트에서 제외했습니다`
+          )
+        );
+      }
+      console.log(
+        chalk.green(
+          `✓ ${options.registry}/${result.repository}:${result.tag} 업로드 완료 ` +
+            `(업로드 ${result.uploadedBlobs}개, 건너뜀 ${result.skippedBlobs}개, ${result.digest})`
+        )
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`업로드 실패: ${(error as Error).message}`));
+    await reader.close();
+    process.exit(1);
+  }
+
+  await reader.close();
+}
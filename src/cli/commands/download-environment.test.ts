@@ -30,6 +30,7 @@ describe('validateDownloadEnvironmentOptions', () => {
   it.each([
     createOptions(),
     createOptions({ type: 'pip', targetOS: 'linux', pythonVersion: '3.12' }),
+    createOptions({ type: 'pip', targetOS: 'linux-musl', pythonVersion: '3.12' }),
     createOptions({
       type: 'conda',
       targetOS: 'windows',
@@ -92,6 +93,11 @@ describe('validateDownloadEnvironmentOptions', () => {
       createOptions({ type: 'npm', targetOS: 'linux' }),
       '--target-os 옵션은 pip, conda 또는 maven',
     ],
+    [
+      'musl-type',
+      createOptions({ type: 'conda', targetOS: 'linux-musl' }),
+      '--target-os linux-musl은 pip 다운로드에서만',
+    ],
     [
       'channel-type',
       createOptions({ type: 'pip', condaChannel: 'pytorch' }),
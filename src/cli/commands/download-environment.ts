@@ -15,6 +15,7 @@ const SUPPORTED_ARCHITECTURES = new Set<Architecture>([
 const SUPPORTED_TARGET_OSES = new Set<TargetOS>([
   'any',
   'linux',
+  'linux-musl',
   'windows',
   'macos',
 ]);
@@ -72,6 +73,12 @@ export function validateDownloadEnvironmentOptions(
     );
   }
 
+  if (options.targetOS === 'linux-musl' && options.type !== 'pip') {
+    throw new Error(
+      '--target-os linux-musl은 pip 다운로드에서만 사용할 수 있습니다.',
+    );
+  }
+
   if (
     options.pythonVersion !== undefined &&
     !PYTHON_PACKAGE_TYPES.has(options.type)
@@ -6,6 +6,7 @@
 
 import PQueue from 'p-queue';
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { DockerSessionBundle } from '../../core/downloaders/docker-session-bundle';
 import {
   DownloadManager,
   type DownloadManagerItem,
@@ -43,6 +44,7 @@ const asTestable = (manager: DownloadManager): DownloadManagerTestable => {
 // fs-extra 모킹
 vi.mock('fs-extra', () => ({
   ensureDir: vi.fn().mockResolvedValue(undefined),
+  remove: vi.fn().mockResolvedValue(undefined),
 }));
 
 // DownloadManager 인스턴스 생성
@@ -121,6 +123,22 @@ describe('DownloadManager 단위 테스트', () => {
     });
   });
 
+  describe('addCompletedItems', () => {
+    it('이전 세션의 완료 패키지는 다시 받지 않고 결과에 포함', () => {
+      manager.addCompletedItems([
+        { package: { type: 'pip', name: 'requests', version: '2.28.0' }, filePath: '/tmp/out/requests.whl' },
+      ]);
+      manager.addToQueue([{ type: 'pip', name: 'urllib3', version: '1.26.0' }]);
+
+      expect(manager.getQueueStatus()).toEqual({ pending: 1, running: 0, completed: 1, failed: 0 });
+      expect(manager.getItems()[0]).toMatchObject({
+        status: 'completed',
+        progress: 100,
+        filePath: '/tmp/out/requests.whl',
+      });
+    });
+  });
+
   describe('getQueueStatus', () => {
     it('빈 큐 상태', () => {
       const status = manager.getQueueStatus();
@@ -763,6 +781,74 @@ describe('DownloadManager 단위 테스트', () => {
       });
     });
 
+    it('Docker 출력 형식과 번들 플랫폼을 지원하는 다운로더에 전달한다', async () => {
+      const setOutputFormat = vi.fn();
+      const setPlatforms = vi.fn();
+      const dockerDownloader = {
+        type: 'docker' as const,
+        setOutputFormat,
+        setPlatforms,
+        downloadPackage: vi.fn().mockResolvedValue('/test/output/nginx-1.27.oci.tar'),
+      } as unknown as IDownloader;
+
+      asTestable(manager).downloaders.set('docker', dockerDownloader);
+      manager.addToQueue([
+        { type: 'docker' as const, name: 'nginx', version: '1.27' },
+      ]);
+
+      await manager.startDownload({
+        outputPath: '/test/output',
+        dockerOutputFormat: 'oci-layout',
+        dockerPlatforms: ['amd64', 'arm64'],
+      } as DownloadManagerOptions);
+
+      expect(setOutputFormat).toHaveBeenCalledWith('oci-layout');
+      expect(setPlatforms).toHaveBeenCalledWith(['amd64', 'arm64']);
+    });
+
+    it('Docker 이미지가 여러 개면 세션 번들을 설정하고 완료 후 해제한다', async () => {
+      const setSessionBundle = vi.fn();
+      const dockerDownloader = {
+        type: 'docker' as const,
+        setOutputFormat: vi.fn(),
+        setPlatforms: vi.fn(),
+        setSessionBundle,
+        downloadPackage: vi.fn().mockResolvedValue('/test/output/docker-images.tar'),
+      } as unknown as IDownloader;
+
+      asTestable(manager).downloaders.set('docker', dockerDownloader);
+      manager.addToQueue([
+        { type: 'docker' as const, name: 'nginx', version: '1.27' },
+        { type: 'docker' as const, name: 'redis', version: '7.2' },
+      ]);
+
+      await manager.startDownload({ outputPath: '/test/output' });
+
+      expect(setSessionBundle).toHaveBeenCalledTimes(2);
+      expect(setSessionBundle.mock.calls[0][0]).toBeInstanceOf(DockerSessionBundle);
+      expect(setSessionBundle.mock.calls[1][0]).toBeNull();
+    });
+
+    it('Docker 이미지가 하나면 세션 번들을 사용하지 않는다', async () => {
+      const setSessionBundle = vi.fn();
+      const dockerDownloader = {
+        type: 'docker' as const,
+        setOutputFormat: vi.fn(),
+        setPlatforms: vi.fn(),
+        setSessionBundle,
+        downloadPackage: vi.fn().mockResolvedValue('/test/output/nginx-1.27.tar'),
+      } as unknown as IDownloader;
+
+      asTestable(manager).downloaders.set('docker', dockerDownloader);
+      manager.addToQueue([
+        { type: 'docker' as const, name: 'nginx', version: '1.27' },
+      ]);
+
+      await manager.startDownload({ outputPath: '/test/output' });
+
+      expect(setSessionBundle).not.toHaveBeenCalled();
+    });
+
     it('allComplete 이벤트 발생', async () => {
       const listener = vi.fn();
       manager.on('allComplete', listener);
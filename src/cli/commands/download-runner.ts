@@ -6,12 +6,18 @@ import {
   createRegisteredDownloader,
   getRegisteredDownloaderTypes,
 } from '../../core/downloaders/registry';
+import {
+  DockerSessionBundle,
+  shouldUseDockerSessionBundle,
+} from '../../core/downloaders/docker-session-bundle';
 import { SpeedCalculator } from '../../core/speed-calculator';
 import logger from '../../utils/logger';
 import type {
   PackageInfo,
   PackageType,
   DownloadProgressEvent,
+  Architecture,
+  DockerOutputFormat,
   IDownloader,
   DownloadItem as CanonicalDownloadItem,
   DownloadStatus as CanonicalDownloadStatus,
@@ -36,6 +42,7 @@ export interface DownloadManagerResult {
   totalSize: number;
   duration: number;
   outputPath: string;
+  dockerSessionBundle?: boolean; // 이번 실행이 Docker 세션 번들을 만들었는지 (설치 스크립트가 같은 파일을 로드)
 }
 
 // 다운로드 옵션
@@ -44,6 +51,8 @@ export interface DownloadManagerOptions {
   concurrency?: number;
   maxRetries?: number;
   pipTargetPlatform?: PipTargetPlatform;
+  dockerOutputFormat?: DockerOutputFormat;
+  dockerPlatforms?: Architecture[];
   onUserDecision?: (
     item: DownloadManagerItem,
     error: Error
@@ -78,6 +87,31 @@ function supportsPipTargetPlatform(
     && typeof downloader.setPipTargetPlatform === 'function';
 }
 
+interface DockerOutputFormatAwareDownloader extends IDownloader {
+  setOutputFormat(format: DockerOutputFormat): void;
+  setPlatforms(platforms: Architecture[]): void;
+}
+
+interface DockerSessionBundleAwareDownloader extends IDownloader {
+  setSessionBundle(bundle: DockerSessionBundle | null): void;
+}
+
+function supportsDockerOutputFormat(
+  downloader: IDownloader
+): downloader is DockerOutputFormatAwareDownloader {
+  return 'setOutputFormat' in downloader
+    && typeof downloader.setOutputFormat === 'function'
+    && 'setPlatforms' in downloader
+    && typeof downloader.setPlatforms === 'function';
+}
+
+function supportsDockerSessionBundle(
+  downloader: IDownloader
+): downloader is DockerSessionBundleAwareDownloader {
+  return 'setSessionBundle' in downloader
+    && typeof downloader.setSessionBundle === 'function';
+}
+
 // 전체 진행률
 export interface OverallProgress {
   totalItems: number;
@@ -143,6 +177,28 @@ export class DownloadManager extends EventEmitter<DownloadManagerEvents> {
     logger.info('다운로드 큐에 패키지 추가', { count: packages.length });
   }
 
+  /**
+   * 이전 세션에서 이미 받은 패키지 추가 (다시 받지 않고 결과에만 포함)
+   */
+  addCompletedItems(entries: Array<{ package: PackageInfo; filePath?: string }>): void {
+    for (const entry of entries) {
+      const id = generateId();
+      this.items.set(id, {
+        id,
+        package: entry.package,
+        status: 'completed',
+        progress: 100,
+        filePath: entry.filePath,
+        downloadedBytes: 0,
+        totalBytes: 0,
+        speed: 0,
+        retryCount: 0,
+      });
+    }
+
+    logger.info('이전 세션의 완료 패키지 추가', { count: entries.length });
+  }
+
   /**
    * 다운로드 시작
    */
@@ -162,6 +218,12 @@ export class DownloadManager extends EventEmitter<DownloadManagerEvents> {
       pipDownloader.setPipTargetPlatform(this.options.pipTargetPlatform ?? null);
     }
 
+    const dockerDownloader = this.downloaders.get('docker');
+    if (dockerDownloader && supportsDockerOutputFormat(dockerDownloader)) {
+      dockerDownloader.setOutputFormat(this.options.dockerOutputFormat ?? 'docker-archive');
+      dockerDownloader.setPlatforms(this.options.dockerPlatforms ?? []);
+    }
+
     this.queue = new PQueue({ concurrency: this.options.concurrency });
     this.isRunning = true;
     this.isCancelled = false;
@@ -171,6 +233,8 @@ export class DownloadManager extends EventEmitter<DownloadManagerEvents> {
     // 출력 경로 생성
     await fs.ensureDir(this.options.outputPath);
 
+    const dockerSessionBundle = await this.openDockerSessionBundle(dockerDownloader);
+
     logger.info('다운로드 시작', {
       itemCount: this.items.size,
       outputPath: this.options.outputPath,
@@ -193,7 +257,15 @@ export class DownloadManager extends EventEmitter<DownloadManagerEvents> {
     // 모든 다운로드 완료 대기
     await Promise.all(downloadPromises);
 
-    const result = this.createResult();
+    if (dockerSessionBundle && dockerDownloader && supportsDockerSessionBundle(dockerDownloader)) {
+      dockerDownloader.setSessionBundle(null);
+      await dockerSessionBundle.finalize();
+    }
+
+    const result: DownloadManagerResult = {
+      ...this.createResult(),
+      dockerSessionBundle: dockerSessionBundle !== null,
+    };
     this.isRunning = false;
 
     if (this.isCancelled) {
@@ -211,6 +283,35 @@ export class DownloadManager extends EventEmitter<DownloadManagerEvents> {
     return result;
   }
 
+  /**
+   * Docker 세션 번들 준비
+   *
+   * Docker 이미지가 여러 개면 이미지 간 공유 레이어를 한 번만 받도록 하나의 번들에 담는다.
+   */
+  private async openDockerSessionBundle(
+    dockerDownloader: IDownloader | undefined
+  ): Promise<DockerSessionBundle | null> {
+    const dockerItemCount = [...this.items.values()].filter(
+      (item) => item.status === 'pending' && item.package.type === 'docker'
+    ).length;
+
+    if (
+      !dockerDownloader
+      || !supportsDockerSessionBundle(dockerDownloader)
+      || !shouldUseDockerSessionBundle(dockerItemCount)
+    ) {
+      return null;
+    }
+
+    const bundle = new DockerSessionBundle(
+      this.options.outputPath,
+      this.options.dockerOutputFormat ?? 'docker-archive'
+    );
+    await bundle.initialize();
+    dockerDownloader.setSessionBundle(bundle);
+    return bundle;
+  }
+
   /**
    * 단일 아이템 다운로드
    */
@@ -1,38 +1,66 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { downloadCommand } from './download';
-import { resolveAllDependencies } from '../../core/shared';
+import {
+  buildCargoSource,
+  buildNpmRegistryMirror,
+  resolveAllDependencies,
+  resolveCargoProjectFile,
+  resolveGoModFile,
+  resolveMavenBuildPlugins,
+  resolveMavenProjectFile,
+  writePipLockFiles,
+} from '../../core/shared';
 
 const {
   ensureDir,
   readFile,
+  readdir,
+  pathExists,
   reset,
   addToQueue,
+  addCompletedItems,
   on,
   startDownload,
   createArchive,
   generateAllScripts,
   create,
   stop,
+  sessionJournal,
 } = vi.hoisted(() => ({
   ensureDir: vi.fn(),
   readFile: vi.fn(),
+  readdir: vi.fn(),
+  pathExists: vi.fn(),
   reset: vi.fn(),
   addToQueue: vi.fn(),
+  addCompletedItems: vi.fn(),
   on: vi.fn(),
   startDownload: vi.fn(),
   createArchive: vi.fn(),
   generateAllScripts: vi.fn(),
   create: vi.fn(() => ({ update: vi.fn() })),
   stop: vi.fn(),
+  sessionJournal: {
+    createSession: vi.fn(),
+    prepareResume: vi.fn(),
+    markItemCompleted: vi.fn(),
+    markItemFailed: vi.fn(),
+    setStatus: vi.fn(),
+    removeSession: vi.fn(),
+  },
 }));
 
 vi.mock('fs-extra', () => ({
   default: {
     ensureDir,
     readFile,
+    readdir,
+    pathExists,
   },
   ensureDir,
   readFile,
+  readdir,
+  pathExists,
 }));
 
 vi.mock('cli-progress', () => ({
@@ -54,12 +82,17 @@ vi.mock('./download-runner', () => ({
     return {
       reset,
       addToQueue,
+      addCompletedItems,
       on,
       startDownload,
     };
   }),
 }));
 
+vi.mock('../../core/download-session-journal', () => ({
+  getDownloadSessionJournal: vi.fn(() => sessionJournal),
+}));
+
 vi.mock('../../core/packager/archive-packager', () => ({
   getArchivePackager: vi.fn(() => ({
     createArchive,
@@ -72,8 +105,33 @@ vi.mock('../../core/packager/script-generator', () => ({
   })),
 }));
 
-vi.mock('../../core/shared', () => ({
+vi.mock('../../core/shared', async () => ({
+  ...(await vi.importActual<typeof import('../../core/shared/npm-lockfile')>(
+    '../../core/shared/npm-lockfile'
+  )),
+  ...(await vi.importActual<typeof import('../../core/shared/maven-project-file')>(
+    '../../core/shared/maven-project-file'
+  )),
+  ...(await vi.importActual<typeof import('../../core/shared/go-module-utils')>(
+    '../../core/shared/go-module-utils'
+  )),
+  ...(await vi.importActual<typeof import('../../core/shared/cargo-utils')>(
+    '../../core/shared/cargo-utils'
+  )),
+  ...(await vi.importActual<typeof import('../../core/shared/nuget-utils')>(
+    '../../core/shared/nuget-utils'
+  )),
+  ...(await vi.importActual<typeof import('../../core/shared/python-download-targets')>(
+    '../../core/shared/python-download-targets'
+  )),
+  buildCargoSource: vi.fn(),
+  buildNpmRegistryMirror: vi.fn(),
   resolveAllDependencies: vi.fn(),
+  resolveCargoProjectFile: vi.fn(),
+  resolveGoModFile: vi.fn(),
+  resolveMavenBuildPlugins: vi.fn(),
+  resolveMavenProjectFile: vi.fn(),
+  writePipLockFiles: vi.fn(),
 }));
 
 function commandOptions(
@@ -99,6 +157,17 @@ describe('downloadCommand', () => {
     vi.clearAllMocks();
 
     ensureDir.mockResolvedValue(undefined);
+    sessionJournal.createSession.mockImplementation(async (input: {
+      source: string;
+      items: Array<{ id: string; package: unknown }>;
+    }) => ({
+      id: '1760000000000-abc123',
+      source: input.source,
+      items: input.items.map((item) => ({ ...item, status: 'pending' })),
+    }));
+    sessionJournal.prepareResume.mockResolvedValue(null);
+    sessionJournal.setStatus.mockResolvedValue(undefined);
+    sessionJournal.removeSession.mockResolvedValue(true);
     startDownload.mockResolvedValue({
       success: true,
       totalSize: 1024,
@@ -107,6 +176,7 @@ describe('downloadCommand', () => {
     });
     createArchive.mockResolvedValue(undefined);
     generateAllScripts.mockResolvedValue(undefined);
+    vi.mocked(writePipLockFiles).mockResolvedValue(null);
     vi.mocked(resolveAllDependencies).mockResolvedValue({
       originalPackages: [
         {
@@ -173,6 +243,107 @@ describe('downloadCommand', () => {
     ]);
   });
 
+  it('완료된 pip 아티팩트로 잠금 파일을 만들고 설치 스크립트에 전달한다', async () => {
+    startDownload.mockResolvedValueOnce({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: [
+        {
+          package: { type: 'pip', name: 'requests', version: '2.28.0' },
+          status: 'completed',
+          filePath: '/tmp/out/requests-2.28.0-py3-none-any.whl',
+        },
+        {
+          package: { type: 'pip', name: 'urllib3', version: '1.26.0' },
+          status: 'failed',
+        },
+      ],
+    });
+    vi.mocked(writePipLockFiles).mockResolvedValueOnce('/tmp/out/requirements.lock.txt');
+
+    await downloadCommand(commandOptions());
+
+    expect(writePipLockFiles).toHaveBeenCalledWith(expect.any(String), [
+      {
+        name: 'requests',
+        version: '2.28.0',
+        filePath: '/tmp/out/requests-2.28.0-py3-none-any.whl',
+      },
+    ]);
+    expect(generateAllScripts).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.any(String),
+      { pipLockFile: 'requirements.lock.txt' },
+    );
+  });
+
+  it('npm registry 형식이면 낱개 tarball 대신 레지스트리 미러를 묶고 스크립트에 전달한다', async () => {
+    startDownload.mockResolvedValueOnce({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: [
+        {
+          package: { type: 'npm', name: 'ms', version: '2.1.3' },
+          status: 'completed',
+          filePath: '/tmp/out/ms-2.1.3.tgz',
+        },
+      ],
+    });
+    vi.mocked(buildNpmRegistryMirror).mockResolvedValueOnce({
+      registryDir: '/tmp/out/npm-registry',
+      registryUrl: 'http://npm.internal:8080',
+      packageCount: 1,
+      versionCount: 1,
+      files: ['/tmp/out/npm-registry/ms/-/ms-2.1.3.tgz', '/tmp/out/npm-registry/ms/index.json'],
+    });
+
+    await downloadCommand(commandOptions({
+      type: 'npm',
+      package: 'ms',
+      pkgVersion: '2.1.3',
+      deps: false,
+      npmFormat: 'registry',
+      npmRegistryUrl: 'http://npm.internal:8080',
+    }));
+
+    expect(buildNpmRegistryMirror).toHaveBeenCalledWith(
+      expect.any(String),
+      [{ name: 'ms', version: '2.1.3', filePath: '/tmp/out/ms-2.1.3.tgz' }],
+      { registryUrl: 'http://npm.internal:8080' },
+    );
+    expect(createArchive).toHaveBeenCalledWith(
+      ['/tmp/out/npm-registry/ms/-/ms-2.1.3.tgz', '/tmp/out/npm-registry/ms/index.json'],
+      expect.any(String),
+      expect.any(Array),
+      expect.any(Object),
+    );
+    expect(generateAllScripts).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.any(String),
+      expect.objectContaining({ npmRegistryDir: 'npm-registry' }),
+    );
+  });
+
+  it('npm이 아닌 다운로드에 --npm-format을 지정하면 부작용 전에 실패한다', async () => {
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {
+        throw new Error('process.exit');
+      }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(downloadCommand(commandOptions({ npmFormat: 'registry' }))).rejects.toThrow('process.exit');
+
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('--npm-format 옵션은 npm 다운로드에서만 사용할 수 있습니다.'),
+    );
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
   it('명시한 최대 의존성 탐색 깊이를 resolver에 전달한다', async () => {
     await downloadCommand(commandOptions({ maxDepth: '8' }));
 
@@ -229,6 +400,115 @@ describe('downloadCommand', () => {
     );
   });
 
+  it('--target마다 해결한 pip 파일을 중복 없이 합치고 대상별 잠금 파일과 스크립트를 만든다', async () => {
+    const wheel = (name: string, version: string, filename: string) => ({
+      id: `pip-${name}-${version}-${filename}`,
+      type: 'pip',
+      name,
+      version,
+      architecture: 'x86_64',
+      downloadUrl: `https://files.pythonhosted.org/${filename}`,
+      filename,
+    });
+    vi.mocked(resolveAllDependencies)
+      .mockResolvedValueOnce({
+        originalPackages: [],
+        allPackages: [
+          wheel('requests', '2.28.0', 'requests-2.28.0-py3-none-any.whl'),
+          wheel('numpy', '1.26.4', 'numpy-1.26.4-cp39-cp39-manylinux_2_17_x86_64.whl'),
+        ],
+        dependencyTrees: [],
+        failedPackages: [],
+      })
+      .mockResolvedValueOnce({
+        originalPackages: [],
+        allPackages: [
+          wheel('requests', '2.28.0', 'requests-2.28.0-py3-none-any.whl'),
+          wheel('numpy', '1.26.4', 'numpy-1.26.4-cp312-cp312-win_amd64.whl'),
+        ],
+        dependencyTrees: [],
+        failedPackages: [],
+      });
+    startDownload.mockImplementationOnce(async () => ({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: addToQueue.mock.calls[0][0].map((pkg: { metadata: { filename: string } }) => ({
+        package: pkg,
+        status: 'completed',
+        filePath: `/tmp/out/${pkg.metadata.filename}`,
+      })),
+    }));
+
+    await downloadCommand(commandOptions({
+      target: ['linux/x86_64/3.9', 'windows/amd64/3.12'],
+    }));
+
+    expect(resolveAllDependencies).toHaveBeenNthCalledWith(
+      1,
+      expect.any(Array),
+      expect.objectContaining({ targetOS: 'linux', architecture: 'x86_64', pythonVersion: '3.9' }),
+    );
+    expect(resolveAllDependencies).toHaveBeenNthCalledWith(
+      2,
+      expect.any(Array),
+      expect.objectContaining({ targetOS: 'windows', architecture: 'x86_64', pythonVersion: '3.12' }),
+    );
+    const queued = addToQueue.mock.calls[0][0] as Array<{ name: string; metadata: Record<string, unknown> }>;
+    expect(queued.map((pkg) => [pkg.metadata.filename, pkg.metadata.pythonTargets])).toEqual([
+      ['requests-2.28.0-py3-none-any.whl', ['linux-x86_64-py3.9', 'windows-x86_64-py3.12']],
+      ['numpy-1.26.4-cp39-cp39-manylinux_2_17_x86_64.whl', ['linux-x86_64-py3.9']],
+      ['numpy-1.26.4-cp312-cp312-win_amd64.whl', ['windows-x86_64-py3.12']],
+    ]);
+    expect(startDownload).toHaveBeenCalledWith(expect.objectContaining({ pipTargetPlatform: undefined }));
+
+    expect(writePipLockFiles).toHaveBeenCalledTimes(2);
+    expect(writePipLockFiles).toHaveBeenCalledWith(
+      expect.stringMatching(/targets[\\/]windows-x86_64-py3\.12$/),
+      [
+        { name: 'requests', version: '2.28.0', filePath: '/tmp/out/requests-2.28.0-py3-none-any.whl' },
+        { name: 'numpy', version: '1.26.4', filePath: '/tmp/out/numpy-1.26.4-cp312-cp312-win_amd64.whl' },
+      ],
+    );
+    expect(generateAllScripts).toHaveBeenCalledTimes(2);
+    expect(generateAllScripts).toHaveBeenCalledWith(
+      [queued[0], queued[1]],
+      expect.stringMatching(/targets[\\/]linux-x86_64-py3\.9$/),
+      { packageDir: '../../packages', pipLockFile: undefined },
+    );
+  });
+
+  it('--target은 단일 대상 옵션이나 pip/conda 외 타입과 함께 쓰면 부작용 전에 실패한다', async () => {
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {
+        throw new Error('process.exit');
+      }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(downloadCommand(commandOptions({
+      target: ['linux/x86_64/3.9'],
+      pythonVersion: '3.11',
+    }))).rejects.toThrow('process.exit');
+    await expect(downloadCommand(commandOptions({
+      type: 'npm',
+      package: 'lodash',
+      target: ['linux/x86_64/3.9'],
+    }))).rejects.toThrow('process.exit');
+    await expect(downloadCommand(commandOptions({
+      target: ['linux/s390x/3.9'],
+    }))).rejects.toThrow('process.exit');
+
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(errorSpy.mock.calls.map(([message]) => message)).toEqual([
+      expect.stringContaining('--target 옵션은 --target-os, --arch, --python-version과 함께 사용할 수 없습니다.'),
+      expect.stringContaining('--target 옵션은 pip 또는 conda 다운로드에서만 사용할 수 있습니다.'),
+      expect.stringContaining('지원하지 않는 대상 아키텍처입니다: s390x'),
+    ]);
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
   it('같은 Conda 버전의 서로 다른 build를 모두 다운로드 큐에 추가한다', async () => {
     vi.mocked(resolveAllDependencies).mockResolvedValueOnce({
       originalPackages: [
@@ -925,6 +1205,33 @@ describe('downloadCommand', () => {
         arch: 'arm64',
       },
     ],
+    ['pip Docker 출력 형식', { dockerFormat: 'oci-layout' }],
+    [
+      '지원하지 않는 Docker 출력 형식',
+      {
+        type: 'docker',
+        package: 'nginx',
+        dockerFormat: 'squashfs',
+      },
+    ],
+    ['pip Docker 플랫폼', { platforms: 'amd64,arm64' }],
+    [
+      'docker-archive 멀티 아키텍처 번들',
+      {
+        type: 'docker',
+        package: 'nginx',
+        dockerFormat: 'docker-archive',
+        platforms: 'amd64,arm64',
+      },
+    ],
+    [
+      '지원하지 않는 Docker 플랫폼',
+      {
+        type: 'docker',
+        package: 'nginx',
+        platforms: 'amd64,mips',
+      },
+    ],
   ])('%s는 모든 부수 효과 전에 실패한다', async (_name, overrides) => {
     const exitSpy = vi
       .spyOn(process, 'exit')
@@ -945,6 +1252,418 @@ describe('downloadCommand', () => {
     }
   });
 
+  it('npm 잠금 파일은 의존성을 다시 해결하지 않고 resolved URL과 integrity를 큐에 전달한다', async () => {
+    readFile.mockResolvedValueOnce(JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0' },
+        'node_modules/lodash': {
+          version: '4.17.21',
+          resolved: 'https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz',
+          integrity: 'sha512-lodash',
+        },
+      },
+    }));
+
+    await downloadCommand(commandOptions({
+      type: 'npm',
+      package: undefined,
+      file: '/tmp/package-lock.json',
+      deps: true,
+    }));
+
+    expect(resolveAllDependencies).not.toHaveBeenCalled();
+    expect(addToQueue).toHaveBeenCalledWith([
+      expect.objectContaining({
+        type: 'npm',
+        name: 'lodash',
+        version: '4.17.21',
+        metadata: {
+          lockfile: 'package-lock',
+          downloadUrl: 'https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz',
+          integrity: 'sha512-lodash',
+        },
+      }),
+    ]);
+  });
+
+  it('Maven pom.xml은 프로젝트 의존성을 해결한 목록을 그대로 큐에 전달한다', async () => {
+    readFile.mockResolvedValueOnce('<project><artifactId>app</artifactId></project>');
+    vi.mocked(resolveMavenProjectFile).mockResolvedValueOnce([
+      {
+        type: 'maven',
+        name: 'org.slf4j:slf4j-api',
+        version: '2.0.13',
+        metadata: { groupId: 'org.slf4j', artifactId: 'slf4j-api', projectFile: 'pom' },
+      },
+    ]);
+
+    await downloadCommand(commandOptions({
+      type: 'maven',
+      package: undefined,
+      file: '/tmp/app/pom.xml',
+      deps: true,
+    }));
+
+    expect(resolveMavenProjectFile).toHaveBeenCalledWith(
+      '<project><artifactId>app</artifactId></project>',
+      'pom',
+      { maxDepth: 5 },
+    );
+    expect(resolveAllDependencies).not.toHaveBeenCalled();
+    expect(addToQueue).toHaveBeenCalledWith([
+      expect.objectContaining({
+        type: 'maven',
+        name: 'org.slf4j:slf4j-api',
+        version: '2.0.13',
+        metadata: expect.objectContaining({ projectFile: 'pom' }),
+      }),
+    ]);
+  });
+
+  it('--no-deps와 Maven 프로젝트 파일을 함께 쓰면 직접 의존성까지만 해결한다', async () => {
+    readFile.mockResolvedValueOnce('org.slf4j:slf4j-api:2.0.13=runtimeClasspath\n');
+    vi.mocked(resolveMavenProjectFile).mockResolvedValueOnce([
+      {
+        type: 'maven',
+        name: 'org.slf4j:slf4j-api',
+        version: '2.0.13',
+        metadata: { projectFile: 'gradle-lockfile' },
+      },
+    ]);
+
+    await downloadCommand(commandOptions({
+      type: 'maven',
+      package: undefined,
+      file: '/tmp/app/gradle.lockfile',
+      deps: false,
+    }));
+
+    expect(resolveMavenProjectFile).toHaveBeenCalledWith(
+      expect.any(String),
+      'gradle-lockfile',
+      { maxDepth: 1 },
+    );
+    expect(resolveAllDependencies).not.toHaveBeenCalled();
+  });
+
+  it('--maven-plugins와 pom.xml을 함께 쓰면 프로젝트 파일 해결에 빌드 플러그인을 포함한다', async () => {
+    readFile.mockResolvedValueOnce('<project><artifactId>app</artifactId></project>');
+    vi.mocked(resolveMavenProjectFile).mockResolvedValueOnce([
+      {
+        type: 'maven',
+        name: 'org.apache.maven.plugins:maven-war-plugin',
+        version: '3.4.0',
+        metadata: { type: 'maven-plugin', projectFile: 'pom' },
+      },
+    ]);
+
+    await downloadCommand(commandOptions({
+      type: 'maven',
+      package: undefined,
+      file: '/tmp/app/pom.xml',
+      mavenPlugins: true,
+      mavenPackaging: 'war',
+    }));
+
+    expect(resolveMavenProjectFile).toHaveBeenCalledWith(expect.any(String), 'pom', {
+      maxDepth: 5,
+      buildPlugins: true,
+      packaging: 'war',
+    });
+    expect(resolveMavenBuildPlugins).not.toHaveBeenCalled();
+  });
+
+  it('--maven-plugins는 -p 패키지에 packaging 기본 플러그인을 추가하고 .m2 디렉토리째 묶는다', async () => {
+    vi.mocked(resolveAllDependencies).mockResolvedValueOnce({
+      originalPackages: [],
+      allPackages: [
+        {
+          id: 'maven-org.slf4j:slf4j-api-2.0.13',
+          type: 'maven',
+          name: 'org.slf4j:slf4j-api',
+          version: '2.0.13',
+          architecture: 'x86_64',
+        },
+      ],
+      dependencyTrees: [],
+      failedPackages: [],
+    });
+    vi.mocked(resolveMavenBuildPlugins).mockResolvedValueOnce([
+      {
+        type: 'maven',
+        name: 'org.apache.maven.plugins:maven-compiler-plugin',
+        version: '3.11.0',
+        metadata: { type: 'maven-plugin' },
+      },
+      { type: 'maven', name: 'org.slf4j:slf4j-api', version: '2.0.13' },
+    ]);
+    const pluginDir = '/out/org/apache/maven/plugins/maven-compiler-plugin/3.11.0';
+    startDownload.mockResolvedValueOnce({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: [
+        {
+          status: 'completed',
+          package: { type: 'maven', name: 'org.apache.maven.plugins:maven-compiler-plugin', version: '3.11.0' },
+          filePath: `${pluginDir}/maven-compiler-plugin-3.11.0.jar`,
+        },
+      ],
+    });
+    readdir.mockResolvedValueOnce([
+      'maven-compiler-plugin-3.11.0.jar',
+      'maven-compiler-plugin-3.11.0.jar.sha1',
+      'maven-compiler-plugin-3.11.0.pom',
+    ]);
+
+    await downloadCommand(commandOptions({
+      type: 'maven',
+      package: 'org.slf4j:slf4j-api',
+      pkgVersion: '2.0.13',
+      mavenPlugins: true,
+    }));
+
+    expect(resolveMavenBuildPlugins).toHaveBeenCalledWith(undefined);
+    expect(addToQueue).toHaveBeenCalledWith([
+      expect.objectContaining({ name: 'org.slf4j:slf4j-api' }),
+      expect.objectContaining({ name: 'org.apache.maven.plugins:maven-compiler-plugin' }),
+    ]);
+    expect(createArchive).toHaveBeenCalledWith(
+      [
+        `${pluginDir}/maven-compiler-plugin-3.11.0.jar`,
+        `${pluginDir}/maven-compiler-plugin-3.11.0.jar.sha1`,
+        `${pluginDir}/maven-compiler-plugin-3.11.0.pom`,
+      ],
+      expect.any(String),
+      expect.any(Array),
+      expect.any(Object),
+    );
+  });
+
+  it('go.mod는 옆의 go.sum과 함께 해결한 빌드 목록을 큐에 넣고 GOPROXY 디렉토리째 묶는다', async () => {
+    readFile
+      .mockResolvedValueOnce('module example.com/app\n\ngo 1.21\n')
+      .mockResolvedValueOnce('golang.org/x/text v0.14.0 h1:text\n');
+    pathExists.mockResolvedValueOnce(true);
+    vi.mocked(resolveGoModFile).mockResolvedValueOnce([
+      {
+        type: 'go',
+        name: 'golang.org/x/text',
+        version: 'v0.14.0',
+        metadata: { goSum: { h1: 'h1:text' }, projectFile: 'go.mod' },
+      },
+    ]);
+    const versionDir = '/out/cache/download/golang.org/x/text/@v';
+    startDownload.mockResolvedValueOnce({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: [
+        {
+          status: 'completed',
+          package: { type: 'go', name: 'golang.org/x/text', version: 'v0.14.0' },
+          filePath: `${versionDir}/v0.14.0.zip`,
+        },
+      ],
+    });
+    readdir.mockResolvedValueOnce(['list', 'v0.14.0.info', 'v0.14.0.mod', 'v0.14.0.zip']);
+
+    await downloadCommand(commandOptions({
+      type: 'go',
+      package: undefined,
+      file: '/tmp/app/go.mod',
+    }));
+
+    expect(readFile).toHaveBeenLastCalledWith('/tmp/app/go.sum', 'utf-8');
+    expect(resolveGoModFile).toHaveBeenCalledWith(
+      'module example.com/app\n\ngo 1.21\n',
+      'golang.org/x/text v0.14.0 h1:text\n',
+    );
+    expect(resolveAllDependencies).not.toHaveBeenCalled();
+    expect(createArchive).toHaveBeenCalledWith(
+      [
+        `${versionDir}/list`,
+        `${versionDir}/v0.14.0.info`,
+        `${versionDir}/v0.14.0.mod`,
+        `${versionDir}/v0.14.0.zip`,
+      ],
+      expect.any(String),
+      expect.any(Array),
+      expect.any(Object),
+    );
+  });
+
+  it('Cargo.lock은 잠긴 crate를 받아 낱개 .crate 대신 vendor 디렉토리를 묶고 스크립트에 전달한다', async () => {
+    readFile.mockResolvedValueOnce('version = 3\n');
+    vi.mocked(resolveCargoProjectFile).mockResolvedValueOnce([
+      {
+        type: 'cargo',
+        name: 'serde',
+        version: '1.0.193',
+        metadata: { checksum: { sha256: 'abc' }, projectFile: 'cargo' },
+      },
+    ]);
+    startDownload.mockResolvedValueOnce({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: [
+        {
+          status: 'completed',
+          package: { type: 'cargo', name: 'serde', version: '1.0.193' },
+          filePath: '/out/serde-1.0.193.crate',
+        },
+      ],
+    });
+    vi.mocked(buildCargoSource).mockResolvedValueOnce({
+      sourceDir: '/out/vendor',
+      format: 'vendor',
+      crateCount: 1,
+      files: ['/out/vendor/serde-1.0.193/Cargo.toml', '/out/vendor/serde-1.0.193/.cargo-checksum.json'],
+    });
+
+    await downloadCommand(commandOptions({
+      type: 'cargo',
+      package: undefined,
+      file: '/tmp/app/Cargo.lock',
+    }));
+
+    expect(resolveCargoProjectFile).toHaveBeenCalledWith('version = 3\n', 'lockfile');
+    expect(resolveAllDependencies).not.toHaveBeenCalled();
+    expect(buildCargoSource).toHaveBeenCalledWith(
+      expect.any(String),
+      [{ name: 'serde', version: '1.0.193', filePath: '/out/serde-1.0.193.crate' }],
+      { format: 'vendor' },
+    );
+    expect(createArchive).toHaveBeenCalledWith(
+      ['/out/vendor/serde-1.0.193/Cargo.toml', '/out/vendor/serde-1.0.193/.cargo-checksum.json'],
+      expect.any(String),
+      expect.any(Array),
+      expect.any(Object),
+    );
+    expect(generateAllScripts).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.any(String),
+      expect.objectContaining({ cargoVendorDir: 'vendor', cargoRegistryDir: undefined }),
+    );
+  });
+
+  it('cargo가 아닌 다운로드에 --cargo-format을 지정하면 부작용 전에 실패한다', async () => {
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {
+        throw new Error('process.exit');
+      }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(downloadCommand(commandOptions({ cargoFormat: 'registry' }))).rejects.toThrow('process.exit');
+
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('--cargo-format 옵션은 cargo 다운로드에서만 사용할 수 있습니다.'),
+    );
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('NuGet 대상 프레임워크를 resolver에 전달하고 로컬 피드 버전 디렉토리째 묶는다', async () => {
+    vi.mocked(resolveAllDependencies).mockResolvedValueOnce({
+      originalPackages: [
+        { id: 'nuget-Newtonsoft.Json-13.0.3', type: 'nuget', name: 'Newtonsoft.Json', version: '13.0.3' },
+      ],
+      allPackages: [
+        { id: 'nuget-Newtonsoft.Json-13.0.3', type: 'nuget', name: 'Newtonsoft.Json', version: '13.0.3' },
+      ],
+      dependencyTrees: [],
+      failedPackages: [],
+    });
+    const versionDir = '/out/nuget-feed/newtonsoft.json/13.0.3';
+    startDownload.mockResolvedValueOnce({
+      success: true,
+      totalSize: 1024,
+      duration: 1000,
+      items: [
+        {
+          status: 'completed',
+          package: { type: 'nuget', name: 'Newtonsoft.Json', version: '13.0.3' },
+          filePath: `${versionDir}/newtonsoft.json.13.0.3.nupkg`,
+        },
+      ],
+    });
+    readdir.mockResolvedValueOnce([
+      'newtonsoft.json.13.0.3.nupkg',
+      'newtonsoft.json.13.0.3.nupkg.sha512',
+      'newtonsoft.json.nuspec',
+    ]);
+
+    await downloadCommand(commandOptions({
+      type: 'nuget',
+      package: 'Newtonsoft.Json',
+      pkgVersion: '13.0.3',
+      targetFramework: 'netstandard2.0',
+    }));
+
+    expect(resolveAllDependencies).toHaveBeenCalledWith(
+      [expect.objectContaining({ type: 'nuget', name: 'Newtonsoft.Json', version: '13.0.3' })],
+      expect.objectContaining({ targetFramework: 'netstandard2.0', maxDepth: 5 }),
+    );
+    expect(createArchive).toHaveBeenCalledWith(
+      [
+        `${versionDir}/newtonsoft.json.13.0.3.nupkg`,
+        `${versionDir}/newtonsoft.json.13.0.3.nupkg.sha512`,
+        `${versionDir}/newtonsoft.json.nuspec`,
+      ],
+      expect.any(String),
+      expect.any(Array),
+      expect.any(Object),
+    );
+  });
+
+  it('nuget이 아닌 다운로드에 --target-framework를 지정하면 부작용 전에 실패한다', async () => {
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {
+        throw new Error('process.exit');
+      }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(downloadCommand(commandOptions({ targetFramework: 'net8.0' }))).rejects.toThrow('process.exit');
+    await expect(downloadCommand(commandOptions({
+      type: 'nuget',
+      package: 'Newtonsoft.Json',
+      targetFramework: 'uap10.0',
+    }))).rejects.toThrow('process.exit');
+
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('--target-framework 옵션은 nuget 다운로드에서만 사용할 수 있습니다.'),
+    );
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('지원하지 않는 대상 프레임워크입니다: uap10.0'),
+    );
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('maven이 아닌 다운로드에 --maven-plugins를 지정하면 부작용 전에 실패한다', async () => {
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {
+        throw new Error('process.exit');
+      }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(downloadCommand(commandOptions({ mavenPlugins: true }))).rejects.toThrow('process.exit');
+
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('--maven-plugins, --maven-packaging 옵션은 maven 다운로드에서만 사용할 수 있습니다.'),
+    );
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
   it('Maven classifier를 resolver 입력과 다운로드 큐에 보존한다', async () => {
     vi.mocked(resolveAllDependencies).mockResolvedValueOnce({
       originalPackages: [
@@ -996,4 +1715,113 @@ describe('downloadCommand', () => {
       }),
     ]);
   });
+
+  it('Docker OCI 출력 형식을 다운로드 매니저에 전달한다', async () => {
+    await downloadCommand(commandOptions({
+      type: 'docker',
+      package: 'nginx',
+      pkgVersion: '1.27',
+      dockerFormat: 'oci-layout',
+    }));
+
+    expect(startDownload).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dockerOutputFormat: 'oci-layout',
+      }),
+    );
+  });
+
+  it('Docker 플랫폼 목록을 지정하면 OCI 레이아웃 멀티 아키텍처 번들로 전달한다', async () => {
+    await downloadCommand(commandOptions({
+      type: 'docker',
+      package: 'nginx',
+      pkgVersion: '1.27',
+      platforms: 'amd64, arm64,amd64',
+    }));
+
+    expect(startDownload).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dockerOutputFormat: 'oci-layout',
+        dockerPlatforms: ['amd64', 'arm64'],
+      }),
+    );
+  });
+
+  it('다운로드 세션을 저널에 기록하고 모두 끝나면 제거한다', async () => {
+    await downloadCommand(commandOptions({ deps: false, type: 'yum', package: 'bash', pkgVersion: '5.2.26' }));
+
+    expect(sessionJournal.createSession).toHaveBeenCalledWith({
+      source: 'cli',
+      outputDir: expect.stringMatching(/output$/),
+      options: expect.objectContaining({ type: 'yum', package: 'bash', output: expect.stringMatching(/output$/) }),
+      items: [{ id: '0', package: { type: 'yum', name: 'bash', version: '5.2.26', arch: 'x86_64' } }],
+    });
+    expect(sessionJournal.removeSession).toHaveBeenCalledWith('1760000000000-abc123');
+    expect(sessionJournal.setStatus).not.toHaveBeenCalled();
+  });
+
+  it('일부 실패하면 세션을 재개 가능한 상태로 남긴다', async () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    startDownload.mockResolvedValueOnce({
+      success: false,
+      totalSize: 0,
+      duration: 1000,
+      items: [{ package: { type: 'yum', name: 'bash', version: '5.2.26' }, status: 'failed', error: 'HTTP 503' }],
+    });
+
+    await downloadCommand(commandOptions({ deps: false, type: 'yum', package: 'bash', pkgVersion: '5.2.26' }));
+
+    expect(sessionJournal.setStatus).toHaveBeenCalledWith('1760000000000-abc123', 'failed');
+    expect(sessionJournal.removeSession).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('depssmuggler download --resume 1760000000000-abc123'));
+    logSpy.mockRestore();
+  });
+
+  it('--resume은 기록된 옵션으로 검증된 완료 패키지를 건너뛰고 나머지만 받는다', async () => {
+    const requests = { type: 'pip', name: 'requests', version: '2.28.0', arch: 'x86_64' };
+    const urllib3 = { type: 'pip', name: 'urllib3', version: '1.26.0', arch: 'x86_64' };
+    sessionJournal.prepareResume.mockResolvedValueOnce({
+      id: '1760000000000-abc123',
+      source: 'cli',
+      status: 'running',
+      outputDir: '/tmp/out',
+      options: commandOptions({ output: '/tmp/out', concurrency: '1' }),
+      items: [
+        { id: '0', package: requests, status: 'completed', filePath: '/tmp/out/requests-2.28.0-py3-none-any.whl', sha256: 'abc' },
+        { id: '1', package: urllib3, status: 'pending' },
+      ],
+    });
+
+    await downloadCommand({ resume: '1760000000000-abc123' } as Parameters<typeof downloadCommand>[0]);
+
+    expect(sessionJournal.prepareResume).toHaveBeenCalledWith('1760000000000-abc123');
+    expect(sessionJournal.createSession).not.toHaveBeenCalled();
+    expect(resolveAllDependencies).not.toHaveBeenCalled();
+    expect(addCompletedItems).toHaveBeenCalledWith([
+      { package: requests, filePath: '/tmp/out/requests-2.28.0-py3-none-any.whl' },
+    ]);
+    expect(addToQueue).toHaveBeenCalledWith([urllib3]);
+    expect(startDownload).toHaveBeenCalledWith(expect.objectContaining({ outputPath: '/tmp/out', concurrency: 1 }));
+    expect(sessionJournal.removeSession).toHaveBeenCalledWith('1760000000000-abc123');
+  });
+
+  it('없는 세션을 --resume하면 부작용 없이 실패한다', async () => {
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {
+        throw new Error('process.exit');
+      }) as never);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(
+      downloadCommand({ resume: 'missing' } as Parameters<typeof downloadCommand>[0])
+    ).rejects.toThrow('process.exit');
+
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('재개할 다운로드 세션을 찾을 수 없습니다: missing'),
+    );
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
 });
@@ -7,15 +7,56 @@ import {
   validateDownloadEnvironmentOptions,
   type CliDownloadEnvironmentOptions,
 } from './download-environment';
-import { DownloadManager, OverallProgress } from './download-runner';
+import { DownloadManager, OverallProgress, type DownloadManagerItem } from './download-runner';
+import { applyCliTransferLimits, type CliTransferLimitOptions } from './transfer-limits';
+import {
+  getDownloadSessionJournal,
+  type DownloadSessionRecord,
+} from '../../core/download-session-journal';
 import { getArchivePackager, ArchiveFormat } from '../../core/packager/archive-packager';
 import { getScriptGenerator } from '../../core/packager/script-generator';
-import { DownloadPackage, resolveAllDependencies } from '../../core/shared';
-import { PackageInfo, PackageType, Architecture } from '../../types';
+import {
+  DownloadPackage,
+  PYTHON_TARGETS_DIR,
+  buildCargoSource,
+  buildNpmRegistryMirror,
+  detectCargoProjectFileFormat,
+  detectMavenProjectFileFormat,
+  detectNpmLockfileFormat,
+  formatPythonDownloadTarget,
+  getPythonTargetSlug,
+  isCargoProjectPackage,
+  isGoModFile,
+  isGoProjectPackage,
+  isMavenProjectPackage,
+  isNpmLockedPackage,
+  isNuGetTargetFramework,
+  mergePythonTargetPackages,
+  parseNpmLockfile,
+  parsePythonDownloadTargets,
+  resolveAllDependencies,
+  resolveCargoProjectFile,
+  resolveGoModFile,
+  resolveMavenBuildPlugins,
+  resolveMavenProjectFile,
+  selectPythonTargetPackages,
+  toNpmLockedPackageInfo,
+  writePipLockFiles,
+} from '../../core/shared';
+import { describeTransferLimits, formatRate } from '../../core/shared/transfer-limiter';
+import {
+  PackageInfo,
+  PackageType,
+  Architecture,
+  CargoOutputFormat,
+  DockerOutputFormat,
+  NpmOutputFormat,
+} from '../../types';
 import type { PipTargetPlatform } from '../../types/platform/pip-target-platform';
+import type { PythonDownloadTarget } from '../../types/platform/python-download-target';
 
 // 다운로드 옵션
-interface DownloadCommandOptions extends CliDownloadEnvironmentOptions {
+interface DownloadCommandOptions extends CliDownloadEnvironmentOptions, CliTransferLimitOptions {
   package?: string;
   pkgVersion: string;
   output: string;
@@ -25,15 +66,29 @@ interface DownloadCommandOptions extends CliDownloadEnvironmentOptions {
   strict?: boolean;
   maxDepth?: string;
   concurrency: string;
+  dockerFormat?: string;
+  platforms?: string;
+  npmFormat?: string;
+  npmRegistryUrl?: string;
+  cargoFormat?: string;
+  targetFramework?: string;
+  mavenPlugins?: boolean;
+  mavenPackaging?: string;
+  resume?: string;
+  target?: string[];
 }
 
+// 세션 저널에 기록하는 옵션 (재개 시 이 옵션으로 다시 실행, 전송 제한은 재개할 때 새로 지정)
+type JournaledDownloadOptions = Omit<DownloadCommandOptions, 'resume' | 'limitRate' | 'perHost'>;
+type CliDownloadSession = DownloadSessionRecord<PackageInfo, JournaledDownloadOptions>;
+
 interface PreparedPackagesResult {
   packages: PackageInfo[];
   dependencyResolutionApplied: boolean;
   warning?: string;
 }
 
-const CLI_DEPENDENCY_SUPPORTED_TYPES = new Set<PackageType>(['pip', 'conda', 'maven', 'npm']);
+const CLI_DEPENDENCY_SUPPORTED_TYPES = new Set<PackageType>(['pip', 'conda', 'maven', 'npm', 'go', 'cargo', 'nuget']);
 const PIP_TARGET_ARCHITECTURES: Partial<Record<Architecture, PipTargetPlatform['arch']>> = {
   x86_64: 'x86_64',
   amd64: 'x86_64',
@@ -58,10 +113,150 @@ function parseMaxDepth(value: string): number {
   return parsed;
 }
 
+const DOCKER_OUTPUT_FORMATS = new Set<DockerOutputFormat>(['docker-archive', 'oci-layout']);
+
+function parseDockerOutputFormat(
+  type: PackageType,
+  value: string | undefined,
+): DockerOutputFormat | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (type !== 'docker') {
+    throw new Error('--docker-format 옵션은 docker 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  if (!DOCKER_OUTPUT_FORMATS.has(value as DockerOutputFormat)) {
+    throw new Error(`지원하지 않는 Docker 출력 형식입니다: ${value} (docker-archive, oci-layout)`);
+  }
+
+  return value as DockerOutputFormat;
+}
+
+const NPM_OUTPUT_FORMATS = new Set<NpmOutputFormat>(['tarball', 'registry']);
+
+function parseNpmOutputFormat(
+  type: PackageType,
+  value: string | undefined,
+): NpmOutputFormat | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (type !== 'npm') {
+    throw new Error('--npm-format 옵션은 npm 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  if (!NPM_OUTPUT_FORMATS.has(value as NpmOutputFormat)) {
+    throw new Error(`지원하지 않는 npm 출력 형식입니다: ${value} (tarball, registry)`);
+  }
+
+  return value as NpmOutputFormat;
+}
+
+const CARGO_OUTPUT_FORMATS = new Set<CargoOutputFormat>(['vendor', 'registry']);
+
+/**
+ * Cargo 출력 형식 (cargo 다운로드는 지정하지 않으면 vendor)
+ */
+function parseCargoOutputFormat(
+  type: PackageType,
+  value: string | undefined,
+): CargoOutputFormat | undefined {
+  if (value !== undefined && type !== 'cargo') {
+    throw new Error('--cargo-format 옵션은 cargo 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  if (type !== 'cargo') {
+    return undefined;
+  }
+
+  const format = value ?? 'vendor';
+  if (!CARGO_OUTPUT_FORMATS.has(format as CargoOutputFormat)) {
+    throw new Error(`지원하지 않는 Cargo 출력 형식입니다: ${format} (vendor, registry)`);
+  }
+
+  return format as CargoOutputFormat;
+}
+
+/**
+ * NuGet 대상 프레임워크 (nuget 다운로드는 지정하지 않으면 리졸버 기본값 net8.0)
+ */
+function validateTargetFramework(
+  type: PackageType,
+  value: string | undefined,
+): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (type !== 'nuget') {
+    throw new Error('--target-framework 옵션은 nuget 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  if (!isNuGetTargetFramework(value)) {
+    throw new Error(`지원하지 않는 대상 프레임워크입니다: ${value} (예: net8.0, netstandard2.0)`);
+  }
+}
+
+function validateMavenPluginOptions(
+  type: PackageType,
+  mavenPlugins: boolean | undefined,
+  mavenPackaging: string | undefined,
+): void {
+  if ((mavenPlugins || mavenPackaging !== undefined) && type !== 'maven') {
+    throw new Error('--maven-plugins, --maven-packaging 옵션은 maven 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  if (mavenPackaging !== undefined && !mavenPlugins) {
+    throw new Error('--maven-packaging 옵션은 --maven-plugins와 함께 사용해야 합니다.');
+  }
+}
+
+const DOCKER_PLATFORM_ARCHITECTURES = new Set<Architecture>([
+  'amd64',
+  'x86_64',
+  'arm64',
+  'aarch64',
+  'arm/v7',
+  '386',
+  'i386',
+  'i686',
+]);
+
+function parseDockerPlatforms(
+  type: PackageType,
+  value: string | undefined,
+): Architecture[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (type !== 'docker') {
+    throw new Error('--platforms 옵션은 docker 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  const platforms = [...new Set(value.split(',').map((item) => item.trim()).filter(Boolean))];
+  if (platforms.length === 0) {
+    throw new Error('--platforms에 하나 이상의 아키텍처를 지정하세요.');
+  }
+
+  const unsupported = platforms.filter(
+    (platform) => !DOCKER_PLATFORM_ARCHITECTURES.has(platform as Architecture),
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`지원하지 않는 Docker 플랫폼입니다: ${unsupported.join(', ')}`);
+  }
+
+  return platforms as Architecture[];
+}
+
 const CLI_TARGET_ENVIRONMENT_TYPES = new Set<PackageType>(['pip', 'conda', 'maven']);
 const CLI_ROOT_ARTIFACT_RESOLUTION_TYPES = new Set<PackageType>([
   'pip',
   'conda',
+  'nuget',
 ]);
 
 function getPipTargetPlatform(
@@ -76,6 +271,15 @@ function getPipTargetPlatform(
     return undefined;
   }
 
+  if (options.targetOS === 'linux-musl') {
+    return {
+      os: 'linux',
+      arch,
+      pythonVersion: options.pythonVersion,
+      libc: 'musl',
+    };
+  }
+
   return {
     os: options.targetOS,
     arch,
@@ -83,6 +287,32 @@ function getPipTargetPlatform(
   };
 }
 
+/**
+ * --target 멀티 타겟 (pip/conda 전용, 단일 대상 옵션과 함께 쓸 수 없음)
+ */
+function parsePythonTargets(
+  options: Pick<DownloadCommandOptions, 'type' | 'target' | 'arch' | 'targetOS' | 'pythonVersion'>,
+): PythonDownloadTarget[] | undefined {
+  if (!options.target || options.target.length === 0) {
+    return undefined;
+  }
+
+  if (options.type !== 'pip' && options.type !== 'conda') {
+    throw new Error('--target 옵션은 pip 또는 conda 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  if (options.targetOS !== 'any' || options.arch !== 'x86_64' || options.pythonVersion !== undefined) {
+    throw new Error('--target 옵션은 --target-os, --arch, --python-version과 함께 사용할 수 없습니다.');
+  }
+
+  const targets = parsePythonDownloadTargets(options.target);
+  if (options.type === 'conda' && targets.some((target) => target.targetOS === 'linux-musl')) {
+    throw new Error('linux-musl 대상은 pip 다운로드에서만 사용할 수 있습니다.');
+  }
+
+  return targets;
+}
+
 function toDownloadPackage(pkg: PackageInfo): DownloadPackage {
   const metadata = pkg.metadata as Record<string, unknown> | undefined;
 
@@ -142,6 +372,18 @@ function toPackageInfo(pkg: DownloadPackage): PackageInfo {
   };
 }
 
+/**
+ * 잠금 파일/프로젝트 파일에서 이미 해결된 패키지인지 확인
+ */
+function isPreResolvedPackage(pkg: PackageInfo): boolean {
+  return (
+    isNpmLockedPackage(pkg) ||
+    isMavenProjectPackage(pkg) ||
+    isGoProjectPackage(pkg) ||
+    isCargoProjectPackage(pkg)
+  );
+}
+
 async function preparePackagesForDownload(
   packages: PackageInfo[],
   options: Pick<
@@ -153,10 +395,19 @@ async function preparePackagesForDownload(
     | 'cudaVersion'
     | 'condaChannel'
     | 'classifier'
+    | 'targetFramework'
     | 'deps'
     | 'strict'
   > & { maxDepth: number },
 ): Promise<PreparedPackagesResult> {
+  // 잠금 파일/프로젝트 파일 목록은 이미 해결된 트리이므로 다시 해결하지 않는다
+  if (packages.length > 0 && packages.every(isPreResolvedPackage)) {
+    return {
+      packages,
+      dependencyResolutionApplied: false,
+    };
+  }
+
   const shouldResolveTargetedRoots =
     !options.deps &&
     (CLI_ROOT_ARTIFACT_RESOLUTION_TYPES.has(options.type) ||
@@ -187,6 +438,7 @@ async function preparePackagesForDownload(
     pythonVersion: options.pythonVersion,
     cudaVersion: options.cudaVersion,
     condaChannel: options.condaChannel,
+    targetFramework: options.targetFramework,
     includeDependencies: true,
     maxDepth: options.deps ? options.maxDepth : 0,
     ...(!options.deps
@@ -240,84 +492,196 @@ async function preparePackagesForDownload(
 }
 
 /**
- * download 명령어 핸들러
+ * -p 패키지 또는 --file 목록으로 다운로드할 패키지 준비 (의존성 해결 포함)
  */
-export async function downloadCommand(options: DownloadCommandOptions): Promise<void> {
-  options = {
-    ...options,
-    targetOS: options.targetOS ?? 'any',
-    condaChannel: options.condaChannel ?? 'conda-forge',
-    maxDepth: options.maxDepth ?? '5',
-  };
-  console.log(chalk.cyan('다운로드 준비 중...'));
-
-  try {
-    validateDownloadEnvironmentOptions(options);
-    const maxDepth = parseMaxDepth(options.maxDepth ?? '5');
-
-    // 패키지 목록 생성
-    let packages: PackageInfo[] = [];
-
-    if (options.file) {
-      // 파일에서 패키지 목록 읽기
-      packages = await parsePackageFile(options.file, options.type);
-      console.log(chalk.green(`${packages.length}개 패키지를 파일에서 로드했습니다`));
-    } else if (options.package) {
-      // 단일 패키지
-      packages = [
-        {
-          type: options.type,
-          name: options.package,
-          version: options.pkgVersion,
-          arch: options.arch,
-        },
-      ];
+async function collectPackagesForDownload(
+  options: DownloadCommandOptions,
+  maxDepth: number
+): Promise<PackageInfo[]> {
+  // 패키지 목록 생성
+  let packages: PackageInfo[] = [];
+
+  if (options.file) {
+    // 파일에서 패키지 목록 읽기
+    packages = await parsePackageFile(options.file, options.type, {
+      // --no-deps이면 pom.xml에 선언된 직접 의존성만 사용
+      maxDepth: options.deps ? maxDepth : 1,
+      mavenPlugins: options.mavenPlugins,
+      mavenPackaging: options.mavenPackaging,
+    });
+    if (packages.length > 0 && (
+      packages.every(isMavenProjectPackage) ||
+      packages.every(isGoProjectPackage) ||
+      packages.every(isCargoProjectPackage)
+    )) {
+      console.log(chalk.green(`${packages.length}개 패키지를 프로젝트 파일에서 해결했습니다`));
+    } else if (packages.length > 0 && packages.every(isNpmLockedPackage)) {
+      console.log(chalk.green(`${packages.length}개 패키지를 잠금 파일에서 로드했습니다 (의존성 해결 생략)`));
     } else {
-      console.log(chalk.red('패키지명(-p) 또는 파일(--file)을 지정하세요'));
-      process.exit(1);
+      console.log(chalk.green(`${packages.length}개 패키지를 파일에서 로드했습니다`));
     }
+  } else if (options.package) {
+    // 단일 패키지
+    packages = [
+      {
+        type: options.type,
+        name: options.package,
+        version: options.pkgVersion,
+        arch: options.arch,
+      },
+    ];
+  } else {
+    console.log(chalk.red('패키지명(-p) 또는 파일(--file)을 지정하세요'));
+    process.exit(1);
+  }
 
+  packages = packages.map((pkg) => ({
+    ...pkg,
+    arch: options.arch,
+  }));
+
+  if (options.classifier !== undefined) {
     packages = packages.map((pkg) => ({
       ...pkg,
-      arch: options.arch,
+      metadata: {
+        ...(pkg.metadata ?? {}),
+        classifier: options.classifier,
+      },
     }));
+  }
+
+  console.log(chalk.green(`✓ ${packages.length}개 패키지 준비 완료`));
+
+  const requestedCount = packages.length;
+  const prepared = await preparePackagesForDownload(packages, {
+    type: options.type,
+    arch: options.arch,
+    targetOS: options.targetOS,
+    pythonVersion: options.pythonVersion,
+    cudaVersion: options.cudaVersion,
+    condaChannel: options.condaChannel,
+    classifier: options.classifier,
+    targetFramework: options.targetFramework,
+    deps: options.deps,
+    strict: options.strict,
+    maxDepth,
+  });
+  packages = prepared.packages;
+
+  if (prepared.warning) {
+    console.log(chalk.yellow(`⚠ ${prepared.warning}`));
+  }
+
+  if (prepared.dependencyResolutionApplied) {
+    console.log(chalk.green(`✓ 의존성 해결 완료: ${requestedCount}개 → ${packages.length}개 패키지`));
+  }
 
-    if (options.classifier !== undefined) {
-      packages = packages.map((pkg) => ({
-        ...pkg,
-        metadata: {
-          ...(pkg.metadata ?? {}),
-          classifier: options.classifier,
-        },
-      }));
+  // pom.xml은 프로젝트 파일 해결 단계에서 플러그인까지 포함하므로, 그 외에는 packaging 기본 플러그인을 추가
+  if (options.mavenPlugins && !packages.every(isMavenProjectPackage)) {
+    const plugins = await resolveMavenBuildPlugins(options.mavenPackaging);
+    const existing = new Set(packages.map(getMavenPackageKey));
+    const added = plugins.filter((pkg) => !existing.has(getMavenPackageKey(pkg)));
+    packages = [...packages, ...added];
+    console.log(chalk.green(`✓ Maven 빌드 플러그인 ${added.length}개 패키지 추가`));
+  }
+
+  return packages;
+}
+
+/**
+ * 대상마다 패키지를 해결한 뒤 같은 파일은 한 번만 받도록 합친다
+ */
+async function collectPythonTargetPackages(
+  options: DownloadCommandOptions,
+  targets: PythonDownloadTarget[],
+  maxDepth: number
+): Promise<PackageInfo[]> {
+  const results: Array<{ target: PythonDownloadTarget; packages: PackageInfo[] }> = [];
+
+  for (const target of targets) {
+    console.log(chalk.cyan(`\n[${formatPythonDownloadTarget(target)}] 대상 패키지 해결 중...`));
+    const packages = await collectPackagesForDownload(
+      {
+        ...options,
+        targetOS: target.targetOS,
+        arch: target.architecture,
+        pythonVersion: target.pythonVersion,
+      },
+      maxDepth
+    );
+    results.push({ target, packages });
+  }
+
+  const merged = mergePythonTargetPackages(results);
+  const totalCount = results.reduce((sum, result) => sum + result.packages.length, 0);
+  console.log(chalk.green(
+    `✓ ${targets.length}개 대상 병합 완료: ${totalCount}개 → 중복 제외 ${merged.length}개 파일`
+  ));
+  return merged;
+}
+
+/**
+ * download 명령어 핸들러
+ */
+export async function downloadCommand(options: DownloadCommandOptions): Promise<void> {
+  const journal = getDownloadSessionJournal();
+  let sessionId: string | undefined;
+
+  try {
+    const transferLimits = applyCliTransferLimits(options);
+
+    // 세션 재개: 저널에 기록된 옵션과 패키지 목록을 그대로 사용
+    let resumedSession: CliDownloadSession | null = null;
+    if (options.resume) {
+      resumedSession = await journal.prepareResume<PackageInfo, JournaledDownloadOptions>(options.resume);
+      if (!resumedSession || resumedSession.source !== 'cli') {
+        throw new Error(`재개할 다운로드 세션을 찾을 수 없습니다: ${options.resume}`);
+      }
+      sessionId = resumedSession.id;
+      options = { ...resumedSession.options };
     }
 
-    console.log(chalk.green(`✓ ${packages.length}개 패키지 준비 완료`));
+    options = {
+      ...options,
+      targetOS: options.targetOS ?? 'any',
+      condaChannel: options.condaChannel ?? 'conda-forge',
+      maxDepth: options.maxDepth ?? '5',
+    };
+    console.log(chalk.cyan(resumedSession ? `다운로드 세션 재개 중... (${resumedSession.id})` : '다운로드 준비 중...'));
 
-    const requestedCount = packages.length;
-    const pipTargetPlatform = options.type === 'pip'
+    validateDownloadEnvironmentOptions(options);
+    const maxDepth = parseMaxDepth(options.maxDepth ?? '5');
+    const dockerPlatforms = parseDockerPlatforms(options.type, options.platforms);
+    const requestedDockerFormat = parseDockerOutputFormat(options.type, options.dockerFormat);
+    if (dockerPlatforms && requestedDockerFormat === 'docker-archive') {
+      throw new Error('--platforms 옵션은 oci-layout 형식에서만 사용할 수 있습니다.');
+    }
+    // 멀티 아키텍처 번들은 매니페스트 리스트를 보존해야 하므로 OCI 레이아웃으로 출력
+    const dockerOutputFormat = requestedDockerFormat ?? (dockerPlatforms ? 'oci-layout' : undefined);
+    const npmOutputFormat = parseNpmOutputFormat(options.type, options.npmFormat);
+    if (options.npmRegistryUrl !== undefined && npmOutputFormat !== 'registry') {
+      throw new Error('--npm-registry-url 옵션은 --npm-format registry와 함께 사용해야 합니다.');
+    }
+    const cargoOutputFormat = parseCargoOutputFormat(options.type, options.cargoFormat);
+    validateTargetFramework(options.type, options.targetFramework);
+    validateMavenPluginOptions(options.type, options.mavenPlugins, options.mavenPackaging);
+    const pythonTargets = parsePythonTargets(options);
+    // 멀티 타겟은 대상별로 해결한 다운로드 URL을 그대로 사용
+    const pipTargetPlatform = options.type === 'pip' && !pythonTargets
       ? getPipTargetPlatform(options)
       : undefined;
-    const prepared = await preparePackagesForDownload(packages, {
-      type: options.type,
-      arch: options.arch,
-      targetOS: options.targetOS,
-      pythonVersion: options.pythonVersion,
-      cudaVersion: options.cudaVersion,
-      condaChannel: options.condaChannel,
-      classifier: options.classifier,
-      deps: options.deps,
-      strict: options.strict,
-      maxDepth,
-    });
-    packages = prepared.packages;
-
-    if (prepared.warning) {
-      console.log(chalk.yellow(`⚠ ${prepared.warning}`));
-    }
 
-    if (prepared.dependencyResolutionApplied) {
-      console.log(chalk.green(`✓ 의존성 해결 완료: ${requestedCount}개 → ${packages.length}개 패키지`));
+    let packages: PackageInfo[];
+    if (resumedSession) {
+      packages = resumedSession.items.map((item) => item.package);
+      const completedCount = resumedSession.items.filter((item) => item.status === 'completed').length;
+      console.log(chalk.green(
+        `✓ 세션에서 ${packages.length}개 패키지를 불러왔습니다 (완료 후 검증된 ${completedCount}개 건너뜀)`
+      ));
+    } else if (pythonTargets) {
+      packages = await collectPythonTargetPackages(options, pythonTargets, maxDepth);
+    } else {
+      packages = await collectPackagesForDownload(options, maxDepth);
     }
 
     // 출력 경로 생성
@@ -326,12 +690,57 @@ export async function downloadCommand(options: DownloadCommandOptions): Promise<
 
     console.log(chalk.cyan(`\n출력 경로: ${outputPath}`));
     console.log(chalk.cyan(`출력 형식: ${options.format}`));
-    console.log(chalk.cyan(`동시 다운로드: ${options.concurrency}개\n`));
+    if (dockerOutputFormat) {
+      console.log(chalk.cyan(`Docker 이미지 형식: ${dockerOutputFormat}`));
+    }
+    if (dockerPlatforms) {
+      console.log(chalk.cyan(`Docker 플랫폼: ${dockerPlatforms.join(', ')}`));
+    }
+    if (npmOutputFormat) {
+      console.log(chalk.cyan(`npm 출력 형식: ${npmOutputFormat}`));
+    }
+    if (cargoOutputFormat) {
+      console.log(chalk.cyan(`Cargo 출력 형식: ${cargoOutputFormat}`));
+    }
+    if (pythonTargets) {
+      console.log(chalk.cyan(`대상 환경: ${pythonTargets.map(formatPythonDownloadTarget).join(', ')}`));
+    }
+    console.log(chalk.cyan(`동시 다운로드: ${options.concurrency}개`));
+    const transferLimitDescription = describeTransferLimits(transferLimits);
+    if (transferLimitDescription) {
+      console.log(chalk.cyan(`전송 제한: ${transferLimitDescription}`));
+    }
+
+    // 세션 저널 기록 (중단되면 --resume으로 이어받기)
+    const { limitRate: _limitRate, perHost: _perHost, ...journaledOptions } = options;
+    const session = resumedSession ?? await journal.createSession<PackageInfo, JournaledDownloadOptions>({
+      source: 'cli',
+      outputDir: outputPath,
+      options: { ...journaledOptions, output: outputPath },
+      items: packages.map((pkg, index) => ({ id: String(index), package: pkg })),
+    });
+    sessionId = session.id;
+    console.log(chalk.cyan(`세션 ID: ${session.id}\n`));
 
-    // 다운로드 매니저 설정
+    // 다운로드 매니저 설정 (검증된 완료 항목은 다시 받지 않음)
     const downloadManager = new DownloadManager();
     downloadManager.reset();
-    downloadManager.addToQueue(packages);
+    const sessionItemIds = new Map<PackageInfo, string>();
+    const pendingPackages: PackageInfo[] = [];
+    const completedItems: Array<{ package: PackageInfo; filePath?: string }> = [];
+    for (const item of session.items) {
+      sessionItemIds.set(item.package, item.id);
+      if (item.status === 'completed') {
+        completedItems.push({ package: item.package, filePath: item.filePath });
+      } else {
+        pendingPackages.push(item.package);
+      }
+    }
+    if (completedItems.length > 0) {
+      downloadManager.addCompletedItems(completedItems);
+    }
+    downloadManager.addToQueue(pendingPackages);
+    const journalWrites: Promise<void>[] = [];
 
     // 진행률 바 생성
     const multibar = new cliProgress.MultiBar(
@@ -348,22 +757,35 @@ export async function downloadCommand(options: DownloadCommandOptions): Promise<
       speed: 'N/A',
     });
 
-    // 진행률 업데이트 이벤트
+    // 진행률 업데이트 이벤트 (속도 제한이 있으면 상한을 함께 표시)
+    const speedLimitSuffix = transferLimits.bytesPerSecond > 0
+      ? ` / 제한 ${formatRate(transferLimits.bytesPerSecond)}`
+      : '';
     downloadManager.on('progress', (item, overall: OverallProgress) => {
       overallBar.update(Math.round(overall.overallProgress), {
         filename: '전체 진행률',
-        speed: formatSpeed(overall.currentSpeed),
+        speed: formatSpeed(overall.currentSpeed) + speedLimitSuffix,
       });
     });
 
     // 아이템 완료 이벤트
     downloadManager.on('itemComplete', (item) => {
       console.log(chalk.green(`\n✓ ${item.package.name}@${item.package.version} 완료`));
+      const itemId = sessionItemIds.get(item.package);
+      if (itemId !== undefined) {
+        // Docker 세션 번들은 여러 이미지가 한 파일을 공유하므로 재개 시 항상 다시 받음
+        const filePath = item.package.type === 'docker' ? undefined : item.filePath;
+        journalWrites.push(journal.markItemCompleted(session.id, itemId, filePath));
+      }
     });
 
     // 아이템 실패 이벤트
     downloadManager.on('itemFailed', (item, error) => {
       console.log(chalk.red(`\n✗ ${item.package.name}@${item.package.version} 실패: ${error.message}`));
+      const itemId = sessionItemIds.get(item.package);
+      if (itemId !== undefined) {
+        journalWrites.push(journal.markItemFailed(session.id, itemId, error.message));
+      }
     });
 
     // 다운로드 시작
@@ -372,9 +794,12 @@ export async function downloadCommand(options: DownloadCommandOptions): Promise<
       concurrency: parseInt(options.concurrency, 10),
       maxRetries: 3,
       pipTargetPlatform,
+      dockerOutputFormat,
+      dockerPlatforms,
     });
 
     multibar.stop();
+    await Promise.all(journalWrites);
 
     // 결과 출력
     console.log('\n');
@@ -384,11 +809,69 @@ export async function downloadCommand(options: DownloadCommandOptions): Promise<
       console.log(chalk.gray(`  총 크기: ${formatBytes(result.totalSize)}`));
       console.log(chalk.gray(`  소요 시간: ${formatDuration(result.duration)}`));
 
-      // 패키징 처리
-      const files = result.items
+      // 패키징 처리 (Docker 세션 번들은 여러 아이템이 같은 파일을 가리킴)
+      let files = [...new Set(result.items
         .flatMap((item) => (
           item.status === 'completed' && item.filePath ? [item.filePath] : []
+        )))];
+
+      // Maven: pom/sha1까지 아티팩트 디렉토리 전체를 묶어 .m2 레이아웃을 그대로 보존
+      // Go: .info/.mod/list까지 @v 디렉토리 전체를 묶어 GOPROXY 트리를 그대로 보존
+      // NuGet: .nupkg.sha512/.nuspec까지 버전 디렉토리 전체를 묶어 로컬 피드로 그대로 사용
+      if (options.type === 'maven' || options.type === 'go' || options.type === 'nuget') {
+        files = await collectArtifactDirectoryFiles(files);
+      }
+
+      // npm 레지스트리 미러: 낱개 tarball 대신 packument와 tarball로 구성된 정적 레지스트리를 묶음
+      let npmRegistryDir: string | undefined;
+      if (npmOutputFormat === 'registry') {
+        const npmItems = result.items.filter((item) => (
+          item.status === 'completed' && item.package.type === 'npm' && item.filePath
+        ));
+        const mirror = await buildNpmRegistryMirror(
+          outputPath,
+          npmItems.map((item) => ({
+            name: item.package.name,
+            version: item.package.version,
+            filePath: item.filePath as string,
+          })),
+          { registryUrl: options.npmRegistryUrl },
+        );
+        const npmFiles = new Set(npmItems.map((item) => item.filePath));
+        files = [...files.filter((file) => !npmFiles.has(file)), ...mirror.files];
+        npmRegistryDir = path.basename(mirror.registryDir);
+        console.log(chalk.green(
+          `✓ npm 레지스트리 미러 생성 완료: ${mirror.registryDir} (${mirror.packageCount}개 패키지, ${mirror.versionCount}개 버전)`
         ));
+      }
+
+      // Cargo: 낱개 .crate 대신 source replacement로 쓸 vendor 디렉토리 또는 local-registry를 묶음
+      let cargoVendorDir: string | undefined;
+      let cargoRegistryDir: string | undefined;
+      if (cargoOutputFormat) {
+        const cargoItems = result.items.filter((item) => (
+          item.status === 'completed' && item.package.type === 'cargo' && item.filePath
+        ));
+        const source = await buildCargoSource(
+          outputPath,
+          cargoItems.map((item) => ({
+            name: item.package.name,
+            version: item.package.version,
+            filePath: item.filePath as string,
+          })),
+          { format: cargoOutputFormat },
+        );
+        const crateFiles = new Set(cargoItems.map((item) => item.filePath));
+        files = [...files.filter((file) => !crateFiles.has(file)), ...source.files];
+        if (cargoOutputFormat === 'vendor') {
+          cargoVendorDir = path.basename(source.sourceDir);
+        } else {
+          cargoRegistryDir = path.basename(source.sourceDir);
+        }
+        console.log(chalk.green(
+          `✓ Cargo ${cargoOutputFormat === 'vendor' ? 'vendor 디렉토리' : 'local-registry'} 생성 완료: ${source.sourceDir} (${source.crateCount}개 crate)`
+        ));
+      }
 
       // 압축 파일 생성
       console.log(chalk.cyan('\n압축 파일 생성 중...'));
@@ -405,11 +888,40 @@ export async function downloadCommand(options: DownloadCommandOptions): Promise<
 
       console.log(chalk.green(`✓ 압축 파일 생성 완료: ${archivePath}`));
 
-      // 설치 스크립트 생성
-      console.log(chalk.cyan('\n설치 스크립트 생성 중...'));
-      const scriptGenerator = getScriptGenerator();
-      await scriptGenerator.generateAllScripts(packages, outputPath);
-      console.log(chalk.green('✓ 설치 스크립트 생성 완료'));
+      if (pythonTargets) {
+        // 멀티 타겟: 대상별 디렉토리에 잠금 파일과 설치 스크립트 생성
+        console.log(chalk.cyan('\n대상별 설치 스크립트 생성 중...'));
+        for (const targetDir of await writePythonTargetBundles(outputPath, pythonTargets, result.items)) {
+          console.log(chalk.green(`✓ ${targetDir}`));
+        }
+      } else {
+        // pip 해시 잠금 파일 생성
+        const pipLockPath = await writePipLockFiles(
+          outputPath,
+          result.items.flatMap((item) => (
+            item.status === 'completed' && item.package.type === 'pip' && item.filePath
+              ? [{ name: item.package.name, version: item.package.version, filePath: item.filePath }]
+              : []
+          ))
+        );
+        if (pipLockPath) {
+          console.log(chalk.green(`✓ pip 잠금 파일 생성 완료: ${pipLockPath}`));
+        }
+
+        // 설치 스크립트 생성
+        console.log(chalk.cyan('\n설치 스크립트 생성 중...'));
+        const scriptGenerator = getScriptGenerator();
+        await scriptGenerator.generateAllScripts(packages, outputPath, {
+          pipLockFile: pipLockPath ? path.basename(pipLockPath) : undefined,
+          npmRegistryDir,
+          cargoVendorDir,
+          cargoRegistryDir,
+          dockerOutputFormat,
+          dockerSessionBundle: result.dockerSessionBundle,
+        });
+        console.log(chalk.green('✓ 설치 스크립트 생성 완료'));
+      }
+      await journal.removeSession(session.id);
     } else {
       console.log(chalk.yellow('⚠ 다운로드 완료 (일부 실패)'));
 
@@ -420,19 +932,124 @@ export async function downloadCommand(options: DownloadCommandOptions): Promise<
           console.log(chalk.red(`  - ${item.package.name}@${item.package.version}: ${item.error}`));
         }
       }
+      await journal.setStatus(session.id, 'failed');
+      printResumeHint(session.id);
     }
   } catch (error) {
     console.log(chalk.red('✗ 다운로드 실패'));
     console.error(chalk.red(`오류: ${(error as Error).message}`));
+    if (sessionId) {
+      await journal.setStatus(sessionId, 'failed').catch(() => undefined);
+      printResumeHint(sessionId);
+    }
     process.exit(1);
   }
 }
 
+function printResumeHint(sessionId: string): void {
+  console.log(chalk.cyan(`\n이어받기: depssmuggler download --resume ${sessionId}`));
+}
+
+/**
+ * 대상별 잠금 파일과 설치 스크립트 생성 (targets/<대상>/, 압축을 푼 packages 디렉토리를 함께 사용)
+ *
+ * @returns 생성한 대상 디렉토리 목록
+ */
+async function writePythonTargetBundles(
+  outputPath: string,
+  targets: PythonDownloadTarget[],
+  items: DownloadManagerItem[]
+): Promise<string[]> {
+  const completedItems = items.filter((item) => item.status === 'completed');
+  const scriptGenerator = getScriptGenerator();
+  const targetDirs: string[] = [];
+
+  for (const target of targets) {
+    const targetPackages = selectPythonTargetPackages(completedItems.map((item) => item.package), target);
+    if (targetPackages.length === 0) {
+      continue;
+    }
+
+    const targetDir = path.join(outputPath, PYTHON_TARGETS_DIR, getPythonTargetSlug(target));
+    await fs.ensureDir(targetDir);
+    const pipLockPath = await writePipLockFiles(
+      targetDir,
+      completedItems.flatMap((item) => (
+        item.package.type === 'pip' && item.filePath && targetPackages.includes(item.package)
+          ? [{ name: item.package.name, version: item.package.version, filePath: item.filePath }]
+          : []
+      ))
+    );
+    await scriptGenerator.generateAllScripts(targetPackages, targetDir, {
+      packageDir: '../../packages',
+      pipLockFile: pipLockPath ? path.basename(pipLockPath) : undefined,
+    });
+    targetDirs.push(targetDir);
+  }
+
+  return targetDirs;
+}
+
+function getMavenPackageKey(pkg: PackageInfo): string {
+  return `${pkg.name}@${pkg.version}:${(pkg.metadata?.classifier as string | undefined) ?? ''}`;
+}
+
+/**
+ * 아티팩트 파일과 같은 디렉토리의 부속 파일 목록 (Maven pom/체크섬, Go .info/.mod/list, NuGet .sha512/.nuspec)
+ */
+async function collectArtifactDirectoryFiles(files: string[]): Promise<string[]> {
+  const collected = new Set<string>();
+  for (const dir of new Set(files.map((file) => path.dirname(file)))) {
+    for (const entry of await fs.readdir(dir)) {
+      collected.add(path.join(dir, entry));
+    }
+  }
+  return [...collected];
+}
+
 /**
  * 패키지 파일 파싱
  */
-async function parsePackageFile(filePath: string, type: PackageType): Promise<PackageInfo[]> {
+async function parsePackageFile(
+  filePath: string,
+  type: PackageType,
+  options: { maxDepth: number; mavenPlugins?: boolean; mavenPackaging?: string }
+): Promise<PackageInfo[]> {
   const content = await fs.readFile(filePath, 'utf-8');
+
+  // go.mod: 같은 디렉토리의 go.sum이 있으면 해시 검증에 사용
+  if (type === 'go' && isGoModFile(filePath)) {
+    const goSumPath = path.join(path.dirname(filePath), 'go.sum');
+    const goSumContent = (await fs.pathExists(goSumPath))
+      ? await fs.readFile(goSumPath, 'utf-8')
+      : undefined;
+    return resolveGoModFile(content, goSumContent);
+  }
+
+  // Cargo.lock / Cargo.toml: 잠긴 버전 또는 sparse 인덱스로 해결한 crate 목록
+  const cargoFormat = type === 'cargo' ? detectCargoProjectFileFormat(filePath) : null;
+  if (cargoFormat) {
+    return resolveCargoProjectFile(content, cargoFormat);
+  }
+
+  // package-lock.json / yarn.lock / pnpm-lock.yaml: resolved URL과 integrity를 그대로 사용
+  const lockfileFormat = type === 'npm' ? detectNpmLockfileFormat(filePath) : null;
+  if (lockfileFormat) {
+    return parseNpmLockfile(content, lockfileFormat).map((pkg) =>
+      toNpmLockedPackageInfo(pkg, lockfileFormat)
+    );
+  }
+
+  // pom.xml / gradle.lockfile: 프로젝트 의존성과 전이 의존성을 한 번에 해결
+  const projectFileFormat = type === 'maven' ? detectMavenProjectFileFormat(filePath) : null;
+  if (projectFileFormat) {
+    return resolveMavenProjectFile(content, projectFileFormat, {
+      maxDepth: options.maxDepth,
+      buildPlugins: options.mavenPlugins,
+      packaging: options.mavenPackaging,
+    });
+  }
+
   const packages: PackageInfo[] = [];
   const lines = content.split('\n');
 
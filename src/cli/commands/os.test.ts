@@ -5,18 +5,21 @@ import {
   cacheStatsCommand,
   downloadCommand,
 } from './os';
+import { getTransferLimiter } from '../../core/shared/transfer-limiter';
 
 const {
   downloadOSPackages,
   getOSPackageCacheStats,
   clearOSPackageCache,
   getConfig,
+  getTransferLimitSettings,
   createInterface,
 } = vi.hoisted(() => ({
   downloadOSPackages: vi.fn(),
   getOSPackageCacheStats: vi.fn(),
   clearOSPackageCache: vi.fn(),
   getConfig: vi.fn(),
+  getTransferLimitSettings: vi.fn(),
   createInterface: vi.fn(),
 }));
 
@@ -29,6 +32,7 @@ vi.mock('../../core/downloaders/os-shared/cli-backend', () => ({
 vi.mock('../../core/config', () => ({
   getConfigManager: vi.fn(() => ({
     getConfig,
+    getTransferLimitSettings,
   })),
 }));
 
@@ -48,6 +52,7 @@ describe('os CLI commands', () => {
       maxCacheSize: 1024,
       logLevel: 'info',
     });
+    getTransferLimitSettings.mockReturnValue({});
     downloadOSPackages.mockResolvedValue({
       requestedPackages: [],
       packages: [],
@@ -92,6 +97,60 @@ describe('os CLI commands', () => {
     );
   });
 
+  it('downloadCommand는 --module 값을 모듈 스트림 선택으로 넘기고 잘못된 형식은 거부한다', async () => {
+    const options = {
+      distro: 'rocky-9',
+      arch: 'x86_64',
+      output: './os-packages',
+      format: 'repository',
+      archiveFormat: 'zip',
+      deps: true,
+      concurrency: '3',
+    };
+
+    await downloadCommand([], { ...options, module: ['postgresql:15/server', 'nodejs:20'] });
+
+    expect(downloadOSPackages).toHaveBeenCalledWith(
+      expect.objectContaining({
+        packageNames: [],
+        moduleStreams: [
+          { name: 'postgresql', stream: '15', profile: 'server' },
+          { name: 'nodejs', stream: '20' },
+        ],
+      })
+    );
+
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(downloadCommand([], { ...options, module: ['nodejs'] })).rejects.toThrow('process.exit');
+    await expect(downloadCommand([], options)).rejects.toThrow('process.exit');
+    expect(downloadOSPackages).toHaveBeenCalledTimes(1);
+    exit.mockRestore();
+  });
+
+  it('downloadCommand는 설정 파일의 전송 제한을 CLI 옵션으로 덮어써 적용한다', async () => {
+    getTransferLimitSettings.mockReturnValue({ limitRate: '1M', perHostConcurrency: 4 });
+
+    await downloadCommand(['httpd'], {
+      distro: 'rocky-9',
+      arch: 'x86_64',
+      output: './os-packages',
+      format: 'archive',
+      archiveFormat: 'zip',
+      deps: true,
+      concurrency: '3',
+      limitRate: '5M',
+    });
+
+    expect(getTransferLimiter().getLimits()).toEqual({
+      bytesPerSecond: 5 * 1024 * 1024,
+      perHostConcurrency: 4,
+    });
+    getTransferLimiter().configure({ bytesPerSecond: 0, perHostConcurrency: 0 });
+  });
+
   it('cacheStatsCommand는 OS 캐시 통계를 backend에서 조회한다', async () => {
     await cacheStatsCommand();
 
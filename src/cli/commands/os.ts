@@ -5,6 +5,7 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 import {
@@ -18,14 +19,27 @@ import type {
   OSArchitecture,
   OutputType,
   ArchiveFormat,
+  ModuleSelection,
 } from '../../core/downloaders/os-shared/types';
 import {
   clearOSPackageCache,
   downloadOSPackages,
   getOSPackageCacheStats,
+  listOSModuleStreams,
   searchOSPackages,
 } from '../../core/downloaders/os-shared/cli-backend';
+import {
+  getPresetBaseline,
+  isInstalledBaselinePreset,
+  parseInstalledBaseline,
+  type InstalledBaseline,
+} from '../../core/downloaders/os-shared/installed-baseline';
+import { readSecretKey } from '../../core/downloaders/os-shared/openpgp';
+import { parseModuleSpec } from '../../core/downloaders/os-shared/yum-modules';
+import type { RepoSigningOptions } from '../../core/downloaders/os-shared/repo-packager';
 import { getConfigManager } from '../../core/config';
+import { describeTransferLimits } from '../../core/shared/transfer-limiter';
+import { applyCliTransferLimits, type CliTransferLimitOptions } from './transfer-limits';
 
 /**
  * OS 명령어 등록
@@ -51,13 +65,28 @@ export function registerOSCommands(program: Command): void {
     .requiredOption('-d, --distro <distro>', '배포판 ID (예: rocky-9, ubuntu-22.04, alpine-3.20)')
     .option('-a, --arch <arch>', '아키텍처', 'x86_64')
     .option('-l, --limit <num>', '검색 결과 수 제한', '20')
+    .option(
+      '--module <name:stream>',
+      '활성화할 모듈 스트림 (yum, 반복 지정, 예: --module nodejs:20)',
+      (value: string, previous: string[] = []) => [...previous, value]
+    )
     .action(async (query, options) => {
       await searchCommand(query, options);
     });
 
+  // 모듈 스트림 목록
+  osCmd
+    .command('modules [name]')
+    .description('모듈 스트림 목록 조회 (RHEL/Rocky 8 이상 AppStream)')
+    .requiredOption('-d, --distro <distro>', '배포판 ID (예: rocky-9)')
+    .option('-a, --arch <arch>', '아키텍처', 'x86_64')
+    .action(async (name, options) => {
+      await modulesCommand(name, options);
+    });
+
   // 패키지 다운로드
   osCmd
-    .command('download <packages...>')
+    .command('download [packages...]')
     .description('OS 패키지 다운로드')
     .requiredOption('-d, --distro <distro>', '배포판 ID')
     .option('-a, --arch <arch>', '아키텍처', 'x86_64')
@@ -67,6 +96,16 @@ export function registerOSCommands(program: Command): void {
     .option('--no-deps', '의존성 해결 안 함')
     .option('--scripts', '설치 스크립트 포함')
     .option('--concurrency <num>', '동시 다운로드 수', '3')
+    .option('--limit-rate <rate>', '전체 다운로드 속도 상한 (예: 500K, 5M, 1G)')
+    .option('--per-host <num>', '저장소 호스트별 동시 연결 수')
+    .option('--sign-repo', '로컬 저장소 메타데이터를 번들 전용 키로 서명')
+    .option('--signing-key <file>', '저장소 서명에 사용할 OpenPGP RSA 비밀키 파일 (--sign-repo 포함)')
+    .option('--baseline <file>', '대상 호스트 설치 목록 파일 또는 기본 기준선 (minimal, server)')
+    .option(
+      '--module <name:stream[/profile]>',
+      '활성화할 모듈 스트림 (yum, 반복 지정, 프로필을 주면 프로필 패키지도 다운로드, 예: --module postgresql:15/server)',
+      (value: string, previous: string[] = []) => [...previous, value]
+    )
     .action(async (packages, options) => {
       await downloadCommand(packages, options);
     });
@@ -141,7 +180,7 @@ async function listDistrosCommand(options: { type?: string }): Promise<void> {
  */
 export async function searchCommand(
   query: string,
-  options: { distro: string; arch: string; limit: string }
+  options: { distro: string; arch: string; limit: string; module?: string[] }
 ): Promise<void> {
   const distro = getDistributionById(options.distro);
   if (!distro) {
@@ -157,6 +196,8 @@ export async function searchCommand(
     process.exit(1);
   }
 
+  const moduleStreams = parseModuleOptions(options.module);
+
   console.log(chalk.cyan(`\n'${query}' 검색 중... (${distro.name}, ${arch})\n`));
 
   try {
@@ -169,6 +210,7 @@ export async function searchCommand(
       query,
       cacheDirectory,
       cacheEnabled: config.cacheEnabled,
+      moduleStreams,
     });
     const finalResults = groupedResults
       .flatMap((result) =>
@@ -177,9 +219,10 @@ export async function searchCommand(
           version: pkg.version,
           repoName: pkg.repository.name,
           summary: pkg.summary,
+          moduleStream: pkg.moduleStream,
         }))
       )
-      .reduce<Array<{ name: string; version: string; repoName: string; summary?: string }>>(
+      .reduce<Array<{ name: string; version: string; repoName: string; summary?: string; moduleStream?: string }>>(
         (uniqueResults, result) => {
           if (
             uniqueResults.some(
@@ -207,7 +250,8 @@ export async function searchCommand(
     for (const result of finalResults) {
       const versionStr = String(result.version || 'unknown');
       console.log(
-        `${chalk.bold(result.name.padEnd(30))} ${chalk.blue(versionStr.padEnd(20))} ${chalk.gray(result.repoName)}`
+        `${chalk.bold(result.name.padEnd(30))} ${chalk.blue(versionStr.padEnd(20))} ${chalk.gray(result.repoName)}` +
+          (result.moduleStream ? ` ${chalk.magenta(`[${result.moduleStream}]`)}` : '')
       );
       if (result.summary) {
         console.log(
@@ -226,6 +270,75 @@ export async function searchCommand(
   }
 }
 
+/**
+ * 모듈 스트림 목록 명령어
+ */
+export async function modulesCommand(
+  name: string | undefined,
+  options: { distro: string; arch: string }
+): Promise<void> {
+  const distro = getDistributionById(options.distro);
+  if (!distro) {
+    console.error(chalk.red(`\n오류: 알 수 없는 배포판 '${options.distro}'`));
+    process.exit(1);
+  }
+
+  console.log(chalk.cyan(`\n모듈 스트림 조회 중... (${distro.name}, ${options.arch})\n`));
+
+  try {
+    const config = getConfigManager().getConfig();
+    const streams = (await listOSModuleStreams({
+      distribution: distro,
+      architecture: options.arch as OSArchitecture,
+      cacheDirectory: path.join(config.cachePath, 'os-packages'),
+      cacheEnabled: config.cacheEnabled,
+    })).filter((stream) => !name || stream.name === name);
+
+    if (streams.length === 0) {
+      console.log(chalk.yellow('모듈 스트림이 없습니다.'));
+      return;
+    }
+
+    console.log(chalk.gray('─'.repeat(80)));
+    for (const stream of streams) {
+      const profiles = stream.profiles
+        .map((profile) => (stream.defaultProfiles.includes(profile) ? `${profile} [d]` : profile))
+        .join(', ');
+      console.log(
+        `${chalk.bold(stream.name.padEnd(24))} ${chalk.blue((stream.stream + (stream.isDefault ? ' [d]' : '')).padEnd(16))} ${profiles}`
+      );
+      if (stream.summary) {
+        console.log(chalk.gray(`  ${stream.summary}`));
+      }
+    }
+    console.log(chalk.gray('─'.repeat(80)));
+    console.log(chalk.gray('[d] 기본값'));
+    console.log(chalk.cyan(`\n다운로드: depssmuggler os download -d ${options.distro} --module <이름:스트림[/프로필]>\n`));
+  } catch (error) {
+    console.error(chalk.red(`\n조회 오류: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * --module 값 파싱
+ */
+function parseModuleOptions(values: string[] | undefined): ModuleSelection[] | undefined {
+  if (!values || values.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return values.map((value) => parseModuleSpec(value));
+  } catch (error) {
+    console.error(chalk.red(`\n오류: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+/** 서명 키 암호를 읽는 환경 변수 */
+const SIGNING_KEY_PASSPHRASE_ENV = 'DEPSSMUGGLER_SIGNING_KEY_PASSPHRASE';
+
 /**
  * 패키지 다운로드 명령어
  */
@@ -240,7 +353,11 @@ export async function downloadCommand(
     deps: boolean;
     scripts?: boolean;
     concurrency: string;
-  }
+    signRepo?: boolean;
+    signingKey?: string;
+    baseline?: string;
+    module?: string[];
+  } & CliTransferLimitOptions
 ): Promise<void> {
   const distro = getDistributionById(options.distro);
   if (!distro) {
@@ -248,6 +365,12 @@ export async function downloadCommand(
     process.exit(1);
   }
 
+  const moduleStreams = parseModuleOptions(options.module);
+  if (packageNames.length === 0 && !moduleStreams) {
+    console.error(chalk.red('\n오류: 다운로드할 패키지 또는 --module을 지정하세요.'));
+    process.exit(1);
+  }
+
   const arch = options.arch as OSArchitecture;
   if (!distro.architectures.includes(arch)) {
     console.error(chalk.red(`\n오류: 배포판 '${distro.name}'은 아키텍처 '${arch}'를 지원하지 않습니다.`));
@@ -267,17 +390,73 @@ export async function downloadCommand(
     process.exit(1);
   }
 
+  let signing: RepoSigningOptions | undefined;
+  if (options.signRepo || options.signingKey) {
+    if (outputType === 'archive') {
+      console.error(chalk.red('\n오류: 저장소 서명은 repository 또는 both 출력 형식에서만 사용할 수 있습니다.'));
+      process.exit(1);
+    }
+
+    signing = {};
+    if (options.signingKey) {
+      // 다운로드 전에 키 파일과 암호를 확인한다
+      try {
+        signing.secretKey = fs.readFileSync(options.signingKey);
+        signing.passphrase = process.env[SIGNING_KEY_PASSPHRASE_ENV];
+        readSecretKey(signing.secretKey, signing.passphrase);
+      } catch (error) {
+        console.error(chalk.red(`\n오류: 서명 키를 사용할 수 없습니다: ${(error as Error).message}`));
+        process.exit(1);
+      }
+    }
+  }
+
+  let installedBaseline: InstalledBaseline | undefined;
+  if (options.baseline) {
+    if (!options.deps) {
+      console.error(chalk.red('\n오류: 설치 기준선은 의존성 해결(--no-deps 없이)과 함께 사용해야 합니다.'));
+      process.exit(1);
+    }
+
+    try {
+      // 같은 이름의 파일이 없으면 기본 제공 기준선 이름으로 본다
+      installedBaseline = isInstalledBaselinePreset(options.baseline) && !fs.existsSync(options.baseline)
+        ? getPresetBaseline(options.baseline, distro.packageManager)
+        : parseInstalledBaseline(
+          fs.readFileSync(options.baseline, 'utf8'),
+          distro.packageManager,
+          path.basename(options.baseline)
+        );
+    } catch (error) {
+      console.error(chalk.red(`\n오류: 설치 기준선을 읽을 수 없습니다: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  }
+
+  let transferLimitDescription: string | null;
+  try {
+    transferLimitDescription = describeTransferLimits(applyCliTransferLimits(options));
+  } catch (error) {
+    console.error(chalk.red(`\n오류: ${(error as Error).message}`));
+    process.exit(1);
+  }
+
   const config = getConfigManager().getConfig();
   const cacheDirectory = path.join(config.cachePath, 'os-packages');
   const concurrency = parseInt(options.concurrency, 10);
 
-  console.log(chalk.cyan(`\nOS 패키지 다운로드를 시작합니다... (${distro.name}, ${arch})\n`));
+  console.log(chalk.cyan(`\nOS 패키지 다운로드를 시작합니다... (${distro.name}, ${arch})`));
+  if (transferLimitDescription) {
+    console.log(chalk.cyan(`전송 제한: ${transferLimitDescription}`));
+  }
+  console.log('');
 
   try {
     const result = await downloadOSPackages({
       distribution: distro,
       architecture: arch,
       packageNames,
+      moduleStreams,
       outputPath: options.output,
       outputType,
       archiveFormat,
@@ -288,14 +467,28 @@ export async function downloadCommand(
         : config.concurrentDownloads,
       cacheDirectory,
       cacheEnabled: config.cacheEnabled,
+      signing,
+      installedBaseline,
     });
 
     console.log(chalk.green('다운로드가 완료되었습니다.\n'));
     console.log(`요청 패키지: ${result.requestedPackages.length}개`);
     console.log(`실제 다운로드: ${result.packages.length}개`);
+    const moduleStreamNames = [
+      ...new Set(result.packages.flatMap((pkg) => (pkg.moduleStream ? [pkg.moduleStream] : []))),
+    ];
+    if (moduleStreamNames.length > 0) {
+      console.log(`모듈 스트림: ${moduleStreamNames.join(', ')}`);
+    }
+    if (installedBaseline) {
+      console.log(`설치 기준선(${installedBaseline.source})으로 제외: ${result.satisfiedByBaseline.length}개`);
+    }
 
     for (const artifact of result.artifacts) {
       console.log(`${artifact.type === 'archive' ? '아카이브' : '로컬 저장소'}: ${artifact.path}`);
+      if (artifact.signingKey) {
+        console.log(`저장소 서명 키: ${artifact.signingKey.fingerprint} (${artifact.signingKey.publicKeyPath})`);
+      }
     }
 
     if (result.unresolved.length > 0) {
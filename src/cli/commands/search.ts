@@ -5,6 +5,9 @@ import { getPipDownloader } from '../../core/downloaders/pip';
 import { getCondaDownloader } from '../../core/downloaders/conda';
 import { getMavenDownloader } from '../../core/downloaders/maven';
 import { getNpmDownloader } from '../../core/downloaders/npm';
+import { getGoDownloader } from '../../core/downloaders/go';
+import { getCargoDownloader } from '../../core/downloaders/cargo';
+import { getNuGetDownloader } from '../../core/downloaders/nuget';
 import { getDockerDownloader } from '../../core/downloaders/docker';
 
 // 검색 옵션
@@ -70,6 +73,39 @@ export async function searchCommand(query: string, options: SearchOptions): Prom
         break;
       }
 
+      case 'go': {
+        // GOPROXY에는 검색 API가 없어 정확한 모듈 경로로만 조회
+        const goDownloader = getGoDownloader();
+        const goResults = await goDownloader.searchPackages(query);
+        results = goResults.map((pkg) => ({
+          name: pkg.name,
+          version: pkg.version,
+        }));
+        break;
+      }
+
+      case 'cargo': {
+        const cargoDownloader = getCargoDownloader();
+        const cargoResults = await cargoDownloader.searchPackages(query);
+        results = cargoResults.map((pkg) => ({
+          name: pkg.name,
+          version: pkg.version,
+          description: pkg.metadata?.description as string,
+        }));
+        break;
+      }
+
+      case 'nuget': {
+        const nugetDownloader = getNuGetDownloader();
+        const nugetResults = await nugetDownloader.searchPackages(query);
+        results = nugetResults.map((pkg) => ({
+          name: pkg.name,
+          version: pkg.version,
+          description: pkg.metadata?.description as string,
+        }));
+        break;
+      }
+
       case 'yum':
       case 'apt':
       case 'apk':
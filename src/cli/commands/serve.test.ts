@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createNpmRegistryServer } from './serve';
+import type * as http from 'http';
+import type { AddressInfo } from 'net';
+
+describe('serve CLI command', () => {
+  let registryDir: string;
+  let server: http.Server | undefined;
+
+  beforeEach(() => {
+    registryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-serve-'));
+    fs.writeFileSync(
+      path.join(registryDir, '.depssmuggler-registry.json'),
+      JSON.stringify({ registryUrl: 'http://localhost:4873' })
+    );
+    fs.mkdirSync(path.join(registryDir, '@scope', 'pkg', '-'), { recursive: true });
+    fs.writeFileSync(
+      path.join(registryDir, '@scope', 'pkg', 'index.json'),
+      JSON.stringify({
+        name: '@scope/pkg',
+        versions: {
+          '1.0.0': { dist: { tarball: 'http://localhost:4873/@scope/pkg/-/pkg-1.0.0.tgz' } },
+        },
+      })
+    );
+    fs.writeFileSync(path.join(registryDir, '@scope', 'pkg', '-', 'pkg-1.0.0.tgz'), 'tarball');
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = undefined;
+    fs.rmSync(registryDir, { recursive: true, force: true });
+  });
+
+  const listen = async (): Promise<string> => {
+    server = await createNpmRegistryServer(registryDir);
+    await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  it('인코딩된 스코프 패키지 packument를 요청 호스트 기준 tarball URL로 응답한다', async () => {
+    const baseUrl = await listen();
+
+    const response = await fetch(`${baseUrl}/@scope%2fpkg`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      name: '@scope/pkg',
+      versions: {
+        '1.0.0': { dist: { tarball: `${baseUrl}/@scope/pkg/-/pkg-1.0.0.tgz` } },
+      },
+    });
+  });
+
+  it('tarball을 제공하고 없는 패키지와 상위 경로 요청은 404로 응답한다', async () => {
+    const baseUrl = await listen();
+
+    const tarball = await fetch(`${baseUrl}/@scope/pkg/-/pkg-1.0.0.tgz`);
+    expect(tarball.status).toBe(200);
+    expect(await tarball.text()).toBe('tarball');
+
+    expect((await fetch(`${baseUrl}/missing`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/%2e%2e%2fsecret.tgz`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * serve 명령어
+ * `download -t npm --npm-format registry`로 만든 오프라인 레지스트리 미러를 HTTP로 제공
+ */
+
+import * as http from 'http';
+import * as path from 'path';
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import { NPM_CONSTANTS } from '../../core/constants/npm';
+import {
+  getNpmMirrorPackumentPath,
+  readNpmRegistryMirrorUrl,
+  rewriteNpmMirrorTarballUrls,
+} from '../../core/shared';
+
+interface ServeCommandOptions {
+  port: string;
+  host: string;
+}
+
+/**
+ * 미러 디렉토리를 npm 레지스트리로 제공하는 HTTP 서버 생성
+ *
+ * - `GET /<name>`, `GET /@scope%2fname`: packument (tarball URL을 요청 호스트 기준으로 바꿔 응답)
+ * - `GET /<name>/-/<file>.tgz`: tarball
+ */
+export async function createNpmRegistryServer(registryDir: string): Promise<http.Server> {
+  const rootDir = path.resolve(registryDir);
+  const mirrorUrl = await readNpmRegistryMirrorUrl(rootDir);
+
+  return http.createServer((req, res) => {
+    handleRegistryRequest(rootDir, mirrorUrl, req, res).catch((error: Error) => {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error.message }));
+    });
+  });
+}
+
+async function handleRegistryRequest(
+  rootDir: string,
+  mirrorUrl: string,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const notFound = () => {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'not_found' }));
+  };
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'method_not_allowed' }));
+    return;
+  }
+
+  // 스코프 패키지는 @scope%2fname으로 요청되므로 디코딩 후 경로로 사용
+  const requestPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname)
+    .replace(/^\/+/, '');
+  if (!requestPath || requestPath.split('/').some((segment) => segment === '..')) {
+    notFound();
+    return;
+  }
+
+  if (requestPath.endsWith('.tgz')) {
+    const tarballPath = path.join(rootDir, requestPath);
+    if (!tarballPath.startsWith(rootDir + path.sep) || !(await fs.pathExists(tarballPath))) {
+      notFound();
+      return;
+    }
+    const { size } = await fs.stat(tarballPath);
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': size });
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    fs.createReadStream(tarballPath).pipe(res);
+    return;
+  }
+
+  const packumentPath = getNpmMirrorPackumentPath(rootDir, requestPath);
+  if (!packumentPath.startsWith(rootDir + path.sep) || !(await fs.pathExists(packumentPath))) {
+    notFound();
+    return;
+  }
+
+  const packument = rewriteNpmMirrorTarballUrls(
+    await fs.readFile(packumentPath, 'utf-8'),
+    mirrorUrl,
+    `http://${req.headers.host ?? 'localhost'}`
+  );
+  res.writeHead(200, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(packument),
+  });
+  res.end(req.method === 'HEAD' ? undefined : packument);
+}
+
+/**
+ * serve 명령어 핸들러
+ */
+export async function serveCommand(
+  registryDir: string | undefined,
+  options: ServeCommandOptions
+): Promise<void> {
+  const rootDir = path.resolve(registryDir ?? NPM_CONSTANTS.MIRROR_DIR_NAME);
+  const port = Number(options.port);
+
+  try {
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`잘못된 포트입니다: ${options.port}`);
+    }
+    if (!(await fs.pathExists(rootDir))) {
+      throw new Error(`레지스트리 디렉토리를 찾을 수 없습니다: ${rootDir}`);
+    }
+
+    const server = await createNpmRegistryServer(rootDir);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, options.host, resolve);
+    });
+
+    const registryUrl = `http://${options.host}:${port}`;
+    console.log(chalk.green(`✓ npm 레지스트리 미러 실행 중: ${registryUrl}`));
+    console.log(chalk.gray(`  디렉토리: ${rootDir}`));
+    console.log(chalk.cyan(`\n  npm ci --registry ${registryUrl}\n`));
+    console.log(chalk.gray('  종료하려면 Ctrl+C를 누르세요'));
+  } catch (error) {
+    console.error(chalk.red(`✗ 레지스트리 실행 실패: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
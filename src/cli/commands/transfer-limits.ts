@@ -0,0 +1,27 @@
+import { getConfigManager } from '../../core/config';
+import {
+  getTransferLimiter,
+  resolveTransferLimits,
+  type TransferLimits,
+} from '../../core/shared/transfer-limiter';
+
+/**
+ * 전송 제한 CLI 옵션 (--limit-rate, --per-host)
+ */
+export interface CliTransferLimitOptions {
+  limitRate?: string;
+  perHost?: string;
+}
+
+/**
+ * 설정 파일의 전송 제한에 CLI 옵션을 덮어써 이번 실행의 모든 다운로드에 적용
+ */
+export function applyCliTransferLimits(options: CliTransferLimitOptions): TransferLimits {
+  const saved = getConfigManager().getTransferLimitSettings();
+  const limits = resolveTransferLimits({
+    limitRate: options.limitRate ?? saved.limitRate,
+    perHostConcurrency: options.perHost ?? saved.perHostConcurrency,
+  });
+  getTransferLimiter().configure(limits);
+  return limits;
+}
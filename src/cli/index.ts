@@ -2,7 +2,12 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
+import { registerDockerCommands } from './commands/docker';
 import { registerOSCommands } from './commands/os';
+import { getConfigManager } from '../core/config';
+import { applyNetworkSettings, resolveNetworkSettings } from '../core/shared/network-proxy';
+import { applyRegistryCredentials, resolveRegistryCredentials } from '../core/shared/registry-credentials';
+import { applyRegistryMirrors, resolveRegistryMirrors } from '../core/shared/registry-mirrors';
 import { logger } from '../utils/logger';
 
 // 버전 정보
@@ -17,6 +22,25 @@ async function initializeLogger(): Promise<void> {
   }
 }
 
+// 프록시/사용자 CA 설정 적용 (설정 파일 우선, 없으면 HTTP_PROXY/HTTPS_PROXY/NO_PROXY)과 저장소 미러/인증 적용
+function initializeNetwork(): void {
+  try {
+    applyNetworkSettings(resolveNetworkSettings(getConfigManager().getNetworkSettings()));
+  } catch (error) {
+    console.error(chalk.yellow(`네트워크 설정 적용 실패: ${(error as Error).message}`));
+  }
+  try {
+    applyRegistryMirrors(resolveRegistryMirrors(getConfigManager().getRegistryMirrorSettings()));
+  } catch (error) {
+    console.error(chalk.yellow(`저장소 미러 적용 실패: ${(error as Error).message}`));
+  }
+  try {
+    applyRegistryCredentials(resolveRegistryCredentials(getConfigManager().getRegistryCredentialSettings()));
+  } catch (error) {
+    console.error(chalk.yellow(`저장소 인증 정보 적용 실패: ${(error as Error).message}`));
+  }
+}
+
 // 메인 프로그램
 const program = new Command();
 
@@ -30,22 +54,38 @@ program
 program
   .command('download')
   .description('패키지 다운로드')
-  .option('-t, --type <type>', '패키지 타입 (pip, conda, maven, npm, docker)', 'pip')
+  .option('-t, --type <type>', '패키지 타입 (pip, conda, maven, npm, go, cargo, nuget, docker)', 'pip')
   .option('-p, --package <name>', '패키지명')
   .option('-V, --pkg-version <version>', '패키지 버전', 'latest')
   .option('-a, --arch <arch>', '아키텍처 (x86_64, arm64 등)', 'x86_64')
-  .option('--target-os <os>', '대상 OS (any, linux, windows, macos)', 'any')
+  .option('--target-os <os>', '대상 OS (any, linux, linux-musl, windows, macos)', 'any')
   .option('--python-version <version>', 'Python 버전 (예: 3.12)')
+  .option(
+    '--target <os/arch/python>',
+    'pip/conda 멀티 타겟 (반복 지정, 예: --target linux/x86_64/3.9 --target windows/x86_64/3.12)',
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
   .option('--cuda-version <version>', 'CUDA 버전 (예: 12.4)')
   .option('--conda-channel <channel>', 'Conda 채널', 'conda-forge')
   .option('--classifier <classifier>', 'Maven classifier')
+  .option('--docker-format <format>', 'Docker 이미지 출력 형식 (docker-archive, oci-layout)')
+  .option('--platforms <list>', 'Docker 멀티 아키텍처 번들 플랫폼 (예: amd64,arm64)')
+  .option('--npm-format <format>', 'npm 출력 형식 (tarball, registry)')
+  .option('--npm-registry-url <url>', 'npm 레지스트리 미러 주소 (registry 형식의 tarball URL 기준)')
+  .option('--cargo-format <format>', 'Cargo 출력 형식 (vendor, registry)')
+  .option('--target-framework <tfm>', 'NuGet 대상 프레임워크 (예: net8.0, netstandard2.0)')
+  .option('--maven-plugins', 'Maven 빌드 플러그인 포함 (오프라인 mvn package용)')
+  .option('--maven-packaging <type>', '--maven-plugins 기본 플러그인 packaging (jar, war, pom 등)')
   .option('-o, --output <path>', '출력 경로', './output')
   .option('-f, --format <format>', '출력 형식 (zip, tar.gz)', 'zip')
-  .option('--file <file>', '줄 단위 패키지 목록 파일 (requirements.txt, Maven 좌표 목록 등)')
+  .option('--file <file>', '줄 단위 패키지 목록 파일 (requirements.txt, Maven 좌표 목록 등), npm 잠금 파일, go.mod, Cargo.lock 또는 Cargo.toml')
   .option('--no-deps', '의존성 포함하지 않음')
   .option('--strict', '의존성 해결 실패 시 다운로드하지 않음')
   .option('--max-depth <num>', '최대 의존성 탐색 깊이', '5')
   .option('--concurrency <num>', '동시 다운로드 수', '3')
+  .option('--resume <session-id>', '중단된 다운로드 세션 이어받기 (완료·검증된 패키지는 건너뜀)')
+  .option('--limit-rate <rate>', '전체 다운로드 속도 상한 (예: 500K, 5M, 1G)')
+  .option('--per-host <num>', '호스트별 동시 연결 수')
   .action(async (options) => {
     const { downloadCommand } = await import('./commands/download');
     await downloadCommand(options);
@@ -89,6 +129,95 @@ program
         const { configReset } = await import('./commands/config');
         await configReset();
       })
+  )
+  .addCommand(
+    new Command('mirror')
+      .description('저장소 미러(Nexus, Artifactory 등) 관리')
+      .addCommand(
+        new Command('list')
+          .description('저장소 미러 목록')
+          .action(async () => {
+            const { configMirrorList } = await import('./commands/config');
+            await configMirrorList();
+          })
+      )
+      .addCommand(
+        new Command('add')
+          .description('저장소 미러 추가')
+          .argument('<ecosystem>', '생태계 (pip, conda, maven, npm, go, cargo, nuget, docker)')
+          .argument('<url>', '미러 URL')
+          .option('--priority <num>', '우선순위 (낮을수록 먼저 시도)', '0')
+          .option('--username <user>', '기본 인증 사용자')
+          .option('--password <password>', '기본 인증 비밀번호')
+          .option('--token <token>', 'Bearer 토큰')
+          .action(async (ecosystem, url, options) => {
+            const { configMirrorAdd } = await import('./commands/config');
+            await configMirrorAdd(ecosystem, url, options);
+          })
+      )
+      .addCommand(
+        new Command('remove')
+          .description('저장소 미러 삭제')
+          .argument('<ecosystem>', '생태계')
+          .argument('[url]', '미러 URL (생략 시 해당 생태계 전체)')
+          .action(async (ecosystem, url) => {
+            const { configMirrorRemove } = await import('./commands/config');
+            await configMirrorRemove(ecosystem, url);
+          })
+      )
+      .addCommand(
+        new Command('test')
+          .description('저장소 미러 연결 테스트')
+          .argument('[ecosystem]', '생태계 (생략 시 전체)')
+          .action(async (ecosystem) => {
+            const { configMirrorTest } = await import('./commands/config');
+            await configMirrorTest(ecosystem);
+          })
+      )
+  )
+  .addCommand(
+    new Command('credential')
+      .description('사설 저장소 인증 정보(pip, npm, Maven) 관리')
+      .addCommand(
+        new Command('list')
+          .description('저장소 인증 정보 목록')
+          .action(async () => {
+            const { configCredentialList } = await import('./commands/config');
+            await configCredentialList();
+          })
+      )
+      .addCommand(
+        new Command('add')
+          .description('저장소 인증 정보 추가')
+          .argument('<ecosystem>', '생태계 (pip, npm, maven)')
+          .argument('<url>', '저장소 URL')
+          .option('--scope <scope>', 'npm 스코프 (예: @corp, 이 스코프 패키지를 URL 레지스트리에서 조회)')
+          .option('--username <user>', '기본 인증 사용자')
+          .option('--password <password>', '기본 인증 비밀번호')
+          .option('--token <token>', 'Bearer 토큰')
+          .action(async (ecosystem, url, options) => {
+            const { configCredentialAdd } = await import('./commands/config');
+            await configCredentialAdd(ecosystem, url, options);
+          })
+      )
+      .addCommand(
+        new Command('remove')
+          .description('저장소 인증 정보 삭제')
+          .argument('<ecosystem>', '생태계')
+          .argument('[url]', '저장소 URL (생략 시 해당 생태계 전체)')
+          .action(async (ecosystem, url) => {
+            const { configCredentialRemove } = await import('./commands/config');
+            await configCredentialRemove(ecosystem, url);
+          })
+      )
+      .addCommand(
+        new Command('import')
+          .description('.npmrc, pip.conf, ~/.m2/settings.xml에서 가져오기')
+          .action(async () => {
+            const { configCredentialImport } = await import('./commands/config');
+            await configCredentialImport();
+          })
+      )
   );
 
 // cache 명령어
@@ -133,6 +262,17 @@ program
     await searchCommand(query, options);
   });
 
+// serve 명령어
+program
+  .command('serve [dir]')
+  .description('npm 오프라인 레지스트리 미러 실행 (download --npm-format registry 결과)')
+  .option('--port <port>', '포트', '4873')
+  .option('--host <host>', '바인드 주소', '127.0.0.1')
+  .action(async (dir, options) => {
+    const { serveCommand } = await import('./commands/serve');
+    await serveCommand(dir, options);
+  });
+
 // 에러 핸들링
 program.exitOverride((err) => {
   // help, version, helpDisplayed 등은 정상 종료로 처리
@@ -151,8 +291,13 @@ program.exitOverride((err) => {
 // OS 패키지 명령어 등록
 registerOSCommands(program);
 
-// 로거 초기화 후 파싱 및 실행
+// Docker 번들 명령어 등록
+registerDockerCommands(program);
+
+// 로거·네트워크 초기화 후 파싱 및 실행
 initializeLogger().then(() => {
+  initializeNetwork();
+
   // 명령어가 없으면 도움말 표시
   if (process.argv.length <= 2) {
     console.log(chalk.cyan('\n  DepsSmuggler - 폐쇄망을 위한 패키지 의존성 다운로더\n'));
@@ -161,17 +306,25 @@ initializeLogger().then(() => {
     console.log('    download    패키지 다운로드');
     console.log('    search      패키지 검색');
     console.log('    os          OS 패키지 다운로드 (yum, apt, apk)');
+    console.log('    docker      Docker 이미지 번들을 내부 레지스트리로 업로드');
+    console.log('    serve       npm 오프라인 레지스트리 미러 실행');
     console.log('    config      설정 관리');
     console.log('    cache       캐시 관리');
     console.log('\n  예시:');
     console.log(chalk.gray('    depssmuggler download -t pip -p requests -V 2.28.0'));
     console.log(chalk.gray('    depssmuggler download -t maven -p org.springframework:spring-core -V 5.3.0'));
     console.log(chalk.gray('    depssmuggler download -t npm -p react -V 19.2.0'));
+    console.log(chalk.gray('    depssmuggler download -t go --file ./go.mod'));
+    console.log(chalk.gray('    depssmuggler download -t cargo --file ./Cargo.lock'));
+    console.log(chalk.gray('    depssmuggler download -t nuget -p Newtonsoft.Json -V 13.0.3 --target-framework netstandard2.0'));
     console.log(chalk.gray('    depssmuggler download -t docker -p nginx -V latest'));
+    console.log(chalk.gray('    depssmuggler download --resume <session-id>'));
     console.log(chalk.gray('    depssmuggler search requests -t pip'));
     console.log(chalk.gray('    depssmuggler os list-distros'));
     console.log(chalk.gray('    depssmuggler os search nginx --distro rocky-9'));
     console.log(chalk.gray('    depssmuggler os download httpd --distro rocky-9'));
+    console.log(chalk.gray('    depssmuggler docker push nginx-1.27.oci.tar --registry registry.local:5000'));
+    console.log(chalk.gray('    depssmuggler serve ./npm-registry --port 4873'));
     console.log('\n  자세한 내용: depssmuggler --help\n');
   }
 
@@ -123,6 +123,30 @@ describe('ConfigManager', () => {
       expect(loadedConfig.cachingEnabled).toBe(false);
       expect(loadedConfig.smtpPassword).toBeUndefined();
     });
+
+    it('프록시 비밀번호도 암호화해 저장하고 encryptSecrets/decryptSecrets로 변환', async () => {
+      const testConfig: Config = {
+        concurrentDownloads: 5,
+        cachingEnabled: true,
+        fileSplitSizeMB: 25,
+        defaultOutputFormat: 'archive',
+        defaultArchiveType: 'zip',
+        httpsProxy: 'http://proxy.corp.local:3128',
+        proxyUsername: 'corp-user',
+        proxyPassword: 'proxy-secret',
+      };
+
+      await configManager.saveConfig(testConfig);
+      const savedConfig = await fs.readJson(path.join(configManager.getConfigDir(), 'settings.json'));
+
+      expect(savedConfig.proxyPassword).toMatch(/^[0-9a-f]+:[0-9a-f]+$/i);
+      expect(savedConfig.proxyUsername).toBe('corp-user');
+      expect((await configManager.loadConfig()).proxyPassword).toBe('proxy-secret');
+
+      const encrypted = configManager.encryptSecrets({ smtpPassword: 'a', proxyPassword: 'b', noProxy: 'localhost' });
+      expect(encrypted.noProxy).toBe('localhost');
+      expect(configManager.decryptSecrets(encrypted)).toEqual({ smtpPassword: 'a', proxyPassword: 'b', noProxy: 'localhost' });
+    });
   });
 
   describe('기본 설정', () => {
@@ -193,6 +217,55 @@ describe('ConfigManager', () => {
       expect(config.concurrentDownloads).toBe(testValue);
     });
 
+    it('set은 프록시 비밀번호를 암호화하고 getNetworkSettings는 복호화해 반환', async () => {
+      configManager.reset();
+      configManager.set('httpProxy', 'http://proxy.corp.local:3128');
+      configManager.set('proxyPassword', 'proxy-secret');
+
+      const savedConfig = await fs.readJson(path.join(configManager.getConfigDir(), 'settings.json'));
+      expect(savedConfig.proxyPassword).not.toBe('proxy-secret');
+      expect(configManager.getNetworkSettings()).toMatchObject({
+        httpProxy: 'http://proxy.corp.local:3128',
+        proxyPassword: 'proxy-secret',
+      });
+
+      configManager.reset();
+    });
+
+    it('저장소 미러 비밀번호/토큰을 암호화해 저장하고 getRegistryMirrorSettings는 복호화해 반환', async () => {
+      configManager.reset();
+      const mirrors = {
+        pip: [{ url: 'https://nexus.corp/repository/pypi', username: 'ci', password: 'pip-secret' }],
+        npm: [{ url: 'https://artifactory.corp/api/npm/npm', priority: 1, token: 'npm-token' }],
+      };
+      configManager.setRegistryMirrorSettings(mirrors);
+
+      const savedConfig = await fs.readJson(path.join(configManager.getConfigDir(), 'settings.json'));
+      expect(savedConfig.registryMirrors.pip[0].password).toMatch(/^[0-9a-f]+:[0-9a-f]+$/i);
+      expect(savedConfig.registryMirrors.npm[0].token).not.toBe('npm-token');
+      expect(savedConfig.registryMirrors.pip[0].username).toBe('ci');
+      expect(configManager.getRegistryMirrorSettings()).toEqual(mirrors);
+
+      configManager.reset();
+    });
+
+    it('저장소 인증 비밀번호/토큰을 암호화해 저장하고 getRegistryCredentialSettings는 복호화해 반환', async () => {
+      configManager.reset();
+      const credentials = [
+        { ecosystem: 'pip' as const, url: 'https://pypi.corp/simple', username: 'ci', password: 'pip-secret' },
+        { ecosystem: 'npm' as const, url: 'https://npm.corp', scope: '@corp', token: 'npm-token' },
+      ];
+      configManager.setRegistryCredentialSettings(credentials);
+
+      const savedConfig = await fs.readJson(path.join(configManager.getConfigDir(), 'settings.json'));
+      expect(savedConfig.registryCredentials[0].password).toMatch(/^[0-9a-f]+:[0-9a-f]+$/i);
+      expect(savedConfig.registryCredentials[1].token).not.toBe('npm-token');
+      expect(savedConfig.registryCredentials[1].scope).toBe('@corp');
+      expect(configManager.getRegistryCredentialSettings()).toEqual(credentials);
+
+      configManager.reset();
+    });
+
     it('reset은 설정을 기본값으로 초기화', () => {
       // 설정 변경
       configManager.set('concurrentDownloads', 99);
@@ -3,6 +3,10 @@ import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
 import { machineIdSync } from 'node-machine-id';
+import type { NetworkProxySettings } from './shared/network-proxy';
+import type { RegistryCredential } from './shared/registry-credentials';
+import type { RegistryMirror, RegistryMirrorSettings } from './shared/registry-mirrors';
+import type { TransferLimitSettings } from './shared/transfer-limiter';
 
 // 설정 인터페이스 정의
 export interface Config {
@@ -19,6 +23,24 @@ export interface Config {
   smtpFrom?: string;
   smtpTo?: string;
 
+  // 네트워크 설정 (프록시, 사용자 CA)
+  httpProxy?: string;
+  httpsProxy?: string;
+  noProxy?: string;
+  proxyUsername?: string;
+  proxyPassword?: string; // 암호화되어 저장됨
+  caBundlePath?: string;
+
+  // 전송 제한 설정 (비어 있거나 0이면 무제한)
+  limitRate?: string | number; // 예: '5M'
+  perHostConcurrency?: number;
+
+  // 생태계별 저장소 미러 (Nexus, Artifactory 등, 미러 비밀번호/토큰은 암호화되어 저장됨)
+  registryMirrors?: RegistryMirrorSettings;
+
+  // 사설 저장소 인증 정보 (pip 인덱스, npm 스코프 레지스트리, Maven 서버, 비밀번호/토큰은 암호화되어 저장됨)
+  registryCredentials?: RegistryCredential[];
+
   // 기타 설정
   defaultOutputFormat: 'archive' | 'mirror' | 'withScript';
   defaultArchiveType: 'zip' | 'tar.gz';
@@ -42,6 +64,11 @@ export interface CLIConfig {
   logLevel: string;
 }
 
+// 암호화되어 저장되는 설정 필드
+const SECRET_CONFIG_KEYS = ['smtpPassword', 'proxyPassword'] as const;
+// 저장소 미러/인증 정보 항목 중 암호화되어 저장되는 필드
+const SECRET_MIRROR_KEYS = ['password', 'token'] as const;
+
 // 암호화 설정
 const ENCRYPTION_IV_LENGTH = 16;
 const ENCRYPTION_SALT = 'depssmuggler-salt';
@@ -107,15 +134,10 @@ export class ConfigManager {
       if (await fs.pathExists(this.configPath)) {
         const rawConfig = await fs.readJson(this.configPath);
         // 저장된 설정과 기본값을 병합 (새로운 설정 항목 대응)
-        const config: Config = { ...DEFAULT_CONFIG, ...rawConfig };
-
-        // SMTP 비밀번호 복호화
-        if (config.smtpPassword) {
-          config.smtpPassword = this.decrypt(config.smtpPassword);
-        }
+        const config: Config = this.decryptSecrets({ ...DEFAULT_CONFIG, ...rawConfig });
 
         // 레거시 키로 복호화된 경우 새 키로 마이그레이션
-        if (this.needsEncryptionMigration && config.smtpPassword) {
+        if (this.needsEncryptionMigration) {
           console.info('[config] 암호화 키 마이그레이션을 수행합니다...');
           await this.saveConfig(config);
           this.needsEncryptionMigration = false;
@@ -139,13 +161,8 @@ export class ConfigManager {
   async saveConfig(config: Config): Promise<void> {
     await this.ensureDirectories();
 
-    // 저장용 설정 복사 (원본 수정 방지)
-    const configToSave = { ...config };
-
-    // SMTP 비밀번호 암호화
-    if (configToSave.smtpPassword) {
-      configToSave.smtpPassword = this.encrypt(configToSave.smtpPassword);
-    }
+    // 저장용 설정 복사 (원본 수정 방지) 후 비밀번호 암호화
+    const configToSave = this.encryptSecrets(config);
 
     await fs.writeJson(this.configPath, configToSave, { spaces: 2 });
   }
@@ -219,6 +236,65 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * 프록시/사용자 CA 설정을 동기적으로 로드합니다 (CLI용).
+   */
+  getNetworkSettings(): NetworkProxySettings {
+    try {
+      if (fs.pathExistsSync(this.configPath)) {
+        const rawConfig = this.decryptSecrets(fs.readJsonSync(this.configPath) as Partial<Config>);
+        return pickNetworkSettings(rawConfig);
+      }
+    } catch {
+      // 에러 무시
+    }
+    return {};
+  }
+
+  /**
+   * 전송 제한(대역폭, 호스트별 동시 연결) 설정을 동기적으로 로드합니다 (CLI용).
+   */
+  getTransferLimitSettings(): TransferLimitSettings {
+    try {
+      if (fs.pathExistsSync(this.configPath)) {
+        return pickTransferLimitSettings(fs.readJsonSync(this.configPath) as Partial<Config>);
+      }
+    } catch {
+      // 에러 무시
+    }
+    return {};
+  }
+
+  /**
+   * 저장소 미러 설정을 동기적으로 로드합니다 (CLI용).
+   */
+  getRegistryMirrorSettings(): RegistryMirrorSettings {
+    try {
+      if (fs.pathExistsSync(this.configPath)) {
+        const rawConfig = this.decryptSecrets(fs.readJsonSync(this.configPath) as Partial<Config>);
+        return pickRegistryMirrorSettings(rawConfig);
+      }
+    } catch {
+      // 에러 무시
+    }
+    return {};
+  }
+
+  /**
+   * 사설 저장소 인증 정보를 동기적으로 로드합니다 (CLI용).
+   */
+  getRegistryCredentialSettings(): RegistryCredential[] {
+    try {
+      if (fs.pathExistsSync(this.configPath)) {
+        const rawConfig = this.decryptSecrets(fs.readJsonSync(this.configPath) as Partial<Config>);
+        return pickRegistryCredentialSettings(rawConfig);
+      }
+    } catch {
+      // 에러 무시
+    }
+    return [];
+  }
+
   /**
    * 설정값을 동기적으로 설정합니다 (CLI용).
    */
@@ -230,7 +306,37 @@ export class ConfigManager {
       config = fs.readJsonSync(this.configPath);
     }
 
-    config[key] = value;
+    config[key] = isSecretConfigKey(key) && value !== '' ? this.encrypt(String(value)) : value;
+    fs.writeJsonSync(this.configPath, config, { spaces: 2 });
+  }
+
+  /**
+   * 저장소 미러 설정을 동기적으로 저장합니다 (CLI용, 비밀번호/토큰은 암호화).
+   */
+  setRegistryMirrorSettings(mirrors: RegistryMirrorSettings): void {
+    fs.ensureDirSync(this.configDir);
+    let config: Record<string, unknown> = {};
+
+    if (fs.pathExistsSync(this.configPath)) {
+      config = fs.readJsonSync(this.configPath);
+    }
+
+    config.registryMirrors = this.mapMirrorSecrets(mirrors, (value) => this.encrypt(value));
+    fs.writeJsonSync(this.configPath, config, { spaces: 2 });
+  }
+
+  /**
+   * 사설 저장소 인증 정보를 동기적으로 저장합니다 (CLI용, 비밀번호/토큰은 암호화).
+   */
+  setRegistryCredentialSettings(credentials: RegistryCredential[]): void {
+    fs.ensureDirSync(this.configDir);
+    let config: Record<string, unknown> = {};
+
+    if (fs.pathExistsSync(this.configPath)) {
+      config = fs.readJsonSync(this.configPath);
+    }
+
+    config.registryCredentials = this.mapEntrySecrets(credentials, (value) => this.encrypt(value));
     fs.writeJsonSync(this.configPath, config, { spaces: 2 });
   }
 
@@ -242,6 +348,94 @@ export class ConfigManager {
     fs.writeJsonSync(this.configPath, DEFAULT_CONFIG, { spaces: 2 });
   }
 
+  /**
+   * 설정 파일에 쓰기 전에 비밀번호 필드를 암호화합니다.
+   */
+  encryptSecrets<T extends object>(config: T): T {
+    const encrypted = { ...config } as Record<string, unknown>;
+    for (const key of SECRET_CONFIG_KEYS) {
+      const value = encrypted[key];
+      if (typeof value === 'string' && value) {
+        encrypted[key] = this.encrypt(value);
+      }
+    }
+    if (encrypted.registryMirrors) {
+      encrypted.registryMirrors = this.mapMirrorSecrets(
+        encrypted.registryMirrors as RegistryMirrorSettings,
+        (value) => this.encrypt(value)
+      );
+    }
+    if (Array.isArray(encrypted.registryCredentials)) {
+      encrypted.registryCredentials = this.mapEntrySecrets(
+        encrypted.registryCredentials as RegistryCredential[],
+        (value) => this.encrypt(value)
+      );
+    }
+    return encrypted as T;
+  }
+
+  /**
+   * 설정 파일에서 읽은 비밀번호 필드를 복호화합니다.
+   */
+  decryptSecrets<T extends object>(config: T): T {
+    const decrypted = { ...config } as Record<string, unknown>;
+    for (const key of SECRET_CONFIG_KEYS) {
+      const value = decrypted[key];
+      if (typeof value === 'string' && value) {
+        decrypted[key] = this.decrypt(value);
+      }
+    }
+    if (decrypted.registryMirrors) {
+      decrypted.registryMirrors = this.mapMirrorSecrets(
+        decrypted.registryMirrors as RegistryMirrorSettings,
+        (value) => this.decrypt(value)
+      );
+    }
+    if (Array.isArray(decrypted.registryCredentials)) {
+      decrypted.registryCredentials = this.mapEntrySecrets(
+        decrypted.registryCredentials as RegistryCredential[],
+        (value) => this.decrypt(value)
+      );
+    }
+    return decrypted as T;
+  }
+
+  /**
+   * 저장소 미러 항목의 비밀번호/토큰 필드에 변환을 적용합니다.
+   */
+  private mapMirrorSecrets(
+    mirrors: RegistryMirrorSettings,
+    transform: (value: string) => string
+  ): RegistryMirrorSettings {
+    const mapped: RegistryMirrorSettings = {};
+    for (const [ecosystem, list] of Object.entries(mirrors) as Array<[keyof RegistryMirrorSettings, RegistryMirror[]]>) {
+      if (!Array.isArray(list)) {
+        continue;
+      }
+      mapped[ecosystem] = this.mapEntrySecrets(list, transform);
+    }
+    return mapped;
+  }
+
+  /**
+   * 미러/인증 정보 항목의 비밀번호/토큰 필드에 변환을 적용합니다.
+   */
+  private mapEntrySecrets<T extends { password?: string; token?: string }>(
+    entries: T[],
+    transform: (value: string) => string
+  ): T[] {
+    return entries.map((entry) => {
+      const next = { ...entry };
+      for (const key of SECRET_MIRROR_KEYS) {
+        const value = next[key];
+        if (typeof value === 'string' && value) {
+          next[key] = transform(value);
+        }
+      }
+      return next;
+    });
+  }
+
   /**
    * 문자열을 암호화합니다.
    */
@@ -298,6 +492,48 @@ export class ConfigManager {
   }
 }
 
+function isSecretConfigKey(key: string): boolean {
+  return (SECRET_CONFIG_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * 설정에서 네트워크(프록시, 사용자 CA) 항목만 추린다
+ */
+export function pickNetworkSettings(config: Partial<Config>): NetworkProxySettings {
+  return {
+    httpProxy: config.httpProxy,
+    httpsProxy: config.httpsProxy,
+    noProxy: config.noProxy,
+    proxyUsername: config.proxyUsername,
+    proxyPassword: config.proxyPassword,
+    caBundlePath: config.caBundlePath,
+  };
+}
+
+/**
+ * 설정에서 전송 제한 항목만 추린다
+ */
+export function pickTransferLimitSettings(config: Partial<Config>): TransferLimitSettings {
+  return {
+    limitRate: config.limitRate,
+    perHostConcurrency: config.perHostConcurrency,
+  };
+}
+
+/**
+ * 설정에서 저장소 미러 항목만 추린다
+ */
+export function pickRegistryMirrorSettings(config: Partial<Config>): RegistryMirrorSettings {
+  return config.registryMirrors ?? {};
+}
+
+/**
+ * 설정에서 사설 저장소 인증 정보만 추린다
+ */
+export function pickRegistryCredentialSettings(config: Partial<Config>): RegistryCredential[] {
+  return Array.isArray(config.registryCredentials) ? config.registryCredentials : [];
+}
+
 // 싱글톤 인스턴스
 let configManagerInstance: ConfigManager | null = null;
 
@@ -0,0 +1,37 @@
+/**
+ * Rust Cargo crate 관련 상수
+ */
+
+export const CARGO_CONSTANTS = {
+  /** API 타임아웃 (30초) */
+  API_TIMEOUT_MS: 30000,
+
+  /** 다운로드 타임아웃 (5분) */
+  DOWNLOAD_TIMEOUT_MS: 300000,
+
+  /** crates.io sparse 인덱스 URL */
+  DEFAULT_INDEX_URL: 'https://index.crates.io',
+
+  /** crate 파일 다운로드 기준 URL (`<url>/<name>/<name>-<version>.crate`) */
+  DEFAULT_DOWNLOAD_URL: 'https://static.crates.io/crates',
+
+  /** crates.io 웹 API URL (검색 전용, User-Agent 필수) */
+  DEFAULT_API_URL: 'https://crates.io/api/v1',
+
+  /** Cargo.lock의 crates.io 소스 식별자 */
+  CRATES_IO_SOURCES: [
+    'registry+https://github.com/rust-lang/crates.io-index',
+    'sparse+https://index.crates.io/',
+  ],
+
+  /** `cargo vendor` 호환 디렉토리 이름 */
+  VENDOR_DIR: 'vendor',
+
+  /** cargo local-registry 디렉토리 이름 */
+  REGISTRY_DIR: 'cargo-registry',
+
+  /** 설치 스크립트가 source replacement로 추가하는 Cargo 소스 이름 */
+  REPLACEMENT_SOURCE: 'depssmuggler-offline',
+} as const;
+
+export type CargoConstants = typeof CARGO_CONSTANTS;
@@ -0,0 +1,25 @@
+/**
+ * Go 모듈 관련 상수
+ */
+
+export const GO_CONSTANTS = {
+  /** API 타임아웃 (30초) */
+  API_TIMEOUT_MS: 30000,
+
+  /** 다운로드 타임아웃 (5분) */
+  DOWNLOAD_TIMEOUT_MS: 300000,
+
+  /** 기본 모듈 프록시 URL */
+  DEFAULT_PROXY_URL: 'https://proxy.golang.org',
+
+  /** 기본 체크섬 데이터베이스 URL (go.sum 항목이 없을 때 해시 조회) */
+  DEFAULT_SUMDB_URL: 'https://sum.golang.org',
+
+  /** GOPROXY 파일 트리 루트 (GOMODCACHE의 다운로드 캐시와 같은 레이아웃) */
+  PROXY_TREE_DIR: 'cache/download',
+
+  /** 모듈 그래프 가지치기(graph pruning)가 적용되는 최소 go 버전 */
+  PRUNED_GRAPH_GO_VERSION: '1.17',
+} as const;
+
+export type GoConstants = typeof GO_CONSTANTS;
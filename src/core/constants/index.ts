@@ -4,8 +4,11 @@
  * 코드베이스 전반의 매직 넘버와 설정값을 명명된 상수로 관리
  */
 
+export * from './cargo';
 export * from './docker';
+export * from './go';
 export * from './maven';
 export * from './npm';
+export * from './nuget';
 export * from './pip';
 export * from './download';
@@ -26,3 +26,66 @@ export const MAVEN_CONSTANTS = {
 } as const;
 
 export type MavenConstants = typeof MAVEN_CONSTANTS;
+
+/** Maven 기본 플러그인 groupId (`<plugin>`에 groupId가 없을 때) */
+export const MAVEN_PLUGIN_GROUP_ID = 'org.apache.maven.plugins';
+
+/** surefire/failsafe provider groupId */
+export const MAVEN_SUREFIRE_GROUP_ID = 'org.apache.maven.surefire';
+
+const CLEAN_PLUGIN = { artifactId: 'maven-clean-plugin', version: '3.2.0' };
+const RESOURCES_PLUGIN = { artifactId: 'maven-resources-plugin', version: '3.3.1' };
+const COMPILER_PLUGIN = { artifactId: 'maven-compiler-plugin', version: '3.11.0' };
+const SUREFIRE_PLUGIN = { artifactId: 'maven-surefire-plugin', version: '3.2.2' };
+const JAR_PLUGIN = { artifactId: 'maven-jar-plugin', version: '3.3.0' };
+const INSTALL_PLUGIN = { artifactId: 'maven-install-plugin', version: '3.1.1' };
+
+/**
+ * packaging별 기본 라이프사이클 플러그인 (Maven 3.9 기본 바인딩, clean ~ install 단계)
+ *
+ * 프로젝트나 parent POM의 pluginManagement에 버전이 있으면 그 버전이 우선한다.
+ */
+export const MAVEN_LIFECYCLE_PLUGINS: Record<string, ReadonlyArray<{ artifactId: string; version: string }>> = {
+  pom: [CLEAN_PLUGIN, INSTALL_PLUGIN],
+  jar: [CLEAN_PLUGIN, RESOURCES_PLUGIN, COMPILER_PLUGIN, SUREFIRE_PLUGIN, JAR_PLUGIN, INSTALL_PLUGIN],
+  war: [
+    CLEAN_PLUGIN,
+    RESOURCES_PLUGIN,
+    COMPILER_PLUGIN,
+    SUREFIRE_PLUGIN,
+    { artifactId: 'maven-war-plugin', version: '3.4.0' },
+    INSTALL_PLUGIN,
+  ],
+  ejb: [
+    CLEAN_PLUGIN,
+    RESOURCES_PLUGIN,
+    COMPILER_PLUGIN,
+    SUREFIRE_PLUGIN,
+    { artifactId: 'maven-ejb-plugin', version: '3.2.1' },
+    INSTALL_PLUGIN,
+  ],
+  rar: [
+    CLEAN_PLUGIN,
+    RESOURCES_PLUGIN,
+    COMPILER_PLUGIN,
+    SUREFIRE_PLUGIN,
+    JAR_PLUGIN,
+    { artifactId: 'maven-rar-plugin', version: '3.0.0' },
+    INSTALL_PLUGIN,
+  ],
+  ear: [
+    CLEAN_PLUGIN,
+    RESOURCES_PLUGIN,
+    { artifactId: 'maven-ear-plugin', version: '3.3.0' },
+    INSTALL_PLUGIN,
+  ],
+  'maven-plugin': [
+    CLEAN_PLUGIN,
+    RESOURCES_PLUGIN,
+    COMPILER_PLUGIN,
+    SUREFIRE_PLUGIN,
+    JAR_PLUGIN,
+    { artifactId: 'maven-plugin-plugin', version: '3.9.0' },
+    INSTALL_PLUGIN,
+  ],
+};
@@ -23,6 +23,15 @@ export const NPM_CONSTANTS = {
 
   /** 검색 결과 기본 크기 */
   DEFAULT_SEARCH_SIZE: 20,
+
+  /** 오프라인 레지스트리 미러 디렉토리 이름 */
+  MIRROR_DIR_NAME: 'npm-registry',
+
+  /** 오프라인 레지스트리 미러 기본 포트 */
+  DEFAULT_MIRROR_PORT: 4873,
+
+  /** 오프라인 레지스트리 미러 기본 URL (packument의 tarball URL 기준) */
+  DEFAULT_MIRROR_URL: 'http://localhost:4873',
 } as const;
 
 export type NpmConstants = typeof NPM_CONSTANTS;
@@ -0,0 +1,22 @@
+/**
+ * NuGet 패키지 관련 상수
+ */
+
+export const NUGET_CONSTANTS = {
+  /** API 타임아웃 (30초) */
+  API_TIMEOUT_MS: 30000,
+
+  /** 다운로드 타임아웃 (5분) */
+  DOWNLOAD_TIMEOUT_MS: 300000,
+
+  /** nuget.org V3 서비스 인덱스 URL (flat container/검색 주소는 여기서 조회) */
+  DEFAULT_SERVICE_INDEX_URL: 'https://api.nuget.org/v3/index.json',
+
+  /** 대상 프레임워크를 지정하지 않았을 때 사용할 TFM */
+  DEFAULT_TARGET_FRAMEWORK: 'net8.0',
+
+  /** 로컬 NuGet 피드 디렉토리 이름 (`<id>/<version>/` 계층 레이아웃) */
+  FEED_DIR: 'nuget-feed',
+} as const;
+
+export type NuGetConstants = typeof NUGET_CONSTANTS;
@@ -0,0 +1,103 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DownloadSessionJournal } from './download-session-journal';
+
+interface TestPackage {
+  name: string;
+  version: string;
+}
+
+describe('DownloadSessionJournal', () => {
+  let tempDir: string;
+  let journal: DownloadSessionJournal;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-sessions-'));
+    journal = new DownloadSessionJournal(path.join(tempDir, 'sessions'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  async function createSession() {
+    return journal.createSession<TestPackage, { output: string }>({
+      source: 'cli',
+      outputDir: path.join(tempDir, 'out'),
+      options: { output: path.join(tempDir, 'out') },
+      items: [
+        { id: '0', package: { name: 'requests', version: '2.32.0' } },
+        { id: '1', package: { name: 'urllib3', version: '2.1.0' } },
+      ],
+    });
+  }
+
+  it('세션을 기록하고 다시 읽어야 함', async () => {
+    const session = await createSession();
+
+    expect(session.status).toBe('running');
+    expect(await fs.pathExists(path.join(tempDir, 'sessions', `${session.id}.json`))).toBe(true);
+    expect(await journal.getSession(session.id)).toEqual(session);
+    expect(await journal.getSession('../settings')).toBeNull();
+  });
+
+  it('동시에 들어온 항목 기록을 모두 반영해야 함', async () => {
+    const session = await createSession();
+    const filePath = path.join(tempDir, 'requests.whl');
+    await fs.writeFile(filePath, 'wheel');
+
+    await Promise.all([
+      journal.markItemCompleted(session.id, '0', filePath),
+      journal.markItemFailed(session.id, '1', 'network failed'),
+    ]);
+
+    const record = await journal.getSession(session.id);
+    expect(record?.items).toEqual([
+      expect.objectContaining({ id: '0', status: 'completed', filePath, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) }),
+      expect.objectContaining({ id: '1', status: 'failed', error: 'network failed' }),
+    ]);
+  });
+
+  it('재개 시 파일이 그대로인 완료 항목만 건너뛰어야 함', async () => {
+    const session = await createSession();
+    const keptPath = path.join(tempDir, 'requests.whl');
+    const changedPath = path.join(tempDir, 'urllib3.whl');
+    await fs.writeFile(keptPath, 'wheel');
+    await fs.writeFile(changedPath, 'wheel');
+    await journal.markItemCompleted(session.id, '0', keptPath);
+    await journal.markItemCompleted(session.id, '1', changedPath);
+    await journal.setStatus(session.id, 'failed');
+    await fs.writeFile(changedPath, 'truncated');
+
+    const resumed = await journal.prepareResume(session.id);
+
+    expect(resumed?.status).toBe('running');
+    expect(resumed?.items.map((item) => item.status)).toEqual(['completed', 'pending']);
+    expect(resumed?.items[1]).toEqual({ id: '1', package: { name: 'urllib3', version: '2.1.0' }, status: 'pending' });
+    expect(await journal.prepareResume('missing-session')).toBeNull();
+  });
+
+  it('완료되지 않은 세션만 최근 순으로 나열하고 삭제할 수 있어야 함', async () => {
+    const first = await createSession();
+    const second = await journal.createSession({
+      source: 'gui',
+      outputDir: tempDir,
+      options: {},
+      items: [],
+    });
+    const done = await createSession();
+    await journal.setStatus(done.id, 'completed');
+    // updatedAt이 겹치지 않도록 잠시 대기
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await journal.setStatus(first.id, 'cancelled');
+
+    expect((await journal.listSessions()).map((record) => record.id)).toEqual([first.id, second.id]);
+    expect((await journal.listSessions('gui')).map((record) => record.id)).toEqual([second.id]);
+
+    expect(await journal.removeSession(first.id)).toBe(true);
+    expect(await journal.removeSession(first.id)).toBe(false);
+    expect((await journal.listSessions()).map((record) => record.id)).toEqual([second.id]);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * 다운로드 세션 저널
+ *
+ * 다운로드 세션(패키지 목록, 옵션, 항목별 상태, 출력 경로)을 `~/.depssmuggler/sessions/<id>.json`에
+ * 기록해 앱 종료나 비정상 종료 후에도 이어서 받을 수 있게 한다. 완료된 항목은 파일의 sha256을 함께
+ * 기록하고, 재개할 때 파일이 그대로 있는 항목만 건너뛴다.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { calculateFileChecksum } from './shared/integrity/checksum';
+import logger from '../utils/logger';
+
+/** 세션을 시작한 곳 */
+export type DownloadSessionSource = 'gui' | 'cli';
+
+/**
+ * 세션 상태
+ *
+ * 프로세스가 다운로드 도중 종료되면 'running'으로 남으므로 'completed'가 아닌 세션은 모두 재개 대상이다.
+ */
+export type DownloadSessionStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** 항목 상태 */
+export type DownloadSessionItemStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * 세션 항목
+ */
+export interface DownloadSessionItem<TPackage = unknown> {
+  /** 세션 내 항목 ID */
+  id: string;
+  /** 다운로드할 패키지 */
+  package: TPackage;
+  status: DownloadSessionItemStatus;
+  /** 받은 파일 경로 (완료 시) */
+  filePath?: string;
+  /** 받은 파일의 sha256 (완료 시) */
+  sha256?: string;
+  /** 실패 사유 */
+  error?: string;
+}
+
+/**
+ * 세션 기록 (저널 파일 내용)
+ */
+export interface DownloadSessionRecord<TPackage = unknown, TOptions = unknown> {
+  id: string;
+  source: DownloadSessionSource;
+  status: DownloadSessionStatus;
+  /** 생성 시각 (ISO 8601) */
+  createdAt: string;
+  /** 마지막 기록 시각 (ISO 8601) */
+  updatedAt: string;
+  /** 출력 디렉토리 */
+  outputDir: string;
+  /** 세션을 다시 시작할 때 사용할 다운로드 옵션 */
+  options: TOptions;
+  items: DownloadSessionItem<TPackage>[];
+}
+
+/**
+ * 세션 생성 요청
+ */
+export interface CreateDownloadSessionInput<TPackage, TOptions> {
+  source: DownloadSessionSource;
+  outputDir: string;
+  options: TOptions;
+  items: Array<{ id: string; package: TPackage }>;
+}
+
+// 세션 ID 생성
+const generateSessionId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+};
+
+export class DownloadSessionJournal {
+  private sessionsDir: string;
+  /** 세션별 쓰기 직렬화 (항목 완료가 동시에 들어와도 기록이 유실되지 않도록) */
+  private writeQueues = new Map<string, Promise<unknown>>();
+
+  constructor(sessionsDir: string = path.join(os.homedir(), '.depssmuggler', 'sessions')) {
+    this.sessionsDir = sessionsDir;
+  }
+
+  /**
+   * 새 세션 기록
+   */
+  async createSession<TPackage, TOptions>(
+    input: CreateDownloadSessionInput<TPackage, TOptions>
+  ): Promise<DownloadSessionRecord<TPackage, TOptions>> {
+    const now = new Date().toISOString();
+    const record: DownloadSessionRecord<TPackage, TOptions> = {
+      id: generateSessionId(),
+      source: input.source,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      outputDir: input.outputDir,
+      options: input.options,
+      items: input.items.map((item) => ({ id: item.id, package: item.package, status: 'pending' })),
+    };
+
+    await this.enqueue(record.id, () => this.write(record));
+    logger.info('다운로드 세션 기록 시작', { id: record.id, itemCount: record.items.length });
+    return record;
+  }
+
+  /**
+   * 세션 조회 (없거나 읽을 수 없으면 null)
+   */
+  async getSession<TPackage = unknown, TOptions = unknown>(
+    sessionId: string
+  ): Promise<DownloadSessionRecord<TPackage, TOptions> | null> {
+    if (!isValidSessionId(sessionId)) {
+      return null;
+    }
+
+    try {
+      const record = await fs.readJson(this.getSessionPath(sessionId)) as DownloadSessionRecord<TPackage, TOptions>;
+      return record?.id === sessionId && Array.isArray(record.items) ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 재개할 수 있는 세션 목록 (최근 순)
+   */
+  async listSessions(source?: DownloadSessionSource): Promise<DownloadSessionRecord[]> {
+    if (!(await fs.pathExists(this.sessionsDir))) {
+      return [];
+    }
+
+    const files = (await fs.readdir(this.sessionsDir)).filter((file) => file.endsWith('.json'));
+    const records = await Promise.all(files.map((file) => this.getSession(path.basename(file, '.json'))));
+
+    return records
+      .filter((record): record is DownloadSessionRecord => (
+        record !== null && record.status !== 'completed' && (!source || record.source === source)
+      ))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * 항목 완료 기록 (sha256 계산 포함)
+   */
+  async markItemCompleted(sessionId: string, itemId: string, filePath?: string): Promise<void> {
+    const sha256 = filePath ? await calculateFileChecksum(filePath, 'sha256').catch(() => undefined) : undefined;
+    await this.updateItem(sessionId, itemId, {
+      status: 'completed',
+      filePath: sha256 ? filePath : undefined,
+      sha256,
+      error: undefined,
+    });
+  }
+
+  /**
+   * 항목 실패 기록
+   */
+  async markItemFailed(sessionId: string, itemId: string, error: string): Promise<void> {
+    await this.updateItem(sessionId, itemId, {
+      status: 'failed',
+      filePath: undefined,
+      sha256: undefined,
+      error,
+    });
+  }
+
+  /**
+   * 세션 상태 기록
+   */
+  async setStatus(sessionId: string, status: DownloadSessionStatus): Promise<void> {
+    await this.modify(sessionId, (record) => {
+      record.status = status;
+    });
+  }
+
+  /**
+   * 재개 준비
+   *
+   * 완료로 기록된 항목 중 파일이 남아 있고 sha256이 일치하는 항목만 완료로 유지하고,
+   * 나머지는 pending으로 되돌린다. 반환값은 갱신된 세션 기록이다.
+   */
+  async prepareResume<TPackage = unknown, TOptions = unknown>(
+    sessionId: string
+  ): Promise<DownloadSessionRecord<TPackage, TOptions> | null> {
+    const record = await this.getSession<TPackage, TOptions>(sessionId);
+    if (!record) {
+      return null;
+    }
+
+    const verified = await Promise.all(record.items.map((item) => isItemVerified(item)));
+    return this.modify(sessionId, (current) => {
+      current.status = 'running';
+      current.items = current.items.map((item, index) => (
+        item.status === 'completed' && verified[index]
+          ? item
+          : { id: item.id, package: item.package, status: 'pending' }
+      ));
+    }) as Promise<DownloadSessionRecord<TPackage, TOptions> | null>;
+  }
+
+  /**
+   * 세션 저널 삭제 (받은 파일은 그대로 둔다)
+   */
+  async removeSession(sessionId: string): Promise<boolean> {
+    if (!isValidSessionId(sessionId)) {
+      return false;
+    }
+
+    return this.enqueue(sessionId, async () => {
+      const sessionPath = this.getSessionPath(sessionId);
+      if (!(await fs.pathExists(sessionPath))) {
+        return false;
+      }
+      await fs.remove(sessionPath);
+      return true;
+    });
+  }
+
+  private async updateItem(
+    sessionId: string,
+    itemId: string,
+    updates: Partial<Omit<DownloadSessionItem, 'id' | 'package'>>
+  ): Promise<void> {
+    await this.modify(sessionId, (record) => {
+      const item = record.items.find((candidate) => candidate.id === itemId);
+      if (item) {
+        Object.assign(item, updates);
+      }
+    });
+  }
+
+  private modify(
+    sessionId: string,
+    mutate: (record: DownloadSessionRecord) => void
+  ): Promise<DownloadSessionRecord | null> {
+    return this.enqueue(sessionId, async () => {
+      const record = await this.getSession(sessionId);
+      if (!record) {
+        return null;
+      }
+      mutate(record);
+      record.updatedAt = new Date().toISOString();
+      await this.write(record);
+      return record;
+    });
+  }
+
+  private enqueue<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueues.get(sessionId) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    this.writeQueues.set(sessionId, settled);
+    void settled.then(() => {
+      if (this.writeQueues.get(sessionId) === settled) {
+        this.writeQueues.delete(sessionId);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * 임시 파일에 쓴 뒤 rename해 중간에 종료돼도 저널이 깨지지 않게 한다
+   */
+  private async write(record: DownloadSessionRecord): Promise<void> {
+    await fs.ensureDir(this.sessionsDir);
+    const sessionPath = this.getSessionPath(record.id);
+    const tempPath = `${sessionPath}.tmp`;
+    await fs.writeJson(tempPath, record, { spaces: 2 });
+    await fs.rename(tempPath, sessionPath);
+  }
+
+  private getSessionPath(sessionId: string): string {
+    return path.join(this.sessionsDir, `${sessionId}.json`);
+  }
+}
+
+function isValidSessionId(sessionId: string): boolean {
+  return /^[A-Za-z0-9-]+$/.test(sessionId);
+}
+
+async function isItemVerified(item: DownloadSessionItem): Promise<boolean> {
+  if (item.status !== 'completed' || !item.filePath || !item.sha256) {
+    return false;
+  }
+
+  try {
+    return (await calculateFileChecksum(item.filePath, 'sha256')) === item.sha256;
+  } catch {
+    return false;
+  }
+}
+
+// 싱글톤 인스턴스
+let downloadSessionJournalInstance: DownloadSessionJournal | null = null;
+
+export function getDownloadSessionJournal(): DownloadSessionJournal {
+  if (!downloadSessionJournalInstance) {
+    downloadSessionJournalInstance = new DownloadSessionJournal();
+  }
+  return downloadSessionJournalInstance;
+}
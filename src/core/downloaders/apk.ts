@@ -19,6 +19,7 @@ import type {
   OSPackageSearchResult,
 } from './os-shared/types';
 import { BaseOSDownloader, type BaseDownloaderOptions } from './os-shared/base-downloader';
+import { compareApkVersions } from './os-shared/version-compare';
 
 /**
  * APK 메타데이터 파서
@@ -349,7 +350,7 @@ export class ApkMetadataParser {
     const results: OSPackageSearchResult[] = [];
     for (const [name, versions] of groupedByName) {
       // 버전 정렬 (최신순)
-      const sortedVersions = versions.sort((a, b) => this.compareVersions(b.version, a.version));
+      const sortedVersions = versions.sort((a, b) => compareApkVersions(b.version, a.version));
 
       results.push({
         name,
@@ -373,61 +374,6 @@ export class ApkMetadataParser {
     }
     return results[0].versions;
   }
-
-  /**
-   * Alpine 버전 비교
-   * 형식: major.minor.patch[-r리비전]
-   */
-  private compareVersions(a: string, b: string): number {
-    const parseVersion = (ver: string) => {
-      const revMatch = ver.match(/-r(\d+)$/);
-      const revision = revMatch ? parseInt(revMatch[1], 10) : 0;
-      const main = revMatch ? ver.substring(0, ver.length - revMatch[0].length) : ver;
-      return { main, revision };
-    };
-
-    const verA = parseVersion(a);
-    const verB = parseVersion(b);
-
-    // 메인 버전 비교
-    const mainCmp = this.compareVersionStrings(verA.main, verB.main);
-    if (mainCmp !== 0) return mainCmp;
-
-    // 리비전 비교
-    return verA.revision - verB.revision;
-  }
-
-  /**
-   * 버전 문자열 비교
-   */
-  private compareVersionStrings(a: string, b: string): number {
-    // 문자열이 아닌 경우 문자열로 변환
-    const strA = typeof a === 'string' ? a : String(a ?? '');
-    const strB = typeof b === 'string' ? b : String(b ?? '');
-
-    const partsA = strA.split(/[._-]/);
-    const partsB = strB.split(/[._-]/);
-
-    const maxLen = Math.max(partsA.length, partsB.length);
-
-    for (let i = 0; i < maxLen; i++) {
-      const partA = partsA[i] || '0';
-      const partB = partsB[i] || '0';
-
-      // 숫자로 변환 가능하면 숫자 비교
-      const numA = parseInt(partA, 10);
-      const numB = parseInt(partB, 10);
-
-      if (!isNaN(numA) && !isNaN(numB)) {
-        if (numA !== numB) return numA - numB;
-      } else {
-        // 문자열 비교
-        if (partA !== partB) return partA.localeCompare(partB);
-      }
-    }
-
-    return 0;
-  }
 }
 
 /**
@@ -17,6 +17,7 @@ import type {
   OSPackageSearchResult,
 } from './os-shared/types';
 import { BaseOSDownloader, type BaseDownloaderOptions } from './os-shared/base-downloader';
+import { compareDebianVersions } from './os-shared/version-compare';
 
 /**
  * Release 파일 정보
@@ -412,7 +413,7 @@ export class AptMetadataParser {
     const results: OSPackageSearchResult[] = [];
     for (const [name, versions] of groupedByName) {
       // 버전 정렬 (최신순)
-      const sortedVersions = versions.sort((a, b) => this.compareVersions(b.version, a.version));
+      const sortedVersions = versions.sort((a, b) => compareDebianVersions(b.version, a.version));
 
       results.push({
         name,
@@ -436,69 +437,6 @@ export class AptMetadataParser {
     }
     return results[0].versions;
   }
-
-  /**
-   * Debian 버전 비교
-   * 형식: [epoch:]upstream_version[-debian_revision]
-   */
-  private compareVersions(a: string, b: string): number {
-    const parseVersion = (ver: string) => {
-      const epochMatch = ver.match(/^(\d+):/);
-      const epoch = epochMatch ? parseInt(epochMatch[1], 10) : 0;
-      const rest = epochMatch ? ver.substring(epochMatch[0].length) : ver;
-
-      const revisionMatch = rest.match(/-([^-]+)$/);
-      const revision = revisionMatch ? revisionMatch[1] : '';
-      const upstream = revisionMatch ? rest.substring(0, rest.length - revisionMatch[0].length) : rest;
-
-      return { epoch, upstream, revision };
-    };
-
-    const verA = parseVersion(a);
-    const verB = parseVersion(b);
-
-    // epoch 비교
-    if (verA.epoch !== verB.epoch) return verA.epoch - verB.epoch;
-
-    // upstream 비교
-    const upstreamCmp = this.compareVersionStrings(verA.upstream, verB.upstream);
-    if (upstreamCmp !== 0) return upstreamCmp;
-
-    // revision 비교
-    return this.compareVersionStrings(verA.revision, verB.revision);
-  }
-
-  /**
-   * 버전 문자열 비교
-   */
-  private compareVersionStrings(a: string, b: string): number {
-    // 문자열이 아닌 경우 문자열로 변환
-    const strA = typeof a === 'string' ? a : String(a ?? '');
-    const strB = typeof b === 'string' ? b : String(b ?? '');
-
-    const partsA = strA.split(/[.-~+]/);
-    const partsB = strB.split(/[.-~+]/);
-
-    const maxLen = Math.max(partsA.length, partsB.length);
-
-    for (let i = 0; i < maxLen; i++) {
-      const partA = partsA[i] || '0';
-      const partB = partsB[i] || '0';
-
-      // 숫자로 변환 가능하면 숫자 비교
-      const numA = parseInt(partA, 10);
-      const numB = parseInt(partB, 10);
-
-      if (!isNaN(numA) && !isNaN(numB)) {
-        if (numA !== numB) return numA - numB;
-      } else {
-        // 문자열 비교
-        if (partA !== partB) return partA.localeCompare(partB);
-      }
-    }
-
-    return 0;
-  }
 }
 
 /**
@@ -0,0 +1,74 @@
+/**
+ * Cargo downloader의 downloadPackage 테스트
+ * cargo-cache와 axios를 모킹하고 임시 디렉토리에 .crate 파일을 받는다
+ */
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockAxiosDefault, fetchCargoIndexEntry } = vi.hoisted(() => ({
+  mockAxiosDefault: vi.fn(),
+  fetchCargoIndexEntry: vi.fn(),
+}));
+
+vi.mock('axios', () => ({
+  default: mockAxiosDefault,
+}));
+
+vi.mock('../shared/cargo-cache', () => ({
+  clearCargoCache: vi.fn(),
+  fetchCargoIndexEntries: vi.fn(),
+  fetchCargoIndexEntry,
+}));
+
+import { CargoDownloader } from './cargo';
+
+const CRATE_CONTENT = Buffer.from('crate');
+const CRATE_SHA256 = createHash('sha256').update(CRATE_CONTENT).digest('hex');
+
+describe('CargoDownloader downloadPackage 테스트', () => {
+  let tempDir: string;
+  let downloader: CargoDownloader;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cargo-download-'));
+    downloader = new CargoDownloader();
+    mockAxiosDefault.mockImplementation(async () => ({
+      data: Readable.from([CRATE_CONTENT]),
+      headers: { 'content-length': String(CRATE_CONTENT.length) },
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('Cargo.lock checksum으로 검증하고 <name>-<version>.crate로 저장한다', async () => {
+    const filePath = await downloader.downloadPackage(
+      { type: 'cargo', name: 'serde', version: '1.0.193', metadata: { checksum: { sha256: CRATE_SHA256 } } },
+      tempDir
+    );
+
+    expect(filePath).toBe(path.join(tempDir, 'serde-1.0.193.crate'));
+    expect(await fs.readFile(filePath)).toEqual(CRATE_CONTENT);
+    expect(mockAxiosDefault).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://static.crates.io/crates/serde/serde-1.0.193.crate' })
+    );
+    expect(fetchCargoIndexEntry).not.toHaveBeenCalled();
+  });
+
+  it('checksum이 없으면 인덱스 cksum과 비교하고, 다르면 파일을 지우고 실패한다', async () => {
+    fetchCargoIndexEntry.mockResolvedValue({ name: 'serde', vers: '1.0.193', cksum: 'f'.repeat(64) });
+
+    await expect(
+      downloader.downloadPackage({ type: 'cargo', name: 'serde', version: '1.0.193' }, tempDir)
+    ).rejects.toThrow('체크섬 검증 실패');
+
+    expect(fetchCargoIndexEntry).toHaveBeenCalledWith('serde', '1.0.193', { indexUrl: 'https://index.crates.io' });
+    expect(await fs.pathExists(path.join(tempDir, 'serde-1.0.193.crate'))).toBe(false);
+  });
+});
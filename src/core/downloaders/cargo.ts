@@ -0,0 +1,166 @@
+/**
+ * Rust Cargo crate 다운로더
+ * sparse 인덱스로 버전/체크섬을 조회하고 `.crate` 파일을 받는다
+ *
+ * 받은 `.crate` 파일은 CLI에서 `cargo vendor` 호환 디렉토리나 local-registry로 재구성한다.
+ */
+
+import axios from 'axios';
+import * as semver from 'semver';
+import {
+  PackageInfo,
+  IDownloader,
+  DownloadProgressEvent,
+} from '../../types';
+import { BaseLanguageDownloader } from './lang-shared/base-language-downloader';
+import logger from '../../utils/logger';
+import { CARGO_CONSTANTS } from '../constants/cargo';
+import { clearCargoCache, fetchCargoIndexEntries, fetchCargoIndexEntry } from '../shared/cargo-cache';
+import { getCargoCrateFileName } from '../shared/cargo-utils';
+import { verifyFileChecksum } from '../shared/integrity/checksum';
+
+/**
+ * crates.io 검색 API 응답 항목
+ */
+interface CratesIoSearchItem {
+  name: string;
+  max_version: string;
+  max_stable_version?: string | null;
+  description?: string | null;
+  downloads?: number;
+}
+
+/**
+ * Cargo 다운로더 클래스
+ */
+export class CargoDownloader extends BaseLanguageDownloader implements IDownloader {
+  readonly type = 'cargo' as const;
+  private readonly indexUrl: string;
+  private readonly downloadUrl: string;
+  private readonly apiUrl: string;
+
+  constructor(
+    indexUrl = CARGO_CONSTANTS.DEFAULT_INDEX_URL,
+    downloadUrl = CARGO_CONSTANTS.DEFAULT_DOWNLOAD_URL,
+    apiUrl = CARGO_CONSTANTS.DEFAULT_API_URL
+  ) {
+    super();
+    this.indexUrl = indexUrl;
+    this.downloadUrl = downloadUrl;
+    this.apiUrl = apiUrl;
+  }
+
+  /**
+   * crate 검색 (crates.io 웹 API)
+   */
+  async searchPackages(query: string): Promise<PackageInfo[]> {
+    const keyword = query.trim();
+    if (!keyword) {
+      return [];
+    }
+
+    try {
+      const response = await axios.get<{ crates: CratesIoSearchItem[] }>(`${this.apiUrl}/crates`, {
+        params: { q: keyword, per_page: 20 },
+        headers: { 'User-Agent': 'DepsSmuggler/1.0' },
+        timeout: CARGO_CONSTANTS.API_TIMEOUT_MS,
+      });
+      return response.data.crates.map((item) => ({
+        type: 'cargo',
+        name: item.name,
+        version: item.max_stable_version || item.max_version,
+        metadata: { description: item.description ?? undefined, downloads: item.downloads },
+      }));
+    } catch (error) {
+      logger.debug('crates.io 검색 실패', { query, error });
+      return [];
+    }
+  }
+
+  /**
+   * crate 버전 목록 조회 (최신순, yank된 버전 제외)
+   */
+  async getVersions(packageName: string): Promise<string[]> {
+    const versions = (await fetchCargoIndexEntries(packageName, { indexUrl: this.indexUrl }))
+      .filter((entry) => !entry.yanked)
+      .map((entry) => entry.vers);
+    return semver.rsort(versions);
+  }
+
+  /**
+   * crate 메타데이터 조회
+   */
+  async getPackageMetadata(name: string, version: string): Promise<PackageInfo> {
+    const resolvedVersion = !version || version === 'latest' ? (await this.getVersions(name))[0] : version;
+    const entry = await fetchCargoIndexEntry(name, resolvedVersion, { indexUrl: this.indexUrl });
+
+    return {
+      type: 'cargo',
+      name: entry.name,
+      version: entry.vers,
+      metadata: {
+        checksum: { sha256: entry.cksum },
+        yanked: entry.yanked,
+        downloadUrl: this.getDownloadUrl(entry.name, entry.vers),
+      },
+    };
+  }
+
+  /**
+   * crate 다운로드 (`<destPath>/<name>-<version>.crate`)
+   *
+   * Cargo.lock의 checksum(metadata.checksum.sha256)이 없으면 인덱스의 cksum으로 sha256을 검증한다.
+   */
+  async downloadPackage(
+    info: PackageInfo,
+    destPath: string,
+    onProgress?: (progress: DownloadProgressEvent) => void
+  ): Promise<string> {
+    try {
+      const checksum = info.metadata?.checksum?.sha256
+        ?? (await fetchCargoIndexEntry(info.name, info.version, { indexUrl: this.indexUrl })).cksum;
+
+      const filePath = await this.downloadArtifactFile(
+        destPath,
+        {
+          downloadUrl: this.getDownloadUrl(info.name, info.version),
+          itemId: `${info.name}@${info.version}`,
+          timeoutMs: CARGO_CONSTANTS.DOWNLOAD_TIMEOUT_MS,
+          fileName: getCargoCrateFileName(info.name, info.version),
+          verifyFile: (downloaded) => verifyFileChecksum(downloaded, checksum, 'sha256'),
+          verificationFailureMessage: `체크섬 검증 실패 (sha256): ${info.name}@${info.version}`,
+        },
+        onProgress
+      );
+
+      logger.info('Cargo crate 다운로드 완료', { crate: info.name, version: info.version, filePath });
+      return filePath;
+    } catch (error) {
+      logger.error('Cargo crate 다운로드 실패', { crate: info.name, version: info.version, error });
+      throw error;
+    }
+  }
+
+  /**
+   * 캐시 초기화
+   */
+  clearCache(): void {
+    clearCargoCache();
+  }
+
+  private getDownloadUrl(name: string, version: string): string {
+    return `${this.downloadUrl}/${name}/${getCargoCrateFileName(name, version)}`;
+  }
+}
+
+// 싱글톤 인스턴스
+let cargoDownloaderInstance: CargoDownloader | null = null;
+
+export function getCargoDownloader(): CargoDownloader {
+  if (!cargoDownloaderInstance) {
+    cargoDownloaderInstance = new CargoDownloader();
+  }
+  return cargoDownloaderInstance;
+}
+
+export { cargoDownloaderInstance };
@@ -5,8 +5,13 @@ import {
   getRegistryType,
   createCustomRegistryConfig,
 } from './docker-utils';
-import { AuthStrategyRegistry, defaultAuthStrategyRegistry } from './docker-auth-strategies';
+import {
+  AuthStrategyRegistry,
+  defaultAuthStrategyRegistry,
+  RegistryScopeAction,
+} from './docker-auth-strategies';
 import { DOCKER_CONSTANTS } from '../constants/docker';
+import { getRegistryMirrors } from '../shared/registry-mirrors';
 
 /**
  * 캐시된 토큰 정보
@@ -64,9 +69,17 @@ export class DockerAuthClient {
    * 레지스트리별 토큰 획득
    *
    * Strategy Pattern을 사용하여 레지스트리 타입에 맞는 인증 전략 선택
+   *
+   * @param actions 요청할 권한 (기본값: pull, 이미지 업로드 시 ['pull', 'push'])
    */
-  async getTokenForRegistry(registry: string, repository: string): Promise<string> {
-    const cacheKey = `${registry}:${repository}`;
+  async getTokenForRegistry(
+    registry: string,
+    repository: string,
+    actions: RegistryScopeAction[] = ['pull']
+  ): Promise<string> {
+    const actionKey = actions.join(',');
+    const cacheKey =
+      actionKey === 'pull' ? `${registry}:${repository}` : `${registry}:${repository}:${actionKey}`;
     const cached = this.tokenCache.get(cacheKey);
 
     if (cached && cached.expires > Date.now()) {
@@ -76,10 +89,15 @@ export class DockerAuthClient {
     const config = this.getRegistryConfig(registry);
     const registryType = getRegistryType(registry);
 
+    // Docker Hub 미러를 쓰면 auth.docker.io 토큰 대신 미러 인증(registry-mirrors)으로 받는다
+    if (registryType === 'docker.io' && actionKey === 'pull' && getRegistryMirrors().docker?.length) {
+      return '';
+    }
+
     try {
       // Strategy Pattern: 레지스트리 타입에 맞는 전략 선택 및 실행
       const strategy = this.strategyRegistry.getStrategy(registryType);
-      const result = await strategy.getToken(config, repository);
+      const result = await strategy.getToken(config, repository, actions);
 
       const expires = Date.now() + (result.expiresIn - DOCKER_CONSTANTS.TOKEN_REFRESH_BUFFER_SEC) * 1000;
       this.tokenCache.set(cacheKey, { token: result.token, expires });
@@ -14,6 +14,8 @@ import { RegistryConfig, RegistryType, REGISTRY_CONFIGS, createCustomRegistryCon
  */
 export interface TokenResponse {
   token: string;
+  /** OAuth2 호환 토큰 서버(Harbor 등)가 token 대신 돌려주는 필드 */
+  access_token?: string;
   expires_in?: number;
 }
 
@@ -25,6 +27,11 @@ export interface AuthResult {
   expiresIn: number; // 초 단위
 }
 
+/**
+ * 저장소 권한 범위 액션
+ */
+export type RegistryScopeAction = 'pull' | 'push';
+
 /**
  * Registry 인증 전략 인터페이스
  */
@@ -32,8 +39,82 @@ export interface RegistryAuthStrategy {
   /** 이 전략이 적용 가능한 레지스트리 타입인지 확인 */
   isApplicable(registryType: RegistryType): boolean;
 
-  /** 토큰 획득 */
-  getToken(config: RegistryConfig, repository: string): Promise<AuthResult>;
+  /** 토큰 획득 (actions 기본값: pull) */
+  getToken(
+    config: RegistryConfig,
+    repository: string,
+    actions?: RegistryScopeAction[]
+  ): Promise<AuthResult>;
+}
+
+/**
+ * 저장소 권한 범위 문자열 생성 (예: repository:library/nginx:pull,push)
+ */
+export function buildRepositoryScope(
+  repository: string,
+  actions: RegistryScopeAction[] = ['pull']
+): string {
+  return repository ? `repository:${repository}:${actions.join(',')}` : '';
+}
+
+/**
+ * WWW-Authenticate 인증 요구 (Bearer는 토큰 발급 위치, Basic은 사용자/비밀번호 요구)
+ */
+export interface AuthChallenge {
+  scheme: 'bearer' | 'basic';
+  realm?: string;
+  service?: string;
+  scope?: string;
+}
+
+/**
+ * WWW-Authenticate 헤더 파싱 (예: Bearer realm="https://auth/token",service="registry")
+ */
+export function parseAuthChallenge(header: string | undefined): AuthChallenge | null {
+  const match = header?.match(/^\s*(Bearer|Basic)\b(.*)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(/(\w+)="([^"]*)"/g)) {
+    params[key.toLowerCase()] = value;
+  }
+  return {
+    scheme: match[1].toLowerCase() as AuthChallenge['scheme'],
+    realm: params.realm,
+    service: params.service,
+    scope: params.scope,
+  };
+}
+
+/**
+ * Bearer 인증 요구의 realm에서 토큰 발급
+ *
+ * @param authorization 토큰 서버에 보낼 인증 (로그인이 필요한 레지스트리의 Basic 인증)
+ */
+export async function requestChallengeToken(
+  challenge: AuthChallenge,
+  scope: string,
+  fallbackService?: string,
+  authorization?: string
+): Promise<AuthResult> {
+  if (!challenge.realm) {
+    throw new Error('WWW-Authenticate header has no realm');
+  }
+
+  const response = await axios.get<TokenResponse>(challenge.realm, {
+    params: {
+      service: challenge.service || fallbackService,
+      scope,
+    },
+    ...(authorization && { headers: { Authorization: authorization } }),
+  });
+
+  return {
+    token: response.data.token || response.data.access_token || '',
+    expiresIn: response.data.expires_in || 300,
+  };
 }
 
 /**
@@ -44,11 +125,15 @@ export class DockerHubAuthStrategy implements RegistryAuthStrategy {
     return registryType === 'docker.io';
   }
 
-  async getToken(config: RegistryConfig, repository: string): Promise<AuthResult> {
+  async getToken(
+    config: RegistryConfig,
+    repository: string,
+    actions?: RegistryScopeAction[]
+  ): Promise<AuthResult> {
     const response = await axios.get<TokenResponse>(`${config.authUrl}/token`, {
       params: {
         service: config.service,
-        scope: repository ? `repository:${repository}:pull` : '',
+        scope: buildRepositoryScope(repository, actions),
       },
     });
 
@@ -67,11 +152,15 @@ export class GHCRAuthStrategy implements RegistryAuthStrategy {
     return registryType === 'ghcr.io';
   }
 
-  async getToken(config: RegistryConfig, repository: string): Promise<AuthResult> {
+  async getToken(
+    config: RegistryConfig,
+    repository: string,
+    actions?: RegistryScopeAction[]
+  ): Promise<AuthResult> {
     const response = await axios.get<TokenResponse>(config.authUrl, {
       params: {
         service: config.service,
-        scope: repository ? `repository:${repository}:pull` : '',
+        scope: buildRepositoryScope(repository, actions),
       },
     });
 
@@ -90,11 +179,15 @@ export class ECRAuthStrategy implements RegistryAuthStrategy {
     return registryType === 'ecr';
   }
 
-  async getToken(config: RegistryConfig, repository: string): Promise<AuthResult> {
+  async getToken(
+    config: RegistryConfig,
+    repository: string,
+    actions?: RegistryScopeAction[]
+  ): Promise<AuthResult> {
     const response = await axios.get<TokenResponse>(config.authUrl, {
       params: {
         service: config.service,
-        scope: repository ? `repository:${repository}:pull` : '',
+        scope: buildRepositoryScope(repository, actions),
       },
     });
 
@@ -114,34 +207,20 @@ export class QuayAuthStrategy implements RegistryAuthStrategy {
     return registryType === 'quay.io';
   }
 
-  async getToken(config: RegistryConfig, repository: string): Promise<AuthResult> {
+  async getToken(
+    config: RegistryConfig,
+    repository: string,
+    actions?: RegistryScopeAction[]
+  ): Promise<AuthResult> {
     try {
       // 401 응답에서 WWW-Authenticate 헤더 파싱
       const authResponse = await axios.get(`${config.registryUrl}/`, {
         validateStatus: (status) => status === 401,
       });
 
-      const wwwAuth = authResponse.headers['www-authenticate'];
-      if (wwwAuth) {
-        const realmMatch = wwwAuth.match(/realm="([^"]+)"/);
-        const serviceMatch = wwwAuth.match(/service="([^"]+)"/);
-
-        if (realmMatch) {
-          const realm = realmMatch[1];
-          const service = serviceMatch?.[1] || config.service;
-
-          const tokenResponse = await axios.get<TokenResponse>(realm, {
-            params: {
-              service,
-              scope: repository ? `repository:${repository}:pull` : '',
-            },
-          });
-
-          return {
-            token: tokenResponse.data.token,
-            expiresIn: tokenResponse.data.expires_in || 300,
-          };
-        }
+      const challenge = parseAuthChallenge(authResponse.headers['www-authenticate']);
+      if (challenge?.realm) {
+        return await requestChallengeToken(challenge, buildRepositoryScope(repository, actions), config.service);
       }
 
       // Public 이미지의 경우 토큰 없이 접근 가능
@@ -155,25 +234,31 @@ export class QuayAuthStrategy implements RegistryAuthStrategy {
 
 /**
  * 커스텀 레지스트리 인증 전략 (기본/폴백)
+ *
+ * registry:2, Harbor, Nexus 등은 `/v2/`의 401 응답 WWW-Authenticate로 토큰 발급 위치를 알려준다.
+ * 인증이 없거나 Basic 인증인 레지스트리는 토큰 없이 접근하고, 이후 401은 호출한 쪽이 인증 정보로 처리한다.
  */
 export class CustomRegistryAuthStrategy implements RegistryAuthStrategy {
   isApplicable(registryType: RegistryType): boolean {
     return registryType === 'custom';
   }
 
-  async getToken(config: RegistryConfig, repository: string): Promise<AuthResult> {
+  async getToken(
+    config: RegistryConfig,
+    repository: string,
+    actions?: RegistryScopeAction[]
+  ): Promise<AuthResult> {
     try {
-      const response = await axios.get<TokenResponse>(config.authUrl, {
-        params: {
-          service: config.service,
-          scope: repository ? `repository:${repository}:pull` : '',
-        },
+      const probe = await axios.get(`${config.registryUrl}/`, {
+        validateStatus: (status) => status === 200 || status === 401,
       });
 
-      return {
-        token: response.data.token,
-        expiresIn: response.data.expires_in || 300,
-      };
+      const challenge = parseAuthChallenge(probe.headers['www-authenticate']);
+      if (probe.status === 401 && challenge?.scheme === 'bearer' && challenge.realm) {
+        return await requestChallengeToken(challenge, buildRepositoryScope(repository, actions), config.service);
+      }
+
+      return { token: '', expiresIn: 300 };
     } catch (error) {
       // 인증 없이 접근 시도 (private registry에서 anonymous 허용 시)
       logger.debug('커스텀 레지스트리 토큰 획득 실패, anonymous 접근 시도', { error });
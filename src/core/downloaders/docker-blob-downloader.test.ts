@@ -0,0 +1,108 @@
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import axios from 'axios';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DockerBlobDownloader } from './docker-blob-downloader';
+import type { DockerAuthClient } from './docker-auth-client';
+
+vi.mock('axios', () => ({
+  default: vi.fn(),
+}));
+
+const REGISTRY_URL = 'https://registry.example.test/v2';
+
+function sha256Digest(content: string): string {
+  return `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+}
+
+describe('DockerBlobDownloader', () => {
+  const authClient = {
+    getRegistryConfig: () => ({ registryUrl: REGISTRY_URL }),
+  } as unknown as DockerAuthClient;
+  const headPackage = vi.fn();
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-docker-blob-'));
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.remove(tempDir);
+  });
+
+  async function writePartial(destPath: string, url: string, content: string): Promise<void> {
+    await fs.writeFile(`${destPath}.part`, content);
+    await fs.writeJson(`${destPath}.part.json`, { url, etag: '"v1"', bytesReceived: content.length });
+  }
+
+  function mockBlobResponse(status: number, headers: Record<string, string>, content: string): void {
+    const stream = new PassThrough();
+    vi.mocked(axios).mockResolvedValue({ status, headers, data: stream } as never);
+    setImmediate(() => stream.end(Buffer.from(content)));
+  }
+
+  it('남은 .part가 있으면 레지스트리 인증으로 HEAD를 확인하고 Range로 나머지만 받아 다이제스트를 검증해야 함', async () => {
+    const digest = sha256Digest('first-second');
+    const url = `${REGISTRY_URL}/library/nginx/blobs/${digest}`;
+    const destPath = path.join(tempDir, 'layer.tar');
+    await writePartial(destPath, url, 'first-');
+    headPackage.mockResolvedValue({ url, status: 200, etag: '"v1"', contentLength: 12, headers: {} });
+    mockBlobResponse(206, { 'content-length': '6', 'content-range': 'bytes 6-11/12', etag: '"v1"' }, 'second');
+    const onChunk = vi.fn();
+
+    await new DockerBlobDownloader(authClient, { headPackage }).downloadBlob(
+      'library/nginx',
+      digest,
+      destPath,
+      'token-123',
+      'docker.io',
+      onChunk
+    );
+
+    expect(headPackage).toHaveBeenCalledWith(expect.objectContaining({
+      url,
+      headers: { Authorization: 'Bearer token-123' },
+    }));
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({
+      url,
+      headers: { Authorization: 'Bearer token-123', Range: 'bytes=6-' },
+    }));
+    expect(await fs.readFile(destPath, 'utf8')).toBe('first-second');
+    expect(onChunk.mock.calls.reduce((sum, [bytes]) => sum + bytes, 0)).toBe(12);
+    expect(await fs.readdir(tempDir)).toEqual(['layer.tar']);
+  });
+
+  it('이어받은 블롭의 다이제스트가 맞지 않으면 파일을 지우고 실패해야 함', async () => {
+    const digest = sha256Digest('expected-content');
+    const url = `${REGISTRY_URL}/library/nginx/blobs/${digest}`;
+    const destPath = path.join(tempDir, 'layer.tar');
+    await writePartial(destPath, url, 'stale-');
+    headPackage.mockResolvedValue({ url, status: 200, etag: '"v1"', headers: {} });
+    mockBlobResponse(206, { 'content-length': '4', 'content-range': 'bytes 6-9/10' }, 'data');
+
+    await expect(
+      new DockerBlobDownloader(authClient, { headPackage }).downloadBlob('library/nginx', digest, destPath, '')
+    ).rejects.toThrow(`Blob 체크섬 검증 실패: ${digest}`);
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+
+  it('이미지 tar에는 다운로드 중 파일을 넣지 않아야 함', async () => {
+    const sourceDir = path.join(tempDir, 'image');
+    await fs.outputFile(path.join(sourceDir, 'manifest.json'), '[]');
+    await fs.outputFile(path.join(sourceDir, 'blobs', 'sha256', 'abc'), 'blob');
+    await fs.outputFile(path.join(sourceDir, 'blobs', 'sha256', 'def.part'), 'partial');
+    await fs.outputFile(path.join(sourceDir, 'blobs', 'sha256', 'def.part.json'), '{}');
+    const tarPath = path.join(tempDir, 'image.tar');
+
+    await new DockerBlobDownloader(authClient, { headPackage }).createImageTar(sourceDir, tarPath);
+
+    const entries: string[] = [];
+    await tar.list({ file: tarPath, onReadEntry: (entry) => entries.push(entry.path) });
+    expect(entries.filter((entry) => !entry.endsWith('/')).sort()).toEqual(['blobs/sha256/abc', 'manifest.json']);
+  });
+});
@@ -10,6 +10,17 @@ import * as fs from 'fs-extra';
 import * as tar from 'tar';
 import { DockerAuthClient } from './docker-auth-client';
 import { calculateSha256 } from './docker-utils';
+import { FetchApiPackageFetchPort } from '../ports/fetch-api-package-fetch-port';
+import {
+  completePartialDownload,
+  getPartialDownloadPath,
+  getResumeOffset,
+  isPartialDownloadPath,
+  isResumedResponse,
+  writePartialDownloadState,
+} from '../shared/resumable-download';
+import { getTransferLimiter } from '../shared/transfer-limiter';
+import type { PackageFetchPort } from '../ports/package-fetch-port';
 
 /**
  * Blob 다운로드 진행률 콜백
@@ -22,11 +33,20 @@ export type BlobProgressCallback = (bytes: number) => void;
  * Registry에서 Blob 다운로드, 체크섬 검증, tar 패키징
  */
 export class DockerBlobDownloader {
-  constructor(private authClient: DockerAuthClient) {}
+  /**
+   * @param packageFetchPort 이어받기 전 블롭의 ETag/Last-Modified 확인에 사용
+   */
+  constructor(
+    private authClient: DockerAuthClient,
+    private packageFetchPort: Pick<PackageFetchPort, 'headPackage'> = new FetchApiPackageFetchPort()
+  ) {}
 
   /**
    * Blob 다운로드
    *
+   * `<파일>.part`에 받은 뒤 완료되면 최종 경로로 옮긴다. 이전 시도가 남긴 `.part`가 있고
+   * 블롭이 그대로면 HTTP Range로 나머지만 받으며, 이어받은 경우에도 전체 파일의 다이제스트를 검증한다.
+   *
    * @param repository 저장소 (예: library/nginx)
    * @param digest 다이제스트 (sha256:xxx)
    * @param destPath 저장 경로
@@ -49,33 +69,81 @@ export class DockerBlobDownloader {
       headers.Authorization = `Bearer ${token}`;
     }
 
+    const url = `${config.registryUrl}/${repository}/blobs/${digest}`;
+
+    await getTransferLimiter().withHostSlot(url, () => this.transferBlob(url, destPath, headers, onChunk));
+    await completePartialDownload(destPath);
+
+    // 체크섬 검증
+    const expectedHash = digest.replace('sha256:', '');
+    const isValid = await this.verifyChecksum(destPath, expectedHash);
+
+    if (!isValid) {
+      await fs.remove(destPath);
+      throw new Error(`Blob 체크섬 검증 실패: ${digest}`);
+    }
+  }
+
+  /**
+   * 블롭을 `.part` 파일로 받는다 (전송 속도 제한 적용)
+   *
+   * HEAD 확인에도 같은 인증 헤더를 보내야 인증이 필요한 레지스트리에서 이어받을 수 있다.
+   */
+  private async transferBlob(
+    url: string,
+    destPath: string,
+    headers: Record<string, string>,
+    onChunk?: BlobProgressCallback
+  ): Promise<void> {
+    const offset = await getResumeOffset(destPath, url, this.packageFetchPort, undefined, headers);
     const response = await axios({
       method: 'GET',
-      url: `${config.registryUrl}/${repository}/blobs/${digest}`,
+      url,
       responseType: 'stream',
-      headers,
+      headers: {
+        ...headers,
+        ...(offset > 0 && { Range: `bytes=${offset}-` }),
+      },
     });
 
-    const writer = fsNative.createWriteStream(destPath);
+    const resumed = isResumedResponse(response.status, response.headers['content-range'], offset);
+    const startBytes = resumed ? offset : 0;
+    const contentLength = parseInt(response.headers['content-length'] || '0', 10);
+    let bytesReceived = startBytes;
 
-    response.data.on('data', (chunk: Buffer) => {
-      if (onChunk) onChunk(chunk.length);
-    });
+    const state = {
+      url,
+      etag: response.headers.etag as string | undefined,
+      lastModified: response.headers['last-modified'] as string | undefined,
+      ...(contentLength > 0 && { totalBytes: startBytes + contentLength }),
+    };
+    await writePartialDownloadState(destPath, { ...state, bytesReceived });
 
-    response.data.pipe(writer);
+    // 이어받은 부분도 진행률에 반영
+    if (startBytes > 0 && onChunk) onChunk(startBytes);
 
-    await new Promise<void>((resolve, reject) => {
-      writer.on('finish', resolve);
-      writer.on('error', reject);
-    });
+    const writer = fsNative.createWriteStream(getPartialDownloadPath(destPath), { flags: resumed ? 'a' : 'w' });
 
-    // 체크섬 검증
-    const expectedHash = digest.replace('sha256:', '');
-    const isValid = await this.verifyChecksum(destPath, expectedHash);
+    response.data.on('data', (chunk: Buffer) => {
+      bytesReceived += chunk.length;
+      if (onChunk) onChunk(chunk.length);
+    });
 
-    if (!isValid) {
-      await fs.remove(destPath);
-      throw new Error(`Blob 체크섬 검증 실패: ${digest}`);
+    response.data.pipe(getTransferLimiter().createThrottleStream()).pipe(writer);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        writer.on('finish', resolve);
+        writer.on('error', reject);
+        // 전송 중 연결이 끊기면 pipe가 오류를 넘기지 않으므로 직접 처리
+        response.data.on('error', (error: Error) => {
+          writer.end();
+          reject(error);
+        });
+      });
+    } catch (error) {
+      await writePartialDownloadState(destPath, { ...state, bytesReceived }).catch(() => undefined);
+      throw error;
     }
   }
 
@@ -103,6 +171,8 @@ export class DockerBlobDownloader {
       {
         file: tarPath,
         cwd: sourceDir,
+        // 실패한 이전 시도가 남긴 다운로드 중 파일은 묶지 않는다
+        filter: (entryPath) => !isPartialDownloadPath(entryPath),
       },
       await fs.readdir(sourceDir)
     );
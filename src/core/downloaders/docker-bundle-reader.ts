@@ -0,0 +1,255 @@
+/**
+ * Docker Bundle Reader
+ *
+ * DockerDownloader가 만든 번들(docker-archive tar, OCI 레이아웃 tar 또는 디렉토리)을 읽어
+ * 레지스트리 업로드에 필요한 매니페스트와 블롭 경로를 제공
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+import { DockerOutputFormat } from '../../types';
+import { CONTAINERD_IMAGE_NAME_ANNOTATION, OCI_REF_NAME_ANNOTATION } from './docker-oci-layout';
+import { DockerBundleImage, DockerManifest, DockerManifestDocument, OciIndex } from './docker-types';
+import { calculateSha256, extractRegistry } from './docker-utils';
+
+/** Docker 이미지 매니페스트 v2 미디어 타입 */
+const DOCKER_MANIFEST_MEDIA_TYPE = 'application/vnd.docker.distribution.manifest.v2+json';
+const DOCKER_CONFIG_MEDIA_TYPE = 'application/vnd.docker.container.image.v1+json';
+const DOCKER_LAYER_GZIP_MEDIA_TYPE = 'application/vnd.docker.image.rootfs.diff.tar.gzip';
+const DOCKER_LAYER_TAR_MEDIA_TYPE = 'application/vnd.docker.image.rootfs.diff.tar';
+
+/**
+ * docker load 형식 manifest.json 엔트리
+ */
+interface DockerArchiveManifestEntry {
+  Config: string;
+  RepoTags?: string[];
+  Layers: string[];
+}
+
+/**
+ * 열린 번들
+ */
+export interface DockerBundle {
+  format: DockerOutputFormat;
+  images: DockerBundleImage[];
+  /** 다이제스트 → 블롭 파일 경로 */
+  blobs: Map<string, string>;
+}
+
+/**
+ * 매니페스트 리스트/OCI 인덱스 여부
+ */
+export function isManifestIndex(manifest: DockerManifest): boolean {
+  return Array.isArray(manifest.manifests);
+}
+
+/**
+ * 이미지 참조를 저장소와 태그로 분리 (레지스트리 호스트는 제외)
+ *
+ * @param reference 예: library/nginx:1.27, ghcr.io/org/app:v1
+ */
+export function parseBundleImageReference(reference: string): { repository: string; tag: string } {
+  const lastSlash = reference.lastIndexOf('/');
+  const tagSeparator = reference.lastIndexOf(':');
+  const hasTag = tagSeparator > lastSlash;
+  const name = hasTag ? reference.slice(0, tagSeparator) : reference;
+  const tag = hasTag ? reference.slice(tagSeparator + 1) : 'latest';
+  const { registry, imageName } = extractRegistry(name);
+
+  return { repository: registry ? imageName : name, tag };
+}
+
+/**
+ * Docker 번들 리더
+ *
+ * tar 번들은 임시 디렉토리에 풀어서 읽으며, close()에서 정리한다.
+ */
+export class DockerBundleReader {
+  private extractedDir: string | null = null;
+
+  /**
+   * 번들 열기
+   *
+   * @param bundlePath `.tar`/`.oci.tar` 파일 또는 OCI 레이아웃/docker-archive를 푼 디렉토리
+   */
+  async open(bundlePath: string): Promise<DockerBundle> {
+    const rootDir = await this.resolveRootDir(bundlePath);
+
+    if (await fs.pathExists(path.join(rootDir, 'oci-layout'))) {
+      return this.readOciLayout(rootDir);
+    }
+    if (await fs.pathExists(path.join(rootDir, 'manifest.json'))) {
+      return this.readDockerArchive(rootDir);
+    }
+
+    throw new Error(`Docker 번들 형식을 인식할 수 없습니다: ${bundlePath}`);
+  }
+
+  /**
+   * 임시로 풀어둔 번들 정리
+   */
+  async close(): Promise<void> {
+    if (this.extractedDir) {
+      await fs.remove(this.extractedDir);
+      this.extractedDir = null;
+    }
+  }
+
+  /**
+   * 번들 루트 디렉토리 결정 (tar면 임시 디렉토리에 해제)
+   */
+  private async resolveRootDir(bundlePath: string): Promise<string> {
+    const stat = await fs.stat(bundlePath);
+    if (stat.isDirectory()) {
+      return bundlePath;
+    }
+
+    await this.close();
+    this.extractedDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-docker-bundle-'));
+    await tar.x({ file: bundlePath, cwd: this.extractedDir });
+    return this.extractedDir;
+  }
+
+  /**
+   * OCI 이미지 레이아웃 읽기
+   */
+  private async readOciLayout(rootDir: string): Promise<DockerBundle> {
+    const blobDir = path.join(rootDir, 'blobs', 'sha256');
+    const blobs = new Map<string, string>();
+    for (const name of await fs.readdir(blobDir)) {
+      blobs.set(`sha256:${name}`, path.join(blobDir, name));
+    }
+
+    const index = (await fs.readJson(path.join(rootDir, 'index.json'))) as OciIndex;
+    const images: DockerBundleImage[] = [];
+
+    for (const descriptor of index.manifests) {
+      const root = await this.readManifestBlob(blobs, descriptor.digest, descriptor.mediaType);
+      const children: DockerManifestDocument[] = [];
+
+      for (const entry of root.manifest.manifests ?? []) {
+        if (blobs.has(entry.digest)) {
+          children.push({
+            ...(await this.readManifestBlob(blobs, entry.digest, entry.mediaType)),
+            platform: entry.platform,
+          });
+        }
+      }
+
+      const annotations = descriptor.annotations ?? {};
+      const reference =
+        annotations[CONTAINERD_IMAGE_NAME_ANNOTATION] ??
+        annotations[OCI_REF_NAME_ANNOTATION] ??
+        'latest';
+      // ref.name만 있는 경우 태그만 기록되어 있으므로 저장소는 호출자가 지정해야 한다
+      const { repository, tag } = annotations[CONTAINERD_IMAGE_NAME_ANNOTATION]
+        ? parseBundleImageReference(reference)
+        : { repository: '', tag: reference };
+
+      images.push({ repository, tag, root, children });
+    }
+
+    return { format: 'oci-layout', images, blobs };
+  }
+
+  /**
+   * docker load 형식 tar 읽기
+   *
+   * 원본 매니페스트가 없으므로 config/레이어 파일로 Docker 매니페스트 v2를 재구성한다.
+   * config와 레이어는 레지스트리 원본 블롭 그대로 저장되어 있어 다이제스트가 유지된다.
+   */
+  private async readDockerArchive(rootDir: string): Promise<DockerBundle> {
+    const entries = (await fs.readJson(
+      path.join(rootDir, 'manifest.json')
+    )) as DockerArchiveManifestEntry[];
+    const blobs = new Map<string, string>();
+    const images: DockerBundleImage[] = [];
+
+    for (const entry of entries) {
+      const config = await this.describeFile(path.join(rootDir, entry.Config), blobs);
+      const layers = [];
+      for (const layerFile of entry.Layers) {
+        const layerPath = path.join(rootDir, layerFile);
+        const layer = await this.describeFile(layerPath, blobs);
+        layers.push({
+          mediaType: (await this.isGzipFile(layerPath))
+            ? DOCKER_LAYER_GZIP_MEDIA_TYPE
+            : DOCKER_LAYER_TAR_MEDIA_TYPE,
+          ...layer,
+        });
+      }
+
+      const manifest: DockerManifest = {
+        schemaVersion: 2,
+        mediaType: DOCKER_MANIFEST_MEDIA_TYPE,
+        config: { mediaType: DOCKER_CONFIG_MEDIA_TYPE, ...config },
+        layers,
+      };
+      const raw = Buffer.from(JSON.stringify(manifest, null, 3));
+      const { repository, tag } = parseBundleImageReference(entry.RepoTags?.[0] ?? '');
+
+      images.push({
+        repository,
+        tag,
+        root: {
+          manifest,
+          raw,
+          digest: `sha256:${crypto.createHash('sha256').update(raw).digest('hex')}`,
+          mediaType: DOCKER_MANIFEST_MEDIA_TYPE,
+        },
+        children: [],
+      });
+    }
+
+    return { format: 'docker-archive', images, blobs };
+  }
+
+  /**
+   * 블롭에 저장된 매니페스트 읽기
+   */
+  private async readManifestBlob(
+    blobs: Map<string, string>,
+    digest: string,
+    mediaType: string
+  ): Promise<DockerManifestDocument> {
+    const blobPath = blobs.get(digest);
+    if (!blobPath) {
+      throw new Error(`번들에 매니페스트 블롭이 없습니다: ${digest}`);
+    }
+
+    const raw = await fs.readFile(blobPath);
+    const manifest = JSON.parse(raw.toString('utf-8')) as DockerManifest;
+    return { manifest, raw, digest, mediaType: manifest.mediaType || mediaType };
+  }
+
+  /**
+   * 파일 다이제스트/크기 계산 후 블롭 목록에 등록
+   */
+  private async describeFile(
+    filePath: string,
+    blobs: Map<string, string>
+  ): Promise<{ digest: string; size: number }> {
+    const digest = `sha256:${await calculateSha256(filePath)}`;
+    const { size } = await fs.stat(filePath);
+    blobs.set(digest, filePath);
+    return { digest, size };
+  }
+
+  /**
+   * gzip 매직 바이트 확인
+   */
+  private async isGzipFile(filePath: string): Promise<boolean> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(2);
+      const { bytesRead } = await fs.read(handle, header, 0, 2, 0);
+      return bytesRead === 2 && header[0] === 0x1f && header[1] === 0x8b;
+    } finally {
+      await fs.close(handle);
+    }
+  }
+}
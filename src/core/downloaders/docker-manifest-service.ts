@@ -5,8 +5,17 @@
  */
 
 import axios from 'axios';
-import { DockerManifest, DockerManifestEntry } from './docker-types';
+import * as crypto from 'crypto';
+import { DockerManifest, DockerManifestDocument, DockerManifestEntry } from './docker-types';
 import { DockerAuthClient } from './docker-auth-client';
+import { DockerPlatform } from './docker-utils';
+
+const MANIFEST_ACCEPT_TYPES = [
+  'application/vnd.docker.distribution.manifest.v2+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.oci.image.index.v1+json',
+];
 
 /**
  * Docker 매니페스트 서비스
@@ -31,27 +40,54 @@ export class DockerManifestService {
     registry: string = 'docker.io'
   ): Promise<DockerManifest> {
     const config = this.authClient.getRegistryConfig(registry);
-    const headers: Record<string, string> = {
-      Accept: [
-        'application/vnd.docker.distribution.manifest.v2+json',
-        'application/vnd.docker.distribution.manifest.list.v2+json',
-        'application/vnd.oci.image.manifest.v1+json',
-        'application/vnd.oci.image.index.v1+json',
-      ].join(', '),
-    };
-
-    if (token) {
-      headers.Authorization = `Bearer ${token}`;
-    }
-
     const response = await axios.get<DockerManifest>(
       `${config.registryUrl}/${repository}/manifests/${reference}`,
-      { headers }
+      { headers: this.buildHeaders(token) }
     );
 
     return response.data;
   }
 
+  /**
+   * 원본 바이트를 유지한 매니페스트 조회
+   *
+   * 재직렬화하면 다이제스트가 달라지므로 레지스트리 응답 바이트를 그대로 보관한다.
+   * reference가 다이제스트인 경우 응답 바이트의 해시와 일치하는지 검증한다.
+   *
+   * @param repository 저장소 (예: library/nginx)
+   * @param reference 태그 또는 다이제스트
+   * @param token 인증 토큰
+   * @param registry 레지스트리 (기본값: docker.io)
+   */
+  async getManifestDocument(
+    repository: string,
+    reference: string,
+    token: string,
+    registry: string = 'docker.io'
+  ): Promise<DockerManifestDocument> {
+    const config = this.authClient.getRegistryConfig(registry);
+    const response = await axios.get<ArrayBuffer>(
+      `${config.registryUrl}/${repository}/manifests/${reference}`,
+      { headers: this.buildHeaders(token), responseType: 'arraybuffer' }
+    );
+
+    const raw = Buffer.from(response.data);
+    const digest = `sha256:${crypto.createHash('sha256').update(raw).digest('hex')}`;
+    if (reference.startsWith('sha256:') && reference !== digest) {
+      throw new Error(`매니페스트 다이제스트 불일치: 요청 ${reference}, 수신 ${digest}`);
+    }
+
+    const manifest = JSON.parse(raw.toString('utf-8')) as DockerManifest;
+    const contentType = String(response.headers?.['content-type'] ?? '').split(';')[0].trim();
+
+    return {
+      manifest,
+      raw,
+      digest,
+      mediaType: manifest.mediaType || contentType || 'application/vnd.oci.image.manifest.v1+json',
+    };
+  }
+
   /**
    * 멀티 아키텍처 매니페스트에서 특정 아키텍처 매니페스트 찾기
    *
@@ -74,6 +110,31 @@ export class DockerManifestService {
     });
   }
 
+  /**
+   * 멀티 아키텍처 매니페스트에서 여러 플랫폼 매니페스트 선택
+   *
+   * 같은 매니페스트를 가리키는 플랫폼은 한 번만 반환하며, 하나라도 없으면 에러를 던진다.
+   *
+   * @param manifest 매니페스트 리스트 또는 OCI 인덱스
+   * @param platforms 선택할 플랫폼 목록
+   */
+  selectPlatformEntries(
+    manifest: DockerManifest,
+    platforms: DockerPlatform[]
+  ): DockerManifestEntry[] {
+    const selected = new Map<string, DockerManifestEntry>();
+
+    for (const platform of platforms) {
+      const entry = this.findArchitectureManifest(manifest, platform.architecture, platform.variant);
+      if (!entry) {
+        throw this.createUnsupportedArchitectureError(manifest, platform.architecture, platform.variant);
+      }
+      selected.set(entry.digest, entry);
+    }
+
+    return [...selected.values()];
+  }
+
   /**
    * 특정 아키텍처의 매니페스트 조회
    *
@@ -101,12 +162,7 @@ export class DockerManifestService {
       const archManifest = this.findArchitectureManifest(manifest, arch, variant);
 
       if (!archManifest) {
-        const available = manifest.manifests.map(
-          (m) => `${m.platform.os}/${m.platform.architecture}${m.platform.variant ? `/${m.platform.variant}` : ''}`
-        );
-        throw new Error(
-          `아키텍처 ${arch}${variant ? `/${variant}` : ''}를 지원하지 않습니다. 지원 아키텍처: ${available.join(', ')}`
-        );
+        throw this.createUnsupportedArchitectureError(manifest, arch, variant);
       }
 
       manifest = await this.getManifest(repository, archManifest.digest, token, registry);
@@ -114,4 +170,76 @@ export class DockerManifestService {
 
     return manifest;
   }
+
+  /**
+   * 특정 아키텍처의 원본 매니페스트 조회
+   *
+   * getManifestForArchitecture와 동일하게 플랫폼을 선택하되,
+   * 원본 바이트와 다이제스트를 함께 반환한다.
+   *
+   * @param repository 저장소
+   * @param reference 태그 또는 다이제스트
+   * @param token 인증 토큰
+   * @param registry 레지스트리
+   * @param arch 아키텍처
+   * @param variant 변형 (optional)
+   */
+  async getManifestDocumentForArchitecture(
+    repository: string,
+    reference: string,
+    token: string,
+    registry: string,
+    arch: string,
+    variant?: string
+  ): Promise<DockerManifestDocument> {
+    const document = await this.getManifestDocument(repository, reference, token, registry);
+
+    if (!document.manifest.manifests) {
+      return document;
+    }
+
+    const archManifest = this.findArchitectureManifest(document.manifest, arch, variant);
+    if (!archManifest) {
+      throw this.createUnsupportedArchitectureError(document.manifest, arch, variant);
+    }
+
+    const platformDocument = await this.getManifestDocument(
+      repository,
+      archManifest.digest,
+      token,
+      registry
+    );
+    return { ...platformDocument, platform: archManifest.platform };
+  }
+
+  /**
+   * 지원하지 않는 아키텍처 에러 생성 (지원 아키텍처 목록 포함)
+   */
+  private createUnsupportedArchitectureError(
+    manifest: DockerManifest,
+    arch: string,
+    variant?: string
+  ): Error {
+    const available = (manifest.manifests ?? []).map(
+      (m) => `${m.platform.os}/${m.platform.architecture}${m.platform.variant ? `/${m.platform.variant}` : ''}`
+    );
+    return new Error(
+      `아키텍처 ${arch}${variant ? `/${variant}` : ''}를 지원하지 않습니다. 지원 아키텍처: ${available.join(', ')}`
+    );
+  }
+
+  /**
+   * 매니페스트 요청 헤더 생성
+   */
+  private buildHeaders(token: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: MANIFEST_ACCEPT_TYPES.join(', '),
+    };
+
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    return headers;
+  }
 }
@@ -0,0 +1,391 @@
+/**
+ * Docker OCI 이미지 레이아웃 테스트
+ *
+ * DockerOciLayoutWriter 단위 동작과 DockerDownloader의 oci-layout 출력 경로 검증
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const sha256 = (content: string | Buffer): string =>
+  `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+
+const {
+  mockGetManifestDocument,
+  mockGetManifestDocumentForArchitecture,
+  mockDownloadBlob,
+  mockCreateImageTar,
+} = vi.hoisted(() => ({
+  mockGetManifestDocument: vi.fn(),
+  mockGetManifestDocumentForArchitecture: vi.fn(),
+  mockDownloadBlob: vi.fn(),
+  mockCreateImageTar: vi.fn(),
+}));
+
+vi.mock('./docker-auth-client', () => ({
+  DockerAuthClient: class MockDockerAuthClient {
+    getTokenForRegistry = vi.fn().mockResolvedValue('mock-token');
+    getRegistryConfig = vi.fn();
+  },
+}));
+
+vi.mock('./docker-manifest-service', async () => {
+  const actual = await vi.importActual<typeof import('./docker-manifest-service')>(
+    './docker-manifest-service'
+  );
+  return {
+    DockerManifestService: class MockDockerManifestService extends actual.DockerManifestService {
+      getManifestDocument = mockGetManifestDocument;
+      getManifestDocumentForArchitecture = mockGetManifestDocumentForArchitecture;
+    },
+  };
+});
+
+vi.mock('./docker-blob-downloader', () => ({
+  DockerBlobDownloader: class MockDockerBlobDownloader {
+    downloadBlob = mockDownloadBlob;
+    createImageTar = mockCreateImageTar;
+  },
+}));
+
+import { DockerDownloader } from './docker';
+import {
+  CONTAINERD_IMAGE_NAME_ANNOTATION,
+  DockerOciLayoutWriter,
+  OCI_REF_NAME_ANNOTATION,
+} from './docker-oci-layout';
+
+describe('DockerOciLayoutWriter', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'depssmuggler-oci-layout-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('oci-layout 파일과 blobs/sha256 디렉토리를 생성한다', async () => {
+    const writer = new DockerOciLayoutWriter(tempDir);
+    await writer.initialize();
+
+    expect(JSON.parse(fs.readFileSync(path.join(tempDir, 'oci-layout'), 'utf-8'))).toEqual({
+      imageLayoutVersion: '1.0.0',
+    });
+    expect(fs.statSync(path.join(tempDir, 'blobs', 'sha256')).isDirectory()).toBe(true);
+  });
+
+  it('원본 바이트를 다이제스트 경로에 한 번만 기록한다', async () => {
+    const writer = new DockerOciLayoutWriter(tempDir);
+    await writer.initialize();
+    const content = Buffer.from('{"schemaVersion":2}');
+
+    const digest = await writer.writeBlobBytes(content);
+    await writer.writeBlobBytes(content);
+
+    expect(digest).toBe(sha256(content));
+    expect(await writer.hasBlob(digest)).toBe(true);
+    expect(fs.readdirSync(path.join(tempDir, 'blobs', 'sha256'))).toHaveLength(1);
+    expect(fs.readFileSync(writer.getBlobPath(digest))).toEqual(content);
+  });
+
+  it('sha256이 아닌 다이제스트는 거부한다', () => {
+    const writer = new DockerOciLayoutWriter(tempDir);
+
+    expect(() => writer.getBlobPath('sha256:../../etc/passwd')).toThrow('지원하지 않는 블롭 다이제스트');
+    expect(() => writer.getBlobPath('sha512:abc')).toThrow('지원하지 않는 블롭 다이제스트');
+  });
+
+  it('추가한 매니페스트 디스크립터로 index.json을 기록한다', async () => {
+    const writer = new DockerOciLayoutWriter(tempDir);
+    await writer.initialize();
+    writer.addManifest({
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      digest: sha256('manifest'),
+      size: 8,
+    });
+
+    await writer.writeIndex();
+
+    const index = JSON.parse(fs.readFileSync(path.join(tempDir, 'index.json'), 'utf-8'));
+    expect(index.schemaVersion).toBe(2);
+    expect(index.mediaType).toBe('application/vnd.oci.image.index.v1+json');
+    expect(index.manifests).toHaveLength(1);
+  });
+});
+
+describe('DockerDownloader - oci-layout 출력', () => {
+  let tempDir: string;
+  const configContent = '{"architecture":"arm64","os":"linux"}';
+  const layerContent = 'layer-bytes';
+  const manifestRaw = Buffer.from(
+    JSON.stringify({
+      schemaVersion: 2,
+      mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+      config: {
+        mediaType: 'application/vnd.docker.container.image.v1+json',
+        size: configContent.length,
+        digest: sha256(configContent),
+      },
+      layers: [
+        {
+          mediaType: 'application/vnd.docker.image.rootfs.diff.tar.gzip',
+          size: layerContent.length,
+          digest: sha256(layerContent),
+        },
+      ],
+    }, null, 3)
+  );
+  let capturedLayout: Record<string, string> = {};
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'depssmuggler-oci-download-'));
+    capturedLayout = {};
+    vi.clearAllMocks();
+
+    mockGetManifestDocumentForArchitecture.mockResolvedValue({
+      manifest: JSON.parse(manifestRaw.toString('utf-8')),
+      raw: manifestRaw,
+      digest: sha256(manifestRaw),
+      mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+      platform: { architecture: 'arm64', os: 'linux' },
+    });
+    mockDownloadBlob.mockImplementation(async (_repo: string, digest: string, destPath: string) => {
+      const content = digest === sha256(configContent) ? configContent : layerContent;
+      fs.writeFileSync(destPath, content);
+    });
+    mockCreateImageTar.mockImplementation(async (sourceDir: string, tarPath: string) => {
+      const walk = (dir: string): void => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+          const fullPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            walk(fullPath);
+          } else {
+            capturedLayout[path.relative(sourceDir, fullPath).split(path.sep).join('/')] =
+              fs.readFileSync(fullPath, 'utf-8');
+          }
+        }
+      };
+      walk(sourceDir);
+      fs.writeFileSync(tarPath, 'tar');
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('원본 매니페스트 다이제스트를 유지한 OCI 레이아웃 tar를 만든다', async () => {
+    const downloader = new DockerDownloader();
+
+    const tarPath = await downloader.downloadImage(
+      'nginx',
+      '1.27',
+      'arm64',
+      tempDir,
+      undefined,
+      'docker.io',
+      { outputFormat: 'oci-layout' }
+    );
+
+    expect(tarPath).toBe(path.join(tempDir, 'nginx-1.27.oci.tar'));
+    expect(mockGetManifestDocumentForArchitecture).toHaveBeenCalledWith(
+      'library/nginx',
+      '1.27',
+      'mock-token',
+      'docker.io',
+      'arm64',
+      undefined
+    );
+
+    const manifestHex = sha256(manifestRaw).slice('sha256:'.length);
+    expect(capturedLayout['oci-layout']).toBeDefined();
+    expect(capturedLayout[`blobs/sha256/${manifestHex}`]).toBe(manifestRaw.toString('utf-8'));
+    expect(capturedLayout[`blobs/sha256/${sha256(configContent).slice(7)}`]).toBe(configContent);
+    expect(capturedLayout[`blobs/sha256/${sha256(layerContent).slice(7)}`]).toBe(layerContent);
+
+    const index = JSON.parse(capturedLayout['index.json']);
+    expect(index.manifests).toEqual([
+      {
+        mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+        digest: sha256(manifestRaw),
+        size: manifestRaw.length,
+        platform: { architecture: 'arm64', os: 'linux' },
+        annotations: {
+          [OCI_REF_NAME_ANNOTATION]: '1.27',
+          [CONTAINERD_IMAGE_NAME_ANNOTATION]: 'library/nginx:1.27',
+        },
+      },
+    ]);
+    expect(fs.existsSync(path.join(tempDir, 'nginx-1.27'))).toBe(false);
+  });
+
+  it('setOutputFormat으로 downloadPackage 기본 출력 형식을 바꾼다', async () => {
+    const downloader = new DockerDownloader();
+    downloader.setOutputFormat('oci-layout');
+
+    const tarPath = await downloader.downloadPackage(
+      { type: 'docker', name: 'nginx', version: '1.27', arch: 'arm64' },
+      tempDir
+    );
+
+    expect(tarPath.endsWith('.oci.tar')).toBe(true);
+    expect(downloader.getOutputFormat()).toBe('oci-layout');
+  });
+});
+
+describe('DockerDownloader - 멀티 아키텍처 번들', () => {
+  let tempDir: string;
+  let capturedLayout: Record<string, string> = {};
+
+  const sharedLayer = 'shared-base-layer';
+  const platformImages = {
+    amd64: { config: '{"architecture":"amd64"}', layer: 'amd64-app-layer' },
+    arm64: { config: '{"architecture":"arm64"}', layer: 'arm64-app-layer' },
+  };
+  const blobContents = new Map<string, string>([
+    [sha256(sharedLayer), sharedLayer],
+    ...Object.values(platformImages).flatMap(({ config, layer }) => [
+      [sha256(config), config] as [string, string],
+      [sha256(layer), layer] as [string, string],
+    ]),
+  ]);
+
+  const buildPlatformManifest = (config: string, layer: string): Buffer =>
+    Buffer.from(
+      JSON.stringify({
+        schemaVersion: 2,
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        config: {
+          mediaType: 'application/vnd.oci.image.config.v1+json',
+          size: config.length,
+          digest: sha256(config),
+        },
+        layers: [sharedLayer, layer].map((content) => ({
+          mediaType: 'application/vnd.oci.image.layer.v1.tar+gzip',
+          size: content.length,
+          digest: sha256(content),
+        })),
+      })
+    );
+  const amd64Manifest = buildPlatformManifest(platformImages.amd64.config, platformImages.amd64.layer);
+  const arm64Manifest = buildPlatformManifest(platformImages.arm64.config, platformImages.arm64.layer);
+  const indexRaw = Buffer.from(
+    JSON.stringify({
+      schemaVersion: 2,
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      manifests: [
+        [amd64Manifest, { architecture: 'amd64', os: 'linux' }],
+        [arm64Manifest, { architecture: 'arm64', os: 'linux', variant: 'v8' }],
+        [Buffer.from('s390x'), { architecture: 's390x', os: 'linux' }],
+      ].map(([raw, platform]) => ({
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: sha256(raw as Buffer),
+        size: (raw as Buffer).length,
+        platform,
+      })),
+    })
+  );
+  const documents = new Map(
+    [indexRaw, amd64Manifest, arm64Manifest].map((raw) => [
+      sha256(raw),
+      {
+        manifest: JSON.parse(raw.toString('utf-8')),
+        raw,
+        digest: sha256(raw),
+        mediaType: JSON.parse(raw.toString('utf-8')).mediaType,
+      },
+    ])
+  );
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'depssmuggler-oci-multiarch-'));
+    capturedLayout = {};
+    vi.clearAllMocks();
+
+    mockGetManifestDocument.mockImplementation(async (_repo: string, reference: string) =>
+      documents.get(reference === '1.27' ? sha256(indexRaw) : reference)
+    );
+    mockDownloadBlob.mockImplementation(async (_repo: string, digest: string, destPath: string) => {
+      fs.writeFileSync(destPath, blobContents.get(digest) ?? '');
+    });
+    mockCreateImageTar.mockImplementation(async (sourceDir: string, tarPath: string) => {
+      capturedLayout['index.json'] = fs.readFileSync(path.join(sourceDir, 'index.json'), 'utf-8');
+      for (const name of fs.readdirSync(path.join(sourceDir, 'blobs', 'sha256'))) {
+        capturedLayout[`sha256:${name}`] = fs.readFileSync(
+          path.join(sourceDir, 'blobs', 'sha256', name),
+          'utf-8'
+        );
+      }
+      fs.writeFileSync(tarPath, 'tar');
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('원본 인덱스를 보존하고 플랫폼 간 공유 레이어는 한 번만 받는다', async () => {
+    const downloader = new DockerDownloader();
+
+    const tarPath = await downloader.downloadImage(
+      'nginx',
+      '1.27',
+      'amd64',
+      tempDir,
+      undefined,
+      'docker.io',
+      { outputFormat: 'oci-layout', platforms: ['amd64', 'arm64'] }
+    );
+
+    expect(tarPath).toBe(path.join(tempDir, 'nginx-1.27.oci.tar'));
+
+    const downloadedDigests = mockDownloadBlob.mock.calls.map((call) => call[1]);
+    expect(downloadedDigests).toHaveLength(5);
+    expect(downloadedDigests.filter((digest) => digest === sha256(sharedLayer))).toHaveLength(1);
+
+    expect(capturedLayout[sha256(indexRaw)]).toBe(indexRaw.toString('utf-8'));
+    expect(capturedLayout[sha256(amd64Manifest)]).toBe(amd64Manifest.toString('utf-8'));
+    expect(capturedLayout[sha256(arm64Manifest)]).toBe(arm64Manifest.toString('utf-8'));
+
+    const index = JSON.parse(capturedLayout['index.json']);
+    expect(index.manifests).toEqual([
+      {
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        digest: sha256(indexRaw),
+        size: indexRaw.length,
+        annotations: {
+          [OCI_REF_NAME_ANNOTATION]: '1.27',
+          [CONTAINERD_IMAGE_NAME_ANNOTATION]: 'library/nginx:1.27',
+        },
+      },
+    ]);
+  });
+
+  it('docker-archive 형식에서는 멀티 아키텍처 번들을 거부한다', async () => {
+    const downloader = new DockerDownloader();
+
+    await expect(
+      downloader.downloadImage('nginx', '1.27', 'amd64', tempDir, undefined, 'docker.io', {
+        outputFormat: 'docker-archive',
+        platforms: ['amd64', 'arm64'],
+      })
+    ).rejects.toThrow('oci-layout 출력 형식에서만 지원');
+  });
+
+  it('인덱스에 없는 플랫폼을 요청하면 지원 아키텍처 목록과 함께 실패한다', async () => {
+    const downloader = new DockerDownloader();
+
+    await expect(
+      downloader.downloadImage('nginx', '1.27', 'amd64', tempDir, undefined, 'docker.io', {
+        outputFormat: 'oci-layout',
+        platforms: ['amd64', 'arm/v7'],
+      })
+    ).rejects.toThrow('아키텍처 arm/v7를 지원하지 않습니다');
+    expect(mockDownloadBlob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Docker OCI Image Layout Writer
+ *
+ * OCI 이미지 레이아웃(oci-layout, index.json, blobs/sha256/...) 생성 담당
+ * skopeo/containerd/Podman에서 `oci:` 전송으로 그대로 사용할 수 있는 구조를 만든다.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OciDescriptor, OciIndex } from './docker-types';
+
+/** OCI 이미지 레이아웃 버전 */
+export const OCI_LAYOUT_VERSION = '1.0.0';
+
+/** OCI 이미지 인덱스 미디어 타입 */
+export const OCI_INDEX_MEDIA_TYPE = 'application/vnd.oci.image.index.v1+json';
+
+/** 이미지 태그 어노테이션 (oci:<dir>:<tag> 참조에 사용) */
+export const OCI_REF_NAME_ANNOTATION = 'org.opencontainers.image.ref.name';
+
+/** containerd가 import 시 사용하는 전체 이미지 이름 어노테이션 */
+export const CONTAINERD_IMAGE_NAME_ANNOTATION = 'io.containerd.image.name';
+
+const SHA256_DIGEST_PATTERN = /^sha256:[a-f0-9]{64}$/;
+
+/**
+ * OCI 이미지 레이아웃 작성기
+ *
+ * 블롭은 다이제스트 기반 경로에 저장되므로 같은 다이제스트는 한 번만 기록된다.
+ */
+export class DockerOciLayoutWriter {
+  private manifests: OciDescriptor[] = [];
+
+  constructor(private readonly layoutDir: string) {}
+
+  /**
+   * 레이아웃 디렉토리 및 oci-layout 파일 생성
+   */
+  async initialize(): Promise<void> {
+    await fs.ensureDir(path.join(this.layoutDir, 'blobs', 'sha256'));
+    await fs.writeJson(path.join(this.layoutDir, 'oci-layout'), {
+      imageLayoutVersion: OCI_LAYOUT_VERSION,
+    });
+  }
+
+  /**
+   * 레이아웃 루트 경로
+   */
+  getLayoutDir(): string {
+    return this.layoutDir;
+  }
+
+  /**
+   * 다이제스트에 해당하는 블롭 경로
+   *
+   * @param digest 다이제스트 (sha256:xxx)
+   */
+  getBlobPath(digest: string): string {
+    if (!SHA256_DIGEST_PATTERN.test(digest)) {
+      throw new Error(`지원하지 않는 블롭 다이제스트입니다: ${digest}`);
+    }
+    return path.join(this.layoutDir, 'blobs', 'sha256', digest.slice('sha256:'.length));
+  }
+
+  /**
+   * 블롭 존재 여부
+   */
+  async hasBlob(digest: string): Promise<boolean> {
+    return fs.pathExists(this.getBlobPath(digest));
+  }
+
+  /**
+   * 원본 바이트를 블롭으로 기록하고 다이제스트 반환
+   *
+   * 매니페스트/인덱스처럼 레지스트리 응답 바이트를 그대로 보존해야 하는 콘텐츠에 사용
+   */
+  async writeBlobBytes(content: Buffer): Promise<string> {
+    const digest = `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+    const blobPath = this.getBlobPath(digest);
+
+    if (!(await fs.pathExists(blobPath))) {
+      await fs.writeFile(blobPath, content);
+    }
+
+    return digest;
+  }
+
+  /**
+   * index.json에 매니페스트 디스크립터 추가
+   */
+  addManifest(descriptor: OciDescriptor): void {
+    this.manifests.push(descriptor);
+  }
+
+  /**
+   * index.json 기록
+   */
+  async writeIndex(): Promise<OciIndex> {
+    const index: OciIndex = {
+      schemaVersion: 2,
+      mediaType: OCI_INDEX_MEDIA_TYPE,
+      manifests: this.manifests,
+    };
+
+    await fs.writeJson(path.join(this.layoutDir, 'index.json'), index);
+    return index;
+  }
+}
+
+/**
+ * 이미지 참조 어노테이션 생성
+ *
+ * @param imageName 레지스트리를 포함한 전체 이미지 이름 (예: docker.io/library/nginx:1.27)
+ * @param tag 태그
+ */
+export function buildOciRefAnnotations(imageName: string, tag: string): Record<string, string> {
+  return {
+    [OCI_REF_NAME_ANNOTATION]: tag,
+    [CONTAINERD_IMAGE_NAME_ANNOTATION]: imageName,
+  };
+}
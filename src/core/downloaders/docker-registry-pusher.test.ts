@@ -0,0 +1,439 @@
+/**
+ * Docker 레지스트리 업로드 테스트
+ *
+ * registry:2와 같은 Registry v2 API를 흉내 내는 로컬 HTTP 서버로
+ * 번들 읽기, 블롭 건너뛰기, 매니페스트 업로드, 레지스트리 로그인을 검증
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as zlib from 'zlib';
+import { DockerAuthClient } from './docker-auth-client';
+import { DockerBundleReader, parseBundleImageReference } from './docker-bundle-reader';
+import { buildOciRefAnnotations, DockerOciLayoutWriter } from './docker-oci-layout';
+import { DockerRegistryPusher } from './docker-registry-pusher';
+
+const sha256 = (content: string | Buffer): string =>
+  `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+
+interface StoredManifest {
+  body: Buffer;
+  contentType: string;
+}
+
+/** 대역 서버의 인증 방식 (bearer는 /token에서 Basic 로그인으로 토큰 발급) */
+interface StandInAuth {
+  scheme: 'basic' | 'bearer';
+  username: string;
+  password: string;
+}
+
+const STAND_IN_TOKEN = 'stand-in-token';
+
+/**
+ * 최소한의 Registry v2 API 대역 서버
+ */
+class StandInRegistry {
+  readonly blobs = new Map<string, Buffer>();
+  readonly manifests = new Map<string, StoredManifest>();
+  readonly requests: string[] = [];
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => this.handle(req, res, Buffer.concat(chunks)));
+  });
+  private uploadCount = 0;
+  private baseUrl = '';
+
+  constructor(private readonly auth?: StandInAuth) {}
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse, body: Buffer): void {
+    const url = new URL(req.url ?? '/', 'http://registry');
+    this.requests.push(`${req.method} ${url.pathname}${url.search}`);
+    let match: RegExpMatchArray | null;
+
+    if (this.auth) {
+      const basic = `Basic ${Buffer.from(`${this.auth.username}:${this.auth.password}`).toString('base64')}`;
+      if (this.auth.scheme === 'bearer' && url.pathname === '/token') {
+        const granted = req.headers.authorization === basic && url.searchParams.get('service') === 'stand-in';
+        res.writeHead(granted ? 200 : 401, { 'Content-Type': 'application/json' });
+        res.end(granted ? JSON.stringify({ token: STAND_IN_TOKEN, expires_in: 300 }) : '{}');
+        return;
+      }
+      const expected = this.auth.scheme === 'basic' ? basic : `Bearer ${STAND_IN_TOKEN}`;
+      if (req.headers.authorization !== expected) {
+        res.writeHead(401, {
+          'WWW-Authenticate':
+            this.auth.scheme === 'basic'
+              ? 'Basic realm="stand-in"'
+              : `Bearer realm="${this.baseUrl}/token",service="stand-in"`,
+        });
+        res.end();
+        return;
+      }
+    }
+
+    if ((match = url.pathname.match(/^\/v2\/(.+)\/blobs\/uploads\/$/)) && req.method === 'POST') {
+      res.writeHead(202, { Location: `/v2/${match[1]}/blobs/uploads/${++this.uploadCount}?_state=x` });
+      res.end();
+      return;
+    }
+
+    if ((match = url.pathname.match(/^\/v2\/(.+)\/blobs\/uploads\/\d+$/)) && req.method === 'PUT') {
+      const digest = url.searchParams.get('digest') ?? '';
+      if (sha256(body) !== digest || url.searchParams.get('_state') !== 'x') {
+        res.writeHead(400);
+        res.end();
+        return;
+      }
+      this.blobs.set(`${match[1]}@${digest}`, body);
+      res.writeHead(201);
+      res.end();
+      return;
+    }
+
+    if ((match = url.pathname.match(/^\/v2\/(.+)\/blobs\/(sha256:[a-f0-9]{64})$/)) && req.method === 'HEAD') {
+      res.writeHead(this.blobs.has(`${match[1]}@${match[2]}`) ? 200 : 404);
+      res.end();
+      return;
+    }
+
+    if ((match = url.pathname.match(/^\/v2\/(.+)\/manifests\/([^/]+)$/))) {
+      const [, repository, reference] = match;
+      if (req.method === 'HEAD') {
+        res.writeHead(this.manifests.has(`${repository}:${reference}`) ? 200 : 404);
+        res.end();
+        return;
+      }
+      if (req.method === 'PUT') {
+        this.putManifest(repository, reference, body, String(req.headers['content-type']), res);
+        return;
+      }
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+
+  private putManifest(
+    repository: string,
+    reference: string,
+    body: Buffer,
+    contentType: string,
+    res: http.ServerResponse
+  ): void {
+    const manifest = JSON.parse(body.toString('utf-8'));
+    const missing = manifest.manifests
+      ? manifest.manifests.filter(
+          (entry: { digest: string }) => !this.manifests.has(`${repository}:${entry.digest}`)
+        )
+      : [manifest.config, ...manifest.layers].filter(
+          (blob: { digest: string }) => !this.blobs.has(`${repository}@${blob.digest}`)
+        );
+
+    if (missing.length > 0) {
+      res.writeHead(400);
+      res.end(JSON.stringify({ errors: [{ code: 'MANIFEST_BLOB_UNKNOWN' }] }));
+      return;
+    }
+
+    this.manifests.set(`${repository}:${reference}`, { body, contentType });
+    this.manifests.set(`${repository}:${sha256(body)}`, { body, contentType });
+    res.writeHead(201, { 'Docker-Content-Digest': sha256(body) });
+    res.end();
+  }
+}
+
+describe('parseBundleImageReference', () => {
+  it.each([
+    ['library/nginx:1.27', 'library/nginx', '1.27'],
+    ['ghcr.io/org/app:v1', 'org/app', 'v1'],
+    ['library/redis', 'library/redis', 'latest'],
+  ])('%s를 저장소와 태그로 분리한다', (reference, repository, tag) => {
+    expect(parseBundleImageReference(reference)).toEqual({ repository, tag });
+  });
+});
+
+describe('DockerRegistryPusher', () => {
+  let tempDir: string;
+  let registry: StandInRegistry;
+  let registryUrl: string;
+  let reader: DockerBundleReader;
+  let pusher: DockerRegistryPusher;
+
+  const config = Buffer.from('{"architecture":"amd64","os":"linux"}');
+  const layer = zlib.gzipSync(Buffer.from('layer-content'));
+
+  const buildImageManifest = (): Buffer =>
+    Buffer.from(
+      JSON.stringify({
+        schemaVersion: 2,
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        config: {
+          mediaType: 'application/vnd.oci.image.config.v1+json',
+          digest: sha256(config),
+          size: config.length,
+        },
+        layers: [
+          {
+            mediaType: 'application/vnd.oci.image.layer.v1.tar+gzip',
+            digest: sha256(layer),
+            size: layer.length,
+          },
+        ],
+      })
+    );
+
+  const writeOciBundle = async (
+    name: string,
+    build: (writer: DockerOciLayoutWriter) => Promise<void>
+  ): Promise<string> => {
+    const layoutDir = path.join(tempDir, name);
+    const writer = new DockerOciLayoutWriter(layoutDir);
+    await writer.initialize();
+    await build(writer);
+    await writer.writeIndex();
+
+    const tarPath = `${layoutDir}.oci.tar`;
+    await tar.create({ file: tarPath, cwd: layoutDir }, fs.readdirSync(layoutDir));
+    return tarPath;
+  };
+
+  const writeNginxBundle = (): Promise<string> => {
+    const manifest = buildImageManifest();
+    return writeOciBundle('nginx-1.27', async (writer) => {
+      await writer.writeBlobBytes(config);
+      await writer.writeBlobBytes(layer);
+      await writer.writeBlobBytes(manifest);
+      writer.addManifest({
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: sha256(manifest),
+        size: manifest.length,
+        annotations: buildOciRefAnnotations('library/nginx:1.27', '1.27'),
+      });
+    });
+  };
+
+  const restartRegistry = async (auth: StandInAuth): Promise<void> => {
+    await registry.stop();
+    registry = new StandInRegistry(auth);
+    registryUrl = await registry.start();
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'depssmuggler-docker-push-'));
+    registry = new StandInRegistry();
+    registryUrl = await registry.start();
+    reader = new DockerBundleReader();
+    pusher = new DockerRegistryPusher(new DockerAuthClient());
+  });
+
+  afterEach(async () => {
+    await reader.close();
+    await registry.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('OCI 번들의 원본 매니페스트를 태그로 올리고 이미 있는 블롭은 건너뛴다', async () => {
+    const manifest = buildImageManifest();
+    const bundle = await reader.open(await writeNginxBundle());
+    expect(bundle.format).toBe('oci-layout');
+
+    const first = await pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl });
+    expect(first).toEqual({
+      repository: 'library/nginx',
+      tag: '1.27',
+      digest: sha256(manifest),
+      uploadedBlobs: 2,
+      skippedBlobs: 0,
+      omittedManifests: [],
+    });
+    expect(registry.manifests.get('library/nginx:1.27')).toEqual({
+      body: manifest,
+      contentType: 'application/vnd.oci.image.manifest.v1+json',
+    });
+    expect(registry.requests).toContain('GET /v2/');
+
+    const second = await pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl });
+    expect(second.uploadedBlobs).toBe(0);
+    expect(second.skippedBlobs).toBe(2);
+  });
+
+  it('Basic 인증 레지스트리는 사용자/비밀번호로 로그인해 올린다', async () => {
+    await restartRegistry({ scheme: 'basic', username: 'ci', password: 'secret' });
+    const bundle = await reader.open(await writeNginxBundle());
+
+    await expect(pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl })).rejects.toThrow(
+      '레지스트리 인증이 필요합니다'
+    );
+    await expect(
+      pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl, username: 'ci', password: 'wrong' })
+    ).rejects.toThrow('레지스트리 인증에 실패했습니다');
+
+    const result = await pusher.pushImage(bundle, bundle.images[0], {
+      registry: registryUrl,
+      username: 'ci',
+      password: 'secret',
+    });
+    expect(result.uploadedBlobs).toBe(2);
+    expect(registry.manifests.has('library/nginx:1.27')).toBe(true);
+  });
+
+  it('토큰 서버 레지스트리는 WWW-Authenticate의 realm/service로 토큰을 받아 올린다', async () => {
+    await restartRegistry({ scheme: 'bearer', username: 'ci', password: 'secret' });
+    const bundle = await reader.open(await writeNginxBundle());
+
+    await expect(pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl })).rejects.toThrow(
+      '레지스트리 토큰을 받지 못했습니다'
+    );
+
+    const result = await pusher.pushImage(bundle, bundle.images[0], {
+      registry: registryUrl,
+      username: 'ci',
+      password: 'secret',
+    });
+    expect(result.uploadedBlobs).toBe(2);
+    expect(registry.manifests.has('library/nginx:1.27')).toBe(true);
+    expect(registry.requests.map((request) => decodeURIComponent(request))).toContain(
+      'GET /token?service=stand-in&scope=repository:library/nginx:pull,push'
+    );
+  });
+
+  it('docker-archive 번들은 config/레이어로 매니페스트를 재구성해 올린다', async () => {
+    const archiveDir = path.join(tempDir, 'redis-7');
+    fs.mkdirSync(archiveDir);
+    const layerFile = `${sha256(layer).slice('sha256:'.length)}.tar.gz`;
+    fs.writeFileSync(path.join(archiveDir, 'config.json'), config);
+    fs.writeFileSync(path.join(archiveDir, layerFile), layer);
+    fs.writeFileSync(
+      path.join(archiveDir, 'manifest.json'),
+      JSON.stringify([{ Config: 'config.json', RepoTags: ['library/redis:7'], Layers: [layerFile] }])
+    );
+    const bundlePath = path.join(tempDir, 'redis-7.tar');
+    await tar.create({ file: bundlePath, cwd: archiveDir }, fs.readdirSync(archiveDir));
+
+    const bundle = await reader.open(bundlePath);
+    const result = await pusher.pushImage(bundle, bundle.images[0], {
+      registry: registryUrl,
+      repository: 'mirror/redis',
+      tag: '7-offline',
+    });
+
+    expect(bundle.format).toBe('docker-archive');
+    expect(result.uploadedBlobs).toBe(2);
+    const pushed = JSON.parse(
+      registry.manifests.get('mirror/redis:7-offline')!.body.toString('utf-8')
+    );
+    expect(pushed.mediaType).toBe('application/vnd.docker.distribution.manifest.v2+json');
+    expect(pushed.config.digest).toBe(sha256(config));
+    expect(pushed.layers).toEqual([
+      {
+        mediaType: 'application/vnd.docker.image.rootfs.diff.tar.gzip',
+        digest: sha256(layer),
+        size: layer.length,
+      },
+    ]);
+    expect(registry.blobs.get(`mirror/redis@${sha256(config)}`)).toEqual(config);
+  });
+
+  it('멀티 아키텍처 번들은 플랫폼 매니페스트 후 매니페스트 리스트를 올리고 없는 플랫폼은 제외한다', async () => {
+    const amd64Manifest = buildImageManifest();
+    const missingArm64Digest = sha256('arm64-manifest-not-in-bundle');
+    const index = Buffer.from(
+      JSON.stringify({
+        schemaVersion: 2,
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: [
+          {
+            mediaType: 'application/vnd.oci.image.manifest.v1+json',
+            digest: sha256(amd64Manifest),
+            size: amd64Manifest.length,
+            platform: { architecture: 'amd64', os: 'linux' },
+          },
+          {
+            mediaType: 'application/vnd.oci.image.manifest.v1+json',
+            digest: missingArm64Digest,
+            size: 100,
+            platform: { architecture: 'arm64', os: 'linux' },
+          },
+        ],
+      })
+    );
+    const bundlePath = await writeOciBundle('nginx-multi', async (writer) => {
+      await writer.writeBlobBytes(config);
+      await writer.writeBlobBytes(layer);
+      await writer.writeBlobBytes(amd64Manifest);
+      await writer.writeBlobBytes(index);
+      writer.addManifest({
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        digest: sha256(index),
+        size: index.length,
+        annotations: buildOciRefAnnotations('library/nginx:1.27', '1.27'),
+      });
+    });
+
+    const bundle = await reader.open(bundlePath);
+    const result = await pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl });
+
+    expect(result.omittedManifests).toEqual([missingArm64Digest]);
+    expect(registry.manifests.has(`library/nginx:${sha256(amd64Manifest)}`)).toBe(true);
+
+    const pushedIndex = registry.manifests.get('library/nginx:1.27')!;
+    expect(result.digest).toBe(sha256(pushedIndex.body));
+    expect(JSON.parse(pushedIndex.body.toString('utf-8')).manifests.map(
+      (entry: { digest: string }) => entry.digest
+    )).toEqual([sha256(amd64Manifest)]);
+  });
+
+  it('모든 플랫폼이 번들에 있으면 원본 매니페스트 리스트 다이제스트를 유지한다', async () => {
+    const amd64Manifest = buildImageManifest();
+    const index = Buffer.from(
+      JSON.stringify({
+        schemaVersion: 2,
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: [
+          {
+            mediaType: 'application/vnd.oci.image.manifest.v1+json',
+            digest: sha256(amd64Manifest),
+            size: amd64Manifest.length,
+            platform: { architecture: 'amd64', os: 'linux' },
+          },
+        ],
+      }, null, 2)
+    );
+    const bundlePath = await writeOciBundle('nginx-index', async (writer) => {
+      await writer.writeBlobBytes(config);
+      await writer.writeBlobBytes(layer);
+      await writer.writeBlobBytes(amd64Manifest);
+      await writer.writeBlobBytes(index);
+      writer.addManifest({
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        digest: sha256(index),
+        size: index.length,
+        annotations: buildOciRefAnnotations('library/nginx:1.27', '1.27'),
+      });
+    });
+
+    const bundle = await reader.open(bundlePath);
+    const result = await pusher.pushImage(bundle, bundle.images[0], { registry: registryUrl });
+
+    expect(result.digest).toBe(sha256(index));
+    expect(registry.manifests.get('library/nginx:1.27')!.body).toEqual(index);
+  });
+});
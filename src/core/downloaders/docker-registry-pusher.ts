@@ -0,0 +1,362 @@
+/**
+ * Docker Registry Pusher
+ *
+ * 번들의 블롭과 매니페스트를 Registry v2 API로 업로드
+ * (폐쇄망 내부 레지스트리에 `docker load && docker tag && docker push` 없이 반입)
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import * as crypto from 'crypto';
+import * as fsNative from 'fs';
+import * as fs from 'fs-extra';
+import logger from '../../utils/logger';
+import { DockerAuthClient } from './docker-auth-client';
+import { buildRepositoryScope, parseAuthChallenge, requestChallengeToken } from './docker-auth-strategies';
+import { DockerBundle, isManifestIndex } from './docker-bundle-reader';
+import { DockerBundleImage, DockerManifest, DockerManifestDocument } from './docker-types';
+
+/**
+ * 업로드 진행 이벤트
+ */
+export interface DockerPushProgressEvent {
+  type: 'blob-skipped' | 'blob-uploaded' | 'manifest-pushed';
+  digest: string;
+  size: number;
+}
+
+/**
+ * 이미지 업로드 옵션
+ */
+export interface DockerPushOptions {
+  /** 대상 레지스트리 (예: registry.local:5000, http://registry.local:5000) */
+  registry: string;
+  /** 대상 저장소 (기본값: 번들에 기록된 저장소) */
+  repository?: string;
+  /** 대상 태그 (기본값: 번들에 기록된 태그) */
+  tag?: string;
+  /** 레지스트리 로그인 (Basic 인증 또는 토큰 서버 인증에 사용) */
+  username?: string;
+  password?: string;
+  onProgress?: (event: DockerPushProgressEvent) => void;
+}
+
+/**
+ * 이미지 업로드 결과
+ */
+export interface DockerPushResult {
+  repository: string;
+  tag: string;
+  /** 태그가 가리키는 매니페스트 다이제스트 */
+  digest: string;
+  uploadedBlobs: number;
+  skippedBlobs: number;
+  /** 번들과 레지스트리 모두에 없어 매니페스트 리스트에서 제외한 플랫폼 매니페스트 */
+  omittedManifests: string[];
+}
+
+/**
+ * 업로드 중 공유하는 상태
+ */
+interface PushContext {
+  registryUrl: string;
+  repository: string;
+  /** 현재 Authorization 헤더 값 (401 인증 요구를 받으면 갱신) */
+  authorization?: string;
+  /** 레지스트리 로그인 Basic 인증 값 */
+  basicAuthorization?: string;
+  service: string;
+  bundle: DockerBundle;
+  result: DockerPushResult;
+  onProgress?: (event: DockerPushProgressEvent) => void;
+}
+
+/**
+ * Docker 레지스트리 업로더
+ *
+ * 레지스트리에 이미 있는 블롭은 HEAD 요청으로 확인해 건너뛴다.
+ */
+export class DockerRegistryPusher {
+  constructor(private authClient: DockerAuthClient) {}
+
+  /**
+   * 번들 이미지 업로드
+   *
+   * 멀티 아키텍처 번들은 플랫폼 매니페스트를 다이제스트로 먼저 올린 뒤 매니페스트 리스트를 태그로 올린다.
+   */
+  async pushImage(
+    bundle: DockerBundle,
+    image: DockerBundleImage,
+    options: DockerPushOptions
+  ): Promise<DockerPushResult> {
+    const repository = options.repository ?? image.repository;
+    const tag = options.tag ?? image.tag;
+    if (!repository) {
+      throw new Error('번들에 저장소 이름이 없습니다. 대상 저장소를 지정하세요');
+    }
+
+    const token = await this.authClient.getTokenForRegistry(options.registry, repository, [
+      'pull',
+      'push',
+    ]);
+    const registryConfig = this.authClient.getRegistryConfig(options.registry);
+    const ctx: PushContext = {
+      registryUrl: registryConfig.registryUrl,
+      repository,
+      ...(token && { authorization: `Bearer ${token}` }),
+      ...(options.username && {
+        basicAuthorization: `Basic ${Buffer.from(`${options.username}:${options.password ?? ''}`).toString('base64')}`,
+      }),
+      service: registryConfig.service,
+      bundle,
+      onProgress: options.onProgress,
+      result: {
+        repository,
+        tag,
+        digest: image.root.digest,
+        uploadedBlobs: 0,
+        skippedBlobs: 0,
+        omittedManifests: [],
+      },
+    };
+
+    if (isManifestIndex(image.root.manifest)) {
+      for (const child of image.children) {
+        await this.pushImageBlobs(ctx, child.manifest);
+        await this.putManifest(ctx, child.digest, child);
+      }
+
+      const index = await this.buildPushableIndex(ctx, image);
+      await this.putManifest(ctx, tag, index);
+      ctx.result.digest = index.digest;
+    } else {
+      await this.pushImageBlobs(ctx, image.root.manifest);
+      await this.putManifest(ctx, tag, image.root);
+    }
+
+    logger.info('Docker 이미지 업로드 완료', {
+      registry: options.registry,
+      repository,
+      tag,
+      digest: ctx.result.digest,
+      uploadedBlobs: ctx.result.uploadedBlobs,
+      skippedBlobs: ctx.result.skippedBlobs,
+    });
+
+    return ctx.result;
+  }
+
+  /**
+   * 매니페스트가 참조하는 config/레이어 블롭 업로드
+   */
+  private async pushImageBlobs(ctx: PushContext, manifest: DockerManifest): Promise<void> {
+    const blobs = [...(manifest.config ? [manifest.config] : []), ...(manifest.layers ?? [])];
+
+    for (const blob of blobs) {
+      if (await this.blobExists(ctx, blob.digest)) {
+        ctx.result.skippedBlobs++;
+        ctx.onProgress?.({ type: 'blob-skipped', digest: blob.digest, size: blob.size });
+        continue;
+      }
+
+      const blobPath = ctx.bundle.blobs.get(blob.digest);
+      if (!blobPath) {
+        throw new Error(`번들에 블롭이 없습니다: ${blob.digest}`);
+      }
+
+      await this.uploadBlob(ctx, blob.digest, blobPath);
+      ctx.result.uploadedBlobs++;
+      ctx.onProgress?.({ type: 'blob-uploaded', digest: blob.digest, size: blob.size });
+    }
+  }
+
+  /**
+   * 번들에 없는 플랫폼 매니페스트를 처리한 매니페스트 리스트 생성
+   *
+   * 레지스트리는 매니페스트 리스트가 참조하는 매니페스트가 모두 존재해야 업로드를 허용하므로,
+   * 번들에도 레지스트리에도 없는 플랫폼은 제외한다. 이 경우 리스트 다이제스트는 원본과 달라진다.
+   */
+  private async buildPushableIndex(
+    ctx: PushContext,
+    image: DockerBundleImage
+  ): Promise<DockerManifestDocument> {
+    const included = new Set(image.children.map((child) => child.digest));
+    const entries = image.root.manifest.manifests ?? [];
+    const kept = [];
+
+    for (const entry of entries) {
+      if (included.has(entry.digest) || (await this.manifestExists(ctx, entry.digest))) {
+        kept.push(entry);
+      } else {
+        ctx.result.omittedManifests.push(entry.digest);
+      }
+    }
+
+    if (ctx.result.omittedManifests.length === 0) {
+      return image.root;
+    }
+
+    if (kept.length === 0) {
+      throw new Error('업로드할 수 있는 플랫폼 매니페스트가 없습니다');
+    }
+
+    logger.warn('번들에 없는 플랫폼 매니페스트를 매니페스트 리스트에서 제외합니다', {
+      repository: ctx.repository,
+      omitted: ctx.result.omittedManifests,
+    });
+
+    const rawJson = JSON.parse(image.root.raw.toString('utf-8')) as Record<string, unknown>;
+    const raw = Buffer.from(JSON.stringify({ ...rawJson, manifests: kept }));
+    return {
+      manifest: { ...image.root.manifest, manifests: kept },
+      raw,
+      digest: `sha256:${crypto.createHash('sha256').update(raw).digest('hex')}`,
+      mediaType: image.root.mediaType,
+    };
+  }
+
+  /**
+   * 블롭 존재 여부 (HEAD /v2/<name>/blobs/<digest>)
+   */
+  private async blobExists(ctx: PushContext, digest: string): Promise<boolean> {
+    const response = await this.sendWithAuth(ctx, (headers) =>
+      axios.head(`${ctx.registryUrl}/${ctx.repository}/blobs/${digest}`, {
+        headers,
+        validateStatus: (status) => status === 200 || status === 404 || status === 401,
+      })
+    );
+    return response.status === 200;
+  }
+
+  /**
+   * 매니페스트 존재 여부 (HEAD /v2/<name>/manifests/<digest>)
+   */
+  private async manifestExists(ctx: PushContext, digest: string): Promise<boolean> {
+    const response = await this.sendWithAuth(ctx, (headers) =>
+      axios.head(`${ctx.registryUrl}/${ctx.repository}/manifests/${digest}`, {
+        headers,
+        validateStatus: (status) => status === 200 || status === 404 || status === 401,
+      })
+    );
+    return response.status === 200;
+  }
+
+  /**
+   * 단일 요청(monolithic) 블롭 업로드
+   *
+   * POST /v2/<name>/blobs/uploads/ 로 업로드 세션을 열고 Location에 digest를 붙여 PUT 한다.
+   */
+  private async uploadBlob(ctx: PushContext, digest: string, blobPath: string): Promise<void> {
+    const session = await this.sendWithAuth(ctx, (headers) =>
+      axios.post(`${ctx.registryUrl}/${ctx.repository}/blobs/uploads/`, null, {
+        headers,
+        validateStatus: (status) => status === 202 || status === 401,
+      })
+    );
+
+    const location = session.headers.location as string | undefined;
+    if (!location) {
+      throw new Error(`레지스트리가 업로드 위치를 반환하지 않았습니다: ${digest}`);
+    }
+
+    const uploadUrl = new URL(location, ctx.registryUrl);
+    uploadUrl.searchParams.set('digest', digest);
+    const { size } = await fs.stat(blobPath);
+
+    // 재시도하면 스트림을 새로 연다
+    await this.sendWithAuth(ctx, (headers) =>
+      axios.put(uploadUrl.toString(), fsNative.createReadStream(blobPath), {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': String(size),
+        },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        validateStatus: (status) => status === 201 || status === 401,
+      })
+    );
+  }
+
+  /**
+   * 매니페스트 업로드 (PUT /v2/<name>/manifests/<reference>)
+   *
+   * 원본 바이트를 그대로 전송해 다이제스트를 유지한다.
+   */
+  private async putManifest(
+    ctx: PushContext,
+    reference: string,
+    document: DockerManifestDocument
+  ): Promise<void> {
+    await this.sendWithAuth(ctx, (headers) =>
+      axios.put(`${ctx.registryUrl}/${ctx.repository}/manifests/${reference}`, document.raw, {
+        headers: {
+          ...headers,
+          'Content-Type': document.mediaType,
+        },
+        validateStatus: (status) => status === 201 || status === 401,
+      })
+    );
+    ctx.onProgress?.({
+      type: 'manifest-pushed',
+      digest: document.digest,
+      size: document.raw.length,
+    });
+  }
+
+  /**
+   * 인증 헤더를 붙여 요청하고, 401이면 WWW-Authenticate 인증 요구에 따라 인증한 뒤 한 번 다시 요청
+   */
+  private async sendWithAuth(
+    ctx: PushContext,
+    send: (headers: Record<string, string>) => Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    const response = await send(this.buildHeaders(ctx));
+    if (response.status !== 401) {
+      return response;
+    }
+
+    await this.authenticate(ctx, response.headers['www-authenticate'] as string | undefined);
+    const retried = await send(this.buildHeaders(ctx));
+    if (retried.status === 401) {
+      throw new Error(
+        `레지스트리 인증에 실패했습니다: ${ctx.registryUrl} (${ctx.basicAuthorization ? '사용자/비밀번호와 push 권한을 확인하세요' : '사용자/비밀번호를 지정하세요'})`
+      );
+    }
+    return retried;
+  }
+
+  /**
+   * 401 인증 요구 처리
+   *
+   * Bearer는 realm 토큰 서버에서 pull,push 토큰을 받고(로그인 정보가 있으면 Basic 인증으로 요청),
+   * Basic은 로그인 정보를 그대로 사용한다.
+   */
+  private async authenticate(ctx: PushContext, header: string | undefined): Promise<void> {
+    const challenge = parseAuthChallenge(header);
+
+    if (challenge?.scheme === 'bearer' && challenge.realm) {
+      const scope = challenge.scope || buildRepositoryScope(ctx.repository, ['pull', 'push']);
+      try {
+        const { token } = await requestChallengeToken(challenge, scope, ctx.service, ctx.basicAuthorization);
+        ctx.authorization = `Bearer ${token}`;
+      } catch (error) {
+        throw new Error(`레지스트리 토큰을 받지 못했습니다: ${challenge.realm} (${(error as Error).message})`);
+      }
+      return;
+    }
+
+    if (challenge?.scheme === 'basic' && ctx.basicAuthorization) {
+      ctx.authorization = ctx.basicAuthorization;
+      return;
+    }
+
+    throw new Error(`레지스트리 인증이 필요합니다: ${ctx.registryUrl} (사용자/비밀번호를 지정하세요)`);
+  }
+
+  /**
+   * 인증 헤더 생성
+   */
+  private buildHeaders(ctx: PushContext): Record<string, string> {
+    return ctx.authorization ? { Authorization: ctx.authorization } : {};
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Docker 세션 번들 테스트
+ *
+ * 이미지 간 블롭 중복 제거와 번들 출력(docker-archive, oci-layout) 검증
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const sha256 = (content: string | Buffer): string =>
+  `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+
+const {
+  mockGetManifestForArchitecture,
+  mockGetManifestDocumentForArchitecture,
+  mockDownloadBlob,
+} = vi.hoisted(() => ({
+  mockGetManifestForArchitecture: vi.fn(),
+  mockGetManifestDocumentForArchitecture: vi.fn(),
+  mockDownloadBlob: vi.fn(),
+}));
+
+vi.mock('./docker-auth-client', () => ({
+  DockerAuthClient: class MockDockerAuthClient {
+    getTokenForRegistry = vi.fn().mockResolvedValue('mock-token');
+    getRegistryConfig = vi.fn();
+  },
+}));
+
+vi.mock('./docker-manifest-service', async () => {
+  const actual = await vi.importActual<typeof import('./docker-manifest-service')>(
+    './docker-manifest-service'
+  );
+  return {
+    DockerManifestService: class MockDockerManifestService extends actual.DockerManifestService {
+      getManifestForArchitecture = mockGetManifestForArchitecture;
+      getManifestDocumentForArchitecture = mockGetManifestDocumentForArchitecture;
+    },
+  };
+});
+
+vi.mock('./docker-blob-downloader', () => ({
+  DockerBlobDownloader: class MockDockerBlobDownloader {
+    downloadBlob = mockDownloadBlob;
+  },
+}));
+
+import { DockerDownloader } from './docker';
+import { DockerBundleReader } from './docker-bundle-reader';
+import {
+  DockerSessionBundle,
+  getDockerSessionBundleFileName,
+  shouldUseDockerSessionBundle,
+} from './docker-session-bundle';
+
+describe('DockerSessionBundle', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'depssmuggler-docker-session-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('이미지가 두 개 이상일 때만 세션 번들을 사용한다', () => {
+    expect(shouldUseDockerSessionBundle(1)).toBe(false);
+    expect(shouldUseDockerSessionBundle(2)).toBe(true);
+    expect(getDockerSessionBundleFileName('docker-archive')).toBe('docker-images.tar');
+    expect(getDockerSessionBundleFileName('oci-layout')).toBe('docker-images.oci.tar');
+  });
+
+  it('동시에 요청된 같은 블롭은 한 번만 다운로드한다', async () => {
+    const bundle = new DockerSessionBundle(tempDir, 'docker-archive');
+    await bundle.initialize();
+    const digest = sha256('shared');
+    const fetchBlob = vi.fn(async (blobPath: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      fs.writeFileSync(blobPath, 'shared');
+    });
+
+    const results = await Promise.all([
+      bundle.ensureBlob(digest, fetchBlob),
+      bundle.ensureBlob(digest, fetchBlob),
+    ]);
+
+    expect(fetchBlob).toHaveBeenCalledTimes(1);
+    expect(results.sort()).toEqual([false, true]);
+    expect(await bundle.ensureBlob(digest, fetchBlob)).toBe(false);
+  });
+
+  it('먼저 시작한 다운로드가 실패하면 대기 중인 요청이 다시 받는다', async () => {
+    const bundle = new DockerSessionBundle(tempDir, 'docker-archive');
+    await bundle.initialize();
+    const digest = sha256('flaky');
+    const failing = vi.fn(async () => {
+      throw new Error('network failed');
+    });
+    const succeeding = vi.fn(async (blobPath: string) => {
+      fs.writeFileSync(blobPath, 'flaky');
+    });
+
+    const [first, second] = await Promise.allSettled([
+      bundle.ensureBlob(digest, failing),
+      bundle.ensureBlob(digest, succeeding),
+    ]);
+
+    expect(first.status).toBe('rejected');
+    expect(second).toEqual({ status: 'fulfilled', value: true });
+    expect(succeeding).toHaveBeenCalledTimes(1);
+  });
+
+  it('추가된 이미지가 없으면 번들을 만들지 않고 작업 디렉토리를 정리한다', async () => {
+    const bundle = new DockerSessionBundle(tempDir, 'oci-layout');
+    await bundle.initialize();
+
+    expect(await bundle.finalize()).toBeNull();
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+});
+
+describe('DockerDownloader - 세션 번들', () => {
+  let tempDir: string;
+  const reader = new DockerBundleReader();
+  const baseLayer = 'shared-base-layer';
+  const blobContents: Record<string, string> = {
+    [sha256(baseLayer)]: baseLayer,
+  };
+
+  const buildManifest = (name: string) => {
+    const config = `{"architecture":"amd64","os":"linux","name":"${name}"}`;
+    const appLayer = `${name}-layer`;
+    blobContents[sha256(config)] = config;
+    blobContents[sha256(appLayer)] = appLayer;
+    return {
+      schemaVersion: 2,
+      mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+      config: {
+        mediaType: 'application/vnd.docker.container.image.v1+json',
+        size: config.length,
+        digest: sha256(config),
+      },
+      layers: [baseLayer, appLayer].map((content) => ({
+        mediaType: 'application/vnd.docker.image.rootfs.diff.tar.gzip',
+        size: content.length,
+        digest: sha256(content),
+      })),
+    };
+  };
+  const manifests: Record<string, ReturnType<typeof buildManifest>> = {
+    'library/nginx': buildManifest('nginx'),
+    'library/redis': buildManifest('redis'),
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'depssmuggler-docker-session-'));
+    vi.clearAllMocks();
+
+    mockGetManifestForArchitecture.mockImplementation(async (repository: string) =>
+      manifests[repository]
+    );
+    mockGetManifestDocumentForArchitecture.mockImplementation(async (repository: string) => {
+      const raw = Buffer.from(JSON.stringify(manifests[repository]));
+      return {
+        manifest: manifests[repository],
+        raw,
+        digest: sha256(raw),
+        mediaType: manifests[repository].mediaType,
+      };
+    });
+    mockDownloadBlob.mockImplementation(async (_repo: string, digest: string, destPath: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      fs.writeFileSync(destPath, blobContents[digest]);
+    });
+  });
+
+  afterEach(async () => {
+    await reader.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const downloadBoth = async (bundle: DockerSessionBundle): Promise<string[]> => {
+    const downloader = new DockerDownloader();
+    return Promise.all(
+      ['nginx', 'redis'].map((name) =>
+        downloader.downloadImage(name, 'latest', 'amd64', tempDir, undefined, 'docker.io', {
+          sessionBundle: bundle,
+        })
+      )
+    );
+  };
+
+  it('docker-archive 번들에 공유 레이어를 한 번만 담고 이미지별 manifest.json 엔트리를 기록한다', async () => {
+    const bundle = new DockerSessionBundle(tempDir, 'docker-archive');
+    await bundle.initialize();
+
+    const paths = await downloadBoth(bundle);
+    const bundlePath = await bundle.finalize();
+
+    expect(paths).toEqual([bundlePath, bundlePath]);
+    expect(bundlePath).toBe(path.join(tempDir, 'docker-images.tar'));
+    expect(fs.readdirSync(tempDir)).toEqual(['docker-images.tar']);
+
+    const sharedDownloads = mockDownloadBlob.mock.calls.filter(
+      ([, digest]) => digest === sha256(baseLayer)
+    );
+    expect(sharedDownloads).toHaveLength(1);
+    expect(mockDownloadBlob).toHaveBeenCalledTimes(5);
+
+    const opened = await reader.open(bundlePath as string);
+    expect(opened.format).toBe('docker-archive');
+    expect(opened.images.map((image) => `${image.repository}:${image.tag}`).sort()).toEqual([
+      'library/nginx:latest',
+      'library/redis:latest',
+    ]);
+    expect(opened.blobs.size).toBe(5);
+    for (const image of opened.images) {
+      expect(image.root.manifest.layers?.[0].digest).toBe(sha256(baseLayer));
+    }
+  });
+
+  it('oci-layout 번들은 하나의 index.json에 이미지별 매니페스트를 기록한다', async () => {
+    const bundle = new DockerSessionBundle(tempDir, 'oci-layout');
+    await bundle.initialize();
+
+    await downloadBoth(bundle);
+    const bundlePath = await bundle.finalize();
+
+    expect(bundlePath).toBe(path.join(tempDir, 'docker-images.oci.tar'));
+    expect(
+      mockDownloadBlob.mock.calls.filter(([, digest]) => digest === sha256(baseLayer))
+    ).toHaveLength(1);
+
+    const opened = await reader.open(bundlePath as string);
+    expect(opened.format).toBe('oci-layout');
+    expect(opened.images.map((image) => image.repository).sort()).toEqual([
+      'library/nginx',
+      'library/redis',
+    ]);
+  });
+});
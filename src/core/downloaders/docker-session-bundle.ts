@@ -0,0 +1,214 @@
+/**
+ * Docker Session Bundle
+ *
+ * 한 다운로드 세션의 Docker 이미지를 하나의 콘텐츠 주소 기반 번들로 묶는다.
+ * 이미지 간 공유되는 레이어(같은 베이스 이미지 등)는 다이제스트 단위로 한 번만 다운로드/저장되고,
+ * 이미지별 매니페스트가 공유 블롭을 가리킨다.
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as tar from 'tar';
+import { DockerOutputFormat } from '../../types';
+import logger from '../../utils/logger';
+import { isPartialDownloadPath } from '../shared/resumable-download';
+import { DockerOciLayoutWriter } from './docker-oci-layout';
+import { OciDescriptor } from './docker-types';
+
+/** 세션 번들을 사용하는 최소 Docker 이미지 수 */
+export const DOCKER_SESSION_BUNDLE_MIN_IMAGES = 2;
+
+/** 세션 번들 파일 이름 (확장자 제외) */
+export const DOCKER_SESSION_BUNDLE_NAME = 'docker-images';
+
+/**
+ * 출력 형식별 이미지 아카이브 확장자
+ */
+export function getDockerArchiveExtension(format: DockerOutputFormat): string {
+  return format === 'oci-layout' ? '.oci.tar' : '.tar';
+}
+
+/**
+ * 출력 형식별 세션 번들 파일 이름
+ */
+export function getDockerSessionBundleFileName(format: DockerOutputFormat): string {
+  return `${DOCKER_SESSION_BUNDLE_NAME}${getDockerArchiveExtension(format)}`;
+}
+
+/**
+ * 세션 번들 사용 여부 (Docker 이미지가 여러 개일 때만 사용)
+ */
+export function shouldUseDockerSessionBundle(imageCount: number): boolean {
+  return imageCount >= DOCKER_SESSION_BUNDLE_MIN_IMAGES;
+}
+
+/**
+ * docker load 형식 manifest.json 엔트리
+ */
+interface DockerArchiveImageEntry {
+  Config: string;
+  RepoTags: string[];
+  Layers: string[];
+}
+
+/**
+ * Docker 세션 번들
+ *
+ * 블롭은 blobs/sha256/<hex> 경로에 한 번만 기록된다.
+ * - oci-layout: index.json에 이미지별 매니페스트 디스크립터를 기록
+ * - docker-archive: manifest.json에 이미지별 엔트리를 기록 (Config/Layers가 공유 블롭 경로를 가리킴)
+ *
+ * 동시에 다운로드되는 이미지가 같은 블롭을 요청하면 진행 중인 다운로드를 기다린다.
+ */
+export class DockerSessionBundle {
+  private readonly layoutWriter: DockerOciLayoutWriter;
+  private readonly pendingBlobs = new Map<string, Promise<void>>();
+  private readonly archiveEntries: DockerArchiveImageEntry[] = [];
+  private imageCount = 0;
+  private downloadedBlobs = 0;
+  private reusedBlobs = 0;
+
+  constructor(
+    private readonly destPath: string,
+    private readonly format: DockerOutputFormat
+  ) {
+    this.layoutWriter = new DockerOciLayoutWriter(path.join(destPath, DOCKER_SESSION_BUNDLE_NAME));
+  }
+
+  /**
+   * 작업 디렉토리 생성
+   */
+  async initialize(): Promise<void> {
+    if (this.format === 'oci-layout') {
+      await this.layoutWriter.initialize();
+    } else {
+      await fs.ensureDir(path.join(this.layoutWriter.getLayoutDir(), 'blobs', 'sha256'));
+    }
+  }
+
+  getFormat(): DockerOutputFormat {
+    return this.format;
+  }
+
+  getLayoutWriter(): DockerOciLayoutWriter {
+    return this.layoutWriter;
+  }
+
+  /**
+   * 최종 번들 경로 (finalize 이후 생성됨)
+   */
+  getOutputPath(): string {
+    return path.join(this.destPath, getDockerSessionBundleFileName(this.format));
+  }
+
+  /**
+   * 블롭을 번들에 확보
+   *
+   * 이미 받았거나 다른 이미지가 받는 중인 블롭은 다시 다운로드하지 않는다.
+   *
+   * @param digest 블롭 다이제스트 (sha256:xxx)
+   * @param fetchBlob 블롭을 지정한 경로에 다운로드하는 함수
+   * @returns 이번 호출에서 새로 다운로드했으면 true, 기존 블롭을 재사용했으면 false
+   */
+  async ensureBlob(digest: string, fetchBlob: (blobPath: string) => Promise<void>): Promise<boolean> {
+    const pending = this.pendingBlobs.get(digest);
+    if (pending) {
+      try {
+        await pending;
+      } catch {
+        // 먼저 시작한 다운로드가 실패하면 직접 다시 받는다
+        return this.ensureBlob(digest, fetchBlob);
+      }
+      this.reusedBlobs++;
+      return false;
+    }
+
+    const blobPath = this.layoutWriter.getBlobPath(digest);
+    const task = (async () => {
+      try {
+        await fetchBlob(blobPath);
+      } catch (error) {
+        this.pendingBlobs.delete(digest);
+        await fs.remove(blobPath);
+        throw error;
+      }
+    })();
+    this.pendingBlobs.set(digest, task);
+
+    await task;
+    this.downloadedBlobs++;
+    return true;
+  }
+
+  /**
+   * OCI 레이아웃 이미지 추가 (매니페스트 블롭은 호출자가 기록)
+   */
+  addOciImage(descriptor: OciDescriptor): void {
+    this.layoutWriter.addManifest(descriptor);
+    this.imageCount++;
+  }
+
+  /**
+   * docker load 형식 이미지 추가
+   *
+   * @param repoTag 이미지 참조 (예: nginx:1.27)
+   * @param configDigest config 블롭 다이제스트
+   * @param layerDigests 레이어 블롭 다이제스트 (순서 유지)
+   */
+  addArchiveImage(repoTag: string, configDigest: string, layerDigests: string[]): void {
+    this.archiveEntries.push({
+      Config: this.toRelativeBlobPath(configDigest),
+      RepoTags: [repoTag],
+      Layers: layerDigests.map((digest) => this.toRelativeBlobPath(digest)),
+    });
+    this.imageCount++;
+  }
+
+  /**
+   * 번들 tar 생성 후 작업 디렉토리 정리
+   *
+   * @returns 번들 경로 (추가된 이미지가 없으면 null)
+   */
+  async finalize(): Promise<string | null> {
+    const layoutDir = this.layoutWriter.getLayoutDir();
+
+    if (this.imageCount === 0) {
+      await fs.remove(layoutDir);
+      return null;
+    }
+
+    if (this.format === 'oci-layout') {
+      await this.layoutWriter.writeIndex();
+    } else {
+      await fs.writeJson(path.join(layoutDir, 'manifest.json'), this.archiveEntries);
+    }
+
+    const outputPath = this.getOutputPath();
+    // 실패한 이미지가 남긴 다운로드 중 블롭(.part)은 번들에 넣지 않는다
+    await tar.create(
+      { file: outputPath, cwd: layoutDir, filter: (entryPath) => !isPartialDownloadPath(entryPath) },
+      await fs.readdir(layoutDir)
+    );
+    await fs.remove(layoutDir);
+
+    logger.info('Docker 세션 번들 생성 완료', {
+      format: this.format,
+      images: this.imageCount,
+      downloadedBlobs: this.downloadedBlobs,
+      reusedBlobs: this.reusedBlobs,
+      outputPath,
+    });
+
+    return outputPath;
+  }
+
+  /**
+   * 번들 루트 기준 블롭 상대 경로
+   */
+  private toRelativeBlobPath(digest: string): string {
+    return path
+      .relative(this.layoutWriter.getLayoutDir(), this.layoutWriter.getBlobPath(digest))
+      .split(path.sep)
+      .join('/');
+  }
+}
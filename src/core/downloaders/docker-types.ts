@@ -64,6 +64,42 @@ export interface DockerManifest {
   manifests?: DockerManifestEntry[];
 }
 
+// 레지스트리 원본 바이트를 보존한 매니페스트 (다이제스트 유지용)
+export interface DockerManifestDocument {
+  manifest: DockerManifest;
+  raw: Buffer;
+  digest: string;
+  mediaType: string;
+  platform?: DockerManifestEntry['platform'];
+}
+
+// OCI 콘텐츠 디스크립터
+export interface OciDescriptor {
+  mediaType: string;
+  digest: string;
+  size: number;
+  platform?: DockerManifestEntry['platform'];
+  annotations?: Record<string, string>;
+}
+
+// OCI 이미지 레이아웃 index.json
+export interface OciIndex {
+  schemaVersion: 2;
+  mediaType: string;
+  manifests: OciDescriptor[];
+}
+
+// 번들(docker-archive tar 또는 OCI 레이아웃)에 담긴 이미지
+export interface DockerBundleImage {
+  /** 원본 저장소 (레지스트리 제외, 예: library/nginx) */
+  repository: string;
+  tag: string;
+  /** 최상위 매니페스트 (단일 이미지 매니페스트 또는 매니페스트 리스트) */
+  root: DockerManifestDocument;
+  /** 매니페스트 리스트가 가리키는 플랫폼 매니페스트 중 번들에 포함된 것 */
+  children: DockerManifestDocument[];
+}
+
 // Quay.io 검색 응답
 export interface QuaySearchResponse {
   results: Array<{
@@ -10,6 +10,8 @@
  * - DockerBlobDownloader: Blob 다운로드
  * - DockerSearchService: 검색 및 메타데이터
  * - DockerCatalogCache: 카탈로그 캐싱
+ * - DockerOciLayoutWriter: OCI 이미지 레이아웃 출력
+ * - DockerSessionBundle: 세션 내 이미지 간 블롭 중복 제거 번들
  */
 
 import * as fs from 'fs-extra';
@@ -19,6 +21,7 @@ import {
   PackageInfo,
   DownloadProgressEvent,
   Architecture,
+  DockerOutputFormat,
 } from '../../types';
 import logger from '../../utils/logger';
 import { sanitizeDockerTag } from '../shared/filename-utils';
@@ -27,8 +30,11 @@ import { ARCH_MAP, extractRegistry, parseImageName } from './docker-utils';
 import { DockerAuthClient } from './docker-auth-client';
 import { DockerCatalogCache, CatalogCacheStatus } from './docker-catalog-cache';
 import { DockerManifestService } from './docker-manifest-service';
+import { OciDescriptor } from './docker-types';
 import { DockerBlobDownloader } from './docker-blob-downloader';
+import { buildOciRefAnnotations, DockerOciLayoutWriter } from './docker-oci-layout';
 import { DockerSearchService } from './docker-search-service';
+import { DockerSessionBundle } from './docker-session-bundle';
 
 // Re-export for backward compatibility
 export { RegistryType, RegistryConfig } from './docker-utils';
@@ -58,6 +64,29 @@ interface DownloadContext {
   imageDir: string;
   safeRepo: string;
   safeTag: string;
+  /** 세션 번들 (지정 시 imageDir는 번들 작업 디렉토리) */
+  sessionBundle?: DockerSessionBundle;
+}
+
+/**
+ * 이미지 다운로드 옵션
+ */
+export interface DockerImageDownloadOptions {
+  /** 출력 형식 (기본값: setOutputFormat으로 지정한 값) */
+  outputFormat?: DockerOutputFormat;
+  /**
+   * 하나의 번들에 함께 담을 플랫폼 목록 (기본값: setPlatforms로 지정한 값)
+   *
+   * 지정하면 arch 대신 이 목록을 사용하고, 원본 매니페스트 리스트를 보존한 OCI 레이아웃으로 출력한다.
+   */
+  platforms?: Architecture[];
+  /**
+   * 여러 이미지가 블롭을 공유하는 세션 번들 (기본값: setSessionBundle로 지정한 값)
+   *
+   * 지정하면 출력 형식은 번들 형식을 따르고, 반환 경로는 번들 경로가 된다.
+   * 번들 tar는 호출자가 모든 이미지를 받은 뒤 finalize()로 생성한다.
+   */
+  sessionBundle?: DockerSessionBundle | null;
 }
 
 /**
@@ -76,6 +105,11 @@ export class DockerDownloader implements IDownloader {
   private blobDownloader: DockerBlobDownloader;
   private searchService: DockerSearchService;
 
+  // downloadPackage 경로에서 사용할 기본 출력 형식/멀티 아키텍처 플랫폼
+  private outputFormat: DockerOutputFormat = 'docker-archive';
+  private platforms: Architecture[] = [];
+  private sessionBundle: DockerSessionBundle | null = null;
+
   constructor() {
     // 서비스 초기화 (의존성 주입)
     this.authClient = new DockerAuthClient();
@@ -89,6 +123,43 @@ export class DockerDownloader implements IDownloader {
     );
   }
 
+  /**
+   * 기본 출력 형식 설정
+   *
+   * IDownloader.downloadPackage 경로(CLI 다운로드 매니저 등)에서 사용된다.
+   */
+  setOutputFormat(format: DockerOutputFormat): void {
+    this.outputFormat = format;
+  }
+
+  /**
+   * 현재 기본 출력 형식
+   */
+  getOutputFormat(): DockerOutputFormat {
+    return this.outputFormat;
+  }
+
+  /**
+   * 멀티 아키텍처 번들 기본 플랫폼 설정 (빈 배열이면 단일 아키텍처)
+   */
+  setPlatforms(platforms: Architecture[]): void {
+    this.platforms = [...platforms];
+  }
+
+  /**
+   * 현재 멀티 아키텍처 번들 기본 플랫폼
+   */
+  getPlatforms(): Architecture[] {
+    return [...this.platforms];
+  }
+
+  /**
+   * 기본 세션 번들 설정 (null이면 이미지별 개별 출력)
+   */
+  setSessionBundle(bundle: DockerSessionBundle | null): void {
+    this.sessionBundle = bundle;
+  }
+
   /**
    * 이미지 검색
    */
@@ -140,13 +211,57 @@ export class DockerDownloader implements IDownloader {
     arch: Architecture,
     destPath: string,
     onProgress?: (progress: DownloadProgressEvent) => void,
-    registry: string = 'docker.io'
+    registry: string = 'docker.io',
+    options: DockerImageDownloadOptions = {}
   ): Promise<string> {
+    const sessionBundle =
+      options.sessionBundle !== undefined ? options.sessionBundle : this.sessionBundle;
+    const outputFormat = sessionBundle?.getFormat() ?? options.outputFormat ?? this.outputFormat;
+    const platforms = options.platforms ?? this.platforms;
+
     try {
+      if (platforms.length > 0) {
+        if (outputFormat !== 'oci-layout') {
+          throw new Error('멀티 아키텍처 번들은 oci-layout 출력 형식에서만 지원합니다');
+        }
+        return await this.downloadMultiArchImage(
+          repository,
+          tag,
+          platforms,
+          destPath,
+          onProgress,
+          registry,
+          sessionBundle
+        );
+      }
+
+      if (outputFormat === 'oci-layout') {
+        return await this.downloadOciImage(
+          repository,
+          tag,
+          arch,
+          destPath,
+          onProgress,
+          registry,
+          sessionBundle
+        );
+      }
+
       // 1. 준비: 토큰 획득 및 매니페스트 조회
-      const ctx = await this.prepareDownload(repository, tag, arch, destPath, registry);
+      const ctx = await this.prepareDownload(
+        repository,
+        tag,
+        arch,
+        destPath,
+        registry,
+        sessionBundle
+      );
       const manifest = await this.fetchManifest(ctx, arch);
 
+      if (ctx.sessionBundle) {
+        return await this.downloadIntoSessionArchive(ctx, ctx.sessionBundle, manifest, onProgress);
+      }
+
       // 2. 진행률 추적 설정
       const progressTracker = this.createProgressTracker(
         manifest.layers,
@@ -176,6 +291,292 @@ export class DockerDownloader implements IDownloader {
     }
   }
 
+  /**
+   * OCI 이미지 레이아웃 형식으로 다운로드
+   *
+   * 레지스트리의 원본 매니페스트 바이트와 config/레이어를 blobs/sha256 아래에 저장하고
+   * index.json에 태그 어노테이션을 기록한 뒤 `<repo>-<tag>.oci.tar`로 묶는다.
+   * 결과 tar는 `skopeo copy oci-archive:...`로 바로 사용하거나 풀어서 `oci:` 전송으로 사용할 수 있다.
+   */
+  private async downloadOciImage(
+    repository: string,
+    tag: string,
+    arch: Architecture,
+    destPath: string,
+    onProgress: ((progress: DownloadProgressEvent) => void) | undefined,
+    registry: string,
+    sessionBundle: DockerSessionBundle | null
+  ): Promise<string> {
+    const ctx = await this.prepareDownload(
+      repository,
+      tag,
+      arch,
+      destPath,
+      registry,
+      sessionBundle
+    );
+    const dockerPlatform = ARCH_MAP[arch] || { architecture: 'amd64' };
+    const document = await this.manifestService.getManifestDocumentForArchitecture(
+      ctx.fullName,
+      ctx.tag,
+      ctx.token,
+      ctx.registry,
+      dockerPlatform.architecture,
+      dockerPlatform.variant
+    );
+    const { config, layers } = document.manifest;
+
+    if (!layers || !config) {
+      throw new Error('유효하지 않은 이미지 매니페스트입니다');
+    }
+
+    const layoutWriter = await this.openLayoutWriter(ctx);
+
+    const progressTracker = this.createProgressTracker(layers, ctx, onProgress);
+    await this.writeOciImageBlobs(ctx, layoutWriter, document.manifest, progressTracker);
+
+    await layoutWriter.writeBlobBytes(document.raw);
+    this.addOciManifest(ctx, layoutWriter, {
+      mediaType: document.mediaType,
+      digest: document.digest,
+      size: document.raw.length,
+      ...(document.platform ? { platform: document.platform } : {}),
+      annotations: buildOciRefAnnotations(this.buildRepoTag(ctx), ctx.tag),
+    });
+
+    const tarPath = await this.packageOciLayout(ctx, destPath, layoutWriter);
+
+    logger.info('Docker 이미지 다운로드 완료 (OCI 레이아웃)', {
+      repository,
+      tag,
+      arch,
+      registry,
+      manifestDigest: document.digest,
+      tarPath,
+    });
+
+    return tarPath;
+  }
+
+  /**
+   * 멀티 아키텍처 번들 다운로드
+   *
+   * 매니페스트 리스트(OCI 인덱스)의 원본 바이트를 그대로 보존하고, 선택한 플랫폼의
+   * 매니페스트와 config/레이어를 하나의 OCI 레이아웃에 담는다.
+   * 플랫폼 간 동일한 블롭은 다이제스트 경로를 공유하므로 한 번만 다운로드된다.
+   */
+  private async downloadMultiArchImage(
+    repository: string,
+    tag: string,
+    platforms: Architecture[],
+    destPath: string,
+    onProgress: ((progress: DownloadProgressEvent) => void) | undefined,
+    registry: string,
+    sessionBundle: DockerSessionBundle | null
+  ): Promise<string> {
+    const ctx = await this.prepareDownload(
+      repository,
+      tag,
+      platforms[0],
+      destPath,
+      registry,
+      sessionBundle
+    );
+    const indexDocument = await this.manifestService.getManifestDocument(
+      ctx.fullName,
+      ctx.tag,
+      ctx.token,
+      ctx.registry
+    );
+
+    if (!indexDocument.manifest.manifests) {
+      throw new Error(`${ctx.fullName}:${ctx.tag}는 멀티 아키텍처 이미지가 아닙니다`);
+    }
+
+    const entries = this.manifestService.selectPlatformEntries(
+      indexDocument.manifest,
+      platforms.map((platform) => ARCH_MAP[platform] || { architecture: 'amd64' })
+    );
+
+    const platformDocuments = [];
+    for (const entry of entries) {
+      const document = await this.manifestService.getManifestDocument(
+        ctx.fullName,
+        entry.digest,
+        ctx.token,
+        ctx.registry
+      );
+      if (!document.manifest.layers || !document.manifest.config) {
+        throw new Error('유효하지 않은 이미지 매니페스트입니다');
+      }
+      platformDocuments.push(document);
+    }
+
+    // 공유 레이어는 진행률 합계에 한 번만 반영
+    const uniqueLayers = new Map<string, { digest: string; size: number }>();
+    for (const document of platformDocuments) {
+      for (const layer of document.manifest.layers ?? []) {
+        uniqueLayers.set(layer.digest, layer);
+      }
+    }
+
+    const layoutWriter = await this.openLayoutWriter(ctx);
+
+    const progressTracker = this.createProgressTracker([...uniqueLayers.values()], ctx, onProgress);
+    for (const document of platformDocuments) {
+      await this.writeOciImageBlobs(ctx, layoutWriter, document.manifest, progressTracker);
+      await layoutWriter.writeBlobBytes(document.raw);
+    }
+
+    await layoutWriter.writeBlobBytes(indexDocument.raw);
+    this.addOciManifest(ctx, layoutWriter, {
+      mediaType: indexDocument.mediaType,
+      digest: indexDocument.digest,
+      size: indexDocument.raw.length,
+      annotations: buildOciRefAnnotations(this.buildRepoTag(ctx), ctx.tag),
+    });
+
+    const tarPath = await this.packageOciLayout(ctx, destPath, layoutWriter);
+
+    logger.info('Docker 멀티 아키텍처 이미지 다운로드 완료 (OCI 레이아웃)', {
+      repository,
+      tag,
+      platforms,
+      registry,
+      indexDigest: indexDocument.digest,
+      includedManifests: entries.length,
+      totalManifests: indexDocument.manifest.manifests.length,
+      tarPath,
+    });
+
+    return tarPath;
+  }
+
+  /**
+   * 세션 번들(docker-archive)에 이미지 추가
+   *
+   * config/레이어를 번들의 공유 블롭으로 받고 manifest.json 엔트리를 등록한다.
+   */
+  private async downloadIntoSessionArchive(
+    ctx: DownloadContext,
+    sessionBundle: DockerSessionBundle,
+    manifest: { config: { digest: string }; layers: Array<{ digest: string; size: number }> },
+    onProgress?: (progress: DownloadProgressEvent) => void
+  ): Promise<string> {
+    const progressTracker = this.createProgressTracker(manifest.layers, ctx, onProgress);
+    await this.writeOciImageBlobs(ctx, sessionBundle.getLayoutWriter(), manifest, progressTracker);
+
+    sessionBundle.addArchiveImage(
+      this.buildRepoTag(ctx),
+      manifest.config.digest,
+      manifest.layers.map((layer) => layer.digest)
+    );
+
+    logger.info('Docker 이미지 다운로드 완료 (세션 번들)', {
+      repository: ctx.repository,
+      tag: ctx.tag,
+      registry: ctx.registry,
+      bundlePath: sessionBundle.getOutputPath(),
+    });
+
+    return sessionBundle.getOutputPath();
+  }
+
+  /**
+   * 이미지를 기록할 OCI 레이아웃 작성기 (세션 번들이 있으면 번들의 작성기 공유)
+   */
+  private async openLayoutWriter(ctx: DownloadContext): Promise<DockerOciLayoutWriter> {
+    if (ctx.sessionBundle) {
+      return ctx.sessionBundle.getLayoutWriter();
+    }
+
+    const layoutWriter = new DockerOciLayoutWriter(ctx.imageDir);
+    await layoutWriter.initialize();
+    return layoutWriter;
+  }
+
+  /**
+   * index.json에 이미지 매니페스트 등록
+   */
+  private addOciManifest(
+    ctx: DownloadContext,
+    layoutWriter: DockerOciLayoutWriter,
+    descriptor: OciDescriptor
+  ): void {
+    if (ctx.sessionBundle) {
+      ctx.sessionBundle.addOciImage(descriptor);
+    } else {
+      layoutWriter.addManifest(descriptor);
+    }
+  }
+
+  /**
+   * 매니페스트의 config/레이어 블롭을 OCI 레이아웃에 기록 (이미 있는 블롭은 건너뜀)
+   *
+   * 세션 번들에서는 다른 이미지가 받았거나 받는 중인 블롭도 건너뛴다.
+   */
+  private async writeOciImageBlobs(
+    ctx: DownloadContext,
+    layoutWriter: DockerOciLayoutWriter,
+    manifest: { config?: { digest: string }; layers?: Array<{ digest: string }> },
+    progressTracker: ProgressTracker
+  ): Promise<void> {
+    const { config, layers = [] } = manifest;
+    const blobs = config ? [config, ...layers] : layers;
+
+    for (const blob of blobs) {
+      const fetchBlob = (blobPath: string) =>
+        this.blobDownloader.downloadBlob(
+          ctx.fullName,
+          blob.digest,
+          blobPath,
+          ctx.token,
+          ctx.registry,
+          blob === config ? undefined : progressTracker.update
+        );
+
+      if (ctx.sessionBundle) {
+        await ctx.sessionBundle.ensureBlob(blob.digest, fetchBlob);
+        continue;
+      }
+      if (await layoutWriter.hasBlob(blob.digest)) {
+        continue;
+      }
+      await fetchBlob(layoutWriter.getBlobPath(blob.digest));
+    }
+  }
+
+  /**
+   * index.json 기록 후 OCI 레이아웃을 `<repo>-<tag>.oci.tar`로 묶고 작업 디렉토리 정리
+   *
+   * 세션 번들에서는 번들 경로만 반환한다 (tar는 세션 종료 시 finalize에서 생성).
+   */
+  private async packageOciLayout(
+    ctx: DownloadContext,
+    destPath: string,
+    layoutWriter: DockerOciLayoutWriter
+  ): Promise<string> {
+    if (ctx.sessionBundle) {
+      return ctx.sessionBundle.getOutputPath();
+    }
+
+    await layoutWriter.writeIndex();
+
+    const tarPath = path.join(destPath, `${ctx.safeRepo}-${ctx.safeTag}.oci.tar`);
+    await this.blobDownloader.createImageTar(ctx.imageDir, tarPath);
+    await fs.remove(ctx.imageDir);
+
+    return tarPath;
+  }
+
+  /**
+   * 레지스트리를 포함한 이미지 참조 (docker.io는 생략)
+   */
+  private buildRepoTag(ctx: DownloadContext): string {
+    const repoTagPrefix = ctx.registry === 'docker.io' ? '' : `${ctx.registry}/`;
+    return `${repoTagPrefix}${ctx.fullName}:${ctx.tag}`;
+  }
+
   /**
    * 다운로드 준비 (토큰 획득, 컨텍스트 생성)
    */
@@ -184,7 +585,8 @@ export class DockerDownloader implements IDownloader {
     tag: string,
     arch: Architecture,
     destPath: string,
-    registry: string
+    registry: string,
+    sessionBundle: DockerSessionBundle | null = null
   ): Promise<DownloadContext> {
     const [namespace, repo] = parseImageName(repository);
     const fullName = `${namespace}/${repo}`;
@@ -192,7 +594,9 @@ export class DockerDownloader implements IDownloader {
 
     const safeTag = sanitizeDockerTag(tag);
     const safeRepo = sanitizePath(repo);
-    const imageDir = path.join(destPath, `${safeRepo}-${safeTag}`);
+    const imageDir = sessionBundle
+      ? sessionBundle.getLayoutWriter().getLayoutDir()
+      : path.join(destPath, `${safeRepo}-${safeTag}`);
     await fs.ensureDir(imageDir);
 
     return {
@@ -204,6 +608,7 @@ export class DockerDownloader implements IDownloader {
       imageDir,
       safeRepo,
       safeTag,
+      ...(sessionBundle ? { sessionBundle } : {}),
     };
   }
 
@@ -327,8 +732,7 @@ export class DockerDownloader implements IDownloader {
     layerPaths: string[]
   ): Promise<string> {
     // manifest.json 생성 (docker load 형식)
-    const repoTagPrefix = ctx.registry === 'docker.io' ? '' : `${ctx.registry}/`;
-    const repoTag = `${repoTagPrefix}${ctx.fullName}:${ctx.tag}`;
+    const repoTag = this.buildRepoTag(ctx);
     const manifestJson = [
       {
         Config: 'config.json',
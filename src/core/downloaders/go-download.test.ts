@@ -0,0 +1,119 @@
+/**
+ * Go downloader의 downloadPackage 테스트
+ * go-cache와 axios를 모킹하고 임시 디렉토리에 GOPROXY 트리를 만든다
+ */
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockAxiosDefault, fetchGoModFile, fetchGoVersionInfo, fetchGoSumDbHashes } = vi.hoisted(() => ({
+  mockAxiosDefault: vi.fn(),
+  fetchGoModFile: vi.fn(),
+  fetchGoVersionInfo: vi.fn(),
+  fetchGoSumDbHashes: vi.fn(),
+}));
+
+vi.mock('axios', () => ({
+  default: mockAxiosDefault,
+}));
+
+vi.mock('../shared/go-cache', () => ({
+  clearGoCache: vi.fn(),
+  fetchGoLatestVersion: vi.fn(),
+  fetchGoModFile,
+  fetchGoSumDbHashes,
+  fetchGoVersionInfo,
+  fetchGoVersionList: vi.fn(),
+}));
+
+vi.mock('../shared/go-dirhash', () => ({
+  hashGoModFile: vi.fn(() => 'h1:mod='),
+  hashGoModuleZip: vi.fn(() => 'h1:zip='),
+}));
+
+import { GoDownloader } from './go';
+
+describe('GoDownloader downloadPackage 테스트', () => {
+  let tempDir: string;
+  let downloader: GoDownloader;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'go-download-'));
+    downloader = new GoDownloader();
+    fetchGoModFile.mockResolvedValue('module github.com/BurntSushi/toml\n');
+    fetchGoVersionInfo.mockImplementation(async (_path: string, version: string) => `{"Version":"${version}"}`);
+    mockAxiosDefault.mockImplementation(async () => ({
+      data: Readable.from([Buffer.from('zip')]),
+      headers: { 'content-length': '3' },
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('go.sum 해시로 검증하고 이스케이프된 GOPROXY 경로에 info/mod/zip/list를 쓴다', async () => {
+    const zipPath = await downloader.downloadPackage(
+      {
+        type: 'go',
+        name: 'github.com/BurntSushi/toml',
+        version: 'v1.3.2',
+        metadata: { goSum: { h1: 'h1:zip=', goMod: 'h1:mod=' } },
+      },
+      tempDir
+    );
+
+    const versionDir = path.join(tempDir, 'cache', 'download', 'github.com', '!burnt!sushi', 'toml', '@v');
+    expect(zipPath).toBe(path.join(versionDir, 'v1.3.2.zip'));
+    expect(await fs.readFile(path.join(versionDir, 'v1.3.2.info'), 'utf-8')).toBe('{"Version":"v1.3.2"}');
+    expect(await fs.readFile(path.join(versionDir, 'v1.3.2.mod'), 'utf-8')).toBe('module github.com/BurntSushi/toml\n');
+    expect(await fs.readFile(path.join(versionDir, 'list'), 'utf-8')).toBe('v1.3.2\n');
+    expect(mockAxiosDefault).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://proxy.golang.org/github.com/!burnt!sushi/toml/@v/v1.3.2.zip' })
+    );
+    expect(fetchGoSumDbHashes).not.toHaveBeenCalled();
+  });
+
+  it('상위 경로나 허용되지 않는 문자가 든 모듈 경로/버전은 아무것도 쓰지 않고 거부한다', async () => {
+    for (const [name, version] of [
+      ['github.com/../../escape', 'v1.0.0'],
+      ['github.com//toml', 'v1.0.0'],
+      ['github.com/foo/bar', '../../v1.0.0'],
+      ['github.com/foo/bar', 'v1.0.0\\..\\x'],
+      ['github.com/foo bar', 'v1.0.0'],
+    ]) {
+      await expect(downloader.downloadPackage({ type: 'go', name, version }, tempDir)).rejects.toThrow(
+        `잘못된 Go 모듈 경로 또는 버전: ${name}@${version}`
+      );
+    }
+
+    expect(fetchGoModFile).not.toHaveBeenCalled();
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+
+  it('goModOnly 모듈은 zip 없이 go.mod까지만 받는다', async () => {
+    const modPath = await downloader.downloadPackage(
+      { type: 'go', name: 'golang.org/x/text', version: 'v0.3.0', metadata: { goModOnly: true } },
+      tempDir
+    );
+
+    expect(modPath).toBe(path.join(tempDir, 'cache', 'download', 'golang.org', 'x', 'text', '@v', 'v0.3.0.mod'));
+    expect(mockAxiosDefault).not.toHaveBeenCalled();
+    expect(fetchGoSumDbHashes).toHaveBeenCalledWith('golang.org/x/text', 'v0.3.0', 'https://sum.golang.org');
+  });
+
+  it('체크섬이 다르면 zip을 지우고 실패한다', async () => {
+    fetchGoSumDbHashes.mockResolvedValue({ h1: 'h1:other=', goMod: 'h1:mod=' });
+
+    await expect(
+      downloader.downloadPackage({ type: 'go', name: 'golang.org/x/text', version: 'v0.14.0' }, tempDir)
+    ).rejects.toThrow('체크섬 검증 실패');
+
+    const versionDir = path.join(tempDir, 'cache', 'download', 'golang.org', 'x', 'text', '@v');
+    expect(await fs.pathExists(path.join(versionDir, 'v0.14.0.zip'))).toBe(false);
+    expect(await fs.pathExists(path.join(versionDir, 'list'))).toBe(false);
+  });
+});
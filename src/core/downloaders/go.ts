@@ -0,0 +1,225 @@
+/**
+ * Go 모듈 다운로더
+ * GOPROXY 프로토콜로 모듈을 조회하고, 출력 경로에 GOPROXY 파일 트리(`cache/download/...`)를 구성
+ *
+ * 출력 트리는 `GOPROXY=file:///<경로>/cache/download`로 그대로 사용할 수 있다.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import {
+  PackageInfo,
+  IDownloader,
+  DownloadProgressEvent,
+} from '../../types';
+import { BaseLanguageDownloader } from './lang-shared/base-language-downloader';
+import logger from '../../utils/logger';
+import { GO_CONSTANTS } from '../constants/go';
+import {
+  clearGoCache,
+  fetchGoLatestVersion,
+  fetchGoModFile,
+  fetchGoSumDbHashes,
+  fetchGoVersionInfo,
+  fetchGoVersionList,
+} from '../shared/go-cache';
+import { hashGoModFile, hashGoModuleZip } from '../shared/go-dirhash';
+import { compareGoVersions, escapeGoModulePath, getGoProxyFilePath } from '../shared/go-module-utils';
+import type { GoSumHashes } from '../shared/go-types';
+
+/** 이스케이프된 모듈 경로/버전에 쓰이는 문자 외에는 치환 */
+const GO_PROXY_INVALID_PATH_CHARS = /[^a-z0-9._~!+@-]/g;
+
+/**
+ * GOPROXY 트리에 쓸 모듈 경로/버전 확인
+ *
+ * go.mod와 사용자 지정 프록시에서 온 값이므로 module.CheckPath처럼 빈 요소, `.`으로 시작하는 요소,
+ * 이스케이프 후 허용 문자 외의 문자를 거부한다.
+ */
+function assertGoProxyPath(modulePath: string, version: string): void {
+  const segments = [...escapeGoModulePath(modulePath).split('/'), escapeGoModulePath(version)];
+  const invalid = segments.some((segment) =>
+    !segment || segment.startsWith('.') || segment.includes('@') || segment.search(GO_PROXY_INVALID_PATH_CHARS) !== -1
+  );
+  if (invalid) {
+    throw new Error(`잘못된 Go 모듈 경로 또는 버전: ${modulePath}@${version}`);
+  }
+}
+
+/** 의사 버전 (v0.0.0-20240101000000-abcdef123456 등) */
+const PSEUDO_VERSION_PATTERN = /(?:^|[.-])\d{14}-[0-9a-f]{12}(?:\+incompatible)?$/;
+
+/**
+ * Go 다운로더 클래스
+ */
+export class GoDownloader extends BaseLanguageDownloader implements IDownloader {
+  readonly type = 'go' as const;
+  private readonly proxyUrl: string;
+  private readonly sumDbUrl: string;
+
+  constructor(proxyUrl = GO_CONSTANTS.DEFAULT_PROXY_URL, sumDbUrl = GO_CONSTANTS.DEFAULT_SUMDB_URL) {
+    super();
+    this.proxyUrl = proxyUrl;
+    this.sumDbUrl = sumDbUrl;
+  }
+
+  /**
+   * 모듈 검색
+   *
+   * GOPROXY에는 검색 API가 없으므로 입력을 모듈 경로로 보고 최신 버전을 조회한다.
+   */
+  async searchPackages(query: string): Promise<PackageInfo[]> {
+    const modulePath = query.trim();
+    if (!modulePath) {
+      return [];
+    }
+
+    try {
+      const latest = await fetchGoLatestVersion(modulePath, { proxyUrl: this.proxyUrl });
+      return [{ type: 'go', name: modulePath, version: latest.Version, metadata: { time: latest.Time } }];
+    } catch (error) {
+      logger.debug('Go 모듈 조회 실패', { query, error });
+      return [];
+    }
+  }
+
+  /**
+   * 모듈 버전 목록 조회 (최신순, 태그가 없으면 최신 의사 버전)
+   */
+  async getVersions(packageName: string): Promise<string[]> {
+    const versions = await fetchGoVersionList(packageName, { proxyUrl: this.proxyUrl });
+    if (versions.length > 0) {
+      return [...versions].reverse();
+    }
+    return [(await fetchGoLatestVersion(packageName, { proxyUrl: this.proxyUrl })).Version];
+  }
+
+  /**
+   * 모듈 메타데이터 조회
+   */
+  async getPackageMetadata(name: string, version: string): Promise<PackageInfo> {
+    const resolvedVersion = !version || version === 'latest'
+      ? (await fetchGoLatestVersion(name, { proxyUrl: this.proxyUrl })).Version
+      : version;
+    const info = JSON.parse(await fetchGoVersionInfo(name, resolvedVersion, { proxyUrl: this.proxyUrl }));
+
+    return {
+      type: 'go',
+      name,
+      version: info.Version,
+      metadata: {
+        time: info.Time,
+        downloadUrl: `${this.proxyUrl}/${getGoProxyFilePath(name, info.Version, 'zip')}`,
+      },
+    };
+  }
+
+  /**
+   * 모듈 다운로드
+   *
+   * `<destPath>/cache/download/<모듈>/@v/`에 `.info`, `.mod`, `.zip`을 저장하고 `list`를 갱신한다.
+   * metadata.goModOnly 모듈(그래프 로드에만 필요한 버전)은 zip 없이 go.mod까지만 받는다.
+   * go.sum 해시(metadata.goSum)가 없으면 체크섬 데이터베이스에서 조회해 검증한다.
+   */
+  async downloadPackage(
+    info: PackageInfo,
+    destPath: string,
+    onProgress?: (progress: DownloadProgressEvent) => void
+  ): Promise<string> {
+    const modulePath = info.name;
+    const version = info.version;
+    const proxyRoot = path.join(destPath, ...GO_CONSTANTS.PROXY_TREE_DIR.split('/'));
+    const modOnly = info.metadata?.goModOnly === true;
+
+    try {
+      assertGoProxyPath(modulePath, version);
+      const expected = (info.metadata?.goSum as GoSumHashes | undefined) ?? (await this.lookupSumDb(modulePath, version));
+
+      const modContent = await fetchGoModFile(modulePath, version, { proxyUrl: this.proxyUrl });
+      if (expected?.goMod && hashGoModFile(modContent) !== expected.goMod) {
+        throw new Error(`체크섬 검증 실패 (go.mod): ${modulePath}@${version}`);
+      }
+
+      const versionInfo = await fetchGoVersionInfo(modulePath, version, { proxyUrl: this.proxyUrl });
+      await fs.outputFile(path.join(proxyRoot, getGoProxyFilePath(modulePath, version, 'info')), versionInfo);
+      const modPath = path.join(proxyRoot, getGoProxyFilePath(modulePath, version, 'mod'));
+      await fs.outputFile(modPath, modContent);
+
+      if (modOnly) {
+        logger.info('Go 모듈 go.mod 다운로드 완료', { module: modulePath, version });
+        return modPath;
+      }
+
+      const zipRelativePath = getGoProxyFilePath(modulePath, version, 'zip');
+      const zipPath = await this.downloadArtifactFile(
+        proxyRoot,
+        {
+          downloadUrl: `${this.proxyUrl}/${zipRelativePath}`,
+          itemId: `${modulePath}@${version}`,
+          timeoutMs: GO_CONSTANTS.DOWNLOAD_TIMEOUT_MS,
+          relativeFilePath: zipRelativePath,
+          invalidPathChars: GO_PROXY_INVALID_PATH_CHARS,
+          verifyFile: expected?.h1
+            ? async (filePath) => hashGoModuleZip(await fs.readFile(filePath)) === expected.h1
+            : undefined,
+          verificationFailureMessage: '체크섬 검증 실패 (go.sum h1)',
+        },
+        onProgress
+      );
+      this.updateVersionList(path.dirname(zipPath));
+
+      logger.info('Go 모듈 다운로드 완료', { module: modulePath, version, filePath: zipPath, verified: Boolean(expected?.h1) });
+      return zipPath;
+    } catch (error) {
+      logger.error('Go 모듈 다운로드 실패', { module: modulePath, version, error });
+      throw error;
+    }
+  }
+
+  /**
+   * 캐시 초기화
+   */
+  clearCache(): void {
+    clearGoCache();
+  }
+
+  private async lookupSumDb(modulePath: string, version: string): Promise<GoSumHashes | undefined> {
+    try {
+      return await fetchGoSumDbHashes(modulePath, version, this.sumDbUrl);
+    } catch (error) {
+      // 비공개 모듈은 체크섬 데이터베이스에 없음
+      logger.warn('Go 체크섬 조회 실패 (검증 없이 다운로드)', {
+        module: `${modulePath}@${version}`,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * `@v/list` 갱신 (zip까지 받은 태그 버전만 기록)
+   *
+   * 같은 모듈의 여러 버전이 동시에 끝날 수 있어 디렉토리 읽기와 쓰기를 동기로 묶는다.
+   */
+  private updateVersionList(versionDir: string): void {
+    const versions = fs
+      .readdirSync(versionDir)
+      .filter((file) => file.endsWith('.zip'))
+      .map((file) => file.slice(0, -'.zip'.length).replace(/!([a-z])/g, (_, char: string) => char.toUpperCase()))
+      .filter((version) => !PSEUDO_VERSION_PATTERN.test(version))
+      .sort(compareGoVersions);
+    fs.writeFileSync(path.join(versionDir, 'list'), versions.map((version) => `${version}\n`).join(''));
+  }
+}
+
+// 싱글톤 인스턴스
+let goDownloaderInstance: GoDownloader | null = null;
+
+export function getGoDownloader(): GoDownloader {
+  if (!goDownloaderInstance) {
+    goDownloaderInstance = new GoDownloader();
+  }
+  return goDownloaderInstance;
+}
+
+export { goDownloaderInstance };
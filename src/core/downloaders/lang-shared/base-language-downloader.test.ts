@@ -9,6 +9,7 @@ import {
   type LanguageArtifactDownloadPlan,
 } from './base-language-downloader';
 import type { DownloadProgressEvent } from '../../../types';
+import type { PackageFetchPort } from '../../ports/package-fetch-port';
 
 vi.mock('axios', () => ({
   default: vi.fn(),
@@ -22,6 +23,10 @@ class TestLanguageDownloader extends BaseLanguageDownloader {
   ): Promise<string> {
     return this.downloadArtifactFile(destPath, plan, onProgress);
   }
+
+  setHeadPackage(headPackage: PackageFetchPort['headPackage']): void {
+    this.packageFetchPort = { headPackage };
+  }
 }
 
 describe('BaseLanguageDownloader', () => {
@@ -121,4 +126,90 @@ describe('BaseLanguageDownloader', () => {
     );
     expect(await fs.readFile(filePath, 'utf8')).toBe('test');
   });
+
+  it('남은 .part가 있고 원격 파일이 그대로면 Range로 나머지만 받아 이어 붙여야 함', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-lang-base-'));
+    tempPaths.push(tempDir);
+    const url = 'https://files.pythonhosted.org/packages/torch-2.3.0.whl';
+    const filePath = path.join(tempDir, 'torch-2.3.0.whl');
+    await fs.writeFile(`${filePath}.part`, 'first-');
+    await fs.writeJson(`${filePath}.part.json`, { url, etag: '"v1"', bytesReceived: 6 });
+    const headPackage = vi.fn().mockResolvedValue({ url, status: 200, etag: '"v1"', contentLength: 11, headers: {} });
+    downloader.setHeadPackage(headPackage);
+
+    const stream = new PassThrough();
+    vi.mocked(axios).mockResolvedValue({
+      status: 206,
+      headers: { 'content-length': '5', 'content-range': 'bytes 6-10/11', etag: '"v1"' },
+      data: stream,
+    } as never);
+    const onProgress = vi.fn();
+
+    const downloadPromise = downloader.downloadFromPlan(
+      tempDir,
+      { downloadUrl: url, itemId: 'torch@2.3.0', timeoutMs: 1000 },
+      onProgress
+    );
+    await vi.waitFor(() => expect(axios).toHaveBeenCalled());
+    stream.end(Buffer.from('bytes'));
+
+    expect(await downloadPromise).toBe(filePath);
+    expect(await fs.readFile(filePath, 'utf8')).toBe('first-bytes');
+    expect(await fs.readdir(tempDir)).toEqual(['torch-2.3.0.whl']);
+    expect(axios).toHaveBeenCalledWith(expect.objectContaining({ headers: { Range: 'bytes=6-' } }));
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ downloadedBytes: 11, totalBytes: 11 }));
+  });
+
+  it('서버가 Range를 무시하고 전체 본문을 보내면 처음부터 다시 써야 함', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-lang-base-'));
+    tempPaths.push(tempDir);
+    const url = 'https://files.pythonhosted.org/packages/torch-2.3.0.whl';
+    const filePath = path.join(tempDir, 'torch-2.3.0.whl');
+    await fs.writeFile(`${filePath}.part`, 'first-');
+    await fs.writeJson(`${filePath}.part.json`, { url, etag: '"v1"', bytesReceived: 6 });
+    downloader.setHeadPackage(vi.fn().mockResolvedValue({ url, status: 200, etag: '"v1"', headers: {} }));
+
+    const stream = new PassThrough();
+    vi.mocked(axios).mockResolvedValue({
+      status: 200,
+      headers: { 'content-length': '11' },
+      data: stream,
+    } as never);
+
+    const downloadPromise = downloader.downloadFromPlan(tempDir, { downloadUrl: url, itemId: 'torch@2.3.0', timeoutMs: 1000 });
+    await vi.waitFor(() => expect(axios).toHaveBeenCalled());
+    stream.end(Buffer.from('whole-file!'));
+
+    expect(await fs.readFile(await downloadPromise, 'utf8')).toBe('whole-file!');
+  });
+
+  it('전송 중 연결이 끊기면 받은 부분과 상태 파일을 남겨야 함', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-lang-base-'));
+    tempPaths.push(tempDir);
+    const url = 'https://files.pythonhosted.org/packages/torch-2.3.0.whl';
+    const filePath = path.join(tempDir, 'torch-2.3.0.whl');
+
+    const stream = new PassThrough();
+    vi.mocked(axios).mockResolvedValue({
+      status: 200,
+      headers: { 'content-length': '11', etag: '"v1"' },
+      data: stream,
+    } as never);
+
+    const downloadPromise = downloader.downloadFromPlan(tempDir, { downloadUrl: url, itemId: 'torch@2.3.0', timeoutMs: 1000 });
+    await vi.waitFor(() => expect(axios).toHaveBeenCalled());
+    stream.write(Buffer.from('first-'));
+    await new Promise((resolve) => setImmediate(resolve));
+    stream.destroy(new Error('socket hang up'));
+
+    await expect(downloadPromise).rejects.toThrow('socket hang up');
+    expect(await fs.readFile(`${filePath}.part`, 'utf8')).toBe('first-');
+    expect(await fs.readJson(`${filePath}.part.json`)).toEqual(expect.objectContaining({
+      url,
+      etag: '"v1"',
+      totalBytes: 11,
+      bytesReceived: 6,
+    }));
+    expect(await fs.pathExists(filePath)).toBe(false);
+  });
 });
@@ -1,8 +1,19 @@
 import * as path from 'path';
 import axios from 'axios';
 import * as fs from 'fs-extra';
+import { FetchApiPackageFetchPort } from '../../ports/fetch-api-package-fetch-port';
 import { sanitizePath } from '../../shared/path-utils';
+import {
+  completePartialDownload,
+  getPartialDownloadPath,
+  getResumeOffset,
+  isResumedResponse,
+  writePartialDownloadState,
+} from '../../shared/resumable-download';
+import { getRegistryAuthHeaders } from '../../shared/registry-credentials';
+import { getTransferLimiter } from '../../shared/transfer-limiter';
 import type { DownloadProgressEvent } from '../../../types';
+import type { PackageFetchPort } from '../../ports/package-fetch-port';
 
 export interface LanguageArtifactDownloadPlan {
   downloadUrl: string;
@@ -10,11 +21,22 @@ export interface LanguageArtifactDownloadPlan {
   timeoutMs: number;
   fileName?: string;
   relativeFilePath?: string;
+  /** 파일 경로 세그먼트에서 `_`로 치환할 문자 (기본: 영숫자, `.`, `_`, `-` 외 전부) */
+  invalidPathChars?: RegExp;
   verifyFile?: (filePath: string) => Promise<boolean>;
   verificationFailureMessage?: string;
 }
 
 export abstract class BaseLanguageDownloader {
+  /** 이어받기 전 원격 파일의 ETag/Last-Modified 확인에 사용 */
+  protected packageFetchPort: Pick<PackageFetchPort, 'headPackage'> = new FetchApiPackageFetchPort();
+
+  /**
+   * 아티팩트 파일 다운로드
+   *
+   * `<파일>.part`에 받은 뒤 완료되면 최종 경로로 옮긴다. 이전 시도가 남긴 `.part`가 있고
+   * 원격 파일이 그대로면 HTTP Range로 나머지만 받는다. 받는 동안 호스트별 연결 슬롯을 잡는다.
+   */
   protected async downloadArtifactFile(
     destPath: string,
     plan: LanguageArtifactDownloadPlan,
@@ -24,20 +46,59 @@ export abstract class BaseLanguageDownloader {
 
     await fs.ensureDir(path.dirname(filePath));
 
+    await getTransferLimiter().withHostSlot(plan.downloadUrl, () => this.transferArtifact(filePath, plan, onProgress));
+    await completePartialDownload(filePath);
+
+    if (plan.verifyFile) {
+      const isValid = await plan.verifyFile(filePath);
+      if (!isValid) {
+        await fs.remove(filePath);
+        throw new Error(plan.verificationFailureMessage ?? '다운로드 검증 실패');
+      }
+    }
+
+    return filePath;
+  }
+
+  /**
+   * 아티팩트를 `.part` 파일로 받는다 (전송 속도 제한 적용)
+   */
+  private async transferArtifact(
+    filePath: string,
+    plan: LanguageArtifactDownloadPlan,
+    onProgress?: (progress: DownloadProgressEvent) => void
+  ): Promise<void> {
+    const authHeaders = getRegistryAuthHeaders(plan.downloadUrl);
+    const offset = await getResumeOffset(filePath, plan.downloadUrl, this.packageFetchPort, undefined, authHeaders);
     const response = await axios({
       method: 'GET',
       url: plan.downloadUrl,
       responseType: 'stream',
       timeout: plan.timeoutMs,
+      headers: {
+        ...authHeaders,
+        ...(offset > 0 && { Range: `bytes=${offset}-` }),
+      },
     });
 
-    const totalBytes = parseInt(response.headers['content-length'] || '0', 10);
-    let downloadedBytes = 0;
-    let lastBytes = 0;
+    const resumed = isResumedResponse(response.status, response.headers['content-range'], offset);
+    const startBytes = resumed ? offset : 0;
+    const contentLength = parseInt(response.headers['content-length'] || '0', 10);
+    const totalBytes = contentLength > 0 ? startBytes + contentLength : 0;
+    let downloadedBytes = startBytes;
+    let lastBytes = startBytes;
     let lastTime = Date.now();
     let currentSpeed = 0;
 
-    const writer = fs.createWriteStream(filePath);
+    const state = {
+      url: plan.downloadUrl,
+      etag: response.headers.etag as string | undefined,
+      lastModified: response.headers['last-modified'] as string | undefined,
+      ...(totalBytes > 0 && { totalBytes }),
+    };
+    await writePartialDownloadState(filePath, { ...state, bytesReceived: startBytes });
+
+    const writer = fs.createWriteStream(getPartialDownloadPath(filePath), { flags: resumed ? 'a' : 'w' });
 
     response.data.on('data', (chunk: Buffer) => {
       downloadedBytes += chunk.length;
@@ -59,35 +120,36 @@ export abstract class BaseLanguageDownloader {
       });
     });
 
-    response.data.pipe(writer);
+    response.data.pipe(getTransferLimiter().createThrottleStream()).pipe(writer);
 
-    await new Promise<void>((resolve, reject) => {
-      writer.on('finish', resolve);
-      writer.on('error', reject);
-    });
-
-    if (plan.verifyFile) {
-      const isValid = await plan.verifyFile(filePath);
-      if (!isValid) {
-        await fs.remove(filePath);
-        throw new Error(plan.verificationFailureMessage ?? '다운로드 검증 실패');
-      }
+    try {
+      await new Promise<void>((resolve, reject) => {
+        writer.on('finish', resolve);
+        writer.on('error', reject);
+        // 전송 중 연결이 끊기면 pipe가 오류를 넘기지 않으므로 직접 처리
+        response.data.on('error', (error: Error) => {
+          writer.end();
+          reject(error);
+        });
+      });
+    } catch (error) {
+      await writePartialDownloadState(filePath, { ...state, bytesReceived: downloadedBytes }).catch(() => undefined);
+      throw error;
     }
-
-    return filePath;
   }
 
   private resolveFilePath(plan: LanguageArtifactDownloadPlan, destPath: string): string {
+    const invalidPathChars = plan.invalidPathChars ?? /[^a-zA-Z0-9._-]/g;
     if (plan.relativeFilePath) {
       const relativePathSegments = plan.relativeFilePath
         .split(/[\\/]+/)
         .filter(Boolean)
-        .map((segment) => sanitizePath(segment, /[^a-zA-Z0-9._-]/g));
+        .map((segment) => sanitizePath(segment, invalidPathChars));
       return path.join(destPath, ...relativePathSegments);
     }
 
     const rawFileName = plan.fileName ?? path.basename(new URL(plan.downloadUrl).pathname);
-    const fileName = sanitizePath(rawFileName, /[^a-zA-Z0-9._-]/g);
+    const fileName = sanitizePath(rawFileName, invalidPathChars);
     return path.join(destPath, fileName);
   }
 }
@@ -29,6 +29,15 @@ vi.mock('axios', () => {
   };
 });
 
+// 이어받기 상태 파일은 실제 디스크에 쓰지 않음
+vi.mock('../shared/resumable-download', () => ({
+  completePartialDownload: vi.fn().mockResolvedValue(undefined),
+  getPartialDownloadPath: vi.fn((filePath: string) => `${filePath}.part`),
+  getResumeOffset: vi.fn().mockResolvedValue(0),
+  isResumedResponse: vi.fn().mockReturnValue(false),
+  writePartialDownloadState: vi.fn().mockResolvedValue(undefined),
+}));
+
 // fs-extra 모킹
 vi.mock('fs-extra', async () => {
   const actual = await vi.importActual('fs-extra');
@@ -29,6 +29,15 @@ vi.mock('axios', () => {
   };
 });
 
+// 이어받기 상태 파일은 실제 디스크에 쓰지 않음
+vi.mock('../shared/resumable-download', () => ({
+  completePartialDownload: vi.fn().mockResolvedValue(undefined),
+  getPartialDownloadPath: vi.fn((filePath: string) => `${filePath}.part`),
+  getResumeOffset: vi.fn().mockResolvedValue(0),
+  isResumedResponse: vi.fn().mockReturnValue(false),
+  writePartialDownloadState: vi.fn().mockResolvedValue(undefined),
+}));
+
 // fs-extra 모킹
 vi.mock('fs-extra', async () => {
   const actual = await vi.importActual('fs-extra');
@@ -177,6 +186,50 @@ describe('NpmDownloader downloadPackage 테스트', () => {
       await expect(downloadPromise).rejects.toThrow('무결성 검증 실패');
     });
 
+    it('잠금 파일 패키지는 레지스트리 조회 없이 resolved URL과 integrity를 사용', async () => {
+      const mockGetPackageMetadata = vi.fn();
+      (downloader as any).getPackageMetadata = mockGetPackageMetadata;
+
+      const mockStream = new EventEmitter();
+      (mockStream as any).pipe = vi.fn().mockReturnValue(mockStream);
+
+      mockAxiosDefault.mockResolvedValue({
+        data: mockStream,
+        headers: { 'content-length': '1000' },
+      });
+
+      const mockWriter = new EventEmitter();
+      (fs.createWriteStream as any).mockReturnValue(mockWriter);
+
+      const mockVerifyIntegrity = vi.fn().mockResolvedValue(true);
+      (downloader as any).verifyIntegrity = mockVerifyIntegrity;
+
+      const info = {
+        type: 'npm' as const,
+        name: 'test-pkg',
+        version: '1.0.0',
+        metadata: {
+          lockfile: 'package-lock',
+          downloadUrl: 'https://mirror.example.com/test-pkg/-/test-pkg-1.0.0.tgz',
+          integrity: 'sha512-lockedhash',
+        },
+      };
+      const downloadPromise = downloader.downloadPackage(info, '/tmp/test');
+
+      setTimeout(() => {
+        mockStream.emit('data', Buffer.from('test data'));
+        mockWriter.emit('finish');
+      }, 10);
+
+      const result = await downloadPromise;
+      expect(mockGetPackageMetadata).not.toHaveBeenCalled();
+      expect(mockAxiosDefault).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://mirror.example.com/test-pkg/-/test-pkg-1.0.0.tgz' })
+      );
+      expect(mockVerifyIntegrity).toHaveBeenCalledWith(expect.any(String), 'sha512-lockedhash');
+      expect(result).toContain('test-pkg-1.0.0.tgz');
+    });
+
     it('sha1 체크섬 검증 성공', async () => {
       const mockGetPackageMetadata = vi.fn().mockResolvedValue({
         name: 'test-pkg',
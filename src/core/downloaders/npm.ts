@@ -18,6 +18,7 @@ import { BaseLanguageDownloader } from './lang-shared/base-language-downloader';
 import logger from '../../utils/logger';
 import { NPM_CONSTANTS } from '../constants/npm';
 import { clearNpmCache } from '../shared/npm-cache';
+import { isNpmLockedPackage } from '../shared/npm-lockfile';
 import {
   NpmPackageVersion,
   NpmSearchResponse,
@@ -133,14 +134,18 @@ export class NpmDownloader extends BaseLanguageDownloader implements IDownloader
     onProgress?: (progress: DownloadProgressEvent) => void
   ): Promise<string> {
     try {
-      const packageInfo = await this.getPackageMetadata(info.name, info.version);
-      const downloadUrl = packageInfo.metadata?.downloadUrl;
+      // 잠금 파일 패키지는 기록된 tarball URL과 integrity를 우선 사용 (URL이 없을 때만 레지스트리 조회)
+      const locked = isNpmLockedPackage(info);
+      const lockedUrl = locked ? info.metadata?.downloadUrl : undefined;
+      const lockedIntegrity = locked ? (info.metadata?.integrity as string | undefined) : undefined;
+      const packageInfo = lockedUrl ? info : await this.getPackageMetadata(info.name, info.version);
+      const downloadUrl = lockedUrl ?? packageInfo.metadata?.downloadUrl;
 
       if (!downloadUrl) {
         throw new Error(`다운로드 URL을 찾을 수 없습니다: ${info.name}@${info.version}`);
       }
 
-      const expectedIntegrity = packageInfo.metadata?.checksum?.sha512;
+      const expectedIntegrity = lockedIntegrity ?? packageInfo.metadata?.checksum?.sha512;
       const expectedSha1 = packageInfo.metadata?.checksum?.sha1;
       const filePath = await this.downloadArtifactFile(
         destPath,
@@ -0,0 +1,87 @@
+/**
+ * NuGet downloader의 downloadPackage 테스트
+ * nuget-cache와 axios를 모킹하고 임시 디렉토리에 로컬 피드를 구성한다
+ */
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockAxiosDefault, fetchNuGetNuspec } = vi.hoisted(() => ({
+  mockAxiosDefault: vi.fn(),
+  fetchNuGetNuspec: vi.fn(),
+}));
+
+vi.mock('axios', () => ({
+  default: mockAxiosDefault,
+}));
+
+vi.mock('../shared/nuget-cache', () => ({
+  clearNuGetCache: vi.fn(),
+  fetchNuGetServiceEndpoints: vi.fn(),
+  fetchNuGetVersions: vi.fn(),
+  fetchNuGetNuspec,
+  getNuGetPackageBaseUrl: vi.fn(async (id: string, version: string) =>
+    `https://api.nuget.org/v3-flatcontainer/${id.toLowerCase()}/${version}`),
+}));
+
+import { NuGetDownloader } from './nuget';
+
+const NUPKG_CONTENT = Buffer.from('nupkg');
+const NUSPEC = '<package><metadata><id>Newtonsoft.Json</id><version>13.0.3</version></metadata></package>';
+
+describe('NuGetDownloader downloadPackage 테스트', () => {
+  let tempDir: string;
+  let downloader: NuGetDownloader;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nuget-download-'));
+    downloader = new NuGetDownloader();
+    mockAxiosDefault.mockImplementation(async () => ({
+      data: Readable.from([NUPKG_CONTENT]),
+      headers: { 'content-length': String(NUPKG_CONTENT.length) },
+    }));
+    fetchNuGetNuspec.mockResolvedValue(NUSPEC);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('nuget-feed/<id>/<version>/ 계층 레이아웃으로 .nupkg, .sha512, .nuspec을 저장한다', async () => {
+    const filePath = await downloader.downloadPackage(
+      { type: 'nuget', name: 'Newtonsoft.Json', version: '13.0.3' },
+      tempDir
+    );
+
+    const packageDir = path.join(tempDir, 'nuget-feed', 'newtonsoft.json', '13.0.3');
+    expect(filePath).toBe(path.join(packageDir, 'newtonsoft.json.13.0.3.nupkg'));
+    expect(await fs.readFile(filePath)).toEqual(NUPKG_CONTENT);
+    expect(await fs.readFile(`${filePath}.sha512`, 'utf8')).toBe(
+      createHash('sha512').update(NUPKG_CONTENT).digest('base64')
+    );
+    expect(await fs.readFile(path.join(packageDir, 'newtonsoft.json.nuspec'), 'utf8')).toBe(NUSPEC);
+    expect(mockAxiosDefault).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://api.nuget.org/v3-flatcontainer/newtonsoft.json/13.0.3/newtonsoft.json.13.0.3.nupkg',
+      })
+    );
+  });
+
+  it('id에 상위 경로가 있어도 .nuspec을 피드 밖이 아닌 .nupkg와 같은 디렉토리에 쓴다', async () => {
+    const feedDir = path.join(tempDir, 'feed');
+    const filePath = await downloader.downloadPackage(
+      { type: 'nuget', name: '../../../Evil', version: '1.0.0' },
+      feedDir
+    );
+
+    const feedRoot = path.join(feedDir, 'nuget-feed');
+    expect(filePath.startsWith(`${feedRoot}${path.sep}`)).toBe(true);
+    const written = await fs.readdir(path.dirname(filePath));
+    expect(written.filter((name) => name.endsWith('.nuspec'))).toEqual(['evil.nuspec']);
+    expect(await fs.readdir(tempDir)).toEqual(['feed']);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * NuGet 패키지 다운로더
+ * V3 flat container에서 `.nupkg`와 `.nuspec`을 받아 출력 경로에 로컬 NuGet 피드를 구성
+ *
+ * 출력 트리(`nuget-feed/<id>/<version>/`)는 `nuget add`가 만드는 계층 레이아웃과 같아
+ * `dotnet nuget add source <경로>` 또는 `dotnet restore --source <경로>`로 그대로 사용할 수 있다.
+ */
+
+import * as path from 'path';
+import axios from 'axios';
+import * as fs from 'fs-extra';
+import {
+  PackageInfo,
+  IDownloader,
+  DownloadProgressEvent,
+} from '../../types';
+import { BaseLanguageDownloader } from './lang-shared/base-language-downloader';
+import logger from '../../utils/logger';
+import { NUGET_CONSTANTS } from '../constants/nuget';
+import { calculateFileChecksum } from '../shared/integrity/checksum';
+import {
+  clearNuGetCache,
+  fetchNuGetNuspec,
+  fetchNuGetServiceEndpoints,
+  fetchNuGetVersions,
+  getNuGetPackageBaseUrl,
+  type NuGetCacheOptions,
+} from '../shared/nuget-cache';
+import {
+  compareNuGetVersions,
+  getNuGetPackageDir,
+  getNuGetPackageFileName,
+  parseNuspec,
+  selectLatestNuGetVersion,
+} from '../shared/nuget-utils';
+import { sanitizePath } from '../shared/path-utils';
+import type { NuGetSearchItem } from '../shared/nuget-types';
+
+/** 로컬 피드 경로에 쓰이는 문자 외에는 치환 (소문자 id, 정규화 버전) */
+const NUGET_FEED_INVALID_PATH_CHARS = /[^a-z0-9._-]/g;
+
+/**
+ * NuGet 다운로더 클래스
+ */
+export class NuGetDownloader extends BaseLanguageDownloader implements IDownloader {
+  readonly type = 'nuget' as const;
+  private readonly cacheOptions: NuGetCacheOptions;
+
+  constructor(serviceIndexUrl = NUGET_CONSTANTS.DEFAULT_SERVICE_INDEX_URL) {
+    super();
+    this.cacheOptions = { serviceIndexUrl };
+  }
+
+  /**
+   * 패키지 검색 (서비스 인덱스의 SearchQueryService)
+   */
+  async searchPackages(query: string): Promise<PackageInfo[]> {
+    const keyword = query.trim();
+    if (!keyword) {
+      return [];
+    }
+
+    try {
+      const { searchQueryService } = await fetchNuGetServiceEndpoints(this.cacheOptions);
+      if (!searchQueryService) {
+        logger.debug('NuGet 피드에 검색 서비스가 없음', { serviceIndexUrl: this.cacheOptions.serviceIndexUrl });
+        return [];
+      }
+
+      const response = await axios.get<{ data: NuGetSearchItem[] }>(searchQueryService, {
+        params: { q: keyword, take: 20, prerelease: false, semVerLevel: '2.0.0' },
+        timeout: NUGET_CONSTANTS.API_TIMEOUT_MS,
+      });
+      return response.data.data.map((item) => ({
+        type: 'nuget',
+        name: item.id,
+        version: item.version,
+        metadata: { description: item.description, downloads: item.totalDownloads },
+      }));
+    } catch (error) {
+      logger.debug('NuGet 검색 실패', { query, error });
+      return [];
+    }
+  }
+
+  /**
+   * 패키지 버전 목록 조회 (최신순)
+   */
+  async getVersions(packageName: string): Promise<string[]> {
+    const versions = await fetchNuGetVersions(packageName, this.cacheOptions);
+    return [...versions].sort(compareNuGetVersions).reverse();
+  }
+
+  /**
+   * 패키지 메타데이터 조회
+   */
+  async getPackageMetadata(name: string, version: string): Promise<PackageInfo> {
+    const resolvedVersion = !version || version === 'latest'
+      ? selectLatestNuGetVersion(await fetchNuGetVersions(name, this.cacheOptions))
+      : version;
+    if (!resolvedVersion) {
+      throw new Error(`NuGet 패키지 버전을 찾을 수 없습니다: ${name}@${version}`);
+    }
+    const nuspec = parseNuspec(await fetchNuGetNuspec(name, resolvedVersion, this.cacheOptions));
+
+    return {
+      type: 'nuget',
+      name: nuspec.id,
+      version: nuspec.version,
+      metadata: {
+        description: nuspec.description,
+        downloadUrl: await this.getDownloadUrl(nuspec.id, nuspec.version),
+      },
+    };
+  }
+
+  /**
+   * 패키지 다운로드
+   *
+   * `<destPath>/nuget-feed/<id>/<version>/`에 `.nupkg`, `.nupkg.sha512`(base64), `.nuspec`을 저장한다.
+   */
+  async downloadPackage(
+    info: PackageInfo,
+    destPath: string,
+    onProgress?: (progress: DownloadProgressEvent) => void
+  ): Promise<string> {
+    const feedRoot = path.join(destPath, NUGET_CONSTANTS.FEED_DIR);
+    const packageDir = getNuGetPackageDir(info.name, info.version);
+
+    try {
+      const nupkgPath = await this.downloadArtifactFile(
+        feedRoot,
+        {
+          downloadUrl: await this.getDownloadUrl(info.name, info.version),
+          itemId: `${info.name}@${info.version}`,
+          timeoutMs: NUGET_CONSTANTS.DOWNLOAD_TIMEOUT_MS,
+          relativeFilePath: `${packageDir}/${getNuGetPackageFileName(info.name, info.version)}`,
+          invalidPathChars: NUGET_FEED_INVALID_PATH_CHARS,
+        },
+        onProgress
+      );
+
+      const sha512 = await calculateFileChecksum(nupkgPath, 'sha512');
+      await fs.writeFile(`${nupkgPath}.sha512`, Buffer.from(sha512, 'hex').toString('base64'));
+      // id는 원격 nuspec에서 온 값일 수 있으므로 .nupkg와 같은 규칙으로 정리한 파일명을 쓴다
+      await fs.writeFile(
+        path.join(path.dirname(nupkgPath), `${sanitizePath(info.name.toLowerCase(), NUGET_FEED_INVALID_PATH_CHARS)}.nuspec`),
+        await fetchNuGetNuspec(info.name, info.version, this.cacheOptions)
+      );
+
+      logger.info('NuGet 패키지 다운로드 완료', { package: info.name, version: info.version, filePath: nupkgPath });
+      return nupkgPath;
+    } catch (error) {
+      logger.error('NuGet 패키지 다운로드 실패', { package: info.name, version: info.version, error });
+      throw error;
+    }
+  }
+
+  /**
+   * 캐시 초기화
+   */
+  clearCache(): void {
+    clearNuGetCache();
+  }
+
+  private async getDownloadUrl(name: string, version: string): Promise<string> {
+    return `${await getNuGetPackageBaseUrl(name, version, this.cacheOptions)}/${getNuGetPackageFileName(name, version)}`;
+  }
+}
+
+// 싱글톤 인스턴스
+let nugetDownloaderInstance: NuGetDownloader | null = null;
+
+export function getNuGetDownloader(): NuGetDownloader {
+  if (!nugetDownloaderInstance) {
+    nugetDownloaderInstance = new NuGetDownloader();
+  }
+  return nugetDownloaderInstance;
+}
+
+export { nugetDownloaderInstance };
@@ -158,8 +158,8 @@ describe('OS metadata parsers', () => {
       '      <rpm:license>OpenSSL</rpm:license>',
       '      <rpm:requires>',
       '        <rpm:entry name="rpmlib(CompressedFileNames)" flags="EQ" ver="3.0.4-1" />',
-      '        <rpm:entry name="libcrypto.so.3()(64bit)" flags="GE" ver="3.0.0" />',
-      '        <rpm:entry name="openssl" flags="EQ" ver="3.0.0" pre="1" />',
+      '        <rpm:entry name="libcrypto.so.3()(64bit)" flags="GE" ver="3.10" />',
+      '        <rpm:entry name="openssl" flags="EQ" epoch="1" ver="3.0.0" rel="1.el9" pre="1" />',
       '      </rpm:requires>',
       '      <rpm:provides>',
       '        <rpm:entry name="libcrypto.so.3()(64bit)" />',
@@ -199,17 +199,40 @@ describe('OS metadata parsers', () => {
           expect.objectContaining({
             name: 'libcrypto.so.3()(64bit)',
             operator: '>=',
-            version: '3.0.0',
+            version: '3.10',
             isOptional: false,
           }),
           expect.objectContaining({
             name: 'openssl',
             operator: '=',
-            version: '3.0.0',
+            version: '1:3.0.0-1.el9',
             isOptional: true,
           }),
         ],
       }),
     ]);
   });
+
+  it('YUM parser는 EL8 AppStream의 modules.yaml.xz를 풀어 모듈 스트림을 읽는다', async () => {
+    const parser = new YumMetadataParser(repo, 'x86_64');
+    // nodejs:18 스트림 하나만 담은 modules.yaml을 xz로 압축한 값
+    const modulesXz = Buffer.from(
+      '/Td6WFoAAATm1rRGBMC1Ad4BIQEcAAAAAAAAAFHxlSXgAN0ArV0AFuf+jQfRZtr91z25oDN6oEBiPr63uia8xglqANGsC/TL307zmjc/gWf4oeVR4MCY+IxyvUKuzU8K789tIr877EM+acjclAjk8b6GBrYzHCh0viWd09gNFl/HPLRNt7Cb3XjmFPidoTGY8qfnzZm7m3kUqeGcqtExjDZJybES1kzfJTygjhyis8+g93TeLIzcFsEyT2XECRdyOE6DFwTj/9wbC9HhC0Vwpp6E4ZEAAAAAXuF8tFxEFRwAAdEB3gEAAHqWHuCxxGf7AgAAAAAEWVo=',
+      'base64'
+    );
+    fetchMock.mockResolvedValueOnce(new Response(modulesXz));
+
+    const metadata = await parser.parseModules('repodata/abc-modules.yaml.xz');
+
+    expect(fetchMock).toHaveBeenCalledWith('https://example.test/repo/repodata/abc-modules.yaml.xz', expect.anything());
+    expect(metadata.streams).toEqual([
+      expect.objectContaining({
+        name: 'nodejs',
+        stream: '18',
+        version: '8060020220523160029',
+        context: 'ad008a3a',
+        artifacts: ['nodejs-1:18.14.2-2.module+el8.7.0+1139+7bff3a0a.x86_64'],
+      }),
+    ]);
+  });
 });
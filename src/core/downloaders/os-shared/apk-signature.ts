@@ -0,0 +1,197 @@
+/**
+ * Alpine APK Signature Reader
+ * APK v2 패키지(서명/제어/데이터 gzip 스트림 3개를 이어 붙인 형식)의 .SIGN.RSA 서명과 데이터 해시 검증
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { inflateRawSync } from 'zlib';
+
+/** 서명/제어 스트림을 찾기 위해 읽는 파일 앞부분 크기 */
+const APK_PREFIX_SIZE = 8 * 1024 * 1024;
+const TAR_BLOCK_SIZE = 512;
+
+const GZIP_FLAG_HCRC = 0x02;
+const GZIP_FLAG_EXTRA = 0x04;
+const GZIP_FLAG_NAME = 0x08;
+const GZIP_FLAG_COMMENT = 0x10;
+
+/** 서명 파일 이름 접두사 → 해시 알고리즘 */
+const SIGNATURE_PREFIXES: Array<[string, string]> = [
+  ['.SIGN.RSA256.', 'sha256'],
+  ['.SIGN.RSA.', 'sha1'],
+];
+
+/**
+ * APK 서명 정보
+ */
+export interface ApkSignatureInfo {
+  /** 서명한 키 파일 이름 (예: alpine-devel@lists.alpinelinux.org-6165ee59.rsa.pub) */
+  keyName: string;
+  /** 서명 해시 알고리즘 */
+  algorithm: string;
+  signature: Buffer;
+  /** 서명 대상인 제어 gzip 스트림 원본 바이트 */
+  control: Buffer;
+  /** .PKGINFO 필드 */
+  pkginfo: Map<string, string>;
+  /** 데이터 gzip 스트림 시작 위치 */
+  dataOffset: number;
+}
+
+/**
+ * APK 서명 검증 결과
+ */
+export interface ApkVerificationResult {
+  valid: boolean;
+  keyName?: string;
+  reason?: 'key-not-found' | 'signature-invalid';
+  error?: string;
+}
+
+/**
+ * APK 서명 스트림과 제어 스트림 읽기
+ */
+export async function readApkSignature(filePath: string): Promise<ApkSignatureInfo> {
+  const file = await fs.promises.open(filePath, 'r');
+  let prefix: Buffer;
+  try {
+    const buffer = Buffer.alloc(APK_PREFIX_SIZE);
+    const { bytesRead } = await file.read(buffer, 0, APK_PREFIX_SIZE, 0);
+    prefix = buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+
+  const signatureMember = readGzipMember(prefix, 0);
+  const controlMember = readGzipMember(prefix, signatureMember.end);
+
+  let signatureEntry: { keyName: string; algorithm: string; data: Buffer } | undefined;
+  for (const entry of readTarEntries(signatureMember.content)) {
+    const match = SIGNATURE_PREFIXES.find(([signaturePrefix]) => entry.name.startsWith(signaturePrefix));
+    if (match) {
+      signatureEntry = { keyName: entry.name.slice(match[0].length), algorithm: match[1], data: entry.data };
+      break;
+    }
+  }
+  if (!signatureEntry) {
+    throw new Error('APK package is not signed (no .SIGN.RSA entry)');
+  }
+
+  const pkginfoEntry = readTarEntries(controlMember.content).find((entry) => entry.name === '.PKGINFO');
+  if (!pkginfoEntry) {
+    throw new Error('APK control stream has no .PKGINFO');
+  }
+
+  return {
+    keyName: signatureEntry.keyName,
+    algorithm: signatureEntry.algorithm,
+    signature: signatureEntry.data,
+    control: prefix.subarray(signatureMember.end, controlMember.end),
+    pkginfo: parsePkgInfo(pkginfoEntry.data.toString('utf8')),
+    dataOffset: controlMember.end,
+  };
+}
+
+/**
+ * APK 서명 검증
+ *
+ * 제어 스트림의 RSA 서명을 키 이름으로 찾은 공개키로 확인하고, .PKGINFO의 datahash로 데이터 스트림을 확인한다.
+ */
+export async function verifyApkPackage(
+  filePath: string,
+  getPublicKey: (keyName: string) => Promise<crypto.KeyObject | undefined>
+): Promise<ApkVerificationResult> {
+  const info = await readApkSignature(filePath);
+  const key = await getPublicKey(info.keyName);
+  if (!key) {
+    return { valid: false, keyName: info.keyName, reason: 'key-not-found', error: `No public key ${info.keyName}` };
+  }
+
+  if (!crypto.verify(info.algorithm, info.control, key, info.signature)) {
+    return { valid: false, keyName: info.keyName, reason: 'signature-invalid', error: 'APK control signature is invalid' };
+  }
+
+  const expected = info.pkginfo.get('datahash');
+  if (!expected) {
+    return { valid: false, keyName: info.keyName, reason: 'signature-invalid', error: 'APK .PKGINFO has no datahash' };
+  }
+
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath, { start: info.dataOffset })) {
+    hash.update(chunk as Buffer);
+  }
+  const actual = hash.digest('hex');
+  if (actual !== expected.toLowerCase()) {
+    return {
+      valid: false,
+      keyName: info.keyName,
+      reason: 'signature-invalid',
+      error: `APK data hash mismatch: expected ${expected}, got ${actual}`,
+    };
+  }
+
+  return { valid: true, keyName: info.keyName };
+}
+
+/**
+ * gzip 멤버 하나를 풀고 끝 위치를 돌려준다
+ */
+function readGzipMember(data: Buffer, offset: number): { content: Buffer; end: number } {
+  if (data.length < offset + 18 || data[offset] !== 0x1f || data[offset + 1] !== 0x8b || data[offset + 2] !== 8) {
+    throw new Error(`Invalid APK gzip stream at offset ${offset}`);
+  }
+
+  const flags = data[offset + 3];
+  let position = offset + 10;
+  if (flags & GZIP_FLAG_EXTRA) {
+    position += 2 + data.readUInt16LE(position);
+  }
+  if (flags & GZIP_FLAG_NAME) {
+    position = data.indexOf(0, position) + 1;
+  }
+  if (flags & GZIP_FLAG_COMMENT) {
+    position = data.indexOf(0, position) + 1;
+  }
+  if (flags & GZIP_FLAG_HCRC) {
+    position += 2;
+  }
+
+  const { buffer: content, engine } = inflateRawSync(data.subarray(position), { info: true }) as unknown as {
+    buffer: Buffer;
+    engine: { bytesWritten: number };
+  };
+  // deflate 스트림 뒤에 CRC32와 원본 크기 8바이트
+  return { content, end: position + engine.bytesWritten + 8 };
+}
+
+function readTarEntries(data: Buffer): Array<{ name: string; data: Buffer }> {
+  const entries: Array<{ name: string; data: Buffer }> = [];
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const name = header.toString('utf8', 0, 100).replace(/\0.*$/s, '');
+    const size = parseInt(header.toString('ascii', 124, 136).replace(/\0.*$/s, '').trim() || '0', 8);
+    const start = offset + TAR_BLOCK_SIZE;
+    entries.push({ name, data: data.subarray(start, start + size) });
+    offset = start + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+  }
+
+  return entries;
+}
+
+function parsePkgInfo(content: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const line of content.split('\n')) {
+    const match = line.match(/^([\w-]+)\s*=\s*(.*)$/);
+    if (match && !fields.has(match[1])) {
+      fields.set(match[1], match[2].trim());
+    }
+  }
+  return fields;
+}
@@ -3,7 +3,9 @@ import * as os from 'os';
 import * as path from 'path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { BaseOSDownloader, type BaseDownloaderOptions } from './base-downloader';
+import { GPGVerifier } from './gpg-verifier';
 import type { OSPackageInfo } from './types';
+import type { PackageFetchPort } from '../../ports/package-fetch-port';
 
 class TestDownloader extends BaseOSDownloader {
   failures: Array<Error | null> = [];
@@ -32,6 +34,10 @@ class TestDownloader extends BaseOSDownloader {
   async exposeDownloadFile(url: string, destPath: string, pkg: OSPackageInfo): Promise<void> {
     await super.downloadFile(url, destPath, pkg);
   }
+
+  setHeadPackage(headPackage: PackageFetchPort['headPackage']): void {
+    this.packageFetchPort = { headPackage };
+  }
 }
 
 describe('BaseOSDownloader', () => {
@@ -129,6 +135,32 @@ describe('BaseOSDownloader', () => {
     expect(result.error?.message).toBe('network down');
   });
 
+  it('서명 검증 실패는 재시도 없이 gpg 오류로 보고한다', async () => {
+    const gpgVerifier = new GPGVerifier();
+    const verifyPackage = vi.spyOn(gpgVerifier, 'verifyPackage').mockResolvedValue({
+      verified: false,
+      skipped: false,
+      reason: 'signature-invalid',
+      error: new Error('bash.rpm: OpenPGP signature does not match key 24C6A8A7F4A80EB5'),
+    });
+    const onError = vi.fn().mockResolvedValue('skip');
+    const downloader = new TestDownloader(createOptions({ gpgVerifier, onError }));
+
+    const result = await downloader.downloadPackage(pkg);
+
+    expect(verifyPackage).toHaveBeenCalledTimes(1);
+    expect(verifyPackage).toHaveBeenCalledWith(pkg, path.join(tempDir, 'bash.pkg'), {
+      distribution: expect.objectContaining({ id: 'rocky-9' }),
+      architecture: 'x86_64',
+    });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'gpg',
+      retryable: false,
+      message: expect.stringContaining('signature-invalid'),
+    }));
+    expect(result).toEqual(expect.objectContaining({ success: false, skipped: true }));
+  });
+
   it('응답 본문을 읽을 수 없으면 다운로드를 실패 처리한다', async () => {
     const downloader = new TestDownloader(createOptions());
     fetchMock.mockResolvedValue({
@@ -167,4 +199,60 @@ describe('BaseOSDownloader', () => {
       })
     );
   });
+
+  it('남은 .part가 있고 원격 파일이 그대로면 Range 요청으로 이어받는다', async () => {
+    const downloader = new TestDownloader(createOptions());
+    const destPath = path.join(tempDir, 'resumed.pkg');
+    const url = 'https://example.test/bash';
+    fs.writeFileSync(`${destPath}.part`, 'hel');
+    fs.writeFileSync(`${destPath}.part.json`, JSON.stringify({ url, lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT', bytesReceived: 3 }));
+    downloader.setHeadPackage(vi.fn().mockResolvedValue({
+      url,
+      status: 200,
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      contentLength: 5,
+      headers: {},
+    }));
+    fetchMock.mockResolvedValue(
+      new Response('lo', {
+        status: 206,
+        headers: { 'content-length': '2', 'content-range': 'bytes 3-4/5' },
+      })
+    );
+
+    await downloader.exposeDownloadFile(url, destPath, pkg);
+
+    expect(fetchMock).toHaveBeenCalledWith(url, expect.objectContaining({ headers: { Range: 'bytes=3-' } }));
+    expect(fs.readFileSync(destPath, 'utf-8')).toBe('hello');
+    expect(fs.existsSync(`${destPath}.part`)).toBe(false);
+    expect(fs.existsSync(`${destPath}.part.json`)).toBe(false);
+  });
+
+  it('다운로드가 중간에 실패하면 다음 시도에서 이어받을 수 있도록 .part를 남긴다', async () => {
+    const downloader = new TestDownloader(createOptions());
+    const destPath = path.join(tempDir, 'broken.pkg');
+    let pulls = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (pulls++ === 0) {
+          controller.enqueue(new TextEncoder().encode('hel'));
+        } else {
+          controller.error(new Error('connection reset'));
+        }
+      },
+    });
+    fetchMock.mockResolvedValue(
+      new Response(body, { status: 200, headers: { 'content-length': '5', etag: '"v1"' } })
+    );
+
+    await expect(
+      downloader.exposeDownloadFile('https://example.test/bash', destPath, pkg)
+    ).rejects.toThrow('connection reset');
+
+    expect(fs.readFileSync(`${destPath}.part`, 'utf-8')).toBe('hel');
+    expect(JSON.parse(fs.readFileSync(`${destPath}.part.json`, 'utf-8'))).toEqual(
+      expect.objectContaining({ etag: '"v1"', totalBytes: 5, bytesReceived: 3 })
+    );
+    expect(fs.existsSync(destPath)).toBe(false);
+  });
 });
@@ -5,8 +5,17 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { GPGVerifier, type VerificationResult } from './gpg-verifier';
+import { GPGVerificationError, GPGVerifier, type VerificationResult } from './gpg-verifier';
 import { getDownloadedFileKey } from './package-file-utils';
+import { FetchApiPackageFetchPort } from '../../ports/fetch-api-package-fetch-port';
+import {
+  completePartialDownload,
+  getPartialDownloadPath,
+  getResumeOffset,
+  isResumedResponse,
+  writePartialDownloadState,
+} from '../../shared/resumable-download';
+import { getTransferLimiter } from '../../shared/transfer-limiter';
 import type {
   OSPackageInfo,
   Repository,
@@ -16,6 +25,7 @@ import type {
   OSDownloadError,
   OSErrorAction,
 } from './types';
+import type { PackageFetchPort } from '../../ports/package-fetch-port';
 
 /**
  * 다운로드 결과
@@ -72,6 +82,8 @@ export abstract class BaseOSDownloader {
   protected options: BaseDownloaderOptions;
   protected maxRetries = 3;
   protected retryDelay = 1000;
+  /** 이어받기 전 원격 파일의 ETag/Last-Modified 확인에 사용 */
+  protected packageFetchPort: Pick<PackageFetchPort, 'headPackage'> = new FetchApiPackageFetchPort();
 
   constructor(options: BaseDownloaderOptions) {
     this.options = options;
@@ -133,10 +145,13 @@ export abstract class BaseOSDownloader {
         // GPG 검증
         let verification: VerificationResult | undefined;
         if (this.options.gpgVerifier) {
-          verification = await this.options.gpgVerifier.verifyPackage(pkg, filePath);
+          verification = await this.options.gpgVerifier.verifyPackage(pkg, filePath, {
+            distribution: this.options.distribution,
+            architecture: this.options.architecture,
+          });
 
           if (!verification.verified && !verification.skipped) {
-            throw new Error(`Verification failed: ${verification.reason}`);
+            throw new GPGVerificationError(verification);
           }
         }
 
@@ -156,18 +171,21 @@ export abstract class BaseOSDownloader {
           };
         }
 
-        if (attempt < this.maxRetries) {
+        // 서명 불일치는 다시 받아도 같으므로 재시도 없이 바로 보고 (체크섬 불일치는 손상일 수 있어 재시도)
+        const verificationFailure = lastError instanceof GPGVerificationError ? lastError.result.reason : undefined;
+        const gpgFailure = verificationFailure !== undefined && verificationFailure !== 'checksum-mismatch';
+        if (!gpgFailure && attempt < this.maxRetries) {
           // 재시도 전 대기
           await new Promise((resolve) => setTimeout(resolve, this.retryDelay * attempt));
         } else {
           // 마지막 시도 실패 - 사용자에게 물어보기
           if (this.options.onError) {
             const action = await this.options.onError({
-              type: 'network',
+              type: gpgFailure ? 'gpg' : verificationFailure === 'checksum-mismatch' ? 'checksum' : 'network',
               message: lastError.message,
               package: pkg,
               cause: lastError,
-              retryable: true,
+              retryable: !gpgFailure,
             });
 
             if (action === 'retry') {
@@ -183,6 +201,9 @@ export abstract class BaseOSDownloader {
               throw lastError;
             }
           }
+          if (gpgFailure) {
+            break;
+          }
         }
       }
     }
@@ -195,6 +216,9 @@ export abstract class BaseOSDownloader {
 
   /**
    * 파일 다운로드
+   *
+   * `<파일>.part`에 받은 뒤 완료되면 최종 경로로 옮긴다. 재시도나 재실행 시 원격 파일이 그대로면
+   * HTTP Range로 나머지만 받는다. 받는 동안 호스트별 연결 슬롯을 잡고 전송 속도 제한을 따른다.
    */
   protected async downloadFile(
     url: string,
@@ -205,65 +229,97 @@ export abstract class BaseOSDownloader {
       throw this.createAbortError();
     }
 
+    await getTransferLimiter().withHostSlot(url, () => this.transferFile(url, destPath, pkg));
+  }
+
+  private async transferFile(
+    url: string,
+    destPath: string,
+    pkg: OSPackageInfo
+  ): Promise<void> {
+    // 호스트 슬롯을 기다리는 동안 취소됐을 수 있음
+    if (this.options.abortSignal?.aborted) {
+      throw this.createAbortError();
+    }
+
+    const offset = await getResumeOffset(destPath, url, this.packageFetchPort, this.options.abortSignal);
     const response = await fetch(url, {
       signal: this.options.abortSignal,
+      ...(offset > 0 && { headers: { Range: `bytes=${offset}-` } }),
     });
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
+    const resumed = isResumedResponse(response.status, response.headers.get('content-range'), offset);
+    const startBytes = resumed ? offset : 0;
     const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+    const totalBytes = contentLength > 0 ? startBytes + contentLength : 0;
     const reader = response.body?.getReader();
 
     if (!reader) {
       throw new Error('Response body is not readable');
     }
 
-    const chunks: Uint8Array[] = [];
-    let downloaded = 0;
-    let lastBytes = 0;
+    const state = {
+      url,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      ...(totalBytes > 0 && { totalBytes }),
+    };
+    await writePartialDownloadState(destPath, { ...state, bytesReceived: startBytes });
+
+    const file = await fs.promises.open(getPartialDownloadPath(destPath), resumed ? 'a' : 'w');
+    let downloaded = startBytes;
+    let lastBytes = startBytes;
     let lastTime = Date.now();
     let currentSpeed = 0;
 
-    for (;;) {
-      if (this.options.abortSignal?.aborted) {
-        throw this.createAbortError();
-      }
+    try {
+      for (;;) {
+        if (this.options.abortSignal?.aborted) {
+          throw this.createAbortError();
+        }
 
-      const { done, value } = await reader.read();
+        const { done, value } = await reader.read();
 
-      if (done) break;
+        if (done) break;
 
-      chunks.push(value);
-      downloaded += value.length;
+        await getTransferLimiter().consume(value.length);
+        await file.write(value);
+        downloaded += value.length;
 
-      // 속도 계산 (0.3초마다)
-      const now = Date.now();
-      const elapsed = (now - lastTime) / 1000;
-      if (elapsed >= 0.3) {
-        currentSpeed = (downloaded - lastBytes) / elapsed;
-        lastBytes = downloaded;
-        lastTime = now;
-      }
+        // 속도 계산 (0.3초마다)
+        const now = Date.now();
+        const elapsed = (now - lastTime) / 1000;
+        if (elapsed >= 0.3) {
+          currentSpeed = (downloaded - lastBytes) / elapsed;
+          lastBytes = downloaded;
+          lastTime = now;
+        }
 
-      // 진행률 콜백
-      if (this.options.onProgress) {
-        this.options.onProgress({
-          currentPackage: pkg.name,
-          currentIndex: 0,
-          totalPackages: 1,
-          bytesDownloaded: downloaded,
-          totalBytes: contentLength || pkg.size,
-          speed: currentSpeed,
-          phase: 'downloading',
-        });
+        // 진행률 콜백
+        if (this.options.onProgress) {
+          this.options.onProgress({
+            currentPackage: pkg.name,
+            currentIndex: 0,
+            totalPackages: 1,
+            bytesDownloaded: downloaded,
+            totalBytes: totalBytes || pkg.size,
+            speed: currentSpeed,
+            phase: 'downloading',
+          });
+        }
       }
+    } catch (error) {
+      await file.close();
+      await writePartialDownloadState(destPath, { ...state, bytesReceived: downloaded }).catch(() => undefined);
+      throw error;
     }
 
-    // 파일 저장
-    const buffer = Buffer.concat(chunks.map((chunk) => Buffer.from(chunk)));
-    fs.writeFileSync(destPath, buffer);
+    await file.close();
+    await completePartialDownload(destPath);
   }
 
   /**
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { BaseOSDependencyResolver, type DependencyResolverOptions } from './base-resolver';
+import { parseInstalledBaseline } from './installed-baseline';
 import type { OSPackageInfo, PackageDependency, Repository } from './types';
 
 class TestResolver extends BaseOSDependencyResolver {
@@ -97,6 +98,64 @@ describe('BaseOSDependencyResolver', () => {
     expect(resolver.exposeCompare('1.0.0', '=', '1.0.1')).toBe(false);
   });
 
+  it('배포판 패키지 관리자 규칙으로 버전 조건과 최신 버전을 고른다', async () => {
+    const resolver = createResolver({
+      distribution: {
+        id: 'debian-12',
+        name: 'Debian 12',
+        version: '12',
+        packageManager: 'apt',
+        architectures: ['amd64'],
+        defaultRepos: [],
+        extendedRepos: [],
+      },
+      architecture: 'amd64',
+    });
+    const root = createPackage('root', '1.0', 'amd64', [{ name: 'libfoo', version: '1.0~', operator: '>=' }]);
+    resolver.candidates.set('libfoo', [
+      createPackage('libfoo', '1.0-1', 'amd64'),
+      createPackage('libfoo', '1.0~rc1-1', 'amd64'),
+      createPackage('libfoo', '1.0~~beta-1', 'amd64'),
+    ]);
+
+    const result = await resolver.resolveDependencies([root]);
+
+    expect(result.packages.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual(['libfoo@1.0-1', 'root@1.0']);
+    expect(result.conflicts[0].versions.map((pkg) => pkg.version)).toEqual(['1.0-1', '1.0~rc1-1']);
+
+    const yumResolver = createResolver();
+    expect(yumResolver.exposeCompare('1.0', '>=', '1.0~rc1')).toBe(true);
+    expect(yumResolver.exposeCompare('1.0.rc1', '<', '1.0')).toBe(false);
+  });
+
+  it('설치 기준선으로 충족되는 의존성은 빼고 업그레이드가 필요한 패키지만 남긴다', async () => {
+    const resolver = createResolver({
+      installedBaseline: parseInstalledBaseline(
+        ['glibc-2.34-100.el9.x86_64', 'openssl-libs-3.0.1-43.el9_0.x86_64', 'systemd-252-32.el9_4.x86_64'].join('\n'),
+        'yum',
+        'rpm-qa.txt'
+      ),
+    });
+    const root = createPackage('postgresql16-server', '16.4', 'x86_64', [
+      { name: 'glibc', version: '2.34', operator: '>=' },
+      { name: 'systemd' },
+      { name: 'libcrypto.so.3()(64bit)' },
+      { name: 'openssl-libs', version: '3.0.7', operator: '>=' },
+      { name: 'libicu' },
+    ]);
+    resolver.candidates.set('glibc', [createPackage('glibc', '2.34')]);
+    resolver.candidates.set('systemd', [createPackage('systemd', '252')]);
+    resolver.candidates.set('libcrypto.so.3()(64bit)', [createPackage('openssl-libs', '3.0.7')]);
+    resolver.candidates.set('openssl-libs', [createPackage('openssl-libs', '3.0.7')]);
+    resolver.candidates.set('libicu', [createPackage('libicu', '67.1')]);
+
+    const result = await resolver.resolveDependencies([root]);
+
+    expect(result.packages.map((pkg) => pkg.name)).toEqual(['openssl-libs', 'libicu', 'postgresql16-server']);
+    expect(result.satisfiedByBaseline).toEqual(['glibc', 'systemd']);
+    expect(result.unresolved).toEqual([]);
+  });
+
   it('충돌, 누락, 선택 의존성 skip을 함께 처리하고 경고를 생성한다', async () => {
     const resolver = createResolver();
     const root = createPackage('root', '1.0.0', 'x86_64', [
@@ -10,11 +10,14 @@ import type {
   OSDistribution,
   OSArchitecture,
   DependencyResolutionResult,
+  ModuleSelection,
   VersionOperator,
 } from './types';
 import type { OsPackageCache } from './cache-manager';
 import { OSDependencyTree } from './dependency-tree';
 import { isArchitectureCompatible } from './repositories';
+import { compareOSPackages, compareOSVersions, getFullVersion } from './version-compare';
+import { findInstalledPackages, isInstalledAtLeast, type InstalledBaseline } from './installed-baseline';
 import logger from '../../../utils/logger';
 
 /**
@@ -33,6 +36,10 @@ export interface DependencyResolverOptions {
   includeOptional: boolean;
   /** 권장 의존성 포함 여부 */
   includeRecommends: boolean;
+  /** 대상 호스트 설치 기준선 (충족된 의존성은 해결 대상에서 제외) */
+  installedBaseline?: InstalledBaseline;
+  /** 활성화할 모듈 스트림 (yum, 고르지 않은 모듈은 기본 스트림) */
+  moduleStreams?: ModuleSelection[];
   /** 진행 콜백 */
   onProgress?: (message: string, current: number, total: number) => void;
   /** 취소 신호 */
@@ -58,6 +65,8 @@ export abstract class BaseOSDependencyResolver {
   protected options: DependencyResolverOptions;
   protected metadataCache: PackageMetadataCache;
   protected resolvedPackages: Set<string> = new Set();
+  /** 설치 기준선에서 충족된 패키지 이름 */
+  protected baselineSatisfied: Set<string> = new Set();
 
   constructor(options: DependencyResolverOptions) {
     this.options = options;
@@ -93,6 +102,7 @@ export abstract class BaseOSDependencyResolver {
   async resolveDependencies(packages: OSPackageInfo[]): Promise<DependencyResolutionResult> {
     const tree = new OSDependencyTree();
     this.resolvedPackages.clear();
+    this.baselineSatisfied.clear();
 
     this.throwIfAborted();
 
@@ -118,6 +128,9 @@ export abstract class BaseOSDependencyResolver {
     const allPackages = tree.getInstallOrder();
     const missing = tree.getMissingDependencies();
     const conflicts = tree.getConflicts();
+    // 다른 의존성 때문에 결국 받게 된 패키지는 기준선으로 제외한 목록에서 뺀다
+    const downloadedNames = new Set(allPackages.map((pkg) => pkg.name));
+    const satisfiedByBaseline = [...this.baselineSatisfied].filter((name) => !downloadedNames.has(name)).sort();
 
     return {
       packages: allPackages,
@@ -127,6 +140,7 @@ export abstract class BaseOSDependencyResolver {
         versions: c.versions,
       })),
       warnings: this.generateWarnings(tree),
+      ...(this.options.installedBaseline ? { satisfiedByBaseline } : {}),
     };
   }
 
@@ -185,6 +199,12 @@ export abstract class BaseOSDependencyResolver {
         // 의존성을 만족하는 패키지 찾기
         const candidates = await this.findPackagesForDependency(dep);
 
+        // 대상 호스트에 이미 설치되어 있으면 다운로드하지 않음
+        if (this.isSatisfiedByBaseline(dep, candidates)) {
+          logger.debug(`[BFS] 설치 기준선에서 충족: ${dep.name}`);
+          continue;
+        }
+
         if (candidates.length === 0) {
           // 누락된 의존성
           tree.addMissingDependency(currentPkg, dep, 'not_found');
@@ -252,6 +272,49 @@ export abstract class BaseOSDependencyResolver {
     return this.fetchDependenciesFromMetadata(pkg);
   }
 
+  /**
+   * 설치 기준선으로 의존성이 충족되는지 확인
+   *
+   * 이름(또는 apk provides)이 설치되어 있으면 버전 조건만 확인한다.
+   * 그 외에는 의존성을 제공하는 후보 패키지가 설치되어 있는지 본다. 버전 조건이 없으면 설치 버전과 무관하게 충족,
+   * 있으면 설치 버전이 조건을 만족하는 가장 오래된 후보 이상이어야 충족이다 (아니면 업그레이드 대상).
+   */
+  protected isSatisfiedByBaseline(dep: PackageDependency, candidates: OSPackageInfo[]): boolean {
+    const baseline = this.options.installedBaseline;
+    if (!baseline) {
+      return false;
+    }
+
+    const packageManager = this.options.distribution.packageManager;
+    const direct = findInstalledPackages(baseline, dep.name).find((installed) =>
+      !dep.version ||
+      !dep.operator ||
+      !installed.version ||
+      this.compareVersionWithOperator(installed.version, dep.operator, dep.version)
+    );
+    if (direct) {
+      this.baselineSatisfied.add(direct.name);
+      return true;
+    }
+
+    const matching = this.filterByVersion(candidates, dep);
+    for (const candidate of matching) {
+      const providers = baseline.packages.get(candidate.name) ?? [];
+      const oldestMatching = matching
+        .filter((pkg) => pkg.name === candidate.name)
+        .reduce((oldest, pkg) => (compareOSPackages(packageManager, pkg, oldest) < 0 ? pkg : oldest));
+      const installed = providers.find((provider) =>
+        isInstalledAtLeast(dep.operator ? provider : { ...provider, version: undefined }, oldestMatching, packageManager)
+      );
+      if (installed) {
+        this.baselineSatisfied.add(installed.name);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * 버전 조건으로 패키지 필터링
    */
@@ -263,8 +326,9 @@ export abstract class BaseOSDependencyResolver {
       return packages;
     }
 
+    const packageManager = this.options.distribution.packageManager;
     return packages.filter((pkg) =>
-      this.compareVersionWithOperator(pkg.version, dep.operator!, dep.version!)
+      this.compareVersionWithOperator(getFullVersion(pkg, packageManager), dep.operator!, dep.version!)
     );
   }
 
@@ -297,49 +361,10 @@ export abstract class BaseOSDependencyResolver {
   }
 
   /**
-   * 버전 문자열 비교
+   * 버전 문자열 비교 (배포판 패키지 관리자 규칙)
    */
   protected compareVersionStrings(a: string, b: string): number {
-    // 문자열이 아닌 경우 문자열로 변환
-    const strA = typeof a === 'string' ? a : String(a ?? '');
-    const strB = typeof b === 'string' ? b : String(b ?? '');
-
-    // epoch 분리
-    const parseEpoch = (ver: string) => {
-      const match = ver.match(/^(\d+):/);
-      return match
-        ? { epoch: parseInt(match[1], 10), rest: ver.substring(match[0].length) }
-        : { epoch: 0, rest: ver };
-    };
-
-    const verA = parseEpoch(strA);
-    const verB = parseEpoch(strB);
-
-    if (verA.epoch !== verB.epoch) {
-      return verA.epoch - verB.epoch;
-    }
-
-    // 버전 파트 비교
-    const partsA = verA.rest.split(/[.\-_~+]/);
-    const partsB = verB.rest.split(/[.\-_~+]/);
-    const maxLen = Math.max(partsA.length, partsB.length);
-
-    for (let i = 0; i < maxLen; i++) {
-      const partA = partsA[i] || '0';
-      const partB = partsB[i] || '0';
-
-      const numA = parseInt(partA, 10);
-      const numB = parseInt(partB, 10);
-
-      if (!isNaN(numA) && !isNaN(numB)) {
-        if (numA !== numB) return numA - numB;
-      } else {
-        const cmp = partA.localeCompare(partB);
-        if (cmp !== 0) return cmp;
-      }
-    }
-
-    return 0;
+    return compareOSVersions(this.options.distribution.packageManager, a, b);
   }
 
   /**
@@ -348,7 +373,7 @@ export abstract class BaseOSDependencyResolver {
   protected getUniqueVersions(packages: OSPackageInfo[]): OSPackageInfo[] {
     const versionMap = new Map<string, OSPackageInfo>();
     for (const pkg of packages) {
-      const key = `${pkg.version}-${pkg.release || ''}`;
+      const key = getFullVersion(pkg, this.options.distribution.packageManager);
       if (!versionMap.has(key)) {
         versionMap.set(key, pkg);
       }
@@ -361,7 +386,7 @@ export abstract class BaseOSDependencyResolver {
    */
   protected selectBestMatch(packages: OSPackageInfo[]): OSPackageInfo {
     return packages.sort((a, b) =>
-      this.compareVersionStrings(b.version, a.version)
+      compareOSPackages(this.options.distribution.packageManager, b, a)
     )[0];
   }
 
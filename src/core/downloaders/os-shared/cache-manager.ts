@@ -110,7 +110,7 @@ export class OsPackageCache {
     type: 'yum' | 'apt' | 'apk',
     repo: Repository,
     architecture: OSArchitecture,
-    dataType: 'repomd' | 'primary' | 'packages' | 'apkindex' | 'release'
+    dataType: 'repomd' | 'primary' | 'modules' | 'packages' | 'apkindex' | 'release'
   ): string {
     const repoUrl = repo.baseUrl.replace(/https?:\/\//, '').replace(/\//g, '_');
     return `${type}:${repoUrl}:${architecture}:${dataType}`;
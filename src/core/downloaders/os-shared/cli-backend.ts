@@ -9,15 +9,20 @@ import { ApkDependencyResolver } from '../../resolver/apk-resolver';
 import { YumDependencyResolver } from '../../resolver/yum-resolver';
 import { OSArchivePackager } from './archive-packager';
 import { OsPackageCache } from './cache-manager';
+import { GPGVerifier } from './gpg-verifier';
 import { getDownloadedFileKey } from './package-file-utils';
-import { OSRepoPackager } from './repo-packager';
+import { OSRepoPackager, type RepoResult, type RepoSigningOptions } from './repo-packager';
 import { OSScriptGenerator } from './script-generator';
+import { compareOSPackages } from './version-compare';
 import type { BaseOSDownloader, BaseDownloaderOptions } from './base-downloader';
 import type { BaseOSDependencyResolver } from './base-resolver';
+import type { InstalledBaseline } from './installed-baseline';
+import type { ModuleStreamSummary } from './yum-modules';
 import type {
   ArchiveFormat,
   DependencyResolutionResult,
   MatchType,
+  ModuleSelection,
   OSArchitecture,
   OSDistribution,
   OSPackageInfo,
@@ -35,6 +40,17 @@ export interface SearchOSPackagesOptions {
   matchType?: MatchType;
   cacheDirectory: string;
   cacheEnabled: boolean;
+  /** 활성화할 모듈 스트림 (yum) */
+  moduleStreams?: ModuleSelection[];
+}
+
+export interface ListOSModuleStreamsOptions {
+  distribution: OSDistribution;
+  architecture: OSArchitecture;
+  cacheDirectory: string;
+  cacheEnabled: boolean;
+  /** 활성화할 모듈 스트림 (isActive 표시에 반영) */
+  moduleStreams?: ModuleSelection[];
 }
 
 export interface DownloadOSPackagesOptions {
@@ -49,11 +65,22 @@ export interface DownloadOSPackagesOptions {
   concurrency: number;
   cacheDirectory: string;
   cacheEnabled: boolean;
+  /** 로컬 저장소 메타데이터 서명 (repository 출력에만 적용) */
+  signing?: RepoSigningOptions;
+  /** 대상 호스트 설치 기준선 (이미 충족된 의존성은 다운로드하지 않음) */
+  installedBaseline?: InstalledBaseline;
+  /**
+   * 활성화할 모듈 스트림 (yum)
+   * 프로필을 지정했거나 패키지 이름 없이 스트림만 지정하면 (기본) 프로필 패키지를 함께 받는다
+   */
+  moduleStreams?: ModuleSelection[];
 }
 
 export interface OSDownloadArtifact {
   type: 'archive' | 'repository';
   path: string;
+  /** 저장소 메타데이터 서명 키 */
+  signingKey?: RepoResult['signingKey'];
 }
 
 export interface DownloadOSPackagesResult {
@@ -63,6 +90,8 @@ export interface DownloadOSPackagesResult {
   warnings: string[];
   unresolved: PackageDependency[];
   conflicts: DependencyResolutionResult['conflicts'];
+  /** 설치 기준선에서 충족되어 제외한 패키지 이름 */
+  satisfiedByBaseline: string[];
 }
 
 export interface OSPackageCacheStats {
@@ -81,129 +110,12 @@ type ResolverSearchable = BaseOSDependencyResolver & {
   searchPackages(query: string, matchType?: MatchType): Promise<OSPackageSearchResult[]>;
 };
 
-function tokenizeRpmVersion(value: string): string[] {
-  const tokens: string[] = [];
-  let index = 0;
-
-  while (index < value.length) {
-    const char = value[index];
-
-    if (char === '~') {
-      tokens.push('~');
-      index += 1;
-      continue;
-    }
-
-    if (!/[A-Za-z0-9]/.test(char)) {
-      index += 1;
-      continue;
-    }
-
-    const isDigit = /\d/.test(char);
-    let end = index + 1;
-    while (end < value.length) {
-      const nextChar = value[end];
-      if (!/[A-Za-z0-9]/.test(nextChar)) {
-        break;
-      }
-      if (/\d/.test(nextChar) !== isDigit) {
-        break;
-      }
-      end += 1;
-    }
-
-    tokens.push(value.slice(index, end));
-    index = end;
-  }
-
-  return tokens;
-}
-
-function compareRpmToken(left: string | undefined, right: string | undefined): number {
-  if (left === right) {
-    return 0;
-  }
-
-  if (left === undefined) {
-    if (right === '~') {
-      return 1;
-    }
-    return /^\d+$/.test(right ?? '') ? -1 : 1;
-  }
-
-  if (right === undefined) {
-    if (left === '~') {
-      return -1;
-    }
-    return /^\d+$/.test(left) ? 1 : -1;
-  }
-
-  if (left === '~' || right === '~') {
-    return left === '~' ? -1 : 1;
-  }
-
-  const leftIsNumber = /^\d+$/.test(left);
-  const rightIsNumber = /^\d+$/.test(right);
-
-  if (leftIsNumber && rightIsNumber) {
-    const normalizedLeft = left.replace(/^0+/, '') || '0';
-    const normalizedRight = right.replace(/^0+/, '') || '0';
-    if (normalizedLeft.length !== normalizedRight.length) {
-      return normalizedLeft.length - normalizedRight.length;
-    }
-    return normalizedLeft.localeCompare(normalizedRight);
-  }
-
-  if (leftIsNumber !== rightIsNumber) {
-    return leftIsNumber ? 1 : -1;
-  }
-
-  return left.localeCompare(right);
-}
-
-function compareVersionStrings(a: string, b: string): number {
-  const tokensA = tokenizeRpmVersion(a);
-  const tokensB = tokenizeRpmVersion(b);
-  const maxLength = Math.max(tokensA.length, tokensB.length);
-
-  for (let index = 0; index < maxLength; index += 1) {
-    const tokenDiff = compareRpmToken(tokensA[index], tokensB[index]);
-    if (tokenDiff !== 0) {
-      return tokenDiff;
-    }
-  }
-
-  return 0;
-}
-
-function comparePackages(
-  left: OSPackageInfo,
-  right: OSPackageInfo,
-  packageManager: OSDistribution['packageManager']
-): number {
-  if (packageManager === 'yum') {
-    const epochDiff = (left.epoch || 0) - (right.epoch || 0);
-    if (epochDiff !== 0) {
-      return epochDiff;
-    }
-
-    const versionDiff = compareVersionStrings(left.version, right.version);
-    if (versionDiff !== 0) {
-      return versionDiff;
-    }
-
-    return compareVersionStrings(left.release || '', right.release || '');
-  }
-
-  return compareVersionStrings(left.version, right.version);
-}
-
 function selectRequestedPackage(
   packages: OSPackageInfo[],
   distribution: OSDistribution
 ): OSPackageInfo {
   return [...packages].sort((left, right) =>
-    comparePackages(right, left, distribution.packageManager)
+    compareOSPackages(distribution.packageManager, right, left)
   )[0];
 }
 
@@ -221,8 +133,14 @@ function createCacheManager(directory: string, enabled: boolean): OsPackageCache
 function createResolver(
   distribution: OSDistribution,
   architecture: OSArchitecture,
-  cacheManager: OsPackageCache
+  cacheManager: OsPackageCache,
+  installedBaseline?: InstalledBaseline,
+  moduleStreams?: ModuleSelection[]
 ): ResolverSearchable {
+  if (moduleStreams && moduleStreams.length > 0 && distribution.packageManager !== 'yum') {
+    throw new Error(`모듈 스트림은 yum 배포판에서만 사용할 수 있습니다: ${distribution.id}`);
+  }
+
   const options = {
     distribution,
     repositories: getActiveRepositories(distribution),
@@ -230,6 +148,8 @@ function createResolver(
     cacheManager,
     includeOptional: false,
     includeRecommends: false,
+    installedBaseline,
+    moduleStreams,
   };
 
   switch (distribution.packageManager) {
@@ -256,6 +176,8 @@ function createDownloader(
     architecture,
     repositories: getActiveRepositories(distribution),
     concurrency,
+    // 서명을 확인하지 못한 패키지는 반입하지 않는다 (키를 받지 못한 경우 포함)
+    gpgVerifier: new GPGVerifier({ continueOnKeyError: false }),
   };
 
   switch (distribution.packageManager) {
@@ -350,7 +272,13 @@ export async function searchOSPackages(
   options: SearchOSPackagesOptions
 ): Promise<OSPackageSearchResult[]> {
   const cacheManager = createCacheManager(options.cacheDirectory, options.cacheEnabled);
-  const resolver = createResolver(options.distribution, options.architecture, cacheManager);
+  const resolver = createResolver(
+    options.distribution,
+    options.architecture,
+    cacheManager,
+    undefined,
+    options.moduleStreams
+  );
   const results = await resolver.searchPackages(options.query, options.matchType ?? 'partial');
 
   if (typeof options.limit === 'number' && options.limit >= 0) {
@@ -360,6 +288,46 @@ export async function searchOSPackages(
   return results;
 }
 
+export async function listOSModuleStreams(
+  options: ListOSModuleStreamsOptions
+): Promise<ModuleStreamSummary[]> {
+  const cacheManager = createCacheManager(options.cacheDirectory, options.cacheEnabled);
+  const resolver = createResolver(
+    options.distribution,
+    options.architecture,
+    cacheManager,
+    undefined,
+    options.moduleStreams
+  );
+
+  if (!(resolver instanceof YumDependencyResolver)) {
+    throw new Error(`모듈 스트림은 yum 배포판에서만 사용할 수 있습니다: ${options.distribution.id}`);
+  }
+  return resolver.listModuleStreams();
+}
+
+/**
+ * 요청 패키지 이름에 모듈 프로필 패키지 추가
+ */
+async function getRequestedPackageNames(
+  options: DownloadOSPackagesOptions,
+  resolver: ResolverSearchable
+): Promise<string[]> {
+  const packageNames = new Set(options.packageNames);
+
+  if (resolver instanceof YumDependencyResolver) {
+    for (const selection of options.moduleStreams ?? []) {
+      if (selection.profile || options.packageNames.length === 0) {
+        for (const name of await resolver.getModuleProfilePackages(selection)) {
+          packageNames.add(name);
+        }
+      }
+    }
+  }
+
+  return [...packageNames];
+}
+
 async function resolveRequestedPackages(
   packageNames: string[],
   resolver: ResolverSearchable,
@@ -385,9 +353,15 @@ export async function downloadOSPackages(
   options: DownloadOSPackagesOptions
 ): Promise<DownloadOSPackagesResult> {
   const cacheManager = createCacheManager(options.cacheDirectory, options.cacheEnabled);
-  const resolver = createResolver(options.distribution, options.architecture, cacheManager);
+  const resolver = createResolver(
+    options.distribution,
+    options.architecture,
+    cacheManager,
+    options.installedBaseline,
+    options.moduleStreams
+  );
   const requestedPackages = await resolveRequestedPackages(
-    options.packageNames,
+    await getRequestedPackageNames(options, resolver),
     resolver,
     options.distribution
   );
@@ -424,7 +398,7 @@ export async function downloadOSPackages(
     const downloadResult = await downloader.downloadPackages(packagesToDownload);
     if (downloadResult.failed.length > 0) {
       const failedNames = downloadResult.failed
-        .map((item) => item.package.name)
+        .map((item) => `${item.package.name} (${item.error.message})`)
         .join(', ');
       throw new Error(`일부 패키지 다운로드에 실패했습니다: ${failedNames}`);
     }
@@ -467,6 +441,8 @@ export async function downloadOSPackages(
           outputPath: outputPaths.repositoryPath,
           repoName: `depssmuggler-${options.distribution.id}`,
           includeSetupScript: shouldGenerateScripts,
+          signing: options.signing,
+          modules: resolution.modules,
         }
       );
 
@@ -479,7 +455,11 @@ export async function downloadOSPackages(
         );
       }
 
-      artifacts.push({ type: 'repository', path: repoResult.repoPath });
+      artifacts.push({
+        type: 'repository',
+        path: repoResult.repoPath,
+        ...(repoResult.signingKey ? { signingKey: repoResult.signingKey } : {}),
+      });
     }
 
     return {
@@ -489,6 +469,7 @@ export async function downloadOSPackages(
       warnings,
       unresolved: resolution.unresolved,
       conflicts: resolution.conflicts,
+      satisfiedByBaseline: resolution.satisfiedByBaseline ?? [],
     };
   } finally {
     fs.rmSync(stagingDir, { recursive: true, force: true });
@@ -2,10 +2,63 @@ import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { gzipSync } from 'zlib';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { GPGVerifier } from './gpg-verifier';
+import { createTestSigningKey } from '../../../test-utils/openpgp';
 import type { OSPackageInfo, Repository } from './types';
 
+const signingKey = createTestSigningKey('rsa');
+
+function rpmHeader(entries: Array<{ tag: number; type: number; count: number; data: Buffer }>): Buffer {
+  const index: Buffer[] = [];
+  const store: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const row = Buffer.alloc(16);
+    row.writeUInt32BE(entry.tag, 0);
+    row.writeUInt32BE(entry.type, 4);
+    row.writeUInt32BE(offset, 8);
+    row.writeUInt32BE(entry.count, 12);
+    index.push(row);
+    store.push(entry.data);
+    offset += entry.data.length;
+  }
+  const preamble = Buffer.from([0x8e, 0xad, 0xe8, 0x01, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  preamble.writeUInt32BE(entries.length, 8);
+  preamble.writeUInt32BE(offset, 12);
+  return Buffer.concat([preamble, ...index, ...store]);
+}
+
+/** 헤더 서명(RSA 태그)과 페이로드 SHA256 다이제스트를 가진 RPM */
+function buildSignedRpm(payload: Buffer, sign: (data: Buffer) => Buffer): Buffer {
+  const algorithm = Buffer.alloc(4);
+  algorithm.writeUInt32BE(8, 0);
+  const header = rpmHeader([
+    { tag: 5093, type: 4, count: 1, data: algorithm },
+    { tag: 1000, type: 6, count: 1, data: Buffer.from('bash\0') },
+    { tag: 5092, type: 8, count: 1, data: Buffer.from(`${crypto.createHash('sha256').update(payload).digest('hex')}\0`) },
+  ]);
+  const signatureData = sign(header);
+  const signature = rpmHeader([{ tag: 268, type: 7, count: signatureData.length, data: signatureData }]);
+  const lead = Buffer.alloc(96);
+  Buffer.from([0xed, 0xab, 0xee, 0xdb]).copy(lead);
+  // 서명 헤더 데이터 영역은 8바이트 경계로 패딩
+  const padding = Buffer.alloc((8 - (signatureData.length % 8)) % 8);
+  return Buffer.concat([lead, signature, padding, header, payload]);
+}
+
+function tar(entries: Record<string, Buffer>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, data] of Object.entries(entries)) {
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  return Buffer.concat(blocks);
+}
+
 describe('GPGVerifier', () => {
   const fetchMock = vi.fn();
   let tempDir: string;
@@ -38,6 +91,13 @@ describe('GPGVerifier', () => {
     vi.stubGlobal('fetch', fetchMock);
   });
 
+  /** URL별 응답 (없는 URL은 404) */
+  const serve = (routes: Record<string, string | Buffer>) => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url in routes ? new Response(routes[url]) : new Response('not found', { status: 404, statusText: 'Not Found' })
+    );
+  };
+
   afterEach(() => {
     fs.rmSync(tempDir, { recursive: true, force: true });
     vi.unstubAllGlobals();
@@ -47,22 +107,12 @@ describe('GPGVerifier', () => {
   it('GPG 키 가져오기는 재시도 후 fingerprint와 short id로 키링에 저장한다', async () => {
     const verifier = new GPGVerifier();
     (verifier as any).retryDelay = 0;
-    const fingerprint = 'A1B2C3D4E5F60123456789ABCDE0123456789ABC';
+    const fingerprint = signingKey.fingerprint;
 
     fetchMock
       .mockRejectedValueOnce(new Error('timeout'))
       .mockResolvedValueOnce(new Response('temporary', { status: 500, statusText: 'boom' }))
-      .mockResolvedValueOnce(
-        new Response(
-          [
-            '-----BEGIN PGP PUBLIC KEY BLOCK-----',
-            'Version: Test',
-            '',
-            `Key fingerprint = ${fingerprint.match(/.{1,4}/g)?.join(' ')}`,
-            '-----END PGP PUBLIC KEY BLOCK-----',
-          ].join('\n')
-        )
-      );
+      .mockResolvedValueOnce(new Response(signingKey.armoredPublicKey));
 
     const key = await verifier.importKey('https://example.test/key.asc', repo.id);
 
@@ -71,6 +121,7 @@ describe('GPGVerifier', () => {
       expect.objectContaining({
         fingerprint,
         keyId: fingerprint.slice(-8),
+        publicKey: signingKey.armoredPublicKey,
         repositoryId: repo.id,
       })
     );
@@ -78,6 +129,13 @@ describe('GPGVerifier', () => {
     expect(verifier.getKey(fingerprint.slice(-8))?.repositoryId).toBe(repo.id);
   });
 
+  it('공개키 블록이 아니면 키를 가져오지 않는다', async () => {
+    const verifier = new GPGVerifier();
+    fetchMock.mockResolvedValueOnce(new Response('<html>not found</html>'));
+
+    await expect(verifier.importKey('https://example.test/key.asc', repo.id)).resolves.toBeNull();
+  });
+
   it('검증이 비활성화되면 서명을 바로 건너뛴다', async () => {
     const verifier = new GPGVerifier({ enabled: false });
 
@@ -118,22 +176,192 @@ describe('GPGVerifier', () => {
     expect(result.reason).toBe('checksum-mismatch');
   });
 
-  it('체크섬이 일치하면 패키지 관리자별 서명 검증 단계로 진행한다', async () => {
+  it('RPM 헤더 서명과 페이로드 다이제스트를 검증한다', async () => {
     const verifier = new GPGVerifier();
+    const payload = crypto.randomBytes(4096);
+    const rpm = buildSignedRpm(payload, (data) => signingKey.sign(data));
     const filePath = path.join(tempDir, 'bash.rpm');
-    fs.writeFileSync(filePath, 'actual-content');
-    packageInfo.checksum = {
-      type: 'sha256',
-      value: crypto.createHash('sha256').update('actual-content').digest('hex'),
-    };
+    fs.writeFileSync(filePath, rpm);
+    packageInfo.checksum = { type: 'sha256', value: crypto.createHash('sha256').update(rpm).digest('hex') };
+    serve({ [repo.gpgKeyUrl as string]: signingKey.armoredPublicKey });
+
+    await expect(verifier.verifyPackage(packageInfo, filePath)).resolves.toEqual({
+      verified: true,
+      skipped: false,
+      keyId: signingKey.keyId,
+    });
+    // repomd.xml.asc가 없는 저장소는 메타데이터 서명 확인을 건너뛴다
+    expect(fetchMock).toHaveBeenCalledWith(`${repo.baseUrl}/repodata/repomd.xml.asc`);
+
+    // 헤더는 그대로 두고 페이로드만 바꾼 파일
+    const tampered = Buffer.from(rpm);
+    tampered[tampered.length - 1] ^= 0xff;
+    fs.writeFileSync(filePath, tampered);
+    const result = await verifier.verifyPackage({ ...packageInfo, checksum: undefined }, filePath);
+
+    expect(result).toEqual(expect.objectContaining({ verified: false, skipped: false, reason: 'signature-invalid' }));
+    expect(result.error?.message).toContain('payload digest mismatch');
+  });
+
+  it('저장소 키와 다른 키로 서명된 RPM은 continueOnKeyError와 관계없이 서명 실패로 처리한다', async () => {
+    const otherKey = createTestSigningKey('ed25519');
+    const filePath = path.join(tempDir, 'bash.rpm');
+    fs.writeFileSync(filePath, buildSignedRpm(Buffer.from('payload'), (data) => otherKey.sign(data)));
+    serve({ [repo.gpgKeyUrl as string]: signingKey.armoredPublicKey });
+
+    for (const verifier of [new GPGVerifier(), new GPGVerifier({ continueOnKeyError: true })]) {
+      await expect(verifier.verifyPackage(packageInfo, filePath)).resolves.toEqual(
+        expect.objectContaining({ verified: false, skipped: false, reason: 'signature-invalid' })
+      );
+    }
+  });
+
+  it('저장소 키를 받지 못하면 기본값으로 실패하고 continueOnKeyError일 때만 건너뛴다', async () => {
+    const filePath = path.join(tempDir, 'bash.rpm');
+    fs.writeFileSync(filePath, buildSignedRpm(Buffer.from('payload'), (data) => signingKey.sign(data)));
+    serve({});
+    const strict = new GPGVerifier();
+    const lenient = new GPGVerifier({ continueOnKeyError: true });
+    (strict as any).retryDelay = 0;
+    (lenient as any).retryDelay = 0;
+
+    await expect(strict.verifyPackage(packageInfo, filePath)).resolves.toEqual(
+      expect.objectContaining({ verified: false, skipped: false, reason: 'key-not-found' })
+    );
+    await expect(lenient.verifyPackage(packageInfo, filePath)).resolves.toEqual(
+      expect.objectContaining({ verified: true, skipped: true, reason: 'key-not-found' })
+    );
+  });
+
+  it('repomd.xml.asc가 있으면 repomd.xml 서명이 맞아야 한다', async () => {
+    const verifier = new GPGVerifier();
+    const filePath = path.join(tempDir, 'bash.rpm');
+    fs.writeFileSync(filePath, buildSignedRpm(Buffer.from('payload'), (data) => signingKey.sign(data)));
+    const repomd = Buffer.from('<repomd/>');
+    serve({
+      [repo.gpgKeyUrl as string]: signingKey.armoredPublicKey,
+      [`${repo.baseUrl}/repodata/repomd.xml`]: Buffer.from('<repomd>changed</repomd>'),
+      [`${repo.baseUrl}/repodata/repomd.xml.asc`]: signingKey.signArmored(repomd),
+    });
 
     const result = await verifier.verifyPackage(packageInfo, filePath);
 
-    expect(result).toEqual({
+    expect(result).toEqual(expect.objectContaining({ verified: false, reason: 'signature-invalid' }));
+    expect(result.error?.message).toContain('repomd.xml');
+  });
+
+  it('deb는 InRelease 서명에서 Packages 해시를 거쳐 패키지 해시까지 확인한다', async () => {
+    const verifier = new GPGVerifier();
+    const distUrl = 'http://deb.example.test/debian/dists/bookworm';
+    const debRepo: Repository = {
+      ...repo,
+      id: 'debian-bookworm-main',
+      baseUrl: `${distUrl}/main/`,
+      gpgKeyUrl: 'https://ftp-master.example.test/keys/archive-key-12.asc',
+    };
+    const deb = Buffer.from('!<arch>\ndebian-binary');
+    const filePath = path.join(tempDir, 'bash_5.2_amd64.deb');
+    fs.writeFileSync(filePath, deb);
+    const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+    const packagesGz = gzipSync(Buffer.from([
+      'Package: bash',
+      'Version: 5.2',
+      'Filename: pool/main/b/bash/bash_5.2_amd64.deb',
+      `SHA256: ${sha256(deb)}`,
+      '',
+      'Package: dash',
+      'Filename: pool/main/d/dash/dash_0.5_amd64.deb',
+      `SHA256: ${'0'.repeat(64)}`,
+      '',
+    ].join('\n')));
+    serve({
+      [debRepo.gpgKeyUrl as string]: signingKey.armoredPublicKey,
+      [`${distUrl}/InRelease`]: signingKey.clearsign([
+        'Origin: Debian',
+        'Codename: bookworm',
+        `Valid-Until: ${new Date(Date.now() + 86_400_000).toUTCString()}`,
+        'SHA256:',
+        ` ${sha256(packagesGz)} ${packagesGz.length} main/binary-amd64/Packages.gz`,
+      ].join('\n')),
+      [`${distUrl}/main/binary-amd64/Packages.gz`]: packagesGz,
+    });
+    const debPackage: OSPackageInfo = {
+      ...packageInfo,
+      architecture: 'amd64',
+      location: 'pool/main/b/bash/bash_5.2_amd64.deb',
+      repository: debRepo,
+      checksum: undefined,
+    };
+
+    await expect(verifier.verifyPackage(debPackage, filePath)).resolves.toEqual({
       verified: true,
-      skipped: true,
-      reason: 'gpg-disabled',
+      skipped: false,
+      keyId: signingKey.keyId,
     });
+
+    const dashPath = path.join(tempDir, 'dash_0.5_amd64.deb');
+    fs.writeFileSync(dashPath, deb);
+    const mismatch = await verifier.verifyPackage(
+      { ...debPackage, name: 'dash', location: 'pool/main/d/dash/dash_0.5_amd64.deb' },
+      dashPath
+    );
+    expect(mismatch).toEqual(expect.objectContaining({ verified: false, reason: 'signature-invalid' }));
+    expect(mismatch.error?.message).toContain('SHA256 mismatch');
+    // InRelease와 Packages.gz는 저장소별로 한 번만 받는다
+    expect(fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/InRelease'))).toHaveLength(1);
+  });
+
+  it('InRelease 서명이 맞지 않으면 deb 검증이 실패한다', async () => {
+    const verifier = new GPGVerifier();
+    const distUrl = 'http://deb.example.test/debian/dists/bookworm';
+    const filePath = path.join(tempDir, 'bash_5.2_amd64.deb');
+    fs.writeFileSync(filePath, 'deb');
+    serve({
+      [repo.gpgKeyUrl as string]: signingKey.armoredPublicKey,
+      [`${distUrl}/InRelease`]: signingKey.clearsign('Origin: Debian\nSHA256:\n').replace('Origin: Debian', 'Origin: Evil'),
+    });
+
+    const result = await verifier.verifyPackage(
+      { ...packageInfo, location: 'pool/main/b/bash/bash_5.2_amd64.deb', repository: { ...repo, baseUrl: `${distUrl}/main` }, checksum: undefined },
+      filePath
+    );
+
+    expect(result).toEqual(expect.objectContaining({ verified: false, reason: 'signature-invalid' }));
+    expect(result.error?.message).toContain('InRelease');
+  });
+
+  it('apk는 .SIGN.RSA256 서명과 .PKGINFO datahash를 확인한다', async () => {
+    const verifier = new GPGVerifier();
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const keyName = 'alpine-devel@lists.alpinelinux.org-test.rsa.pub';
+    const apkRepo: Repository = {
+      ...repo,
+      id: 'alpine-main',
+      baseUrl: 'https://dl-cdn.example.test/alpine/v3.20/main/',
+      gpgKeyUrl: 'https://alpinelinux.example.test/keys/alpine-devel@lists.alpinelinux.org-other.rsa.pub',
+    };
+    const data = gzipSync(tar({ 'usr/bin/bash': crypto.randomBytes(1024) }));
+    const control = gzipSync(tar({
+      '.PKGINFO': Buffer.from(`pkgname = bash\npkgver = 5.2-r0\ndatahash = ${crypto.createHash('sha256').update(data).digest('hex')}\n`),
+    }));
+    const signature = gzipSync(tar({ [`.SIGN.RSA256.${keyName}`]: crypto.sign('sha256', control, privateKey) }));
+    const filePath = path.join(tempDir, 'bash-5.2-r0.apk');
+    fs.writeFileSync(filePath, Buffer.concat([signature, control, data]));
+    serve({
+      [`https://alpinelinux.example.test/keys/${keyName}`]: publicKey.export({ type: 'spki', format: 'pem' }),
+    });
+    const apkPackage: OSPackageInfo = { ...packageInfo, repository: apkRepo, checksum: undefined };
+
+    await expect(verifier.verifyPackage(apkPackage, filePath)).resolves.toEqual({
+      verified: true,
+      skipped: false,
+      keyId: keyName,
+    });
+
+    fs.writeFileSync(filePath, Buffer.concat([signature, control, gzipSync(tar({ 'usr/bin/bash': Buffer.from('evil') }))]));
+    const result = await verifier.verifyPackage(apkPackage, filePath);
+    expect(result).toEqual(expect.objectContaining({ verified: false, reason: 'signature-invalid' }));
+    expect(result.error?.message).toContain('APK data hash mismatch');
   });
 
   it('알 수 없는 체크섬 타입은 실패 대신 건너뛴다', async () => {
@@ -1,15 +1,32 @@
 /**
  * OS Package GPG Signature Verifier
- * 공식 저장소 패키지의 GPG 서명 검증
+ * 공식 저장소 패키지의 서명 검증 (시스템 gpg 없이 순수 TypeScript로 처리)
+ *
+ * - deb: InRelease(또는 Release + Release.gpg) 서명 → Packages.gz 해시 → Packages의 패키지 해시
+ * - rpm: repomd.xml.asc(있으면) + RPM 헤더 서명과 페이로드 다이제스트
+ * - apk: 패키지 안의 .SIGN.RSA 서명과 .PKGINFO datahash
  */
 
 import * as crypto from 'crypto';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { verifyApkPackage } from './apk-signature';
+import {
+  readPublicKeys,
+  readSignatures,
+  verifyCleartextMessage,
+  verifySignatures,
+  type OpenPGPPublicKey,
+  type OpenPGPVerificationResult,
+} from './openpgp';
+import { resolveRepoUrl } from './repos/repository-utils';
+import { verifyRpmPackage } from './rpm-header';
 import {
   calculateFileChecksum,
   isChecksumAlgorithm,
   normalizeChecksum,
 } from '../../shared/integrity/checksum';
-import type { OSPackageInfo, Repository, OSPackageManager } from './types';
+import type { OSArchitecture, OSDistribution, OSPackageInfo, Repository } from './types';
 
 /**
  * GPG 키 정보
@@ -45,6 +62,29 @@ export interface VerificationResult {
   keyId?: string;
 }
 
+/**
+ * 검증 문맥 (다운로더 설정에서 전달)
+ */
+export interface VerificationContext {
+  /** 저장소 URL의 $basearch/$releasever 치환용 */
+  distribution?: OSDistribution;
+  /** deb Packages 인덱스 아키텍처 */
+  architecture?: OSArchitecture;
+}
+
+/**
+ * 서명 검증 실패 (다운로더가 재시도 없이 gpg 오류로 보고)
+ */
+export class GPGVerificationError extends Error {
+  readonly result: VerificationResult;
+
+  constructor(result: VerificationResult) {
+    super(`GPG verification failed (${result.reason ?? 'unknown'}): ${result.error?.message ?? 'no details'}`);
+    this.name = 'GPGVerificationError';
+    this.result = result;
+  }
+}
+
 /**
  * GPG 검증기 설정
  */
@@ -53,7 +93,7 @@ export interface GPGVerifierConfig {
   enabled: boolean;
   /** 공식 저장소만 검증 여부 */
   officialOnly: boolean;
-  /** 키 다운로드 실패 시 계속 진행 여부 */
+  /** 키 다운로드 실패 시 계속 진행 여부 (받은 저장소 키에 서명자가 없으면 적용하지 않음) */
   continueOnKeyError: boolean;
   /** 검증 실패 시 콜백 */
   onVerificationFailed?: (pkg: OSPackageInfo, result: VerificationResult) => Promise<'continue' | 'abort'>;
@@ -65,9 +105,28 @@ export interface GPGVerifierConfig {
 const DEFAULT_CONFIG: GPGVerifierConfig = {
   enabled: true,
   officialOnly: true,
-  continueOnKeyError: true,
+  continueOnKeyError: false,
+};
+
+/** rpm/apk 표기 → Debian 아키텍처 이름 */
+const DEB_ARCHITECTURES: Partial<Record<OSArchitecture, string>> = {
+  x86_64: 'amd64',
+  aarch64: 'arm64',
+  i686: 'i386',
+  x86: 'i386',
+  armv7l: 'armhf',
+  armv7: 'armhf',
 };
 
+/**
+ * 서명 검증된 Release 파일 내용
+ */
+interface DebRelease {
+  /** 경로 → SHA256 */
+  sha256: Map<string, string>;
+  keyId?: string;
+}
+
 /**
  * GPG 서명 검증기
  */
@@ -76,6 +135,16 @@ export class GPGVerifier {
   private keyring: Map<string, GPGKey> = new Map();
   private maxRetries = 3;
   private retryDelay = 1000;
+  /** 키 URL → 공개키 (저장소별로 처음 필요할 때 받는다) */
+  private keyCache = new Map<string, Promise<OpenPGPPublicKey[]>>();
+  /** APK 키 URL → 공개키 */
+  private apkKeyCache = new Map<string, Promise<crypto.KeyObject | undefined>>();
+  /** 배포판 URL(dists/<suite>) → 검증된 Release */
+  private releaseCache = new Map<string, Promise<DebRelease>>();
+  /** Packages.gz URL → 파일 경로별 SHA256 */
+  private packagesCache = new Map<string, Promise<Map<string, string>>>();
+  /** yum 저장소 URL → repomd.xml 검증 결과 */
+  private repomdCache = new Map<string, Promise<OpenPGPVerificationResult | null>>();
 
   constructor(config: Partial<GPGVerifierConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -86,18 +155,14 @@ export class GPGVerifier {
    */
   async importKey(keyUrl: string, repositoryId: string): Promise<GPGKey | null> {
     try {
-      const response = await this.fetchWithRetry(keyUrl);
-      const keyData = await response.text();
-
-      // GPG 공개키 파싱 (간단한 형태)
+      const keyData = await this.fetchBuffer(keyUrl);
       const key = this.parseGPGKey(keyData, repositoryId);
 
       if (key) {
         this.keyring.set(key.keyId, key);
         // 핑거프린트로도 조회 가능하게
-        if (key.fingerprint) {
-          this.keyring.set(key.fingerprint, key);
-        }
+        this.keyring.set(key.fingerprint, key);
+        this.keyCache.set(keyUrl, Promise.resolve(readPublicKeys(keyData)));
       }
 
       return key;
@@ -124,8 +189,14 @@ export class GPGVerifier {
 
   /**
    * 패키지 검증
+   *
+   * 서명 불일치나 키 없음은 결과로 돌려주고, 저장소 메타데이터를 받지 못한 네트워크 오류는 그대로 던진다.
    */
-  async verifyPackage(pkg: OSPackageInfo, filePath: string): Promise<VerificationResult> {
+  async verifyPackage(
+    pkg: OSPackageInfo,
+    filePath: string,
+    context: VerificationContext = {}
+  ): Promise<VerificationResult> {
     // 검증 비활성화
     if (!this.config.enabled) {
       return { verified: true, skipped: true, reason: 'gpg-disabled' };
@@ -143,23 +214,27 @@ export class GPGVerifier {
       return { verified: true, skipped: true, reason: 'gpg-disabled' };
     }
 
-    // 체크섬 검증 (GPG 서명 대신 체크섬 검증으로 대체)
-    // 실제 GPG 서명 검증은 시스템 gpg 명령어가 필요하므로
-    // 여기서는 체크섬 검증으로 무결성을 확인
+    // 다운로드 무결성 먼저 확인
     const checksumResult = await this.verifyChecksum(pkg, filePath);
 
     if (!checksumResult.verified) {
       return checksumResult;
     }
 
-    // 패키지 관리자별 추가 검증
-    const packageManager = repo.baseUrl.includes('centos') || repo.baseUrl.includes('rocky')
-      ? 'yum'
-      : repo.baseUrl.includes('ubuntu') || repo.baseUrl.includes('debian')
-        ? 'apt'
-        : 'apk';
+    const result = await this.verifyPackageSignature(pkg, filePath, context);
+    if (result.verified) {
+      return result;
+    }
 
-    return this.verifyPackageSignature(pkg, filePath, packageManager);
+    if (result.reason === 'key-not-found' && this.config.continueOnKeyError) {
+      return { ...result, verified: true, skipped: true };
+    }
+
+    if (this.config.onVerificationFailed && await this.config.onVerificationFailed(pkg, result) === 'continue') {
+      return { ...result, verified: true, skipped: true };
+    }
+
+    return result;
   }
 
   /**
@@ -200,32 +275,32 @@ export class GPGVerifier {
   }
 
   /**
-   * 패키지 서명 검증 (패키지 관리자별)
+   * 패키지 서명 검증 (파일 형식별)
    */
   private async verifyPackageSignature(
     pkg: OSPackageInfo,
     filePath: string,
-    packageManager: OSPackageManager
+    context: VerificationContext
   ): Promise<VerificationResult> {
-    // 참고: 실제 GPG 서명 검증은 시스템의 gpg 또는 rpm/dpkg 명령이 필요
-    // Electron 앱에서는 체크섬 검증으로 대체하고,
-    // 추가적인 서명 검증은 향후 native 모듈 추가 시 구현 가능
-
-    switch (packageManager) {
-      case 'yum':
-        // RPM 서명 검증 (rpm -K 필요)
-        return this.verifyRpmSignature(pkg, filePath);
+    try {
+      switch (path.extname(filePath).toLowerCase()) {
+        case '.rpm':
+          return await this.verifyRpmSignature(pkg, filePath, context);
 
-      case 'apt':
-        // DEB 서명 검증 (dpkg-sig 필요)
-        return this.verifyDebSignature(pkg, filePath);
+        case '.deb':
+          return await this.verifyDebSignature(pkg, filePath, context);
 
-      case 'apk':
-        // APK 서명 검증
-        return this.verifyApkSignature(pkg, filePath);
+        case '.apk':
+          return await this.verifyApkSignature(pkg, filePath);
 
-      default:
-        return { verified: true, skipped: true };
+        default:
+          return { verified: true, skipped: true };
+      }
+    } catch (error) {
+      if (error instanceof GPGVerificationError) {
+        return error.result;
+      }
+      throw error;
     }
   }
 
@@ -233,102 +308,311 @@ export class GPGVerifier {
    * RPM 서명 검증
    */
   private async verifyRpmSignature(
-    _pkg: OSPackageInfo,
-    _filePath: string
+    pkg: OSPackageInfo,
+    filePath: string,
+    context: VerificationContext
   ): Promise<VerificationResult> {
-    // RPM 서명 검증은 rpm -K 명령 필요
-    // 현재는 체크섬 검증으로 충분하다고 가정
-    // 향후: child_process로 rpm -K 실행 또는 native 모듈 사용
+    const keys = await this.getRepositoryKeys(pkg.repository);
+
+    // 저장소가 repomd.xml에 서명하는 경우(repo_gpgcheck) 메타데이터 서명도 확인
+    const repoUrl = context.distribution && context.architecture
+      ? resolveRepoUrl(pkg.repository.baseUrl, context.architecture, context.distribution)
+      : pkg.repository.baseUrl;
+    const repomd = await this.getCached(this.repomdCache, repoUrl.replace(/\/$/, ''), (url) =>
+      this.verifyRepomd(url, keys)
+    );
+    if (repomd && !repomd.valid) {
+      return this.toSignerFailure(repomd, keys, 'repomd.xml');
+    }
 
-    return {
-      verified: true,
-      skipped: true,
-      reason: 'gpg-disabled', // 실제 서명 검증은 건너뜀
-    };
+    const result = await this.verifyLocalFile(() => verifyRpmPackage(filePath, keys));
+    return result.valid ? this.toSuccess(result) : this.toSignerFailure(result, keys, path.basename(filePath));
   }
 
   /**
    * DEB 서명 검증
+   *
+   * .deb 자체에는 서명이 없으므로 서명된 Release에서 Packages 인덱스를 거쳐 패키지 해시까지 확인한다.
    */
   private async verifyDebSignature(
-    _pkg: OSPackageInfo,
-    _filePath: string
+    pkg: OSPackageInfo,
+    filePath: string,
+    context: VerificationContext
   ): Promise<VerificationResult> {
-    // DEB 서명 검증은 dpkg-sig 명령 필요
-    // 현재는 체크섬 검증으로 충분하다고 가정
+    const match = pkg.repository.baseUrl.replace(/\/+$/, '').match(/^(.*\/dists\/[^/]+)(?:\/(.+))?$/);
+    if (!match) {
+      return this.toFailure({ reason: 'signature-invalid', error: 'Repository URL has no dists/<suite> path' }, pkg.repository.baseUrl);
+    }
 
-    return {
-      verified: true,
-      skipped: true,
-      reason: 'gpg-disabled',
-    };
+    const [, distUrl, baseComponent] = match;
+    const component = baseComponent ?? pkg.location.match(/^pool\/([^/]+)\//)?.[1] ?? 'main';
+    const architecture = this.getDebArchitecture(pkg, context);
+    const indexPath = `${component}/binary-${architecture}/Packages.gz`;
+
+    const release = await this.getCached(this.releaseCache, distUrl, (url) => this.loadDebRelease(url, pkg.repository));
+    const expectedIndexHash = release.sha256.get(indexPath);
+    if (!expectedIndexHash) {
+      return this.toFailure({ reason: 'signature-invalid', error: `${indexPath} is not listed in Release` }, distUrl);
+    }
+
+    const packages = await this.getCached(this.packagesCache, `${distUrl}/${indexPath}`, (url) =>
+      this.loadDebPackages(url, expectedIndexHash)
+    );
+    const expected = packages.get(pkg.location);
+    if (!expected) {
+      return this.toFailure({ reason: 'signature-invalid', error: `${pkg.location} is not listed in ${indexPath}` }, distUrl);
+    }
+
+    const actual = await calculateFileChecksum(filePath, 'sha256');
+    if (normalizeChecksum(actual) !== normalizeChecksum(expected)) {
+      return this.toFailure({ reason: 'signature-invalid', error: `SHA256 mismatch: Packages has ${expected}, got ${actual}` }, pkg.location);
+    }
+
+    return { verified: true, skipped: false, keyId: release.keyId };
   }
 
   /**
    * APK 서명 검증
    */
-  private async verifyApkSignature(
-    _pkg: OSPackageInfo,
-    _filePath: string
-  ): Promise<VerificationResult> {
-    // APK 서명은 패키지 내부의 .SIGN 파일로 검증
-    // 현재는 체크섬 검증으로 충분하다고 가정
+  private async verifyApkSignature(pkg: OSPackageInfo, filePath: string): Promise<VerificationResult> {
+    const result = await this.verifyLocalFile(() =>
+      verifyApkPackage(filePath, (keyName) => this.getApkKey(pkg.repository, keyName))
+    );
+    if (result.valid) {
+      return { verified: true, skipped: false, keyId: 'keyName' in result ? result.keyName : undefined };
+    }
+    return this.toFailure(result, path.basename(filePath));
+  }
 
-    return {
-      verified: true,
-      skipped: true,
-      reason: 'gpg-disabled',
-    };
+  /**
+   * 서명된 Release 받기 (InRelease 우선, 없으면 Release + Release.gpg)
+   */
+  private async loadDebRelease(distUrl: string, repo: Repository): Promise<DebRelease> {
+    const keys = await this.getRepositoryKeys(repo);
+    let verification: OpenPGPVerificationResult;
+    let text: string;
+
+    const inRelease = await this.fetchBuffer(`${distUrl}/InRelease`, true);
+    if (inRelease) {
+      const result = await this.verifyLocalFile(() => verifyCleartextMessage(inRelease.toString('utf8'), keys));
+      verification = result;
+      text = 'text' in result ? result.text : '';
+    } else {
+      const release = await this.fetchBuffer(`${distUrl}/Release`);
+      const signature = await this.fetchBuffer(`${distUrl}/Release.gpg`);
+      verification = await this.verifyLocalFile(() => verifySignatures(release, readSignatures(signature), keys));
+      text = release.toString('utf8');
+    }
+
+    if (!verification.valid) {
+      throw new GPGVerificationError(this.toSignerFailure(verification, keys, `${distUrl}/InRelease`));
+    }
+
+    const fields = text.split('\n');
+    const validUntil = fields.find((line) => line.startsWith('Valid-Until:'))?.slice('Valid-Until:'.length).trim();
+    if (validUntil && Date.parse(validUntil) < Date.now()) {
+      throw new GPGVerificationError(
+        this.toFailure({ reason: 'signature-invalid', error: `Release expired at ${validUntil}` }, distUrl)
+      );
+    }
+
+    const sha256 = new Map<string, string>();
+    let inSection = false;
+    for (const line of fields) {
+      if (/^\S/.test(line)) {
+        inSection = line.trimEnd() === 'SHA256:';
+      } else if (inSection) {
+        const [hash, , filePath] = line.trim().split(/\s+/);
+        if (hash && filePath) {
+          sha256.set(filePath, hash);
+        }
+      }
+    }
+
+    return { sha256, keyId: verification.key?.keyId };
+  }
+
+  /**
+   * Packages.gz 받아 Release 해시 확인 후 Filename → SHA256 맵 생성
+   */
+  private async loadDebPackages(url: string, expectedHash: string): Promise<Map<string, string>> {
+    const compressed = await this.fetchBuffer(url);
+    const actual = crypto.createHash('sha256').update(compressed).digest('hex');
+    if (actual !== normalizeChecksum(expectedHash)) {
+      throw new GPGVerificationError(
+        this.toFailure({ reason: 'signature-invalid', error: `SHA256 mismatch: Release has ${expectedHash}, got ${actual}` }, url)
+      );
+    }
+
+    const packages = new Map<string, string>();
+    for (const paragraph of gunzipSync(compressed).toString('utf8').split(/\n\s*\n/)) {
+      const filename = paragraph.match(/^Filename:\s*(\S+)/m)?.[1];
+      const sha256 = paragraph.match(/^SHA256:\s*(\S+)/m)?.[1];
+      if (filename && sha256) {
+        packages.set(filename, sha256);
+      }
+    }
+    return packages;
   }
 
   /**
-   * GPG 공개키 파싱 (간단한 형태)
+   * repomd.xml.asc가 있으면 repomd.xml 서명 확인 (없는 저장소는 null)
    */
-  private parseGPGKey(keyData: string, repositoryId: string): GPGKey | null {
-    // ASCII armor 형식의 GPG 공개키 파싱
-    if (!keyData.includes('-----BEGIN PGP PUBLIC KEY BLOCK-----')) {
+  private async verifyRepomd(repoUrl: string, keys: OpenPGPPublicKey[]): Promise<OpenPGPVerificationResult | null> {
+    const signature = await this.fetchBuffer(`${repoUrl}/repodata/repomd.xml.asc`, true);
+    if (!signature) {
       return null;
     }
 
-    // 간단한 키 ID 추출 (실제로는 더 복잡한 파싱 필요)
-    const keyIdMatch = keyData.match(/Key fingerprint\s*=\s*([A-F0-9\s]+)/i);
-    const fingerprint = keyIdMatch
-      ? keyIdMatch[1].replace(/\s/g, '')
-      : this.generateKeyId(keyData);
+    const repomd = await this.fetchBuffer(`${repoUrl}/repodata/repomd.xml`);
+    return this.verifyLocalFile(() => verifySignatures(repomd, readSignatures(signature), keys));
+  }
 
-    const shortKeyId = fingerprint.slice(-8);
+  /**
+   * 저장소 공개키 (gpgKeyUrl 기준으로 한 번만 받는다)
+   */
+  private async getRepositoryKeys(repo: Repository): Promise<OpenPGPPublicKey[]> {
+    if (!repo.gpgKeyUrl) {
+      return [];
+    }
+
+    return this.getCached(this.keyCache, repo.gpgKeyUrl, async (url) => {
+      const keyData = await this.fetchBuffer(url);
+      const key = this.parseGPGKey(keyData, repo.id);
+      if (key) {
+        this.keyring.set(key.keyId, key);
+        this.keyring.set(key.fingerprint, key);
+      }
+      return readPublicKeys(keyData);
+    }).catch((error) => {
+      // 키를 받지 못하면 key-not-found로 처리 (continueOnKeyError 설정을 따름)
+      console.warn(`Failed to import GPG key from ${repo.gpgKeyUrl}:`, (error as Error).message);
+      return [];
+    });
+  }
 
+  /**
+   * APK 서명 키 (배포판 키 디렉토리에서 서명에 적힌 키 이름으로 찾는다)
+   */
+  private async getApkKey(repo: Repository, keyName: string): Promise<crypto.KeyObject | undefined> {
+    if (!repo.gpgKeyUrl || !/^[\w.@+-]+$/.test(keyName) || keyName.startsWith('.')) {
+      return undefined;
+    }
+
+    const keyUrl = `${repo.gpgKeyUrl.slice(0, repo.gpgKeyUrl.lastIndexOf('/') + 1)}${keyName}`;
+    return this.getCached(this.apkKeyCache, keyUrl, async (url) => {
+      const keyData = await this.fetchBuffer(url, true);
+      return keyData ? crypto.createPublicKey(keyData) : undefined;
+    }).catch(() => undefined);
+  }
+
+  /**
+   * 내려받은 파일 검증 (형식 오류는 서명 실패로 처리)
+   */
+  private async verifyLocalFile<T extends { valid: boolean }>(
+    verify: () => Promise<T>
+  ): Promise<T | OpenPGPVerificationResult> {
+    try {
+      return await verify();
+    } catch (error) {
+      return { valid: false, reason: 'signature-invalid', error: (error as Error).message };
+    }
+  }
+
+  private toSuccess(result: OpenPGPVerificationResult): VerificationResult {
+    return { verified: true, skipped: false, keyId: result.key?.keyId };
+  }
+
+  private toFailure(
+    result: { reason?: 'key-not-found' | 'signature-invalid'; error?: string },
+    target: string
+  ): VerificationResult {
     return {
-      keyId: shortKeyId,
-      fingerprint,
-      publicKey: keyData,
-      createdAt: new Date(),
-      repositoryId,
+      verified: false,
+      skipped: false,
+      reason: result.reason ?? 'signature-invalid',
+      error: new Error(`${target}: ${result.error ?? 'signature verification failed'}`),
     };
   }
 
   /**
-   * 키 데이터에서 간단한 ID 생성
+   * 저장소 키로 확인한 서명 실패 (키를 받았는데 서명자가 없으면 다른 키로 서명된 것이므로 signature-invalid)
+   */
+  private toSignerFailure(
+    result: { reason?: 'key-not-found' | 'signature-invalid'; error?: string },
+    keys: OpenPGPPublicKey[],
+    target: string
+  ): VerificationResult {
+    const reason = result.reason === 'key-not-found' && keys.length > 0 ? 'signature-invalid' : result.reason;
+    return this.toFailure({ ...result, reason }, target);
+  }
+
+  private getDebArchitecture(pkg: OSPackageInfo, context: VerificationContext): string {
+    const architecture = pkg.architecture === 'all' || pkg.architecture === 'noarch'
+      ? context.architecture ?? 'amd64'
+      : pkg.architecture;
+    return DEB_ARCHITECTURES[architecture] ?? architecture;
+  }
+
+  /**
+   * 동시에 같은 항목을 요청해도 한 번만 받고, 실패하면 다음 요청에서 다시 시도
+   */
+  private getCached<T>(cache: Map<string, Promise<T>>, key: string, load: (key: string) => Promise<T>): Promise<T> {
+    let promise = cache.get(key);
+    if (!promise) {
+      promise = load(key);
+      cache.set(key, promise);
+      promise.catch(() => cache.delete(key));
+    }
+    return promise;
+  }
+
+  /**
+   * GPG 공개키 파싱 (armor 텍스트 또는 바이너리 키링의 첫 주 키)
    */
-  private generateKeyId(keyData: string): string {
-    const hash = crypto.createHash('sha256');
-    hash.update(keyData);
-    return hash.digest('hex').slice(0, 16).toUpperCase();
+  private parseGPGKey(keyData: Buffer | string, repositoryId: string): GPGKey | null {
+    let keys: OpenPGPPublicKey[];
+    try {
+      keys = readPublicKeys(keyData);
+    } catch {
+      return null;
+    }
+
+    const primary = keys.find((key) => !key.primaryFingerprint);
+    if (!primary) {
+      return null;
+    }
+
+    const text = typeof keyData === 'string' ? keyData : keyData.toString('utf8');
+    return {
+      keyId: primary.fingerprint.slice(-8),
+      fingerprint: primary.fingerprint,
+      publicKey: text.includes('-----BEGIN PGP PUBLIC KEY BLOCK-----')
+        ? text
+        : (keyData as Buffer).toString('base64'),
+      createdAt: primary.createdAt,
+      repositoryId,
+    };
   }
 
   /**
-   * HTTP 요청 (재시도 지원)
+   * HTTP 요청 (재시도 지원, optional이면 404는 null)
    */
-  private async fetchWithRetry(url: string): Promise<Response> {
+  private async fetchBuffer(url: string): Promise<Buffer>;
+  private async fetchBuffer(url: string, optional: true): Promise<Buffer | null>;
+  private async fetchBuffer(url: string, optional = false): Promise<Buffer | null> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
       try {
         const response = await fetch(url);
+        if (optional && response.status === 404) {
+          return null;
+        }
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
-        return response;
+        return Buffer.from(await response.arrayBuffer());
       } catch (error) {
         lastError = error as Error;
         if (attempt < this.maxRetries) {
@@ -352,6 +636,8 @@ export class GPGVerifier {
    */
   clearKeyring(): void {
     this.keyring.clear();
+    this.keyCache.clear();
+    this.apkKeyCache.clear();
   }
 
   /**
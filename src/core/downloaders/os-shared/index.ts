@@ -14,7 +14,8 @@ export * from './types';
 
 // Utilities
 export { OsPackageCache, OSCacheManager } from './cache-manager';
-export { GPGVerifier } from './gpg-verifier';
+export { GPGVerifier, GPGVerificationError } from './gpg-verifier';
+export type { GPGVerifierConfig, VerificationContext, VerificationResult } from './gpg-verifier';
 export { OSScriptGenerator } from './script-generator';
 export type { GeneratedScripts, ScriptGeneratorOptions } from './script-generator';
 export { OSDependencyTree } from './dependency-tree';
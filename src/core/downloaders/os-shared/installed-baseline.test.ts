@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createInstalledBaseline,
+  findInstalledPackages,
+  getPresetBaseline,
+  isInstalledAtLeast,
+  parseInstalledBaseline,
+} from './installed-baseline';
+import type { OSPackageInfo } from './types';
+
+const createPackage = (name: string, version: string, extra: Partial<OSPackageInfo> = {}): OSPackageInfo => ({
+  name,
+  version,
+  architecture: 'x86_64',
+  size: 1,
+  checksum: { type: 'sha256', value: '' },
+  location: `${name}.pkg`,
+  repository: { id: 'baseos', name: 'BaseOS', baseUrl: '', enabled: true, gpgCheck: false, isOfficial: true },
+  dependencies: [],
+  ...extra,
+});
+
+describe('설치 기준선', () => {
+  it('rpm -qa 출력에서 이름, 버전, 아키텍처를 읽어야 함', () => {
+    const baseline = parseInstalledBaseline(
+      'glibc-2.34-100.el9.x86_64\nopenssl-libs-3.0.7-27.el9.x86_64\ntzdata-2024a-1.el9.noarch\n',
+      'yum'
+    );
+
+    expect(findInstalledPackages(baseline, 'openssl-libs')).toEqual([
+      { name: 'openssl-libs', version: '3.0.7-27.el9', architecture: 'x86_64' },
+    ]);
+    expect(findInstalledPackages(baseline, 'tzdata')).toEqual([
+      { name: 'tzdata', version: '2024a-1.el9', architecture: 'noarch' },
+    ]);
+  });
+
+  it('dpkg-query -W 출력은 multiarch 접미사를 떼고 설정 파일만 남은 패키지는 건너뛰어야 함', () => {
+    const baseline = parseInstalledBaseline('libc6:amd64\t2.36-9+deb12u7\nlibssl3\t3.0.13-1~deb12u1\nold-pkg\t\n', 'apt');
+
+    expect([...baseline.packages.keys()]).toEqual(['libc6', 'libssl3']);
+    expect(findInstalledPackages(baseline, 'libc6')[0].version).toBe('2.36-9+deb12u7');
+  });
+
+  it('apk 설치 데이터베이스에서 provides도 읽어야 함', () => {
+    const baseline = parseInstalledBaseline(
+      ['P:musl', 'V:1.2.5-r0', 'A:x86_64', 'p:so:libc.musl-x86_64.so.1=1', '', 'P:busybox', 'V:1.36.1-r29', 'A:x86_64', ''].join('\n'),
+      'apk',
+      'installed'
+    );
+
+    expect(findInstalledPackages(baseline, 'so:libc.musl-x86_64.so.1')).toEqual([
+      expect.objectContaining({ name: 'musl', version: '1.2.5-r0' }),
+    ]);
+    expect(isInstalledAtLeast(findInstalledPackages(baseline, 'busybox')[0], createPackage('busybox', '1.36.1-r30'), 'apk')).toBe(false);
+  });
+
+  it('epoch 없는 설치 버전은 저장소 패키지 epoch을 빼고 비교해야 함', () => {
+    const installed = { name: 'openssl-libs', version: '3.0.7-27.el9', architecture: 'x86_64' };
+
+    expect(isInstalledAtLeast(installed, createPackage('openssl-libs', '3.0.7', { epoch: 1, release: '27.el9' }), 'yum')).toBe(true);
+    expect(isInstalledAtLeast(installed, createPackage('openssl-libs', '3.0.7', { epoch: 1, release: '28.el9' }), 'yum')).toBe(false);
+    expect(isInstalledAtLeast(installed, createPackage('openssl-libs', '3.0.7', { architecture: 'aarch64', release: '1' }), 'yum')).toBe(false);
+  });
+
+  it('기본 제공 기준선은 server가 minimal을 포함하고 빈 파일은 거부해야 함', () => {
+    const minimal = getPresetBaseline('minimal', 'yum');
+    const server = createInstalledBaseline({ preset: 'server' }, 'yum')!;
+
+    expect(minimal.packages.has('glibc')).toBe(true);
+    expect([...minimal.packages.keys()].every((name) => server.packages.has(name))).toBe(true);
+    expect(server.packages.size).toBeGreaterThan(minimal.packages.size);
+    expect(createInstalledBaseline({}, 'apt')).toBeUndefined();
+    expect(() => parseInstalledBaseline('\n# comment\n', 'apt', 'empty.txt')).toThrow(
+      'Installed package baseline empty.txt is empty or in an unrecognized format'
+    );
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Installed Package Baseline
+ * 대상 호스트에 이미 설치된 패키지 목록(rpm -qa, dpkg-query -W, /lib/apk/db/installed 또는 기본 제공 기준선)을 읽어
+ * 의존성 해결에서 이미 충족된 패키지를 판별한다
+ */
+
+import { compareOSVersions, getFullVersion } from './version-compare';
+import type {
+  InstalledBaselinePreset,
+  InstalledBaselineSource,
+  OSPackageInfo,
+  OSPackageManager,
+} from './types';
+
+/**
+ * 설치된 패키지
+ */
+export interface InstalledPackage {
+  name: string;
+  /** 설치 버전 (기본 제공 기준선은 버전 없음 → 어떤 버전이든 충족) */
+  version?: string;
+  architecture?: string;
+}
+
+/**
+ * 설치 기준선
+ */
+export interface InstalledBaseline {
+  packageManager: OSPackageManager;
+  /** 기준선 출처 (기본 제공 기준선 이름 또는 파일 이름) */
+  source: string;
+  /** 패키지 이름 → 설치된 패키지 (multilib은 아키텍처별로 여러 개) */
+  packages: Map<string, InstalledPackage[]>;
+  /** 제공(provides) 이름 → 설치된 패키지 (apk 설치 DB의 p: 항목) */
+  provides: Map<string, InstalledPackage[]>;
+}
+
+export const INSTALLED_BASELINE_PRESETS: InstalledBaselinePreset[] = ['minimal', 'server'];
+
+/** rpm -qa 출력의 아키텍처 접미사 */
+const RPM_ARCHITECTURES = new Set([
+  'x86_64', 'noarch', 'i686', 'i386', 'aarch64', 'ppc64le', 's390x', 'armv7hl', 'armv7l',
+]);
+
+/** 아키텍처 무관 패키지 표기 */
+const ARCH_INDEPENDENT = new Set(['noarch', 'all']);
+
+/**
+ * 기본 제공 기준선 패키지 이름
+ *
+ * minimal은 최소 설치(Rocky/RHEL Minimal Install, Debian/Ubuntu required+important, Alpine 기본 이미지),
+ * server는 여기에 원격 관리용 서버 구성(sshd, 시간 동기화, 로그, 방화벽 등)을 더한 목록이다.
+ */
+const PRESET_PACKAGES: Record<OSPackageManager, Record<InstalledBaselinePreset, string[]>> = {
+  yum: {
+    minimal: [
+      'audit-libs', 'basesystem', 'bash', 'bzip2-libs', 'ca-certificates', 'coreutils', 'coreutils-common',
+      'cracklib', 'crypto-policies', 'curl', 'cyrus-sasl-lib', 'dbus', 'dbus-libs', 'dnf', 'dnf-data',
+      'elfutils-libelf', 'elfutils-libs', 'expat', 'file-libs', 'filesystem', 'findutils', 'gawk', 'gdbm-libs',
+      'glib2', 'glibc', 'glibc-common', 'glibc-minimal-langpack', 'gmp', 'gnupg2', 'gnutls', 'gpgme', 'grep',
+      'gzip', 'json-c', 'keyutils-libs', 'kmod-libs', 'krb5-libs', 'libacl', 'libattr', 'libblkid',
+      'libcap', 'libcap-ng', 'libcom_err', 'libcurl', 'libdnf', 'libeconf', 'libevent', 'libfdisk',
+      'libffi', 'libgcc', 'libgcrypt', 'libgpg-error', 'libidn2', 'libmount', 'libnghttp2', 'libpsl',
+      'libpwquality', 'librepo', 'libselinux', 'libsemanage', 'libsepol', 'libsigsegv', 'libsmartcols',
+      'libsolv', 'libssh', 'libstdc++', 'libtasn1', 'libunistring', 'libuuid', 'libverto', 'libxcrypt',
+      'libxml2', 'libyaml', 'libzstd', 'lua-libs', 'lz4-libs', 'mpfr', 'ncurses-base', 'ncurses-libs',
+      'nettle', 'npth', 'openldap', 'openssh', 'openssh-server', 'openssl', 'openssl-libs', 'p11-kit',
+      'p11-kit-trust', 'pam', 'pcre', 'pcre2', 'pcre2-syntax', 'popt', 'procps-ng', 'python3',
+      'python3-dnf', 'python3-hawkey', 'python3-libdnf', 'python3-libs', 'python3-rpm', 'readline', 'rpm',
+      'rpm-libs', 'sed', 'setup', 'shadow-utils', 'sqlite-libs', 'sudo', 'systemd', 'systemd-libs',
+      'systemd-pam', 'tar', 'tzdata', 'util-linux', 'util-linux-core', 'which', 'xz', 'xz-libs', 'zlib',
+    ],
+    server: [
+      'NetworkManager', 'chrony', 'cronie', 'firewalld', 'iproute', 'less', 'logrotate', 'openssh-clients',
+      'policycoreutils', 'rsyslog', 'selinux-policy', 'selinux-policy-targeted', 'tuned', 'vim-minimal',
+    ],
+  },
+  apt: {
+    minimal: [
+      'adduser', 'apt', 'base-files', 'base-passwd', 'bash', 'bsdutils', 'coreutils', 'dash', 'debconf',
+      'debianutils', 'diffutils', 'dpkg', 'e2fsprogs', 'findutils', 'gcc-12-base', 'gpgv', 'grep', 'gzip',
+      'hostname', 'init-system-helpers', 'libacl1', 'libapt-pkg6.0', 'libattr1', 'libaudit-common',
+      'libaudit1', 'libblkid1', 'libbz2-1.0', 'libc-bin', 'libc6', 'libcap-ng0', 'libcap2', 'libcom-err2',
+      'libcrypt1', 'libdb5.3', 'libdebconfclient0', 'libext2fs2', 'libffi8', 'libgcc-s1', 'libgcrypt20',
+      'libgmp10', 'libgnutls30', 'libgpg-error0', 'libhogweed6', 'libidn2-0', 'liblz4-1', 'liblzma5',
+      'libmd0', 'libmount1', 'libncursesw6', 'libnettle8', 'libp11-kit0', 'libpam-modules',
+      'libpam-modules-bin', 'libpam-runtime', 'libpam0g', 'libpcre2-8-0', 'libseccomp2', 'libselinux1',
+      'libsemanage-common', 'libsemanage2', 'libsepol2', 'libsmartcols1', 'libss2', 'libssl3',
+      'libstdc++6', 'libsystemd0', 'libtasn1-6', 'libtinfo6', 'libudev1', 'libunistring2', 'libuuid1',
+      'libxxhash0', 'libzstd1', 'login', 'logsave', 'mawk', 'mount', 'ncurses-base', 'ncurses-bin',
+      'passwd', 'perl-base', 'sed', 'sensible-utils', 'sysvinit-utils', 'tar', 'tzdata', 'usrmerge',
+      'util-linux', 'zlib1g',
+    ],
+    server: [
+      'ca-certificates', 'cron', 'curl', 'iproute2', 'iputils-ping', 'less', 'libcurl4', 'logrotate',
+      'netbase', 'openssh-client', 'openssh-server', 'openssl', 'procps', 'rsyslog', 'sudo', 'systemd',
+      'systemd-sysv', 'systemd-timesyncd', 'vim-tiny',
+    ],
+  },
+  apk: {
+    minimal: [
+      'alpine-baselayout', 'alpine-baselayout-data', 'alpine-keys', 'alpine-release', 'apk-tools',
+      'busybox', 'busybox-binsh', 'ca-certificates-bundle', 'libc-utils', 'libcrypto3', 'libssl3', 'musl',
+      'musl-utils', 'scanelf', 'ssl_client', 'zlib',
+    ],
+    server: [
+      'alpine-conf', 'busybox-openrc', 'chrony', 'e2fsprogs', 'ifupdown-ng', 'openrc', 'openssh',
+      'openssh-server', 'openssh-client-default', 'openssh-keygen', 'tzdata',
+    ],
+  },
+};
+
+export function isInstalledBaselinePreset(value: string): value is InstalledBaselinePreset {
+  return (INSTALLED_BASELINE_PRESETS as string[]).includes(value);
+}
+
+/**
+ * 기본 제공 기준선 만들기 (server는 minimal을 포함)
+ */
+export function getPresetBaseline(
+  preset: InstalledBaselinePreset,
+  packageManager: OSPackageManager
+): InstalledBaseline {
+  const baseline = createEmptyBaseline(packageManager, preset);
+  const names = preset === 'server'
+    ? [...PRESET_PACKAGES[packageManager].minimal, ...PRESET_PACKAGES[packageManager].server]
+    : PRESET_PACKAGES[packageManager].minimal;
+
+  for (const name of names) {
+    addInstalledPackage(baseline.packages, { name });
+  }
+  return baseline;
+}
+
+/**
+ * 설치 목록 파싱
+ *
+ * 형식은 내용으로 판별한다.
+ * - `/lib/apk/db/installed`: `P:`/`V:`/`A:`/`p:` 줄로 된 블록
+ * - `dpkg-query -W`, `rpm -qa --qf '%{NAME} %{EPOCHNUM}:%{VERSION}-%{RELEASE} %{ARCH}\n'`: 이름 버전 [아키텍처]
+ * - `rpm -qa`: name-version-release.arch
+ * - 그 외 한 줄에 패키지 이름 하나 (버전 무관)
+ */
+export function parseInstalledBaseline(
+  content: string,
+  packageManager: OSPackageManager,
+  source = 'baseline'
+): InstalledBaseline {
+  const baseline = createEmptyBaseline(packageManager, source);
+
+  if (/^P:/m.test(content) && /^V:/m.test(content)) {
+    parseApkInstalledDatabase(content, baseline);
+  } else {
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      const fields = line.split(/\s+/);
+      if (fields.length >= 2) {
+        addInstalledPackage(baseline.packages, {
+          // dpkg multiarch 이름 (libc6:amd64)
+          name: fields[0].replace(/:[^:]*$/, ''),
+          version: fields[1].replace(/^\(none\):/, ''),
+          architecture: fields[2],
+        });
+      } else if (rawLine.includes('\t')) {
+        // dpkg-query -W의 버전 없는 줄은 설치되지 않은(설정 파일만 남은) 패키지
+        continue;
+      } else {
+        addInstalledPackage(baseline.packages, packageManager === 'yum' ? parseRpmNevra(line) : { name: line });
+      }
+    }
+  }
+
+  if (baseline.packages.size === 0) {
+    throw new Error(`Installed package baseline ${source} is empty or in an unrecognized format`);
+  }
+  return baseline;
+}
+
+/**
+ * 입력(기본 제공 기준선 또는 파일 내용)에서 설치 기준선 만들기
+ */
+export function createInstalledBaseline(
+  input: InstalledBaselineSource,
+  packageManager: OSPackageManager
+): InstalledBaseline | undefined {
+  if (input.content) {
+    return parseInstalledBaseline(input.content, packageManager, input.fileName);
+  }
+  if (input.preset) {
+    return getPresetBaseline(input.preset, packageManager);
+  }
+  return undefined;
+}
+
+/**
+ * 이름 또는 provides로 설치된 패키지 찾기
+ */
+export function findInstalledPackages(baseline: InstalledBaseline, name: string): InstalledPackage[] {
+  return [...(baseline.packages.get(name) ?? []), ...(baseline.provides.get(name) ?? [])];
+}
+
+/**
+ * 설치된 패키지가 저장소 패키지와 같거나 새 버전인지 확인
+ *
+ * 버전 없는 항목(기본 제공 기준선, 이름 목록)은 항상 충족으로 본다.
+ * rpm -qa 출력에는 epoch이 없으므로 설치 버전에 epoch이 없으면 저장소 패키지의 epoch도 빼고 비교한다.
+ */
+export function isInstalledAtLeast(
+  installed: InstalledPackage,
+  pkg: OSPackageInfo,
+  packageManager: OSPackageManager
+): boolean {
+  if (
+    installed.architecture &&
+    installed.architecture !== pkg.architecture &&
+    !ARCH_INDEPENDENT.has(installed.architecture) &&
+    !ARCH_INDEPENDENT.has(pkg.architecture)
+  ) {
+    return false;
+  }
+  if (!installed.version) {
+    return true;
+  }
+
+  const available = packageManager === 'yum' && !installed.version.includes(':')
+    ? getFullVersion({ ...pkg, epoch: undefined }, packageManager)
+    : getFullVersion(pkg, packageManager);
+  return compareOSVersions(packageManager, installed.version, available) >= 0;
+}
+
+function createEmptyBaseline(packageManager: OSPackageManager, source: string): InstalledBaseline {
+  return { packageManager, source, packages: new Map(), provides: new Map() };
+}
+
+function addInstalledPackage(index: Map<string, InstalledPackage[]>, pkg: InstalledPackage, key = pkg.name): void {
+  const existing = index.get(key) ?? [];
+  existing.push(pkg);
+  index.set(key, existing);
+}
+
+/**
+ * rpm -qa 기본 출력 (name-version-release.arch) 파싱
+ */
+function parseRpmNevra(value: string): InstalledPackage {
+  const archIndex = value.lastIndexOf('.');
+  const architecture = archIndex !== -1 && RPM_ARCHITECTURES.has(value.slice(archIndex + 1))
+    ? value.slice(archIndex + 1)
+    : undefined;
+  const nevr = architecture ? value.slice(0, archIndex) : value;
+
+  // 버전은 숫자로 시작해야 이름의 '-'와 구분된다 (perl-File-Path 같은 이름 목록 보호)
+  const match = nevr.match(/^(.+)-(\d[^-]*)-([^-]+)$/);
+  if (!match) {
+    return { name: value };
+  }
+  return { name: match[1], version: `${match[2]}-${match[3]}`, architecture };
+}
+
+/**
+ * apk 설치 DB 파싱
+ */
+function parseApkInstalledDatabase(content: string, baseline: InstalledBaseline): void {
+  for (const block of content.split(/\r?\n\s*\r?\n/)) {
+    const fields = new Map<string, string>();
+    for (const line of block.split(/\r?\n/)) {
+      const match = line.match(/^([A-Za-z]):(.*)$/);
+      if (match && !fields.has(match[1])) {
+        fields.set(match[1], match[2].trim());
+      }
+    }
+
+    const name = fields.get('P');
+    if (!name) {
+      continue;
+    }
+    const pkg: InstalledPackage = { name, version: fields.get('V'), architecture: fields.get('A') };
+    addInstalledPackage(baseline.packages, pkg);
+
+    for (const provide of (fields.get('p') ?? '').split(/\s+/).filter(Boolean)) {
+      addInstalledPackage(baseline.provides, pkg, provide.split('=')[0]);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import * as crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  createCleartextMessage,
+  createSignature,
+  generateSecretKey,
+  readArmor,
+  readPublicKeys,
+  readSecretKey,
+  readSignatures,
+  verifyCleartextMessage,
+  verifySignatures,
+  writeArmor,
+} from './openpgp';
+import { createTestSigningKey } from '../../../test-utils/openpgp';
+
+describe('OpenPGP 서명 검증', () => {
+  const rsaKey = createTestSigningKey('rsa', 'Archive Signing Key <archive@example.test>');
+  const edKey = createTestSigningKey('ed25519');
+  const keys = [...readPublicKeys(rsaKey.armoredPublicKey), ...readPublicKeys(edKey.armoredPublicKey)];
+  const data = crypto.randomBytes(200_000);
+
+  it('armor 공개키에서 v4 핑거프린트와 사용자 ID를 읽어야 함', () => {
+    expect(keys.map((key) => [key.fingerprint, key.keyId, key.algorithm])).toEqual([
+      [rsaKey.fingerprint, rsaKey.keyId, 1],
+      [edKey.fingerprint, edKey.keyId, 22],
+    ]);
+    expect(keys[0].userIds).toEqual(['Archive Signing Key <archive@example.test>']);
+  });
+
+  it('RSA와 Ed25519 분리 서명을 검증하고 변조된 데이터는 거부해야 함', async () => {
+    for (const key of [rsaKey, edKey]) {
+      const signatures = readSignatures(key.signArmored(data));
+
+      await expect(verifySignatures(data, signatures, keys)).resolves.toEqual(
+        expect.objectContaining({ valid: true, key: expect.objectContaining({ fingerprint: key.fingerprint }) })
+      );
+
+      const tampered = Buffer.from(data);
+      tampered[1000] ^= 0xff;
+      await expect(verifySignatures(tampered, signatures, keys)).resolves.toEqual(
+        expect.objectContaining({ valid: false, reason: 'signature-invalid' })
+      );
+    }
+  });
+
+  it('큰 파일은 조각 단위로 넘겨도 같은 결과여야 함', async () => {
+    const signatures = readSignatures(rsaKey.sign(data));
+    async function* chunks() {
+      for (let offset = 0; offset < data.length; offset += 65536) {
+        yield data.subarray(offset, offset + 65536);
+      }
+    }
+
+    await expect(verifySignatures(chunks(), signatures, keys)).resolves.toEqual(
+      expect.objectContaining({ valid: true })
+    );
+  });
+
+  it('키링에 서명자 키가 없으면 key-not-found를 돌려줘야 함', async () => {
+    const result = await verifySignatures(data, readSignatures(rsaKey.sign(data)), readPublicKeys(edKey.armoredPublicKey));
+
+    expect(result).toEqual({
+      valid: false,
+      reason: 'key-not-found',
+      error: `No public key for signer ${rsaKey.keyId}`,
+    });
+  });
+
+  it('SHA-1 해시 서명은 서명자 키가 있어도 거부해야 함', async () => {
+    const signatures = readSignatures(rsaKey.sign(data)).map((signature) => ({ ...signature, hashAlgorithm: 2 }));
+
+    await expect(verifySignatures(data, signatures, keys)).resolves.toEqual({
+      valid: false,
+      reason: 'signature-invalid',
+      error: 'Unsupported OpenPGP hash algorithm 2',
+    });
+  });
+
+  it('cleartext 서명은 dash-escape와 줄 끝 공백을 정규화해 검증해야 함', async () => {
+    const text = 'Origin: Debian\nSuite: stable  \n-----not a header\nSHA256:\n abc 1 main/Release\n';
+    const message = edKey.clearsign(text);
+
+    const result = await verifyCleartextMessage(message, keys);
+
+    expect(result.valid).toBe(true);
+    expect(result.text).toBe(text.replace(/\n$/, ''));
+    await expect(verifyCleartextMessage(message.replace('Suite: stable', 'Suite: testing'), keys)).resolves.toEqual(
+      expect.objectContaining({ valid: false, reason: 'signature-invalid' })
+    );
+  });
+
+  it('armor 체크섬이 맞지 않으면 오류를 내야 함', () => {
+    const armored = rsaKey.signArmored(data);
+    const corrupted = armored.replace(/\n=(....)\n/, (_match, crc: string) => `\n=${crc === 'AAAA' ? 'BBBB' : 'AAAA'}\n`);
+
+    expect(readArmor(armored)).toHaveLength(1);
+    expect(() => readArmor(corrupted)).toThrow('checksum mismatch');
+  });
+
+  it('생성한 서명 키는 사용자 ID가 있는 공개키와 분리/cleartext 서명을 만들어야 함', async () => {
+    const secretKey = generateSecretKey('DepsSmuggler Local Repository (test)');
+    const publicKeys = readPublicKeys(writeArmor('PUBLIC KEY BLOCK', secretKey.publicKeyPackets));
+
+    expect(publicKeys).toHaveLength(1);
+    expect(publicKeys[0]).toEqual(expect.objectContaining({
+      fingerprint: secretKey.publicKey.fingerprint,
+      userIds: ['DepsSmuggler Local Repository (test)'],
+    }));
+    await expect(verifySignatures(data, readSignatures(createSignature(data, secretKey)), publicKeys)).resolves.toEqual(
+      expect.objectContaining({ valid: true })
+    );
+
+    const text = 'Origin: DepsSmuggler\n-----not a header\nSHA256:\n abc 1 Packages\n';
+    await expect(verifyCleartextMessage(createCleartextMessage(text, secretKey), publicKeys)).resolves.toEqual(
+      expect.objectContaining({ valid: true, text: text.replace(/\n$/, '') })
+    );
+  });
+
+  it('gpg 형식 비밀키를 암호로 풀어 서명하고 잘못된 암호는 거부해야 함', async () => {
+    const exported = rsaKey.exportSecretKey('correct horse');
+    const secretKey = readSecretKey(exported, 'correct horse');
+
+    expect(secretKey.publicKey.fingerprint).toBe(rsaKey.fingerprint);
+    await expect(verifySignatures(data, readSignatures(createSignature(data, secretKey)), keys)).resolves.toEqual(
+      expect.objectContaining({ valid: true, key: expect.objectContaining({ fingerprint: rsaKey.fingerprint }) })
+    );
+    expect(readSecretKey(rsaKey.exportSecretKey()).publicKey.fingerprint).toBe(rsaKey.fingerprint);
+    expect(() => readSecretKey(exported, 'wrong')).toThrow('Incorrect passphrase');
+    expect(() => readSecretKey(exported)).toThrow('passphrase required');
+  });
+});
@@ -0,0 +1,1047 @@
+/**
+ * OpenPGP Signature Verification
+ * 시스템 gpg 없이 공개키/서명 패킷(RFC 4880, RFC 9580)을 직접 읽어 Node crypto로 검증
+ *
+ * 지원 범위: v4 공개키(RSA, ECDSA P-256/384/521, EdDSA Ed25519), v3/v4 서명,
+ * ASCII armor, cleartext 서명(InRelease). 키링 파일 자체를 신뢰하므로 부 키 바인딩과 폐기 서명은 확인하지 않는다.
+ *
+ * 로컬 저장소 메타데이터 서명용으로 v4 RSA 비밀키 생성/읽기(S2K 암호 해제 포함)와 분리/cleartext 서명 작성도 제공한다.
+ */
+
+import * as crypto from 'crypto';
+
+const PACKET_SIGNATURE = 2;
+const PACKET_SECRET_KEY = 5;
+const PACKET_PUBLIC_KEY = 6;
+const PACKET_SECRET_SUBKEY = 7;
+const PACKET_USER_ID = 13;
+const PACKET_PUBLIC_SUBKEY = 14;
+
+const SIGNATURE_BINARY = 0x00;
+const SIGNATURE_TEXT = 0x01;
+const SIGNATURE_POSITIVE_CERTIFICATION = 0x13;
+
+const ALGORITHM_RSA = new Set([1, 2, 3]);
+const ALGORITHM_ECDSA = 19;
+const ALGORITHM_EDDSA_LEGACY = 22;
+const ALGORITHM_ED25519 = 27;
+
+const SUBPACKET_CREATION_TIME = 2;
+const SUBPACKET_ISSUER = 16;
+const SUBPACKET_PREFERRED_HASH = 21;
+const SUBPACKET_KEY_FLAGS = 27;
+const SUBPACKET_ISSUER_FINGERPRINT = 33;
+
+const KEY_FLAG_CERTIFY = 0x01;
+const KEY_FLAG_SIGN = 0x02;
+
+/** 서명 작성에 쓰는 해시 (SHA-256) */
+const SIGNING_HASH_ALGORITHM = 8;
+const SIGNING_KEY_SIZE = 3072;
+
+/** 비밀키 S2K 사용 방식: 평문 / SHA-1 검사값 / 2바이트 체크섬 */
+const S2K_USAGE_NONE = 0;
+const S2K_USAGE_SHA1 = 254;
+const S2K_USAGE_CHECKSUM = 255;
+/** S2K 지정자: simple / salted / iterated+salted / GnuPG 확장(카드, 비밀 부분 없음) */
+const S2K_SIMPLE = 0;
+const S2K_SALTED = 1;
+const S2K_ITERATED = 3;
+const S2K_GNU_EXTENSION = 101;
+
+/** 대칭 알고리즘 ID → Node CFB 암호 이름과 키 길이 */
+const SYMMETRIC_ALGORITHMS: Record<number, { cipher: string; keySize: number }> = {
+  7: { cipher: 'aes-128-cfb', keySize: 16 },
+  8: { cipher: 'aes-192-cfb', keySize: 24 },
+  9: { cipher: 'aes-256-cfb', keySize: 32 },
+};
+
+/** OpenPGP 해시 알고리즘 ID → Node 해시 이름 (MD5, SHA-1, RIPEMD160은 거부) */
+const HASH_ALGORITHMS: Record<number, string> = {
+  8: 'sha256',
+  9: 'sha384',
+  10: 'sha512',
+  11: 'sha224',
+};
+
+/** 곡선 OID(hex) → JWK 곡선 이름과 좌표 길이 */
+const CURVES: Record<string, { crv: 'P-256' | 'P-384' | 'P-521' | 'Ed25519'; size: number }> = {
+  '2a8648ce3d030107': { crv: 'P-256', size: 32 },
+  '2b81040022': { crv: 'P-384', size: 48 },
+  '2b81040023': { crv: 'P-521', size: 66 },
+  '2b06010401da470f01': { crv: 'Ed25519', size: 32 },
+};
+
+/**
+ * 공개키 (주 키 또는 부 키)
+ */
+export interface OpenPGPPublicKey {
+  /** v4 핑거프린트 (대문자 hex 40자) */
+  fingerprint: string;
+  /** 키 ID (핑거프린트 끝 16자) */
+  keyId: string;
+  /** 공개키 알고리즘 ID */
+  algorithm: number;
+  createdAt: Date;
+  /** 주 키의 사용자 ID (부 키는 빈 배열) */
+  userIds: string[];
+  /** 부 키일 때 주 키 핑거프린트 */
+  primaryFingerprint?: string;
+  /** 지원하지 않는 알고리즘이면 undefined */
+  keyObject?: crypto.KeyObject;
+  /** ECDSA/EdDSA 좌표 길이 (바이트) */
+  curveSize?: number;
+}
+
+/**
+ * 서명 패킷
+ */
+export interface OpenPGPSignature {
+  version: number;
+  signatureType: number;
+  publicKeyAlgorithm: number;
+  hashAlgorithm: number;
+  /** 서명자 키 ID (대문자 hex 16자) */
+  issuerKeyIds: string[];
+  /** 서명자 핑거프린트 (issuer fingerprint 서브패킷) */
+  issuerFingerprints: string[];
+  createdAt?: Date;
+  /** 데이터 뒤에 이어서 해시하는 서명 필드 (v4는 trailer 포함) */
+  hashSuffix: Buffer;
+  /** 해시 앞 2바이트 */
+  left16: Buffer;
+  /** 서명 값 (RSA는 1개, ECDSA/EdDSA는 r, s) */
+  values: Buffer[];
+}
+
+/**
+ * 서명 검증 결과
+ */
+export interface OpenPGPVerificationResult {
+  valid: boolean;
+  /** 검증에 성공한 키 */
+  key?: OpenPGPPublicKey;
+  /** 실패 이유: 키링에 서명자 키가 없음 / 서명 불일치 */
+  reason?: 'key-not-found' | 'signature-invalid';
+  error?: string;
+}
+
+/**
+ * cleartext 서명 메시지 (Debian InRelease 등)
+ */
+export interface OpenPGPCleartextMessage {
+  /** dash-escape를 해제한 본문 (줄바꿈은 \n) */
+  text: string;
+  signatures: OpenPGPSignature[];
+  /** 서명 대상으로 정규화한 본문 (줄 끝 공백 제거, CRLF) */
+  signedData: Buffer;
+}
+
+/**
+ * 서명용 비밀키 (RSA 주 키)
+ */
+export interface OpenPGPSecretKey {
+  publicKey: OpenPGPPublicKey;
+  privateKey: crypto.KeyObject;
+  /** 내보내기용 공개키 패킷 (주 키, 사용자 ID, 자체 서명 - 바이너리 키링 형식) */
+  publicKeyPackets: Buffer;
+}
+
+interface Packet {
+  tag: number;
+  body: Buffer;
+}
+
+class ByteReader {
+  constructor(private readonly data: Buffer, public offset = 0) {}
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  bytes(length: number): Buffer {
+    if (length < 0 || this.offset + length > this.data.length) {
+      throw new Error('Truncated OpenPGP data');
+    }
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  u8(): number {
+    return this.bytes(1)[0];
+  }
+
+  u16(): number {
+    return this.bytes(2).readUInt16BE(0);
+  }
+
+  u32(): number {
+    return this.bytes(4).readUInt32BE(0);
+  }
+
+  mpi(): Buffer {
+    const bits = this.u16();
+    return this.bytes(Math.ceil(bits / 8));
+  }
+}
+
+/**
+ * ASCII armor 블록 읽기 (CRC24가 있으면 확인)
+ */
+export function readArmor(text: string): Array<{ type: string; data: Buffer }> {
+  const blocks: Array<{ type: string; data: Buffer }> = [];
+  const pattern = /-----BEGIN PGP ([A-Z0-9 ,/]+)-----\r?\n([\s\S]*?)-----END PGP \1-----/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const lines = match[2].split(/\r?\n/).map((line) => line.trim());
+    // 헤더(Version:, Comment: 등)는 첫 빈 줄까지
+    const blankIndex = lines.indexOf('');
+    const hasHeaders = blankIndex > 0 && lines.slice(0, blankIndex).every((line) => /^[\w-]+: /.test(line));
+    const bodyLines = lines.slice(hasHeaders || blankIndex === 0 ? blankIndex + 1 : 0).filter(Boolean);
+
+    let checksum: string | undefined;
+    if (bodyLines.length > 0 && /^=[A-Za-z0-9+/]{4}$/.test(bodyLines[bodyLines.length - 1])) {
+      checksum = bodyLines.pop()?.slice(1);
+    }
+
+    const data = Buffer.from(bodyLines.join(''), 'base64');
+    if (checksum && crc24(data) !== Buffer.from(checksum, 'base64').readUIntBE(0, 3)) {
+      throw new Error(`OpenPGP armor checksum mismatch (${match[1]})`);
+    }
+    blocks.push({ type: match[1], data });
+  }
+
+  return blocks;
+}
+
+/**
+ * 공개키 읽기 (armor 텍스트 또는 바이너리 키링, 여러 키 가능)
+ */
+export function readPublicKeys(input: Buffer | string): OpenPGPPublicKey[] {
+  const keys: OpenPGPPublicKey[] = [];
+  let primary: OpenPGPPublicKey | undefined;
+
+  for (const packet of readPackets(decodeInput(input, 'PUBLIC KEY BLOCK'))) {
+    if (packet.tag === PACKET_PUBLIC_KEY || packet.tag === PACKET_PUBLIC_SUBKEY) {
+      const key = parsePublicKey(packet.body);
+      if (packet.tag === PACKET_PUBLIC_KEY) {
+        primary = key ?? undefined;
+      } else if (key && primary) {
+        key.primaryFingerprint = primary.fingerprint;
+      }
+      if (key && (packet.tag === PACKET_PUBLIC_KEY || primary)) {
+        keys.push(key);
+      }
+    } else if (packet.tag === PACKET_USER_ID && primary) {
+      primary.userIds.push(packet.body.toString('utf8'));
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * 서명 읽기 (armor 텍스트 또는 바이너리, .asc/.gpg/.sig)
+ */
+export function readSignatures(input: Buffer | string): OpenPGPSignature[] {
+  return readPackets(decodeInput(input, 'SIGNATURE'))
+    .filter((packet) => packet.tag === PACKET_SIGNATURE)
+    .map((packet) => parseSignature(packet.body))
+    .filter((signature): signature is OpenPGPSignature => signature !== null);
+}
+
+/**
+ * cleartext 서명 메시지 읽기
+ */
+export function readCleartextMessage(input: string): OpenPGPCleartextMessage {
+  const lines = input.replace(/\r\n/g, '\n').split('\n');
+  const begin = lines.indexOf('-----BEGIN PGP SIGNED MESSAGE-----');
+  if (begin === -1) {
+    throw new Error('Not an OpenPGP cleartext signed message');
+  }
+
+  // Hash: 헤더 뒤 빈 줄부터 본문
+  let index = begin + 1;
+  while (index < lines.length && lines[index] !== '') {
+    index += 1;
+  }
+  const signatureStart = lines.indexOf('-----BEGIN PGP SIGNATURE-----', index);
+  if (signatureStart === -1) {
+    throw new Error('Cleartext signed message has no signature block');
+  }
+
+  const messageLines = lines
+    .slice(index + 1, signatureStart)
+    .map((line) => (line.startsWith('- ') ? line.slice(2) : line));
+
+  return {
+    text: messageLines.join('\n'),
+    signatures: readSignatures(lines.slice(signatureStart).join('\n')),
+    signedData: Buffer.from(messageLines.map((line) => line.replace(/[ \t]+$/, '')).join('\r\n'), 'utf8'),
+  };
+}
+
+/**
+ * 분리 서명 검증
+ *
+ * 서명이 여러 개면 키링의 키로 하나라도 검증되면 성공. 큰 파일은 조각 단위로 넘길 수 있다.
+ */
+export async function verifySignatures(
+  data: Buffer | AsyncIterable<Buffer>,
+  signatures: OpenPGPSignature[],
+  keys: OpenPGPPublicKey[]
+): Promise<OpenPGPVerificationResult> {
+  if (signatures.length === 0) {
+    return { valid: false, reason: 'signature-invalid', error: 'No OpenPGP signature found' };
+  }
+
+  const candidates: Array<{ signature: OpenPGPSignature; key: OpenPGPPublicKey }> = [];
+  const unsupported: string[] = [];
+  for (const signature of signatures) {
+    if (signature.signatureType !== SIGNATURE_BINARY && signature.signatureType !== SIGNATURE_TEXT) {
+      continue;
+    }
+    if (!HASH_ALGORITHMS[signature.hashAlgorithm]) {
+      unsupported.push(`hash algorithm ${signature.hashAlgorithm}`);
+      continue;
+    }
+    for (const key of findSignerKeys(signature, keys)) {
+      candidates.push({ signature, key });
+    }
+  }
+
+  if (candidates.length === 0) {
+    const issuers = [...new Set(signatures.flatMap((signature) => signature.issuerKeyIds))];
+    return {
+      valid: false,
+      reason: unsupported.length > 0 ? 'signature-invalid' : 'key-not-found',
+      error: unsupported.length > 0
+        ? `Unsupported OpenPGP ${unsupported.join(', ')}`
+        : `No public key for signer ${issuers.join(', ') || '(unknown)'}`,
+    };
+  }
+
+  const pending = candidates.map(({ signature, key }) => {
+    const hashName = HASH_ALGORITHMS[signature.hashAlgorithm];
+    return {
+      signature,
+      key,
+      hash: crypto.createHash(hashName),
+      verifier: ALGORITHM_RSA.has(key.algorithm) || key.algorithm === ALGORITHM_ECDSA
+        ? crypto.createVerify(hashName)
+        : undefined,
+    };
+  });
+
+  const update = (chunk: Buffer, canonicalText: boolean) => {
+    for (const item of pending) {
+      const value = canonicalText && item.signature.signatureType === SIGNATURE_TEXT
+        ? toCanonicalText(chunk)
+        : chunk;
+      item.hash.update(value);
+      item.verifier?.update(value);
+    }
+  };
+
+  if (Buffer.isBuffer(data)) {
+    update(data, true);
+  } else {
+    if (pending.some((item) => item.signature.signatureType === SIGNATURE_TEXT)) {
+      return { valid: false, reason: 'signature-invalid', error: 'Text signatures require in-memory data' };
+    }
+    for await (const chunk of data) {
+      update(chunk, false);
+    }
+  }
+
+  for (const item of pending) {
+    item.hash.update(item.signature.hashSuffix);
+    item.verifier?.update(item.signature.hashSuffix);
+    const digest = item.hash.digest();
+    if (digest.subarray(0, 2).equals(item.signature.left16) && checkSignature(item, digest)) {
+      return { valid: true, key: item.key };
+    }
+  }
+
+  return {
+    valid: false,
+    reason: 'signature-invalid',
+    error: `OpenPGP signature does not match key ${pending.map((item) => item.key.keyId).join(', ')}`,
+  };
+}
+
+/**
+ * cleartext 서명 메시지 검증 후 본문 반환
+ */
+export async function verifyCleartextMessage(
+  input: string,
+  keys: OpenPGPPublicKey[]
+): Promise<OpenPGPVerificationResult & { text: string }> {
+  const message = readCleartextMessage(input);
+  const result = await verifySignatures(message.signedData, message.signatures, keys);
+  return { ...result, text: message.text };
+}
+
+/**
+ * ASCII armor 블록 작성 (CRC24 포함)
+ */
+export function writeArmor(type: string, data: Buffer): string {
+  const checksum = Buffer.alloc(3);
+  checksum.writeUIntBE(crc24(data), 0, 3);
+
+  return [
+    `-----BEGIN PGP ${type}-----`,
+    '',
+    ...(data.toString('base64').match(/.{1,64}/g) ?? []),
+    `=${checksum.toString('base64')}`,
+    `-----END PGP ${type}-----`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * 새 RSA 서명 키 생성 (주 키 하나, 사용자 ID와 자체 서명 포함)
+ */
+export function generateSecretKey(userId: string, createdAt = new Date()): OpenPGPSecretKey {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: SIGNING_KEY_SIZE });
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  const header = Buffer.alloc(6);
+  header[0] = 4;
+  header.writeUInt32BE(Math.floor(createdAt.getTime() / 1000), 1);
+  header[5] = 1;
+  const body = Buffer.concat([
+    header,
+    encodeMpi(Buffer.from(jwk.n as string, 'base64url')),
+    encodeMpi(Buffer.from(jwk.e as string, 'base64url')),
+  ]);
+  const key = parsePublicKey(body) as OpenPGPPublicKey;
+  key.userIds.push(userId);
+
+  const userIdBytes = Buffer.from(userId, 'utf8');
+  const selfSignature = createSignaturePacket(
+    certificationData(body, userIdBytes),
+    { publicKey: key, privateKey },
+    SIGNATURE_POSITIVE_CERTIFICATION,
+    [
+      encodeSubpacket(SUBPACKET_KEY_FLAGS, Buffer.from([KEY_FLAG_CERTIFY | KEY_FLAG_SIGN])),
+      encodeSubpacket(SUBPACKET_PREFERRED_HASH, Buffer.from([SIGNING_HASH_ALGORITHM, 10, 9])),
+    ],
+    createdAt
+  );
+
+  return {
+    publicKey: key,
+    privateKey,
+    publicKeyPackets: Buffer.concat([
+      encodePacket(PACKET_PUBLIC_KEY, body),
+      encodePacket(PACKET_USER_ID, userIdBytes),
+      selfSignature,
+    ]),
+  };
+}
+
+/**
+ * 비밀키 읽기 (gpg --export-secret-keys 결과, armor 또는 바이너리)
+ *
+ * 주 키가 서명 가능한 v4 RSA 키여야 한다. 부 키는 내보내는 공개키에서 뺀다.
+ */
+export function readSecretKey(input: Buffer | string, passphrase?: string): OpenPGPSecretKey {
+  const packets = readPackets(decodeInput(input, 'PRIVATE KEY BLOCK'));
+  const secretPacket = packets[0]?.tag === PACKET_SECRET_KEY ? packets[0] : undefined;
+  if (!secretPacket) {
+    throw new Error('No OpenPGP secret key found');
+  }
+
+  const body = secretPacket.body;
+  if (body[0] !== 4) {
+    throw new Error(`Unsupported OpenPGP secret key version ${body[0]}`);
+  }
+  const reader = new ByteReader(body, 5);
+  const algorithm = reader.u8();
+  if (algorithm !== 1 && algorithm !== 3) {
+    throw new Error(`Unsupported OpenPGP signing key algorithm ${algorithm} (RSA required)`);
+  }
+  const n = reader.mpi();
+  const e = reader.mpi();
+  const publicBody = body.subarray(0, reader.offset);
+  const publicKey = parsePublicKey(publicBody) as OpenPGPPublicKey;
+
+  const secretData = decryptSecretKeyMaterial(reader, passphrase);
+  const secretReader = new ByteReader(secretData);
+  const [d, p, q] = [secretReader.mpi(), secretReader.mpi(), secretReader.mpi()];
+  const privateKey = crypto.createPrivateKey({
+    key: createRsaPrivateJwk(n, e, d, p, q),
+    format: 'jwk',
+  });
+
+  // 주 키 뒤의 사용자 ID와 서명만 공개키로 내보낸다 (첫 부 키에서 멈춤)
+  const exported: Buffer[] = [encodePacket(PACKET_PUBLIC_KEY, publicBody)];
+  let keyFlags: number | undefined;
+  for (const packet of packets.slice(1)) {
+    if (packet.tag === PACKET_SECRET_SUBKEY || packet.tag === PACKET_PUBLIC_SUBKEY) {
+      break;
+    }
+    if (packet.tag === PACKET_USER_ID) {
+      publicKey.userIds.push(packet.body.toString('utf8'));
+      exported.push(encodePacket(packet.tag, packet.body));
+    } else if (packet.tag === PACKET_SIGNATURE) {
+      keyFlags ??= readKeyFlags(packet.body);
+      exported.push(encodePacket(packet.tag, packet.body));
+    }
+  }
+
+  if (publicKey.userIds.length === 0) {
+    throw new Error('OpenPGP secret key has no user ID');
+  }
+  if (keyFlags !== undefined && (keyFlags & KEY_FLAG_SIGN) === 0) {
+    throw new Error(`OpenPGP key ${publicKey.keyId} is not allowed to sign data (primary key flags)`);
+  }
+
+  return { publicKey, privateKey, publicKeyPackets: Buffer.concat(exported) };
+}
+
+/**
+ * 분리 서명 작성 (바이너리 서명 패킷, SHA-256)
+ */
+export function createSignature(
+  data: Buffer,
+  secretKey: Pick<OpenPGPSecretKey, 'publicKey' | 'privateKey'>,
+  signatureType = SIGNATURE_BINARY
+): Buffer {
+  return createSignaturePacket(data, secretKey, signatureType, []);
+}
+
+/**
+ * cleartext 서명 메시지 작성 (InRelease 형식)
+ */
+export function createCleartextMessage(
+  text: string,
+  secretKey: Pick<OpenPGPSecretKey, 'publicKey' | 'privateKey'>
+): string {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const signedData = Buffer.from(lines.map((line) => line.replace(/[ \t]+$/, '')).join('\r\n'), 'utf8');
+
+  return [
+    '-----BEGIN PGP SIGNED MESSAGE-----',
+    'Hash: SHA256',
+    '',
+    ...lines.map((line) => (line.startsWith('-') ? `- ${line}` : line)),
+    writeArmor('SIGNATURE', createSignature(signedData, secretKey, SIGNATURE_TEXT)),
+  ].join('\n');
+}
+
+function checkSignature(
+  item: { signature: OpenPGPSignature; key: OpenPGPPublicKey; verifier?: crypto.Verify },
+  digest: Buffer
+): boolean {
+  const { signature, key } = item;
+  if (!key.keyObject) {
+    return false;
+  }
+
+  try {
+    if (ALGORITHM_RSA.has(key.algorithm)) {
+      const modulusBytes = Math.ceil((key.keyObject.asymmetricKeyDetails?.modulusLength ?? 0) / 8);
+      return item.verifier?.verify(key.keyObject, padStart(signature.values[0], modulusBytes)) ?? false;
+    }
+
+    const size = key.curveSize ?? 32;
+    const rawSignature = signature.values.length === 1
+      ? signature.values[0]
+      : Buffer.concat([padStart(signature.values[0], size), padStart(signature.values[1], size)]);
+
+    if (key.algorithm === ALGORITHM_ECDSA) {
+      return item.verifier?.verify({ key: key.keyObject, dsaEncoding: 'ieee-p1363' }, rawSignature) ?? false;
+    }
+    // EdDSA는 메시지 대신 해시 값에 서명한다
+    return crypto.verify(null, digest, key.keyObject, rawSignature);
+  } catch {
+    return false;
+  }
+}
+
+function findSignerKeys(signature: OpenPGPSignature, keys: OpenPGPPublicKey[]): OpenPGPPublicKey[] {
+  const algorithmMatches = (key: OpenPGPPublicKey) =>
+    ALGORITHM_RSA.has(signature.publicKeyAlgorithm)
+      ? ALGORITHM_RSA.has(key.algorithm)
+      : signature.publicKeyAlgorithm === ALGORITHM_EDDSA_LEGACY || signature.publicKeyAlgorithm === ALGORITHM_ED25519
+        ? key.algorithm === ALGORITHM_EDDSA_LEGACY || key.algorithm === ALGORITHM_ED25519
+        : key.algorithm === signature.publicKeyAlgorithm;
+
+  const issued = keys.filter((key) =>
+    signature.issuerFingerprints.includes(key.fingerprint) || signature.issuerKeyIds.includes(key.keyId)
+  );
+  const hasIssuer = signature.issuerFingerprints.length > 0 || signature.issuerKeyIds.length > 0;
+  return (hasIssuer ? issued : keys).filter((key) => key.keyObject && algorithmMatches(key));
+}
+
+function decodeInput(input: Buffer | string, armorType: string): Buffer {
+  const text = typeof input === 'string'
+    ? input
+    : input.subarray(0, 64).toString('latin1').includes('-----BEGIN PGP')
+      ? input.toString('utf8')
+      : undefined;
+
+  if (text === undefined) {
+    return input as Buffer;
+  }
+
+  const blocks = readArmor(text).filter((block) => block.type === armorType);
+  if (blocks.length === 0) {
+    throw new Error(`No PGP ${armorType} found`);
+  }
+  return Buffer.concat(blocks.map((block) => block.data));
+}
+
+function readPackets(data: Buffer): Packet[] {
+  const packets: Packet[] = [];
+  const reader = new ByteReader(data);
+
+  while (reader.remaining > 0) {
+    const header = reader.u8();
+    if ((header & 0x80) === 0) {
+      throw new Error(`Invalid OpenPGP packet header at offset ${reader.offset - 1}`);
+    }
+
+    if (header & 0x40) {
+      // 새 형식: partial body 길이는 조각을 이어 붙인다
+      const chunks: Buffer[] = [];
+      for (;;) {
+        const first = reader.u8();
+        if (first < 192) {
+          chunks.push(reader.bytes(first));
+          break;
+        }
+        if (first < 224) {
+          chunks.push(reader.bytes(((first - 192) << 8) + reader.u8() + 192));
+          break;
+        }
+        if (first === 255) {
+          chunks.push(reader.bytes(reader.u32()));
+          break;
+        }
+        chunks.push(reader.bytes(1 << (first & 0x1f)));
+      }
+      packets.push({ tag: header & 0x3f, body: Buffer.concat(chunks) });
+    } else {
+      const lengthType = header & 0x03;
+      const length = lengthType === 0
+        ? reader.u8()
+        : lengthType === 1
+          ? reader.u16()
+          : lengthType === 2
+            ? reader.u32()
+            : reader.remaining;
+      packets.push({ tag: (header >> 2) & 0x0f, body: reader.bytes(length) });
+    }
+  }
+
+  return packets;
+}
+
+function parsePublicKey(body: Buffer): OpenPGPPublicKey | null {
+  // v3 키와 v5/v6 키는 배포판 저장소 키에 쓰이지 않으므로 건너뛴다
+  if (body[0] !== 4) {
+    return null;
+  }
+
+  const reader = new ByteReader(body, 1);
+  const createdAt = new Date(reader.u32() * 1000);
+  const algorithm = reader.u8();
+  const fingerprint = crypto
+    .createHash('sha1')
+    .update(Buffer.from([0x99, (body.length >> 8) & 0xff, body.length & 0xff]))
+    .update(body)
+    .digest('hex')
+    .toUpperCase();
+
+  let keyObject: crypto.KeyObject | undefined;
+  let curveSize: number | undefined;
+  try {
+    if (ALGORITHM_RSA.has(algorithm)) {
+      const n = reader.mpi();
+      const e = reader.mpi();
+      keyObject = crypto.createPublicKey({
+        key: { kty: 'RSA', n: toBase64Url(n), e: toBase64Url(e) },
+        format: 'jwk',
+      });
+    } else if (algorithm === ALGORITHM_ECDSA || algorithm === ALGORITHM_EDDSA_LEGACY) {
+      const curve = CURVES[reader.bytes(reader.u8()).toString('hex')];
+      const point = reader.mpi();
+      if (curve?.crv === 'Ed25519' && algorithm === ALGORITHM_EDDSA_LEGACY && point[0] === 0x40) {
+        keyObject = createEd25519Key(point.subarray(1));
+        curveSize = curve.size;
+      } else if (curve && curve.crv !== 'Ed25519' && algorithm === ALGORITHM_ECDSA && point[0] === 0x04) {
+        keyObject = crypto.createPublicKey({
+          key: {
+            kty: 'EC',
+            crv: curve.crv,
+            x: toBase64Url(point.subarray(1, 1 + curve.size)),
+            y: toBase64Url(point.subarray(1 + curve.size)),
+          },
+          format: 'jwk',
+        });
+        curveSize = curve.size;
+      }
+    } else if (algorithm === ALGORITHM_ED25519) {
+      keyObject = createEd25519Key(reader.bytes(32));
+      curveSize = 32;
+    }
+  } catch {
+    keyObject = undefined;
+  }
+
+  return {
+    fingerprint,
+    keyId: fingerprint.slice(-16),
+    algorithm,
+    createdAt,
+    userIds: [],
+    keyObject,
+    curveSize,
+  };
+}
+
+function parseSignature(body: Buffer): OpenPGPSignature | null {
+  const reader = new ByteReader(body);
+  const version = reader.u8();
+
+  if (version === 3) {
+    // v3: 서명 유형과 생성 시각 5바이트만 해시한다
+    if (reader.u8() !== 5) {
+      throw new Error('Invalid v3 OpenPGP signature');
+    }
+    const hashed = reader.bytes(5);
+    const issuer = reader.bytes(8).toString('hex').toUpperCase();
+    const publicKeyAlgorithm = reader.u8();
+    const hashAlgorithm = reader.u8();
+    const left16 = reader.bytes(2);
+    return {
+      version,
+      signatureType: hashed[0],
+      publicKeyAlgorithm,
+      hashAlgorithm,
+      issuerKeyIds: [issuer],
+      issuerFingerprints: [],
+      createdAt: new Date(hashed.readUInt32BE(1) * 1000),
+      hashSuffix: Buffer.from(hashed),
+      left16,
+      values: readSignatureValues(reader, publicKeyAlgorithm),
+    };
+  }
+
+  if (version !== 4) {
+    return null;
+  }
+
+  const signatureType = reader.u8();
+  const publicKeyAlgorithm = reader.u8();
+  const hashAlgorithm = reader.u8();
+  const hashedSubpackets = reader.bytes(reader.u16());
+  const hashedPortion = body.subarray(0, reader.offset);
+  const unhashedSubpackets = reader.bytes(reader.u16());
+  const left16 = reader.bytes(2);
+
+  const trailer = Buffer.alloc(6);
+  trailer[0] = 0x04;
+  trailer[1] = 0xff;
+  trailer.writeUInt32BE(hashedPortion.length, 2);
+
+  const signature: OpenPGPSignature = {
+    version,
+    signatureType,
+    publicKeyAlgorithm,
+    hashAlgorithm,
+    issuerKeyIds: [],
+    issuerFingerprints: [],
+    hashSuffix: Buffer.concat([hashedPortion, trailer]),
+    left16,
+    values: readSignatureValues(reader, publicKeyAlgorithm),
+  };
+
+  for (const [subpackets, hashed] of [[hashedSubpackets, true], [unhashedSubpackets, false]] as const) {
+    for (const { type, data } of readSubpackets(subpackets)) {
+      if (type === SUBPACKET_CREATION_TIME && hashed && data.length === 4) {
+        signature.createdAt = new Date(data.readUInt32BE(0) * 1000);
+      } else if (type === SUBPACKET_ISSUER && data.length === 8) {
+        signature.issuerKeyIds.push(data.toString('hex').toUpperCase());
+      } else if (type === SUBPACKET_ISSUER_FINGERPRINT && data[0] === 4 && data.length === 21) {
+        const fingerprint = data.subarray(1).toString('hex').toUpperCase();
+        signature.issuerFingerprints.push(fingerprint);
+        signature.issuerKeyIds.push(fingerprint.slice(-16));
+      }
+    }
+  }
+
+  return signature;
+}
+
+function readSignatureValues(reader: ByteReader, publicKeyAlgorithm: number): Buffer[] {
+  if (ALGORITHM_RSA.has(publicKeyAlgorithm)) {
+    return [reader.mpi()];
+  }
+  if (publicKeyAlgorithm === ALGORITHM_ED25519) {
+    return [reader.bytes(64)];
+  }
+  if (publicKeyAlgorithm === ALGORITHM_ECDSA || publicKeyAlgorithm === ALGORITHM_EDDSA_LEGACY || publicKeyAlgorithm === 17) {
+    return [reader.mpi(), reader.mpi()];
+  }
+  return [];
+}
+
+function readSubpackets(data: Buffer): Array<{ type: number; data: Buffer }> {
+  const subpackets: Array<{ type: number; data: Buffer }> = [];
+  const reader = new ByteReader(data);
+
+  while (reader.remaining > 0) {
+    const first = reader.u8();
+    const length = first < 192
+      ? first
+      : first < 255
+        ? ((first - 192) << 8) + reader.u8() + 192
+        : reader.u32();
+    const body = reader.bytes(length);
+    if (body.length > 0) {
+      subpackets.push({ type: body[0] & 0x7f, data: body.subarray(1) });
+    }
+  }
+
+  return subpackets;
+}
+
+function createSignaturePacket(
+  data: Buffer,
+  secretKey: Pick<OpenPGPSecretKey, 'publicKey' | 'privateKey'>,
+  signatureType: number,
+  extraSubpackets: Buffer[],
+  createdAt = new Date()
+): Buffer {
+  const { publicKey, privateKey } = secretKey;
+  const creation = Buffer.alloc(4);
+  creation.writeUInt32BE(Math.floor(createdAt.getTime() / 1000), 0);
+  const hashedSubpackets = Buffer.concat([
+    encodeSubpacket(SUBPACKET_CREATION_TIME, creation),
+    encodeSubpacket(SUBPACKET_ISSUER_FINGERPRINT, Buffer.concat([Buffer.from([4]), Buffer.from(publicKey.fingerprint, 'hex')])),
+    ...extraSubpackets,
+  ]);
+  const hashedPortion = Buffer.concat([
+    Buffer.from([4, signatureType, publicKey.algorithm, SIGNING_HASH_ALGORITHM, hashedSubpackets.length >> 8, hashedSubpackets.length & 0xff]),
+    hashedSubpackets,
+  ]);
+  const trailer = Buffer.from([4, 0xff, 0, 0, 0, 0]);
+  trailer.writeUInt32BE(hashedPortion.length, 2);
+
+  const hashName = HASH_ALGORITHMS[SIGNING_HASH_ALGORITHM];
+  const digest = crypto.createHash(hashName).update(data).update(hashedPortion).update(trailer).digest();
+  const signature = crypto.createSign(hashName).update(data).update(hashedPortion).update(trailer).sign(privateKey);
+  const unhashedSubpackets = encodeSubpacket(SUBPACKET_ISSUER, Buffer.from(publicKey.keyId, 'hex'));
+
+  return encodePacket(PACKET_SIGNATURE, Buffer.concat([
+    hashedPortion,
+    Buffer.from([unhashedSubpackets.length >> 8, unhashedSubpackets.length & 0xff]),
+    unhashedSubpackets,
+    digest.subarray(0, 2),
+    encodeMpi(signature),
+  ]));
+}
+
+/** 사용자 ID 인증 서명의 해시 대상 (공개키 본문 + 사용자 ID) */
+function certificationData(keyBody: Buffer, userId: Buffer): Buffer {
+  const keyLength = Buffer.from([0x99, keyBody.length >> 8, keyBody.length & 0xff]);
+  const userIdLength = Buffer.alloc(5);
+  userIdLength[0] = 0xb4;
+  userIdLength.writeUInt32BE(userId.length, 1);
+  return Buffer.concat([keyLength, keyBody, userIdLength, userId]);
+}
+
+/** 자체 서명의 key flags 서브패킷 (인증 서명이 아니거나 없으면 undefined) */
+function readKeyFlags(signatureBody: Buffer): number | undefined {
+  const signatureType = signatureBody[1];
+  if (signatureBody[0] !== 4 || signatureType < 0x10 || signatureType > 0x13) {
+    return undefined;
+  }
+  const reader = new ByteReader(signatureBody, 4);
+  const flags = readSubpackets(reader.bytes(reader.u16())).find((subpacket) => subpacket.type === SUBPACKET_KEY_FLAGS);
+  return flags && flags.data.length > 0 ? flags.data[0] : undefined;
+}
+
+/**
+ * 비밀키 MPI 영역을 평문으로 (S2K 사용 방식 0, 254, 255와 AES CFB)
+ */
+function decryptSecretKeyMaterial(reader: ByteReader, passphrase?: string): Buffer {
+  const usage = reader.u8();
+  if (usage === S2K_USAGE_NONE) {
+    const data = reader.bytes(reader.remaining);
+    const material = data.subarray(0, -2);
+    if (secretChecksum(material) !== data.readUInt16BE(data.length - 2)) {
+      throw new Error('OpenPGP secret key checksum mismatch');
+    }
+    return material;
+  }
+  if (usage !== S2K_USAGE_SHA1 && usage !== S2K_USAGE_CHECKSUM) {
+    throw new Error(`Unsupported OpenPGP secret key protection (S2K usage ${usage})`);
+  }
+
+  const symmetricAlgorithm = reader.u8();
+  const symmetric = SYMMETRIC_ALGORITHMS[symmetricAlgorithm];
+  const s2kType = reader.u8();
+  if (s2kType === S2K_GNU_EXTENSION) {
+    throw new Error('OpenPGP secret key material is not available (GnuPG stub or smartcard key)');
+  }
+  if (!symmetric) {
+    throw new Error(`Unsupported OpenPGP secret key cipher ${symmetricAlgorithm}`);
+  }
+  if (s2kType !== S2K_SIMPLE && s2kType !== S2K_SALTED && s2kType !== S2K_ITERATED) {
+    throw new Error(`Unsupported OpenPGP S2K type ${s2kType}`);
+  }
+  const hashAlgorithm = reader.u8();
+  const hashName = HASH_ALGORITHMS[hashAlgorithm];
+  if (!hashName) {
+    throw new Error(`Unsupported OpenPGP S2K hash algorithm ${hashAlgorithm}`);
+  }
+  const salt = s2kType === S2K_SIMPLE ? Buffer.alloc(0) : reader.bytes(8);
+  // 반복 횟수 인코딩: (16 + 하위 4비트) << (상위 4비트 + 6)
+  const countByte = s2kType === S2K_ITERATED ? reader.u8() : 0;
+  const count = s2kType === S2K_ITERATED ? (16 + (countByte & 15)) << ((countByte >> 4) + 6) : 0;
+  if (passphrase === undefined) {
+    throw new Error('OpenPGP secret key is protected; passphrase required');
+  }
+
+  const iv = reader.bytes(16);
+  const key = deriveS2KKey(hashName, salt, count, passphrase, symmetric.keySize);
+  const decipher = crypto.createDecipheriv(symmetric.cipher, key, iv);
+  const data = Buffer.concat([decipher.update(reader.bytes(reader.remaining)), decipher.final()]);
+
+  const checkSize = usage === S2K_USAGE_SHA1 ? 20 : 2;
+  const material = data.subarray(0, data.length - checkSize);
+  const check = data.subarray(data.length - checkSize);
+  const valid = usage === S2K_USAGE_SHA1
+    ? crypto.createHash('sha1').update(material).digest().equals(check)
+    : check.length === 2 && secretChecksum(material) === check.readUInt16BE(0);
+  if (!valid) {
+    throw new Error('Incorrect passphrase for OpenPGP secret key');
+  }
+  return material;
+}
+
+function deriveS2KKey(hashName: string, salt: Buffer, count: number, passphrase: string, keySize: number): Buffer {
+  const input = Buffer.concat([salt, Buffer.from(passphrase, 'utf8')]);
+  const total = input.length === 0 ? 0 : Math.max(count, input.length);
+  // 반복 해시는 salt+암호를 이어 붙인 블록을 큰 단위로 넣는다
+  const block = Buffer.concat(new Array<Buffer>(Math.max(1, Math.ceil(65536 / Math.max(input.length, 1)))).fill(input));
+
+  const parts: Buffer[] = [];
+  for (let preload = 0; Buffer.concat(parts).length < keySize; preload += 1) {
+    const hash = crypto.createHash(hashName).update(Buffer.alloc(preload));
+    for (let remaining = total; remaining > 0; remaining -= block.length) {
+      hash.update(block.subarray(0, Math.min(remaining, block.length)));
+    }
+    parts.push(hash.digest());
+  }
+  return Buffer.concat(parts).subarray(0, keySize);
+}
+
+function secretChecksum(data: Buffer): number {
+  let sum = 0;
+  for (const byte of data) {
+    sum = (sum + byte) & 0xffff;
+  }
+  return sum;
+}
+
+/** OpenPGP RSA 비밀 MPI(d, p, q)로 JWK 구성 (CRT 값은 다시 계산) */
+function createRsaPrivateJwk(n: Buffer, e: Buffer, d: Buffer, p: Buffer, q: Buffer): Record<string, string> {
+  const [bigD, bigP, bigQ] = [d, p, q].map(toBigInt);
+  return {
+    kty: 'RSA',
+    n: toBase64Url(n),
+    e: toBase64Url(e),
+    d: toBase64Url(d),
+    p: toBase64Url(p),
+    q: toBase64Url(q),
+    dp: toBase64Url(fromBigInt(bigD % (bigP - 1n))),
+    dq: toBase64Url(fromBigInt(bigD % (bigQ - 1n))),
+    qi: toBase64Url(fromBigInt(modInverse(bigQ, bigP))),
+  };
+}
+
+function toBigInt(value: Buffer): bigint {
+  return value.length === 0 ? 0n : BigInt(`0x${value.toString('hex')}`);
+}
+
+function fromBigInt(value: bigint): Buffer {
+  const hex = value.toString(16);
+  return Buffer.from(hex.length % 2 === 0 ? hex : `0${hex}`, 'hex');
+}
+
+function modInverse(value: bigint, modulus: bigint): bigint {
+  let [oldR, r] = [value % modulus, modulus];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return ((oldS % modulus) + modulus) % modulus;
+}
+
+function encodeMpi(value: Buffer): Buffer {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) {
+    start += 1;
+  }
+  const trimmed = value.subarray(start);
+  const bits = (trimmed.length - 1) * 8 + (trimmed[0] === 0 ? 0 : 32 - Math.clz32(trimmed[0]));
+  return Buffer.concat([Buffer.from([bits >> 8, bits & 0xff]), trimmed]);
+}
+
+function encodeSubpacket(type: number, data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([data.length + 1, type]), data]);
+}
+
+function encodePacket(tag: number, body: Buffer): Buffer {
+  const length = body.length < 192
+    ? Buffer.from([body.length])
+    : body.length < 8384
+      ? Buffer.from([((body.length - 192) >> 8) + 192, (body.length - 192) & 0xff])
+      : Buffer.from([0xff, body.length >>> 24, (body.length >> 16) & 0xff, (body.length >> 8) & 0xff, body.length & 0xff]);
+  return Buffer.concat([Buffer.from([0xc0 | tag]), length, body]);
+}
+
+function createEd25519Key(x: Buffer): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: toBase64Url(x) },
+    format: 'jwk',
+  });
+}
+
+function toCanonicalText(data: Buffer): Buffer {
+  return Buffer.from(data.toString('utf8').replace(/\r?\n/g, '\r\n'), 'utf8');
+}
+
+function toBase64Url(value: Buffer): string {
+  return value.toString('base64url');
+}
+
+function padStart(value: Buffer, length: number): Buffer {
+  if (value.length >= length) {
+    return value;
+  }
+  return Buffer.concat([Buffer.alloc(length - value.length), value]);
+}
+
+function crc24(data: Buffer): number {
+  let crc = 0xb704ce;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc <<= 1;
+      if (crc & 0x1000000) {
+        crc ^= 0x1864cfb;
+      }
+    }
+  }
+  return crc & 0xffffff;
+}
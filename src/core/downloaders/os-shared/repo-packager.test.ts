@@ -1,9 +1,12 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { gunzipSync } from 'zlib';
+import { gunzipSync, inflateRawSync } from 'zlib';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readPublicKeys, readSignatures, verifyCleartextMessage, verifySignatures } from './openpgp';
 import { OSRepoPackager } from './repo-packager';
+import { createTestSigningKey } from '../../../test-utils/openpgp';
 import type { OSPackageInfo } from './types';
 import { getDownloadedFileKey } from './package-file-utils';
 
@@ -67,4 +70,143 @@ describe('OSRepoPackager', () => {
     expect(content).toContain('Packages/httpd-2.4.57-3.el9.x86_64.rpm');
     expect(content).toContain('rel="3.el9"');
   });
+
+  it('모듈 메타데이터가 있으면 modules.yaml.gz를 repomd.xml에 등록한다', async () => {
+    const packager = new OSRepoPackager();
+    const pkg: OSPackageInfo = {
+      ...createRpmPackage(),
+      release: '3.module+el9.2.0+1000',
+      epoch: 0,
+      moduleStream: 'httpd:2.4',
+    };
+    const downloadedFile = path.join(tempDir, 'httpd-2.4.57-3.module+el9.2.0+1000.x86_64.rpm');
+    fs.writeFileSync(downloadedFile, 'rpm');
+
+    const result = await packager.createLocalRepo(
+      [pkg],
+      new Map([[getDownloadedFileKey(pkg), downloadedFile]]),
+      {
+        packageManager: 'yum',
+        outputPath: path.join(tempDir, 'repo'),
+        repoName: 'test-repo',
+        modules: {
+          streams: [
+            {
+              name: 'httpd',
+              stream: '2.4',
+              version: '9020020230101000000',
+              context: 'rhel9',
+              arch: 'x86_64',
+              summary: 'Apache HTTP Server',
+              description: '',
+              license: ['MIT'],
+              profiles: { common: ['httpd'] },
+              requires: [],
+              artifacts: ['httpd-0:2.4.57-3.module+el9.2.0+1000.x86_64'],
+            },
+          ],
+          defaults: [],
+        },
+      }
+    );
+
+    const modulesYamlGz = result.metadataFiles.find((file) => file.endsWith('modules.yaml.gz'));
+    expect(modulesYamlGz).toBeTruthy();
+    expect(gunzipSync(fs.readFileSync(modulesYamlGz!)).toString('utf8')).toContain(
+      '- httpd-0:2.4.57-3.module+el9.2.0+1000.x86_64'
+    );
+
+    const repomd = fs.readFileSync(path.join(tempDir, 'repo', 'repodata', 'repomd.xml'), 'utf8');
+    expect(repomd).toContain('<data type="modules">');
+    expect(repomd).toContain('repodata/modules.yaml.gz');
+  });
+
+  it('서명 옵션이 있으면 APT Release에 서명하고 키링과 signed-by 설정 스크립트를 만든다', async () => {
+    const signingKey = createTestSigningKey('rsa', 'Bundle Key <bundle@example.test>');
+    const pkg = { ...createRpmPackage(), name: 'curl', version: '7.88.1-10', architecture: 'amd64' as const };
+
+    const result = await new OSRepoPackager().createLocalRepo([pkg], new Map(), {
+      packageManager: 'apt',
+      outputPath: path.join(tempDir, 'repo'),
+      repoName: 'test-repo',
+      signing: { secretKey: signingKey.exportSecretKey('secret'), passphrase: 'secret' },
+    });
+
+    const repoPath = path.join(tempDir, 'repo');
+    expect(result.signingKey).toEqual({
+      fingerprint: signingKey.fingerprint,
+      publicKeyPath: path.join(repoPath, 'test-repo-archive-keyring.gpg'),
+    });
+
+    const keys = readPublicKeys(fs.readFileSync(path.join(repoPath, 'test-repo-archive-keyring.gpg')));
+    const release = fs.readFileSync(path.join(repoPath, 'Release'));
+    const inRelease = await verifyCleartextMessage(fs.readFileSync(path.join(repoPath, 'InRelease'), 'utf8'), keys);
+    expect(inRelease.valid).toBe(true);
+    expect(inRelease.text).toBe(release.toString('utf8'));
+    await expect(
+      verifySignatures(release, readSignatures(fs.readFileSync(path.join(repoPath, 'Release.gpg'), 'utf8')), keys)
+    ).resolves.toEqual(expect.objectContaining({ valid: true }));
+
+    const setupScript = fs.readFileSync(path.join(repoPath, 'setup-repo.sh'), 'utf8');
+    expect(setupScript).toContain('signed-by=${KEYRING}');
+    expect(setupScript).toContain('KEYRING="/etc/apt/keyrings/test-repo-archive-keyring.gpg"');
+    expect(setupScript).not.toContain('trusted=yes');
+    expect(setupScript).not.toContain('dpkg-scanpackages');
+  });
+
+  it('서명 키가 없으면 저장소 전용 키를 만들어 repomd.xml과 APKINDEX에 서명한다', async () => {
+    const pkg = createRpmPackage();
+    const packager = new OSRepoPackager();
+
+    const yum = await packager.createLocalRepo([pkg], new Map(), {
+      packageManager: 'yum',
+      outputPath: path.join(tempDir, 'yum'),
+      repoName: 'test-repo',
+      signing: {},
+    });
+    const repomd = fs.readFileSync(path.join(tempDir, 'yum', 'repodata', 'repomd.xml'));
+    const yumKeys = readPublicKeys(fs.readFileSync(path.join(tempDir, 'yum', 'RPM-GPG-KEY-test-repo'), 'utf8'));
+    expect(yumKeys[0].fingerprint).toBe(yum.signingKey?.fingerprint);
+    expect(yumKeys[0].userIds).toEqual(['DepsSmuggler Local Repository (test-repo)']);
+    await expect(
+      verifySignatures(repomd, readSignatures(fs.readFileSync(path.join(tempDir, 'yum', 'repodata', 'repomd.xml.asc'), 'utf8')), yumKeys)
+    ).resolves.toEqual(expect.objectContaining({ valid: true }));
+    const yumScript = fs.readFileSync(path.join(tempDir, 'yum', 'setup-repo.sh'), 'utf8');
+    expect(yumScript).toContain('repo_gpgcheck=1');
+    expect(yumScript).not.toContain('createrepo');
+
+    const apk = await packager.createLocalRepo([{ ...pkg, architecture: 'x86_64' }], new Map(), {
+      packageManager: 'apk',
+      outputPath: path.join(tempDir, 'apk'),
+      repoName: 'test-repo',
+      signing: {},
+    });
+    // 각 저장소는 서로 다른 키로 서명된다
+    expect(apk.signingKey?.fingerprint).not.toBe(yum.signingKey?.fingerprint);
+
+    const publicKeyPath = apk.signingKey?.publicKeyPath ?? '';
+    const keyName = path.basename(publicKeyPath);
+    expect(keyName).toBe(`test-repo-${apk.signingKey?.fingerprint.slice(-8).toLowerCase()}.rsa.pub`);
+
+    // 첫 gzip 스트림은 서명 tar, 두 번째 스트림이 서명 대상 인덱스
+    const apkindex = fs.readFileSync(path.join(tempDir, 'apk', 'APKINDEX.tar.gz'));
+    const { buffer: signatureTar, engine } = inflateRawSync(apkindex.subarray(10), { info: true }) as unknown as {
+      buffer: Buffer;
+      engine: { bytesWritten: number };
+    };
+    const indexGz = apkindex.subarray(10 + engine.bytesWritten + 8);
+    const signatureSize = parseInt(signatureTar.toString('ascii', 124, 135), 8);
+    expect(signatureTar.toString('utf8', 0, 100).replace(/\0+$/, '')).toBe(`.SIGN.RSA256.${keyName}`);
+    expect(crypto.verify(
+      'sha256',
+      indexGz,
+      fs.readFileSync(publicKeyPath, 'utf8'),
+      signatureTar.subarray(512, 512 + signatureSize)
+    )).toBe(true);
+    expect(gunzipSync(indexGz).toString('utf8')).toContain('P:httpd\nV:2.4.57');
+
+    const apkScript = fs.readFileSync(path.join(tempDir, 'apk', 'setup-repo.sh'), 'utf8');
+    expect(apkScript).toContain(`cp "\${REPO_DIR}/${keyName}" /etc/apk/keys/`);
+    expect(apkScript).not.toContain('--allow-untrusted');
+  });
 });
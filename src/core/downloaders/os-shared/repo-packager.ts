@@ -8,13 +8,34 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import * as zlib from 'zlib';
 import { promisify } from 'util';
-import type { OSPackageInfo, OSPackageManager } from './types';
+import type { ModuleMetadata, OSPackageInfo, OSPackageManager } from './types';
+import {
+  createCleartextMessage,
+  createSignature,
+  generateSecretKey,
+  readSecretKey,
+  writeArmor,
+  type OpenPGPSecretKey,
+} from './openpgp';
 import { getDownloadedFileKey, getPackageFilename } from './package-file-utils';
 import { OSScriptGenerator } from './script-generator';
+import { serializeModulesYaml } from './yum-modules';
 import { getWriteOptions } from '../../shared/path-utils';
 
 const gzip = promisify(zlib.gzip);
 
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * 저장소 메타데이터 서명 옵션
+ */
+export interface RepoSigningOptions {
+  /** 사용자 제공 OpenPGP RSA 비밀키 (armor 또는 바이너리). 없으면 이 저장소 전용 키를 새로 만든다 */
+  secretKey?: string | Buffer;
+  /** 비밀키 암호 */
+  passphrase?: string;
+}
+
 /**
  * 저장소 옵션
  */
@@ -27,6 +48,10 @@ export interface RepoOptions {
   repoName: string;
   /** 설정 스크립트 포함 여부 */
   includeSetupScript?: boolean;
+  /** 메타데이터 서명 (지정하면 설정 스크립트가 검증을 끄는 대신 공개키를 등록한다) */
+  signing?: RepoSigningOptions;
+  /** 모듈 메타데이터 (yum, 모듈 패키지가 있으면 modules.yaml로 기록) */
+  modules?: ModuleMetadata;
 }
 
 /**
@@ -41,6 +66,12 @@ export interface RepoResult {
   totalSize: number;
   /** 생성된 메타데이터 파일 */
   metadataFiles: string[];
+  /** 메타데이터 서명 키 (서명하지 않았으면 undefined) */
+  signingKey?: {
+    fingerprint: string;
+    /** 저장소에 넣은 공개키 파일 */
+    publicKeyPath: string;
+  };
 }
 
 /**
@@ -70,26 +101,43 @@ export class OSRepoPackager {
     // 패키지 파일 복사
     await this.copyPackageFiles(packages, downloadedFiles, repoPath, options.packageManager);
 
+    // 서명 키 (사용자 키가 없으면 새로 만들고, 비밀키는 저장하지 않는다)
+    const signingKey = options.signing
+      ? this.loadSigningKey(options.signing, options.repoName)
+      : undefined;
+
     // 메타데이터 생성
     let metadataFiles: string[] = [];
     switch (options.packageManager) {
       case 'yum':
-        metadataFiles = await this.createYumRepoMetadata(packages, repoPath);
+        metadataFiles = await this.createYumRepoMetadata(packages, repoPath, signingKey, options.modules);
         break;
       case 'apt':
-        metadataFiles = await this.createAptRepoMetadata(packages, repoPath);
+        metadataFiles = await this.createAptRepoMetadata(packages, repoPath, signingKey);
         break;
       case 'apk':
-        metadataFiles = await this.createApkRepoMetadata(packages, repoPath);
+        metadataFiles = await this.createApkRepoMetadata(packages, repoPath, options.repoName, signingKey);
         break;
     }
 
+    // 공개키 내보내기
+    const publicKeyPath = signingKey
+      ? this.exportPublicKey(signingKey, options.packageManager, repoPath, options.repoName)
+      : undefined;
+    if (publicKeyPath) {
+      metadataFiles.push(publicKeyPath);
+    }
+
     // 설정 스크립트 생성
     if (options.includeSetupScript !== false) {
       const scripts = this.scriptGenerator.generateLocalRepoScript(
         packages,
         options.packageManager,
-        { repoName: options.repoName, packageDir: '.' }
+        {
+          repoName: options.repoName,
+          packageDir: '.',
+          ...(publicKeyPath ? { signingKeyFile: path.basename(publicKeyPath) } : {}),
+        }
       );
 
       fs.writeFileSync(path.join(repoPath, 'setup-repo.sh'), scripts.bash, getWriteOptions(true));
@@ -101,9 +149,59 @@ export class OSRepoPackager {
       packageCount: packages.length,
       totalSize: packages.reduce((sum, pkg) => sum + pkg.size, 0),
       metadataFiles,
+      signingKey: signingKey && publicKeyPath
+        ? { fingerprint: signingKey.publicKey.fingerprint, publicKeyPath }
+        : undefined,
     };
   }
 
+  /**
+   * 서명 키 준비
+   */
+  private loadSigningKey(signing: RepoSigningOptions, repoName: string): OpenPGPSecretKey {
+    if (signing.secretKey) {
+      return readSecretKey(signing.secretKey, signing.passphrase);
+    }
+    return generateSecretKey(`DepsSmuggler Local Repository (${repoName})`);
+  }
+
+  /**
+   * 패키지 관리자가 읽는 형식으로 공개키 저장
+   * - yum: ASCII armor (RPM-GPG-KEY-<저장소>)
+   * - apt: 바이너리 키링 (signed-by 용)
+   * - apk: PEM 공개키 (/etc/apk/keys 용, 파일 이름이 APKINDEX 서명의 키 이름)
+   */
+  private exportPublicKey(
+    signingKey: OpenPGPSecretKey,
+    pm: OSPackageManager,
+    repoPath: string,
+    repoName: string
+  ): string {
+    switch (pm) {
+      case 'yum': {
+        const keyPath = path.join(repoPath, `RPM-GPG-KEY-${repoName}`);
+        fs.writeFileSync(keyPath, writeArmor('PUBLIC KEY BLOCK', signingKey.publicKeyPackets));
+        return keyPath;
+      }
+      case 'apt': {
+        const keyPath = path.join(repoPath, `${repoName}-archive-keyring.gpg`);
+        fs.writeFileSync(keyPath, signingKey.publicKeyPackets);
+        return keyPath;
+      }
+      case 'apk': {
+        const keyPath = path.join(repoPath, this.getApkKeyName(signingKey, repoName));
+        fs.writeFileSync(keyPath, crypto.createPublicKey(signingKey.privateKey).export({ type: 'spki', format: 'pem' }));
+        return keyPath;
+      }
+      default:
+        throw new Error(`Unsupported package manager: ${pm}`);
+    }
+  }
+
+  private getApkKeyName(signingKey: OpenPGPSecretKey, repoName: string): string {
+    return `${repoName}-${signingKey.publicKey.fingerprint.slice(-8).toLowerCase()}.rsa.pub`;
+  }
+
   /**
    * 패키지 파일 복사
    */
@@ -137,7 +235,9 @@ export class OSRepoPackager {
    */
   private async createYumRepoMetadata(
     packages: OSPackageInfo[],
-    repoPath: string
+    repoPath: string,
+    signingKey?: OpenPGPSecretKey,
+    modules?: ModuleMetadata
   ): Promise<string[]> {
     const repodataDir = path.join(repoPath, 'repodata');
     if (!fs.existsSync(repodataDir)) {
@@ -167,12 +267,32 @@ export class OSRepoPackager {
     fs.writeFileSync(otherPath, otherGz);
     metadataFiles.push(otherPath);
 
+    // modules.yaml 생성 (dnf module enable용)
+    // 저장소 루트 사본은 설정 스크립트가 createrepo 후 modifyrepo_c로 다시 넣을 때 쓴다
+    if (modules && modules.streams.length > 0) {
+      const modulesYaml = serializeModulesYaml(modules);
+      const modulesPath = path.join(repodataDir, 'modules.yaml.gz');
+      fs.writeFileSync(modulesPath, await gzip(Buffer.from(modulesYaml)));
+      metadataFiles.push(modulesPath);
+
+      const modulesSourcePath = path.join(repoPath, 'modules.yaml');
+      fs.writeFileSync(modulesSourcePath, modulesYaml);
+      metadataFiles.push(modulesSourcePath);
+    }
+
     // repomd.xml 생성
     const repomdXml = await this.generateYumRepomdXml(repodataDir);
     const repomdPath = path.join(repodataDir, 'repomd.xml');
     fs.writeFileSync(repomdPath, repomdXml);
     metadataFiles.push(repomdPath);
 
+    // repomd.xml 분리 서명 (repo_gpgcheck)
+    if (signingKey) {
+      const signaturePath = path.join(repodataDir, 'repomd.xml.asc');
+      fs.writeFileSync(signaturePath, writeArmor('SIGNATURE', createSignature(Buffer.from(repomdXml), signingKey)));
+      metadataFiles.push(signaturePath);
+    }
+
     return metadataFiles;
   }
 
@@ -190,7 +310,7 @@ export class OSRepoPackager {
       lines.push(`  <package type="rpm">`);
       lines.push(`    <name>${this.escapeXml(pkg.name)}</name>`);
       lines.push(`    <arch>${pkg.architecture}</arch>`);
-      lines.push(`    <version epoch="0" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
+      lines.push(`    <version epoch="${pkg.epoch ?? 0}" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
       lines.push(`    <checksum type="${pkg.checksum?.type || 'sha256'}" pkgid="YES">${pkg.checksum?.value || ''}</checksum>`);
       lines.push(`    <summary>${this.escapeXml(pkg.description?.substring(0, 100) || pkg.name)}</summary>`);
       lines.push(`    <description>${this.escapeXml(pkg.description || '')}</description>`);
@@ -201,7 +321,7 @@ export class OSRepoPackager {
       lines.push(`    <location href="Packages/${filename}"/>`);
       lines.push(`    <format>`);
       lines.push(`      <rpm:provides>`);
-      lines.push(`        <rpm:entry name="${this.escapeXml(pkg.name)}" flags="EQ" epoch="0" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
+      lines.push(`        <rpm:entry name="${this.escapeXml(pkg.name)}" flags="EQ" epoch="${pkg.epoch ?? 0}" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
       lines.push(`      </rpm:provides>`);
 
       if (pkg.dependencies.length > 0) {
@@ -235,7 +355,7 @@ export class OSRepoPackager {
     for (const pkg of packages) {
       const release = this.escapeXml(pkg.release || '1');
       lines.push(`  <package pkgid="${pkg.checksum?.value || ''}" name="${this.escapeXml(pkg.name)}" arch="${pkg.architecture}">`);
-      lines.push(`    <version epoch="0" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
+      lines.push(`    <version epoch="${pkg.epoch ?? 0}" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
       lines.push(`  </package>`);
     }
 
@@ -254,7 +374,7 @@ export class OSRepoPackager {
     for (const pkg of packages) {
       const release = this.escapeXml(pkg.release || '1');
       lines.push(`  <package pkgid="${pkg.checksum?.value || ''}" name="${this.escapeXml(pkg.name)}" arch="${pkg.architecture}">`);
-      lines.push(`    <version epoch="0" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
+      lines.push(`    <version epoch="${pkg.epoch ?? 0}" ver="${this.escapeXml(pkg.version)}" rel="${release}"/>`);
       lines.push(`  </package>`);
     }
 
@@ -272,10 +392,15 @@ export class OSRepoPackager {
     lines.push('<repomd xmlns="http://linux.duke.edu/metadata/repo">');
     lines.push(`  <revision>${timestamp}</revision>`);
 
-    const dataTypes = ['primary', 'filelists', 'other'];
+    const dataFiles: Array<[string, string]> = [
+      ['primary', 'primary.xml.gz'],
+      ['filelists', 'filelists.xml.gz'],
+      ['other', 'other.xml.gz'],
+      ['modules', 'modules.yaml.gz'],
+    ];
 
-    for (const dataType of dataTypes) {
-      const filePath = path.join(repodataDir, `${dataType}.xml.gz`);
+    for (const [dataType, fileName] of dataFiles) {
+      const filePath = path.join(repodataDir, fileName);
       if (fs.existsSync(filePath)) {
         const content = fs.readFileSync(filePath);
         const checksum = crypto.createHash('sha256').update(content).digest('hex');
@@ -283,7 +408,7 @@ export class OSRepoPackager {
 
         lines.push(`  <data type="${dataType}">`);
         lines.push(`    <checksum type="sha256">${checksum}</checksum>`);
-        lines.push(`    <location href="repodata/${dataType}.xml.gz"/>`);
+        lines.push(`    <location href="repodata/${fileName}"/>`);
         lines.push(`    <timestamp>${timestamp}</timestamp>`);
         lines.push(`    <size>${stat.size}</size>`);
         lines.push(`  </data>`);
@@ -299,7 +424,8 @@ export class OSRepoPackager {
    */
   private async createAptRepoMetadata(
     packages: OSPackageInfo[],
-    repoPath: string
+    repoPath: string,
+    signingKey?: OpenPGPSecretKey
   ): Promise<string[]> {
     const metadataFiles: string[] = [];
 
@@ -321,6 +447,17 @@ export class OSRepoPackager {
     fs.writeFileSync(releasePath, releaseContent);
     metadataFiles.push(releasePath);
 
+    // InRelease (cleartext 서명)와 Release.gpg (분리 서명)
+    if (signingKey) {
+      const inReleasePath = path.join(repoPath, 'InRelease');
+      fs.writeFileSync(inReleasePath, createCleartextMessage(releaseContent, signingKey));
+      metadataFiles.push(inReleasePath);
+
+      const releaseGpgPath = path.join(repoPath, 'Release.gpg');
+      fs.writeFileSync(releaseGpgPath, writeArmor('SIGNATURE', createSignature(Buffer.from(releaseContent), signingKey)));
+      metadataFiles.push(releaseGpgPath);
+    }
+
     return metadataFiles;
   }
 
@@ -396,16 +533,30 @@ export class OSRepoPackager {
    */
   private async createApkRepoMetadata(
     packages: OSPackageInfo[],
-    repoPath: string
+    repoPath: string,
+    repoName: string,
+    signingKey?: OpenPGPSecretKey
   ): Promise<string[]> {
     const metadataFiles: string[] = [];
 
     // APKINDEX 내용 생성
     const apkindexContent = this.generateApkIndexContent(packages);
 
-    // APKINDEX.tar.gz 생성 (간단한 형태)
-    // 실제로는 tar 아카이브지만, 여기서는 gzip된 인덱스만 생성
-    const apkindexGz = await gzip(Buffer.from(apkindexContent));
+    // APKINDEX.tar.gz: DESCRIPTION과 APKINDEX를 담은 tar.gz
+    const indexGz = await gzip(Buffer.concat([
+      this.createTarEntry('DESCRIPTION', Buffer.from(repoName)),
+      this.createTarEntry('APKINDEX', Buffer.from(apkindexContent)),
+      Buffer.alloc(TAR_BLOCK_SIZE * 2),
+    ]));
+
+    // 서명은 인덱스 gzip 스트림 앞에 별도 gzip 스트림으로 붙인다 (abuild-sign과 같은 형식, tar 끝 블록 없음)
+    let apkindexGz = indexGz;
+    if (signingKey) {
+      const signatureName = `.SIGN.RSA256.${this.getApkKeyName(signingKey, repoName)}`;
+      const signature = crypto.sign('sha256', indexGz, signingKey.privateKey);
+      apkindexGz = Buffer.concat([await gzip(this.createTarEntry(signatureName, signature)), indexGz]);
+    }
+
     const apkindexPath = path.join(repoPath, 'APKINDEX.tar.gz');
     fs.writeFileSync(apkindexPath, apkindexGz);
     metadataFiles.push(apkindexPath);
@@ -413,6 +564,32 @@ export class OSRepoPackager {
     return metadataFiles;
   }
 
+  /**
+   * tar 항목 하나 (ustar 헤더 + 512바이트 단위로 채운 데이터)
+   */
+  private createTarEntry(name: string, data: Buffer): Buffer {
+    const header = Buffer.alloc(TAR_BLOCK_SIZE);
+    const mtime = Math.floor(Date.now() / 1000);
+    header.write(name, 0, 100, 'utf8');
+    header.write('0000644\0', 100, 'ascii');
+    header.write('0000000\0', 108, 'ascii');
+    header.write('0000000\0', 116, 'ascii');
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124, 'ascii');
+    header.write(`${mtime.toString(8).padStart(11, '0')}\0`, 136, 'ascii');
+    header.write('        ', 148, 'ascii');
+    header.write('0', 156, 'ascii');
+    header.write('ustar\0', 257, 'ascii');
+    header.write('00', 263, 'ascii');
+    header.write('root', 265, 'ascii');
+    header.write('root', 297, 'ascii');
+
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+
+    const padding = (TAR_BLOCK_SIZE - (data.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    return Buffer.concat([header, data, Buffer.alloc(padding)]);
+  }
+
   /**
    * APK 인덱스 내용 생성
    */
@@ -0,0 +1,230 @@
+/**
+ * RPM Header Reader
+ * RPM 파일의 lead, 서명 헤더, 메인 헤더 위치를 읽어 서명 검증에 필요한 영역을 돌려준다
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { readSignatures, verifySignatures, type OpenPGPPublicKey, type OpenPGPVerificationResult } from './openpgp';
+
+const RPM_LEAD_SIZE = 96;
+const RPM_LEAD_MAGIC = Buffer.from([0xed, 0xab, 0xee, 0xdb]);
+const RPM_HEADER_MAGIC = Buffer.from([0x8e, 0xad, 0xe8, 0x01]);
+const RPM_HEADER_PREAMBLE_SIZE = 16;
+const RPM_INDEX_ENTRY_SIZE = 16;
+/** 헤더 하나의 최대 크기 (rpm의 HEADER_DATA_MAX와 같은 256MB) */
+const RPM_HEADER_MAX_SIZE = 256 * 1024 * 1024;
+
+const RPM_TYPE_INT32 = 4;
+const RPM_TYPE_STRING = 6;
+const RPM_TYPE_BIN = 7;
+const RPM_TYPE_STRING_ARRAY = 8;
+
+/** 메인 헤더만 덮는 서명 */
+const RPMSIGTAG_DSA = 267;
+const RPMSIGTAG_RSA = 268;
+/** 메인 헤더 + 페이로드를 덮는 서명 (구형 패키지) */
+const RPMSIGTAG_PGP = 1002;
+const RPMSIGTAG_GPG = 1005;
+
+const RPMTAG_PAYLOADDIGEST = 5092;
+const RPMTAG_PAYLOADDIGESTALGO = 5093;
+
+/** rpm 해시 알고리즘 ID (OpenPGP와 같은 번호) */
+const RPM_DIGEST_ALGORITHMS: Record<number, string> = {
+  2: 'sha1',
+  8: 'sha256',
+  9: 'sha384',
+  10: 'sha512',
+  11: 'sha224',
+};
+
+interface RpmHeaderEntry {
+  tag: number;
+  type: number;
+  offset: number;
+  count: number;
+}
+
+/**
+ * 파일 안의 헤더 구조
+ */
+export interface RpmHeader {
+  /** 헤더 magic부터 데이터 영역 끝까지 (서명 대상 바이트) */
+  bytes: Buffer;
+  entries: Map<number, RpmHeaderEntry>;
+  store: Buffer;
+}
+
+/**
+ * RPM 파일 구조
+ */
+export interface RpmPackageLayout {
+  signature: RpmHeader;
+  header: RpmHeader;
+  /** 메인 헤더 시작 위치 */
+  headerOffset: number;
+  /** 페이로드 시작 위치 */
+  payloadOffset: number;
+}
+
+/**
+ * RPM 파일의 lead와 두 헤더 읽기 (페이로드는 읽지 않음)
+ */
+export async function readRpmLayout(filePath: string): Promise<RpmPackageLayout> {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    const lead = await readExactly(file, 0, RPM_LEAD_SIZE);
+    if (!lead.subarray(0, 4).equals(RPM_LEAD_MAGIC)) {
+      throw new Error('Not an RPM package (bad lead magic)');
+    }
+
+    const signature = await readHeader(file, RPM_LEAD_SIZE);
+    // 서명 헤더는 8바이트 경계로 패딩된다
+    const headerOffset = RPM_LEAD_SIZE + signature.bytes.length + ((8 - (signature.store.length % 8)) % 8);
+    const header = await readHeader(file, headerOffset);
+
+    return {
+      signature,
+      header,
+      headerOffset,
+      payloadOffset: headerOffset + header.bytes.length,
+    };
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * RPM 서명 검증
+ *
+ * 헤더 서명(RSA/DSA 태그)이 있으면 메인 헤더를 검증하고 헤더에 기록된 페이로드 다이제스트로 나머지를 확인한다.
+ * 페이로드 다이제스트가 없는 구형 패키지는 헤더+페이로드 서명(PGP/GPG 태그)으로 검증한다.
+ */
+export async function verifyRpmPackage(
+  filePath: string,
+  keys: OpenPGPPublicKey[]
+): Promise<OpenPGPVerificationResult> {
+  const layout = await readRpmLayout(filePath);
+  const headerSignature = getBinary(layout.signature, RPMSIGTAG_RSA) ?? getBinary(layout.signature, RPMSIGTAG_DSA);
+  const fileSignature = getBinary(layout.signature, RPMSIGTAG_PGP) ?? getBinary(layout.signature, RPMSIGTAG_GPG);
+
+  if (!headerSignature && !fileSignature) {
+    return { valid: false, reason: 'signature-invalid', error: 'RPM package is not signed' };
+  }
+
+  const payloadDigest = getStringArray(layout.header, RPMTAG_PAYLOADDIGEST)?.[0];
+  if (headerSignature && (payloadDigest || !fileSignature)) {
+    const result = await verifySignatures(layout.header.bytes, readSignatures(headerSignature), keys);
+    if (!result.valid) {
+      return result;
+    }
+    if (!payloadDigest) {
+      return { valid: false, reason: 'signature-invalid', error: 'RPM header has no payload digest' };
+    }
+
+    const algorithm = RPM_DIGEST_ALGORITHMS[getInt32(layout.header, RPMTAG_PAYLOADDIGESTALGO) ?? 8];
+    if (!algorithm) {
+      return { valid: false, reason: 'signature-invalid', error: 'Unsupported RPM payload digest algorithm' };
+    }
+    const actual = await hashFileFrom(filePath, layout.payloadOffset, algorithm);
+    if (actual !== payloadDigest.toLowerCase()) {
+      return { valid: false, reason: 'signature-invalid', error: `RPM payload digest mismatch: expected ${payloadDigest}, got ${actual}` };
+    }
+    return result;
+  }
+
+  return verifySignatures(
+    (async function* () {
+      yield layout.header.bytes;
+      yield* fs.createReadStream(filePath, { start: layout.payloadOffset });
+    })(),
+    readSignatures(fileSignature as Buffer),
+    keys
+  );
+}
+
+async function readHeader(file: fs.promises.FileHandle, offset: number): Promise<RpmHeader> {
+  const preamble = await readExactly(file, offset, RPM_HEADER_PREAMBLE_SIZE);
+  if (!preamble.subarray(0, 4).equals(RPM_HEADER_MAGIC)) {
+    throw new Error(`Invalid RPM header magic at offset ${offset}`);
+  }
+
+  const indexCount = preamble.readUInt32BE(8);
+  const storeSize = preamble.readUInt32BE(12);
+  const size = RPM_HEADER_PREAMBLE_SIZE + indexCount * RPM_INDEX_ENTRY_SIZE + storeSize;
+  if (size > RPM_HEADER_MAX_SIZE) {
+    throw new Error(`RPM header too large (${size} bytes)`);
+  }
+
+  const bytes = await readExactly(file, offset, size);
+  const entries = new Map<number, RpmHeaderEntry>();
+  for (let index = 0; index < indexCount; index += 1) {
+    const position = RPM_HEADER_PREAMBLE_SIZE + index * RPM_INDEX_ENTRY_SIZE;
+    const entry = {
+      tag: bytes.readUInt32BE(position),
+      type: bytes.readUInt32BE(position + 4),
+      offset: bytes.readUInt32BE(position + 8),
+      count: bytes.readUInt32BE(position + 12),
+    };
+    entries.set(entry.tag, entry);
+  }
+
+  return {
+    bytes,
+    entries,
+    store: bytes.subarray(RPM_HEADER_PREAMBLE_SIZE + indexCount * RPM_INDEX_ENTRY_SIZE),
+  };
+}
+
+function getBinary(header: RpmHeader, tag: number): Buffer | undefined {
+  const entry = header.entries.get(tag);
+  if (!entry || entry.type !== RPM_TYPE_BIN || entry.offset + entry.count > header.store.length) {
+    return undefined;
+  }
+  return header.store.subarray(entry.offset, entry.offset + entry.count);
+}
+
+function getInt32(header: RpmHeader, tag: number): number | undefined {
+  const entry = header.entries.get(tag);
+  if (!entry || entry.type !== RPM_TYPE_INT32 || entry.offset + 4 > header.store.length) {
+    return undefined;
+  }
+  return header.store.readUInt32BE(entry.offset);
+}
+
+function getStringArray(header: RpmHeader, tag: number): string[] | undefined {
+  const entry = header.entries.get(tag);
+  if (!entry || (entry.type !== RPM_TYPE_STRING && entry.type !== RPM_TYPE_STRING_ARRAY)) {
+    return undefined;
+  }
+
+  const values: string[] = [];
+  let position = entry.offset;
+  for (let index = 0; index < entry.count; index += 1) {
+    const end = header.store.indexOf(0, position);
+    if (end === -1) {
+      return undefined;
+    }
+    values.push(header.store.toString('utf8', position, end));
+    position = end + 1;
+  }
+  return values;
+}
+
+async function readExactly(file: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error('Truncated RPM package');
+  }
+  return buffer;
+}
+
+async function hashFileFrom(filePath: string, start: number, algorithm: string): Promise<string> {
+  const hash = crypto.createHash(algorithm);
+  for await (const chunk of fs.createReadStream(filePath, { start })) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
@@ -35,4 +35,34 @@ describe('OSScriptGenerator', () => {
 
     expect(scripts.bash).toContain('httpd-2.4.57-3.el9.x86_64.rpm');
   });
+
+  it('YUM 로컬 저장소 스크립트는 모듈 메타데이터를 등록하고 모듈 스트림을 활성화한다', () => {
+    const generator = new OSScriptGenerator();
+    const pkg: OSPackageInfo = {
+      name: 'nodejs',
+      version: '20.12.2',
+      release: '2.module+el9.4.0+1845',
+      epoch: 1,
+      architecture: 'x86_64',
+      size: 1024,
+      checksum: { type: 'sha256', value: 'checksum-nodejs' },
+      location: 'Packages/nodejs-20.12.2-2.module+el9.4.0+1845.x86_64.rpm',
+      repository: {
+        id: 'appstream',
+        name: 'AppStream',
+        baseUrl: 'https://example.test/appstream',
+        enabled: true,
+        gpgCheck: false,
+        isOfficial: true,
+      },
+      dependencies: [],
+      moduleStream: 'nodejs:20',
+    };
+
+    const { bash } = generator.generateLocalRepoScript([pkg], 'yum');
+
+    expect(bash).toContain('modifyrepo_c --mdtype=modules "${REPO_DIR}/modules.yaml" "${REPO_DIR}/repodata"');
+    expect(bash).toContain('dnf -y module enable nodejs:20');
+    expect(bash.indexOf('createrepo')).toBeLessThan(bash.indexOf('modifyrepo_c'));
+  });
 });
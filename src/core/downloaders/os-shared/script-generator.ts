@@ -31,6 +31,8 @@ export interface ScriptGeneratorOptions {
   showProgress?: boolean;
   /** 한국어 주석 포함 여부 */
   includeKoreanComments?: boolean;
+  /** 저장소 메타데이터 서명 공개키 파일 (패키지 디렉토리 기준). 지정하면 검증을 끄는 대신 키를 등록한다 */
+  signingKeyFile?: string;
 }
 
 /**
@@ -43,6 +45,7 @@ export class OSScriptGenerator {
     stopOnError: true,
     showProgress: true,
     includeKoreanComments: true,
+    signingKeyFile: '',
   };
 
   /**
@@ -273,7 +276,7 @@ export class OSScriptGenerator {
     // 패키지 관리자별 설정
     switch (pm) {
       case 'yum':
-        this.appendYumRepoSetup(lines, opts);
+        this.appendYumRepoSetup(lines, opts, this.getModuleStreams(packages));
         break;
       case 'apt':
         this.appendAptRepoSetup(lines, opts);
@@ -286,23 +289,56 @@ export class OSScriptGenerator {
     return lines.join('\n');
   }
 
+  /**
+   * 패키지가 속한 모듈 스트림 (name:stream)
+   */
+  private getModuleStreams(packages: OSPackageInfo[]): string[] {
+    return [...new Set(packages.flatMap((pkg) => (pkg.moduleStream ? [pkg.moduleStream] : [])))].sort();
+  }
+
   /**
    * YUM 저장소 설정 추가
    */
-  private appendYumRepoSetup(lines: string[], opts: Required<ScriptGeneratorOptions>): void {
-    lines.push('# createrepo 설치 확인');
-    lines.push('if ! command -v createrepo &> /dev/null; then');
-    lines.push('  echo "createrepo 도구가 필요합니다. 설치를 시도합니다..."');
-    lines.push('  yum install -y createrepo || dnf install -y createrepo_c');
-    lines.push('fi');
-    lines.push('');
+  private appendYumRepoSetup(
+    lines: string[],
+    opts: Required<ScriptGeneratorOptions>,
+    moduleStreams: string[] = []
+  ): void {
+    if (opts.signingKeyFile) {
+      // 서명된 메타데이터를 그대로 사용한다 (createrepo로 다시 만들면 서명이 맞지 않음)
+      lines.push('echo "로컬 YUM 저장소를 설정합니다..."');
+      lines.push('');
 
-    lines.push('echo "로컬 YUM 저장소를 생성합니다..."');
-    lines.push('');
+      lines.push('# 저장소 서명 키와 시스템 배포판 키 (패키지 서명 확인용)');
+      lines.push(`GPG_KEYS="file://\${REPO_DIR}/${opts.signingKeyFile}"`);
+      lines.push('for key in /etc/pki/rpm-gpg/RPM-GPG-KEY-*; do');
+      lines.push('  if [ -f "${key}" ]; then');
+      lines.push('    GPG_KEYS="${GPG_KEYS} file://${key}"');
+      lines.push('  fi');
+      lines.push('done');
+      lines.push('');
+    } else {
+      lines.push('# createrepo 설치 확인');
+      lines.push('if ! command -v createrepo &> /dev/null; then');
+      lines.push('  echo "createrepo 도구가 필요합니다. 설치를 시도합니다..."');
+      lines.push('  yum install -y createrepo || dnf install -y createrepo_c');
+      lines.push('fi');
+      lines.push('');
 
-    lines.push('# 저장소 메타데이터 생성');
-    lines.push('createrepo "${REPO_DIR}"');
-    lines.push('');
+      lines.push('echo "로컬 YUM 저장소를 생성합니다..."');
+      lines.push('');
+
+      lines.push('# 저장소 메타데이터 생성');
+      lines.push('createrepo "${REPO_DIR}"');
+      lines.push('');
+
+      if (moduleStreams.length > 0) {
+        // createrepo는 모듈 메타데이터를 만들지 않으므로 번들의 modules.yaml을 다시 넣는다
+        lines.push('# 모듈 메타데이터 추가');
+        lines.push('modifyrepo_c --mdtype=modules "${REPO_DIR}/modules.yaml" "${REPO_DIR}/repodata" || modifyrepo --mdtype=modules "${REPO_DIR}/modules.yaml" "${REPO_DIR}/repodata"');
+        lines.push('');
+      }
+    }
 
     lines.push('# 저장소 설정 파일 생성');
     lines.push('cat > "/etc/yum.repos.d/${REPO_NAME}.repo" << EOF');
@@ -310,15 +346,30 @@ export class OSScriptGenerator {
     lines.push('name=DepsSmuggler Local Repository');
     lines.push('baseurl=file://${REPO_DIR}');
     lines.push('enabled=1');
-    lines.push('gpgcheck=0');
+    if (opts.signingKeyFile) {
+      lines.push('gpgcheck=1');
+      lines.push('repo_gpgcheck=1');
+      lines.push('gpgkey=${GPG_KEYS}');
+    } else {
+      lines.push('gpgcheck=0');
+    }
     lines.push('EOF');
     lines.push('');
 
     lines.push('echo "저장소 캐시를 업데이트합니다..."');
     lines.push('yum clean all');
-    lines.push('yum makecache');
+    // 서명 키 가져오기 확인에 자동으로 동의
+    lines.push(opts.signingKeyFile ? 'yum -y makecache' : 'yum makecache');
     lines.push('');
 
+    if (moduleStreams.length > 0) {
+      lines.push('echo "모듈 스트림을 활성화합니다..."');
+      for (const moduleStream of moduleStreams) {
+        lines.push(`dnf -y module enable ${moduleStream} || echo "경고: ${moduleStream} 활성화 실패 (다른 스트림이 켜져 있으면 dnf module reset ${moduleStream.split(':')[0]} 후 다시 실행하세요)"`);
+      }
+      lines.push('');
+    }
+
     lines.push('echo ""');
     lines.push('echo "로컬 저장소 설정이 완료되었습니다!"');
     lines.push('echo "저장소 이름: ${REPO_NAME}"');
@@ -332,24 +383,41 @@ export class OSScriptGenerator {
    * APT 저장소 설정 추가
    */
   private appendAptRepoSetup(lines: string[], opts: Required<ScriptGeneratorOptions>): void {
-    lines.push('# dpkg-dev 설치 확인 (dpkg-scanpackages 포함)');
-    lines.push('if ! command -v dpkg-scanpackages &> /dev/null; then');
-    lines.push('  echo "dpkg-dev 패키지가 필요합니다. 설치를 시도합니다..."');
-    lines.push('  apt-get update && apt-get install -y dpkg-dev');
-    lines.push('fi');
-    lines.push('');
+    if (opts.signingKeyFile) {
+      // 서명된 Release/Packages를 그대로 사용한다 (dpkg-scanpackages로 다시 만들면 서명이 맞지 않음)
+      lines.push('echo "로컬 APT 저장소를 설정합니다..."');
+      lines.push('');
 
-    lines.push('echo "로컬 APT 저장소를 생성합니다..."');
-    lines.push('');
+      lines.push('# 저장소 서명 키 설치 (signed-by)');
+      lines.push(`KEYRING="/etc/apt/keyrings/${opts.signingKeyFile}"`);
+      lines.push('mkdir -p /etc/apt/keyrings');
+      lines.push(`cp "\${REPO_DIR}/${opts.signingKeyFile}" "\${KEYRING}"`);
+      lines.push('chmod 644 "${KEYRING}"');
+      lines.push('');
 
-    lines.push('# Packages.gz 생성');
-    lines.push('cd "${REPO_DIR}"');
-    lines.push('dpkg-scanpackages . /dev/null | gzip -9c > Packages.gz');
-    lines.push('');
+      lines.push('# sources.list.d에 저장소 추가');
+      lines.push('echo "deb [signed-by=${KEYRING}] file://${REPO_DIR} ./" > "/etc/apt/sources.list.d/${REPO_NAME}.list"');
+      lines.push('');
+    } else {
+      lines.push('# dpkg-dev 설치 확인 (dpkg-scanpackages 포함)');
+      lines.push('if ! command -v dpkg-scanpackages &> /dev/null; then');
+      lines.push('  echo "dpkg-dev 패키지가 필요합니다. 설치를 시도합니다..."');
+      lines.push('  apt-get update && apt-get install -y dpkg-dev');
+      lines.push('fi');
+      lines.push('');
 
-    lines.push('# sources.list.d에 저장소 추가');
-    lines.push('echo "deb [trusted=yes] file://${REPO_DIR} ./" > "/etc/apt/sources.list.d/${REPO_NAME}.list"');
-    lines.push('');
+      lines.push('echo "로컬 APT 저장소를 생성합니다..."');
+      lines.push('');
+
+      lines.push('# Packages.gz 생성');
+      lines.push('cd "${REPO_DIR}"');
+      lines.push('dpkg-scanpackages . /dev/null | gzip -9c > Packages.gz');
+      lines.push('');
+
+      lines.push('# sources.list.d에 저장소 추가');
+      lines.push('echo "deb [trusted=yes] file://${REPO_DIR} ./" > "/etc/apt/sources.list.d/${REPO_NAME}.list"');
+      lines.push('');
+    }
 
     lines.push('echo "패키지 목록을 업데이트합니다..."');
     lines.push('apt-get update');
@@ -371,19 +439,27 @@ export class OSScriptGenerator {
     lines.push('echo "로컬 APK 저장소를 설정합니다..."');
     lines.push('');
 
-    lines.push('# APKINDEX 생성 (apk-tools 필요)');
-    lines.push('if command -v apk &> /dev/null; then');
-    lines.push('  cd "${REPO_DIR}"');
-    lines.push('  ');
-    lines.push('  # 기존 APKINDEX 삭제');
-    lines.push('  rm -f APKINDEX.tar.gz');
-    lines.push('  ');
-    lines.push('  # 새 APKINDEX 생성');
-    lines.push('  apk index -o APKINDEX.tar.gz *.apk 2>/dev/null || {');
-    lines.push('    echo "APKINDEX 생성을 건너뜁니다. (개별 패키지 설치 가능)"');
-    lines.push('  }');
-    lines.push('fi');
-    lines.push('');
+    if (opts.signingKeyFile) {
+      // 서명된 APKINDEX를 그대로 사용한다 (apk index로 다시 만들면 서명이 없어짐)
+      lines.push('# 저장소 서명 키 설치');
+      lines.push('mkdir -p /etc/apk/keys');
+      lines.push(`cp "\${REPO_DIR}/${opts.signingKeyFile}" /etc/apk/keys/`);
+      lines.push('');
+    } else {
+      lines.push('# APKINDEX 생성 (apk-tools 필요)');
+      lines.push('if command -v apk &> /dev/null; then');
+      lines.push('  cd "${REPO_DIR}"');
+      lines.push('  ');
+      lines.push('  # 기존 APKINDEX 삭제');
+      lines.push('  rm -f APKINDEX.tar.gz');
+      lines.push('  ');
+      lines.push('  # 새 APKINDEX 생성');
+      lines.push('  apk index -o APKINDEX.tar.gz *.apk 2>/dev/null || {');
+      lines.push('    echo "APKINDEX 생성을 건너뜁니다. (개별 패키지 설치 가능)"');
+      lines.push('  }');
+      lines.push('fi');
+      lines.push('');
+    }
 
     lines.push('# 저장소 추가');
     lines.push('REPO_LINE="${REPO_DIR}"');
@@ -392,8 +468,9 @@ export class OSScriptGenerator {
     lines.push('fi');
     lines.push('');
 
+    const trustFlag = opts.signingKeyFile ? '' : ' --allow-untrusted';
     lines.push('echo "패키지 목록을 업데이트합니다..."');
-    lines.push('apk update --allow-untrusted');
+    lines.push(`apk update${trustFlag}`);
     lines.push('');
 
     lines.push('echo ""');
@@ -401,10 +478,10 @@ export class OSScriptGenerator {
     lines.push('echo "저장소 경로: ${REPO_DIR}"');
     lines.push('echo ""');
     lines.push('echo "사용 예시:"');
-    lines.push('echo "  apk add --allow-untrusted <패키지명>"');
+    lines.push(`echo "  apk add${trustFlag} <패키지명>"`);
     lines.push('echo ""');
     lines.push('echo "또는 직접 설치:"');
-    lines.push('echo "  apk add --allow-untrusted ${REPO_DIR}/<패키지파일>.apk"');
+    lines.push(`echo "  apk add${trustFlag} \${REPO_DIR}/<패키지파일>.apk"`);
   }
 
   /**
@@ -146,6 +146,65 @@ export interface OSPackageInfo {
   suggests?: string[];
   /** 권장 의존성 */
   recommends?: string[];
+  /** 모듈 스트림 (name:stream, 모듈 패키지일 때) */
+  moduleStream?: string;
+}
+
+/**
+ * 모듈 스트림 (modules.yaml의 modulemd 문서)
+ */
+export interface ModuleStream {
+  /** 모듈 이름 */
+  name: string;
+  /** 스트림 */
+  stream: string;
+  /** 모듈 버전 (빌드 번호) */
+  version: string;
+  /** 컨텍스트 */
+  context: string;
+  /** 아키텍처 */
+  arch: string;
+  /** 요약 */
+  summary: string;
+  /** 설명 */
+  description: string;
+  /** 모듈 라이선스 */
+  license: string[];
+  /** 프로필 이름 → rpm 이름 목록 */
+  profiles: Record<string, string[]>;
+  /** 런타임 의존 모듈 (항목 중 하나만 만족하면 됨, 모듈 이름 → 허용 스트림) */
+  requires: Array<Record<string, string[]>>;
+  /** 모듈에 속한 rpm (name-epoch:version-release.arch) */
+  artifacts: string[];
+}
+
+/**
+ * 모듈 기본값 (modulemd-defaults 문서)
+ */
+export interface ModuleDefaults {
+  /** 모듈 이름 */
+  module: string;
+  /** 기본 스트림 */
+  stream?: string;
+  /** 스트림 → 기본 프로필 */
+  profiles: Record<string, string[]>;
+}
+
+/**
+ * 저장소 모듈 메타데이터
+ */
+export interface ModuleMetadata {
+  streams: ModuleStream[];
+  defaults: ModuleDefaults[];
+}
+
+/**
+ * 사용자가 고른 모듈 스트림 (name:stream[/profile])
+ */
+export interface ModuleSelection {
+  name: string;
+  stream: string;
+  profile?: string;
 }
 
 /**
@@ -252,6 +311,27 @@ export interface OSPackageOutputOptions {
   generateScripts: boolean;
   /** 생성할 스크립트 타입 */
   scriptTypes: ScriptType[];
+  /** 로컬 저장소 메타데이터를 번들 전용 키로 서명 (repository 타입일 때) */
+  signRepository?: boolean;
+  /** 대상 호스트에 이미 설치된 패키지 기준선 (충족된 의존성은 다운로드하지 않음) */
+  installedBaseline?: InstalledBaselineSource;
+}
+
+/**
+ * 기본 제공 설치 기준선
+ */
+export type InstalledBaselinePreset = 'minimal' | 'server';
+
+/**
+ * 설치 기준선 입력 (기본 제공 기준선 또는 설치 목록 파일 내용)
+ */
+export interface InstalledBaselineSource {
+  /** 기본 제공 기준선 이름 */
+  preset?: InstalledBaselinePreset;
+  /** 설치 목록 파일 이름 (표시용) */
+  fileName?: string;
+  /** `rpm -qa`, `dpkg-query -W`, `/lib/apk/db/installed` 출력 */
+  content?: string;
 }
 
 /**
@@ -269,6 +349,10 @@ export interface DependencyResolutionResult {
   }>;
   /** 경고 메시지 */
   warnings: string[];
+  /** 설치 기준선에서 이미 충족되어 제외한 패키지 이름 */
+  satisfiedByBaseline?: string[];
+  /** 결과 패키지가 속한 모듈 메타데이터 (로컬 저장소 modules.yaml용) */
+  modules?: ModuleMetadata;
 }
 
 /**
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareApkVersions,
+  compareDebianVersions,
+  compareOSPackages,
+  compareRpmVersions,
+  getFullVersion,
+  rpmvercmp,
+} from './version-compare';
+import type { OSPackageInfo } from './types';
+
+type Case = [string, string, number];
+
+/** rpm tests/rpmvercmp.at */
+const RPMVERCMP_CASES: Case[] = [
+  ['1.0', '1.0', 0],
+  ['1.0', '2.0', -1],
+  ['2.0.1', '2.0', 1],
+  ['2.0.1a', '2.0.1', 1],
+  ['5.5p1', '5.5p2', -1],
+  ['5.5p1', '5.5p10', -1],
+  ['10xyz', '10.1xyz', -1],
+  ['xyz10', 'xyz10.1', -1],
+  ['xyz.4', '8', -1],
+  ['8', 'xyz.4', 1],
+  ['5.6p1', '6.5p1', -1],
+  ['6.0.rc1', '6.0', 1],
+  ['10b2', '10a1', 1],
+  ['1.0a', '1.0aa', -1],
+  ['10.0001', '10.1', 0],
+  ['10.0001', '10.0039', -1],
+  ['4.999.9', '5.0', -1],
+  ['20101121', '20101122', -1],
+  ['2_0', '2.0', 0],
+  ['a+', 'a_', 0],
+  ['+_', '_+', 0],
+  ['1.0~rc1', '1.0', -1],
+  ['1.0~rc1', '1.0~rc2', -1],
+  ['1.0~rc1~git123', '1.0~rc1', -1],
+  ['1.0^', '1.0', 1],
+  ['1.0^git1', '1.0', 1],
+  ['1.0^git1', '1.0^git2', -1],
+  ['1.0^git1', '1.01', -1],
+  ['1.0^20160101', '1.0.1', -1],
+  ['1.0^20160102', '1.0^20160101^git1', 1],
+  ['1.0~rc1^git1', '1.0~rc1', 1],
+  ['1.0^git1~pre', '1.0^git1', -1],
+];
+
+/** epoch:version-release */
+const RPM_EVR_CASES: Case[] = [
+  ['2:1.0-1', '1:9.9-1', 1],
+  ['0:1.0-1', '1.0-1', 0],
+  ['1.0-1.el9', '1.0-1.el9_2', -1],
+  ['1.0-10.el9', '1.0-9.el9', 1],
+  // 요구 버전에 release가 없으면 release는 무시
+  ['1.0-5.el9', '1.0', 0],
+  ['1.0', '1.0-5.el9', 0],
+  ['1:1.0-1', '2.0', 1],
+];
+
+/** Debian policy 5.6.12, dpkg t-version */
+const DEBIAN_CASES: Case[] = [
+  ['1.0', '1.0', 0],
+  ['1.0~rc1', '1.0', -1],
+  ['1.0~~', '1.0~~a', -1],
+  ['1.0~~a', '1.0~', -1],
+  ['1.0~', '1.0', -1],
+  ['1.0', '1.0a', -1],
+  ['1.0a', '1.0+', -1],
+  ['1.0', '1.0+b1', -1],
+  ['2:1.0', '1:9.9', 1],
+  ['0:1.0', '1.0', 0],
+  ['1.0', '1.0-0', 0],
+  ['1.01', '1.1', 0],
+  ['1.0-1', '1.0-2', -1],
+  ['1.0-1', '1.0.1-1', -1],
+  ['1.0-1ubuntu1', '1.0-1', 1],
+  ['1.2.3-1', '1.2.3-1~deb12u1', 1],
+  ['1.0-beta-1', '1.0-beta-2', -1],
+  ['2.30-4', '2.4-5', 1],
+  ['1:2.9.4+dfsg1-7', '1:2.9.4-7', 1],
+];
+
+/** apk-tools test/version.data */
+const APK_CASES: Case[] = [
+  ['1.0', '1.0', 0],
+  ['1.0', '1.0.1', -1],
+  ['1.2.10', '1.2.9', 1],
+  ['1.0', '1.0-r1', -1],
+  ['1.0-r10', '1.0-r9', 1],
+  ['1.0_rc1', '1.0', -1],
+  ['1.0_alpha', '1.0_beta', -1],
+  ['1.0_beta', '1.0_pre', -1],
+  ['1.0_pre', '1.0_rc', -1],
+  ['1.0_rc1', '1.0_rc2', -1],
+  ['1.0_rc1-r3', '1.0-r0', -1],
+  ['1.0_p1', '1.0', 1],
+  ['1.0_p1', '1.0-r1', 1],
+  ['1.0_cvs', '1.0_svn', -1],
+  ['1.0_git20240101', '1.0_hg1', -1],
+  ['1.0_rc1_p1', '1.0_rc1', 1],
+  ['1.0a', '1.0', 1],
+  ['1.0b', '1.0a', 1],
+  ['1.0_alpha', '1.0a', -1],
+  ['1.01', '1.1', -1],
+  ['0.1.0_alpha', '2.34', -1],
+  ['2.0', '1.0_p1', 1],
+];
+
+const sign = (value: number): number => Math.sign(value) || 0;
+
+describe('OS 패키지 버전 비교', () => {
+  it.each(RPMVERCMP_CASES)('rpmvercmp(%s, %s) = %i', (a, b, expected) => {
+    expect(sign(rpmvercmp(a, b))).toBe(expected);
+    expect(sign(rpmvercmp(b, a))).toBe(-expected || 0);
+  });
+
+  it.each(RPM_EVR_CASES)('rpm EVR %s vs %s = %i', (a, b, expected) => {
+    expect(sign(compareRpmVersions(a, b))).toBe(expected);
+  });
+
+  it.each(DEBIAN_CASES)('dpkg %s vs %s = %i', (a, b, expected) => {
+    expect(sign(compareDebianVersions(a, b))).toBe(expected);
+    expect(sign(compareDebianVersions(b, a))).toBe(-expected || 0);
+  });
+
+  it.each(APK_CASES)('apk %s vs %s = %i', (a, b, expected) => {
+    expect(sign(compareApkVersions(a, b))).toBe(expected);
+    expect(sign(compareApkVersions(b, a))).toBe(-expected || 0);
+  });
+
+  it('yum 패키지는 epoch, version, release를 합쳐 비교해야 함', () => {
+    const base = {
+      name: 'openssl',
+      architecture: 'x86_64',
+      size: 1,
+      checksum: { type: 'sha256', value: '' },
+      location: 'openssl.rpm',
+      repository: { id: 'baseos', name: 'BaseOS', baseUrl: '', enabled: true, gpgCheck: false, isOfficial: true },
+      dependencies: [],
+    } as const;
+    const older: OSPackageInfo = { ...base, version: '3.0.7', release: '27.el9' };
+    const newer: OSPackageInfo = { ...base, version: '3.0.7', release: '27.el9_4', epoch: 1 };
+
+    expect(getFullVersion(newer, 'yum')).toBe('1:3.0.7-27.el9_4');
+    expect(getFullVersion(newer, 'apt')).toBe('3.0.7');
+    expect(compareOSPackages('yum', newer, older)).toBe(1);
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * OS Package Version Comparison
+ * 패키지 관리자별 버전 비교 규칙 (rpm의 rpmvercmp, dpkg의 Debian policy, apk-tools의 버전 토큰 순서)
+ */
+
+import type { OSPackageInfo, OSPackageManager } from './types';
+
+/**
+ * rpmvercmp: 영숫자 구간 단위 비교
+ *
+ * 숫자 구간은 앞자리 0을 떼고 길이→사전순으로, 문자 구간은 바이트 순서로 비교한다.
+ * 숫자 구간은 문자 구간보다 크고, `~`는 문자열 끝보다도 작으며 `^`는 문자열 끝보다 크고 다른 구간보다 작다.
+ */
+export function rpmvercmp(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  let one = 0;
+  let two = 0;
+
+  while (one < a.length || two < b.length) {
+    while (one < a.length && !isAlphaNumeric(a[one]) && a[one] !== '~' && a[one] !== '^') {
+      one += 1;
+    }
+    while (two < b.length && !isAlphaNumeric(b[two]) && b[two] !== '~' && b[two] !== '^') {
+      two += 1;
+    }
+
+    if (a[one] === '~' || b[two] === '~') {
+      if (a[one] !== '~') {
+        return 1;
+      }
+      if (b[two] !== '~') {
+        return -1;
+      }
+      one += 1;
+      two += 1;
+      continue;
+    }
+
+    if (a[one] === '^' || b[two] === '^') {
+      if (one >= a.length) {
+        return -1;
+      }
+      if (two >= b.length) {
+        return 1;
+      }
+      if (a[one] !== '^') {
+        return 1;
+      }
+      if (b[two] !== '^') {
+        return -1;
+      }
+      one += 1;
+      two += 1;
+      continue;
+    }
+
+    if (one >= a.length || two >= b.length) {
+      break;
+    }
+
+    const numeric = isDigit(a[one]);
+    const matches = numeric ? isDigit : isAlpha;
+    const startOne = one;
+    const startTwo = two;
+    while (one < a.length && matches(a[one])) {
+      one += 1;
+    }
+    while (two < b.length && matches(b[two])) {
+      two += 1;
+    }
+
+    // 구간 종류가 다르면 숫자 구간이 크다
+    if (two === startTwo) {
+      return numeric ? 1 : -1;
+    }
+
+    let segmentOne = a.slice(startOne, one);
+    let segmentTwo = b.slice(startTwo, two);
+    if (numeric) {
+      segmentOne = segmentOne.replace(/^0+/, '');
+      segmentTwo = segmentTwo.replace(/^0+/, '');
+      if (segmentOne.length !== segmentTwo.length) {
+        return segmentOne.length > segmentTwo.length ? 1 : -1;
+      }
+    }
+
+    if (segmentOne !== segmentTwo) {
+      return segmentOne > segmentTwo ? 1 : -1;
+    }
+  }
+
+  if (one >= a.length && two >= b.length) {
+    return 0;
+  }
+  return one >= a.length ? -1 : 1;
+}
+
+/**
+ * RPM epoch:version-release 비교
+ *
+ * epoch이 없으면 0으로 보고, 한쪽에 release가 없으면 (예: `Requires: foo >= 1.0`) release는 비교하지 않는다.
+ */
+export function compareRpmVersions(a: string, b: string): number {
+  const left = parseRpmEVR(a);
+  const right = parseRpmEVR(b);
+
+  const epochDiff = rpmvercmp(left.epoch, right.epoch);
+  if (epochDiff !== 0) {
+    return epochDiff;
+  }
+
+  const versionDiff = rpmvercmp(left.version, right.version);
+  if (versionDiff !== 0 || left.release === undefined || right.release === undefined) {
+    return versionDiff;
+  }
+
+  return rpmvercmp(left.release, right.release);
+}
+
+/**
+ * Debian 버전 비교 ([epoch:]upstream_version[-debian_revision])
+ *
+ * 비숫자 구간은 `~` < 문자열 끝 < 영문자 < 그 외 문자 순서로, 숫자 구간은 값으로 비교한다.
+ */
+export function compareDebianVersions(a: string, b: string): number {
+  const left = parseDebianVersion(a);
+  const right = parseDebianVersion(b);
+
+  if (left.epoch !== right.epoch) {
+    return left.epoch > right.epoch ? 1 : -1;
+  }
+
+  return verrevcmp(left.upstream, right.upstream) || verrevcmp(left.revision, right.revision);
+}
+
+/**
+ * Alpine apk 버전 비교 (apk-tools apk_version_compare)
+ *
+ * `1.2.3a_rc1_p2-r3` 형식. `_alpha`/`_beta`/`_pre`/`_rc`는 접미사 없는 버전보다 작고,
+ * `_cvs`/`_svn`/`_git`/`_hg`/`_p`와 `-rN` 리비전은 크다.
+ */
+export function compareApkVersions(a: string, b: string): number {
+  const left: ApkTokenizer = { value: a, position: 0, type: APK_TOKEN_DIGIT };
+  const right: ApkTokenizer = { value: b, position: 0, type: APK_TOKEN_DIGIT };
+  let leftValue = 0;
+  let rightValue = 0;
+
+  while (
+    left.type === right.type &&
+    left.type !== APK_TOKEN_END &&
+    left.type !== APK_TOKEN_INVALID &&
+    leftValue === rightValue
+  ) {
+    leftValue = readApkToken(left);
+    rightValue = readApkToken(right);
+  }
+
+  if (leftValue !== rightValue) {
+    return leftValue < rightValue ? -1 : 1;
+  }
+  if (left.type === right.type) {
+    return 0;
+  }
+
+  // 앞부분이 같으면 더 긴 쪽이 크다. 단, 다음 토큰이 pre-release 접미사면 작다
+  if (left.type === APK_TOKEN_SUFFIX && readApkToken(left) < 0) {
+    return -1;
+  }
+  if (right.type === APK_TOKEN_SUFFIX && readApkToken(right) < 0) {
+    return 1;
+  }
+  if (left.type > right.type) {
+    return -1;
+  }
+  if (right.type > left.type) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * 패키지 관리자 규칙으로 버전 문자열 비교
+ */
+export function compareOSVersions(packageManager: OSPackageManager, a: string, b: string): number {
+  const left = typeof a === 'string' ? a : String(a ?? '');
+  const right = typeof b === 'string' ? b : String(b ?? '');
+
+  switch (packageManager) {
+    case 'apt':
+      return compareDebianVersions(left, right);
+    case 'apk':
+      return compareApkVersions(left, right);
+    default:
+      return compareRpmVersions(left, right);
+  }
+}
+
+/**
+ * 패키지의 전체 버전 문자열 (yum은 epoch:version-release, 그 외는 version 그대로)
+ */
+export function getFullVersion(pkg: OSPackageInfo, packageManager: OSPackageManager): string {
+  if (packageManager !== 'yum') {
+    return pkg.version;
+  }
+
+  const epoch = pkg.epoch ? `${pkg.epoch}:` : '';
+  const release = pkg.release ? `-${pkg.release}` : '';
+  return `${epoch}${pkg.version}${release}`;
+}
+
+/**
+ * 패키지 관리자 규칙으로 두 패키지의 버전 비교
+ */
+export function compareOSPackages(
+  packageManager: OSPackageManager,
+  a: OSPackageInfo,
+  b: OSPackageInfo
+): number {
+  return compareOSVersions(packageManager, getFullVersion(a, packageManager), getFullVersion(b, packageManager));
+}
+
+function parseRpmEVR(value: string): { epoch: string; version: string; release?: string } {
+  const epochMatch = value.match(/^(\d*):/);
+  const epoch = epochMatch?.[1] || '0';
+  const rest = epochMatch ? value.slice(epochMatch[0].length) : value;
+
+  const releaseIndex = rest.lastIndexOf('-');
+  if (releaseIndex === -1) {
+    return { epoch, version: rest };
+  }
+  return { epoch, version: rest.slice(0, releaseIndex), release: rest.slice(releaseIndex + 1) };
+}
+
+function parseDebianVersion(value: string): { epoch: number; upstream: string; revision: string } {
+  const epochMatch = value.match(/^(\d+):/);
+  const epoch = epochMatch ? parseInt(epochMatch[1], 10) : 0;
+  const rest = epochMatch ? value.slice(epochMatch[0].length) : value;
+
+  const revisionIndex = rest.lastIndexOf('-');
+  if (revisionIndex === -1) {
+    return { epoch, upstream: rest, revision: '' };
+  }
+  return { epoch, upstream: rest.slice(0, revisionIndex), revision: rest.slice(revisionIndex + 1) };
+}
+
+/**
+ * dpkg verrevcmp
+ */
+function verrevcmp(a: string, b: string): number {
+  let one = 0;
+  let two = 0;
+
+  while (one < a.length || two < b.length) {
+    while ((one < a.length && !isDigit(a[one])) || (two < b.length && !isDigit(b[two]))) {
+      const orderOne = debianCharOrder(a[one]);
+      const orderTwo = debianCharOrder(b[two]);
+      if (orderOne !== orderTwo) {
+        return orderOne > orderTwo ? 1 : -1;
+      }
+      one += 1;
+      two += 1;
+    }
+
+    while (a[one] === '0') {
+      one += 1;
+    }
+    while (b[two] === '0') {
+      two += 1;
+    }
+
+    let firstDiff = 0;
+    while (isDigit(a[one]) && isDigit(b[two])) {
+      if (!firstDiff) {
+        firstDiff = a.charCodeAt(one) - b.charCodeAt(two);
+      }
+      one += 1;
+      two += 1;
+    }
+
+    if (isDigit(a[one])) {
+      return 1;
+    }
+    if (isDigit(b[two])) {
+      return -1;
+    }
+    if (firstDiff) {
+      return firstDiff > 0 ? 1 : -1;
+    }
+  }
+
+  return 0;
+}
+
+function debianCharOrder(char: string | undefined): number {
+  if (char === undefined || isDigit(char)) {
+    return 0;
+  }
+  if (isAlpha(char)) {
+    return char.charCodeAt(0);
+  }
+  if (char === '~') {
+    return -1;
+  }
+  return char.charCodeAt(0) + 256;
+}
+
+/** apk-tools 토큰 종류 (값이 클수록 버전 문자열의 뒤쪽) */
+const APK_TOKEN_INVALID = -1;
+const APK_TOKEN_DIGIT_OR_ZERO = 0;
+const APK_TOKEN_DIGIT = 1;
+const APK_TOKEN_LETTER = 2;
+const APK_TOKEN_SUFFIX = 3;
+const APK_TOKEN_SUFFIX_NO = 4;
+const APK_TOKEN_REVISION_NO = 5;
+const APK_TOKEN_END = 6;
+
+const APK_PRE_SUFFIXES = ['alpha', 'beta', 'pre', 'rc'];
+const APK_POST_SUFFIXES = ['cvs', 'svn', 'git', 'hg', 'p'];
+
+interface ApkTokenizer {
+  value: string;
+  position: number;
+  type: number;
+}
+
+/**
+ * 현재 토큰 값을 읽고 다음 토큰 종류로 넘어간다 (apk-tools get_token)
+ */
+function readApkToken(tokenizer: ApkTokenizer): number {
+  const { value } = tokenizer;
+  let position = tokenizer.position;
+  let result = 0;
+  let nextType = APK_TOKEN_INVALID;
+
+  if (position >= value.length) {
+    tokenizer.type = APK_TOKEN_END;
+    return 0;
+  }
+
+  switch (tokenizer.type) {
+    case APK_TOKEN_DIGIT_OR_ZERO:
+    case APK_TOKEN_DIGIT:
+    case APK_TOKEN_SUFFIX_NO:
+    case APK_TOKEN_REVISION_NO:
+      // '.' 뒤에서 숫자가 이어지는 앞자리 0은 소수점 이하처럼 취급 (1.01 < 1.1)
+      if (tokenizer.type === APK_TOKEN_DIGIT_OR_ZERO && value[position] === '0' && isDigit(value[position + 1])) {
+        const start = position;
+        while (value[position] === '0' && isDigit(value[position + 1])) {
+          position += 1;
+        }
+        result = start - position;
+        nextType = APK_TOKEN_DIGIT;
+        break;
+      }
+      while (isDigit(value[position])) {
+        result = result * 10 + value.charCodeAt(position) - 48;
+        position += 1;
+      }
+      break;
+    case APK_TOKEN_LETTER:
+      result = value.charCodeAt(position);
+      position += 1;
+      break;
+    case APK_TOKEN_SUFFIX: {
+      const rest = value.slice(position);
+      const preIndex = APK_PRE_SUFFIXES.findIndex((suffix) => rest.startsWith(suffix));
+      const postIndex = preIndex === -1 ? APK_POST_SUFFIXES.findIndex((suffix) => rest.startsWith(suffix)) : -1;
+      if (preIndex !== -1) {
+        result = preIndex - APK_PRE_SUFFIXES.length;
+        position += APK_PRE_SUFFIXES[preIndex].length;
+      } else if (postIndex !== -1) {
+        result = postIndex;
+        position += APK_POST_SUFFIXES[postIndex].length;
+      } else {
+        tokenizer.type = APK_TOKEN_INVALID;
+        return -1;
+      }
+      break;
+    }
+    default:
+      tokenizer.type = APK_TOKEN_INVALID;
+      return -1;
+  }
+
+  tokenizer.position = position;
+  if (position >= value.length) {
+    tokenizer.type = APK_TOKEN_END;
+  } else if (nextType !== APK_TOKEN_INVALID) {
+    tokenizer.type = nextType;
+  } else {
+    advanceApkTokenType(tokenizer);
+  }
+  return result;
+}
+
+/**
+ * 구분자를 보고 다음 토큰 종류 결정 (apk-tools next_token)
+ */
+function advanceApkTokenType(tokenizer: ApkTokenizer): void {
+  const { value, type } = tokenizer;
+  const char = value[tokenizer.position];
+  let nextType = APK_TOKEN_INVALID;
+
+  if ((type === APK_TOKEN_DIGIT || type === APK_TOKEN_DIGIT_OR_ZERO) && isLowerCase(char)) {
+    nextType = APK_TOKEN_LETTER;
+  } else if (type === APK_TOKEN_LETTER && isDigit(char)) {
+    nextType = APK_TOKEN_DIGIT;
+  } else if (type === APK_TOKEN_SUFFIX && isDigit(char)) {
+    nextType = APK_TOKEN_SUFFIX_NO;
+  } else {
+    if (char === '.') {
+      nextType = APK_TOKEN_DIGIT_OR_ZERO;
+    } else if (char === '_') {
+      nextType = APK_TOKEN_SUFFIX;
+    } else if (char === '-' && value[tokenizer.position + 1] === 'r') {
+      nextType = APK_TOKEN_REVISION_NO;
+      tokenizer.position += 1;
+    }
+    tokenizer.position += 1;
+  }
+
+  // 순서를 거스르는 토큰은 잘못된 버전 (예: 리비전 뒤의 '.')
+  if (
+    nextType < type &&
+    !(
+      (nextType === APK_TOKEN_DIGIT_OR_ZERO && type === APK_TOKEN_DIGIT) ||
+      (nextType === APK_TOKEN_SUFFIX && type === APK_TOKEN_SUFFIX_NO) ||
+      (nextType === APK_TOKEN_DIGIT && type === APK_TOKEN_LETTER)
+    )
+  ) {
+    nextType = APK_TOKEN_INVALID;
+  }
+  tokenizer.type = nextType;
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
+
+function isAlpha(char: string | undefined): boolean {
+  return char !== undefined && ((char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z'));
+}
+
+function isLowerCase(char: string | undefined): boolean {
+  return char !== undefined && char >= 'a' && char <= 'z';
+}
+
+function isAlphaNumeric(char: string): boolean {
+  return isDigit(char) || isAlpha(char);
+}
@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyModuleFilter,
+  getActiveModuleStreams,
+  getModuleProfilePackages,
+  parseModuleSpec,
+  parseModulesYaml,
+  selectModuleMetadata,
+  serializeModulesYaml,
+  summarizeModuleStreams,
+} from './yum-modules';
+import type { OSPackageInfo } from './types';
+
+const MODULES_YAML = `---
+document: modulemd
+version: 2
+data:
+  name: nodejs
+  stream: 18
+  version: 9020020230606081022
+  context: rhel9
+  arch: x86_64
+  summary: Javascript runtime
+  description: >-
+    Node.js is a platform built on Chrome's JavaScript runtime.
+  license:
+    module:
+    - MIT
+  dependencies:
+  - buildrequires:
+      platform: [el9.2.0]
+    requires:
+      platform: [el9]
+  profiles:
+    common:
+      rpms:
+      - nodejs
+      - npm
+  artifacts:
+    rpms:
+    - nodejs-1:18.14.2-3.module+el9.2.0+784+ff1e4d6a.x86_64
+    - npm-1:9.5.0-1.18.14.2.3.module+el9.2.0+784+ff1e4d6a.x86_64
+---
+document: modulemd
+version: 2
+data:
+  name: nodejs
+  stream: 20
+  version: 9040020240514092613
+  context: rhel9
+  arch: x86_64
+  summary: Javascript runtime
+  description: Node.js 20
+  license:
+    module: [MIT]
+  dependencies:
+  - requires:
+      platform: [el9]
+  profiles:
+    common:
+      rpms: [nodejs, npm]
+    development:
+      rpms: [nodejs, nodejs-devel, npm]
+  artifacts:
+    rpms:
+    - nodejs-1:20.12.2-2.module+el9.4.0+1845+a9a2a5e4.x86_64
+    - nodejs-devel-1:20.12.2-2.module+el9.4.0+1845+a9a2a5e4.x86_64
+    - npm-1:10.5.0-1.20.12.2.2.module+el9.4.0+1845+a9a2a5e4.x86_64
+---
+document: modulemd
+version: 2
+data:
+  name: perl
+  stream: 5.30
+  version: 1
+  context: rhel9
+  arch: x86_64
+  summary: Practical Extraction and Report Language
+  description: Perl 5.30
+  license:
+    module: [MIT]
+  artifacts:
+    rpms:
+    - perl-4:5.30.1-452.module+el9.0.0+100+abcd.x86_64
+---
+document: modulemd
+version: 2
+data:
+  name: perl-DBI
+  stream: 1.641
+  version: 1
+  context: 5261
+  arch: x86_64
+  summary: Database access API for Perl
+  description: perl-DBI for perl 5.26
+  license:
+    module: [MIT]
+  dependencies:
+  - requires:
+      perl: [5.26]
+  artifacts:
+    rpms:
+    - perl-DBI-0:1.641-3.module+el9.0.0+100+p526.x86_64
+---
+document: modulemd
+version: 2
+data:
+  name: perl-DBI
+  stream: 1.641
+  version: 1
+  context: 5301
+  arch: x86_64
+  summary: Database access API for Perl
+  description: perl-DBI for perl 5.30
+  license:
+    module: [MIT]
+  dependencies:
+  - requires:
+      perl: [5.30]
+  artifacts:
+    rpms:
+    - perl-DBI-0:1.641-3.module+el9.0.0+100+p530.x86_64
+---
+document: modulemd-defaults
+version: 1
+data:
+  module: nodejs
+  stream: 18
+  profiles:
+    18: [common]
+    20: [common]
+---
+document: modulemd-defaults
+version: 1
+data:
+  module: perl-DBI
+  stream: 1.641
+...
+`;
+
+const createPackage = (name: string, version: string, release: string, epoch?: number): OSPackageInfo => ({
+  name,
+  version,
+  release,
+  epoch,
+  architecture: 'x86_64',
+  size: 1,
+  checksum: { type: 'sha256', value: '' },
+  location: `Packages/${name}-${version}-${release}.x86_64.rpm`,
+  repository: { id: 'appstream', name: 'AppStream', baseUrl: '', enabled: true, gpgCheck: false, isOfficial: true },
+  dependencies: [],
+});
+
+const PACKAGES = [
+  createPackage('nodejs', '16.20.2', '1.el9', 1),
+  createPackage('nodejs', '18.14.2', '3.module+el9.2.0+784+ff1e4d6a', 1),
+  createPackage('nodejs', '20.12.2', '2.module+el9.4.0+1845+a9a2a5e4', 1),
+  createPackage('nodejs-devel', '20.12.2', '2.module+el9.4.0+1845+a9a2a5e4', 1),
+  createPackage('perl', '5.32.1', '481.el9', 4),
+  createPackage('perl', '5.30.1', '452.module+el9.0.0+100+abcd', 4),
+  createPackage('perl-DBI', '1.641', '3.module+el9.0.0+100+p526'),
+  createPackage('perl-DBI', '1.641', '3.module+el9.0.0+100+p530'),
+  createPackage('bash', '5.1.8', '9.el9'),
+];
+
+const describePackages = (packages: OSPackageInfo[]): string[] =>
+  packages.map((pkg) => `${pkg.name}-${pkg.version}${pkg.moduleStream ? ` [${pkg.moduleStream}]` : ''}`);
+
+describe('YUM 모듈 스트림', () => {
+  const metadata = parseModulesYaml(MODULES_YAML);
+
+  it('modulemd 문서의 스트림과 버전을 문자열 그대로 읽어야 함', () => {
+    expect(metadata.streams.map((stream) => `${stream.name}:${stream.stream}:${stream.version}:${stream.context}`)).toEqual([
+      'nodejs:18:9020020230606081022:rhel9',
+      'nodejs:20:9040020240514092613:rhel9',
+      'perl:5.30:1:rhel9',
+      'perl-DBI:1.641:1:5261',
+      'perl-DBI:1.641:1:5301',
+    ]);
+    expect(metadata.streams[1].profiles).toEqual({
+      common: ['nodejs', 'npm'],
+      development: ['nodejs', 'nodejs-devel', 'npm'],
+    });
+    expect(metadata.streams[3].requires).toEqual([{ perl: ['5.26'] }]);
+    expect(metadata.defaults).toEqual([
+      { module: 'nodejs', stream: '18', profiles: { 18: ['common'], 20: ['common'] } },
+      { module: 'perl-DBI', stream: '1.641', profiles: {} },
+    ]);
+    expect(() => parseModulesYaml('document: [')).toThrow('Invalid modules.yaml');
+  });
+
+  it('기본 스트림만 활성화하고 다른 스트림과 같은 이름의 비모듈 패키지는 숨겨야 함', () => {
+    const active = getActiveModuleStreams(metadata);
+
+    expect(describePackages(applyModuleFilter(PACKAGES, metadata, active))).toEqual([
+      'nodejs-18.14.2 [nodejs:18]',
+      'perl-5.32.1',
+      // perl 모듈이 활성화되지 않았으므로 perl-DBI 컨텍스트는 가리지 않는다
+      'perl-DBI-1.641 [perl-DBI:1.641]',
+      'perl-DBI-1.641 [perl-DBI:1.641]',
+      'bash-5.1.8',
+    ]);
+  });
+
+  it('선택한 스트림과 모듈 의존성이 맞는 컨텍스트만 활성화해야 함', () => {
+    const active = getActiveModuleStreams(metadata, [
+      parseModuleSpec('nodejs:20'),
+      parseModuleSpec('perl:5.30'),
+    ]);
+
+    expect(active.map((stream) => `${stream.name}:${stream.stream}:${stream.context}`)).toEqual([
+      'nodejs:20:rhel9',
+      'perl:5.30:rhel9',
+      'perl-DBI:1.641:5301',
+    ]);
+    expect(describePackages(applyModuleFilter(PACKAGES, metadata, active))).toEqual([
+      'nodejs-20.12.2 [nodejs:20]',
+      'nodejs-devel-20.12.2 [nodejs:20]',
+      'perl-5.30.1 [perl:5.30]',
+      'perl-DBI-1.641 [perl-DBI:1.641]',
+      'bash-5.1.8',
+    ]);
+    expect(() => getActiveModuleStreams(metadata, [parseModuleSpec('nodejs:99')])).toThrow(
+      'Module stream nodejs:99 is not available'
+    );
+  });
+
+  it('name:stream/profile 형식과 프로필 패키지를 처리해야 함', () => {
+    expect(parseModuleSpec('postgresql:15/server')).toEqual({ name: 'postgresql', stream: '15', profile: 'server' });
+    expect(() => parseModuleSpec('nodejs')).toThrow('expected name:stream');
+
+    expect(getModuleProfilePackages(metadata, parseModuleSpec('nodejs:20/development'))).toEqual([
+      'nodejs',
+      'nodejs-devel',
+      'npm',
+    ]);
+    expect(getModuleProfilePackages(metadata, parseModuleSpec('nodejs:20'))).toEqual(['nodejs', 'npm']);
+    expect(() => getModuleProfilePackages(metadata, parseModuleSpec('perl:5.30'))).toThrow('has no default profile');
+    expect(() => getModuleProfilePackages(metadata, parseModuleSpec('nodejs:20/minimal'))).toThrow('has no profile minimal');
+  });
+
+  it('스트림 목록에 기본값과 활성 여부를 표시해야 함', () => {
+    const summaries = summarizeModuleStreams(metadata, getActiveModuleStreams(metadata, [parseModuleSpec('nodejs:20')]));
+
+    expect(summaries.filter((summary) => summary.name === 'nodejs')).toEqual([
+      expect.objectContaining({ stream: '18', isDefault: true, isActive: false, defaultProfiles: ['common'] }),
+      expect.objectContaining({ stream: '20', isDefault: false, isActive: true, profiles: ['common', 'development'] }),
+    ]);
+  });
+
+  it('로컬 저장소용 modules.yaml은 포함된 패키지만 남기고 다시 읽을 수 있어야 함', () => {
+    const active = getActiveModuleStreams(metadata, [parseModuleSpec('nodejs:20')]);
+    const nodejs = applyModuleFilter(PACKAGES, metadata, active).filter((pkg) => pkg.name === 'nodejs');
+    const selected = selectModuleMetadata(metadata, nodejs);
+    const yamlText = serializeModulesYaml(selected);
+
+    expect(yamlText).toContain('version: 9040020240514092613\n');
+    expect(yamlText).toContain('stream: 20\n');
+    expect(parseModulesYaml(yamlText)).toEqual({
+      streams: [
+        { ...metadata.streams[1], artifacts: ['nodejs-1:20.12.2-2.module+el9.4.0+1845+a9a2a5e4.x86_64'] },
+      ],
+      defaults: [metadata.defaults[0]],
+    });
+  });
+});
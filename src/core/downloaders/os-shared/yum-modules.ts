@@ -0,0 +1,383 @@
+/**
+ * YUM Module Streams
+ * RHEL/Rocky 8+ AppStream 모듈 메타데이터(modules.yaml)를 읽고,
+ * 선택한 스트림과 기본 스트림 기준으로 dnf와 같은 모듈 필터링을 적용한다
+ */
+
+import * as yaml from 'js-yaml';
+import type {
+  ModuleDefaults,
+  ModuleMetadata,
+  ModuleSelection,
+  ModuleStream,
+  OSPackageInfo,
+} from './types';
+
+/**
+ * 모듈 스트림 요약 (목록 표시용)
+ */
+export interface ModuleStreamSummary {
+  name: string;
+  stream: string;
+  summary: string;
+  /** 프로필 이름 */
+  profiles: string[];
+  /** 기본 프로필 */
+  defaultProfiles: string[];
+  /** 배포판 기본 스트림 여부 */
+  isDefault: boolean;
+  /** 현재 선택(또는 기본값)으로 활성화된 스트림 여부 */
+  isActive: boolean;
+}
+
+export const EMPTY_MODULE_METADATA: ModuleMetadata = { streams: [], defaults: [] };
+
+/**
+ * modules.yaml 파싱 (modulemd v2, modulemd-defaults v1 문서만 사용)
+ *
+ * 스트림("5.30")이나 모듈 버전(uint64)이 숫자로 바뀌지 않도록 모든 값을 문자열로 읽는다.
+ */
+export function parseModulesYaml(content: string): ModuleMetadata {
+  let documents: unknown[];
+  try {
+    documents = yaml.loadAll(content, undefined, { schema: yaml.FAILSAFE_SCHEMA });
+  } catch (error) {
+    throw new Error(`Invalid modules.yaml: ${(error as Error).message}`);
+  }
+
+  const metadata: ModuleMetadata = { streams: [], defaults: [] };
+  for (const document of documents) {
+    if (!isRecord(document) || !isRecord(document.data)) {
+      continue;
+    }
+
+    if (document.document === 'modulemd') {
+      metadata.streams.push(parseModuleStream(document.data));
+    } else if (document.document === 'modulemd-defaults') {
+      metadata.defaults.push(parseModuleDefaults(document.data));
+    }
+  }
+  return metadata;
+}
+
+/**
+ * 여러 저장소의 모듈 메타데이터 합치기
+ */
+export function mergeModuleMetadata(list: ModuleMetadata[]): ModuleMetadata {
+  return {
+    streams: list.flatMap((metadata) => metadata.streams),
+    defaults: list.flatMap((metadata) => metadata.defaults),
+  };
+}
+
+/**
+ * 로컬 저장소용 modules.yaml 생성
+ */
+export function serializeModulesYaml(metadata: ModuleMetadata): string {
+  const documents = [
+    ...metadata.streams.map((stream) => ({
+      document: 'modulemd',
+      version: '2',
+      data: {
+        name: stream.name,
+        stream: stream.stream,
+        version: stream.version,
+        context: stream.context,
+        arch: stream.arch,
+        summary: stream.summary,
+        description: stream.description,
+        license: { module: stream.license.length > 0 ? stream.license : ['MIT'] },
+        ...(stream.requires.length > 0
+          ? { dependencies: stream.requires.map((requires) => ({ requires })) }
+          : {}),
+        ...(Object.keys(stream.profiles).length > 0
+          ? {
+              profiles: Object.fromEntries(
+                Object.entries(stream.profiles).map(([profile, rpms]) => [profile, { rpms }])
+              ),
+            }
+          : {}),
+        artifacts: { rpms: stream.artifacts },
+      },
+    })),
+    ...metadata.defaults.map((defaults) => ({
+      document: 'modulemd-defaults',
+      version: '1',
+      data: {
+        module: defaults.module,
+        ...(defaults.stream ? { stream: defaults.stream } : {}),
+        ...(Object.keys(defaults.profiles).length > 0 ? { profiles: defaults.profiles } : {}),
+      },
+    })),
+  ];
+
+  // FAILSAFE 스키마로 쓰면 모듈 버전과 스트림이 따옴표 없는 스칼라로 나간다
+  return documents
+    .map((document) => `---\n${yaml.dump(document, { schema: yaml.FAILSAFE_SCHEMA, lineWidth: -1 })}`)
+    .join('')
+    .concat('...\n');
+}
+
+/**
+ * name:stream[/profile] 형식 파싱
+ */
+export function parseModuleSpec(spec: string): ModuleSelection {
+  const match = spec.trim().match(/^([^:/\s]+):([^:/\s]+)(?:\/([^:/\s]+))?$/);
+  if (!match) {
+    throw new Error(`Invalid module stream "${spec}" (expected name:stream or name:stream/profile)`);
+  }
+  return { name: match[1], stream: match[2], ...(match[3] ? { profile: match[3] } : {}) };
+}
+
+/**
+ * name:stream[/profile] 형식으로 표시
+ */
+export function formatModuleSpec(selection: ModuleSelection): string {
+  return `${selection.name}:${selection.stream}${selection.profile ? `/${selection.profile}` : ''}`;
+}
+
+/**
+ * 활성 모듈 스트림 계산
+ *
+ * 사용자가 고른 스트림이 우선이고, 고르지 않은 모듈은 modulemd-defaults의 기본 스트림을 쓴다.
+ * 기본 스트림이 없는 모듈은 활성화하지 않는다 (dnf와 같이 해당 모듈 패키지는 숨김).
+ * 같은 스트림의 컨텍스트 중 활성 모듈 의존성(requires)과 맞지 않는 것은 제외한다.
+ */
+export function getActiveModuleStreams(
+  metadata: ModuleMetadata,
+  selections: ModuleSelection[] = []
+): ModuleStream[] {
+  const chosen = new Map<string, string>();
+  for (const defaults of metadata.defaults) {
+    if (defaults.stream) {
+      chosen.set(defaults.module, defaults.stream);
+    }
+  }
+  for (const selection of selections) {
+    if (!metadata.streams.some((stream) => stream.name === selection.name && stream.stream === selection.stream)) {
+      throw new Error(`Module stream ${selection.name}:${selection.stream} is not available`);
+    }
+    chosen.set(selection.name, selection.stream);
+  }
+
+  return metadata.streams.filter(
+    (stream) => chosen.get(stream.name) === stream.stream && isContextCompatible(stream, chosen)
+  );
+}
+
+/**
+ * 모듈 필터링 적용
+ *
+ * - 활성 스트림의 패키지는 남기고 moduleStream을 표시한다
+ * - 비활성 스트림에만 속한 모듈 패키지는 제외한다
+ * - 활성 스트림에 같은 이름의 패키지가 있으면 비모듈 패키지는 제외한다
+ */
+export function applyModuleFilter(
+  packages: OSPackageInfo[],
+  metadata: ModuleMetadata,
+  activeStreams: ModuleStream[]
+): OSPackageInfo[] {
+  if (metadata.streams.length === 0) {
+    return packages;
+  }
+
+  const modularArtifacts = new Set(metadata.streams.flatMap((stream) => stream.artifacts));
+  const activeArtifacts = new Map<string, string>();
+  for (const stream of activeStreams) {
+    for (const artifact of stream.artifacts) {
+      activeArtifacts.set(artifact, `${stream.name}:${stream.stream}`);
+    }
+  }
+  const activeNames = new Set([...activeArtifacts.keys()].map((artifact) => parseNevraName(artifact)));
+
+  return packages.flatMap((pkg) => {
+    const nevra = getPackageNevra(pkg);
+    const moduleStream = activeArtifacts.get(nevra);
+    if (moduleStream) {
+      return [{ ...pkg, moduleStream }];
+    }
+    if (modularArtifacts.has(nevra) || activeNames.has(pkg.name)) {
+      return [];
+    }
+    return [pkg];
+  });
+}
+
+/**
+ * 모듈 프로필에 속한 rpm 이름 (프로필을 고르지 않으면 기본 프로필)
+ */
+export function getModuleProfilePackages(metadata: ModuleMetadata, selection: ModuleSelection): string[] {
+  const streams = metadata.streams.filter(
+    (stream) => stream.name === selection.name && stream.stream === selection.stream
+  );
+  if (streams.length === 0) {
+    throw new Error(`Module stream ${selection.name}:${selection.stream} is not available`);
+  }
+
+  const profiles = selection.profile
+    ? [selection.profile]
+    : getDefaultProfiles(metadata, selection.name, selection.stream);
+  if (profiles.length === 0) {
+    throw new Error(
+      `Module stream ${selection.name}:${selection.stream} has no default profile (use name:stream/profile)`
+    );
+  }
+
+  const packages = new Set<string>();
+  for (const profile of profiles) {
+    const stream = streams.find((candidate) => candidate.profiles[profile]);
+    if (!stream) {
+      throw new Error(`Module stream ${selection.name}:${selection.stream} has no profile ${profile}`);
+    }
+    stream.profiles[profile].forEach((name) => packages.add(name));
+  }
+  return [...packages];
+}
+
+/**
+ * 모듈 스트림 목록 (name:stream별로 하나)
+ */
+export function summarizeModuleStreams(
+  metadata: ModuleMetadata,
+  activeStreams: ModuleStream[]
+): ModuleStreamSummary[] {
+  const summaries = new Map<string, ModuleStreamSummary>();
+
+  for (const stream of metadata.streams) {
+    const key = `${stream.name}:${stream.stream}`;
+    const summary = summaries.get(key) ?? {
+      name: stream.name,
+      stream: stream.stream,
+      summary: stream.summary,
+      profiles: [],
+      defaultProfiles: getDefaultProfiles(metadata, stream.name, stream.stream),
+      isDefault: metadata.defaults.some(
+        (defaults) => defaults.module === stream.name && defaults.stream === stream.stream
+      ),
+      isActive: activeStreams.some(
+        (active) => active.name === stream.name && active.stream === stream.stream
+      ),
+    };
+    for (const profile of Object.keys(stream.profiles)) {
+      if (!summary.profiles.includes(profile)) {
+        summary.profiles.push(profile);
+      }
+    }
+    summaries.set(key, summary);
+  }
+
+  return [...summaries.values()].sort(
+    (left, right) =>
+      left.name.localeCompare(right.name) ||
+      left.stream.localeCompare(right.stream, undefined, { numeric: true })
+  );
+}
+
+/**
+ * 패키지가 속한 모듈 스트림만 남긴 메타데이터 (로컬 저장소용)
+ */
+export function selectModuleMetadata(metadata: ModuleMetadata, packages: OSPackageInfo[]): ModuleMetadata {
+  const included = new Set(packages.map((pkg) => getPackageNevra(pkg)));
+  const streams = metadata.streams
+    .map((stream) => ({ ...stream, artifacts: stream.artifacts.filter((artifact) => included.has(artifact)) }))
+    .filter((stream) => stream.artifacts.length > 0);
+  const names = new Set(streams.map((stream) => stream.name));
+
+  return {
+    streams,
+    defaults: metadata.defaults.filter((defaults) => names.has(defaults.module)),
+  };
+}
+
+/**
+ * 모듈 artifacts 형식의 패키지 NEVRA (name-epoch:version-release.arch)
+ */
+export function getPackageNevra(pkg: OSPackageInfo): string {
+  return `${pkg.name}-${pkg.epoch ?? 0}:${pkg.version}-${pkg.release ?? ''}.${pkg.architecture}`;
+}
+
+function getDefaultProfiles(metadata: ModuleMetadata, name: string, stream: string): string[] {
+  return metadata.defaults.find((defaults) => defaults.module === name)?.profiles[stream] ?? [];
+}
+
+function isContextCompatible(stream: ModuleStream, chosen: Map<string, string>): boolean {
+  if (stream.requires.length === 0) {
+    return true;
+  }
+
+  return stream.requires.some((requires) =>
+    Object.entries(requires).every(([module, streams]) => {
+      const active = chosen.get(module);
+      // platform은 저장소가 배포판 전용이므로 확인하지 않는다
+      if (module === 'platform' || !active) {
+        return true;
+      }
+      const excluded = streams.filter((value) => value.startsWith('-')).map((value) => value.slice(1));
+      const allowed = streams.filter((value) => !value.startsWith('-'));
+      return !excluded.includes(active) && (allowed.length === 0 || allowed.includes(active));
+    })
+  );
+}
+
+function parseNevraName(nevra: string): string {
+  return nevra.match(/^(.+)-[^-:]+:[^-]+-[^-]+$/)?.[1] ?? nevra;
+}
+
+function parseModuleStream(data: Record<string, unknown>): ModuleStream {
+  const license = isRecord(data.license) ? toStringArray(data.license.module) : [];
+  const profiles = isRecord(data.profiles)
+    ? Object.fromEntries(
+        Object.entries(data.profiles).map(([profile, value]) => [
+          profile,
+          isRecord(value) ? toStringArray(value.rpms) : [],
+        ])
+      )
+    : {};
+  const requires = Array.isArray(data.dependencies)
+    ? data.dependencies.filter(isRecord).map((dependency) =>
+        isRecord(dependency.requires)
+          ? Object.fromEntries(
+              Object.entries(dependency.requires).map(([module, streams]) => [module, toStringArray(streams)])
+            )
+          : {}
+      )
+    : [];
+
+  return {
+    name: toString(data.name),
+    stream: toString(data.stream),
+    version: toString(data.version),
+    context: toString(data.context),
+    arch: toString(data.arch),
+    summary: toString(data.summary),
+    description: toString(data.description),
+    license,
+    profiles,
+    requires,
+    artifacts: isRecord(data.artifacts) ? toStringArray(data.artifacts.rpms) : [],
+  };
+}
+
+function parseModuleDefaults(data: Record<string, unknown>): ModuleDefaults {
+  return {
+    module: toString(data.module),
+    ...(typeof data.stream === 'string' ? { stream: data.stream } : {}),
+    profiles: isRecord(data.profiles)
+      ? Object.fromEntries(
+          Object.entries(data.profiles).map(([stream, profiles]) => [stream, toStringArray(profiles)])
+        )
+      : {},
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
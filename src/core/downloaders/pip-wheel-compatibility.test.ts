@@ -114,6 +114,61 @@ describe('PipDownloader wheel 호환성', () => {
     });
   });
 
+  describe('Linux musllinux 호환성', () => {
+    it('musl 대상에서는 manylinux를 제외하고 가장 높은 호환 musllinux wheel을 선택해야 함', () => {
+      const releases: PyPIRelease[] = [
+        createWheelRelease('numpy-1.26.0-cp311-cp311-manylinux_2_17_x86_64.manylinux2014_x86_64.whl'),
+        createWheelRelease('numpy-1.26.0-cp311-cp311-musllinux_1_1_x86_64.whl'),
+        createWheelRelease('numpy-1.26.0-cp311-cp311-musllinux_1_2_x86_64.whl'),
+        createSdistRelease('numpy-1.26.0.tar.gz'),
+      ];
+
+      const platform: PipTargetPlatform = {
+        os: 'linux',
+        arch: 'x86_64',
+        libc: 'musl',
+        muslVersion: '1.2',
+      };
+
+      const result = testSelectBestRelease(releases, platform);
+      expect(result?.filename).toContain('musllinux_1_2_x86_64');
+    });
+
+    it('타겟 musl 1.1에 대해 musllinux_1_2는 선택하지 않고 sdist 선택', () => {
+      const releases: PyPIRelease[] = [
+        createWheelRelease('numpy-1.26.0-cp311-cp311-manylinux_2_17_x86_64.whl'),
+        createWheelRelease('numpy-1.26.0-cp311-cp311-musllinux_1_2_x86_64.whl'),
+        createSdistRelease('numpy-1.26.0.tar.gz'),
+      ];
+
+      const platform: PipTargetPlatform = {
+        os: 'linux',
+        arch: 'x86_64',
+        libc: 'musl',
+        muslVersion: '1.1',
+      };
+
+      const result = testSelectBestRelease(releases, platform);
+      expect(result?.filename).toBe('numpy-1.26.0.tar.gz');
+    });
+
+    it('glibc 대상에서는 musllinux wheel을 선택하지 않아야 함', () => {
+      const releases: PyPIRelease[] = [
+        createWheelRelease('numpy-1.26.0-cp311-cp311-musllinux_1_1_aarch64.whl'),
+        createSdistRelease('numpy-1.26.0.tar.gz'),
+      ];
+
+      const platform: PipTargetPlatform = {
+        os: 'linux',
+        arch: 'aarch64',
+        glibcVersion: '2.28',
+      };
+
+      const result = testSelectBestRelease(releases, platform);
+      expect(result?.filename).toBe('numpy-1.26.0.tar.gz');
+    });
+  });
+
   describe('macOS 호환성', () => {
     it('타겟 macOS 11.0에 대해 macosx_11_0 wheel을 선택해야 함', () => {
       const releases: PyPIRelease[] = [
@@ -12,6 +12,8 @@ import {
 import {
   compareVersions,
   getPackageArtifactKey,
+  getMuslPlatformTagPriority,
+  isMuslPlatformTagCompatible,
 } from '../shared';
 import { BaseLanguageDownloader } from './lang-shared/base-language-downloader';
 import logger from '../../utils/logger';
@@ -503,7 +505,16 @@ export class PipDownloader extends BaseLanguageDownloader implements IDownloader
     }
 
     // 정확히 일치하는 버전 찾기
-    const { os, glibcVersion, macosVersion } = this.pipTargetPlatform;
+    const { os, arch, libc, glibcVersion, muslVersion, macosVersion } = this.pipTargetPlatform;
+
+    // musl 대상은 가장 높은 호환 musllinux 태그 우선
+    if (os === 'linux' && libc === 'musl') {
+      const priority = (w: PyPIRelease) =>
+        getMuslPlatformTagPriority(this.extractPlatformTags(w.filename), arch, muslVersion);
+      return compatibleWheels.reduce((best, wheel) =>
+        priority(wheel) < priority(best) ? wheel : best
+      );
+    }
 
     if (os === 'linux' && glibcVersion) {
       const exactMatch = compatibleWheels.find(w => {
@@ -577,8 +588,17 @@ export class PipDownloader extends BaseLanguageDownloader implements IDownloader
         return wheel;
       }
 
-      // Linux
-      if (targetOs === 'linux') {
+      // Linux (musl): musllinux/linux 태그만 허용
+      if (targetOs === 'linux' && this.pipTargetPlatform.libc === 'musl') {
+        const { arch, muslVersion } = this.pipTargetPlatform;
+        if (platformTag.split('.').some((tag) => isMuslPlatformTagCompatible(tag, arch, muslVersion))) {
+          return wheel;
+        }
+        continue;
+      }
+
+      // Linux (glibc): musllinux 태그는 제외
+      if (targetOs === 'linux' && !platformTag.includes('musllinux')) {
         if (platformTag.includes('manylinux') || platformTag.includes('linux')) {
           if (targetArch === 'x86_64' && platformTag.includes('x86_64')) {
             return wheel;
@@ -704,12 +724,17 @@ export class PipDownloader extends BaseLanguageDownloader implements IDownloader
     const platformTags = this.extractPlatformTags(release.filename);
     if (platformTags.length === 0) return false;
 
-    const { os, arch, glibcVersion, macosVersion } = this.pipTargetPlatform;
+    const { os, arch, libc, glibcVersion, muslVersion, macosVersion } = this.pipTargetPlatform;
 
     if (platformTags.some(tag => tag === 'any')) {
       return true;
     }
 
+    // musl 대상 (Alpine 등): musllinux/linux 태그만 허용, manylinux(glibc)는 제외
+    if (os === 'linux' && libc === 'musl') {
+      return platformTags.some(tag => isMuslPlatformTagCompatible(tag, arch, muslVersion));
+    }
+
     const normalizeArch = (a: string): string => {
       if (a === 'x86_64' || a === 'amd64') return 'x86_64';
       if (a === 'aarch64' || a === 'arm64') return 'aarch64';
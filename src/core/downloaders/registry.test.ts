@@ -12,6 +12,9 @@ describe('downloaders registry', () => {
       'conda',
       'maven',
       'npm',
+      'go',
+      'cargo',
+      'nuget',
       'docker',
     ]);
   });
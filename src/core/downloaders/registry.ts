@@ -1,7 +1,10 @@
+import { getCargoDownloader } from './cargo';
 import { getCondaDownloader } from './conda';
 import { getDockerDownloader } from './docker';
+import { getGoDownloader } from './go';
 import { getMavenDownloader } from './maven';
 import { getNpmDownloader } from './npm';
+import { getNuGetDownloader } from './nuget';
 import { getPipDownloader } from './pip';
 import type { IDownloader, PackageType } from '../../types';
 
@@ -9,7 +12,7 @@ export type DownloaderCreator = () => IDownloader;
 
 export type RegisteredDownloaderType = Extract<
   PackageType,
-  'pip' | 'conda' | 'maven' | 'npm' | 'docker'
+  'pip' | 'conda' | 'maven' | 'npm' | 'go' | 'cargo' | 'nuget' | 'docker'
 >;
 
 const defaultDownloaderCreators = new Map<RegisteredDownloaderType, DownloaderCreator>([
@@ -17,6 +20,9 @@ const defaultDownloaderCreators = new Map<RegisteredDownloaderType, DownloaderCr
   ['conda', getCondaDownloader],
   ['maven', getMavenDownloader],
   ['npm', getNpmDownloader],
+  ['go', getGoDownloader],
+  ['cargo', getCargoDownloader],
+  ['nuget', getNuGetDownloader],
   ['docker', getDockerDownloader],
 ]);
 
@@ -7,6 +7,8 @@
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import * as fzstd from 'fzstd';
+import { XzReadableStream } from 'xz-decompress';
 import { gunzipSync } from 'zlib';
 import type {
   OSPackageInfo,
@@ -16,9 +18,12 @@ import type {
   VersionOperator,
   Checksum,
   ChecksumType,
+  ModuleMetadata,
 } from './os-shared/types';
 import { BaseOSDownloader, type BaseDownloaderOptions } from './os-shared/base-downloader';
 import { resolveRepoUrl } from './os-shared/repositories';
+import { compareOSPackages } from './os-shared/version-compare';
+import { parseModulesYaml } from './os-shared/yum-modules';
 
 /**
  * repomd.xml 파싱 결과
@@ -32,6 +37,8 @@ export interface RepomdInfo {
   filelists: RepomdDataInfo | null;
   /** other.xml 정보 */
   other: RepomdDataInfo | null;
+  /** modules.yaml 정보 (모듈 스트림이 있는 저장소만) */
+  modules?: RepomdDataInfo | null;
 }
 
 /**
@@ -50,6 +57,14 @@ export interface RepomdDataInfo {
   openSize?: number;
 }
 
+/**
+ * xz 압축 해제
+ */
+async function decompressXz(data: Buffer): Promise<Buffer> {
+  const stream = new XzReadableStream(new Blob([new Uint8Array(data)]).stream());
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
 /**
  * YUM 메타데이터 파서
  */
@@ -75,7 +90,8 @@ export class YumMetadataParser {
       ignoreAttributes: false,
       attributeNamePrefix: '@_',
       textNodeName: '#text',
-      parseAttributeValue: true,
+      // 버전 속성은 문자열로 유지 (ver="1.10"이 숫자 1.1로 바뀌지 않도록)
+      parseAttributeValue: false,
       trimValues: true,
     });
   }
@@ -183,6 +199,8 @@ export class YumMetadataParser {
           result.filelists = info;
         } else if (type === 'other') {
           result.other = info;
+        } else if (type === 'modules') {
+          result.modules = info;
         }
       }
 
@@ -262,6 +280,36 @@ export class YumMetadataParser {
     }
   }
 
+  /**
+   * modules.yaml 파싱하여 모듈 스트림 추출 (gz, xz, zst, 무압축)
+   */
+  async parseModules(location: string): Promise<ModuleMetadata> {
+    const modulesUrl = `${this.baseUrl}/${location}`;
+
+    if (location.endsWith('.bz2')) {
+      throw new Error(`Unsupported compression for module metadata: ${location}`);
+    }
+
+    try {
+      const { data } = await this.fetchWithRetry(modulesUrl, { responseType: 'arraybuffer' });
+      let content: Buffer = Buffer.from(data as ArrayBuffer);
+      if (location.endsWith('.gz')) {
+        content = gunzipSync(content);
+      } else if (location.endsWith('.xz')) {
+        // EL8 AppStream은 modules.yaml.xz로 배포한다
+        content = await decompressXz(content);
+      } else if (location.endsWith('.zst')) {
+        content = Buffer.from(fzstd.decompress(content));
+      }
+
+      return parseModulesYaml(content.toString('utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to parse modules.yaml from ${modulesUrl}: ${(error as Error).message}`
+      );
+    }
+  }
+
   /**
    * 패키지 요소 파싱
    */
@@ -279,11 +327,11 @@ export class YumMetadataParser {
     // 버전 정보
     const version = (versionEl?.['@_ver'] as string) || '';
     const release = (versionEl?.['@_rel'] as string) || undefined;
-    const epoch = versionEl?.['@_epoch'] as number | undefined;
+    const epoch = versionEl?.['@_epoch'] === undefined ? undefined : Number(versionEl['@_epoch']);
 
     // 크기 정보
-    const size = (sizeEl?.['@_package'] as number) || 0;
-    const installedSize = (sizeEl?.['@_installed'] as number) || undefined;
+    const size = Number(sizeEl?.['@_package']) || 0;
+    const installedSize = Number(sizeEl?.['@_installed']) || undefined;
 
     // 체크섬
     const checksum: Checksum = {
@@ -354,19 +402,28 @@ export class YumMetadataParser {
 
       const flags = entryObj['@_flags'] as string | undefined;
       const ver = entryObj['@_ver'] as string | undefined;
-      const pre = entryObj['@_pre'] as number | undefined;
+      const pre = entryObj['@_pre'] as string | undefined;
 
       dependencies.push({
         name,
-        version: ver,
+        version: ver === undefined ? undefined : this.formatRequiredVersion(entryObj, ver),
         operator: flags ? this.parseRpmFlags(flags) : undefined,
-        isOptional: pre === 1,
+        isOptional: pre === '1',
       });
     }
 
     return dependencies;
   }
 
+  /**
+   * 요구 버전을 epoch:version-release 형식으로 조합 (0 epoch과 없는 release는 생략)
+   */
+  private formatRequiredVersion(entry: Record<string, unknown>, ver: string): string {
+    const epoch = (entry['@_epoch'] as string | undefined) ?? '';
+    const rel = (entry['@_rel'] as string | undefined) ?? '';
+    return `${epoch && epoch !== '0' ? `${epoch}:` : ''}${ver}${rel ? `-${rel}` : ''}`;
+  }
+
   /**
    * 시스템 의존성 여부 확인
    */
@@ -459,56 +516,7 @@ export class YumMetadataParser {
   async getPackageVersions(packageName: string): Promise<OSPackageInfo[]> {
     const packages = await this.searchPackages(packageName, 'exact');
     // 버전순 정렬 (최신순)
-    return packages.sort((a, b) => this.compareVersions(b, a));
-  }
-
-  /**
-   * 버전 비교 (epoch, version, release 순)
-   */
-  private compareVersions(a: OSPackageInfo, b: OSPackageInfo): number {
-    // epoch 비교
-    const epochA = a.epoch || 0;
-    const epochB = b.epoch || 0;
-    if (epochA !== epochB) return epochA - epochB;
-
-    // version 비교
-    const versionCmp = this.compareVersionStrings(a.version, b.version);
-    if (versionCmp !== 0) return versionCmp;
-
-    // release 비교
-    return this.compareVersionStrings(a.release || '', b.release || '');
-  }
-
-  /**
-   * 버전 문자열 비교 (RPM 버전 비교 규칙)
-   */
-  private compareVersionStrings(a: string, b: string): number {
-    // 문자열이 아닌 경우 문자열로 변환
-    const strA = typeof a === 'string' ? a : String(a ?? '');
-    const strB = typeof b === 'string' ? b : String(b ?? '');
-
-    const partsA = strA.split(/[.-]/);
-    const partsB = strB.split(/[.-]/);
-
-    const maxLen = Math.max(partsA.length, partsB.length);
-
-    for (let i = 0; i < maxLen; i++) {
-      const partA = partsA[i] || '0';
-      const partB = partsB[i] || '0';
-
-      // 숫자로 변환 가능하면 숫자 비교
-      const numA = parseInt(partA, 10);
-      const numB = parseInt(partB, 10);
-
-      if (!isNaN(numA) && !isNaN(numB)) {
-        if (numA !== numB) return numA - numB;
-      } else {
-        // 문자열 비교
-        if (partA !== partB) return partA.localeCompare(partB);
-      }
-    }
-
-    return 0;
+    return packages.sort((a, b) => compareOSPackages('yum', b, a));
   }
 }
 
@@ -9,6 +9,9 @@ export { AptDownloader, getAptDownloader } from './downloaders/apt';
 export { ApkDownloader, getApkDownloader } from './downloaders/apk';
 export { DockerDownloader, getDockerDownloader } from './downloaders/docker';
 export { NpmDownloader, getNpmDownloader } from './downloaders/npm';
+export { GoDownloader, getGoDownloader } from './downloaders/go';
+export { CargoDownloader, getCargoDownloader } from './downloaders/cargo';
+export { NuGetDownloader, getNuGetDownloader } from './downloaders/nuget';
 
 // Packager
 export { ArchivePackager, getArchivePackager } from './packager/archive-packager';
@@ -28,6 +31,9 @@ export { YumResolver, getYumResolver } from './resolver/yum-resolver';
 export { AptResolver, getAptResolver } from './resolver/apt-resolver';
 export { ApkResolver, getApkResolver } from './resolver/apk-resolver';
 export { NpmResolver, getNpmResolver } from './resolver/npm-resolver';
+export { GoResolver, getGoResolver } from './resolver/go-resolver';
+export { CargoResolver, getCargoResolver } from './resolver/cargo-resolver';
+export { NuGetResolver, getNuGetResolver } from './resolver/nuget-resolver';
 
 // Cache Manager
 export { ArtifactCacheManager, CacheManager, getCacheManager } from './cache-manager';
@@ -36,6 +42,16 @@ export { ArtifactCacheManager, CacheManager, getCacheManager } from './cache-man
 export { ConfigManager, getConfigManager } from './config';
 export type { Config, CLIConfig } from './config';
 
+// Download Sessions
+export { DownloadSessionJournal, getDownloadSessionJournal } from './download-session-journal';
+export type {
+  DownloadSessionItem,
+  DownloadSessionItemStatus,
+  DownloadSessionRecord,
+  DownloadSessionSource,
+  DownloadSessionStatus,
+} from './download-session-journal';
+
 // Ports
 export * from './ports';
 
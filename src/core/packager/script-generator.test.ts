@@ -94,6 +94,35 @@ describe('ScriptGenerator', () => {
       );
     });
 
+    it('pom이 있는 Maven 아티팩트는 .m2 레이아웃 그대로 로컬 저장소에 복사해야 함', async () => {
+      const outputPath = path.join(tempDir, 'install.sh');
+      const packages: PackageInfo[] = [
+        { name: 'org.apache.maven.plugins:maven-compiler-plugin', version: '3.11.0', type: 'maven' },
+      ];
+
+      await generator.generateBashScript(packages, outputPath);
+
+      const content = await fs.readFile(outputPath, 'utf-8');
+      expect(content).toContain('${MAVEN_REPO_LOCAL:-$HOME/.m2/repository}');
+      expect(content).toContain('find "$PACKAGE_DIR" -type f -name \'*.pom\' -print0');
+      expect(content).toContain('cp -f "$artifact_dir"/* "$repo_dir"/');
+    });
+
+    it('Go 모듈은 GOPROXY 파일 트리를 가리키도록 환경을 설정해야 함', async () => {
+      const outputPath = path.join(tempDir, 'install.sh');
+      const packages: PackageInfo[] = [
+        { name: 'golang.org/x/text', version: 'v0.14.0', type: 'go' },
+      ];
+
+      await generator.generateBashScript(packages, outputPath);
+
+      const content = await fs.readFile(outputPath, 'utf-8');
+      expect(content).toContain('export GOPROXY="file://$SCRIPT_DIR/$PACKAGE_DIR/cache/download"');
+      expect(content).toContain('export GOFLAGS=-mod=mod');
+      expect(content).toContain('(cd "$GO_PROJECT_DIR" && go mod download)');
+      expect(content).toContain('    install_go_packages');
+    });
+
     it('YUM 패키지 설치 명령을 포함해야 함', async () => {
       const outputPath = path.join(tempDir, 'install.sh');
       const packages: PackageInfo[] = [
@@ -119,6 +148,28 @@ describe('ScriptGenerator', () => {
       expect(content).toContain('load');
     });
 
+    it('OCI 세션 번들은 docker-images.oci.tar를, 번들을 만들지 않은 실행은 이미지별 OCI 파일을 로드해야 함', async () => {
+      const outputPath = path.join(tempDir, 'install.sh');
+      const packages: PackageInfo[] = [
+        { name: 'nginx', version: '1.27', type: 'docker' },
+        { name: 'redis', version: '7', type: 'docker' },
+      ];
+
+      await generator.generateBashScript(packages, outputPath, { dockerOutputFormat: 'oci-layout' });
+      const bundled = await fs.readFile(outputPath, 'utf-8');
+      expect(bundled).toContain('docker load -i "$PACKAGE_DIR/docker-images.oci.tar"');
+
+      // 재개 실행에서 남은 이미지가 하나뿐이면 러너는 번들 없이 이미지별로 받는다
+      await generator.generateBashScript(packages, outputPath, {
+        dockerOutputFormat: 'oci-layout',
+        dockerSessionBundle: false,
+      });
+      const unbundled = await fs.readFile(outputPath, 'utf-8');
+      expect(unbundled).not.toContain('docker-images');
+      expect(unbundled).toContain('docker load -i "$PACKAGE_DIR/nginx_1.27.oci.tar"');
+      expect(unbundled).toContain('docker load -i "$PACKAGE_DIR/redis_7.oci.tar"');
+    });
+
     it('헤더 포함 옵션이 작동해야 함', async () => {
       const outputPath = path.join(tempDir, 'install.sh');
       const packages: PackageInfo[] = [];
@@ -209,6 +260,33 @@ describe('ScriptGenerator', () => {
       );
     });
 
+    it('pom이 있는 Maven 아티팩트는 사용자 .m2 저장소에 복사해야 함', async () => {
+      const outputPath = path.join(tempDir, 'install.ps1');
+      const packages: PackageInfo[] = [
+        { name: 'org.apache.maven.plugins:maven-compiler-plugin', version: '3.11.0', type: 'maven' },
+      ];
+
+      await generator.generatePowerShellScript(packages, outputPath);
+
+      const content = await fs.readFile(outputPath, 'utf-8');
+      expect(content).toContain('Join-Path $env:USERPROFILE ".m2\\repository"');
+      expect(content).toContain('Get-ChildItem -Path $PackageDir -Filter "*.pom" -File -Recurse');
+    });
+
+    it('Go 모듈은 GOPROXY 파일 트리를 가리키도록 환경을 설정해야 함', async () => {
+      const outputPath = path.join(tempDir, 'install.ps1');
+      const packages: PackageInfo[] = [
+        { name: 'golang.org/x/text', version: 'v0.14.0', type: 'go' },
+      ];
+
+      await generator.generatePowerShellScript(packages, outputPath);
+
+      const content = await fs.readFile(outputPath, 'utf-8');
+      expect(content).toContain("Join-Path -Path $PackageDir -ChildPath 'cache/download'");
+      expect(content).toContain('$env:GOFLAGS = "-mod=mod"');
+      expect(content).toContain('Install-GoPackages');
+    });
+
     it('Docker 이미지 로드 명령을 포함해야 함', async () => {
       const outputPath = path.join(tempDir, 'install.ps1');
       const packages: PackageInfo[] = [
@@ -221,6 +299,22 @@ describe('ScriptGenerator', () => {
       expect(content).toContain('docker');
     });
 
+    it('OCI 세션 번들은 docker-images.oci.tar를 로드해야 함', async () => {
+      const outputPath = path.join(tempDir, 'install.ps1');
+      const packages: PackageInfo[] = [
+        { name: 'nginx', version: '1.27', type: 'docker' },
+        { name: 'redis', version: '7', type: 'docker' },
+      ];
+
+      await generator.generatePowerShellScript(packages, outputPath, {
+        dockerOutputFormat: 'oci-layout',
+        dockerSessionBundle: true,
+      });
+
+      const content = await fs.readFile(outputPath, 'utf-8');
+      expect(content).toContain("Join-Path -Path $PackageDir -ChildPath 'docker-images.oci.tar'");
+    });
+
     it('헤더 포함 옵션이 작동해야 함', async () => {
       const outputPath = path.join(tempDir, 'install.ps1');
       const packages: PackageInfo[] = [];
@@ -312,6 +406,89 @@ describe('ScriptGenerator', () => {
       expect(content).toContain('pip install');
       expect(content).toContain('numpy');
     });
+
+    it('pip 잠금 파일이 있으면 pip 패키지는 --require-hashes로 일괄 설치해야 함', async () => {
+      const packages: PackageInfo[] = [
+        { name: 'requests', version: '2.28.0', type: 'pip' },
+        { name: 'numpy', version: '1.23.0', type: 'conda' },
+      ];
+
+      const [bash, powershell] = await generator.generateAllScripts(packages, tempDir, {
+        pipLockFile: 'requirements.lock.txt',
+      });
+
+      expect(bash.content).toContain(
+        'pip install --require-hashes --no-index "${PIP_FIND_LINK_ARGS[@]}" -r "$SCRIPT_DIR/requirements.lock.txt"'
+      );
+      expect(bash.content).not.toContain('requests==2.28.0 설치 중');
+      expect(bash.content).toContain('numpy==1.23.0');
+      expect(powershell.content).toContain("-ChildPath 'requirements.lock.txt'");
+    });
+
+    it('npm 레지스트리 미러가 있으면 npm ci --registry로 설치해야 함', async () => {
+      const packages: PackageInfo[] = [{ name: 'ms', version: '2.1.3', type: 'npm' }];
+
+      const [bash, powershell] = await generator.generateAllScripts(packages, tempDir, {
+        npmRegistryDir: 'npm-registry',
+      });
+
+      expect(bash.content).toContain('NPM_REGISTRY_DIR="$SCRIPT_DIR/$PACKAGE_DIR/npm-registry"');
+      expect(bash.content).toContain('depssmuggler serve "$NPM_REGISTRY_DIR" --port "$NPM_REGISTRY_PORT" &');
+      expect(bash.content).toContain('npm ci --registry "$NPM_REGISTRY_URL"');
+      expect(bash.content).toContain('    install_npm_packages');
+      expect(powershell.content).toContain("-ChildPath 'npm-registry'");
+      expect(powershell.content).toContain('npm ci --registry $NpmRegistryUrl');
+      expect(powershell.content).toContain('\r\nInstall-NpmPackages\r\n');
+    });
+
+    it('Cargo vendor 디렉토리가 있으면 crates-io를 directory 소스로 대체해야 함', async () => {
+      const packages: PackageInfo[] = [{ name: 'serde', version: '1.0.193', type: 'cargo' }];
+
+      const [bash, powershell] = await generator.generateAllScripts(packages, tempDir, {
+        cargoVendorDir: 'vendor',
+      });
+
+      expect(bash.content).toContain('CARGO_SOURCE_DIR="$SCRIPT_DIR/$PACKAGE_DIR/vendor"');
+      expect(bash.content).toContain('replace-with = "depssmuggler-offline"');
+      expect(bash.content).toContain('directory = "$CARGO_SOURCE_DIR"');
+      expect(bash.content).toContain('    install_cargo_packages');
+      expect(powershell.content).toContain("-ChildPath 'vendor'");
+      expect(powershell.content).toContain('\r\nInstall-CargoPackages\r\n');
+    });
+
+    it('Cargo local-registry가 있으면 local-registry 소스로 대체해야 함', async () => {
+      const packages: PackageInfo[] = [{ name: 'serde', version: '1.0.193', type: 'cargo' }];
+
+      const [bash, powershell] = await generator.generateAllScripts(packages, tempDir, {
+        cargoRegistryDir: 'cargo-registry',
+      });
+
+      expect(bash.content).toContain('local-registry = "$CARGO_SOURCE_DIR"');
+      expect(bash.content).not.toContain('directory = "$CARGO_SOURCE_DIR"');
+      expect(powershell.content).toContain('"local-registry = `"$CargoSourceDir`""');
+    });
+
+    it('Cargo 소스 디렉토리가 없으면 source replacement를 생성하지 않아야 함', async () => {
+      const packages: PackageInfo[] = [{ name: 'serde', version: '1.0.193', type: 'cargo' }];
+
+      const [bash] = await generator.generateAllScripts(packages, tempDir);
+
+      expect(bash.content).not.toContain('install_cargo_packages');
+    });
+
+    it('NuGet 패키지가 있으면 로컬 피드를 소스로 등록하고 restore해야 함', async () => {
+      const packages: PackageInfo[] = [{ name: 'Newtonsoft.Json', version: '13.0.3', type: 'nuget' }];
+
+      const [bash, powershell] = await generator.generateAllScripts(packages, tempDir);
+
+      expect(bash.content).toContain('NUGET_SOURCE_DIR="$SCRIPT_DIR/$PACKAGE_DIR/nuget-feed"');
+      expect(bash.content).toContain('dotnet nuget add source "$NUGET_SOURCE_DIR" --name depssmuggler-offline');
+      expect(bash.content).toContain('(cd "$NUGET_PROJECT_DIR" && dotnet restore --source "$NUGET_SOURCE_DIR")');
+      expect(bash.content).toContain('    install_nuget_packages');
+      expect(powershell.content).toContain("-ChildPath 'nuget-feed'");
+      expect(powershell.content).toContain('dotnet restore --source $NugetSourceDir');
+      expect(powershell.content).toContain('\r\nInstall-NugetPackages\r\n');
+    });
   });
 
   describe('아키텍처 처리', () => {
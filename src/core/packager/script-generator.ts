@@ -5,16 +5,36 @@
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { PackageInfo } from '../../types';
+import { DockerOutputFormat, PackageInfo } from '../../types';
 import logger from '../../utils/logger';
+import { CARGO_CONSTANTS } from '../constants/cargo';
+import { GO_CONSTANTS } from '../constants/go';
+import { NUGET_CONSTANTS } from '../constants/nuget';
+import {
+  getDockerArchiveExtension,
+  getDockerSessionBundleFileName,
+  shouldUseDockerSessionBundle,
+} from '../downloaders/docker-session-bundle';
 import { stripLeadingDotSlash, toUnixPath, getWriteOptions } from '../shared/path-utils';
 
 export interface ScriptOptions {
   includeHeader?: boolean;
   includeErrorHandling?: boolean;
   packageDir?: string; // 패키지 디렉토리 경로 (기본: ./packages)
+  pipLockFile?: string; // 스크립트 기준 pip 잠금 파일 경로 (지정 시 --require-hashes로 일괄 설치)
+  npmRegistryDir?: string; // 패키지 디렉토리 기준 npm 레지스트리 미러 경로 (지정 시 npm ci --registry로 설치)
+  cargoVendorDir?: string; // 패키지 디렉토리 기준 cargo vendor 디렉토리 경로 (지정 시 source replacement 설정)
+  cargoRegistryDir?: string; // 패키지 디렉토리 기준 cargo local-registry 경로 (지정 시 source replacement 설정)
+  dockerOutputFormat?: DockerOutputFormat; // 다운로드한 Docker 이미지 출력 형식 (기본: docker-archive)
+  dockerSessionBundle?: boolean; // 다운로드가 Docker 세션 번들을 만들었는지 (미지정 시 이미지 수로 판단)
 }
 
+/** source replacement로 추가하는 Cargo 소스 이름 */
+const CARGO_REPLACEMENT_SOURCE = CARGO_CONSTANTS.REPLACEMENT_SOURCE;
+
+/** dotnet nuget add source로 등록하는 로컬 피드 이름 */
+const NUGET_SOURCE_NAME = 'depssmuggler-offline';
+
 export interface GeneratedScript {
   path: string;
   content: string;
@@ -37,6 +57,12 @@ export class ScriptGenerator {
       includeHeader = true,
       includeErrorHandling = true,
       packageDir = './packages',
+      pipLockFile,
+      npmRegistryDir,
+      cargoVendorDir,
+      cargoRegistryDir,
+      dockerOutputFormat = 'docker-archive',
+      dockerSessionBundle,
     } = options;
 
     const lines: string[] = [];
@@ -121,7 +147,17 @@ export class ScriptGenerator {
       lines.push('    done < <(find "$PACKAGE_DIR" -type d -print0)');
       lines.push('');
 
-      for (const pkg of pipPackages) {
+      if (pipLockFile && packagesByType.has('pip')) {
+        lines.push('    # pip 패키지 설치 (잠금 파일 해시 검증)');
+        lines.push(`    log_info "${pipLockFile} 기준으로 설치 중..."`);
+        lines.push(`    pip install --require-hashes --no-index "\${PIP_FIND_LINK_ARGS[@]}" -r "$SCRIPT_DIR/${pipLockFile}" || {`);
+        lines.push('        log_error "pip 잠금 파일 설치 실패"');
+        lines.push('        return 1');
+        lines.push('    }');
+        lines.push('');
+      }
+
+      for (const pkg of this.getUnlockedPythonPackages(pipPackages, pipLockFile)) {
         lines.push(`    # ${pkg.name} 설치`);
         lines.push(`    log_info "${pkg.name}==${pkg.version} 설치 중..."`);
         lines.push(`    pip install --no-index "\${PIP_FIND_LINK_ARGS[@]}" ${pkg.name}==${pkg.version} || {`);
@@ -152,8 +188,21 @@ export class ScriptGenerator {
       lines.push('        return 1');
       lines.push('    fi');
       lines.push('');
-      lines.push('    # 로컬 저장소에 설치');
+      lines.push('    # pom이 함께 있는 아티팩트(플러그인, parent/BOM 포함)는 .m2 레이아웃 그대로 로컬 저장소에 복사');
+      lines.push('    local maven_repo="${MAVEN_REPO_LOCAL:-$HOME/.m2/repository}"');
+      lines.push('    while IFS= read -r -d \'\' pom; do');
+      lines.push('        local artifact_dir="$(dirname "$pom")"');
+      lines.push('        local repo_dir="$maven_repo/${artifact_dir#"$PACKAGE_DIR"/}"');
+      lines.push('        mkdir -p "$repo_dir" && cp -f "$artifact_dir"/* "$repo_dir"/');
+      lines.push(
+        '    done < <(find "$PACKAGE_DIR" -type f -name \'*.pom\' -print0)',
+      );
+      lines.push('');
+      lines.push('    # pom 없이 받은 JAR는 로컬 저장소에 설치');
       lines.push('    while IFS= read -r -d \'\' jar; do');
+      lines.push('        if compgen -G "$(dirname "$jar")/*.pom" > /dev/null; then');
+      lines.push('            continue');
+      lines.push('        fi');
       lines.push('        log_info "$(basename "$jar") 설치 중..."');
       lines.push('        mvn install:install-file -Dfile="$jar" -DgeneratePom=true || {');
       lines.push('            log_warn "$(basename "$jar") 설치 실패"');
@@ -167,6 +216,164 @@ export class ScriptGenerator {
       lines.push('');
     }
 
+    // npm 패키지 설치 (오프라인 레지스트리 미러)
+    const useNpmRegistry = Boolean(npmRegistryDir) && packagesByType.has('npm');
+    if (useNpmRegistry) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# npm 패키지 설치 (오프라인 레지스트리)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('install_npm_packages() {');
+      lines.push('    log_info "npm 오프라인 레지스트리 준비 중..."');
+      lines.push('');
+      lines.push('    # npm 설치 확인');
+      lines.push('    if ! command -v npm &> /dev/null; then');
+      lines.push('        log_error "npm이 설치되어 있지 않습니다."');
+      lines.push('        return 1');
+      lines.push('    fi');
+      lines.push('');
+      lines.push(`    NPM_REGISTRY_DIR="$SCRIPT_DIR/$PACKAGE_DIR/${npmRegistryDir}"`);
+      lines.push('    NPM_REGISTRY_PORT="${NPM_REGISTRY_PORT:-4873}"');
+      lines.push('    NPM_REGISTRY_URL="http://localhost:$NPM_REGISTRY_PORT"');
+      lines.push('');
+      lines.push('    # NPM_PROJECT_DIR이 지정되면 레지스트리를 띄워 해당 프로젝트를 npm ci로 설치');
+      lines.push('    if [[ -n "${NPM_PROJECT_DIR:-}" ]] && command -v depssmuggler &> /dev/null; then');
+      lines.push('        depssmuggler serve "$NPM_REGISTRY_DIR" --port "$NPM_REGISTRY_PORT" &');
+      lines.push('        NPM_REGISTRY_PID=$!');
+      lines.push('        sleep 1');
+      lines.push('        (cd "$NPM_PROJECT_DIR" && npm ci --registry "$NPM_REGISTRY_URL" --no-audit --no-fund) || {');
+      lines.push('            kill "$NPM_REGISTRY_PID"');
+      lines.push('            log_error "npm ci 실패"');
+      lines.push('            return 1');
+      lines.push('        }');
+      lines.push('        kill "$NPM_REGISTRY_PID"');
+      lines.push('    else');
+      lines.push('        log_info "레지스트리 실행: depssmuggler serve \\"$NPM_REGISTRY_DIR\\" --port $NPM_REGISTRY_PORT"');
+      lines.push('        log_info "프로젝트 디렉토리에서 설치: npm ci --registry $NPM_REGISTRY_URL"');
+      lines.push('    fi');
+      lines.push('');
+      lines.push('    log_info "npm 패키지 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Go 모듈 (GOPROXY 파일 트리)
+    if (packagesByType.has('go')) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# Go 모듈 설치 (GOPROXY 파일 트리)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('install_go_packages() {');
+      lines.push('    log_info "Go 모듈 프록시 준비 중..."');
+      lines.push('');
+      lines.push('    # Go 설치 확인');
+      lines.push('    if ! command -v go &> /dev/null; then');
+      lines.push('        log_error "Go가 설치되어 있지 않습니다."');
+      lines.push('        return 1');
+      lines.push('    fi');
+      lines.push('');
+      lines.push(`    export GOPROXY="file://$SCRIPT_DIR/$PACKAGE_DIR/${GO_CONSTANTS.PROXY_TREE_DIR}"`);
+      lines.push('    export GOFLAGS=-mod=mod');
+      lines.push('    export GOSUMDB=off');
+      lines.push('');
+      lines.push('    # GO_PROJECT_DIR이 지정되면 해당 프로젝트의 모듈을 모듈 캐시에 채움');
+      lines.push('    if [[ -n "${GO_PROJECT_DIR:-}" ]]; then');
+      lines.push('        (cd "$GO_PROJECT_DIR" && go mod download) || {');
+      lines.push('            log_error "go mod download 실패"');
+      lines.push('            return 1');
+      lines.push('        }');
+      lines.push('    else');
+      lines.push('        log_info "프로젝트 디렉토리에서 빌드: GOPROXY=$GOPROXY GOFLAGS=-mod=mod GOSUMDB=off go build ./..."');
+      lines.push('    fi');
+      lines.push('');
+      lines.push('    log_info "Go 모듈 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Cargo crate (source replacement)
+    const cargoSource = this.getCargoSource(packagesByType, cargoVendorDir, cargoRegistryDir);
+    if (cargoSource) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# Cargo crate 설치 (source replacement)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('install_cargo_packages() {');
+      lines.push('    log_info "Cargo 오프라인 소스 설정 중..."');
+      lines.push('');
+      lines.push(`    CARGO_SOURCE_DIR="$SCRIPT_DIR/$PACKAGE_DIR/${cargoSource.dir}"`);
+      lines.push('');
+      lines.push('    # CARGO_PROJECT_DIR이 지정되면 프로젝트의 .cargo/config.toml, 아니면 CARGO_HOME의 config.toml에 추가');
+      lines.push('    if [[ -n "${CARGO_PROJECT_DIR:-}" ]]; then');
+      lines.push('        CARGO_CONFIG="$CARGO_PROJECT_DIR/.cargo/config.toml"');
+      lines.push('    else');
+      lines.push('        CARGO_CONFIG="${CARGO_HOME:-$HOME/.cargo}/config.toml"');
+      lines.push('    fi');
+      lines.push('');
+      lines.push('    if [[ -f "$CARGO_CONFIG" ]] && grep -q \'^\\[source\\.crates-io\\]\' "$CARGO_CONFIG"; then');
+      lines.push('        log_warn "$CARGO_CONFIG에 이미 [source.crates-io] 설정이 있어 변경하지 않습니다."');
+      lines.push(`        log_warn "crates-io를 ${cargoSource.key} = \\"$CARGO_SOURCE_DIR\\" 소스로 대체하도록 직접 수정하세요."`);
+      lines.push('        return 0');
+      lines.push('    fi');
+      lines.push('');
+      lines.push('    mkdir -p "$(dirname "$CARGO_CONFIG")"');
+      lines.push('    cat >> "$CARGO_CONFIG" <<EOF');
+      lines.push('');
+      lines.push('[source.crates-io]');
+      lines.push(`replace-with = "${CARGO_REPLACEMENT_SOURCE}"`);
+      lines.push('');
+      lines.push(`[source.${CARGO_REPLACEMENT_SOURCE}]`);
+      lines.push(`${cargoSource.key} = "$CARGO_SOURCE_DIR"`);
+      lines.push('EOF');
+      lines.push('');
+      lines.push('    log_info "source replacement 추가: $CARGO_CONFIG"');
+      lines.push('    log_info "프로젝트 디렉토리에서 빌드: cargo build --offline"');
+      lines.push('    log_info "Cargo crate 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
+    // NuGet 패키지 (로컬 피드)
+    if (packagesByType.has('nuget')) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# NuGet 패키지 설치 (로컬 피드)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('install_nuget_packages() {');
+      lines.push('    log_info "NuGet 로컬 피드 등록 중..."');
+      lines.push('');
+      lines.push('    # dotnet 설치 확인');
+      lines.push('    if ! command -v dotnet &> /dev/null; then');
+      lines.push('        log_error ".NET SDK(dotnet)가 설치되어 있지 않습니다."');
+      lines.push('        return 1');
+      lines.push('    fi');
+      lines.push('');
+      lines.push(`    NUGET_SOURCE_DIR="$SCRIPT_DIR/$PACKAGE_DIR/${NUGET_CONSTANTS.FEED_DIR}"`);
+      lines.push('');
+      lines.push(`    if dotnet nuget list source | grep -q "${NUGET_SOURCE_NAME}"; then`);
+      lines.push(`        log_warn "NuGet 소스 ${NUGET_SOURCE_NAME}이 이미 등록되어 있어 변경하지 않습니다."`);
+      lines.push('    else');
+      lines.push(`        dotnet nuget add source "$NUGET_SOURCE_DIR" --name ${NUGET_SOURCE_NAME} || {`);
+      lines.push('            log_error "NuGet 소스 등록 실패"');
+      lines.push('            return 1');
+      lines.push('        }');
+      lines.push('    fi');
+      lines.push('');
+      lines.push('    # NUGET_PROJECT_DIR이 지정되면 로컬 피드만 사용해 프로젝트를 restore');
+      lines.push('    if [[ -n "${NUGET_PROJECT_DIR:-}" ]]; then');
+      lines.push('        (cd "$NUGET_PROJECT_DIR" && dotnet restore --source "$NUGET_SOURCE_DIR") || {');
+      lines.push('            log_error "dotnet restore 실패"');
+      lines.push('            return 1');
+      lines.push('        }');
+      lines.push('    else');
+      lines.push('        log_info "프로젝트 디렉토리에서 복원: dotnet restore --source \\"$NUGET_SOURCE_DIR\\""');
+      lines.push('    fi');
+      lines.push('');
+      lines.push('    log_info "NuGet 패키지 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
     // YUM 패키지 설치
     if (packagesByType.has('yum')) {
       const yumPackages = packagesByType.get('yum') || [];
@@ -223,14 +430,23 @@ export class ScriptGenerator {
       lines.push('    fi');
       lines.push('');
 
-      for (const pkg of dockerPackages) {
-        const imageName = pkg.name.replace(/\//g, '_');
-        lines.push(`    # ${pkg.name}:${pkg.version} 로드`);
-        lines.push(`    log_info "${pkg.name}:${pkg.version} 로드 중..."`);
-        lines.push(`    docker load -i "$PACKAGE_DIR/${imageName}_${pkg.version}.tar" || {`);
-        lines.push(`        log_warn "${pkg.name}:${pkg.version} 로드 실패"`);
+      if (dockerSessionBundle ?? shouldUseDockerSessionBundle(dockerPackages.length)) {
+        // 여러 이미지는 레이어를 공유하는 세션 번들 하나로 로드
+        const bundleFileName = getDockerSessionBundleFileName(dockerOutputFormat);
+        lines.push(`    docker load -i "$PACKAGE_DIR/${bundleFileName}" || {`);
+        lines.push('        log_warn "Docker 이미지 번들 로드 실패"');
         lines.push('    }');
         lines.push('');
+      } else {
+        for (const pkg of dockerPackages) {
+          const imageName = pkg.name.replace(/\//g, '_');
+          lines.push(`    # ${pkg.name}:${pkg.version} 로드`);
+          lines.push(`    log_info "${pkg.name}:${pkg.version} 로드 중..."`);
+          lines.push(`    docker load -i "$PACKAGE_DIR/${imageName}_${pkg.version}${getDockerArchiveExtension(dockerOutputFormat)}" || {`);
+          lines.push(`        log_warn "${pkg.name}:${pkg.version} 로드 실패"`);
+          lines.push('    }');
+          lines.push('');
+        }
       }
 
       lines.push('    log_info "Docker 이미지 로드 완료"');
@@ -258,6 +474,22 @@ export class ScriptGenerator {
       lines.push('    install_maven_packages');
       lines.push('    echo ""');
     }
+    if (useNpmRegistry) {
+      lines.push('    install_npm_packages');
+      lines.push('    echo ""');
+    }
+    if (packagesByType.has('go')) {
+      lines.push('    install_go_packages');
+      lines.push('    echo ""');
+    }
+    if (cargoSource) {
+      lines.push('    install_cargo_packages');
+      lines.push('    echo ""');
+    }
+    if (packagesByType.has('nuget')) {
+      lines.push('    install_nuget_packages');
+      lines.push('    echo ""');
+    }
     if (packagesByType.has('yum')) {
       lines.push('    install_yum_packages');
       lines.push('    echo ""');
@@ -298,6 +530,12 @@ export class ScriptGenerator {
       includeHeader = true,
       includeErrorHandling = true,
       packageDir = './packages',
+      pipLockFile,
+      npmRegistryDir,
+      cargoVendorDir,
+      cargoRegistryDir,
+      dockerOutputFormat = 'docker-archive',
+      dockerSessionBundle,
     } = options;
 
     // 크로스 플랫폼 경로 처리: 입력 경로를 정규화하고 선행 ./ 제거
@@ -374,7 +612,18 @@ export class ScriptGenerator {
       lines.push('    )');
       lines.push('');
 
-      for (const pkg of pipPackages) {
+      if (pipLockFile && packagesByType.has('pip')) {
+        lines.push('    # pip 패키지 설치 (잠금 파일 해시 검증)');
+        lines.push(`    Write-Info "${pipLockFile} 기준으로 설치 중..."`);
+        lines.push(`    pip install --require-hashes --no-index @PipFindLinkArgs -r (Join-Path -Path $ScriptDir -ChildPath '${pipLockFile}')`);
+        lines.push('    if ($LASTEXITCODE -ne 0) {');
+        lines.push('        Write-Err "pip 잠금 파일 설치 실패"');
+        lines.push('        return');
+        lines.push('    }');
+        lines.push('');
+      }
+
+      for (const pkg of this.getUnlockedPythonPackages(pipPackages, pipLockFile)) {
         lines.push(`    # ${pkg.name} 설치`);
         lines.push(`    Write-Info "${pkg.name}==${pkg.version} 설치 중..."`);
         lines.push('    try {');
@@ -405,10 +654,20 @@ export class ScriptGenerator {
       lines.push('        return');
       lines.push('    }');
       lines.push('');
-      lines.push('    # JAR 파일 설치');
+      lines.push('    # pom이 함께 있는 아티팩트(플러그인, parent/BOM 포함)는 .m2 레이아웃 그대로 로컬 저장소에 복사');
+      lines.push('    $MavenRepo = if ($env:MAVEN_REPO_LOCAL) { $env:MAVEN_REPO_LOCAL } else { Join-Path $env:USERPROFILE ".m2\\repository" }');
+      lines.push('    $PackageRoot = (Resolve-Path $PackageDir).Path');
+      lines.push('    Get-ChildItem -Path $PackageDir -Filter "*.pom" -File -Recurse | ForEach-Object {');
+      lines.push('        $RepoDir = Join-Path $MavenRepo $_.DirectoryName.Substring($PackageRoot.Length).TrimStart("\\", "/")');
+      lines.push('        New-Item -ItemType Directory -Path $RepoDir -Force | Out-Null');
+      lines.push('        Copy-Item -Path (Join-Path $_.DirectoryName "*") -Destination $RepoDir -Force');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    # pom 없이 받은 JAR 파일 설치');
       lines.push(
         '    Get-ChildItem -Path $PackageDir -Filter "*.jar" -File -Recurse | ForEach-Object {',
       );
+      lines.push('        if (Get-ChildItem -Path $_.DirectoryName -Filter "*.pom" -File) { return }');
       lines.push('        Write-Info "$($_.Name) 설치 중..."');
       lines.push('        try {');
       lines.push('            mvn install:install-file -Dfile="$($_.FullName)" -DgeneratePom=true');
@@ -422,6 +681,177 @@ export class ScriptGenerator {
       lines.push('');
     }
 
+    // npm 패키지 설치 (오프라인 레지스트리 미러)
+    const useNpmRegistry = Boolean(npmRegistryDir) && packagesByType.has('npm');
+    if (useNpmRegistry) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# npm 패키지 설치 (오프라인 레지스트리)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('function Install-NpmPackages {');
+      lines.push('    Write-Info "npm 오프라인 레지스트리 준비 중..."');
+      lines.push('');
+      lines.push('    # npm 설치 확인');
+      lines.push('    if (-not (Get-Command npm -ErrorAction SilentlyContinue)) {');
+      lines.push('        Write-Err "npm이 설치되어 있지 않습니다."');
+      lines.push('        return');
+      lines.push('    }');
+      lines.push('');
+      lines.push(`    $NpmRegistryDir = Join-Path -Path $PackageDir -ChildPath '${npmRegistryDir}'`);
+      lines.push('    $NpmRegistryPort = if ($env:NPM_REGISTRY_PORT) { $env:NPM_REGISTRY_PORT } else { "4873" }');
+      lines.push('    $NpmRegistryUrl = "http://localhost:$NpmRegistryPort"');
+      lines.push('');
+      lines.push('    # NPM_PROJECT_DIR이 지정되면 레지스트리를 띄워 해당 프로젝트를 npm ci로 설치');
+      lines.push('    if ($env:NPM_PROJECT_DIR -and (Get-Command depssmuggler -ErrorAction SilentlyContinue)) {');
+      lines.push('        $Registry = Start-Process -FilePath depssmuggler -ArgumentList @("serve", $NpmRegistryDir, "--port", $NpmRegistryPort) -PassThru -NoNewWindow');
+      lines.push('        Start-Sleep -Seconds 1');
+      lines.push('        Push-Location $env:NPM_PROJECT_DIR');
+      lines.push('        npm ci --registry $NpmRegistryUrl --no-audit --no-fund');
+      lines.push('        $NpmExitCode = $LASTEXITCODE');
+      lines.push('        Pop-Location');
+      lines.push('        Stop-Process -Id $Registry.Id');
+      lines.push('        if ($NpmExitCode -ne 0) {');
+      lines.push('            Write-Err "npm ci 실패"');
+      lines.push('            return');
+      lines.push('        }');
+      lines.push('    } else {');
+      lines.push('        Write-Info "레지스트리 실행: depssmuggler serve `"$NpmRegistryDir`" --port $NpmRegistryPort"');
+      lines.push('        Write-Info "프로젝트 디렉토리에서 설치: npm ci --registry $NpmRegistryUrl"');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    Write-Info "npm 패키지 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Go 모듈 (GOPROXY 파일 트리)
+    if (packagesByType.has('go')) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# Go 모듈 설치 (GOPROXY 파일 트리)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('function Install-GoPackages {');
+      lines.push('    Write-Info "Go 모듈 프록시 준비 중..."');
+      lines.push('');
+      lines.push('    # Go 설치 확인');
+      lines.push('    if (-not (Get-Command go -ErrorAction SilentlyContinue)) {');
+      lines.push('        Write-Err "Go가 설치되어 있지 않습니다."');
+      lines.push('        return');
+      lines.push('    }');
+      lines.push('');
+      lines.push(`    $GoProxyDir = (Resolve-Path (Join-Path -Path $PackageDir -ChildPath '${GO_CONSTANTS.PROXY_TREE_DIR}')).Path`);
+      lines.push('    $env:GOPROXY = "file:///" + ($GoProxyDir -replace "\\\\", "/").TrimStart("/")');
+      lines.push('    $env:GOFLAGS = "-mod=mod"');
+      lines.push('    $env:GOSUMDB = "off"');
+      lines.push('');
+      lines.push('    # GO_PROJECT_DIR이 지정되면 해당 프로젝트의 모듈을 모듈 캐시에 채움');
+      lines.push('    if ($env:GO_PROJECT_DIR) {');
+      lines.push('        Push-Location $env:GO_PROJECT_DIR');
+      lines.push('        go mod download');
+      lines.push('        $GoExitCode = $LASTEXITCODE');
+      lines.push('        Pop-Location');
+      lines.push('        if ($GoExitCode -ne 0) {');
+      lines.push('            Write-Err "go mod download 실패"');
+      lines.push('            return');
+      lines.push('        }');
+      lines.push('    } else {');
+      lines.push('        Write-Info "프로젝트 디렉토리에서 빌드: `$env:GOPROXY=`"$($env:GOPROXY)`"; `$env:GOFLAGS=`"-mod=mod`"; `$env:GOSUMDB=`"off`"; go build ./..."');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    Write-Info "Go 모듈 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Cargo crate (source replacement)
+    const cargoSource = this.getCargoSource(packagesByType, cargoVendorDir, cargoRegistryDir);
+    if (cargoSource) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# Cargo crate 설치 (source replacement)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('function Install-CargoPackages {');
+      lines.push('    Write-Info "Cargo 오프라인 소스 설정 중..."');
+      lines.push('');
+      lines.push(`    $CargoSourceDir = (Resolve-Path (Join-Path -Path $PackageDir -ChildPath '${cargoSource.dir}')).Path -replace "\\\\", "/"`);
+      lines.push('');
+      lines.push('    # CARGO_PROJECT_DIR이 지정되면 프로젝트의 .cargo/config.toml, 아니면 CARGO_HOME의 config.toml에 추가');
+      lines.push('    if ($env:CARGO_PROJECT_DIR) {');
+      lines.push("        $CargoConfig = Join-Path -Path $env:CARGO_PROJECT_DIR -ChildPath '.cargo\\config.toml'");
+      lines.push('    } else {');
+      lines.push("        $CargoHome = if ($env:CARGO_HOME) { $env:CARGO_HOME } else { Join-Path -Path $HOME -ChildPath '.cargo' }");
+      lines.push("        $CargoConfig = Join-Path -Path $CargoHome -ChildPath 'config.toml'");
+      lines.push('    }');
+      lines.push('');
+      lines.push("    if ((Test-Path $CargoConfig) -and (Select-String -Path $CargoConfig -Pattern '^\\[source\\.crates-io\\]' -Quiet)) {");
+      lines.push('        Write-Warn "$CargoConfig에 이미 [source.crates-io] 설정이 있어 변경하지 않습니다."');
+      lines.push(`        Write-Warn "crates-io를 ${cargoSource.key} = \`"$CargoSourceDir\`" 소스로 대체하도록 직접 수정하세요."`);
+      lines.push('        return');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    New-Item -ItemType Directory -Force -Path (Split-Path -Parent $CargoConfig) | Out-Null');
+      lines.push('    Add-Content -Path $CargoConfig -Value @(');
+      lines.push("        '',");
+      lines.push("        '[source.crates-io]',");
+      lines.push(`        'replace-with = "${CARGO_REPLACEMENT_SOURCE}"',`);
+      lines.push("        '',");
+      lines.push(`        '[source.${CARGO_REPLACEMENT_SOURCE}]',`);
+      lines.push(`        "${cargoSource.key} = \`"$CargoSourceDir\`""`);
+      lines.push('    )');
+      lines.push('');
+      lines.push('    Write-Info "source replacement 추가: $CargoConfig"');
+      lines.push('    Write-Info "프로젝트 디렉토리에서 빌드: cargo build --offline"');
+      lines.push('    Write-Info "Cargo crate 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
+    // NuGet 패키지 (로컬 피드)
+    if (packagesByType.has('nuget')) {
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('# NuGet 패키지 설치 (로컬 피드)');
+      lines.push('#-------------------------------------------------------------------------------');
+      lines.push('');
+      lines.push('function Install-NugetPackages {');
+      lines.push('    Write-Info "NuGet 로컬 피드 등록 중..."');
+      lines.push('');
+      lines.push('    # dotnet 설치 확인');
+      lines.push('    if (-not (Get-Command dotnet -ErrorAction SilentlyContinue)) {');
+      lines.push('        Write-Err ".NET SDK(dotnet)가 설치되어 있지 않습니다."');
+      lines.push('        return');
+      lines.push('    }');
+      lines.push('');
+      lines.push(`    $NugetSourceDir = (Resolve-Path (Join-Path -Path $PackageDir -ChildPath '${NUGET_CONSTANTS.FEED_DIR}')).Path`);
+      lines.push('');
+      lines.push(`    if (dotnet nuget list source | Select-String -Pattern '${NUGET_SOURCE_NAME}' -Quiet) {`);
+      lines.push(`        Write-Warn "NuGet 소스 ${NUGET_SOURCE_NAME}이 이미 등록되어 있어 변경하지 않습니다."`);
+      lines.push('    } else {');
+      lines.push(`        dotnet nuget add source $NugetSourceDir --name ${NUGET_SOURCE_NAME}`);
+      lines.push('        if ($LASTEXITCODE -ne 0) {');
+      lines.push('            Write-Err "NuGet 소스 등록 실패"');
+      lines.push('            return');
+      lines.push('        }');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    # NUGET_PROJECT_DIR이 지정되면 로컬 피드만 사용해 프로젝트를 restore');
+      lines.push('    if ($env:NUGET_PROJECT_DIR) {');
+      lines.push('        Push-Location $env:NUGET_PROJECT_DIR');
+      lines.push('        dotnet restore --source $NugetSourceDir');
+      lines.push('        $NugetExitCode = $LASTEXITCODE');
+      lines.push('        Pop-Location');
+      lines.push('        if ($NugetExitCode -ne 0) {');
+      lines.push('            Write-Err "dotnet restore 실패"');
+      lines.push('            return');
+      lines.push('        }');
+      lines.push('    } else {');
+      lines.push('        Write-Info "프로젝트 디렉토리에서 복원: dotnet restore --source `"$NugetSourceDir`""');
+      lines.push('    }');
+      lines.push('');
+      lines.push('    Write-Info "NuGet 패키지 설치 완료"');
+      lines.push('}');
+      lines.push('');
+    }
+
     // Docker 이미지 로드
     if (packagesByType.has('docker')) {
       const dockerPackages = packagesByType.get('docker') || [];
@@ -440,18 +870,30 @@ export class ScriptGenerator {
       lines.push('    }');
       lines.push('');
 
-      for (const pkg of dockerPackages) {
-        const imageName = pkg.name.replace(/\//g, '_');
-        const tarFileName = `${imageName}_${pkg.version}.tar`;
-        lines.push(`    # ${pkg.name}:${pkg.version} 로드`);
-        lines.push(`    Write-Info "${pkg.name}:${pkg.version} 로드 중..."`);
-        lines.push(`    $ImagePath = Join-Path -Path $PackageDir -ChildPath '${tarFileName}'`);
+      if (dockerSessionBundle ?? shouldUseDockerSessionBundle(dockerPackages.length)) {
+        // 여러 이미지는 레이어를 공유하는 세션 번들 하나로 로드
+        const bundleFileName = getDockerSessionBundleFileName(dockerOutputFormat);
+        lines.push(`    $ImagePath = Join-Path -Path $PackageDir -ChildPath '${bundleFileName}'`);
         lines.push('    try {');
         lines.push('        docker load -i $ImagePath');
         lines.push('    } catch {');
-        lines.push(`        Write-Warn "${pkg.name}:${pkg.version} 로드 실패"`);
+        lines.push('        Write-Warn "Docker 이미지 번들 로드 실패"');
         lines.push('    }');
         lines.push('');
+      } else {
+        for (const pkg of dockerPackages) {
+          const imageName = pkg.name.replace(/\//g, '_');
+          const tarFileName = `${imageName}_${pkg.version}${getDockerArchiveExtension(dockerOutputFormat)}`;
+          lines.push(`    # ${pkg.name}:${pkg.version} 로드`);
+          lines.push(`    Write-Info "${pkg.name}:${pkg.version} 로드 중..."`);
+          lines.push(`    $ImagePath = Join-Path -Path $PackageDir -ChildPath '${tarFileName}'`);
+          lines.push('    try {');
+          lines.push('        docker load -i $ImagePath');
+          lines.push('    } catch {');
+          lines.push(`        Write-Warn "${pkg.name}:${pkg.version} 로드 실패"`);
+          lines.push('    }');
+          lines.push('');
+        }
       }
 
       lines.push('    Write-Info "Docker 이미지 로드 완료"');
@@ -478,6 +920,22 @@ export class ScriptGenerator {
       lines.push('Install-MavenPackages');
       lines.push('Write-Host ""');
     }
+    if (useNpmRegistry) {
+      lines.push('Install-NpmPackages');
+      lines.push('Write-Host ""');
+    }
+    if (packagesByType.has('go')) {
+      lines.push('Install-GoPackages');
+      lines.push('Write-Host ""');
+    }
+    if (cargoSource) {
+      lines.push('Install-CargoPackages');
+      lines.push('Write-Host ""');
+    }
+    if (packagesByType.has('nuget')) {
+      lines.push('Install-NugetPackages');
+      lines.push('Write-Host ""');
+    }
     if (packagesByType.has('docker')) {
       lines.push('Load-DockerImages');
       lines.push('Write-Host ""');
@@ -524,6 +982,33 @@ export class ScriptGenerator {
     return results;
   }
 
+  /**
+   * 잠금 파일로 설치되지 않는 Python 패키지 (잠금 파일이 있으면 conda만 개별 설치)
+   */
+  private getUnlockedPythonPackages(packages: PackageInfo[], pipLockFile?: string): PackageInfo[] {
+    return pipLockFile ? packages.filter((pkg) => pkg.type !== 'pip') : packages;
+  }
+
+  /**
+   * source replacement로 쓸 Cargo 소스 (vendor는 directory, local-registry는 local-registry 키)
+   */
+  private getCargoSource(
+    packagesByType: Map<string, PackageInfo[]>,
+    cargoVendorDir?: string,
+    cargoRegistryDir?: string
+  ): { key: 'directory' | 'local-registry'; dir: string } | null {
+    if (!packagesByType.has('cargo')) {
+      return null;
+    }
+    if (cargoVendorDir) {
+      return { key: 'directory', dir: cargoVendorDir };
+    }
+    if (cargoRegistryDir) {
+      return { key: 'local-registry', dir: cargoRegistryDir };
+    }
+    return null;
+  }
+
   /**
    * 패키지를 타입별로 그룹화
    */
@@ -196,7 +196,7 @@ export class ApkDependencyResolver extends BaseOSDependencyResolver {
     matchType: 'exact' | 'partial' | 'wildcard' = 'partial'
   ): Promise<OSPackageSearchResult[]> {
     await this.loadMetadata();
-    return searchPackagesCommon(this.allPackages, query, matchType);
+    return searchPackagesCommon(this.options.distribution.packageManager, this.allPackages, query, matchType);
   }
 }
 
@@ -220,7 +220,7 @@ export class AptDependencyResolver extends BaseOSDependencyResolver {
     matchType: 'exact' | 'partial' | 'wildcard' = 'partial'
   ): Promise<OSPackageSearchResult[]> {
     await this.loadMetadata();
-    return searchPackagesCommon(this.allPackages, query, matchType);
+    return searchPackagesCommon(this.options.distribution.packageManager, this.allPackages, query, matchType);
   }
 }
 
@@ -0,0 +1,144 @@
+/**
+ * CargoResolver 단위 테스트
+ *
+ * cargo-cache를 모킹해 네트워크 없이 버전 선택과 기능 통합을 검증합니다.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CargoIndexDependency, CargoIndexEntry } from '../shared/cargo-types';
+
+const { fetchCargoIndexEntries } = vi.hoisted(() => ({
+  fetchCargoIndexEntries: vi.fn(),
+}));
+
+vi.mock('../shared/cargo-cache', () => ({
+  fetchCargoIndexEntries,
+}));
+
+import { CargoResolver } from './cargo-resolver';
+
+function dep(name: string, req: string, extra: Partial<CargoIndexDependency> = {}): CargoIndexDependency {
+  return {
+    name,
+    req,
+    features: [],
+    optional: false,
+    default_features: true,
+    target: null,
+    kind: 'normal',
+    ...extra,
+  };
+}
+
+function entry(name: string, vers: string, extra: Partial<CargoIndexEntry> = {}): CargoIndexEntry {
+  return { name, vers, deps: [], cksum: `${name}-${vers}-sha`, features: {}, yanked: false, ...extra };
+}
+
+const INDEX: Record<string, CargoIndexEntry[]> = {
+  serde: [
+    entry('serde', '1.0.100'),
+    entry('serde', '1.0.193', {
+      deps: [dep('serde_derive', '=1.0.193', { optional: true })],
+      features: { default: ['std'], std: [], derive: ['serde_derive'] },
+    }),
+    entry('serde', '1.0.194', { yanked: true }),
+  ],
+  serde_derive: [entry('serde_derive', '1.0.193')],
+  serde_json: [
+    entry('serde_json', '1.0.108', {
+      deps: [
+        dep('serde', '1.0.100', { default_features: false }),
+        dep('indexmap', '2', { optional: true }),
+      ],
+      features: { default: ['std'], std: ['serde/std'], preserve_order: ['indexmap?/std'] },
+    }),
+  ],
+  tempfile: [entry('tempfile', '3.8.0', { deps: [dep('criterion', '0.5', { kind: 'dev' })] })],
+};
+
+describe('CargoResolver', () => {
+  let resolver: CargoResolver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolver = new CargoResolver();
+    fetchCargoIndexEntries.mockImplementation(async (name: string) => {
+      const entries = INDEX[name];
+      if (!entries) {
+        throw new Error(`unexpected index request: ${name}`);
+      }
+      return entries;
+    });
+  });
+
+  it('Cargo.toml은 기능으로 켜진 optional 의존성과 루트 dev 의존성까지 해결하고 호환 버전은 재사용한다', async () => {
+    const result = await resolver.resolveManifest(`
+[package]
+name = "app"
+version = "0.1.0"
+
+[features]
+default = ["json"]
+json = ["dep:serde_json"]
+
+[dependencies]
+serde = { version = "1.0", features = ["derive"] }
+serde_json = { version = "1", optional = true }
+
+[dev-dependencies]
+tempfile = "3"
+`);
+
+    expect(result.flatList.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      'serde@1.0.193',
+      'serde_json@1.0.108',
+      'tempfile@3.8.0',
+      'serde_derive@1.0.193',
+    ]);
+    expect(result.flatList[0].metadata).toEqual({ checksum: { sha256: 'serde-1.0.193-sha' } });
+    expect(result.root.dependencies.map((node) => node.package.name)).toEqual(['serde', 'serde_json', 'tempfile']);
+    // 의존성의 dev-dependencies와 켜지지 않은 optional 의존성(indexmap?/std)은 조회하지 않음
+    expect(fetchCargoIndexEntries).not.toHaveBeenCalledWith('criterion', expect.anything());
+    expect(fetchCargoIndexEntries).not.toHaveBeenCalledWith('indexmap', expect.anything());
+  });
+
+  it('단일 crate는 yank되지 않은 최신 버전을 루트로 포함해 해결한다', async () => {
+    const result = await resolver.resolveDependencies('serde', 'latest');
+
+    expect(result.root.package).toEqual({ type: 'cargo', name: 'serde', version: '1.0.193' });
+    expect(result.flatList.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual(['serde@1.0.193']);
+    expect(await resolver.getVersions('serde')).toEqual(['1.0.193', '1.0.100']);
+  });
+
+  it('Cargo.lock은 crates.io 패키지만 checksum과 함께 그대로 사용한다', async () => {
+    const result = await resolver.resolveCargoLock(`version = 3
+
+[[package]]
+name = "app"
+version = "0.1.0"
+
+[[package]]
+name = "forked"
+version = "0.1.0"
+source = "git+https://example.com/forked.git#abc"
+
+[[package]]
+name = "serde"
+version = "1.0.193"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+checksum = "abc123"
+`);
+
+    expect(result.root.package.name).toBe('app');
+    expect(result.flatList).toEqual([
+      { type: 'cargo', name: 'serde', version: '1.0.193', metadata: { checksum: { sha256: 'abc123' } } },
+    ]);
+    expect(fetchCargoIndexEntries).not.toHaveBeenCalled();
+  });
+
+  it('요구사항을 만족하는 버전이 없으면 실패한다', async () => {
+    await expect(resolver.resolveManifest('[dependencies]\nserde = "2"\n')).rejects.toThrow(
+      '요구사항을 만족하는 crate 버전이 없습니다: serde 2'
+    );
+  });
+});
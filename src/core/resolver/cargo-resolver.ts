@@ -0,0 +1,333 @@
+/**
+ * Rust Cargo crate 리졸버
+ *
+ * 입력별 동작:
+ * 1. Cargo.lock: crates.io 소스 패키지를 그대로 사용 (checksum을 metadata.checksum.sha256으로 전달)
+ * 2. Cargo.toml / 단일 crate: sparse 인덱스로 의존성 그래프를 직접 해결
+ *    - 요구사항을 만족하는 버전이 이미 선택돼 있으면 재사용, 없으면 yank되지 않은 가장 높은 버전 선택
+ *    - 기능(feature) 통합: default, `dep:`, `crate/feature`, `crate?/feature`로 활성화된 optional 의존성까지 포함
+ *    - 대상 플랫폼을 알 수 없으므로 `cargo vendor`처럼 모든 target 의존성을 포함
+ *    - dev-dependencies는 루트(프로젝트) 것만 포함
+ */
+
+import * as semver from 'semver';
+import {
+  DependencyNode,
+  DependencyResolutionResult,
+  IResolver,
+  PackageInfo,
+  ResolverOptions,
+} from '../../types';
+import logger from '../../utils/logger';
+import { fetchCargoIndexEntries } from '../shared/cargo-cache';
+import { isCratesIoSource, parseCargoLock, parseCargoManifest, toSemverRange } from '../shared/cargo-utils';
+import type { CargoIndexDependency, CargoIndexEntry } from '../shared/cargo-types';
+
+/**
+ * Cargo 리졸버 옵션
+ */
+export interface CargoResolverOptions extends ResolverOptions {
+  /** sparse 인덱스 URL */
+  indexUrl?: string;
+}
+
+/**
+ * 해결 중인 crate 버전의 활성화 상태
+ */
+interface ActivatedCrate {
+  entry: CargoIndexEntry;
+  features: Set<string>;
+  /** 활성화된 optional 의존성 이름 */
+  enabledDeps: Set<string>;
+  /** 의존성 이름별로 켜야 하는 기능 (`dep/feature`, `dep?/feature`) */
+  depFeatures: Map<string, Set<string>>;
+  defaultEnabled: boolean;
+}
+
+/**
+ * Cargo 리졸버 클래스
+ */
+export class CargoResolver implements IResolver {
+  readonly type = 'cargo' as const;
+
+  /**
+   * crate 하나의 의존성 해결 (default 기능, 루트 crate 포함)
+   */
+  async resolveDependencies(
+    name: string,
+    version: string,
+    options: CargoResolverOptions = {}
+  ): Promise<DependencyResolutionResult> {
+    const entries = await fetchCargoIndexEntries(name, options);
+    const candidates = entries.filter((entry) => !entry.yanked).map((entry) => entry.vers);
+    const resolvedVersion = !version || version === 'latest'
+      ? semver.rsort([...candidates])[0]
+      : semver.maxSatisfying(candidates, toSemverRange(version)) ?? version;
+    const entry = entries.find((candidate) => candidate.vers === resolvedVersion);
+    if (!entry) {
+      throw new Error(`crate 버전을 찾을 수 없습니다: ${name}@${version}`);
+    }
+
+    logger.info('Cargo crate 의존성 해결 시작', { crate: name, version: entry.vers });
+    return this.resolveGraph(entry, false, true, options);
+  }
+
+  /**
+   * Cargo.lock의 crates.io 패키지 목록 (워크스페이스 멤버와 path/git 소스는 제외)
+   */
+  async resolveCargoLock(content: string): Promise<DependencyResolutionResult> {
+    const packages = parseCargoLock(content);
+    const members = packages.filter((pkg) => !pkg.source);
+    const unsupported = packages.filter((pkg) => pkg.source && !isCratesIoSource(pkg.source));
+    if (unsupported.length > 0) {
+      logger.warn('crates.io가 아닌 소스는 다운로드하지 않음', {
+        crates: unsupported.map((pkg) => `${pkg.name}@${pkg.version} (${pkg.source})`),
+      });
+    }
+
+    const flatList: PackageInfo[] = packages
+      .filter((pkg) => isCratesIoSource(pkg.source))
+      .map((pkg) => ({
+        type: 'cargo',
+        name: pkg.name,
+        version: pkg.version,
+        metadata: pkg.checksum ? { checksum: { sha256: pkg.checksum } } : {},
+      }));
+
+    logger.info('Cargo.lock 의존성 해결 완료', { crates: flatList.length, members: members.length });
+    return {
+      root: {
+        package: { type: 'cargo', name: members[0]?.name ?? 'Cargo.lock', version: members[0]?.version ?? '' },
+        dependencies: flatList.map((pkg) => ({ package: pkg, dependencies: [] })),
+      },
+      flatList,
+      conflicts: [],
+      totalSize: 0,
+    };
+  }
+
+  /**
+   * Cargo.toml의 의존성 해결 (프로젝트 자신은 제외, dev/build 의존성 포함)
+   */
+  async resolveManifest(content: string, options: CargoResolverOptions = {}): Promise<DependencyResolutionResult> {
+    const manifest = parseCargoManifest(content);
+    if (manifest.skipped.length > 0) {
+      logger.warn('crates.io에서 받을 수 없는 의존성은 건너뜀 (Cargo.lock 사용 권장)', {
+        dependencies: manifest.skipped.map((dep) => `${dep.name} (${dep.reason})`),
+      });
+    }
+
+    const root: CargoIndexEntry = {
+      name: manifest.name ?? 'Cargo.toml',
+      vers: manifest.version ?? '0.0.0',
+      deps: manifest.dependencies.map((dep) => ({
+        name: dep.name,
+        req: dep.req,
+        features: dep.features,
+        optional: dep.optional,
+        default_features: dep.defaultFeatures,
+        target: dep.target ?? null,
+        kind: dep.kind,
+        package: dep.package ?? null,
+      })),
+      cksum: '',
+      features: manifest.features,
+      yanked: false,
+    };
+
+    logger.info('Cargo.toml 의존성 해결 시작', { crate: root.name, dependencies: root.deps.length });
+    return this.resolveGraph(root, true, false, options);
+  }
+
+  /**
+   * crate 버전 목록 조회 (최신순, yank된 버전 제외)
+   */
+  async getVersions(name: string, options: CargoResolverOptions = {}): Promise<string[]> {
+    const versions = (await fetchCargoIndexEntries(name, options))
+      .filter((entry) => !entry.yanked)
+      .map((entry) => entry.vers);
+    return semver.rsort(versions);
+  }
+
+  private async resolveGraph(
+    rootEntry: CargoIndexEntry,
+    includeDev: boolean,
+    includeRoot: boolean,
+    options: CargoResolverOptions
+  ): Promise<DependencyResolutionResult> {
+    const activated = new Map<string, ActivatedCrate>();
+    const selected = new Map<string, string[]>();
+    const queue: ActivatedCrate[] = [];
+
+    const rootState = createActivatedCrate(rootEntry);
+    activateFeatures(rootState, [], true);
+    queue.push(rootState);
+    if (includeRoot) {
+      activated.set(`${rootEntry.name}@${rootEntry.vers}`, rootState);
+      selected.set(rootEntry.name, [rootEntry.vers]);
+    }
+
+    const select = async (dep: CargoIndexDependency): Promise<{ state: ActivatedCrate; created: boolean }> => {
+      const crateName = dep.package || dep.name;
+      const range = toSemverRange(dep.req);
+      const existing = (selected.get(crateName) ?? []).find((version) =>
+        semver.satisfies(version, range)
+      );
+      if (existing) {
+        return { state: activated.get(`${crateName}@${existing}`) as ActivatedCrate, created: false };
+      }
+
+      const entries = await fetchCargoIndexEntries(crateName, options);
+      const version = semver.maxSatisfying(
+        entries.filter((entry) => !entry.yanked).map((entry) => entry.vers),
+        range
+      );
+      const entry = entries.find((candidate) => candidate.vers === version);
+      if (!entry) {
+        throw new Error(`요구사항을 만족하는 crate 버전이 없습니다: ${crateName} ${dep.req}`);
+      }
+
+      const state = createActivatedCrate(entry);
+      activated.set(`${crateName}@${entry.vers}`, state);
+      selected.set(crateName, [...(selected.get(crateName) ?? []), entry.vers]);
+      return { state, created: true };
+    };
+
+    while (queue.length > 0) {
+      const state = queue.shift() as ActivatedCrate;
+      const isRoot = state === rootState;
+      const deps = state.entry.deps.filter(
+        (dep) => (dep.kind !== 'dev' || (isRoot && includeDev)) && (!dep.optional || state.enabledDeps.has(dep.name))
+      );
+
+      // 같은 단계의 인덱스 요청은 병렬로 미리 받아 둠
+      await Promise.all(deps.map((dep) => fetchCargoIndexEntries(dep.package || dep.name, options)));
+
+      for (const dep of deps) {
+        const { state: child, created } = await select(dep);
+        const features = [...dep.features, ...(state.depFeatures.get(dep.name) ?? [])];
+        const changed = activateFeatures(child, features, dep.default_features);
+        if ((created || changed) && !queue.includes(child)) {
+          queue.push(child);
+        }
+      }
+    }
+
+    const flatList = Array.from(activated.values(), (state) => toPackageInfo(state.entry));
+
+    const rootPackage = { type: 'cargo' as const, name: rootEntry.name, version: rootEntry.vers };
+    const rootNode: DependencyNode = {
+      package: rootPackage,
+      dependencies: rootEntry.deps.flatMap((dep) => {
+        const crateName = dep.package || dep.name;
+        const version = (selected.get(crateName) ?? []).find((candidate) =>
+          semver.satisfies(candidate, toSemverRange(dep.req))
+        );
+        return version ? [{ package: { type: 'cargo' as const, name: crateName, version }, dependencies: [] }] : [];
+      }),
+    };
+
+    logger.info('Cargo 의존성 해결 완료', { crate: rootEntry.name, crates: flatList.length });
+    return { root: rootNode, flatList, conflicts: [], totalSize: 0 };
+  }
+}
+
+function createActivatedCrate(entry: CargoIndexEntry): ActivatedCrate {
+  return {
+    entry,
+    features: new Set(),
+    enabledDeps: new Set(),
+    depFeatures: new Map(),
+    defaultEnabled: false,
+  };
+}
+
+/**
+ * 기능 활성화 (새로 켜진 기능/의존성이 있으면 true)
+ *
+ * 기능 값 문법 (https://doc.rust-lang.org/cargo/reference/features.html):
+ * - `dep:name`: optional 의존성만 활성화
+ * - `name/feature`: 의존성을 활성화하고 그 기능을 켬
+ * - `name?/feature`: 의존성이 다른 경로로 활성화된 경우에만 그 기능을 켬
+ * - 그 외: 기능 테이블의 기능, 없으면 같은 이름의 optional 의존성(암시적 기능)
+ */
+function activateFeatures(state: ActivatedCrate, features: string[], useDefault: boolean): boolean {
+  const table = { ...state.entry.features, ...state.entry.features2 };
+  const optionalDeps = new Set(state.entry.deps.filter((dep) => dep.optional).map((dep) => dep.name));
+  let changed = false;
+
+  const enableDep = (name: string) => {
+    if (optionalDeps.has(name) && !state.enabledDeps.has(name)) {
+      state.enabledDeps.add(name);
+      changed = true;
+    }
+  };
+
+  const pending = [...features];
+  if (useDefault && !state.defaultEnabled) {
+    state.defaultEnabled = true;
+    changed = true;
+    if (table.default) {
+      pending.push('default');
+    }
+  }
+
+  while (pending.length > 0) {
+    const feature = pending.shift() as string;
+    if (feature.startsWith('dep:')) {
+      enableDep(feature.slice('dep:'.length));
+      continue;
+    }
+
+    const slash = feature.indexOf('/');
+    if (slash !== -1) {
+      const weak = feature[slash - 1] === '?';
+      const depName = feature.slice(0, weak ? slash - 1 : slash);
+      const depFeature = feature.slice(slash + 1);
+      if (!weak) {
+        enableDep(depName);
+      }
+      const set = state.depFeatures.get(depName) ?? new Set<string>();
+      if (!set.has(depFeature)) {
+        set.add(depFeature);
+        state.depFeatures.set(depName, set);
+        changed = true;
+      }
+      continue;
+    }
+
+    if (state.features.has(feature)) {
+      continue;
+    }
+    state.features.add(feature);
+    changed = true;
+    if (table[feature]) {
+      pending.push(...table[feature]);
+    } else {
+      enableDep(feature);
+    }
+  }
+
+  return changed;
+}
+
+function toPackageInfo(entry: CargoIndexEntry): PackageInfo {
+  return {
+    type: 'cargo',
+    name: entry.name,
+    version: entry.vers,
+    metadata: { checksum: { sha256: entry.cksum } },
+  };
+}
+
+// 싱글톤 인스턴스
+let cargoResolverInstance: CargoResolver | null = null;
+
+export function getCargoResolver(): CargoResolver {
+  if (!cargoResolverInstance) {
+    cargoResolverInstance = new CargoResolver();
+  }
+  return cargoResolverInstance;
+}
+
+export { cargoResolverInstance };
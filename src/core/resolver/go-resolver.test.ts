@@ -0,0 +1,138 @@
+/**
+ * GoResolver 단위 테스트
+ *
+ * go-cache를 모킹해 네트워크 없이 MVS와 그래프 가지치기를 검증합니다.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { fetchGoModFile, fetchGoVersionList, fetchGoLatestVersion } = vi.hoisted(() => ({
+  fetchGoModFile: vi.fn(),
+  fetchGoVersionList: vi.fn(),
+  fetchGoLatestVersion: vi.fn(),
+}));
+
+vi.mock('../shared/go-cache', () => ({
+  fetchGoModFile,
+  fetchGoVersionList,
+  fetchGoLatestVersion,
+}));
+
+import { GoResolver } from './go-resolver';
+
+function mockModFiles(modFiles: Record<string, string>): void {
+  fetchGoModFile.mockImplementation(async (path: string, version: string) => {
+    const content = modFiles[`${path}@${version}`];
+    if (content === undefined) {
+      throw new Error(`unexpected go.mod request: ${path}@${version}`);
+    }
+    return content;
+  });
+}
+
+describe('GoResolver', () => {
+  let resolver: GoResolver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolver = new GoResolver();
+  });
+
+  it('go 1.17 이상 모듈은 가지치기해 직접 require만 그래프에 넣고 가장 높은 버전을 선택한다', async () => {
+    mockModFiles({
+      'example.com/a@v1.0.0': 'module example.com/a\n\ngo 1.21\n\nrequire (\n\texample.com/b v1.1.0\n\texample.com/d v1.0.0\n)\n',
+      'example.com/b@v1.2.0': 'module example.com/b\n\ngo 1.21\n',
+    });
+
+    const result = await resolver.resolveGoMod(
+      'module example.com/app\n\ngo 1.21\n\nrequire (\n\texample.com/a v1.0.0\n\texample.com/b v1.2.0 // indirect\n)\n'
+    );
+
+    expect(result.flatList.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      'example.com/a@v1.0.0',
+      'example.com/b@v1.2.0',
+      'example.com/d@v1.0.0',
+    ]);
+    expect(result.flatList.some((pkg) => pkg.metadata?.goModOnly)).toBe(false);
+    expect(result.conflicts).toEqual([
+      { type: 'version', packageName: 'example.com/b', versions: ['v1.1.0', 'v1.2.0'], resolvedVersion: 'v1.2.0' },
+    ]);
+    // 가지치기된 모듈의 require(b@v1.1.0, d)는 go.mod를 읽지 않음
+    expect(fetchGoModFile).toHaveBeenCalledTimes(2);
+    expect(result.root.dependencies.map((node) => node.package.name)).toEqual(['example.com/a', 'example.com/b']);
+  });
+
+  it('go 1.17 미만 모듈은 전이 의존성을 따라가고, 선택되지 않은 버전은 go.mod만 받는다', async () => {
+    mockModFiles({
+      'example.com/a@v1.0.0': 'module example.com/a\n\ngo 1.16\n\nrequire example.com/b v1.1.0\n',
+      'example.com/b@v1.1.0': 'module example.com/b\n\nrequire example.com/e v1.0.0\n',
+      'example.com/b@v1.2.0': 'module example.com/b\n\ngo 1.21\n',
+      'example.com/e@v1.0.0': 'module example.com/e\n',
+    });
+
+    const result = await resolver.resolveGoMod(
+      'module example.com/app\n\ngo 1.21\n\nrequire (\n\texample.com/a v1.0.0\n\texample.com/b v1.2.0\n)\n'
+    );
+
+    expect(result.flatList).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'example.com/b', version: 'v1.2.0', metadata: { goSum: undefined } }),
+        expect.objectContaining({ name: 'example.com/e', version: 'v1.0.0', metadata: { goSum: undefined } }),
+        expect.objectContaining({
+          name: 'example.com/b',
+          version: 'v1.1.0',
+          metadata: { goSum: undefined, goModOnly: true },
+        }),
+      ])
+    );
+    expect(result.flatList).toHaveLength(4);
+  });
+
+  it('메인 모듈의 replace/exclude를 적용하고 go.sum 해시를 전달한다', async () => {
+    fetchGoVersionList.mockResolvedValue(['v1.0.0', 'v1.1.0', 'v1.1.1']);
+    mockModFiles({
+      'example.com/fork@v2.0.0': 'module example.com/fork\n\ngo 1.21\n',
+      'example.com/b@v1.1.1': 'module example.com/b\n\ngo 1.21\n',
+    });
+
+    const result = await resolver.resolveGoMod(
+      [
+        'module example.com/app',
+        'go 1.21',
+        'require example.com/a v1.0.0',
+        'require example.com/b v1.1.0',
+        'require example.com/local v1.0.0',
+        'exclude example.com/b v1.1.0',
+        'replace example.com/a => example.com/fork v2.0.0',
+        'replace example.com/local => ./local',
+      ].join('\n'),
+      'example.com/b v1.1.1 h1:bzip=\nexample.com/b v1.1.1/go.mod h1:bmod=\n'
+    );
+
+    expect(result.flatList).toEqual([
+      { type: 'go', name: 'example.com/fork', version: 'v2.0.0', metadata: { goSum: undefined } },
+      { type: 'go', name: 'example.com/b', version: 'v1.1.1', metadata: { goSum: { h1: 'h1:bzip=', goMod: 'h1:bmod=' } } },
+    ]);
+    expect(fetchGoVersionList).toHaveBeenCalledWith('example.com/b', {});
+  });
+
+  it('단일 모듈은 최신 버전을 메인 모듈로 포함해 해결한다', async () => {
+    fetchGoLatestVersion.mockResolvedValue({ Version: 'v1.9.1' });
+    mockModFiles({
+      'github.com/gin-gonic/gin@v1.9.1': 'module github.com/gin-gonic/gin\n\ngo 1.20\n\nrequire golang.org/x/text v0.14.0\n',
+      'golang.org/x/text@v0.14.0': 'module golang.org/x/text\n\ngo 1.18\n',
+    });
+
+    const result = await resolver.resolveDependencies('github.com/gin-gonic/gin', 'latest');
+
+    expect(result.root.package).toEqual({ type: 'go', name: 'github.com/gin-gonic/gin', version: 'v1.9.1' });
+    expect(result.flatList.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      'github.com/gin-gonic/gin@v1.9.1',
+      'golang.org/x/text@v0.14.0',
+    ]);
+  });
+
+  it('module 지시어가 없는 go.mod는 거부한다', async () => {
+    await expect(resolver.resolveGoMod('go 1.21\n')).rejects.toThrow('module 지시어가 없습니다');
+  });
+});
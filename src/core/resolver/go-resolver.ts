@@ -0,0 +1,327 @@
+/**
+ * Go 모듈 리졸버
+ * 최소 버전 선택(MVS) 기반 구현
+ *
+ * 핵심 알고리즘:
+ * 1. 메인 모듈의 require부터 모듈 그래프 로드 (GOPROXY `.mod`)
+ * 2. go 1.17 이상 모듈은 그래프 가지치기 적용 (직접 require만 그래프에 포함, go.mod는 읽지 않음)
+ * 3. 모듈 경로별로 그래프에 등장한 가장 높은 버전 선택
+ * 4. replace/exclude는 메인 모듈의 지시어만 적용
+ *
+ * 선택된 모듈은 zip까지, 그래프 로드에 쓰인 나머지 버전은 go.mod만 다운로드 대상으로 반환한다.
+ * (https://go.dev/ref/mod#minimal-version-selection, #graph-pruning)
+ */
+
+import {
+  DependencyConflict,
+  DependencyNode,
+  DependencyResolutionResult,
+  IResolver,
+  PackageInfo,
+  ResolverOptions,
+} from '../../types';
+import logger from '../../utils/logger';
+import { GO_CONSTANTS } from '../constants/go';
+import { fetchGoLatestVersion, fetchGoModFile, fetchGoVersionList } from '../shared/go-cache';
+import { compareGoVersions, isGoVersionAtLeast, parseGoMod, parseGoSum } from '../shared/go-module-utils';
+import type { GoModFile, GoModuleVersion, GoSumHashes } from '../shared/go-types';
+
+/**
+ * Go 리졸버 옵션
+ */
+export interface GoResolverOptions extends ResolverOptions {
+  /** 모듈 프록시 URL */
+  proxyUrl?: string;
+}
+
+/**
+ * 로드된 모듈 그래프
+ */
+interface GoModuleGraph {
+  /** 모듈 경로별로 그래프에 등장한 버전 */
+  versions: Map<string, Set<string>>;
+  /** go.mod를 읽은 모듈 버전 (`path@version`) */
+  loaded: Set<string>;
+}
+
+/** 그래프 로드 시 동시에 요청할 go.mod 수 */
+const GRAPH_FETCH_BATCH_SIZE = 8;
+
+/**
+ * Go 리졸버 클래스
+ */
+export class GoResolver implements IResolver {
+  readonly type = 'go' as const;
+
+  /**
+   * 모듈 하나를 메인 모듈로 보고 빌드 목록 해결 (`-p module -V version`)
+   */
+  async resolveDependencies(
+    modulePath: string,
+    version: string,
+    options: GoResolverOptions = {}
+  ): Promise<DependencyResolutionResult> {
+    const resolvedVersion = await this.resolveVersion(modulePath, version, options);
+    logger.info('Go 모듈 의존성 해결 시작', { module: modulePath, version: resolvedVersion });
+
+    const goMod = parseGoMod(await fetchGoModFile(modulePath, resolvedVersion, options));
+    const main = { path: modulePath, version: resolvedVersion };
+    return this.resolveBuildList(main, goMod, new Map(), true, options);
+  }
+
+  /**
+   * 프로젝트 go.mod의 빌드 목록 해결 (메인 모듈 자신은 제외)
+   *
+   * @param goSumContent - go.sum 내용 (있으면 모듈별 해시를 metadata.goSum으로 전달해 다운로드 시 검증)
+   */
+  async resolveGoMod(
+    content: string,
+    goSumContent?: string,
+    options: GoResolverOptions = {}
+  ): Promise<DependencyResolutionResult> {
+    const goMod = parseGoMod(content);
+    if (!goMod.module) {
+      throw new Error('잘못된 go.mod: module 지시어가 없습니다');
+    }
+
+    logger.info('go.mod 의존성 해결 시작', { module: goMod.module, requires: goMod.require.length });
+    const sums = goSumContent ? parseGoSum(goSumContent) : new Map<string, GoSumHashes>();
+    return this.resolveBuildList({ path: goMod.module, version: '' }, goMod, sums, false, options);
+  }
+
+  /**
+   * 모듈 버전 목록 조회 (최신순)
+   */
+  async getVersions(modulePath: string, options: GoResolverOptions = {}): Promise<string[]> {
+    return (await fetchGoVersionList(modulePath, options)).reverse();
+  }
+
+  private async resolveVersion(modulePath: string, version: string, options: GoResolverOptions): Promise<string> {
+    if (version && version !== 'latest') {
+      return version;
+    }
+    return (await fetchGoLatestVersion(modulePath, options)).Version;
+  }
+
+  private async resolveBuildList(
+    main: GoModuleVersion,
+    goMod: GoModFile,
+    sums: Map<string, GoSumHashes>,
+    includeMain: boolean,
+    options: GoResolverOptions
+  ): Promise<DependencyResolutionResult> {
+    const graph = await this.loadModuleGraph(main, goMod, options);
+
+    const selected = new Map<string, string>();
+    const conflicts: DependencyConflict[] = [];
+    for (const [path, versions] of graph.versions) {
+      const sorted = Array.from(versions).sort(compareGoVersions);
+      const version = sorted[sorted.length - 1];
+      selected.set(path, version);
+      if (sorted.length > 1) {
+        conflicts.push({ type: 'version', packageName: path, versions: sorted, resolvedVersion: version });
+      }
+    }
+
+    const toPackage = (module: GoModuleVersion, modOnly: boolean): PackageInfo | null => {
+      const target = this.applyReplace(goMod, module);
+      if (!target) {
+        return null;
+      }
+      return {
+        type: 'go',
+        name: target.path,
+        version: target.version,
+        metadata: {
+          goSum: sums.get(`${target.path}@${target.version}`),
+          ...(modOnly ? { goModOnly: true } : {}),
+        },
+      };
+    };
+
+    const flatList: PackageInfo[] = [];
+    if (includeMain) {
+      flatList.push({ type: 'go', name: main.path, version: main.version, metadata: {} });
+    }
+    for (const [path, version] of selected) {
+      const pkg = toPackage({ path, version }, false);
+      if (pkg) {
+        flatList.push(pkg);
+      }
+    }
+    for (const key of graph.loaded) {
+      const module = splitModuleKey(key);
+      if (selected.get(module.path) !== module.version) {
+        const pkg = toPackage(module, true);
+        if (pkg) {
+          flatList.push(pkg);
+        }
+      }
+    }
+
+    const missingSums = sums.size > 0
+      ? flatList.filter((pkg) => !pkg.metadata?.goSum).map((pkg) => `${pkg.name}@${pkg.version}`)
+      : [];
+    if (missingSums.length > 0) {
+      logger.warn('go.sum에 없는 모듈 (체크섬 데이터베이스로 검증)', { modules: missingSums });
+    }
+
+    const root: DependencyNode = {
+      package: { type: 'go', name: main.path, version: main.version },
+      dependencies: goMod.require.flatMap((req) => {
+        const version = selected.get(req.path);
+        return version ? [{ package: { type: 'go' as const, name: req.path, version }, dependencies: [] }] : [];
+      }),
+    };
+
+    logger.info('Go 모듈 의존성 해결 완료', {
+      module: main.path,
+      selected: selected.size,
+      goModOnly: flatList.filter((pkg) => pkg.metadata?.goModOnly).length,
+      conflicts: conflicts.length,
+    });
+
+    return { root, flatList, conflicts, totalSize: 0 };
+  }
+
+  /**
+   * 메인 모듈부터 모듈 그래프 로드
+   *
+   * cmd/go의 readModGraph와 같은 규칙: 가지치기 대상(go 1.17+) 모듈은 go.mod를 읽어 직접 require만 그래프에 추가하고,
+   * 그보다 오래된 모듈이나 그 아래에서 만난 모듈은 전이 의존성을 끝까지 따라간다.
+   */
+  private async loadModuleGraph(
+    main: GoModuleVersion,
+    goMod: GoModFile,
+    options: GoResolverOptions
+  ): Promise<GoModuleGraph> {
+    const graph: GoModuleGraph = { versions: new Map(), loaded: new Set() };
+    const enqueued = new Map<string, boolean>();
+    const queue: Array<{ module: GoModuleVersion; unpruned: boolean }> = [];
+
+    const addNode = async (requirement: GoModuleVersion): Promise<GoModuleVersion | null> => {
+      const module = await this.applyExclude(goMod, requirement, options);
+      if (!module || module.path === main.path) {
+        return null;
+      }
+      const versions = graph.versions.get(module.path) ?? new Set<string>();
+      versions.add(module.version);
+      graph.versions.set(module.path, versions);
+      return module;
+    };
+    const enqueue = (module: GoModuleVersion, unpruned: boolean) => {
+      const key = moduleKey(module);
+      // 가지치기 없이 다시 만나면 전이 의존성을 따라가야 하므로 재방문
+      if (enqueued.has(key) && (enqueued.get(key) || !unpruned)) {
+        return;
+      }
+      enqueued.set(key, unpruned);
+      queue.push({ module, unpruned });
+    };
+
+    const mainUnpruned = !isGoVersionAtLeast(goMod.go, GO_CONSTANTS.PRUNED_GRAPH_GO_VERSION);
+    for (const requirement of goMod.require) {
+      const module = await addNode(requirement);
+      if (module) {
+        enqueue(module, mainUnpruned);
+      }
+    }
+
+    while (queue.length > 0) {
+      const batch = queue.splice(0, GRAPH_FETCH_BATCH_SIZE);
+      const modFiles = await Promise.all(batch.map(({ module }) => this.loadModFile(goMod, module, options)));
+
+      for (const [index, { module, unpruned }] of batch.entries()) {
+        const modFile = modFiles[index];
+        if (!modFile) {
+          continue;
+        }
+        graph.loaded.add(moduleKey(module));
+
+        // require는 항상 그래프 노드가 되지만, 따라가는 것은 가지치기 없이 도달했거나 go 1.17 미만 모듈뿐
+        const expand = unpruned || !isGoVersionAtLeast(modFile.go, GO_CONSTANTS.PRUNED_GRAPH_GO_VERSION);
+        for (const requirement of modFile.require) {
+          const node = await addNode(requirement);
+          if (node && expand) {
+            enqueue(node, true);
+          }
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  private async loadModFile(
+    goMod: GoModFile,
+    module: GoModuleVersion,
+    options: GoResolverOptions
+  ): Promise<GoModFile | null> {
+    const target = this.applyReplace(goMod, module);
+    if (!target) {
+      logger.warn('로컬 경로로 대체된 모듈은 다운로드하지 않음', { module: moduleKey(module) });
+      return null;
+    }
+    return parseGoMod(await fetchGoModFile(target.path, target.version, options));
+  }
+
+  /**
+   * 메인 모듈의 replace 적용 (로컬 경로 대체는 null)
+   */
+  private applyReplace(goMod: GoModFile, module: GoModuleVersion): GoModuleVersion | null {
+    const replacement =
+      goMod.replace.find((r) => r.old.path === module.path && r.old.version === module.version) ??
+      goMod.replace.find((r) => r.old.path === module.path && !r.old.version);
+    if (!replacement) {
+      return module;
+    }
+    if (!replacement.new.version) {
+      return null;
+    }
+    return { path: replacement.new.path, version: replacement.new.version };
+  }
+
+  /**
+   * 메인 모듈의 exclude 적용 (제외된 버전은 제외되지 않은 다음 상위 버전으로 대체)
+   */
+  private async applyExclude(
+    goMod: GoModFile,
+    module: GoModuleVersion,
+    options: GoResolverOptions
+  ): Promise<GoModuleVersion | null> {
+    const excluded = goMod.exclude.filter((e) => e.path === module.path).map((e) => e.version);
+    if (!excluded.includes(module.version)) {
+      return module;
+    }
+
+    const next = (await fetchGoVersionList(module.path, options)).find(
+      (version) => compareGoVersions(version, module.version) > 0 && !excluded.includes(version)
+    );
+    if (!next) {
+      logger.warn('exclude된 모듈을 대체할 상위 버전이 없음', { module: moduleKey(module) });
+      return null;
+    }
+    return { path: module.path, version: next };
+  }
+}
+
+function moduleKey(module: GoModuleVersion): string {
+  return `${module.path}@${module.version}`;
+}
+
+function splitModuleKey(key: string): GoModuleVersion {
+  const index = key.lastIndexOf('@');
+  return { path: key.slice(0, index), version: key.slice(index + 1) };
+}
+
+// 싱글톤 인스턴스
+let goResolverInstance: GoResolver | null = null;
+
+export function getGoResolver(): GoResolver {
+  if (!goResolverInstance) {
+    goResolverInstance = new GoResolver();
+  }
+  return goResolverInstance;
+}
+
+export { goResolverInstance };
@@ -33,6 +33,8 @@ export interface MavenResolutionContext {
   maxDepth: number;
   /** optional 의존성 포함 여부 */
   includeOptional: boolean;
+  /** 루트의 직접 의존성에서 추가로 포함할 scope (예: 오프라인 빌드용 test, provided) */
+  rootScopes: Set<string>;
   /** dependencyManagement 버전 맵 */
   dependencyManagement: Map<string, string>;
   /** 루트 노드 */
@@ -190,7 +192,8 @@ export class MavenQueueProcessor {
     let sequence = 0;
 
     for (const dep of rootDependencies) {
-      if (!this.deps.shouldIncludeDependency(dep, ctx.includeOptional)) continue;
+      const isExtraRootScope = !!dep.scope && ctx.rootScopes.has(dep.scope);
+      if (!isExtraRootScope && !this.deps.shouldIncludeDependency(dep, ctx.includeOptional)) continue;
 
       const depCoordinate = resolveDependencyCoordinate(
         dep,
@@ -4,8 +4,9 @@
  * 네트워크 호출 없이 MavenResolver의 핵심 로직을 테스트합니다.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MavenResolver } from './maven-resolver';
+import type { MavenCoordinate, PomProject } from '../shared/maven-types';
 // 분리된 유틸리티 함수 import
 import {
   resolveProperty,
@@ -14,6 +15,17 @@ import {
   extractDependencies,
 } from '../shared/maven-pom-utils';
 
+const { fetchPomMock } = vi.hoisted(() => ({
+  fetchPomMock: vi.fn(),
+}));
+
+// 저장소 POM 조회는 테스트에서 등록한 POM으로 대체 (네트워크 호출 없음)
+vi.mock('../shared/maven-cache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../shared/maven-cache')>()),
+  fetchPom: fetchPomMock,
+  prefetchPomsParallel: vi.fn(),
+}));
+
 // MavenResolver 인스턴스 생성
 const createResolver = () => {
   return new MavenResolver();
@@ -444,4 +456,265 @@ describe('MavenResolver 단위 테스트', () => {
       expect(springCore?.version).toBe('5.3.0');
     });
   });
+
+  describe('resolveProjectPom', () => {
+    const repositoryPoms: Record<string, PomProject> = {
+      'org.example:company-parent:3': {
+        groupId: 'org.example',
+        artifactId: 'company-parent',
+        version: '3',
+        packaging: 'pom',
+        properties: { 'jackson.version': '2.15.0', 'guava.version': '32.0.0-jre' },
+        dependencyManagement: {
+          dependencies: {
+            dependency: [
+              {
+                groupId: 'com.fasterxml.jackson',
+                artifactId: 'jackson-bom',
+                version: '${jackson.version}',
+                type: 'pom',
+                scope: 'import',
+              },
+              {
+                groupId: 'com.google.guava',
+                artifactId: 'guava',
+                version: '${guava.version}',
+              },
+            ],
+          },
+        },
+      },
+      'com.fasterxml.jackson:jackson-bom:2.17.1': {
+        groupId: 'com.fasterxml.jackson',
+        artifactId: 'jackson-bom',
+        version: '2.17.1',
+        packaging: 'pom',
+        dependencyManagement: {
+          dependencies: {
+            dependency: {
+              groupId: 'com.fasterxml.jackson.core',
+              artifactId: 'jackson-databind',
+              version: '2.17.1',
+            },
+          },
+        },
+      },
+      'com.fasterxml.jackson.core:jackson-databind:2.17.1': {
+        groupId: 'com.fasterxml.jackson.core',
+        artifactId: 'jackson-databind',
+        version: '2.17.1',
+        dependencies: {
+          dependency: [
+            { groupId: 'com.fasterxml.jackson.core', artifactId: 'jackson-core', version: '2.17.1' },
+            { groupId: 'com.fasterxml.jackson.core', artifactId: 'jackson-annotations', version: '2.17.1' },
+          ],
+        },
+      },
+      'com.fasterxml.jackson.core:jackson-core:2.17.1': {
+        groupId: 'com.fasterxml.jackson.core',
+        artifactId: 'jackson-core',
+        version: '2.17.1',
+      },
+      'com.google.guava:guava:33.2.0-jre': {
+        groupId: 'com.google.guava',
+        artifactId: 'guava',
+        version: '33.2.0-jre',
+      },
+    };
+
+    const projectPom = `<?xml version="1.0" encoding="UTF-8"?>
+<project>
+  <parent>
+    <groupId>org.example</groupId>
+    <artifactId>company-parent</artifactId>
+    <version>3</version>
+  </parent>
+  <artifactId>service</artifactId>
+  <version>\${revision}</version>
+  <properties>
+    <revision>1.4.0</revision>
+    <jackson.version>2.17.1</jackson.version>
+  </properties>
+  <dependencyManagement>
+    <dependencies>
+      <dependency>
+        <groupId>com.google.guava</groupId>
+        <artifactId>guava</artifactId>
+        <version>33.2.0-jre</version>
+      </dependency>
+    </dependencies>
+  </dependencyManagement>
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+      <exclusions>
+        <exclusion>
+          <groupId>com.fasterxml.jackson.core</groupId>
+          <artifactId>jackson-annotations</artifactId>
+        </exclusion>
+      </exclusions>
+    </dependency>
+    <dependency>
+      <groupId>com.google.guava</groupId>
+      <artifactId>guava</artifactId>
+    </dependency>
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <version>5.10.2</version>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+</project>`;
+
+    beforeEach(() => {
+      resolver.clearCache();
+      fetchPomMock.mockReset();
+      fetchPomMock.mockImplementation(async (coordinate: MavenCoordinate) => {
+        const pom = repositoryPoms[`${coordinate.groupId}:${coordinate.artifactId}:${coordinate.version}`];
+        if (!pom) {
+          throw new Error(`POM not found: ${coordinate.groupId}:${coordinate.artifactId}:${coordinate.version}`);
+        }
+        return pom;
+      });
+      vi.spyOn(
+        (resolver as unknown as { axiosInstance: { head: () => Promise<unknown> } }).axiosInstance,
+        'head'
+      ).mockRejectedValue(new Error('offline'));
+    });
+
+    it('parent, properties 재정의, BOM import, exclusions를 반영해 전이 의존성을 해결한다', async () => {
+      const result = await resolver.resolveProjectPom(projectPom);
+      const resolved = result.flatList.map((pkg) => `${pkg.name}:${pkg.version}`).sort();
+
+      expect(resolved).toEqual([
+        'com.fasterxml.jackson.core:jackson-core:2.17.1',
+        'com.fasterxml.jackson.core:jackson-databind:2.17.1',
+        'com.google.guava:guava:33.2.0-jre',
+      ]);
+      expect(result.root.package.name).toBe('org.example:service');
+      expect(result.root.package.version).toBe('1.4.0');
+    });
+
+    it('maxDepth 1이면 선언된 직접 의존성만 반환한다', async () => {
+      const result = await resolver.resolveProjectPom(projectPom, { maxDepth: 1 });
+
+      expect(result.flatList.map((pkg) => pkg.name).sort()).toEqual([
+        'com.fasterxml.jackson.core:jackson-databind',
+        'com.google.guava:guava',
+      ]);
+    });
+
+    it('artifactId가 없는 pom.xml은 오류를 던진다', async () => {
+      await expect(resolver.resolveProjectPom('<project><groupId>x</groupId></project>')).rejects.toThrow(
+        'artifactId'
+      );
+    });
+  });
+
+  describe('resolveBuildPlugins', () => {
+    const repositoryPoms: Record<string, PomProject> = {
+      'org.example:build-parent:1': {
+        groupId: 'org.example',
+        artifactId: 'build-parent',
+        version: '1',
+        packaging: 'pom',
+        properties: { 'surefire.version': '3.2.5' },
+        build: {
+          pluginManagement: {
+            plugins: {
+              plugin: { artifactId: 'maven-surefire-plugin', version: '${surefire.version}' },
+            },
+          },
+        },
+      },
+      'org.apache.maven.plugins:maven-compiler-plugin:3.13.0': {
+        groupId: 'org.apache.maven.plugins',
+        artifactId: 'maven-compiler-plugin',
+        version: '3.13.0',
+        packaging: 'maven-plugin',
+        dependencies: {
+          dependency: { groupId: 'org.codehaus.plexus', artifactId: 'plexus-java', version: '1.2.0' },
+        },
+      },
+    };
+
+    const projectPom = `<project>
+  <parent>
+    <groupId>org.example</groupId>
+    <artifactId>build-parent</artifactId>
+    <version>1</version>
+  </parent>
+  <artifactId>app</artifactId>
+  <build>
+    <plugins>
+      <plugin>
+        <artifactId>maven-compiler-plugin</artifactId>
+        <version>3.13.0</version>
+        <dependencies>
+          <dependency>
+            <groupId>org.ow2.asm</groupId>
+            <artifactId>asm</artifactId>
+            <version>9.7</version>
+          </dependency>
+        </dependencies>
+      </plugin>
+    </plugins>
+  </build>
+</project>`;
+
+    beforeEach(() => {
+      resolver.clearCache();
+      fetchPomMock.mockReset();
+      fetchPomMock.mockImplementation(async (coordinate: MavenCoordinate) => {
+        return (
+          repositoryPoms[`${coordinate.groupId}:${coordinate.artifactId}:${coordinate.version}`] ?? {
+            groupId: coordinate.groupId,
+            artifactId: coordinate.artifactId,
+            version: coordinate.version,
+            packaging: coordinate.artifactId.endsWith('-plugin') ? 'maven-plugin' : 'jar',
+          }
+        );
+      });
+      vi.spyOn(
+        (resolver as unknown as { axiosInstance: { head: () => Promise<unknown> } }).axiosInstance,
+        'head'
+      ).mockRejectedValue(new Error('offline'));
+    });
+
+    it('라이프사이클 플러그인, 플러그인 의존성, surefire provider, parent POM을 함께 해결한다', async () => {
+      const packages = await resolver.resolveBuildPlugins(projectPom, {
+        testDependencies: [{ name: 'org.junit.jupiter:junit-jupiter-api', version: '5.10.2' }],
+      });
+      const resolved = packages.map((pkg) => `${pkg.name}:${pkg.version}`);
+
+      expect(resolved).toEqual(
+        expect.arrayContaining([
+          'org.apache.maven.plugins:maven-compiler-plugin:3.13.0',
+          'org.codehaus.plexus:plexus-java:1.2.0',
+          'org.ow2.asm:asm:9.7',
+          'org.apache.maven.plugins:maven-surefire-plugin:3.2.5',
+          'org.apache.maven.surefire:surefire-junit-platform:3.2.5',
+          'org.junit.platform:junit-platform-launcher:1.10.2',
+          'org.apache.maven.plugins:maven-jar-plugin:3.3.0',
+          'org.example:build-parent:1',
+        ])
+      );
+      expect(resolved).not.toContain('org.example:app:1');
+      expect(packages.find((pkg) => pkg.name === 'org.example:build-parent')?.metadata?.type).toBe('pom');
+      expect(packages.find((pkg) => pkg.name.endsWith(':maven-compiler-plugin'))?.metadata?.type).toBe(
+        'maven-plugin'
+      );
+    });
+
+    it('프로젝트 POM이 없으면 packaging 기본 플러그인만 해결한다', async () => {
+      const packages = await resolver.resolveBuildPlugins(undefined, { packaging: 'pom' });
+
+      expect(packages.map((pkg) => pkg.name).sort()).toEqual([
+        'org.apache.maven.plugins:maven-clean-plugin',
+        'org.apache.maven.plugins:maven-install-plugin',
+      ]);
+    });
+  });
 });
@@ -48,7 +48,14 @@ import {
 } from '../shared/maven-pom-utils';
 import { MavenBomProcessor } from '../shared/maven-bom-processor';
 import { MAVEN_CONSTANTS } from '../constants/maven';
+import {
+  MavenBuildPlugin,
+  collectBuildPlugins,
+  getLifecyclePlugins,
+  getSurefireProviderDependencies,
+} from '../shared/maven-plugin-utils';
 import { isNativeArtifact } from '../shared/maven-utils';
+import { attachRegistryCredentials } from '../shared/registry-credentials';
 
 /** Maven Resolver 옵션 */
 export interface MavenResolverOptions extends ResolverOptions {
@@ -64,6 +71,16 @@ export interface MavenResolverOptions extends ResolverOptions {
   targetArchitecture?: string;
   /** 사용자 지정 classifier (예: natives-linux, linux-x86_64) */
   classifier?: string;
+  /** 루트의 직접 의존성에서 추가로 포함할 scope (예: 오프라인 빌드용 ['provided', 'test']) */
+  includeRootScopes?: DependencyScope[];
+}
+
+/** 빌드 플러그인 해결 옵션 */
+export interface MavenBuildPluginOptions extends MavenResolverOptions {
+  /** packaging (기본: 프로젝트 POM의 packaging, 없으면 jar) */
+  packaging?: string;
+  /** 프로젝트 테스트 클래스패스 (surefire provider 선택용) */
+  testDependencies?: Array<{ name: string; version: string }>;
 }
 
 // MavenResolutionContext는 maven-queue-processor.ts에서 import됨
@@ -95,6 +112,9 @@ export class MavenResolver implements IResolver {
   /** 캐시 옵션 */
   private cacheOptions: MavenCacheOptions = {};
 
+  /** 저장소에 없는 프로젝트 POM (groupId:artifactId:version -> POM) */
+  private projectPoms = new Map<string, PomProject>();
+
   /** 기본 옵션 */
   private defaultOptions: MavenResolverOptions = {
     algorithm: 'bf',
@@ -111,12 +131,13 @@ export class MavenResolver implements IResolver {
       parseTagValue: false, // 버전 등의 값이 숫자로 변환되지 않도록 (4.0 -> 4 방지)
     });
 
-    this.axiosInstance = axios.create({
+    // 사설 Maven 저장소 인증 (settings.xml servers, registry-credentials)
+    this.axiosInstance = attachRegistryCredentials(axios.create({
       timeout: MAVEN_CONSTANTS.API_TIMEOUT_MS,
       headers: {
         'User-Agent': 'DepsSmuggler/1.0',
       },
-    });
+    }));
 
     this.skipper = new DependencyResolutionSkipper();
 
@@ -172,6 +193,7 @@ export class MavenResolver implements IResolver {
     // 상태 초기화
     this.conflicts = [];
     this.bomProcessor.clearDependencyManagement();
+    this.bomProcessor.clearReferencedPoms();
     this.skipper.clear();
 
     const rootCoordinate: MavenCoordinate = {
@@ -235,6 +257,190 @@ export class MavenResolver implements IResolver {
     }
   }
 
+  /**
+   * 프로젝트 pom.xml 의존성 해결
+   *
+   * 저장소에 배포되지 않은 로컬 pom.xml을 루트로 사용한다. parent POM, properties,
+   * dependencyManagement(BOM import 포함), exclusions는 일반 해결과 같은 규칙을 따르며
+   * flatList에는 프로젝트 자신을 제외한 의존성만 담는다.
+   */
+  async resolveProjectPom(
+    content: string,
+    options?: MavenResolverOptions
+  ): Promise<DependencyResolutionResult> {
+    const { pom, coordinate } = this.parseProjectPom(content);
+    const { groupId, version } = coordinate;
+
+    const projectName = `${groupId}:${pom.artifactId}`;
+    const projectKey = `${projectName}:${version}`;
+    this.projectPoms.set(projectKey, pom);
+
+    try {
+      // classifier는 프로젝트 자신이 아니라 의존성 아티팩트에 적용되므로 루트에는 넘기지 않는다
+      const result = await this.resolveDependencies(projectName, version, {
+        ...options,
+        classifier: undefined,
+      });
+      const flatList = result.flatList.filter(
+        (pkg) => !(pkg.name === projectName && pkg.version === version)
+      );
+
+      return {
+        ...result,
+        flatList,
+        totalSize: flatList.reduce((sum, pkg) => sum + ((pkg.metadata?.size as number) || 0), 0),
+      };
+    } finally {
+      this.projectPoms.delete(projectKey);
+    }
+  }
+
+  /**
+   * 빌드 플러그인 의존성 해결 (오프라인 `mvn package`용)
+   *
+   * packaging의 기본 라이프사이클 플러그인과 프로젝트 `<build><plugins>`(parent 상속, pluginManagement 포함)를
+   * 모아 플러그인마다 의존성을 따로 해결한다. 플러그인에 선언된 `<dependencies>`와 surefire/failsafe
+   * provider도 포함하며, 이 과정에서 참조한 parent/BOM POM은 POM-only 패키지로 함께 반환한다.
+   * 플러그인은 각자 클래스로더를 쓰므로 같은 아티팩트의 여러 버전을 모두 유지한다.
+   *
+   * @param projectPomContent - 프로젝트 pom.xml 내용 (없으면 packaging 기본 플러그인만)
+   */
+  async resolveBuildPlugins(
+    projectPomContent: string | undefined,
+    options: MavenBuildPluginOptions = {}
+  ): Promise<PackageInfo[]> {
+    const { packaging, testDependencies = [], ...resolverOptions } = options;
+    const packages = new Map<string, PackageInfo>();
+    const referencedPoms: PackageInfo[] = [];
+    const add = (pkg: PackageInfo) => {
+      const key = `${pkg.name}@${pkg.version}:${(pkg.metadata?.classifier as string) ?? ''}`;
+      if (!packages.has(key)) {
+        packages.set(key, pkg);
+      }
+    };
+
+    let plugins: MavenBuildPlugin[];
+    if (projectPomContent) {
+      const { pom, coordinate } = this.parseProjectPom(projectPomContent);
+      const chain = await this.loadParentChain(pom, coordinate);
+      referencedPoms.push(...this.getReferencedPoms());
+      plugins = collectBuildPlugins(
+        packaging ?? pom.packaging ?? MAVEN_CONSTANTS.DEFAULT_PACKAGING,
+        chain.poms,
+        chain.properties
+      );
+    } else {
+      plugins = getLifecyclePlugins(packaging ?? MAVEN_CONSTANTS.DEFAULT_PACKAGING);
+    }
+
+    for (const plugin of plugins) {
+      let version = plugin.version;
+      if (!version) {
+        version = await this.getLatestVersion(plugin.groupId, plugin.artifactId);
+        logger.warn('플러그인 버전이 지정되지 않아 최신 버전 사용 (pluginManagement에 버전 고정 권장)', {
+          plugin: `${plugin.groupId}:${plugin.artifactId}`,
+          version,
+        });
+      }
+
+      const roots: PomDependency[] = [
+        { groupId: plugin.groupId, artifactId: plugin.artifactId, version },
+        ...plugin.dependencies,
+        ...getSurefireProviderDependencies({ ...plugin, version }, testDependencies),
+      ];
+
+      for (const root of roots) {
+        const result = await this.resolveDependencies(
+          `${root.groupId}:${root.artifactId}`,
+          root.version as string,
+          { ...resolverOptions, classifier: root.classifier }
+        );
+        result.flatList.forEach(add);
+        referencedPoms.push(...this.getReferencedPoms());
+      }
+    }
+
+    referencedPoms.forEach(add);
+
+    logger.info('Maven 빌드 플러그인 해결 완료', {
+      plugins: plugins.map((plugin) => `${plugin.groupId}:${plugin.artifactId}`),
+      totalPackages: packages.size,
+    });
+
+    return Array.from(packages.values());
+  }
+
+  /**
+   * 직전 해결에서 참조한 parent/BOM POM 목록 (POM-only 패키지)
+   *
+   * `mvn -o`는 effective POM 계산에 이 POM들이 필요하므로 오프라인 빌드용 다운로드에 포함한다.
+   */
+  getReferencedPoms(): PackageInfo[] {
+    return this.bomProcessor.getReferencedPoms().map((coordinate) => ({
+      type: 'maven',
+      name: `${coordinate.groupId}:${coordinate.artifactId}`,
+      version: coordinate.version,
+      metadata: {
+        groupId: coordinate.groupId,
+        artifactId: coordinate.artifactId,
+        type: 'pom',
+      },
+    }));
+  }
+
+  /**
+   * 프로젝트 pom.xml 파싱 및 좌표 계산 (groupId/version은 parent에서 상속 가능)
+   */
+  private parseProjectPom(content: string): { pom: PomProject; coordinate: MavenCoordinate } {
+    const pom = this.parser.parse(content)?.project as PomProject | undefined;
+    if (!pom?.artifactId) {
+      throw new Error('잘못된 pom.xml: <project>에 artifactId가 없습니다');
+    }
+
+    const groupId = pom.groupId || pom.parent?.groupId;
+    const version = resolveProperty(pom.version || pom.parent?.version || '', pom.properties);
+    if (!groupId || !version) {
+      throw new Error(`잘못된 pom.xml: ${pom.artifactId}의 groupId 또는 version이 없습니다`);
+    }
+
+    return { pom, coordinate: { groupId, artifactId: pom.artifactId, version } };
+  }
+
+  /**
+   * 프로젝트 POM부터 parent 체인 로드 (가까운 순서) 및 병합된 프로퍼티 계산
+   */
+  private async loadParentChain(
+    pom: PomProject,
+    coordinate: MavenCoordinate
+  ): Promise<{ poms: PomProject[]; properties: Record<string, string> }> {
+    this.bomProcessor.clearDependencyManagement();
+    this.bomProcessor.clearReferencedPoms();
+    const properties = await this.bomProcessor.processParentPom(pom, coordinate);
+
+    const poms = [pom];
+    let current = pom;
+    let currentGroupId = coordinate.groupId;
+    while (current.parent?.artifactId) {
+      const parentCoordinate: MavenCoordinate = {
+        groupId: current.parent.groupId || currentGroupId,
+        artifactId: current.parent.artifactId,
+        version: resolveProperty(current.parent.version || '', properties),
+      };
+      try {
+        current = await this.fetchPomWithCache(parentCoordinate);
+      } catch {
+        logger.warn('Parent POM 로드 실패 (상속 플러그인 생략)', {
+          parent: coordinateToString(parentCoordinate),
+        });
+        break;
+      }
+      poms.push(current);
+      currentGroupId = parentCoordinate.groupId;
+    }
+
+    return { poms, properties };
+  }
+
   /**
    * BF(너비 우선) 알고리즘으로 의존성 해결
    *
@@ -276,6 +482,7 @@ export class MavenResolver implements IResolver {
       queue: [],
       maxDepth: options.maxDepth ?? MAVEN_CONSTANTS.DEFAULT_MAX_DEPTH,
       includeOptional: options.includeOptionalDependencies ?? false,
+      rootScopes: new Set(options.includeRootScopes ?? []),
       dependencyManagement: this.bomProcessor.getDependencyManagement(),
       rootNode,
       rootKey,
@@ -305,8 +512,8 @@ export class MavenResolver implements IResolver {
     // Parent POM 처리 및 properties 체인 구축
     const resolvedProperties = await this.bomProcessor.processParentPom(rootPom, rootCoordinate);
 
-    // dependencyManagement 처리
-    await this.bomProcessor.processDependencyManagement(rootPom, resolvedProperties);
+    // dependencyManagement 처리 (루트 POM의 직접 선언이 parent보다 우선)
+    await this.bomProcessor.processDependencyManagement(rootPom, resolvedProperties, true);
 
     return resolvedProperties;
   }
@@ -396,6 +603,13 @@ export class MavenResolver implements IResolver {
    * POM 캐시와 함께 조회 (공유 캐시 모듈 사용)
    */
   private async fetchPomWithCache(coordinate: MavenCoordinate): Promise<PomProject> {
+    const projectPom = this.projectPoms.get(
+      `${coordinate.groupId}:${coordinate.artifactId}:${coordinate.version}`
+    );
+    if (projectPom) {
+      return projectPom;
+    }
+
     return fetchPomFromCache(coordinate, {
       repoUrl: this.repoUrl,
       memoryTtl: this.defaultOptions.pomCacheTtl,
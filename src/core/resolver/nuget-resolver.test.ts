@@ -0,0 +1,139 @@
+/**
+ * NuGetResolver 단위 테스트
+ *
+ * nuget-cache를 모킹해 네트워크 없이 NuGet restore의 버전 선택 규칙을 검증합니다.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { fetchNuGetVersions, fetchNuGetNuspec } = vi.hoisted(() => ({
+  fetchNuGetVersions: vi.fn(),
+  fetchNuGetNuspec: vi.fn(),
+}));
+
+vi.mock('../shared/nuget-cache', () => ({
+  fetchNuGetVersions,
+  fetchNuGetNuspec,
+}));
+
+import { NuGetResolver } from './nuget-resolver';
+
+type Groups = Record<string, Record<string, string>>;
+
+/** id → 버전 → 대상 프레임워크별 의존성 (`''`는 공통 그룹) */
+const FEED: Record<string, Record<string, Groups>> = {
+  App: {
+    '1.0.0': { '': { 'Lib.A': '1.0', 'Lib.B': '1.0' } },
+  },
+  'Lib.A': {
+    '1.0.0': {},
+    '1.1.0': {},
+    '2.0.0': {},
+  },
+  'Lib.B': {
+    '1.0.0': { '': { 'Lib.A': '2.0' } },
+  },
+  Cousins: {
+    '1.0.0': { '': { Left: '1.0', Right: '1.0' } },
+  },
+  Left: { '1.0.0': { '': { Shared: '1.0' } } },
+  Right: { '1.0.0': { '': { Shared: '[1.5,2.0)' } } },
+  Shared: {
+    '0.9.0': {},
+    '1.0.0': {},
+    '1.5.0-beta': {},
+    '1.5.0': {},
+    '1.6.0': {},
+  },
+  Multi: {
+    '3.0.0': {
+      '.NETStandard2.0': { 'Polyfill.Memory': '4.5.5' },
+      'net8.0': {},
+    },
+    '3.1.0-preview.1': {},
+  },
+  'Polyfill.Memory': { '4.5.5': {} },
+};
+
+function toNuspec(id: string, version: string, groups: Groups): string {
+  const groupXml = Object.entries(groups).map(([tfm, dependencies]) => {
+    const dependencyXml = Object.entries(dependencies)
+      .map(([dependencyId, range]) => `<dependency id="${dependencyId}" version="${range}" />`)
+      .join('');
+    return tfm ? `<group targetFramework="${tfm}">${dependencyXml}</group>` : `<group>${dependencyXml}</group>`;
+  }).join('');
+  return `<package><metadata><id>${id}</id><version>${version}</version><dependencies>${groupXml}</dependencies></metadata></package>`;
+}
+
+describe('NuGetResolver', () => {
+  let resolver: NuGetResolver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolver = new NuGetResolver();
+    fetchNuGetVersions.mockImplementation(async (id: string) => {
+      const versions = FEED[id];
+      if (!versions) {
+        throw new Error(`NuGet 패키지를 찾을 수 없습니다: ${id}`);
+      }
+      return Object.keys(versions);
+    });
+    fetchNuGetNuspec.mockImplementation(async (id: string, version: string) => toNuspec(id, version, FEED[id][version]));
+  });
+
+  it('범위를 만족하는 가장 낮은 버전과 루트에 가까운 요구를 선택해야 함', async () => {
+    const result = await resolver.resolveDependencies('App', '1.0.0');
+
+    expect(result.flatList.map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      'App@1.0.0',
+      'Lib.A@1.0.0',
+      'Lib.B@1.0.0',
+    ]);
+    expect(result.conflicts).toEqual([
+      { type: 'version', packageName: 'Lib.A', versions: ['2.0', '1.0.0'], resolvedVersion: '1.0.0' },
+    ]);
+    expect(result.root.dependencies.map((node) => node.package.name)).toEqual(['Lib.A', 'Lib.B']);
+    expect(result.root.dependencies[1].dependencies[0].package).toEqual({ type: 'nuget', name: 'Lib.A', version: '1.0.0' });
+  });
+
+  it('같은 깊이의 요구는 각 최저 버전 중 가장 높은 버전을 선택해야 함', async () => {
+    const result = await resolver.resolveDependencies('Cousins', '1.0.0');
+
+    expect(result.flatList.find((pkg) => pkg.name === 'Shared')?.version).toBe('1.5.0');
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('대상 프레임워크에 맞는 의존성 그룹만 따라가야 함', async () => {
+    const net8 = await resolver.resolveDependencies('Multi', '3.0.0', { targetFramework: 'net8.0' });
+    const netstandard = await resolver.resolveDependencies('Multi', '3.0.0', { targetFramework: 'netstandard2.0' });
+    const netframework = await resolver.resolveDependencies('Multi', '3.0.0', { targetFramework: 'net472' });
+
+    expect(net8.flatList.map((pkg) => pkg.name)).toEqual(['Multi']);
+    expect(netstandard.flatList.map((pkg) => pkg.name)).toEqual(['Multi', 'Polyfill.Memory']);
+    expect(netframework.flatList.map((pkg) => pkg.name)).toEqual(['Multi', 'Polyfill.Memory']);
+    await expect(
+      resolver.resolveDependencies('Multi', '3.0.0', { targetFramework: 'uap10.0' })
+    ).rejects.toThrow('지원하지 않는 대상 프레임워크입니다: uap10.0');
+  });
+
+  it('latest는 최신 안정 버전, 범위는 만족하는 가장 낮은 버전으로 해석해야 함', async () => {
+    expect((await resolver.resolveDependencies('Multi', 'latest', { skipDependencyExpansion: true })).flatList)
+      .toEqual([{ type: 'nuget', name: 'Multi', version: '3.0.0' }]);
+    expect((await resolver.resolveDependencies('Shared', '[1.1,)', { skipDependencyExpansion: true })).flatList)
+      .toEqual([{ type: 'nuget', name: 'Shared', version: '1.5.0' }]);
+    await expect(resolver.resolveDependencies('Shared', '9.9.9')).rejects.toThrow(
+      'NuGet 패키지 버전을 찾을 수 없습니다: Shared@9.9.9'
+    );
+  });
+
+  it('maxDepth까지만 의존성을 펼쳐야 함', async () => {
+    const result = await resolver.resolveDependencies('App', '1.0.0', { maxDepth: 1 });
+
+    expect(result.flatList.map((pkg) => pkg.name)).toEqual(['App', 'Lib.A', 'Lib.B']);
+    expect(fetchNuGetNuspec).toHaveBeenCalledTimes(1);
+  });
+
+  it('버전 목록을 최신순으로 반환해야 함', async () => {
+    expect(await resolver.getVersions('Shared')).toEqual(['1.6.0', '1.5.0', '1.5.0-beta', '1.0.0', '0.9.0']);
+  });
+});
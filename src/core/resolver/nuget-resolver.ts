@@ -0,0 +1,226 @@
+/**
+ * NuGet 패키지 리졸버
+ *
+ * NuGet restore의 의존성 해결 규칙을 따른다 (https://learn.microsoft.com/nuget/concepts/dependency-resolution):
+ * 1. 대상 프레임워크(TFM)에 가장 가까운 .nuspec 의존성 그룹만 사용
+ * 2. 범위를 만족하는 가장 낮은 버전 선택 (lowest applicable version)
+ * 3. 그래프에서 루트에 더 가까운 요구가 이김 (nearest wins, 직접 의존성 포함)
+ * 4. 같은 깊이의 여러 요구는 각 요구의 최저 버전 중 가장 높은 버전 선택 (cousin dependencies)
+ *
+ * 이를 위해 깊이 단위로 그래프를 넓혀 가며, 한 깊이의 요구를 모두 모은 뒤 버전을 정한다.
+ */
+
+import {
+  DependencyConflict,
+  DependencyNode,
+  DependencyResolutionResult,
+  IResolver,
+  PackageInfo,
+  ResolverOptions,
+} from '../../types';
+import logger from '../../utils/logger';
+import { NUGET_CONSTANTS } from '../constants/nuget';
+import { fetchNuGetNuspec, fetchNuGetVersions, type NuGetCacheOptions } from '../shared/nuget-cache';
+import type { NuGetDependency } from '../shared/nuget-types';
+import {
+  compareNuGetVersions,
+  isNuGetTargetFramework,
+  parseNuGetVersionRange,
+  parseNuspec,
+  satisfiesNuGetRange,
+  selectLatestNuGetVersion,
+  selectLowestNuGetVersion,
+  selectNuGetDependencyGroup,
+} from '../shared/nuget-utils';
+
+/**
+ * NuGet 리졸버 옵션
+ */
+export interface NuGetResolverOptions extends ResolverOptions, NuGetCacheOptions {
+  /** 대상 프레임워크 (기본값: net8.0) */
+  targetFramework?: string;
+}
+
+/**
+ * 그래프에서 선택된 패키지
+ */
+interface SelectedPackage {
+  id: string;
+  version: string;
+  depth: number;
+}
+
+/**
+ * NuGet 리졸버 클래스
+ */
+export class NuGetResolver implements IResolver {
+  readonly type = 'nuget' as const;
+
+  /**
+   * 패키지 하나의 의존성 해결 (루트 패키지 포함)
+   */
+  async resolveDependencies(
+    name: string,
+    version: string,
+    options: NuGetResolverOptions = {}
+  ): Promise<DependencyResolutionResult> {
+    const targetFramework = options.targetFramework ?? NUGET_CONSTANTS.DEFAULT_TARGET_FRAMEWORK;
+    if (!isNuGetTargetFramework(targetFramework)) {
+      throw new Error(`지원하지 않는 대상 프레임워크입니다: ${targetFramework}`);
+    }
+
+    const rootVersion = await this.resolveVersion(name, version, options);
+    const maxDepth = options.skipDependencyExpansion ? 0 : options.maxDepth ?? Number.POSITIVE_INFINITY;
+    logger.info('NuGet 의존성 해결 시작', { package: name, version: rootVersion, targetFramework });
+
+    const selected = new Map<string, SelectedPackage>();
+    const edges = new Map<string, NuGetDependency[]>();
+    const conflicts: DependencyConflict[] = [];
+
+    const root: SelectedPackage = { id: name, version: rootVersion, depth: 0 };
+    selected.set(name.toLowerCase(), root);
+    let frontier = [root];
+
+    for (let depth = 0; frontier.length > 0 && depth < maxDepth; depth++) {
+      const expanded = await Promise.all(frontier.map(async (node) => {
+        const nuspec = parseNuspec(await fetchNuGetNuspec(node.id, node.version, options));
+        node.id = nuspec.id;
+        const group = selectNuGetDependencyGroup(nuspec.dependencyGroups, targetFramework);
+        if (!group && nuspec.dependencyGroups.length > 0) {
+          logger.warn('대상 프레임워크와 호환되는 의존성 그룹이 없음', {
+            package: `${node.id}@${node.version}`,
+            targetFramework,
+            frameworks: nuspec.dependencyGroups.map((candidate) => candidate.targetFramework),
+          });
+        }
+        return { node, dependencies: group?.dependencies ?? [] };
+      }));
+
+      // 이번 깊이에서 처음 등장한 패키지의 요구를 모두 모은 뒤 버전 결정
+      const requests = new Map<string, NuGetDependency[]>();
+      for (const { node, dependencies } of expanded) {
+        edges.set(node.id.toLowerCase(), dependencies);
+        for (const dependency of dependencies) {
+          const key = dependency.id.toLowerCase();
+          const existing = selected.get(key);
+          if (existing) {
+            if (!satisfiesNuGetRange(existing.version, parseNuGetVersionRange(dependency.range))) {
+              conflicts.push({
+                type: 'version',
+                packageName: existing.id,
+                versions: [dependency.range, existing.version],
+                resolvedVersion: existing.version,
+              });
+            }
+            continue;
+          }
+          requests.set(key, [...(requests.get(key) ?? []), dependency]);
+        }
+      }
+
+      await Promise.all([...requests.values()].map(([dependency]) => fetchNuGetVersions(dependency.id, options)));
+
+      const next: SelectedPackage[] = [];
+      for (const dependencies of requests.values()) {
+        const versions = await fetchNuGetVersions(dependencies[0].id, options);
+        const ranges = dependencies.map((dependency) => parseNuGetVersionRange(dependency.range));
+        const lowest = dependencies.map((dependency, index) => {
+          const candidate = selectLowestNuGetVersion(versions, ranges[index]);
+          if (!candidate) {
+            throw new Error(`요구사항을 만족하는 NuGet 패키지 버전이 없습니다: ${dependency.id} ${dependency.range}`);
+          }
+          return candidate;
+        });
+        const chosen = lowest.sort(compareNuGetVersions)[lowest.length - 1];
+        if (!ranges.every((range) => satisfiesNuGetRange(chosen, range))) {
+          conflicts.push({
+            type: 'version',
+            packageName: dependencies[0].id,
+            versions: dependencies.map((dependency) => dependency.range),
+            resolvedVersion: chosen,
+          });
+        }
+
+        const node: SelectedPackage = { id: dependencies[0].id, version: chosen, depth: depth + 1 };
+        selected.set(node.id.toLowerCase(), node);
+        next.push(node);
+      }
+      frontier = next;
+    }
+
+    if (conflicts.length > 0) {
+      logger.warn('NuGet 버전 충돌 (가까운 요구를 선택)', {
+        conflicts: conflicts.map((conflict) => `${conflict.packageName}: ${conflict.versions.join(' / ')}`),
+      });
+    }
+
+    const flatList = Array.from(selected.values(), toPackageInfo);
+    logger.info('NuGet 의존성 해결 완료', { package: root.id, packages: flatList.length });
+    return {
+      root: buildTree(root.id.toLowerCase(), selected, edges, new Set()),
+      flatList,
+      conflicts,
+      totalSize: 0,
+    };
+  }
+
+  /**
+   * 패키지 버전 목록 조회 (최신순)
+   */
+  async getVersions(name: string, options: NuGetCacheOptions = {}): Promise<string[]> {
+    return [...(await fetchNuGetVersions(name, options))].sort(compareNuGetVersions).reverse();
+  }
+
+  /**
+   * 요청 버전 해석 (`latest`는 최신 안정 버전, 범위는 만족하는 가장 낮은 버전)
+   */
+  private async resolveVersion(name: string, version: string, options: NuGetCacheOptions): Promise<string> {
+    const versions = await fetchNuGetVersions(name, options);
+    const resolved = !version || version === 'latest'
+      ? selectLatestNuGetVersion(versions)
+      : versions.find((candidate) => compareNuGetVersions(candidate, version) === 0)
+        ?? (/^[[(]|\*/.test(version) ? selectLowestNuGetVersion(versions, parseNuGetVersionRange(version)) : undefined);
+
+    if (!resolved) {
+      throw new Error(`NuGet 패키지 버전을 찾을 수 없습니다: ${name}@${version}`);
+    }
+    return resolved;
+  }
+}
+
+function toPackageInfo(pkg: SelectedPackage): PackageInfo {
+  return { type: 'nuget', name: pkg.id, version: pkg.version };
+}
+
+/**
+ * 의존성 트리 (같은 패키지는 처음 등장한 위치에서만 하위 의존성을 펼침)
+ */
+function buildTree(
+  key: string,
+  selected: Map<string, SelectedPackage>,
+  edges: Map<string, NuGetDependency[]>,
+  expanded: Set<string>
+): DependencyNode {
+  const pkg = selected.get(key) as SelectedPackage;
+  expanded.add(key);
+  const dependencies = (edges.get(key) ?? [])
+    .map((dependency) => dependency.id.toLowerCase())
+    .filter((childKey) => selected.has(childKey))
+    .map((childKey) => expanded.has(childKey)
+      ? { package: toPackageInfo(selected.get(childKey) as SelectedPackage), dependencies: [] }
+      : buildTree(childKey, selected, edges, expanded));
+
+  return { package: toPackageInfo(pkg), dependencies };
+}
+
+// 싱글톤 인스턴스
+let nugetResolverInstance: NuGetResolver | null = null;
+
+export function getNuGetResolver(): NuGetResolver {
+  if (!nugetResolverInstance) {
+    nugetResolverInstance = new NuGetResolver();
+  }
+  return nugetResolverInstance;
+}
+
+export { nugetResolverInstance };
@@ -5,10 +5,11 @@
 
 import type {
   OSPackageInfo,
+  OSPackageManager,
   OSPackageSearchResult,
 } from '../downloaders/os-shared/types';
 import type { DependencyResolverOptions } from '../downloaders/os-shared/base-resolver';
-import { compareVersions } from '../shared/version-utils';
+import { compareOSPackages } from '../downloaders/os-shared/version-compare';
 
 export type { DependencyResolverOptions };
 
@@ -54,30 +55,26 @@ export function groupPackagesByName(
 }
 
 /**
- * 버전을 최신순으로 정렬 (내림차순)
+ * 버전을 최신순으로 정렬 (내림차순, 패키지 관리자 버전 규칙)
  */
-export function sortVersionsDescending(packages: OSPackageInfo[]): OSPackageInfo[] {
-  return [...packages].sort((a, b) => {
-    const versionA = String(a.version || '');
-    const versionB = String(b.version || '');
-    try {
-      return compareVersions(versionB, versionA);
-    } catch {
-      return versionB.localeCompare(versionA);
-    }
-  });
+export function sortVersionsDescending(
+  packages: OSPackageInfo[],
+  packageManager: OSPackageManager
+): OSPackageInfo[] {
+  return [...packages].sort((a, b) => compareOSPackages(packageManager, b, a));
 }
 
 /**
  * 그룹화된 패키지를 OSPackageSearchResult 형태로 변환
  */
 export function convertToSearchResults(
-  groupedPackages: Map<string, OSPackageInfo[]>
+  groupedPackages: Map<string, OSPackageInfo[]>,
+  packageManager: OSPackageManager
 ): OSPackageSearchResult[] {
   const results: OSPackageSearchResult[] = [];
 
   for (const [name, versions] of groupedPackages) {
-    const sortedVersions = sortVersionsDescending(versions);
+    const sortedVersions = sortVersionsDescending(versions, packageManager);
     results.push({
       name,
       versions: sortedVersions,
@@ -94,13 +91,14 @@ export function convertToSearchResults(
  * loadMetadata 후에 호출해야 함
  */
 export function searchPackagesCommon(
+  packageManager: OSPackageManager,
   allPackages: OSPackageInfo[],
   query: string,
   matchType: 'exact' | 'partial' | 'wildcard' = 'partial'
 ): OSPackageSearchResult[] {
   const matchingPackages = matchPackagesByQuery(allPackages, query, matchType);
   const groupedByName = groupPackagesByName(matchingPackages);
-  return convertToSearchResults(groupedByName);
+  return convertToSearchResults(groupedByName, packageManager);
 }
 
 /**
@@ -119,13 +117,15 @@ export function createResolverFactory<T>(
       throw new Error(`${name} requires DependencyResolverOptions`);
     }
 
-    const bypassCache = Boolean(options.abortSignal) || Boolean(options.onProgress);
+    const bypassCache =
+      Boolean(options.abortSignal) || Boolean(options.onProgress) || Boolean(options.installedBaseline);
     const currentKey = JSON.stringify({
       distributionId: options.distribution?.id ?? null,
       architecture: options.architecture,
       includeOptional: options.includeOptional,
       includeRecommends: options.includeRecommends,
       repositories: options.repositories.map((repo) => repo.id),
+      moduleStreams: options.moduleStreams ?? [],
     });
 
     if (bypassCache) {
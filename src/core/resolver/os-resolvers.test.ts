@@ -186,4 +186,91 @@ describe('OS dependency resolvers', () => {
     expect(byLibrary).toHaveLength(1);
     expect(byLibrary[0].name).toBe('openssl-libs');
   });
+
+  it('YUM resolver는 선택한 모듈 스트림의 패키지만 남기고 결과에 모듈 메타데이터를 포함한다', async () => {
+    vi.spyOn(YumMetadataParser.prototype, 'parseRepomd').mockResolvedValue({
+      revision: '1',
+      primary: {
+        location: 'repodata/primary.xml.gz',
+        checksum: { type: 'sha256', value: 'deadbeef' },
+      },
+      filelists: null,
+      other: null,
+      modules: {
+        location: 'repodata/modules.yaml.gz',
+        checksum: { type: 'sha256', value: 'cafebabe' },
+      },
+    });
+    const modular = (version: string, release: string): OSPackageInfo => ({
+      ...createPackage('nodejs', version),
+      epoch: 1,
+      release,
+    });
+    vi.spyOn(YumMetadataParser.prototype, 'parsePrimary').mockResolvedValue([
+      { ...createPackage('nodejs', '16.20.2'), epoch: 1, release: '1.el9' },
+      modular('18.14.2', '3.module+el9.2.0+784'),
+      modular('20.12.2', '2.module+el9.4.0+1845'),
+    ]);
+    const stream = (streamName: string, version: string, release: string) => ({
+      name: 'nodejs',
+      stream: streamName,
+      version: '1',
+      context: 'rhel9',
+      arch: 'x86_64',
+      summary: 'Javascript runtime',
+      description: '',
+      license: ['MIT'],
+      profiles: { common: ['nodejs'] },
+      requires: [],
+      artifacts: [`nodejs-1:${version}-${release}.x86_64`],
+    });
+    const parseModules = vi.spyOn(YumMetadataParser.prototype, 'parseModules').mockResolvedValue({
+      streams: [
+        stream('18', '18.14.2', '3.module+el9.2.0+784'),
+        stream('20', '20.12.2', '2.module+el9.4.0+1845'),
+      ],
+      defaults: [{ module: 'nodejs', stream: '18', profiles: {} }],
+    });
+    const resolver = new YumDependencyResolver({
+      ...createOptions(repo),
+      moduleStreams: [{ name: 'nodejs', stream: '20' }],
+    });
+    const testResolver = accessResolverForTest(resolver);
+
+    await testResolver.loadMetadata();
+    const candidates = await testResolver.findPackagesForDependency({ name: 'nodejs' });
+    const result = await resolver.resolveDependencies(candidates);
+
+    expect(parseModules).toHaveBeenCalledWith('repodata/modules.yaml.gz');
+    expect(candidates.map((pkg) => `${pkg.version}:${pkg.moduleStream}`)).toEqual(['20.12.2:nodejs:20']);
+    expect(result.modules?.streams.map((item) => `${item.name}:${item.stream}`)).toEqual(['nodejs:20']);
+  });
+
+  it('YUM resolver는 repomd에 있는 모듈 메타데이터를 읽지 못하면 스트림을 섞지 않고 해결을 중단한다', async () => {
+    vi.spyOn(YumMetadataParser.prototype, 'parseRepomd').mockResolvedValue({
+      revision: '1',
+      primary: {
+        location: 'repodata/primary.xml.gz',
+        checksum: { type: 'sha256', value: 'deadbeef' },
+      },
+      filelists: null,
+      other: null,
+      modules: {
+        location: 'repodata/modules.yaml.bz2',
+        checksum: { type: 'sha256', value: 'cafebabe' },
+      },
+    });
+    vi.spyOn(YumMetadataParser.prototype, 'parsePrimary').mockResolvedValue([
+      { ...createPackage('nodejs', '16.20.2'), epoch: 1, release: '1.el9' },
+      { ...createPackage('nodejs', '20.12.2'), epoch: 1, release: '2.module+el9.4.0+1845' },
+    ]);
+    vi.spyOn(YumMetadataParser.prototype, 'parseModules').mockRejectedValue(
+      new Error('Unsupported compression for module metadata: repodata/modules.yaml.bz2')
+    );
+    const testResolver = accessResolverForTest(new YumDependencyResolver(createOptions(repo)));
+
+    await expect(testResolver.loadMetadata()).rejects.toThrow(
+      'Module metadata could not be loaded, refusing to resolve without modular filtering: Main Repo: Unsupported compression'
+    );
+  });
 });
@@ -15,6 +15,8 @@ import {
   isPrereleaseVersion,
   isVersionCompatible,
   flattenDependencyTree,
+  getMuslPlatformTagPriority,
+  isMuslPlatformTagCompatible,
 } from '../shared';
 import {
   fetchPackageMetadata,
@@ -48,6 +50,8 @@ interface ParsedDependency {
 interface TargetPlatform {
   system?: 'Linux' | 'Windows' | 'Darwin';
   machine?: 'x86_64' | 'aarch64' | 'arm64';
+  libc?: 'glibc' | 'musl';
+  muslVersion?: string;
 }
 
 // BFS 큐 아이템
@@ -263,6 +267,9 @@ export class PipResolver implements IResolver {
           : 'any',
         arch: archMap[this.targetPlatform?.machine || ''] || 'x86_64',
         pythonVersion: this.pythonVersion ?? undefined,
+        ...(this.targetPlatform?.libc === 'musl'
+          ? { libc: 'musl' as const, muslVersion: this.targetPlatform.muslVersion }
+          : {}),
       };
     }
 
@@ -1189,7 +1196,7 @@ export class PipResolver implements IResolver {
     const platformTags = this.extractPlatformTags(release.filename);
     if (platformTags.length === 0) return false;
 
-    const { os, arch, glibcVersion, macosVersion } = this.pipTargetPlatform;
+    const { os, arch, libc, glibcVersion, muslVersion, macosVersion } = this.pipTargetPlatform;
 
     // 플랫폼 무관 wheel (pure Python)
     if (platformTags.some(tag => tag === 'any')) {
@@ -1201,6 +1208,11 @@ export class PipResolver implements IResolver {
       return false;
     }
 
+    // musl 대상 (Alpine 등): musllinux/linux 태그만 허용, manylinux(glibc)는 제외
+    if (os === 'linux' && libc === 'musl') {
+      return platformTags.some(tag => isMuslPlatformTagCompatible(tag, arch, muslVersion));
+    }
+
     // 아키텍처 정규화
     const normalizeArch = (a: string): string => {
       if (a === 'x86_64' || a === 'amd64') return 'x86_64';
@@ -1417,7 +1429,16 @@ export class PipResolver implements IResolver {
 
     // 호환되는 wheel 중 우선순위 선택
     // 우선순위: 1) 정확히 일치하는 glibc/macOS 버전, 2) 가장 높은 호환 버전, 3) pure Python (any)
-    const { os, glibcVersion, macosVersion } = this.pipTargetPlatform;
+    const { os, arch, libc, glibcVersion, muslVersion, macosVersion } = this.pipTargetPlatform;
+
+    // musl 대상은 가장 높은 호환 musllinux 태그 우선
+    if (os === 'linux' && libc === 'musl') {
+      const priority = (w: PyPIRelease) =>
+        getMuslPlatformTagPriority(this.extractPlatformTags(w.filename), arch, muslVersion);
+      return compatibleWheels.reduce((best, wheel) =>
+        priority(wheel) < priority(best) ? wheel : best
+      );
+    }
 
     // 정확히 일치하는 버전 찾기
     if (os === 'linux' && glibcVersion) {
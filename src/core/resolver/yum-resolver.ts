@@ -7,8 +7,27 @@ import { searchPackagesCommon, createResolverFactory } from './os-resolver-utils
 import { BaseOSDependencyResolver, type DependencyResolverOptions } from '../downloaders/os-shared/base-resolver';
 import { OsPackageCache } from '../downloaders/os-shared/cache-manager';
 import { isArchitectureCompatible } from '../downloaders/os-shared/repositories';
+import {
+  applyModuleFilter,
+  EMPTY_MODULE_METADATA,
+  getActiveModuleStreams,
+  getModuleProfilePackages,
+  mergeModuleMetadata,
+  selectModuleMetadata,
+  summarizeModuleStreams,
+  type ModuleStreamSummary,
+} from '../downloaders/os-shared/yum-modules';
 import { YumMetadataParser } from '../shared/yum-metadata-parser';
-import type { OSPackageInfo, PackageDependency, OSPackageSearchResult } from '../downloaders/os-shared/types';
+import type {
+  DependencyResolutionResult,
+  ModuleMetadata,
+  ModuleSelection,
+  ModuleStream,
+  OSPackageInfo,
+  OSPackageSearchResult,
+  PackageDependency,
+  Repository,
+} from '../downloaders/os-shared/types';
 
 /**
  * YUM 의존성 해결기
@@ -17,6 +36,8 @@ export class YumDependencyResolver extends BaseOSDependencyResolver {
   private parsers: Map<string, YumMetadataParser> = new Map();
   private allPackages: OSPackageInfo[] = [];
   private providesMap: Map<string, OSPackageInfo[]> = new Map();
+  private moduleMetadata: ModuleMetadata = EMPTY_MODULE_METADATA;
+  private activeModules: ModuleStream[] = [];
 
   constructor(options: DependencyResolverOptions) {
     super(options);
@@ -31,6 +52,9 @@ export class YumDependencyResolver extends BaseOSDependencyResolver {
     }
 
     const activeRepos = this.options.repositories.filter((r) => r.enabled);
+    const loadedPackages: OSPackageInfo[] = [];
+    const loadedModules: ModuleMetadata[] = [];
+    const moduleErrors: string[] = [];
 
     for (const repo of activeRepos) {
       this.throwIfAborted();
@@ -47,17 +71,33 @@ export class YumDependencyResolver extends BaseOSDependencyResolver {
           this.options.architecture,
           'primary'
         );
+        const modulesCacheKey = OsPackageCache.createKey(
+          'yum',
+          repo,
+          this.options.architecture,
+          'modules'
+        );
         let packages = await this.options.cacheManager?.get<OSPackageInfo[]>(cacheKey);
+        let modules = await this.options.cacheManager?.get<ModuleMetadata>(modulesCacheKey);
 
-        if (!packages) {
+        if (!packages || !modules) {
           const repomd = await parser.parseRepomd();
           if (!repomd.primary) {
             console.warn(`No primary metadata found for ${repo.name}`);
             continue;
           }
 
-          packages = await parser.parsePrimary(repomd.primary.location);
-          await this.options.cacheManager?.set(cacheKey, packages);
+          if (!packages) {
+            packages = await parser.parsePrimary(repomd.primary.location);
+            await this.options.cacheManager?.set(cacheKey, packages);
+          }
+
+          if (!modules) {
+            modules = await this.loadModuleMetadata(parser, repo, repomd.modules?.location, moduleErrors);
+            if (modules) {
+              await this.options.cacheManager?.set(modulesCacheKey, modules);
+            }
+          }
         }
 
         // 아키텍처 필터링
@@ -65,19 +105,9 @@ export class YumDependencyResolver extends BaseOSDependencyResolver {
           isArchitectureCompatible(pkg.architecture, this.options.architecture)
         );
 
-        this.allPackages.push(...compatiblePackages);
-
-        // provides 맵 구축
-        for (const pkg of compatiblePackages) {
-          // 패키지 이름으로 등록
-          this.addToPackageCache(pkg.name, pkg);
-
-          // provides 등록
-          if (pkg.provides) {
-            for (const provide of pkg.provides) {
-              this.addToProvidesCache(provide, pkg);
-            }
-          }
+        loadedPackages.push(...compatiblePackages);
+        if (modules) {
+          loadedModules.push(modules);
         }
 
         this.options.onProgress?.(
@@ -92,6 +122,84 @@ export class YumDependencyResolver extends BaseOSDependencyResolver {
         console.error(`Failed to load metadata from ${repo.name}:`, error);
       }
     }
+
+    // 모듈 정보 없이 필터링하면 여러 스트림의 패키지가 섞이므로 해결을 중단한다
+    if (moduleErrors.length > 0) {
+      throw new Error(
+        `Module metadata could not be loaded, refusing to resolve without modular filtering: ${moduleErrors.join('; ')}`
+      );
+    }
+
+    // 모듈 필터링 (선택한 스트림과 기본 스트림의 패키지만 남김)
+    this.moduleMetadata = mergeModuleMetadata(loadedModules);
+    this.activeModules = getActiveModuleStreams(this.moduleMetadata, this.options.moduleStreams);
+    this.allPackages = applyModuleFilter(loadedPackages, this.moduleMetadata, this.activeModules);
+
+    // provides 맵 구축
+    for (const pkg of this.allPackages) {
+      // 패키지 이름으로 등록
+      this.addToPackageCache(pkg.name, pkg);
+
+      // provides 등록
+      if (pkg.provides) {
+        for (const provide of pkg.provides) {
+          this.addToProvidesCache(provide, pkg);
+        }
+      }
+    }
+  }
+
+  /**
+   * 저장소 모듈 메타데이터 로드 (모듈이 없는 저장소는 빈 메타데이터, 읽지 못하면 errors에 기록하고 undefined)
+   */
+  private async loadModuleMetadata(
+    parser: YumMetadataParser,
+    repo: Repository,
+    location: string | undefined,
+    errors: string[]
+  ): Promise<ModuleMetadata | undefined> {
+    if (!location) {
+      return EMPTY_MODULE_METADATA;
+    }
+
+    try {
+      return await parser.parseModules(location);
+    } catch (error) {
+      if ((error as { name?: string })?.name === 'AbortError') {
+        throw error;
+      }
+      errors.push(`${repo.name}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 의존성 해결 (결과 패키지가 속한 모듈 메타데이터 포함)
+   */
+  override async resolveDependencies(packages: OSPackageInfo[]): Promise<DependencyResolutionResult> {
+    const result = await super.resolveDependencies(packages);
+    const modules = selectModuleMetadata(this.moduleMetadata, [
+      ...result.packages,
+      ...result.conflicts.flatMap((conflict) => conflict.versions),
+    ]);
+
+    return modules.streams.length > 0 ? { ...result, modules } : result;
+  }
+
+  /**
+   * 모듈 스트림 목록
+   */
+  async listModuleStreams(): Promise<ModuleStreamSummary[]> {
+    await this.loadMetadata();
+    return summarizeModuleStreams(this.moduleMetadata, this.activeModules);
+  }
+
+  /**
+   * 모듈 프로필 패키지 이름 (프로필을 고르지 않으면 기본 프로필)
+   */
+  async getModuleProfilePackages(selection: ModuleSelection): Promise<string[]> {
+    await this.loadMetadata();
+    return getModuleProfilePackages(this.moduleMetadata, selection);
   }
 
   /**
@@ -199,7 +307,7 @@ export class YumDependencyResolver extends BaseOSDependencyResolver {
     matchType: 'exact' | 'partial' | 'wildcard' = 'partial'
   ): Promise<OSPackageSearchResult[]> {
     await this.loadMetadata();
-    return searchPackagesCommon(this.allPackages, query, matchType);
+    return searchPackagesCommon(this.options.distribution.packageManager, this.allPackages, query, matchType);
   }
 }
 
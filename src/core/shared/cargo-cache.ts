@@ -0,0 +1,85 @@
+/**
+ * Cargo sparse 인덱스 공유 캐시
+ *
+ * CargoResolver와 CargoDownloader, local-registry 생성이 같은 인덱스 응답을 공유하도록 sparse 프로토콜 요청을 캐시한다.
+ * (https://doc.rust-lang.org/cargo/reference/registry-index.html#sparse-protocol)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import logger from '../../utils/logger';
+import { CARGO_CONSTANTS } from '../constants/cargo';
+import { createMemoryCache } from './cache/cache-store';
+import { DEFAULT_MEMORY_TTL_MS } from './cache-utils';
+import { getCargoIndexPath, parseCargoIndex } from './cargo-utils';
+import type { CargoIndexEntry } from './cargo-types';
+
+/**
+ * 캐시 옵션
+ */
+export interface CargoCacheOptions {
+  /** sparse 인덱스 URL */
+  indexUrl?: string;
+}
+
+const indexCache = createMemoryCache<CargoIndexEntry[]>('cargo', DEFAULT_MEMORY_TTL_MS);
+
+let sharedClient: AxiosInstance | null = null;
+
+function getClient(): AxiosInstance {
+  if (!sharedClient) {
+    sharedClient = axios.create({
+      timeout: CARGO_CONSTANTS.API_TIMEOUT_MS,
+      responseType: 'text',
+      transformResponse: (data) => data,
+    });
+  }
+  return sharedClient;
+}
+
+/**
+ * crate의 인덱스 항목 (게시된 순서, yanked 포함)
+ */
+export async function fetchCargoIndexEntries(
+  name: string,
+  options: CargoCacheOptions = {}
+): Promise<CargoIndexEntry[]> {
+  const { indexUrl = CARGO_CONSTANTS.DEFAULT_INDEX_URL } = options;
+  const url = `${indexUrl.replace(/\/+$/, '')}/${getCargoIndexPath(name)}`;
+
+  const result = await indexCache.getOrFetch(url, async () => {
+    logger.debug('Cargo 인덱스 요청', { url });
+    try {
+      const response = await getClient().get<string>(url);
+      return parseCargoIndex(String(response.data));
+    } catch (error) {
+      // sparse 인덱스는 없는 crate에 404 또는 410(공개하지 않는 crate)을 반환
+      if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 410)) {
+        throw new Error(`crate를 찾을 수 없습니다: ${name}`);
+      }
+      throw error;
+    }
+  });
+  return result.data;
+}
+
+/**
+ * 특정 버전의 인덱스 항목
+ */
+export async function fetchCargoIndexEntry(
+  name: string,
+  version: string,
+  options: CargoCacheOptions = {}
+): Promise<CargoIndexEntry> {
+  const entry = (await fetchCargoIndexEntries(name, options)).find((candidate) => candidate.vers === version);
+  if (!entry) {
+    throw new Error(`crate 버전을 찾을 수 없습니다: ${name}@${version}`);
+  }
+  return entry;
+}
+
+/**
+ * Cargo 캐시 초기화
+ */
+export function clearCargoCache(): void {
+  indexCache.clear();
+}
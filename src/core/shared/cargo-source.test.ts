@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { fetchCargoIndexEntries } = vi.hoisted(() => ({
+  fetchCargoIndexEntries: vi.fn(),
+}));
+
+vi.mock('./cargo-cache', () => ({
+  fetchCargoIndexEntries,
+}));
+
+import { buildCargoSource } from './cargo-source';
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+describe('cargo-source', () => {
+  let tempDir: string;
+  let cratePath: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cargo-source-'));
+
+    // .crate는 <name>-<version>/ 아래에 소스를 담은 tar.gz
+    const stagingDir = path.join(tempDir, 'staging');
+    await fs.outputFile(path.join(stagingDir, 'demo-0.1.0', 'Cargo.toml'), '[package]\nname = "demo"\n');
+    await fs.outputFile(path.join(stagingDir, 'demo-0.1.0', 'src', 'lib.rs'), 'pub fn answer() -> u32 { 42 }\n');
+    cratePath = path.join(tempDir, 'downloads', 'demo-0.1.0.crate');
+    await fs.ensureDir(path.dirname(cratePath));
+    await tar.c({ gzip: true, file: cratePath, cwd: stagingDir }, ['demo-0.1.0']);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('vendor 형식은 crate를 풀고 파일별 sha256과 패키지 체크섬을 .cargo-checksum.json에 기록한다', async () => {
+    const result = await buildCargoSource(
+      tempDir,
+      [{ name: 'demo', version: '0.1.0', filePath: cratePath }],
+      { format: 'vendor' }
+    );
+
+    const crateDir = path.join(tempDir, 'vendor', 'demo-0.1.0');
+    expect(result.sourceDir).toBe(path.join(tempDir, 'vendor'));
+    expect(await fs.readJson(path.join(crateDir, '.cargo-checksum.json'))).toEqual({
+      files: {
+        'Cargo.toml': sha256('[package]\nname = "demo"\n'),
+        'src/lib.rs': sha256('pub fn answer() -> u32 { 42 }\n'),
+      },
+      package: sha256(await fs.readFile(cratePath)),
+    });
+    expect(result.files).toEqual([
+      path.join(crateDir, 'Cargo.toml'),
+      path.join(crateDir, 'src', 'lib.rs'),
+      path.join(crateDir, '.cargo-checksum.json'),
+    ]);
+  });
+
+  it('registry 형식은 crate 파일과 받은 버전만 남긴 sparse 경로 인덱스를 만든다', async () => {
+    const wanted = { name: 'demo', vers: '0.1.0', deps: [], cksum: 'abc', features: {}, yanked: false };
+    fetchCargoIndexEntries.mockResolvedValue([
+      wanted,
+      { name: 'demo', vers: '0.2.0', deps: [], cksum: 'def', features: {}, yanked: false },
+    ]);
+
+    const result = await buildCargoSource(
+      tempDir,
+      [{ name: 'demo', version: '0.1.0', filePath: cratePath }],
+      { format: 'registry' }
+    );
+
+    const registryDir = path.join(tempDir, 'cargo-registry');
+    expect(result.files).toEqual([
+      path.join(registryDir, 'demo-0.1.0.crate'),
+      path.join(registryDir, 'index', 'de', 'mo', 'demo'),
+    ]);
+    expect(await fs.readFile(path.join(registryDir, 'index', 'de', 'mo', 'demo'), 'utf-8')).toBe(
+      `${JSON.stringify(wanted)}\n`
+    );
+    expect(fetchCargoIndexEntries).toHaveBeenCalledWith('demo', { indexUrl: undefined });
+  });
+});
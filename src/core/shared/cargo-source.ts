@@ -0,0 +1,137 @@
+/**
+ * Cargo 오프라인 소스 생성
+ *
+ * 다운로드한 `.crate` 파일로 Cargo가 source replacement로 읽을 수 있는 디렉토리를 만든다.
+ * - vendor: `cargo vendor --versioned-dirs`와 같은 `<name>-<version>/` 디렉토리와 `.cargo-checksum.json`
+ * - registry: local-registry 레이아웃 (`index/`의 sparse 경로 인덱스와 `<name>-<version>.crate`)
+ * (https://doc.rust-lang.org/cargo/reference/source-replacement.html)
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import { fetchCargoIndexEntries } from './cargo-cache';
+import { getCargoCrateFileName, getCargoIndexPath } from './cargo-utils';
+import { CARGO_CONSTANTS } from '../constants/cargo';
+import { calculateFileChecksum } from './integrity/checksum';
+import type { CargoOutputFormat } from '../../types';
+
+/**
+ * 소스에 넣을 crate 파일
+ */
+export interface CargoSourceCrate {
+  name: string;
+  version: string;
+  filePath: string;
+}
+
+/**
+ * 소스 생성 옵션
+ */
+export interface CargoSourceOptions {
+  format: CargoOutputFormat;
+  /** local-registry 인덱스 항목을 가져올 sparse 인덱스 URL */
+  indexUrl?: string;
+}
+
+/**
+ * 소스 생성 결과
+ */
+export interface CargoSourceResult {
+  sourceDir: string;
+  format: CargoOutputFormat;
+  crateCount: number;
+  /** 소스를 구성하는 모든 파일 */
+  files: string[];
+}
+
+/**
+ * vendor 디렉토리 또는 local-registry 생성
+ */
+export async function buildCargoSource(
+  outputDir: string,
+  crates: CargoSourceCrate[],
+  options: CargoSourceOptions
+): Promise<CargoSourceResult> {
+  const sourceDir = path.join(
+    outputDir,
+    options.format === 'vendor' ? CARGO_CONSTANTS.VENDOR_DIR : CARGO_CONSTANTS.REGISTRY_DIR
+  );
+  const files = options.format === 'vendor'
+    ? await buildVendorDirectory(sourceDir, crates)
+    : await buildLocalRegistry(sourceDir, crates, options.indexUrl);
+
+  return { sourceDir, format: options.format, crateCount: crates.length, files };
+}
+
+async function buildVendorDirectory(vendorDir: string, crates: CargoSourceCrate[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const crate of crates) {
+    const crateDir = path.join(vendorDir, `${crate.name}-${crate.version}`);
+    await fs.remove(crateDir);
+    await fs.ensureDir(crateDir);
+    // .crate는 `<name>-<version>/` 최상위 디렉토리를 가진 tar.gz
+    await tar.x({ file: crate.filePath, cwd: crateDir, strip: 1 });
+
+    const checksums: Record<string, string> = {};
+    for (const relativePath of await listFiles(crateDir)) {
+      checksums[relativePath] = await calculateFileChecksum(path.join(crateDir, relativePath), 'sha256');
+      files.push(path.join(crateDir, relativePath));
+    }
+
+    const checksumPath = path.join(crateDir, '.cargo-checksum.json');
+    await fs.writeJson(checksumPath, {
+      files: checksums,
+      package: await calculateFileChecksum(crate.filePath, 'sha256'),
+    });
+    files.push(checksumPath);
+  }
+
+  return files;
+}
+
+async function buildLocalRegistry(
+  registryDir: string,
+  crates: CargoSourceCrate[],
+  indexUrl: string | undefined
+): Promise<string[]> {
+  const files: string[] = [];
+  const versionsByName = new Map<string, Set<string>>();
+
+  for (const crate of crates) {
+    const cratePath = path.join(registryDir, getCargoCrateFileName(crate.name, crate.version));
+    if (path.resolve(crate.filePath) !== path.resolve(cratePath)) {
+      await fs.copy(crate.filePath, cratePath);
+    }
+    files.push(cratePath);
+    versionsByName.set(crate.name, (versionsByName.get(crate.name) ?? new Set()).add(crate.version));
+  }
+
+  // 인덱스에는 받은 버전만 남겨 Cargo가 없는 crate 파일을 고르지 않게 함
+  for (const [name, versions] of versionsByName) {
+    const entries = (await fetchCargoIndexEntries(name, { indexUrl })).filter((entry) => versions.has(entry.vers));
+    const indexPath = path.join(registryDir, 'index', ...getCargoIndexPath(name).split('/'));
+    await fs.outputFile(indexPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+    files.push(indexPath);
+  }
+
+  return files;
+}
+
+/**
+ * 디렉토리 안의 모든 파일 (`/` 구분 상대 경로, 이름순)
+ */
+async function listFiles(rootDir: string, prefix = ''): Promise<string[]> {
+  const result: string[] = [];
+  const entries = await fs.readdir(path.join(rootDir, prefix), { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      result.push(...(await listFiles(rootDir, relativePath)));
+    } else if (entry.isFile()) {
+      result.push(relativePath);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,350 @@
+/**
+ * Cargo.toml/Cargo.lock용 TOML 파서
+ *
+ * Cargo 파일에 쓰이는 TOML 1.0 문법(테이블, 배열 테이블, 점 표기 키, 문자열, 인라인 테이블, 여러 줄 배열)을 지원한다.
+ * 날짜/시간 값은 해석하지 않고 원문 문자열로 남긴다.
+ */
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+const BARE_KEY_PATTERN = /[A-Za-z0-9_-]/;
+const BARE_VALUE_END_PATTERN = /[\s,\]}#]/;
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+};
+
+class TomlParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parseDocument(): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.pos >= this.text.length) {
+        return root;
+      }
+
+      if (this.text.startsWith('[[', this.pos)) {
+        this.pos += 2;
+        const keys = this.parseKey(']]');
+        this.expect(']]');
+        const parent = this.getTable(root, keys.slice(0, -1));
+        const last = keys[keys.length - 1];
+        const existing = parent[last] ?? [];
+        if (!Array.isArray(existing)) {
+          this.fail(`배열 테이블이 아닌 키입니다: ${keys.join('.')}`);
+        }
+        const table: TomlTable = {};
+        existing.push(table);
+        parent[last] = existing;
+        current = table;
+      } else if (this.text[this.pos] === '[') {
+        this.pos += 1;
+        const keys = this.parseKey(']');
+        this.expect(']');
+        current = this.getTable(root, keys);
+      } else {
+        const keys = this.parseKey('=');
+        this.expect('=');
+        this.skipWhitespace();
+        const value = this.parseValue();
+        const parent = this.getTable(current, keys.slice(0, -1));
+        parent[keys[keys.length - 1]] = value;
+      }
+
+      this.expectLineEnd();
+    }
+  }
+
+  /**
+   * 점 표기 키 (`a."b.c".d`)
+   */
+  private parseKey(terminator: string): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === '"') {
+        keys.push(this.parseBasicString());
+      } else if (char === "'") {
+        keys.push(this.parseLiteralString());
+      } else {
+        const start = this.pos;
+        while (this.pos < this.text.length && BARE_KEY_PATTERN.test(this.text[this.pos])) {
+          this.pos += 1;
+        }
+        if (start === this.pos) {
+          this.fail('키가 필요합니다');
+        }
+        keys.push(this.text.slice(start, this.pos));
+      }
+
+      this.skipWhitespace();
+      if (this.text[this.pos] === '.') {
+        this.pos += 1;
+        continue;
+      }
+      if (!this.text.startsWith(terminator, this.pos)) {
+        this.fail(`'${terminator}'가 필요합니다`);
+      }
+      return keys;
+    }
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.text[this.pos];
+    if (this.text.startsWith('"""', this.pos)) {
+      return this.parseMultilineString('"""');
+    }
+    if (this.text.startsWith("'''", this.pos)) {
+      return this.parseMultilineString("'''");
+    }
+    if (char === '"') {
+      return this.parseBasicString();
+    }
+    if (char === "'") {
+      return this.parseLiteralString();
+    }
+    if (char === '[') {
+      return this.parseArray();
+    }
+    if (char === '{') {
+      return this.parseInlineTable();
+    }
+
+    const start = this.pos;
+    while (this.pos < this.text.length && !BARE_VALUE_END_PATTERN.test(this.text[this.pos])) {
+      this.pos += 1;
+    }
+    const token = this.text.slice(start, this.pos);
+    if (!token) {
+      this.fail('값이 필요합니다');
+    }
+    if (token === 'true' || token === 'false') {
+      return token === 'true';
+    }
+    const numeric = token.replace(/_/g, '');
+    if (/^[+-]?(\d+(\.\d+)?([eE][+-]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+)$/.test(numeric)) {
+      return Number(numeric);
+    }
+    // 날짜/시간 등은 원문 유지
+    return token;
+  }
+
+  private parseBasicString(): string {
+    this.pos += 1;
+    let result = '';
+    for (;;) {
+      const char = this.text[this.pos];
+      if (char === undefined || char === '\n') {
+        this.fail('닫히지 않은 문자열입니다');
+      }
+      this.pos += 1;
+      if (char === '"') {
+        return result;
+      }
+      result += char === '\\' ? this.parseEscape() : char;
+    }
+  }
+
+  private parseLiteralString(): string {
+    const end = this.text.indexOf("'", this.pos + 1);
+    const newline = this.text.indexOf('\n', this.pos + 1);
+    if (end === -1 || (newline !== -1 && newline < end)) {
+      this.fail('닫히지 않은 문자열입니다');
+    }
+    const result = this.text.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return result;
+  }
+
+  private parseMultilineString(delimiter: '"""' | "'''"): string {
+    this.pos += 3;
+    // 여는 구분자 바로 뒤의 줄바꿈은 내용에서 제외
+    if (this.text.startsWith('\r\n', this.pos)) {
+      this.pos += 2;
+    } else if (this.text[this.pos] === '\n') {
+      this.pos += 1;
+    }
+
+    let result = '';
+    for (;;) {
+      if (this.pos >= this.text.length) {
+        this.fail('닫히지 않은 여러 줄 문자열입니다');
+      }
+      if (this.text.startsWith(delimiter, this.pos)) {
+        // 닫는 구분자 앞의 따옴표(최대 2개)는 내용에 포함
+        let end = this.pos + 3;
+        while (end < this.pos + 5 && this.text[end] === delimiter[0]) {
+          end += 1;
+        }
+        result += this.text.slice(this.pos, end - 3);
+        this.pos = end;
+        return result;
+      }
+
+      const char = this.text[this.pos];
+      this.pos += 1;
+      if (delimiter === '"""' && char === '\\') {
+        // 줄 끝 역슬래시는 다음 공백/줄바꿈까지 이어 붙임
+        const rest = /^[ \t]*\r?\n[\s]*/.exec(this.text.slice(this.pos));
+        if (rest) {
+          this.pos += rest[0].length;
+          continue;
+        }
+        result += this.parseEscape();
+      } else {
+        result += char;
+      }
+    }
+  }
+
+  private parseEscape(): string {
+    const char = this.text[this.pos];
+    this.pos += 1;
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = this.text.slice(this.pos, this.pos + length);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+        this.fail('잘못된 유니코드 이스케이프입니다');
+      }
+      this.pos += length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    const escaped = ESCAPES[char];
+    if (escaped === undefined) {
+      this.fail(`잘못된 이스케이프입니다: \\${char}`);
+    }
+    return escaped;
+  }
+
+  private parseArray(): TomlValue[] {
+    this.pos += 1;
+    const values: TomlValue[] = [];
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.text[this.pos] === ']') {
+        this.pos += 1;
+        return values;
+      }
+      values.push(this.parseValue());
+      this.skipWhitespaceAndComments(true);
+      if (this.text[this.pos] === ',') {
+        this.pos += 1;
+      } else if (this.text[this.pos] !== ']') {
+        this.fail("',' 또는 ']'가 필요합니다");
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.pos += 1;
+    const table: TomlTable = {};
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.text[this.pos] === '}') {
+        this.pos += 1;
+        return table;
+      }
+      const keys = this.parseKey('=');
+      this.expect('=');
+      this.skipWhitespace();
+      const value = this.parseValue();
+      this.getTable(table, keys.slice(0, -1))[keys[keys.length - 1]] = value;
+      this.skipWhitespaceAndComments(true);
+      if (this.text[this.pos] === ',') {
+        this.pos += 1;
+      } else if (this.text[this.pos] !== '}') {
+        this.fail("',' 또는 '}'가 필요합니다");
+      }
+    }
+  }
+
+  /**
+   * 키 경로의 테이블 (없으면 생성, 배열 테이블은 마지막 항목)
+   */
+  private getTable(root: TomlTable, keys: string[]): TomlTable {
+    let table = root;
+    for (const key of keys) {
+      let next = table[key];
+      if (next === undefined) {
+        next = {};
+        table[key] = next;
+      }
+      if (Array.isArray(next)) {
+        next = next[next.length - 1];
+      }
+      if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+        this.fail(`테이블이 아닌 키입니다: ${keys.join('.')}`);
+      }
+      table = next;
+    }
+    return table;
+  }
+
+  private skipWhitespace(): void {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') {
+      this.pos += 1;
+    }
+  }
+
+  private skipWhitespaceAndComments(newlines: boolean): void {
+    for (;;) {
+      const char = this.text[this.pos];
+      if (char === ' ' || char === '\t' || (newlines && (char === '\n' || char === '\r'))) {
+        this.pos += 1;
+      } else if (char === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') {
+          this.pos += 1;
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expect(token: string): void {
+    this.skipWhitespace();
+    if (!this.text.startsWith(token, this.pos)) {
+      this.fail(`'${token}'가 필요합니다`);
+    }
+    this.pos += token.length;
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespaceAndComments(false);
+    if (this.text[this.pos] === '\r') {
+      this.pos += 1;
+    }
+    if (this.pos < this.text.length && this.text[this.pos] !== '\n') {
+      this.fail('한 줄에 값이 하나 이상 있습니다');
+    }
+  }
+
+  private fail(message: string): never {
+    const line = this.text.slice(0, this.pos).split('\n').length;
+    throw new Error(`TOML 파싱 실패 (${line}번째 줄): ${message}`);
+  }
+}
+
+/**
+ * TOML 문서 파싱
+ */
+export function parseToml(content: string): TomlTable {
+  return new TomlParser(content.replace(/^\uFEFF/, '')).parseDocument();
+}
@@ -0,0 +1,77 @@
+/**
+ * Cargo sparse 인덱스 및 Cargo.toml/Cargo.lock 관련 타입 정의
+ */
+
+/**
+ * 인덱스 항목의 의존성 (https://doc.rust-lang.org/cargo/reference/registry-index.html#json-schema)
+ */
+export interface CargoIndexDependency {
+  /** 의존성 이름 (이름을 바꾼 경우 바뀐 이름, 실제 crate는 package) */
+  name: string;
+  req: string;
+  features: string[];
+  optional: boolean;
+  default_features: boolean;
+  target: string | null;
+  kind: 'normal' | 'dev' | 'build' | null;
+  registry?: string | null;
+  package?: string | null;
+}
+
+/**
+ * sparse 인덱스 파일의 한 줄 (crate 버전 하나)
+ */
+export interface CargoIndexEntry {
+  name: string;
+  vers: string;
+  deps: CargoIndexDependency[];
+  /** .crate 파일의 sha256 (hex) */
+  cksum: string;
+  features: Record<string, string[]>;
+  /** `dep:`/`?/` 문법을 쓰는 기능 (스키마 v2) */
+  features2?: Record<string, string[]>;
+  yanked: boolean;
+  links?: string | null;
+  v?: number;
+  rust_version?: string | null;
+}
+
+/**
+ * Cargo.lock의 [[package]] 항목
+ */
+export interface CargoLockPackage {
+  name: string;
+  version: string;
+  /** 없으면 워크스페이스 멤버 또는 path 의존성 */
+  source?: string;
+  checksum?: string;
+}
+
+/**
+ * Cargo.toml의 의존성 선언
+ */
+export interface CargoManifestDependency {
+  /** 의존성 이름 (테이블 키) */
+  name: string;
+  /** 실제 crate 이름 (`package = "..."`로 이름을 바꾼 경우) */
+  package?: string;
+  req: string;
+  features: string[];
+  optional: boolean;
+  defaultFeatures: boolean;
+  kind: 'normal' | 'dev' | 'build';
+  /** `[target.'cfg(...)'.dependencies]`의 대상 */
+  target?: string;
+}
+
+/**
+ * 파싱된 Cargo.toml (의존성 해결에 필요한 부분만)
+ */
+export interface CargoManifest {
+  name?: string;
+  version?: string;
+  dependencies: CargoManifestDependency[];
+  features: Record<string, string[]>;
+  /** crates.io에서 받을 수 없는 의존성 (path/git/workspace 상속) */
+  skipped: Array<{ name: string; reason: 'path' | 'git' | 'workspace' }>;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { parseToml } from './cargo-toml';
+import {
+  detectCargoProjectFileFormat,
+  getCargoIndexPath,
+  isCargoProjectPackage,
+  parseCargoLock,
+  parseCargoManifest,
+  toCargoProjectPackageInfo,
+  toSemverRange,
+} from './cargo-utils';
+
+describe('cargo-utils', () => {
+  it('이름 길이에 따라 sparse 인덱스 경로를 만들어야 함', () => {
+    expect(getCargoIndexPath('a')).toBe('1/a');
+    expect(getCargoIndexPath('cc')).toBe('2/cc');
+    expect(getCargoIndexPath('syn')).toBe('3/s/syn');
+    expect(getCargoIndexPath('Serde_JSON')).toBe('se/rd/serde_json');
+  });
+
+  it('Cargo 요구사항을 node-semver 범위로 변환해야 함', () => {
+    expect(toSemverRange('1.0')).toBe('^1.0');
+    expect(toSemverRange('0.2.3')).toBe('^0.2.3');
+    expect(toSemverRange('>= 1.2, < 1.5')).toBe('>=1.2 <1.5');
+    expect(toSemverRange('~1.2')).toBe('~1.2');
+    expect(toSemverRange('=1.0.1')).toBe('=1.0.1');
+    expect(toSemverRange('1.*')).toBe('1.*');
+    expect(toSemverRange('*')).toBe('*');
+  });
+
+  it('TOML의 점 표기 키, 따옴표 키, 인라인 테이블, 여러 줄 배열/문자열을 파싱해야 함', () => {
+    const document = parseToml(`
+# 주석
+[package]
+name = "app" # 줄 끝 주석
+description = """
+여러 줄
+설명"""
+authors = [
+  "a <a@example.com>",  # 주석
+  'b',
+]
+
+[target.'cfg(unix)'.dependencies]
+libc = { version = "0.2", default-features = false }
+
+[dependencies.serde]
+version = "1"
+features = ["derive"]
+`);
+
+    expect(document.package).toEqual({
+      name: 'app',
+      description: '여러 줄\n설명',
+      authors: ['a <a@example.com>', 'b'],
+    });
+    expect(document.target).toEqual({
+      'cfg(unix)': { dependencies: { libc: { version: '0.2', 'default-features': false } } },
+    });
+    expect(document.dependencies).toEqual({ serde: { version: '1', features: ['derive'] } });
+    expect(() => parseToml('name = "unterminated\n')).toThrow('1번째 줄');
+  });
+
+  it('Cargo.lock의 [[package]] 항목을 파싱해야 함', () => {
+    const packages = parseCargoLock(`# This file is automatically @generated by Cargo.
+version = 3
+
+[[package]]
+name = "app"
+version = "0.1.0"
+dependencies = [
+ "serde",
+]
+
+[[package]]
+name = "serde"
+version = "1.0.193"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+checksum = "25dd9975e68d0cb5aa1120c288333fc98731bd1dd12f561e468ea4728c042b89"
+`);
+
+    expect(packages).toEqual([
+      { name: 'app', version: '0.1.0', source: undefined, checksum: undefined },
+      {
+        name: 'serde',
+        version: '1.0.193',
+        source: 'registry+https://github.com/rust-lang/crates.io-index',
+        checksum: '25dd9975e68d0cb5aa1120c288333fc98731bd1dd12f561e468ea4728c042b89',
+      },
+    ]);
+  });
+
+  it('Cargo.toml의 의존성 테이블과 target 의존성을 모으고 path/git/workspace는 건너뛰어야 함', () => {
+    const manifest = parseCargoManifest(`
+[package]
+name = "app"
+version = "0.1.0"
+
+[features]
+default = ["json"]
+json = ["dep:serde_json"]
+
+[dependencies]
+serde = { version = "1.0", features = ["derive"] }
+serde_json = { version = "1", optional = true }
+http-types = { package = "http", version = "0.2" }
+local = { path = "../local" }
+forked = { git = "https://example.com/forked.git" }
+shared.workspace = true
+
+[dev-dependencies]
+tempfile = "3"
+
+[target.'cfg(windows)'.build-dependencies]
+winres = "0.1"
+`);
+
+    expect(manifest.name).toBe('app');
+    expect(manifest.features).toEqual({ default: ['json'], json: ['dep:serde_json'] });
+    expect(manifest.dependencies).toEqual([
+      { name: 'serde', package: undefined, req: '1.0', features: ['derive'], optional: false, defaultFeatures: true, kind: 'normal', target: undefined },
+      { name: 'serde_json', package: undefined, req: '1', features: [], optional: true, defaultFeatures: true, kind: 'normal', target: undefined },
+      { name: 'http-types', package: 'http', req: '0.2', features: [], optional: false, defaultFeatures: true, kind: 'normal', target: undefined },
+      { name: 'tempfile', req: '3', features: [], optional: false, defaultFeatures: true, kind: 'dev', target: undefined },
+      { name: 'winres', req: '0.1', features: [], optional: false, defaultFeatures: true, kind: 'build', target: 'cfg(windows)' },
+    ]);
+    expect(manifest.skipped).toEqual([
+      { name: 'local', reason: 'path' },
+      { name: 'forked', reason: 'git' },
+      { name: 'shared', reason: 'workspace' },
+    ]);
+  });
+
+  it('Cargo 프로젝트 파일과 해결된 패키지를 구분해야 함', () => {
+    expect(detectCargoProjectFileFormat('/work/app/Cargo.lock')).toBe('lockfile');
+    expect(detectCargoProjectFileFormat('C:\\work\\app\\Cargo.toml')).toBe('manifest');
+    expect(detectCargoProjectFileFormat('/work/app/yarn.lock')).toBeNull();
+
+    const pkg = toCargoProjectPackageInfo({ type: 'cargo', name: 'serde', version: '1.0.193' });
+    expect(isCargoProjectPackage(pkg)).toBe(true);
+    expect(isCargoProjectPackage({ type: 'cargo', metadata: {} })).toBe(false);
+  });
+});
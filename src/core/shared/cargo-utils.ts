@@ -0,0 +1,245 @@
+/**
+ * Cargo sparse 인덱스/Cargo.toml/Cargo.lock 유틸리티
+ */
+
+import { parseToml, TomlTable, TomlValue } from './cargo-toml';
+import { PackageInfo } from '../../types';
+import { CARGO_CONSTANTS } from '../constants/cargo';
+import type {
+  CargoIndexEntry,
+  CargoLockPackage,
+  CargoManifest,
+  CargoManifestDependency,
+} from './cargo-types';
+
+export type CargoProjectFileFormat = 'lockfile' | 'manifest';
+
+const DEPENDENCY_TABLES: Array<[string, CargoManifestDependency['kind']]> = [
+  ['dependencies', 'normal'],
+  ['dev-dependencies', 'dev'],
+  ['dev_dependencies', 'dev'],
+  ['build-dependencies', 'build'],
+  ['build_dependencies', 'build'],
+];
+
+const REQ_COMPARATOR_PATTERN = /^(\^|~|=|>=|<=|>|<)?\s*(.+)$/;
+
+/**
+ * sparse 인덱스의 crate 파일 경로 (이름 길이에 따라 `1/`, `2/`, `3/<첫 글자>/`, `<앞 2글자>/<다음 2글자>/`)
+ */
+export function getCargoIndexPath(name: string): string {
+  const lower = name.toLowerCase();
+  if (lower.length <= 2) {
+    return `${lower.length}/${lower}`;
+  }
+  if (lower.length === 3) {
+    return `3/${lower[0]}/${lower}`;
+  }
+  return `${lower.slice(0, 2)}/${lower.slice(2, 4)}/${lower}`;
+}
+
+/**
+ * `.crate` 파일 이름
+ */
+export function getCargoCrateFileName(name: string, version: string): string {
+  return `${name}-${version}.crate`;
+}
+
+/**
+ * sparse 인덱스 파일 파싱 (한 줄에 버전 하나인 JSON Lines)
+ */
+export function parseCargoIndex(content: string): CargoIndexEntry[] {
+  return content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as CargoIndexEntry);
+}
+
+/**
+ * Cargo 버전 요구사항을 node-semver 범위로 변환
+ *
+ * Cargo는 연산자가 없는 요구사항을 캐럿(^)으로 해석하고 비교자를 쉼표로 구분한다.
+ */
+export function toSemverRange(req: string): string {
+  const comparators = req
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (comparators.length === 0) {
+    return '*';
+  }
+
+  return comparators
+    .map((comparator) => {
+      const [, operator, version] = REQ_COMPARATOR_PATTERN.exec(comparator) ?? [];
+      if (!version) {
+        return comparator;
+      }
+      if (operator) {
+        return `${operator}${version}`;
+      }
+      return version.includes('*') ? version : `^${version}`;
+    })
+    .join(' ');
+}
+
+/**
+ * crates.io 소스인지 확인 (Cargo.lock의 source 필드)
+ */
+export function isCratesIoSource(source: string | undefined): boolean {
+  return Boolean(source) && (CARGO_CONSTANTS.CRATES_IO_SOURCES as readonly string[]).includes(source as string);
+}
+
+/**
+ * Cargo.lock 파싱 (모든 [[package]] 항목)
+ */
+export function parseCargoLock(content: string): CargoLockPackage[] {
+  const document = parseToml(content);
+  const packages = Array.isArray(document.package) ? document.package : [];
+
+  return packages.flatMap((entry) => {
+    if (!isTable(entry) || typeof entry.name !== 'string' || typeof entry.version !== 'string') {
+      return [];
+    }
+    return [
+      {
+        name: entry.name,
+        version: entry.version,
+        source: typeof entry.source === 'string' ? entry.source : undefined,
+        checksum: typeof entry.checksum === 'string' ? entry.checksum : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Cargo.toml 파싱 (패키지 정보, 의존성, 기능)
+ *
+ * path/git 의존성과 워크스페이스 상속(`workspace = true`)은 crates.io에서 받을 수 없어 skipped로 분리한다.
+ */
+export function parseCargoManifest(content: string): CargoManifest {
+  const document = parseToml(content);
+  const pkg = isTable(document.package) ? document.package : {};
+  const manifest: CargoManifest = {
+    name: typeof pkg.name === 'string' ? pkg.name : undefined,
+    version: typeof pkg.version === 'string' ? pkg.version : undefined,
+    dependencies: [],
+    features: {},
+    skipped: [],
+  };
+
+  if (isTable(document.features)) {
+    for (const [feature, values] of Object.entries(document.features)) {
+      manifest.features[feature] = toStringArray(values);
+    }
+  }
+
+  const collect = (table: TomlTable, target?: string) => {
+    for (const [tableName, kind] of DEPENDENCY_TABLES) {
+      const dependencies = table[tableName];
+      if (!isTable(dependencies)) {
+        continue;
+      }
+      for (const [name, value] of Object.entries(dependencies)) {
+        const parsed = parseManifestDependency(name, value, kind, target);
+        if ('reason' in parsed) {
+          manifest.skipped.push(parsed);
+        } else {
+          manifest.dependencies.push(parsed);
+        }
+      }
+    }
+  };
+
+  collect(document);
+  if (isTable(document.target)) {
+    for (const [target, table] of Object.entries(document.target)) {
+      if (isTable(table)) {
+        collect(table, target);
+      }
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Cargo 프로젝트 파일 형식 감지
+ */
+export function detectCargoProjectFileFormat(fileName: string): CargoProjectFileFormat | null {
+  const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+
+  if (baseName === 'Cargo.lock') {
+    return 'lockfile';
+  }
+  if (baseName === 'Cargo.toml') {
+    return 'manifest';
+  }
+  return null;
+}
+
+/**
+ * Cargo.lock/Cargo.toml에서 해결한 패키지인지 확인 (이미 해결된 목록이므로 다시 해결하지 않음)
+ */
+export function isCargoProjectPackage(pkg: { type: string; metadata?: Record<string, unknown> }): boolean {
+  return pkg.type === 'cargo' && pkg.metadata?.projectFile === 'cargo';
+}
+
+/**
+ * Cargo 프로젝트 파일 해결 결과를 프로젝트 파일 패키지로 표시
+ */
+export function toCargoProjectPackageInfo(pkg: PackageInfo): PackageInfo {
+  return {
+    ...pkg,
+    metadata: {
+      ...pkg.metadata,
+      projectFile: 'cargo',
+    },
+  };
+}
+
+function parseManifestDependency(
+  name: string,
+  value: TomlValue,
+  kind: CargoManifestDependency['kind'],
+  target: string | undefined
+): CargoManifestDependency | CargoManifest['skipped'][number] {
+  if (typeof value === 'string') {
+    return { name, req: value, features: [], optional: false, defaultFeatures: true, kind, target };
+  }
+  if (!isTable(value)) {
+    return { name, req: '*', features: [], optional: false, defaultFeatures: true, kind, target };
+  }
+
+  if (value.workspace === true) {
+    return { name, reason: 'workspace' };
+  }
+  // path가 있으면 version이 있어도 로컬 경로를 사용 (version은 배포용)
+  if (typeof value.path === 'string') {
+    return { name, reason: 'path' };
+  }
+  if (typeof value.git === 'string') {
+    return { name, reason: 'git' };
+  }
+
+  const defaultFeatures = value['default-features'] ?? value.default_features;
+  return {
+    name,
+    package: typeof value.package === 'string' ? value.package : undefined,
+    req: typeof value.version === 'string' ? value.version : '*',
+    features: toStringArray(value.features),
+    optional: value.optional === true,
+    defaultFeatures: defaultFeatures !== false,
+    kind,
+    target,
+  };
+}
+
+function isTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringArray(value: TomlValue | undefined): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
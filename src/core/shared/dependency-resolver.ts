@@ -1,12 +1,16 @@
 // 공통 의존성 해결 모듈
 import { getPipResolver } from '../resolver/pip-resolver';
-import { getMavenResolver } from '../resolver/maven-resolver';
+import { getMavenResolver, type MavenResolverOptions } from '../resolver/maven-resolver';
 import { getCondaResolver } from '../resolver/conda-resolver';
 import { getNpmResolver } from '../resolver/npm-resolver';
 import { getYumResolver } from '../resolver/yum-resolver';
 import { getAptResolver } from '../resolver/apt-resolver';
 import { getApkResolver } from '../resolver/apk-resolver';
+import { getGoResolver } from '../resolver/go-resolver';
+import { getCargoResolver } from '../resolver/cargo-resolver';
+import { getNuGetResolver } from '../resolver/nuget-resolver';
 import { getDistributionById } from '../downloaders/os-shared/repos/repository-utils';
+import { parseModuleSpec } from '../downloaders/os-shared/yum-modules';
 import { DownloadPackage } from './types';
 import {
   DependencyResolutionResult,
@@ -17,6 +21,19 @@ import { NpmResolutionResult } from './npm-types';
 import type { OSPackageInfo, OSArchitecture } from '../downloaders/os-shared/types';
 import logger from '../../utils/logger';
 import { getPackageArtifactKey } from './dependency-tree-utils';
+import { isNpmLockedPackage } from './npm-lockfile';
+import {
+  isMavenProjectPackage,
+  parseGradleLockfile,
+  toMavenProjectPackageInfo,
+  type MavenProjectFileFormat,
+} from './maven-project-file';
+import { isGoProjectPackage, toGoProjectPackageInfo } from './go-module-utils';
+import {
+  isCargoProjectPackage,
+  toCargoProjectPackageInfo,
+  type CargoProjectFileFormat,
+} from './cargo-utils';
 
 /**
  * 의존성 해결 진행 상황 콜백
@@ -163,6 +180,8 @@ export interface ResolvedPackageList {
 export interface OSDistributionSetting {
   id: string;
   architecture: string;
+  /** yum 모듈 스트림 (name:stream[/profile]) */
+  moduleStreams?: string[];
 }
 
 /**
@@ -184,11 +203,15 @@ export interface DependencyResolverOptions {
   /** 아키텍처 (기본값: 'x86_64') */
   architecture?: string;
   /** 타겟 OS (pip/conda 휠 필터링용, 폐쇄망 OS) */
-  targetOS?: 'any' | 'windows' | 'macos' | 'linux';
+  targetOS?: 'any' | 'windows' | 'macos' | 'linux' | 'linux-musl';
   /** Python 버전 (pip 호환성 필터링용, 예: '3.12', '3.12.2') */
   pythonVersion?: string;
+  /** musl 버전 (targetOS가 linux-musl일 때 musllinux 태그 범위, 예: '1.2') */
+  muslVersion?: string;
   /** CUDA 버전 (conda 패키지의 __cuda 의존성 필터링용, 예: '11.8', '12.4') */
   cudaVersion?: string | null;
+  /** .NET 대상 프레임워크 (nuget 의존성 그룹 선택용, 예: 'net8.0', 'netstandard2.0') */
+  targetFramework?: string;
   /** 진행 상황 콜백 */
   onProgress?: DependencyProgressCallback;
   /** YUM 배포판 설정 (RHEL/CentOS/Rocky/AlmaLinux) */
@@ -214,6 +237,12 @@ function getResolverByType(type: string) {
       return getMavenResolver();
     case 'npm':
       return getNpmResolver();
+    case 'go':
+      return getGoResolver();
+    case 'cargo':
+      return getCargoResolver();
+    case 'nuget':
+      return getNuGetResolver();
     // OS 패키지 (yum, apt, apk)는 distribution 정보가 필요하므로
     // 별도 IPC 핸들러(os:resolveDependencies)에서 처리됨
     // 여기서는 null을 반환하여 패키지만 결과에 포함되고 의존성은 건너뜀
@@ -268,11 +297,15 @@ export async function resolveAllDependencies(
   }
 
   // targetOS를 targetPlatform으로 변환 (pip/conda 환경 마커 평가용)
-  const targetPlatformMap: Record<string, { system?: 'Linux' | 'Windows' | 'Darwin' }> = {
+  const targetPlatformMap: Record<
+    string,
+    { system?: 'Linux' | 'Windows' | 'Darwin'; libc?: 'glibc' | 'musl'; muslVersion?: string }
+  > = {
     any: {},
     windows: { system: 'Windows' },
     macos: { system: 'Darwin' },
     linux: { system: 'Linux' },
+    'linux-musl': { system: 'Linux', libc: 'musl', muslVersion: options?.muslVersion },
   };
   const targetPlatform = targetPlatformMap[targetOS] || {};
 
@@ -286,6 +319,25 @@ export async function resolveAllDependencies(
     const key = getPackageArtifactKey(pkg);
     resolvedSet.set(key, pkg);
 
+    // 잠금 파일/프로젝트 파일에서 가져온 패키지는 이미 해결된 트리이므로 그대로 사용
+    if (
+      isNpmLockedPackage(pkg) ||
+      isMavenProjectPackage(pkg) ||
+      isGoProjectPackage(pkg) ||
+      isCargoProjectPackage(pkg)
+    ) {
+      successfulPackageSet.set(key, pkg);
+      options?.onProgress?.({
+        current: currentIndex,
+        total: totalPackages,
+        packageName: pkg.name,
+        packageType: pkg.type,
+        status: 'success',
+        dependencyCount: 0,
+      });
+      continue;
+    }
+
     // 타입별 리졸버 선택
     const resolver = getResolverByType(pkg.type);
     if (!resolver) {
@@ -330,6 +382,8 @@ export async function resolveAllDependencies(
             architecture: distSetting.architecture as OSArchitecture,
             includeOptional: includeOptional,
             includeRecommends: options?.includeRecommends ?? false,
+            moduleStreams:
+              pkg.type === 'yum' ? distSetting.moduleStreams?.map(parseModuleSpec) : undefined,
           };
 
           let osResolver;
@@ -571,6 +625,14 @@ export async function resolveAllDependencies(
           ...resolverOptions,
           classifier: pkg.classifier,
         };
+      } else if (pkg.type === 'nuget') {
+        // nuget: 장바구니 항목에 저장된 대상 프레임워크가 전역 옵션보다 우선
+        resolverOptions = {
+          ...resolverOptions,
+          targetFramework:
+            (pkg.metadata?.targetFramework as string | undefined) ?? options?.targetFramework,
+          skipDependencyExpansion: resolveRootArtifactsOnly,
+        };
       }
 
       // npm은 반환 타입이 다르므로 별도 처리
@@ -773,3 +835,107 @@ export async function resolveSinglePackageDependencies(
 ): Promise<ResolvedPackageList> {
   return resolveAllDependencies([pkg], options);
 }
+
+/**
+ * Maven 프로젝트 파일 해결 옵션
+ */
+export interface MavenProjectFileOptions
+  extends Pick<MavenResolverOptions, 'maxDepth' | 'includeOptionalDependencies'> {
+  /** 오프라인 빌드(`mvn -o package`)에 필요한 플러그인과 parent/BOM POM까지 포함 (pom 전용) */
+  buildPlugins?: boolean;
+  /** 플러그인 선택에 사용할 packaging (기본: POM의 packaging) */
+  packaging?: string;
+}
+
+/**
+ * Maven 프로젝트 파일에서 다운로드할 패키지 목록을 만듭니다.
+ *
+ * - pom: 프로젝트 POM을 루트로 전이 의존성까지 해결 (parent, properties, BOM, exclusions 반영, 프로젝트 자신은 제외)
+ * - gradle-lockfile: 잠금 파일 항목 그대로 (이미 전이 의존성까지 고정됨)
+ *
+ * buildPlugins를 켜면 빌드에 필요한 test/provided 의존성, 빌드 플러그인 클로저, 참조된 parent/BOM POM을 함께 반환합니다.
+ */
+export async function resolveMavenProjectFile(
+  content: string,
+  format: MavenProjectFileFormat,
+  options: MavenProjectFileOptions = {}
+): Promise<PackageInfo[]> {
+  const { buildPlugins, packaging, ...resolverOptions } = options;
+
+  if (format === 'gradle-lockfile') {
+    if (buildPlugins) {
+      throw new Error('빌드 플러그인 해결은 pom.xml에서만 사용할 수 있습니다');
+    }
+    return parseGradleLockfile(content).map((dep) =>
+      toMavenProjectPackageInfo(
+        { type: 'maven', name: `${dep.groupId}:${dep.artifactId}`, version: dep.version },
+        format
+      )
+    );
+  }
+
+  const resolver = getMavenResolver();
+  if (!buildPlugins) {
+    const result = await resolver.resolveProjectPom(content, resolverOptions);
+    return result.flatList.map((pkg) => toMavenProjectPackageInfo(pkg, format));
+  }
+
+  // 컴파일과 테스트 실행에 필요한 provided/test 의존성까지 포함
+  const result = await resolver.resolveProjectPom(content, {
+    ...resolverOptions,
+    includeRootScopes: ['provided', 'test'],
+  });
+  const projectPoms = resolver.getReferencedPoms();
+  const plugins = await resolver.resolveBuildPlugins(content, {
+    packaging,
+    testDependencies: result.flatList,
+  });
+
+  return dedupeMavenPackages([...result.flatList, ...projectPoms, ...plugins]).map((pkg) =>
+    toMavenProjectPackageInfo(pkg, format)
+  );
+}
+
+/**
+ * packaging 기본 라이프사이클 플러그인 클로저를 해결합니다 (프로젝트 파일 없이 `-p`로 받을 때).
+ */
+export async function resolveMavenBuildPlugins(packaging?: string): Promise<PackageInfo[]> {
+  return getMavenResolver().resolveBuildPlugins(undefined, { packaging });
+}
+
+/**
+ * go.mod에서 다운로드할 모듈 목록을 만듭니다 (MVS 빌드 목록, 메인 모듈 자신은 제외).
+ *
+ * go.sum을 함께 주면 모듈별 h1/go.mod 해시로 다운로드한 파일을 검증합니다.
+ */
+export async function resolveGoModFile(content: string, goSumContent?: string): Promise<PackageInfo[]> {
+  const result = await getGoResolver().resolveGoMod(content, goSumContent);
+  return result.flatList.map(toGoProjectPackageInfo);
+}
+
+/**
+ * Cargo.lock 또는 Cargo.toml에서 다운로드할 crate 목록을 만듭니다 (프로젝트 자신은 제외).
+ *
+ * Cargo.lock은 잠긴 버전과 checksum을 그대로 쓰고, Cargo.toml은 sparse 인덱스로 버전과 기능을 해결합니다.
+ */
+export async function resolveCargoProjectFile(
+  content: string,
+  format: CargoProjectFileFormat
+): Promise<PackageInfo[]> {
+  const resolver = getCargoResolver();
+  const result = format === 'lockfile'
+    ? await resolver.resolveCargoLock(content)
+    : await resolver.resolveManifest(content);
+  return result.flatList.map(toCargoProjectPackageInfo);
+}
+
+function dedupeMavenPackages(packages: PackageInfo[]): PackageInfo[] {
+  const unique = new Map<string, PackageInfo>();
+  for (const pkg of packages) {
+    const key = `${pkg.name}@${pkg.version}:${(pkg.metadata?.classifier as string) ?? ''}`;
+    if (!unique.has(key)) {
+      unique.set(key, pkg);
+    }
+  }
+  return Array.from(unique.values());
+}
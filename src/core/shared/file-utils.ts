@@ -3,6 +3,9 @@ import * as fs from 'fs';
 import * as http from 'http';
 import * as https from 'https';
 import archiver from 'archiver';
+import { getNetworkAgent } from './network-proxy';
+import { getMirroredRequest } from './registry-mirrors';
+import { getTransferLimiter } from './transfer-limiter';
 import logger from '../../utils/logger';
 
 export type ProgressCallback = (downloaded: number, total: number) => void;
@@ -15,16 +18,28 @@ export interface FileDownloadOptions {
 /**
  * 파일 다운로드 (진행률 콜백 포함)
  * HTTP/HTTPS 모두 지원, 리다이렉트 자동 처리, AbortSignal로 취소 가능
+ * 전송 속도 제한과 호스트별 동시 연결 제한을 따른다
  */
 export async function downloadFile(
   url: string,
   destPath: string,
   onProgress: ProgressCallback,
   options?: FileDownloadOptions
+): Promise<void> {
+  // 리다이렉트를 따라가는 동안에는 처음 잡은 슬롯을 유지 (같은 호스트로 돌아와도 교착되지 않게)
+  return getTransferLimiter().withHostSlot(url, () => requestFile(url, destPath, onProgress, options));
+}
+
+function requestFile(
+  url: string,
+  destPath: string,
+  onProgress: ProgressCallback,
+  options?: FileDownloadOptions
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const file = fs.createWriteStream(destPath);
-    const protocol = url.startsWith('https') ? https : http;
+    const { url: requestUrl, headers } = getMirroredRequest(url);
+    const protocol = requestUrl.startsWith('https') ? https : http;
     let pauseCheckInterval: NodeJS.Timeout | null = null;
 
     // 정리 함수
@@ -36,7 +51,7 @@ export async function downloadFile(
     };
 
     const request = protocol
-      .get(url, { headers: { 'User-Agent': 'DepsSmuggler/1.0' } }, (response) => {
+      .get(requestUrl, { headers: { 'User-Agent': 'DepsSmuggler/1.0', ...headers }, agent: getNetworkAgent() }, (response) => {
         // 리다이렉트 처리
         if (response.statusCode === 301 || response.statusCode === 302) {
           const redirectUrl = response.headers.location;
@@ -44,7 +59,7 @@ export async function downloadFile(
             cleanup();
             file.close();
             fs.unlinkSync(destPath);
-            downloadFile(redirectUrl, destPath, onProgress, options)
+            requestFile(redirectUrl, destPath, onProgress, options)
               .then(resolve)
               .catch(reject);
             return;
@@ -77,7 +92,7 @@ export async function downloadFile(
           }
         });
 
-        response.pipe(file);
+        response.pipe(getTransferLimiter().createThrottleStream()).pipe(file);
 
         file.on('finish', () => {
           cleanup();
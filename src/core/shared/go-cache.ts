@@ -0,0 +1,136 @@
+/**
+ * Go 모듈 프록시 공유 캐시
+ *
+ * GoResolver와 GoDownloader가 같은 `.mod`/`@v/list` 응답을 공유하도록 GOPROXY 프로토콜 요청을 캐시한다.
+ * (https://go.dev/ref/mod#goproxy-protocol)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import logger from '../../utils/logger';
+import { GO_CONSTANTS } from '../constants/go';
+import { createMemoryCache } from './cache/cache-store';
+import { DEFAULT_MEMORY_TTL_MS } from './cache-utils';
+import { compareGoVersions, escapeGoModulePath, getGoProxyFilePath, parseGoSum } from './go-module-utils';
+import type { GoSumHashes, GoVersionInfo } from './go-types';
+
+/**
+ * 캐시 옵션
+ */
+export interface GoCacheOptions {
+  /** 모듈 프록시 URL */
+  proxyUrl?: string;
+}
+
+const textCache = createMemoryCache<string>('go', DEFAULT_MEMORY_TTL_MS);
+
+let sharedClient: AxiosInstance | null = null;
+
+function getClient(): AxiosInstance {
+  if (!sharedClient) {
+    sharedClient = axios.create({
+      timeout: GO_CONSTANTS.API_TIMEOUT_MS,
+      responseType: 'text',
+      transformResponse: (data) => data,
+    });
+  }
+  return sharedClient;
+}
+
+async function fetchText(url: string, notFoundMessage: string): Promise<string> {
+  const result = await textCache.getOrFetch(url, async () => {
+    logger.debug('Go 프록시 요청', { url });
+    try {
+      const response = await getClient().get<string>(url);
+      return String(response.data);
+    } catch (error) {
+      // 프록시는 없는 모듈/버전에 404 또는 410을 반환
+      if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 410)) {
+        throw new Error(notFoundMessage);
+      }
+      throw error;
+    }
+  });
+  return result.data;
+}
+
+/**
+ * 모듈의 태그된 버전 목록 (오름차순, 의사 버전 제외)
+ */
+export async function fetchGoVersionList(modulePath: string, options: GoCacheOptions = {}): Promise<string[]> {
+  const { proxyUrl = GO_CONSTANTS.DEFAULT_PROXY_URL } = options;
+  const text = await fetchText(
+    `${proxyUrl}/${escapeGoModulePath(modulePath)}/@v/list`,
+    `Go 모듈을 찾을 수 없습니다: ${modulePath}`
+  );
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .sort(compareGoVersions);
+}
+
+/**
+ * 모듈 최신 버전 정보 (`@latest`)
+ */
+export async function fetchGoLatestVersion(modulePath: string, options: GoCacheOptions = {}): Promise<GoVersionInfo> {
+  const { proxyUrl = GO_CONSTANTS.DEFAULT_PROXY_URL } = options;
+  const text = await fetchText(
+    `${proxyUrl}/${escapeGoModulePath(modulePath)}/@latest`,
+    `Go 모듈을 찾을 수 없습니다: ${modulePath}`
+  );
+  return JSON.parse(text) as GoVersionInfo;
+}
+
+/**
+ * 버전 정보 원문 (`@v/<version>.info`)
+ */
+export async function fetchGoVersionInfo(
+  modulePath: string,
+  version: string,
+  options: GoCacheOptions = {}
+): Promise<string> {
+  const { proxyUrl = GO_CONSTANTS.DEFAULT_PROXY_URL } = options;
+  return fetchText(
+    `${proxyUrl}/${getGoProxyFilePath(modulePath, version, 'info')}`,
+    `Go 모듈 버전을 찾을 수 없습니다: ${modulePath}@${version}`
+  );
+}
+
+/**
+ * go.mod 원문 (`@v/<version>.mod`)
+ */
+export async function fetchGoModFile(
+  modulePath: string,
+  version: string,
+  options: GoCacheOptions = {}
+): Promise<string> {
+  const { proxyUrl = GO_CONSTANTS.DEFAULT_PROXY_URL } = options;
+  return fetchText(
+    `${proxyUrl}/${getGoProxyFilePath(modulePath, version, 'mod')}`,
+    `Go 모듈 버전을 찾을 수 없습니다: ${modulePath}@${version}`
+  );
+}
+
+/**
+ * 체크섬 데이터베이스에서 모듈 해시 조회 (`/lookup/<module>@<version>`)
+ *
+ * go.sum이 없을 때 다운로드 검증에 사용한다. 서명된 트리 헤드는 검증하지 않으므로 TLS 신뢰에 의존한다.
+ */
+export async function fetchGoSumDbHashes(
+  modulePath: string,
+  version: string,
+  sumDbUrl: string = GO_CONSTANTS.DEFAULT_SUMDB_URL
+): Promise<GoSumHashes | undefined> {
+  const text = await fetchText(
+    `${sumDbUrl}/lookup/${escapeGoModulePath(modulePath)}@${escapeGoModulePath(version)}`,
+    `체크섬 데이터베이스에 없는 모듈입니다: ${modulePath}@${version}`
+  );
+  return parseGoSum(text).get(`${modulePath}@${version}`);
+}
+
+/**
+ * Go 캐시 초기화
+ */
+export function clearGoCache(): void {
+  textCache.clear();
+}
@@ -0,0 +1,55 @@
+import { PassThrough } from 'stream';
+import archiver from 'archiver';
+import { describe, expect, it } from 'vitest';
+import { hashGoFiles, hashGoModFile, hashGoModuleZip } from './go-dirhash';
+
+async function createZip(files: Array<{ name: string; data: string }>, store = false): Promise<Buffer> {
+  const archive = archiver('zip', { store });
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('end', resolve);
+    archive.on('error', reject);
+  });
+
+  archive.pipe(output);
+  for (const file of files) {
+    archive.append(file.data, { name: file.name });
+  }
+  await archive.finalize();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+describe('go-dirhash', () => {
+  it('go.mod 해시는 go.sum의 /go.mod 항목과 같아야 함', () => {
+    // go.mod가 없는 모듈에 프록시가 합성하는 go.mod (golang.org/x/text v0.3.0)
+    expect(hashGoModFile('module golang.org/x/text\n')).toBe(
+      'h1:NqM8EUOU14njkJ3fqMW+pc6Ldnwhi/IjpwHt7yyuwOQ='
+    );
+  });
+
+  it('파일 순서와 무관하게 이름순으로 해시해야 함', () => {
+    const a = { name: 'example.com/m@v1.0.0/a.go', data: Buffer.from('package m\n') };
+    const b = { name: 'example.com/m@v1.0.0/go.mod', data: Buffer.from('module example.com/m\n') };
+
+    expect(hashGoFiles([a, b])).toBe(hashGoFiles([b, a]));
+    expect(() => hashGoFiles([{ name: 'bad\nname', data: Buffer.alloc(0) }])).toThrow('줄바꿈');
+  });
+
+  it('모듈 zip은 압축 방식과 무관하게 안의 파일 내용으로 해시해야 함', async () => {
+    const files = [
+      { name: 'example.com/m@v1.0.0/go.mod', data: 'module example.com/m\n' },
+      { name: 'example.com/m@v1.0.0/m.go', data: 'package m\n\nconst Answer = 42\n' },
+    ];
+    const expected = hashGoFiles(files.map((file) => ({ name: file.name, data: Buffer.from(file.data) })));
+
+    expect(hashGoModuleZip(await createZip(files))).toBe(expected);
+    expect(hashGoModuleZip(await createZip(files, true))).toBe(expected);
+  });
+
+  it('zip이 아니면 오류를 던져야 함', () => {
+    expect(() => hashGoModuleZip(Buffer.from('not a zip file at all, definitely'))).toThrow('zip');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Go 모듈 해시 (golang.org/x/mod/sumdb/dirhash의 Hash1)
+ *
+ * go.sum의 `h1:` 값은 파일 이름순으로 정렬한 `<sha256 hex>  <파일명>\n` 목록의 sha256을 base64로 인코딩한 값이다.
+ * 모듈 zip은 zip 안의 파일 전체, go.mod는 `go.mod` 파일 하나로 계산한다.
+ */
+
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * 파일 목록의 Hash1 계산
+ */
+export function hashGoFiles(files: Array<{ name: string; data: Buffer }>): string {
+  const summary = crypto.createHash('sha256');
+  const sorted = [...files].sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)));
+
+  for (const file of sorted) {
+    if (file.name.includes('\n')) {
+      throw new Error(`파일 이름에 줄바꿈이 포함되어 있습니다: ${JSON.stringify(file.name)}`);
+    }
+    const fileHash = crypto.createHash('sha256').update(file.data).digest('hex');
+    summary.update(`${fileHash}  ${file.name}\n`);
+  }
+
+  return `h1:${summary.digest('base64')}`;
+}
+
+/**
+ * go.mod 파일 해시 (go.sum의 `<version>/go.mod` 항목)
+ */
+export function hashGoModFile(content: string | Buffer): string {
+  return hashGoFiles([{ name: 'go.mod', data: Buffer.isBuffer(content) ? content : Buffer.from(content) }]);
+}
+
+/**
+ * 모듈 zip 해시 (go.sum의 `<version>` 항목)
+ */
+export function hashGoModuleZip(zip: Buffer): string {
+  return hashGoFiles(readZipEntries(zip));
+}
+
+/**
+ * zip 중앙 디렉토리를 따라 파일 항목을 읽음 (저장/deflate 방식만 지원, 모듈 zip은 500MB 제한이라 zip64 불필요)
+ */
+function readZipEntries(zip: Buffer): Array<{ name: string; data: Buffer }> {
+  const eocdOffset = findEndOfCentralDirectory(zip);
+  const entryCount = zip.readUInt16LE(eocdOffset + 10);
+  let offset = zip.readUInt32LE(eocdOffset + 16);
+  const entries: Array<{ name: string; data: Buffer }> = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('잘못된 zip 중앙 디렉토리입니다');
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeaderOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (zip.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`잘못된 zip 로컬 헤더입니다: ${name}`);
+    }
+    const dataStart =
+      localHeaderOffset + 30 + zip.readUInt16LE(localHeaderOffset + 26) + zip.readUInt16LE(localHeaderOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      data = raw;
+    } else if (method === 8) {
+      data = zlib.inflateRawSync(raw);
+    } else {
+      throw new Error(`지원하지 않는 zip 압축 방식입니다: ${method} (${name})`);
+    }
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // EOCD 레코드(22바이트) 뒤에 최대 64KB 주석이 올 수 있음
+  const minOffset = Math.max(0, zip.length - 22 - 0xffff);
+  for (let offset = zip.length - 22; offset >= minOffset; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('zip 파일이 아니거나 손상되었습니다');
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareGoVersions,
+  escapeGoModulePath,
+  getGoProxyFilePath,
+  isGoModFile,
+  isGoProjectPackage,
+  isGoVersionAtLeast,
+  parseGoMod,
+  parseGoSum,
+  toGoProjectPackageInfo,
+} from './go-module-utils';
+
+describe('go-module-utils', () => {
+  it('대문자를 !+소문자로 이스케이프한 GOPROXY 경로를 만들어야 함', () => {
+    expect(escapeGoModulePath('github.com/BurntSushi/toml')).toBe('github.com/!burnt!sushi/toml');
+    expect(getGoProxyFilePath('github.com/Azure/azure-sdk-for-go', 'v1.0.0-RC1', 'zip')).toBe(
+      'github.com/!azure/azure-sdk-for-go/@v/v1.0.0-!r!c1.zip'
+    );
+  });
+
+  it('Go 버전을 semver 순서로 비교해야 함', () => {
+    expect(['v1.10.0', 'v1.2.0', 'v1.2.0-pre', 'v2.0.0+incompatible'].sort(compareGoVersions)).toEqual([
+      'v1.2.0-pre',
+      'v1.2.0',
+      'v1.10.0',
+      'v2.0.0+incompatible',
+    ]);
+    expect(isGoVersionAtLeast('1.21.3', '1.17')).toBe(true);
+    expect(isGoVersionAtLeast('1.16', '1.17')).toBe(false);
+    expect(isGoVersionAtLeast(undefined, '1.17')).toBe(false);
+  });
+
+  it('go.mod의 블록, 한 줄 지시어, indirect 주석, replace를 파싱해야 함', () => {
+    const goMod = parseGoMod(`module example.com/app
+
+go 1.21
+
+toolchain go1.21.5
+
+require (
+\tgithub.com/gin-gonic/gin v1.9.1
+\tgolang.org/x/text v0.14.0 // indirect
+)
+
+require "github.com/pkg/errors" v0.9.1
+
+exclude golang.org/x/net v0.10.0
+
+replace (
+\tgithub.com/old/mod => github.com/new/mod v1.2.3
+\tgithub.com/local/mod v1.0.0 => ../local
+)
+`);
+
+    expect(goMod.module).toBe('example.com/app');
+    expect(goMod.go).toBe('1.21');
+    expect(goMod.require).toEqual([
+      { path: 'github.com/gin-gonic/gin', version: 'v1.9.1', indirect: false },
+      { path: 'golang.org/x/text', version: 'v0.14.0', indirect: true },
+      { path: 'github.com/pkg/errors', version: 'v0.9.1', indirect: false },
+    ]);
+    expect(goMod.exclude).toEqual([{ path: 'golang.org/x/net', version: 'v0.10.0' }]);
+    expect(goMod.replace).toEqual([
+      { old: { path: 'github.com/old/mod', version: undefined }, new: { path: 'github.com/new/mod', version: 'v1.2.3' } },
+      { old: { path: 'github.com/local/mod', version: 'v1.0.0' }, new: { path: '../local', version: undefined } },
+    ]);
+  });
+
+  it('go.sum을 모듈 버전별 h1/go.mod 해시로 묶어야 함', () => {
+    const sums = parseGoSum(`golang.org/x/text v0.14.0 h1:ScX5w1eTa3QqT8oi6+ziP7dTV1S2+ALU0bI+0zXKWiQ=
+golang.org/x/text v0.14.0/go.mod h1:18ZOQIKpY8NJVqYksKHtTdi31H5itFRjB5/qKTNYzSU=
+golang.org/x/net v0.10.0/go.mod h1:0qNGK6F8kojg2nk9dLZ2mShWaEBan6FAoqfSigmmuDg=
+`);
+
+    expect(sums.get('golang.org/x/text@v0.14.0')).toEqual({
+      h1: 'h1:ScX5w1eTa3QqT8oi6+ziP7dTV1S2+ALU0bI+0zXKWiQ=',
+      goMod: 'h1:18ZOQIKpY8NJVqYksKHtTdi31H5itFRjB5/qKTNYzSU=',
+    });
+    expect(sums.get('golang.org/x/net@v0.10.0')).toEqual({
+      goMod: 'h1:0qNGK6F8kojg2nk9dLZ2mShWaEBan6FAoqfSigmmuDg=',
+    });
+  });
+
+  it('go.mod 파일과 해결된 패키지를 구분해야 함', () => {
+    expect(isGoModFile('/work/app/go.mod')).toBe(true);
+    expect(isGoModFile('C:\\work\\app\\go.mod')).toBe(true);
+    expect(isGoModFile('/work/app/notgo.mod')).toBe(false);
+
+    const pkg = toGoProjectPackageInfo({ type: 'go', name: 'golang.org/x/text', version: 'v0.14.0' });
+    expect(isGoProjectPackage(pkg)).toBe(true);
+    expect(isGoProjectPackage({ type: 'go', metadata: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Go 모듈 유틸리티
+ *
+ * go.mod/go.sum 파싱, 모듈 경로 이스케이프, 버전 비교 등 네트워크 없이 동작하는 순수 함수 모음.
+ * 렌더러(장바구니 파일 가져오기)에서도 import하므로 Node 전용 모듈에 의존하지 않는다.
+ */
+
+import * as semver from 'semver';
+import type {
+  GoModFile,
+  GoModuleVersion,
+  GoRequirement,
+  GoReplacement,
+  GoSumHashes,
+} from './go-types';
+import type { PackageInfo } from '../../types';
+
+/**
+ * 모듈 경로/버전 이스케이프 (대문자 → `!` + 소문자, 대소문자 구분 없는 파일시스템 대응)
+ */
+export function escapeGoModulePath(value: string): string {
+  return value.replace(/[A-Z]/g, (char) => `!${char.toLowerCase()}`);
+}
+
+/**
+ * GOPROXY 트리 기준 `<escaped module>/@v/<escaped version>.<ext>` 상대 경로
+ */
+export function getGoProxyFilePath(modulePath: string, version: string, ext: 'info' | 'mod' | 'zip'): string {
+  return `${escapeGoModulePath(modulePath)}/@v/${escapeGoModulePath(version)}.${ext}`;
+}
+
+/**
+ * Go 모듈 버전 비교 (semver, `+incompatible`은 빌드 메타데이터로 무시)
+ */
+export function compareGoVersions(a: string, b: string): number {
+  const left = semver.valid(a);
+  const right = semver.valid(b);
+  if (left && right) {
+    return semver.compare(left, right);
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * `go` 지시어 버전이 기준 이상인지 확인 (예: '1.21.3' >= '1.17')
+ */
+export function isGoVersionAtLeast(goVersion: string | undefined, minimum: string): boolean {
+  if (!goVersion) {
+    return false;
+  }
+  const current = goVersion.split('.').map((part) => parseInt(part, 10) || 0);
+  const target = minimum.split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(current.length, target.length); i++) {
+    const diff = (current[i] ?? 0) - (target[i] ?? 0);
+    if (diff !== 0) {
+      return diff > 0;
+    }
+  }
+  return true;
+}
+
+/**
+ * go.mod 파싱 (module, go, require, exclude, replace 지시어)
+ */
+export function parseGoMod(content: string): GoModFile {
+  const result: GoModFile = { require: [], exclude: [], replace: [] };
+  let block: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const indirect = /\/\/\s*indirect\b/.test(rawLine);
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) {
+      continue;
+    }
+
+    if (block) {
+      if (line === ')') {
+        block = null;
+      } else {
+        applyGoModDirective(result, block, tokenizeGoModLine(line), indirect);
+      }
+      continue;
+    }
+
+    const tokens = tokenizeGoModLine(line);
+    const [verb, ...args] = tokens;
+    if (args.length === 1 && args[0] === '(') {
+      block = verb;
+      continue;
+    }
+    applyGoModDirective(result, verb, args, indirect);
+  }
+
+  return result;
+}
+
+/**
+ * go.sum 파싱 (`<module>@<version>` → h1/go.mod 해시)
+ */
+export function parseGoSum(content: string): Map<string, GoSumHashes> {
+  const sums = new Map<string, GoSumHashes>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const [modulePath, rawVersion, hash] = line.trim().split(/\s+/);
+    if (!modulePath || !rawVersion || !hash?.startsWith('h1:')) {
+      continue;
+    }
+
+    const isGoMod = rawVersion.endsWith('/go.mod');
+    const version = isGoMod ? rawVersion.slice(0, -'/go.mod'.length) : rawVersion;
+    const key = `${modulePath}@${version}`;
+    const entry = sums.get(key) ?? {};
+    if (isGoMod) {
+      entry.goMod = hash;
+    } else {
+      entry.h1 = hash;
+    }
+    sums.set(key, entry);
+  }
+
+  return sums;
+}
+
+/**
+ * go.mod에서 해결한 패키지인지 확인 (이미 MVS로 해결된 목록이므로 다시 해결하지 않음)
+ */
+export function isGoProjectPackage(pkg: { type: string; metadata?: Record<string, unknown> }): boolean {
+  return pkg.type === 'go' && pkg.metadata?.projectFile === 'go.mod';
+}
+
+/**
+ * go.mod 해결 결과를 프로젝트 파일 패키지로 표시
+ */
+export function toGoProjectPackageInfo(pkg: PackageInfo): PackageInfo {
+  return {
+    ...pkg,
+    metadata: {
+      ...pkg.metadata,
+      projectFile: 'go.mod',
+    },
+  };
+}
+
+/**
+ * 파일 경로가 go.mod인지 확인
+ */
+export function isGoModFile(filePath: string): boolean {
+  return /(^|[\\/])go\.mod$/.test(filePath);
+}
+
+function tokenizeGoModLine(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|`([^`]*)`|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+function applyGoModDirective(result: GoModFile, verb: string, args: string[], indirect: boolean): void {
+  switch (verb) {
+    case 'module':
+      result.module = args[0];
+      break;
+    case 'go':
+      result.go = args[0];
+      break;
+    case 'require':
+      if (args.length >= 2) {
+        result.require.push({ path: args[0], version: args[1], indirect } satisfies GoRequirement);
+      }
+      break;
+    case 'exclude':
+      if (args.length >= 2) {
+        result.exclude.push({ path: args[0], version: args[1] } satisfies GoModuleVersion);
+      }
+      break;
+    case 'replace': {
+      const arrow = args.indexOf('=>');
+      if (arrow < 1 || arrow === args.length - 1) {
+        break;
+      }
+      const [oldPath, oldVersion] = args.slice(0, arrow);
+      const [newPath, newVersion] = args.slice(arrow + 1);
+      result.replace.push({
+        old: { path: oldPath, version: oldVersion },
+        new: { path: newPath, version: newVersion },
+      } satisfies GoReplacement);
+      break;
+    }
+    default:
+      // toolchain, retract, godebug 등은 다운로드 목록에 영향 없음
+      break;
+  }
+}
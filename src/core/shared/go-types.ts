@@ -0,0 +1,58 @@
+/**
+ * Go 모듈 프록시 프로토콜 및 go.mod/go.sum 관련 타입 정의
+ */
+
+/**
+ * 모듈 버전 (module.Version)
+ */
+export interface GoModuleVersion {
+  path: string;
+  version: string;
+}
+
+/**
+ * go.mod require 항목
+ */
+export interface GoRequirement extends GoModuleVersion {
+  /** `// indirect` 주석 여부 */
+  indirect: boolean;
+}
+
+/**
+ * go.mod replace 지시어
+ */
+export interface GoReplacement {
+  old: { path: string; version?: string };
+  /** 로컬 경로 대체는 version이 없음 */
+  new: { path: string; version?: string };
+}
+
+/**
+ * 파싱된 go.mod
+ */
+export interface GoModFile {
+  module?: string;
+  /** `go` 지시어 버전 (없으면 undefined, 1.16 이하로 취급) */
+  go?: string;
+  require: GoRequirement[];
+  exclude: GoModuleVersion[];
+  replace: GoReplacement[];
+}
+
+/**
+ * 모듈 버전 하나의 go.sum 해시
+ */
+export interface GoSumHashes {
+  /** 모듈 zip의 h1 해시 */
+  h1?: string;
+  /** go.mod 파일의 h1 해시 */
+  goMod?: string;
+}
+
+/**
+ * 프록시 `@v/<version>.info` 응답
+ */
+export interface GoVersionInfo {
+  Version: string;
+  Time?: string;
+}
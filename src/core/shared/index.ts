@@ -38,18 +38,146 @@ export type { MatchSpec } from './conda-matchspec';
 // 파일 유틸리티
 export { downloadFile, createZipArchive, createTarGzArchive } from './file-utils';
 export type { ProgressCallback } from './file-utils';
+export {
+  getPartialDownloadPath,
+  getPartialDownloadStatePath,
+  isPartialDownloadPath,
+  readPartialDownloadState,
+  writePartialDownloadState,
+  clearPartialDownload,
+  completePartialDownload,
+  getResumeOffset,
+  isResumedResponse,
+} from './resumable-download';
+export type { PartialDownloadState } from './resumable-download';
 
 // 스크립트 유틸리티
 export { generateInstallScripts } from './script-utils';
+export {
+  PIP_LOCK_FILE_NAME,
+  PIP_CONSTRAINTS_FILE_NAME,
+  collectPipLockArtifacts,
+  buildPipLockEntries,
+  formatPipLockFile,
+  formatPipConstraintsFile,
+  writePipLockFiles,
+} from './pip-lock';
+export type { PipLockArtifact, PipLockEntry } from './pip-lock';
+export {
+  PYTHON_TARGETS_DIR,
+  parsePythonDownloadTarget,
+  parsePythonDownloadTargets,
+  formatPythonDownloadTarget,
+  getPythonTargetSlug,
+  getPythonTargetSlugs,
+  mergePythonTargetPackages,
+  selectPythonTargetPackages,
+} from './python-download-targets';
+export {
+  detectNpmLockfileFormat,
+  parseNpmLockfile,
+  isNpmLockedPackage,
+  toNpmLockedPackageInfo,
+} from './npm-lockfile';
+export type { NpmLockfileFormat, NpmLockedPackage } from './npm-lockfile';
+export {
+  buildNpmRegistryMirror,
+  readNpmRegistryMirrorUrl,
+  rewriteNpmMirrorTarballUrls,
+  getNpmMirrorPackumentPath,
+} from './npm-registry-mirror';
+export type {
+  NpmMirrorTarball,
+  NpmRegistryMirrorOptions,
+  NpmRegistryMirrorResult,
+} from './npm-registry-mirror';
+export {
+  detectMavenProjectFileFormat,
+  parseGradleLockfile,
+  isMavenProjectPackage,
+  toMavenProjectPackageInfo,
+} from './maven-project-file';
+export type { MavenProjectFileFormat, GradleLockedDependency } from './maven-project-file';
+export {
+  escapeGoModulePath,
+  getGoProxyFilePath,
+  compareGoVersions,
+  parseGoMod,
+  parseGoSum,
+  isGoProjectPackage,
+  toGoProjectPackageInfo,
+  isGoModFile,
+} from './go-module-utils';
+export { hashGoFiles, hashGoModFile, hashGoModuleZip } from './go-dirhash';
+export type {
+  GoModuleVersion,
+  GoRequirement,
+  GoReplacement,
+  GoModFile,
+  GoSumHashes,
+  GoVersionInfo,
+} from './go-types';
+export {
+  getCargoIndexPath,
+  getCargoCrateFileName,
+  parseCargoIndex,
+  parseCargoLock,
+  parseCargoManifest,
+  toSemverRange as toCargoSemverRange,
+  detectCargoProjectFileFormat,
+  isCargoProjectPackage,
+  toCargoProjectPackageInfo,
+} from './cargo-utils';
+export type { CargoProjectFileFormat } from './cargo-utils';
+export { parseToml } from './cargo-toml';
+export type { TomlTable, TomlValue } from './cargo-toml';
+export { buildCargoSource } from './cargo-source';
+export type { CargoSourceCrate, CargoSourceOptions, CargoSourceResult } from './cargo-source';
+export type {
+  CargoIndexDependency,
+  CargoIndexEntry,
+  CargoLockPackage,
+  CargoManifest,
+  CargoManifestDependency,
+} from './cargo-types';
+export {
+  normalizeNuGetVersion,
+  compareNuGetVersions,
+  isNuGetPrerelease,
+  parseNuGetVersionRange,
+  satisfiesNuGetRange,
+  selectLowestNuGetVersion,
+  selectLatestNuGetVersion,
+  parseNuGetFramework,
+  isNuGetTargetFramework,
+  selectNuGetDependencyGroup,
+  getNuGetPackageDir,
+  getNuGetPackageFileName,
+  parseNuspec,
+} from './nuget-utils';
+export type {
+  NuGetDependency,
+  NuGetDependencyGroup,
+  NuGetFramework,
+  NuGetNuspec,
+  NuGetSearchItem,
+  NuGetServiceEndpoints,
+  NuGetVersionRange,
+} from './nuget-types';
 
 // 의존성 해결 유틸리티
 export {
   resolveAllDependencies,
   resolveSinglePackageDependencies,
+  resolveMavenProjectFile,
+  resolveMavenBuildPlugins,
+  resolveGoModFile,
+  resolveCargoProjectFile,
 } from './dependency-resolver';
 export type {
   ResolvedPackageList,
   DependencyResolverOptions,
+  MavenProjectFileOptions,
 } from './dependency-resolver';
 
 // PEP 425 호환성 태그 (pip-tags.ts)
@@ -62,6 +190,12 @@ export {
   getSupportedTags,
   tagsToIndexMap,
   generateLinuxPlatformTags,
+  generateMusllinuxPlatformTags,
+  parseMuslVersion,
+  parseMusllinuxTag,
+  isMuslPlatformTagCompatible,
+  getMuslPlatformTagPriority,
+  DEFAULT_MUSL_VERSION,
   generateMacOSPlatformTags,
   generateWindowsPlatformTags,
   generatePlatformTags,
@@ -25,6 +25,9 @@ export class MavenBomProcessor {
   /** POM 조회 함수 (외부 주입) */
   private fetchPom: FetchPomFunction;
 
+  /** 처리 중 로드한 parent/BOM POM (G:A:V -> 좌표) */
+  private referencedPoms = new Map<string, MavenCoordinate>();
+
   constructor(fetchPom: FetchPomFunction, dependencyManagement?: Map<string, string>) {
     this.fetchPom = fetchPom;
     this.dependencyManagement = dependencyManagement || new Map();
@@ -51,23 +54,46 @@ export class MavenBomProcessor {
     this.dependencyManagement.clear();
   }
 
+  /**
+   * 처리 중 로드한 parent/BOM POM 좌표 목록
+   *
+   * 오프라인 빌드에서는 effective POM 계산에 이 POM들이 로컬 저장소에 있어야 한다.
+   */
+  getReferencedPoms(): MavenCoordinate[] {
+    return Array.from(this.referencedPoms.values());
+  }
+
+  /**
+   * 참조 POM 목록 초기화
+   */
+  clearReferencedPoms(): void {
+    this.referencedPoms.clear();
+  }
+
+  private recordReferencedPom(coordinate: MavenCoordinate): void {
+    this.referencedPoms.set(
+      `${coordinate.groupId}:${coordinate.artifactId}:${coordinate.version}`,
+      coordinate
+    );
+  }
+
   /**
    * Parent POM 체인을 처리하여 프로퍼티 상속
    *
+   * 하위 POM에서 전달된 프로퍼티는 부모의 같은 프로퍼티보다 우선한다 (Maven effective POM 규칙).
+   * 예: 프로젝트에서 `<jackson-bom.version>`을 재정의하면 parent의 dependencyManagement에도 반영된다.
+   *
    * @param pom - 현재 POM
    * @param coordinate - 현재 POM의 좌표
-   * @param inheritedProperties - 상속받은 프로퍼티
+   * @param overrideProperties - 하위 POM에서 전달된 프로퍼티 (우선 적용)
    * @returns 병합된 프로퍼티
    */
   async processParentPom(
     pom: PomProject,
     coordinate: MavenCoordinate,
-    inheritedProperties?: Record<string, string>
+    overrideProperties?: Record<string, string>
   ): Promise<Record<string, string>> {
-    // 현재 POM의 properties와 상속받은 properties 병합
-    // 자식의 properties가 부모보다 우선 (오버라이드)
     const mergedProperties: Record<string, string> = {
-      ...inheritedProperties,
       ...pom.properties,
       // 프로젝트 좌표 정보 추가
       'project.version': coordinate.version,
@@ -76,6 +102,7 @@ export class MavenBomProcessor {
       version: coordinate.version,
       groupId: coordinate.groupId,
       artifactId: coordinate.artifactId,
+      ...overrideProperties,
     };
 
     if (!pom.parent) return mergedProperties;
@@ -94,30 +121,21 @@ export class MavenBomProcessor {
       };
 
       const parentPom = await this.fetchPom(parentCoordinate);
+      this.recordReferencedPom(parentCoordinate);
 
       // Parent의 parent도 재귀적으로 처리하고 properties 체인 받아오기
+      // 현재 POM의 properties를 넘겨 부모 체인의 같은 프로퍼티를 덮어쓴다
       const parentProperties = await this.processParentPom(
         parentPom,
         parentCoordinate,
         mergedProperties
       );
 
-      // 최종 properties: 부모 체인의 properties + 현재 POM의 properties
-      const finalProperties: Record<string, string> = {
-        ...parentProperties,
-        ...pom.properties,
-        'project.version': coordinate.version,
-        'project.groupId': coordinate.groupId,
-        'project.artifactId': coordinate.artifactId,
-        version: coordinate.version,
-        groupId: coordinate.groupId,
-        artifactId: coordinate.artifactId,
-      };
-
-      // Parent의 dependencyManagement 상속 (부모의 properties로 해결)
+      // Parent의 dependencyManagement 상속 (하위 POM이 재정의한 properties로 해결)
       await this.processDependencyManagement(parentPom, parentProperties);
 
-      return finalProperties;
+      // 최종 properties: 부모 체인의 properties + 현재 POM의 properties
+      return { ...parentProperties, ...mergedProperties };
     } catch (error) {
       logger.debug('Parent POM 로드 실패 (계속 진행)', {
         parent: `${parentGroupId}:${parentArtifactId}:${parentVersion}`,
@@ -133,10 +151,12 @@ export class MavenBomProcessor {
    *
    * @param pom - POM 프로젝트
    * @param properties - 프로퍼티 맵
+   * @param override - 이미 등록된 버전을 덮어쓸지 여부 (루트 POM이 parent의 관리 버전을 재정의할 때)
    */
   async processDependencyManagement(
     pom: PomProject,
-    properties?: Record<string, string>
+    properties?: Record<string, string>,
+    override = false
   ): Promise<void> {
     const managed = pom.dependencyManagement?.dependencies?.dependency;
     if (!managed) return;
@@ -156,7 +176,7 @@ export class MavenBomProcessor {
         if (version) {
           const key = `${dep.groupId}:${dep.artifactId}`;
           // 먼저 정의된 것이 우선 (Nearest Definition)
-          if (!this.dependencyManagement.has(key)) {
+          if (override || !this.dependencyManagement.has(key)) {
             this.dependencyManagement.set(key, version);
           }
         }
@@ -195,6 +215,7 @@ export class MavenBomProcessor {
       };
 
       const bomPom = await this.fetchPom(bomCoordinate);
+      this.recordReferencedPom(bomCoordinate);
 
       // BOM의 parent POM 체인을 처리하여 properties 상속받기
       // 예: spring-boot-dependencies의 ${jakarta.el-api.version} 같은 프로퍼티가 parent에서 정의됨
@@ -38,6 +38,7 @@ const mockGet = vi.fn();
 const mockClient = {
   get: mockGet,
   defaults: { baseURL: 'https://repo1.maven.org/maven2' },
+  interceptors: { request: { use: vi.fn() } },
 };
 
 // 테스트용 캐시 디렉토리
@@ -12,6 +12,7 @@ import * as fs from 'fs-extra';
 import { createMemoryCache } from './cache/cache-store';
 import { PomProject, PomCacheEntry, MavenCoordinate, coordinateToString } from './maven-types';
 import logger from '../../utils/logger';
+import { attachRegistryCredentials } from './registry-credentials';
 
 /** 기본 메모리 TTL: 5분 */
 const DEFAULT_MEMORY_TTL = 5 * 60 * 1000;
@@ -48,13 +49,13 @@ let sharedClient: AxiosInstance | null = null;
 
 function getClient(repoUrl: string = DEFAULT_REPO_URL): AxiosInstance {
   if (!sharedClient || sharedClient.defaults.baseURL !== repoUrl) {
-    sharedClient = axios.create({
+    sharedClient = attachRegistryCredentials(axios.create({
       baseURL: repoUrl,
       timeout: 30000,
       headers: {
         Accept: 'application/xml',
       },
-    });
+    }));
   }
   return sharedClient;
 }
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectBuildPlugins,
+  getLifecyclePlugins,
+  getSurefireProviderDependencies,
+} from './maven-plugin-utils';
+import type { PomProject } from './maven-types';
+
+describe('maven-plugin-utils', () => {
+  it('packaging별 기본 라이프사이클 플러그인을 반환한다', () => {
+    const jar = getLifecyclePlugins('jar').map((p) => p.artifactId);
+    expect(jar).toEqual(
+      expect.arrayContaining([
+        'maven-resources-plugin',
+        'maven-compiler-plugin',
+        'maven-surefire-plugin',
+        'maven-jar-plugin',
+      ])
+    );
+    expect(getLifecyclePlugins('war').map((p) => p.artifactId)).toContain('maven-war-plugin');
+    expect(getLifecyclePlugins('pom').map((p) => p.artifactId)).not.toContain('maven-compiler-plugin');
+    // 알 수 없는 packaging은 jar 바인딩
+    expect(getLifecyclePlugins('bundle')).toEqual(getLifecyclePlugins('jar'));
+  });
+
+  it('선언 > pluginManagement > 기본 바인딩 순으로 버전을 고르고 inherited=false는 상속하지 않는다', () => {
+    const project: PomProject = {
+      artifactId: 'app',
+      build: {
+        plugins: {
+          plugin: [
+            {
+              artifactId: 'maven-compiler-plugin',
+              version: '${compiler.version}',
+              dependencies: {
+                dependency: { groupId: 'org.ow2.asm', artifactId: 'asm', version: '9.7' },
+              },
+            },
+            { groupId: 'org.codehaus.mojo', artifactId: 'exec-maven-plugin' },
+          ],
+        },
+      },
+    };
+    const parent: PomProject = {
+      artifactId: 'parent',
+      build: {
+        pluginManagement: {
+          plugins: {
+            plugin: [
+              { artifactId: 'maven-surefire-plugin', version: '3.2.5' },
+              { groupId: 'org.codehaus.mojo', artifactId: 'exec-maven-plugin', version: '3.2.0' },
+            ],
+          },
+        },
+        plugins: {
+          plugin: { artifactId: 'maven-enforcer-plugin', version: '3.4.1', inherited: 'false' },
+        },
+      },
+    };
+
+    const plugins = collectBuildPlugins('jar', [project, parent], { 'compiler.version': '3.13.0' });
+    const byId = new Map(plugins.map((p) => [p.artifactId, p]));
+
+    expect(byId.get('maven-compiler-plugin')).toMatchObject({
+      groupId: 'org.apache.maven.plugins',
+      version: '3.13.0',
+      dependencies: [{ groupId: 'org.ow2.asm', artifactId: 'asm', version: '9.7' }],
+    });
+    expect(byId.get('maven-surefire-plugin')?.version).toBe('3.2.5');
+    expect(byId.get('exec-maven-plugin')).toMatchObject({ groupId: 'org.codehaus.mojo', version: '3.2.0' });
+    expect(byId.get('maven-jar-plugin')?.version).toBeDefined();
+    expect(byId.has('maven-enforcer-plugin')).toBe(false);
+  });
+
+  it('테스트 프레임워크에 맞는 surefire provider를 고른다', () => {
+    const surefire = { artifactId: 'maven-surefire-plugin', version: '3.2.2' };
+
+    expect(
+      getSurefireProviderDependencies(surefire, [{ name: 'org.junit.jupiter:junit-jupiter-api', version: '5.10.2' }])
+    ).toEqual([
+      { groupId: 'org.apache.maven.surefire', artifactId: 'surefire-junit-platform', version: '3.2.2' },
+      { groupId: 'org.junit.platform', artifactId: 'junit-platform-launcher', version: '1.10.2' },
+    ]);
+    expect(getSurefireProviderDependencies(surefire, [{ name: 'junit:junit', version: '4.13.2' }])).toEqual([
+      { groupId: 'org.apache.maven.surefire', artifactId: 'surefire-junit4', version: '3.2.2' },
+    ]);
+    expect(
+      getSurefireProviderDependencies(surefire, [
+        { name: 'junit:junit', version: '4.13.2' },
+        { name: 'org.testng:testng', version: '7.10.2' },
+      ])
+    ).toEqual([{ groupId: 'org.apache.maven.surefire', artifactId: 'surefire-testng', version: '3.2.2' }]);
+    expect(getSurefireProviderDependencies({ artifactId: 'maven-jar-plugin', version: '3.3.0' }, [])).toEqual([]);
+  });
+});
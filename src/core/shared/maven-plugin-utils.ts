@@ -0,0 +1,200 @@
+/**
+ * Maven 빌드 플러그인 유틸리티
+ *
+ * 오프라인 `mvn package`에 필요한 플러그인 목록을 계산한다. packaging별 기본 라이프사이클 플러그인과
+ * `<build><plugins>`(parent 상속 포함)를 병합하고, 테스트 프레임워크에 맞는 surefire provider를 고른다.
+ */
+
+import {
+  MAVEN_CONSTANTS,
+  MAVEN_LIFECYCLE_PLUGINS,
+  MAVEN_PLUGIN_GROUP_ID,
+  MAVEN_SUREFIRE_GROUP_ID,
+} from '../constants/maven';
+import { resolveProperty } from './maven-pom-utils';
+import type { PomDependency, PomPlugin, PomProject } from './maven-types';
+
+/**
+ * 해결 대상 빌드 플러그인
+ */
+export interface MavenBuildPlugin {
+  groupId: string;
+  artifactId: string;
+  /** 버전 (선언, pluginManagement, 기본 바인딩 어디에도 없으면 undefined) */
+  version?: string;
+  /** 플러그인에 선언된 추가 의존성 (플러그인 클래스패스) */
+  dependencies: PomDependency[];
+}
+
+/** provider를 자동 선택하는 테스트 플러그인 */
+const SUREFIRE_PLUGIN_ARTIFACTS = new Set(['maven-surefire-plugin', 'maven-failsafe-plugin']);
+
+/**
+ * packaging별 기본 라이프사이클 플러그인 (알 수 없는 packaging은 jar 바인딩 사용)
+ */
+export function getLifecyclePlugins(packaging: string): MavenBuildPlugin[] {
+  const bindings =
+    MAVEN_LIFECYCLE_PLUGINS[packaging] ?? MAVEN_LIFECYCLE_PLUGINS[MAVEN_CONSTANTS.DEFAULT_PACKAGING];
+  return bindings.map((binding) => ({
+    groupId: MAVEN_PLUGIN_GROUP_ID,
+    artifactId: binding.artifactId,
+    version: binding.version,
+    dependencies: [],
+  }));
+}
+
+/**
+ * 프로젝트 POM 체인에서 빌드 플러그인 수집
+ *
+ * @param packaging - 프로젝트 packaging (기본 라이프사이클 플러그인 선택)
+ * @param chain - 프로젝트 POM부터 가까운 parent 순서의 POM 목록
+ * @param properties - 프로젝트 기준으로 병합된 프로퍼티 (플러그인 버전 치환용)
+ */
+export function collectBuildPlugins(
+  packaging: string,
+  chain: PomProject[],
+  properties: Record<string, string>
+): MavenBuildPlugin[] {
+  const managed = new Map<string, MavenBuildPlugin>();
+  const declared = new Map<string, MavenBuildPlugin>();
+
+  chain.forEach((pom, index) => {
+    // 가까운 POM의 선언이 우선
+    for (const plugin of toArray(pom.build?.pluginManagement?.plugins?.plugin)) {
+      const resolved = toBuildPlugin(plugin, properties);
+      const key = pluginKey(resolved);
+      if (!managed.has(key)) {
+        managed.set(key, resolved);
+      }
+    }
+
+    for (const plugin of toArray(pom.build?.plugins?.plugin)) {
+      if (index > 0 && String(plugin.inherited) === 'false') {
+        continue;
+      }
+      const resolved = toBuildPlugin(plugin, properties);
+      const key = pluginKey(resolved);
+      if (!declared.has(key)) {
+        declared.set(key, resolved);
+      }
+    }
+  });
+
+  const plugins = new Map<string, MavenBuildPlugin>();
+  const merge = (plugin: MavenBuildPlugin) => {
+    const key = pluginKey(plugin);
+    const existing = plugins.get(key);
+    const management = managed.get(key);
+    plugins.set(key, {
+      ...plugin,
+      version: plugin.version ?? management?.version ?? existing?.version,
+      dependencies: uniqueDependencies([
+        ...plugin.dependencies,
+        ...(management?.dependencies ?? []),
+        ...(existing?.dependencies ?? []),
+      ]),
+    });
+  };
+
+  // 기본 바인딩의 버전보다 pluginManagement/선언 버전이 우선
+  for (const plugin of getLifecyclePlugins(packaging)) {
+    merge({ ...plugin, version: managed.get(pluginKey(plugin))?.version ?? plugin.version });
+  }
+  for (const plugin of declared.values()) {
+    merge(plugin);
+  }
+
+  return Array.from(plugins.values());
+}
+
+/**
+ * surefire/failsafe가 실행 시점에 내려받는 provider 의존성 선택
+ *
+ * 테스트 클래스패스의 프레임워크로 provider를 고르며(TestNG > JUnit Platform > JUnit 4),
+ * JUnit Platform은 프로젝트와 같은 버전의 junit-platform-launcher도 함께 필요하다.
+ */
+export function getSurefireProviderDependencies(
+  plugin: Pick<MavenBuildPlugin, 'artifactId' | 'version'>,
+  testDependencies: Array<{ name: string; version: string }>
+): PomDependency[] {
+  if (!SUREFIRE_PLUGIN_ARTIFACTS.has(plugin.artifactId) || !plugin.version) {
+    return [];
+  }
+
+  const provider = (artifactId: string): PomDependency => ({
+    groupId: MAVEN_SUREFIRE_GROUP_ID,
+    artifactId,
+    version: plugin.version,
+  });
+
+  if (testDependencies.some((dep) => dep.name === 'org.testng:testng')) {
+    return [provider('surefire-testng')];
+  }
+
+  const platformVersion = getJunitPlatformVersion(testDependencies);
+  if (platformVersion) {
+    return [
+      provider('surefire-junit-platform'),
+      { groupId: 'org.junit.platform', artifactId: 'junit-platform-launcher', version: platformVersion },
+    ];
+  }
+
+  if (testDependencies.some((dep) => dep.name === 'junit:junit')) {
+    return [provider('surefire-junit4')];
+  }
+
+  return [];
+}
+
+/**
+ * 테스트 클래스패스의 JUnit Platform 버전 (Jupiter 5.x.y는 Platform 1.x.y에 대응)
+ */
+function getJunitPlatformVersion(testDependencies: Array<{ name: string; version: string }>): string | undefined {
+  const platform = testDependencies.find((dep) => dep.name.startsWith('org.junit.platform:'));
+  if (platform) {
+    return platform.version;
+  }
+
+  const jupiter = testDependencies.find(
+    (dep) => dep.name.startsWith('org.junit.jupiter:') || dep.name.startsWith('org.junit.vintage:')
+  );
+  const match = jupiter ? /^5\.(.+)$/.exec(jupiter.version) : null;
+  return match ? `1.${match[1]}` : undefined;
+}
+
+function toBuildPlugin(plugin: PomPlugin, properties: Record<string, string>): MavenBuildPlugin {
+  const version = plugin.version ? resolveProperty(plugin.version, properties) : undefined;
+  return {
+    groupId: plugin.groupId ? resolveProperty(plugin.groupId, properties) : MAVEN_PLUGIN_GROUP_ID,
+    artifactId: plugin.artifactId,
+    version: version && !version.includes('${') ? version : undefined,
+    dependencies: toArray(plugin.dependencies?.dependency).flatMap((dep) => {
+      const depVersion = resolveProperty(dep.version || '', properties);
+      return depVersion && !depVersion.includes('${')
+        ? [{ ...dep, groupId: resolveProperty(dep.groupId, properties), version: depVersion }]
+        : [];
+    }),
+  };
+}
+
+function pluginKey(plugin: Pick<MavenBuildPlugin, 'groupId' | 'artifactId'>): string {
+  return `${plugin.groupId}:${plugin.artifactId}`;
+}
+
+function uniqueDependencies(dependencies: PomDependency[]): PomDependency[] {
+  const seen = new Map<string, PomDependency>();
+  for (const dep of dependencies) {
+    const key = `${dep.groupId}:${dep.artifactId}:${dep.classifier ?? ''}`;
+    if (!seen.has(key)) {
+      seen.set(key, dep);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectMavenProjectFileFormat,
+  isMavenProjectPackage,
+  parseGradleLockfile,
+  toMavenProjectPackageInfo,
+} from './maven-project-file';
+
+describe('maven-project-file', () => {
+  it('파일 이름으로 프로젝트 파일 형식을 판별한다', () => {
+    expect(detectMavenProjectFileFormat('/work/app/pom.xml')).toBe('pom');
+    expect(detectMavenProjectFileFormat('C:\\work\\app-1.0.pom')).toBe('pom');
+    expect(detectMavenProjectFileFormat('gradle.lockfile')).toBe('gradle-lockfile');
+    expect(detectMavenProjectFileFormat('gradle/dependency-locks/compileClasspath.lockfile')).toBe(
+      'gradle-lockfile'
+    );
+    expect(detectMavenProjectFileFormat('settings.xml')).toBeNull();
+    expect(detectMavenProjectFileFormat('deps.txt')).toBeNull();
+  });
+
+  it('gradle.lockfile에서 테스트 전용 configuration 항목을 제외한다', () => {
+    const content = [
+      '# This is a Gradle generated file for dependency locking.',
+      '# Manual edits can break the build and are not advised.',
+      '# This file is expected to be part of source control.',
+      'com.google.guava:guava:33.2.0-jre=compileClasspath,runtimeClasspath',
+      'com.google.guava:failureaccess:1.0.2=runtimeClasspath,testRuntimeClasspath',
+      'org.junit.jupiter:junit-jupiter-api:5.10.2=testCompileClasspath,testRuntimeClasspath',
+      'org.mockito:mockito-core:5.11.0=debugUnitTestRuntimeClasspath',
+      'empty=annotationProcessor,testAnnotationProcessor',
+      '',
+    ].join('\n');
+
+    expect(parseGradleLockfile(content)).toEqual([
+      {
+        groupId: 'com.google.guava',
+        artifactId: 'guava',
+        version: '33.2.0-jre',
+        configurations: ['compileClasspath', 'runtimeClasspath'],
+      },
+      {
+        groupId: 'com.google.guava',
+        artifactId: 'failureaccess',
+        version: '1.0.2',
+        configurations: ['runtimeClasspath', 'testRuntimeClasspath'],
+      },
+    ]);
+  });
+
+  it('구형 configuration별 잠금 파일은 모든 항목을 포함한다', () => {
+    const content = 'org.slf4j:slf4j-api:2.0.13\norg.slf4j:slf4j-api:2.0.13\n';
+
+    expect(parseGradleLockfile(content)).toEqual([
+      { groupId: 'org.slf4j', artifactId: 'slf4j-api', version: '2.0.13', configurations: [] },
+    ]);
+  });
+
+  it('프로젝트 패키지는 metadata.projectFile로 표시한다', () => {
+    const pkg = toMavenProjectPackageInfo(
+      {
+        type: 'maven',
+        name: 'io.netty:netty-transport-native-epoll',
+        version: '4.1.110.Final',
+        metadata: { classifier: 'linux-x86_64' },
+      },
+      'pom'
+    );
+
+    expect(pkg.metadata).toEqual({
+      groupId: 'io.netty',
+      artifactId: 'netty-transport-native-epoll',
+      classifier: 'linux-x86_64',
+      projectFile: 'pom',
+    });
+    expect(isMavenProjectPackage(pkg)).toBe(true);
+    expect(isMavenProjectPackage({ type: 'maven', metadata: { groupId: 'io.netty' } })).toBe(false);
+    expect(isMavenProjectPackage({ type: 'npm', metadata: { projectFile: 'pom' } })).toBe(false);
+  });
+});
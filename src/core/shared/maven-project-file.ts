@@ -0,0 +1,109 @@
+/**
+ * Maven 프로젝트 파일
+ *
+ * 프로젝트 pom.xml이나 gradle.lockfile에서 가져온 Maven 아티팩트 목록은 이미 전이 의존성까지
+ * 해결된 목록이므로 metadata.projectFile로 표시해 의존성을 다시 해결하지 않는다.
+ * (pom.xml 해결은 dependency-resolver의 resolveMavenProjectFile 참고)
+ */
+
+import type { PackageInfo } from '../../types';
+
+/** 지원하는 프로젝트 파일 형식 */
+export type MavenProjectFileFormat = 'pom' | 'gradle-lockfile';
+
+/**
+ * gradle.lockfile 항목
+ */
+export interface GradleLockedDependency {
+  groupId: string;
+  artifactId: string;
+  version: string;
+  /** 이 버전을 사용하는 Gradle configuration 목록 */
+  configurations: string[];
+}
+
+/** 테스트 전용 Gradle configuration (testRuntimeClasspath, debugUnitTestCompileClasspath 등) */
+const GRADLE_TEST_CONFIGURATION_PATTERN = /(?:^test|Test)(?=[A-Z])/;
+
+/**
+ * 프로젝트 파일에서 가져온 Maven 패키지인지 확인 (metadata.projectFile에 파일 형식이 기록됨)
+ */
+export function isMavenProjectPackage(pkg: { type: string; metadata?: Record<string, unknown> }): boolean {
+  return pkg.type === 'maven' && typeof pkg.metadata?.projectFile === 'string';
+}
+
+/**
+ * 해결된 아티팩트를 프로젝트 패키지로 표시
+ */
+export function toMavenProjectPackageInfo(pkg: PackageInfo, format: MavenProjectFileFormat): PackageInfo {
+  const [groupId, artifactId] = pkg.name.split(':');
+  return {
+    ...pkg,
+    type: 'maven',
+    metadata: {
+      groupId,
+      artifactId,
+      ...pkg.metadata,
+      projectFile: format,
+    },
+  };
+}
+
+/**
+ * 파일 이름으로 프로젝트 파일 형식 판별
+ */
+export function detectMavenProjectFileFormat(fileName: string): MavenProjectFileFormat | null {
+  const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+
+  if (baseName === 'pom.xml' || baseName.endsWith('.pom')) {
+    return 'pom';
+  }
+  // gradle.lockfile 또는 구형 gradle/dependency-locks/<configuration>.lockfile
+  if (baseName.endsWith('.lockfile')) {
+    return 'gradle-lockfile';
+  }
+  return null;
+}
+
+/**
+ * gradle.lockfile 파싱
+ *
+ * `group:artifact:version=configuration,...` 줄을 읽고, 테스트 configuration에서만 쓰이는 항목은 제외한다.
+ * 잠금 파일은 이미 전이 의존성까지 고정된 목록이다.
+ */
+export function parseGradleLockfile(content: string): GradleLockedDependency[] {
+  const dependencies = new Map<string, GradleLockedDependency>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('empty=')) {
+      continue;
+    }
+
+    const [coordinate, configurationList] = trimmed.split('=');
+    const [groupId, artifactId, version] = coordinate.split(':');
+    if (!groupId || !artifactId || !version) {
+      continue;
+    }
+
+    // 구형 configuration별 잠금 파일에는 '=' 이후가 없다
+    const configurations = configurationList
+      ? configurationList.split(',').map((name) => name.trim()).filter(Boolean)
+      : [];
+    if (
+      configurations.length > 0 &&
+      configurations.every((name) => GRADLE_TEST_CONFIGURATION_PATTERN.test(name))
+    ) {
+      continue;
+    }
+
+    dependencies.set(`${groupId}:${artifactId}:${version}`, {
+      groupId,
+      artifactId,
+      version,
+      configurations,
+    });
+  }
+
+  return Array.from(dependencies.values());
+}
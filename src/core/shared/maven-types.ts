@@ -36,6 +36,12 @@ export interface PomPlugin {
   groupId?: string;
   artifactId: string;
   version?: string;
+  /** 'false'이면 하위 POM에 상속되지 않음 */
+  inherited?: string | boolean;
+  /** 플러그인 클래스패스에 추가되는 의존성 */
+  dependencies?: {
+    dependency: PomDependency | PomDependency[];
+  };
 }
 
 /** POM Parent */
@@ -0,0 +1,283 @@
+/**
+ * 프록시 및 사용자 CA 네트워크 설정
+ *
+ * HTTP_PROXY/HTTPS_PROXY/NO_PROXY 환경 변수와 설정 파일의 프록시·사용자 CA 번들을 합쳐
+ * 프로세스 전체 HTTP 경로에 한 번에 적용한다. fetch는 undici 전역 디스패처로, axios는 기본
+ * httpAgent/httpsAgent로 라우팅하므로 개별 다운로더·리졸버(Docker 레지스트리, OS 저장소 메타데이터,
+ * GPG 키 조회 포함)를 수정하지 않아도 같은 설정을 따른다.
+ */
+
+import * as fs from 'fs';
+import type * as http from 'http';
+import * as net from 'net';
+import * as tls from 'tls';
+import { Agent as AgentBase, type AgentConnectOpts } from 'agent-base';
+import axios from 'axios';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { Agent as UndiciAgent, EnvHttpProxyAgent, setGlobalDispatcher } from 'undici';
+import { createRegistryMirrorInterceptor } from './registry-mirrors';
+
+/**
+ * 사용자 네트워크 설정 (설정 파일/UI 입력값)
+ */
+export interface NetworkProxySettings {
+  /** http:// 요청에 사용할 프록시 (비어 있으면 HTTP_PROXY) */
+  httpProxy?: string;
+  /** https:// 요청에 사용할 프록시 (비어 있으면 HTTPS_PROXY, 그다음 httpProxy) */
+  httpsProxy?: string;
+  /** 프록시를 거치지 않을 호스트 목록 (쉼표 구분, 비어 있으면 NO_PROXY) */
+  noProxy?: string;
+  /** 프록시 기본 인증 사용자 */
+  proxyUsername?: string;
+  /** 프록시 기본 인증 비밀번호 */
+  proxyPassword?: string;
+  /** 시스템 루트 인증서에 추가할 PEM CA 번들 경로 */
+  caBundlePath?: string;
+  /** false면 서버 인증서 검증을 하지 않음 (GUI 기본 동작 유지용) */
+  rejectUnauthorized?: boolean;
+}
+
+/**
+ * 환경 변수와 합쳐 정규화한 네트워크 설정
+ */
+export interface ResolvedNetworkSettings {
+  /** 인증 정보가 포함된 HTTP 프록시 URL */
+  httpProxy?: string;
+  /** 인증 정보가 포함된 HTTPS 프록시 URL */
+  httpsProxy?: string;
+  /** 프록시 제외 규칙 (소문자) */
+  noProxy: string[];
+  /** 시스템 루트 인증서 + 사용자 CA */
+  ca?: string[];
+  rejectUnauthorized?: boolean;
+}
+
+const EMPTY_SETTINGS: ResolvedNetworkSettings = { noProxy: [] };
+
+let currentSettings: ResolvedNetworkSettings = EMPTY_SETTINGS;
+let routingAgent: NetworkRoutingAgent | null = null;
+
+const firstNonEmpty = (...values: Array<string | undefined>): string | undefined =>
+  values.map((value) => value?.trim()).find((value): value is string => Boolean(value));
+
+/**
+ * 프록시 URL 정규화 (스킴이 없으면 http://, 기본 인증 정보 포함)
+ */
+function normalizeProxyUrl(value: string, username?: string, password?: string): string {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+  } catch {
+    throw new Error(`잘못된 프록시 주소입니다: ${value}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`지원하지 않는 프록시 프로토콜입니다: ${url.protocol} (http, https만 지원)`);
+  }
+
+  if (username) {
+    url.username = encodeURIComponent(username);
+    url.password = encodeURIComponent(password ?? '');
+  }
+
+  return url.toString().replace(/\/$/, '');
+}
+
+/**
+ * 사용자 설정과 환경 변수를 합쳐 적용할 네트워크 설정을 만든다
+ *
+ * 설정값이 있으면 환경 변수보다 우선한다. CA 번들을 읽을 수 없으면 오류를 던진다.
+ */
+export function resolveNetworkSettings(
+  settings: NetworkProxySettings = {},
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedNetworkSettings {
+  const rawHttpProxy = firstNonEmpty(settings.httpProxy, env.HTTP_PROXY, env.http_proxy);
+  const rawHttpsProxy = firstNonEmpty(settings.httpsProxy, env.HTTPS_PROXY, env.https_proxy, rawHttpProxy);
+  const rawNoProxy = firstNonEmpty(settings.noProxy, env.NO_PROXY, env.no_proxy) ?? '';
+  const username = settings.proxyUsername?.trim();
+
+  let ca: string[] | undefined;
+  const caBundlePath = settings.caBundlePath?.trim();
+  if (caBundlePath) {
+    let pem: string;
+    try {
+      pem = fs.readFileSync(caBundlePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`사용자 CA 번들을 읽을 수 없습니다: ${caBundlePath} (${(error as Error).message})`);
+    }
+    if (!pem.includes('-----BEGIN CERTIFICATE-----')) {
+      throw new Error(`사용자 CA 번들이 PEM 인증서 형식이 아닙니다: ${caBundlePath}`);
+    }
+    ca = [...tls.rootCertificates, pem];
+  }
+
+  return {
+    httpProxy: rawHttpProxy ? normalizeProxyUrl(rawHttpProxy, username, settings.proxyPassword) : undefined,
+    httpsProxy: rawHttpsProxy ? normalizeProxyUrl(rawHttpsProxy, username, settings.proxyPassword) : undefined,
+    noProxy: rawNoProxy
+      .split(/[\s,]+/)
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean),
+    ca,
+    ...(settings.rejectUnauthorized !== undefined && { rejectUnauthorized: settings.rejectUnauthorized }),
+  };
+}
+
+/**
+ * NO_PROXY 규칙에 해당하는지 확인
+ *
+ * curl과 같이 `*`는 전체, `example.com`과 `.example.com`은 해당 도메인과 하위 도메인,
+ * `host:port`는 해당 포트만 제외한다.
+ */
+export function shouldBypassProxy(targetUrl: string, noProxy: string[]): boolean {
+  if (noProxy.length === 0) {
+    return false;
+  }
+
+  const url = new URL(targetUrl);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+
+    let ruleHost = entry;
+    let rulePort: string | undefined;
+    const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(entry);
+    const withPort = net.isIP(entry) === 6 ? null : /^(.+):(\d+)$/.exec(entry);
+    if (bracketed) {
+      [, ruleHost, rulePort] = bracketed;
+    } else if (withPort) {
+      [, ruleHost, rulePort] = withPort;
+    }
+
+    if (rulePort && rulePort !== port) {
+      return false;
+    }
+    ruleHost = ruleHost.replace(/^\*?\./, '');
+    return hostname === ruleHost || hostname.endsWith(`.${ruleHost}`);
+  });
+}
+
+/**
+ * 대상 URL에 사용할 프록시 URL (프록시를 쓰지 않으면 undefined)
+ */
+export function getProxyForUrl(
+  targetUrl: string,
+  settings: ResolvedNetworkSettings = currentSettings
+): string | undefined {
+  const proxy = targetUrl.startsWith('https:') ? settings.httpsProxy : settings.httpProxy;
+  if (!proxy || shouldBypassProxy(targetUrl, settings.noProxy)) {
+    return undefined;
+  }
+  return proxy;
+}
+
+/**
+ * 현재 적용된 네트워크 설정
+ */
+export function getNetworkSettings(): ResolvedNetworkSettings {
+  return currentSettings;
+}
+
+/**
+ * Node http/https 모듈을 직접 쓰는 요청에 넘길 에이전트 (설정 적용 전이면 undefined → 기본 에이전트)
+ */
+export function getNetworkAgent(): http.Agent | undefined {
+  return routingAgent ?? undefined;
+}
+
+function getTlsOptions(settings: ResolvedNetworkSettings): tls.ConnectionOptions {
+  return {
+    ...(settings.ca && { ca: settings.ca }),
+    ...(settings.rejectUnauthorized !== undefined && { rejectUnauthorized: settings.rejectUnauthorized }),
+  };
+}
+
+/**
+ * axios(Node http/https) 요청을 현재 설정에 따라 프록시 또는 직접 연결로 보내는 에이전트
+ *
+ * 설정이 바뀌어도 이미 만든 axios 인스턴스가 같은 에이전트를 계속 쓰므로 연결 시점의 설정을 읽는다.
+ */
+class NetworkRoutingAgent extends AgentBase {
+  private proxyAgents = new Map<string, http.Agent>();
+
+  async connect(_req: http.ClientRequest, opts: AgentConnectOpts): Promise<net.Socket | http.Agent> {
+    const settings = currentSettings;
+    const tlsOptions = getTlsOptions(settings);
+    const hostname = opts.host ?? 'localhost';
+    const protocol = opts.secureEndpoint ? 'https:' : 'http:';
+    const host = net.isIP(hostname) === 6 ? `[${hostname}]` : hostname;
+    const proxy = getProxyForUrl(`${protocol}//${host}:${opts.port}`, settings);
+
+    if (proxy) {
+      // 프록시 에이전트가 터널 안에서 대상 서버와 TLS를 맺을 때도 사용자 CA를 쓰도록 요청 옵션에 합친다
+      Object.assign(opts, tlsOptions);
+      return this.getProxyAgent(proxy, opts.secureEndpoint, tlsOptions);
+    }
+
+    if (opts.secureEndpoint) {
+      return tls.connect({
+        ...opts,
+        ...tlsOptions,
+        servername: opts.servername ?? (net.isIP(hostname) ? undefined : hostname),
+      });
+    }
+    return net.connect(opts);
+  }
+
+  /** 설정이 바뀌면 이전 프록시 연결을 재사용하지 않는다 */
+  reset(): void {
+    this.proxyAgents.forEach((agent) => agent.destroy());
+    this.proxyAgents.clear();
+  }
+
+  private getProxyAgent(proxy: string, secureEndpoint: boolean, tlsOptions: tls.ConnectionOptions): http.Agent {
+    const key = `${secureEndpoint ? 'https' : 'http'}|${proxy}`;
+    let agent = this.proxyAgents.get(key);
+    if (!agent) {
+      agent = secureEndpoint
+        ? new HttpsProxyAgent(proxy, tlsOptions)
+        : new HttpProxyAgent(proxy, tlsOptions);
+      this.proxyAgents.set(key, agent);
+    }
+    return agent;
+  }
+}
+
+/**
+ * 네트워크 설정을 프로세스 전체에 적용
+ *
+ * fetch는 undici 전역 디스패처를, axios는 기본 에이전트를 교체한다. axios 자체의 환경 변수 프록시
+ * 처리(`proxy`)는 HTTPS를 터널링하지 않으므로 끄고 라우팅 에이전트가 대신 처리한다.
+ */
+export function applyNetworkSettings(settings: ResolvedNetworkSettings): void {
+  currentSettings = settings;
+
+  if (!routingAgent) {
+    routingAgent = new NetworkRoutingAgent();
+    axios.defaults.proxy = false;
+    axios.defaults.httpAgent = routingAgent;
+    axios.defaults.httpsAgent = routingAgent;
+  } else {
+    routingAgent.reset();
+  }
+
+  const tlsOptions = getTlsOptions(settings);
+  const dispatcher = settings.httpProxy || settings.httpsProxy
+    ? new EnvHttpProxyAgent({
+      httpProxy: settings.httpProxy,
+      httpsProxy: settings.httpsProxy,
+      noProxy: settings.noProxy.join(','),
+      connect: tlsOptions,
+      requestTls: tlsOptions,
+      proxyTls: tlsOptions,
+    })
+    : new UndiciAgent({ connect: tlsOptions });
+  // 공개 저장소 요청은 저장소 미러로 보낸다 (registry-mirrors 참고)
+  setGlobalDispatcher(dispatcher.compose(createRegistryMirrorInterceptor()));
+}
@@ -42,6 +42,7 @@ const mockGet = vi.fn();
 const mockClient = {
   get: mockGet,
   defaults: { baseURL: 'https://registry.npmjs.org' },
+  interceptors: { request: { use: vi.fn() } },
 };
 
 describe('npm-cache', () => {
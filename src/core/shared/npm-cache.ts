@@ -10,6 +10,7 @@ import logger from '../../utils/logger';
 import { NpmPackument } from './npm-types';
 import { createMemoryCache } from './cache/cache-store';
 import { DEFAULT_MEMORY_TTL_MS } from './cache-utils';
+import { attachRegistryCredentials } from './registry-credentials';
 
 /** 기본 TTL: 5분 */
 const DEFAULT_TTL = DEFAULT_MEMORY_TTL_MS;
@@ -29,13 +30,13 @@ let sharedClient: AxiosInstance | null = null;
 
 function getClient(registryUrl: string = DEFAULT_REGISTRY_URL): AxiosInstance {
   if (!sharedClient || sharedClient.defaults.baseURL !== registryUrl) {
-    sharedClient = axios.create({
+    sharedClient = attachRegistryCredentials(axios.create({
       baseURL: registryUrl,
       timeout: 30000,
       headers: {
         Accept: 'application/json',
       },
-    });
+    }));
   }
   return sharedClient;
 }
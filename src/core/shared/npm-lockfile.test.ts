@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectNpmLockfileFormat,
+  isNpmLockedPackage,
+  parseNpmLockfile,
+  toNpmLockedPackageInfo,
+} from './npm-lockfile';
+
+const tarball = (name: string, version: string): string =>
+  `https://registry.npmjs.org/${name}/-/${name.split('/').pop()}-${version}.tgz`;
+
+describe('npm 잠금 파일', () => {
+  it('파일 이름으로 잠금 파일 형식을 판별한다', () => {
+    expect(detectNpmLockfileFormat('/work/app/package-lock.json')).toBe('package-lock');
+    expect(detectNpmLockfileFormat('npm-shrinkwrap.json')).toBe('package-lock');
+    expect(detectNpmLockfileFormat('C:\\app\\yarn.lock')).toBe('yarn');
+    expect(detectNpmLockfileFormat('pnpm-lock.yaml')).toBe('pnpm');
+    expect(detectNpmLockfileFormat('package.json')).toBeNull();
+  });
+
+  it('package-lock v3의 packages 맵에서 링크와 번들 항목을 제외하고 중복을 합친다', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0' },
+        'node_modules/@types/node': {
+          version: '20.1.0',
+          resolved: tarball('@types/node', '20.1.0'),
+          integrity: 'sha512-types',
+        },
+        'node_modules/a/node_modules/@types/node': {
+          version: '20.1.0',
+          resolved: tarball('@types/node', '20.1.0'),
+          integrity: 'sha512-types',
+        },
+        'node_modules/local': { resolved: 'packages/local', link: true },
+        'node_modules/bundled': { version: '1.0.0', inBundle: true },
+      },
+    });
+
+    expect(parseNpmLockfile(content, 'package-lock')).toEqual([
+      {
+        name: '@types/node',
+        version: '20.1.0',
+        resolved: tarball('@types/node', '20.1.0'),
+        integrity: 'sha512-types',
+      },
+    ]);
+  });
+
+  it('package-lock v1의 중첩 dependencies와 npm: 별칭을 평탄화한다', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        debug: {
+          version: '4.3.4',
+          resolved: tarball('debug', '4.3.4'),
+          integrity: 'sha512-debug',
+          dependencies: {
+            ms: { version: '2.1.2', resolved: tarball('ms', '2.1.2'), integrity: 'sha512-ms' },
+          },
+        },
+        'old-lodash': { version: 'npm:lodash@4.17.21', resolved: tarball('lodash', '4.17.21') },
+        mine: { version: 'file:../mine' },
+      },
+    });
+
+    expect(parseNpmLockfile(content, 'package-lock').map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      'debug@4.3.4',
+      'ms@2.1.2',
+      'lodash@4.17.21',
+    ]);
+  });
+
+  it('yarn classic 잠금 파일에서 resolved의 해시 조각을 제거한다', () => {
+    const content = [
+      '# yarn lockfile v1',
+      '',
+      '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+      '  version "7.22.0"',
+      `  resolved "${tarball('@babel/core', '7.22.0')}#abc123"`,
+      '  integrity sha512-babel',
+      '  dependencies:',
+      '    debug "^4.1.0"',
+      '',
+      'local-pkg@file:../local:',
+      '  version "0.0.0"',
+      '',
+    ].join('\n');
+
+    expect(parseNpmLockfile(content, 'yarn')).toEqual([
+      {
+        name: '@babel/core',
+        version: '7.22.0',
+        resolved: tarball('@babel/core', '7.22.0'),
+        integrity: 'sha512-babel',
+      },
+    ]);
+  });
+
+  it('yarn berry 잠금 파일은 __metadata와 워크스페이스를 건너뛴다', () => {
+    const content = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      '',
+      '"lodash@npm:^4.17.0":',
+      '  version: 4.17.21',
+      '  resolution: "lodash@npm:4.17.21"',
+      '  checksum: abcdef',
+      '',
+    ].join('\n');
+
+    expect(parseNpmLockfile(content, 'yarn')).toEqual([
+      { name: 'lodash', version: '4.17.21', resolved: undefined, integrity: undefined },
+    ]);
+  });
+
+  it('pnpm v6/v9 키에서 이름과 버전을 읽고 git 의존성은 제외한다', () => {
+    const v6 = [
+      "lockfileVersion: '6.0'",
+      'packages:',
+      '  /@scope/pkg@1.2.3(react@18.2.0):',
+      '    resolution: {integrity: sha512-scoped}',
+      '  /legacy/2.0.0_peer@1.0.0:',
+      '    resolution: {integrity: sha512-legacy}',
+      '  github.com/user/repo/abcdef:',
+      '    resolution: {tarball: https://codeload.github.com/user/repo/tar.gz/abcdef}',
+      '    name: repo',
+      '    version: 0.0.1',
+      '    dev: false',
+      '  /gitdep@1.0.0:',
+      '    resolution: {type: git, repo: https://github.com/user/gitdep, commit: abc}',
+    ].join('\n');
+    const v9 = [
+      "lockfileVersion: '9.0'",
+      'packages:',
+      '  ms@2.1.3:',
+      `    resolution: {integrity: sha512-ms, tarball: ${tarball('ms', '2.1.3')}}`,
+    ].join('\n');
+
+    expect(parseNpmLockfile(v6, 'pnpm').map((pkg) => `${pkg.name}@${pkg.version}`)).toEqual([
+      '@scope/pkg@1.2.3',
+      'legacy@2.0.0',
+      'repo@0.0.1',
+    ]);
+    expect(parseNpmLockfile(v9, 'pnpm')).toEqual([
+      { name: 'ms', version: '2.1.3', resolved: tarball('ms', '2.1.3'), integrity: 'sha512-ms' },
+    ]);
+  });
+
+  it('잠금 파일 패키지를 metadata에 형식을 기록한 PackageInfo로 변환한다', () => {
+    const info = toNpmLockedPackageInfo(
+      { name: 'ms', version: '2.1.3', resolved: tarball('ms', '2.1.3'), integrity: 'sha512-ms' },
+      'pnpm'
+    );
+
+    expect(info).toEqual({
+      type: 'npm',
+      name: 'ms',
+      version: '2.1.3',
+      metadata: { lockfile: 'pnpm', downloadUrl: tarball('ms', '2.1.3'), integrity: 'sha512-ms' },
+    });
+    expect(isNpmLockedPackage(info)).toBe(true);
+    expect(isNpmLockedPackage({ type: 'npm', metadata: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * npm 잠금 파일 파서
+ *
+ * package-lock.json(npm-shrinkwrap.json), yarn.lock(classic/berry), pnpm-lock.yaml에서
+ * 이미 해결된 패키지 트리를 평탄화해 읽는다. resolved tarball URL과 integrity(SRI)를 함께 보존하므로
+ * 의존성 재해결 없이 잠금 파일 그대로 다운로드하고 각 tarball을 검증할 수 있다.
+ */
+
+import * as yaml from 'js-yaml';
+import type { PackageInfo } from '../../types';
+
+/** 지원하는 잠금 파일 형식 */
+export type NpmLockfileFormat = 'package-lock' | 'yarn' | 'pnpm';
+
+/**
+ * 잠금 파일에서 읽은 패키지
+ */
+export interface NpmLockedPackage {
+  name: string;
+  version: string;
+  /** tarball URL (잠금 파일에 기록된 경우) */
+  resolved?: string;
+  /** SRI 무결성 값 (예: sha512-...) */
+  integrity?: string;
+}
+
+/** 레지스트리 밖에서 가져오는 의존성 (로컬 경로, git, 워크스페이스 등) */
+const NON_REGISTRY_SPEC_PATTERN = /^(workspace|patch|file|link|portal|exec|git\+[a-z]+|git|github|https?):/;
+
+/**
+ * 잠금 파일에서 가져온 패키지인지 확인 (metadata.lockfile에 잠금 파일 형식이 기록됨)
+ *
+ * 이런 패키지는 의존성을 다시 해결하지 않고, 기록된 tarball URL과 integrity로 다운로드/검증한다.
+ */
+export function isNpmLockedPackage(pkg: { type: string; metadata?: Record<string, unknown> }): boolean {
+  return pkg.type === 'npm' && typeof pkg.metadata?.lockfile === 'string';
+}
+
+/**
+ * 잠금 파일 패키지를 PackageInfo로 변환
+ */
+export function toNpmLockedPackageInfo(pkg: NpmLockedPackage, format: NpmLockfileFormat): PackageInfo {
+  return {
+    type: 'npm',
+    name: pkg.name,
+    version: pkg.version,
+    metadata: {
+      lockfile: format,
+      ...(pkg.resolved ? { downloadUrl: pkg.resolved } : {}),
+      ...(pkg.integrity ? { integrity: pkg.integrity } : {}),
+    },
+  };
+}
+
+/**
+ * 파일 이름으로 잠금 파일 형식 판별
+ */
+export function detectNpmLockfileFormat(fileName: string): NpmLockfileFormat | null {
+  const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+
+  if (baseName === 'package-lock.json' || baseName === 'npm-shrinkwrap.json') {
+    return 'package-lock';
+  }
+  if (baseName === 'yarn.lock') {
+    return 'yarn';
+  }
+  if (baseName === 'pnpm-lock.yaml' || baseName === 'pnpm-lock.yml') {
+    return 'pnpm';
+  }
+  return null;
+}
+
+/**
+ * 잠금 파일 파싱
+ *
+ * 같은 name@version은 한 번만 반환하고, 레지스트리 밖의 의존성(로컬 링크, git 등)은 제외한다.
+ */
+export function parseNpmLockfile(content: string, format: NpmLockfileFormat): NpmLockedPackage[] {
+  const parsed =
+    format === 'package-lock'
+      ? parsePackageLock(content)
+      : format === 'yarn'
+        ? parseYarnLock(content)
+        : parsePnpmLock(content);
+
+  const packages = new Map<string, NpmLockedPackage>();
+  for (const pkg of parsed) {
+    const key = `${pkg.name}@${pkg.version}`;
+    const existing = packages.get(key);
+    packages.set(key, {
+      name: pkg.name,
+      version: pkg.version,
+      resolved: existing?.resolved ?? pkg.resolved,
+      integrity: existing?.integrity ?? pkg.integrity,
+    });
+  }
+  return Array.from(packages.values());
+}
+
+interface PackageLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  link?: boolean;
+  inBundle?: boolean;
+  bundled?: boolean;
+  dependencies?: Record<string, PackageLockEntry>;
+}
+
+/**
+ * package-lock.json 파싱 (lockfileVersion 1~3)
+ */
+function parsePackageLock(content: string): NpmLockedPackage[] {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, PackageLockEntry>;
+    dependencies?: Record<string, PackageLockEntry>;
+  };
+
+  // v2/v3: node_modules 경로를 키로 하는 평탄화된 packages 맵
+  if (lock.packages) {
+    return Object.entries(lock.packages).flatMap(([key, entry]) => {
+      const index = key.lastIndexOf('node_modules/');
+      if (index === -1 || entry.link || entry.inBundle || !entry.version) {
+        return [];
+      }
+      return toLockedPackage(entry.name ?? key.slice(index + 'node_modules/'.length), entry);
+    });
+  }
+
+  // v1: 중첩된 dependencies 트리
+  const collect = (dependencies: Record<string, PackageLockEntry> = {}): NpmLockedPackage[] =>
+    Object.entries(dependencies).flatMap(([name, entry]) => [
+      ...(entry.bundled || !entry.version ? [] : toLockedPackage(name, entry)),
+      ...collect(entry.dependencies),
+    ]);
+  return collect(lock.dependencies);
+}
+
+function toLockedPackage(name: string, entry: PackageLockEntry): NpmLockedPackage[] {
+  let packageName = name;
+  let version = entry.version as string;
+
+  // v1 별칭: "version": "npm:real-name@1.0.0"
+  if (version.startsWith('npm:')) {
+    const alias = parseDescriptor(version.slice('npm:'.length));
+    packageName = alias.name;
+    version = alias.range;
+  }
+
+  if (NON_REGISTRY_SPEC_PATTERN.test(version) || isNonRegistryResolved(entry.resolved)) {
+    return [];
+  }
+
+  return [{ name: packageName, version, resolved: entry.resolved, integrity: entry.integrity }];
+}
+
+/**
+ * yarn.lock 파싱 (classic v1과 berry 형식 모두 처리)
+ */
+function parseYarnLock(content: string): NpmLockedPackage[] {
+  const packages: NpmLockedPackage[] = [];
+  let current: { name: string; skip: boolean; fields: Record<string, string> } | null = null;
+
+  const flush = () => {
+    if (current && !current.skip && current.fields.version) {
+      packages.push({
+        name: current.name,
+        version: current.fields.version,
+        resolved: stripUrlHash(current.fields.resolved),
+        // berry의 checksum은 tarball SRI가 아니므로 사용하지 않는다
+        integrity: current.fields.integrity,
+      });
+    }
+    current = null;
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    // 블록 헤더: "a@^1.0.0", a@^1.1.0:
+    if (!line.startsWith(' ')) {
+      flush();
+      const header = line.replace(/:$/, '');
+      if (header === '__metadata') {
+        continue;
+      }
+      const firstSpec = header.split(',')[0].trim().replace(/^"|"$/g, '');
+      const descriptor = parseDescriptor(firstSpec);
+      current = {
+        name: descriptor.name,
+        skip: NON_REGISTRY_SPEC_PATTERN.test(descriptor.range),
+        fields: {},
+      };
+      continue;
+    }
+
+    // 블록 필드 (2칸 들여쓰기만, dependencies 하위 항목 제외)
+    const field = /^ {2}([A-Za-z]+):?\s+"?([^"]*)"?\s*$/.exec(line);
+    if (current && field) {
+      current.fields[field[1]] = field[2];
+    }
+  }
+  flush();
+
+  return packages.filter((pkg) => !isNonRegistryResolved(pkg.resolved));
+}
+
+interface PnpmPackageEntry {
+  name?: string;
+  version?: string;
+  resolution?: {
+    integrity?: string;
+    tarball?: string;
+    type?: string;
+    directory?: string;
+    repo?: string;
+  };
+}
+
+/**
+ * pnpm-lock.yaml 파싱 (lockfileVersion 5.x, 6.x, 9.x)
+ */
+function parsePnpmLock(content: string): NpmLockedPackage[] {
+  const lock = (yaml.load(content) ?? {}) as { packages?: Record<string, PnpmPackageEntry> };
+
+  return Object.entries(lock.packages ?? {}).flatMap(([key, entry]) => {
+    const resolution = entry.resolution ?? {};
+    if (resolution.type === 'git' || resolution.directory || resolution.repo) {
+      return [];
+    }
+
+    const fromKey = parsePnpmPackageKey(key);
+    const name = entry.name ?? fromKey?.name;
+    const version = entry.version ?? fromKey?.version;
+    if (!name || !version || NON_REGISTRY_SPEC_PATTERN.test(version)) {
+      return [];
+    }
+
+    return [{ name, version, resolved: resolution.tarball, integrity: resolution.integrity }];
+  });
+}
+
+/**
+ * pnpm packages 키 파싱
+ *
+ * - v5: /@scope/name/1.0.0_peer@2.0.0
+ * - v6: /@scope/name@1.0.0(peer@2.0.0)
+ * - v9: @scope/name@1.0.0
+ */
+function parsePnpmPackageKey(key: string): { name: string; version: string } | null {
+  const legacy = /^\/((?:@[^/]+\/)?[^/@]+)\/([^/_(]+)(?:_.*)?$/.exec(key);
+  if (legacy) {
+    return { name: legacy[1], version: legacy[2] };
+  }
+
+  const normalized = key.replace(/^\//, '').replace(/\(.*$/, '');
+  const at = normalized.lastIndexOf('@');
+  if (at <= 0) {
+    return null;
+  }
+  return { name: normalized.slice(0, at), version: normalized.slice(at + 1) };
+}
+
+/**
+ * name@range 디스크립터 파싱 (스코프 패키지와 npm: 별칭 처리)
+ */
+function parseDescriptor(spec: string): { name: string; range: string } {
+  const at = spec.indexOf('@', 1);
+  if (at === -1) {
+    return { name: spec, range: '' };
+  }
+
+  const name = spec.slice(0, at);
+  const range = spec.slice(at + 1);
+  if (!range.startsWith('npm:')) {
+    return { name, range };
+  }
+
+  // 별칭: alias@npm:real-name@^1.0.0 또는 berry의 name@npm:^1.0.0
+  const aliased = range.slice('npm:'.length);
+  const aliasAt = aliased.indexOf('@', 1);
+  return aliasAt === -1
+    ? { name, range: aliased }
+    : { name: aliased.slice(0, aliasAt), range: aliased.slice(aliasAt + 1) };
+}
+
+function isNonRegistryResolved(resolved?: string): boolean {
+  return resolved !== undefined && !/^https?:\/\//.test(resolved);
+}
+
+function stripUrlHash(url?: string): string | undefined {
+  return url?.replace(/#.*$/, '');
+}
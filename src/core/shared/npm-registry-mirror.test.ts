@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildNpmRegistryMirror,
+  getNpmMirrorPackumentPath,
+  readNpmRegistryMirrorUrl,
+  readNpmTarballManifest,
+  rewriteNpmMirrorTarballUrls,
+} from './npm-registry-mirror';
+
+describe('npm 레지스트리 미러', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-mirror-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createTarball = async (
+    manifest: Record<string, unknown>,
+    rootName = 'package'
+  ): Promise<string> => {
+    const sourceDir = fs.mkdtempSync(path.join(tempDir, 'src-'));
+    fs.mkdirSync(path.join(sourceDir, rootName));
+    fs.writeFileSync(path.join(sourceDir, rootName, 'package.json'), JSON.stringify(manifest));
+    fs.writeFileSync(path.join(sourceDir, rootName, 'index.js'), 'module.exports = 1;');
+    const tarballPath = path.join(tempDir, `${String(manifest.name).replace('/', '-')}-${manifest.version}.tgz`);
+    await tar.c({ gzip: true, file: tarballPath, cwd: sourceDir }, [rootName]);
+    return tarballPath;
+  };
+
+  const readPackument = (name: string) =>
+    JSON.parse(fs.readFileSync(getNpmMirrorPackumentPath(path.join(tempDir, 'out', 'npm-registry'), name), 'utf-8'));
+
+  it('tarball의 package.json을 읽는다 (최상위 디렉토리 이름과 무관)', async () => {
+    const tarballPath = await createTarball({ name: 'odd', version: '1.0.0' }, 'odd-root');
+
+    await expect(readNpmTarballManifest(tarballPath)).resolves.toEqual({ name: 'odd', version: '1.0.0' });
+  });
+
+  it('패키지별 packument와 tarball을 스코프 경로로 배치하고 dist를 계산한다', async () => {
+    const tarballPath = await createTarball({
+      name: '@types/node',
+      version: '20.1.0',
+      dependencies: { undici: '^5.0.0' },
+    });
+    const content = fs.readFileSync(tarballPath);
+
+    const result = await buildNpmRegistryMirror(path.join(tempDir, 'out'), [
+      { name: '@types/node', version: '20.1.0', filePath: tarballPath },
+    ]);
+
+    expect(result.packageCount).toBe(1);
+    expect(result.files.map((file) => path.relative(result.registryDir, file)).sort()).toEqual([
+      '.depssmuggler-registry.json',
+      path.join('@types', 'node', '-', 'node-20.1.0.tgz'),
+      path.join('@types', 'node', 'index.json'),
+    ]);
+
+    const packument = readPackument('@types/node');
+    expect(packument['dist-tags']).toEqual({ latest: '20.1.0' });
+    expect(packument.versions['20.1.0']).toMatchObject({
+      name: '@types/node',
+      version: '20.1.0',
+      dependencies: { undici: '^5.0.0' },
+      dist: {
+        tarball: 'http://localhost:4873/@types/node/-/node-20.1.0.tgz',
+        integrity: `sha512-${crypto.createHash('sha512').update(content).digest('base64')}`,
+        shasum: crypto.createHash('sha1').update(content).digest('hex'),
+      },
+    });
+  });
+
+  it('기존 packument에 버전을 병합하고 정식 릴리스를 latest로 지정한다', async () => {
+    const outputDir = path.join(tempDir, 'out');
+    await buildNpmRegistryMirror(outputDir, [
+      { name: 'ms', version: '2.1.3', filePath: await createTarball({ name: 'ms', version: '2.1.3' }) },
+    ]);
+    await buildNpmRegistryMirror(
+      outputDir,
+      [
+        { name: 'ms', version: '2.1.2', filePath: await createTarball({ name: 'ms', version: '2.1.2' }) },
+        { name: 'ms', version: '3.0.0-beta.1', filePath: await createTarball({ name: 'ms', version: '3.0.0-beta.1' }) },
+      ],
+      { registryUrl: 'http://npm.internal:8080/' }
+    );
+
+    const packument = readPackument('ms');
+    expect(Object.keys(packument.versions).sort()).toEqual(['2.1.2', '2.1.3', '3.0.0-beta.1']);
+    expect(packument['dist-tags'].latest).toBe('2.1.3');
+    expect(packument.versions['2.1.2'].dist.tarball).toBe('http://npm.internal:8080/ms/-/ms-2.1.2.tgz');
+    await expect(readNpmRegistryMirrorUrl(path.join(outputDir, 'npm-registry'))).resolves.toBe(
+      'http://npm.internal:8080'
+    );
+  });
+
+  it('packument의 tarball URL 기준 주소만 교체한다', () => {
+    const packument = JSON.stringify({
+      dist: { tarball: 'http://localhost:4873/ms/-/ms-2.1.3.tgz' },
+      homepage: 'http://localhost:4873',
+    });
+
+    expect(JSON.parse(rewriteNpmMirrorTarballUrls(packument, 'http://localhost:4873', 'http://10.0.0.5:4873'))).toEqual({
+      dist: { tarball: 'http://10.0.0.5:4873/ms/-/ms-2.1.3.tgz' },
+      homepage: 'http://localhost:4873',
+    });
+  });
+});
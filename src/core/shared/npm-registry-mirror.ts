@@ -0,0 +1,209 @@
+/**
+ * npm 오프라인 레지스트리 미러
+ *
+ * 다운로드한 tarball로 정적 레지스트리 디렉토리를 만든다. 패키지마다 `<name>/index.json` packument와
+ * `<name>/-/<file>.tgz`를 두므로, 정적 파일 서버나 `depssmuggler serve`로 띄운 뒤
+ * `npm ci --registry <url>`로 기존 프로젝트를 수정 없이 설치할 수 있다.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as semver from 'semver';
+import * as tar from 'tar';
+import { NPM_CONSTANTS } from '../constants/npm';
+
+/** 미러 루트에 기록하는 메타데이터 파일 (packument의 tarball URL 기준 주소) */
+export const NPM_REGISTRY_MIRROR_METADATA_FILE = '.depssmuggler-registry.json';
+
+/**
+ * 미러에 넣을 tarball
+ */
+export interface NpmMirrorTarball {
+  name: string;
+  version: string;
+  filePath: string;
+}
+
+/**
+ * 미러 생성 옵션
+ */
+export interface NpmRegistryMirrorOptions {
+  /** packument의 tarball URL 기준 주소 (기본: http://localhost:4873) */
+  registryUrl?: string;
+}
+
+/**
+ * 미러 생성 결과
+ */
+export interface NpmRegistryMirrorResult {
+  registryDir: string;
+  registryUrl: string;
+  packageCount: number;
+  versionCount: number;
+  /** 미러를 구성하는 모든 파일 (packument, tarball, 메타데이터) */
+  files: string[];
+}
+
+interface NpmPackument {
+  name: string;
+  'dist-tags': Record<string, string>;
+  versions: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * 패키지 packument 경로 (스코프 패키지는 `@scope/name/index.json`)
+ */
+export function getNpmMirrorPackumentPath(registryDir: string, name: string): string {
+  return path.join(registryDir, ...name.split('/'), 'index.json');
+}
+
+/**
+ * 미러 tarball 파일 이름 (npm 레지스트리와 같은 `<이름>-<버전>.tgz` 규칙)
+ */
+export function getNpmMirrorTarballFileName(name: string, version: string): string {
+  return `${name.split('/').pop()}-${version}.tgz`;
+}
+
+/**
+ * 미러 tarball URL
+ */
+export function getNpmMirrorTarballUrl(registryUrl: string, name: string, version: string): string {
+  return `${registryUrl.replace(/\/+$/, '')}/${name}/-/${getNpmMirrorTarballFileName(name, version)}`;
+}
+
+/**
+ * packument 안의 tarball URL 기준 주소 교체 (미러를 다른 주소로 서비스할 때 사용)
+ */
+export function rewriteNpmMirrorTarballUrls(packument: string, fromUrl: string, toUrl: string): string {
+  const from = `"${fromUrl.replace(/\/+$/, '')}/`;
+  const to = `"${toUrl.replace(/\/+$/, '')}/`;
+  return packument.split(from).join(to);
+}
+
+/**
+ * tarball 안의 package.json 읽기
+ */
+export async function readNpmTarballManifest(filePath: string): Promise<Record<string, unknown>> {
+  const manifests = new Map<string, Buffer[]>();
+
+  await tar.t({
+    file: filePath,
+    onReadEntry: (entry) => {
+      // npm tarball은 보통 package/ 아래에 내용을 두지만 최상위 디렉토리 이름은 다를 수 있다
+      if (!/^[^/]+\/package\.json$/.test(entry.path)) {
+        return;
+      }
+      const chunks: Buffer[] = [];
+      manifests.set(entry.path, chunks);
+      entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+    },
+  });
+
+  const chunks = manifests.get('package/package.json') ?? manifests.values().next().value;
+  if (!chunks) {
+    throw new Error(`tarball에 package.json이 없습니다: ${path.basename(filePath)}`);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as Record<string, unknown>;
+}
+
+/**
+ * tarball의 dist 정보 계산 (integrity: sha512 SRI, shasum: sha1 hex)
+ */
+export async function computeNpmTarballDist(
+  filePath: string
+): Promise<{ integrity: string; shasum: string }> {
+  const content = await fs.readFile(filePath);
+  return {
+    integrity: `sha512-${crypto.createHash('sha512').update(content).digest('base64')}`,
+    shasum: crypto.createHash('sha1').update(content).digest('hex'),
+  };
+}
+
+/**
+ * 오프라인 레지스트리 미러 생성
+ *
+ * 기존 미러 디렉토리가 있으면 packument에 새 버전을 병합한다.
+ */
+export async function buildNpmRegistryMirror(
+  outputDir: string,
+  tarballs: NpmMirrorTarball[],
+  options: NpmRegistryMirrorOptions = {}
+): Promise<NpmRegistryMirrorResult> {
+  const registryDir = path.join(outputDir, NPM_CONSTANTS.MIRROR_DIR_NAME);
+  const registryUrl = (options.registryUrl ?? NPM_CONSTANTS.DEFAULT_MIRROR_URL).replace(/\/+$/, '');
+  const files: string[] = [];
+
+  const tarballsByName = new Map<string, NpmMirrorTarball[]>();
+  for (const tarball of tarballs) {
+    tarballsByName.set(tarball.name, [...(tarballsByName.get(tarball.name) ?? []), tarball]);
+  }
+
+  let versionCount = 0;
+  for (const [name, versions] of tarballsByName) {
+    const packumentPath = getNpmMirrorPackumentPath(registryDir, name);
+    const packument: NpmPackument = (await fs.pathExists(packumentPath))
+      ? await fs.readJson(packumentPath)
+      : { name, 'dist-tags': {}, versions: {} };
+
+    for (const tarball of versions) {
+      const fileName = getNpmMirrorTarballFileName(name, tarball.version);
+      const mirrorPath = path.join(path.dirname(packumentPath), '-', fileName);
+      if (path.resolve(tarball.filePath) !== path.resolve(mirrorPath)) {
+        await fs.copy(tarball.filePath, mirrorPath);
+      }
+
+      const manifest = await readNpmTarballManifest(mirrorPath);
+      packument.versions[tarball.version] = {
+        ...manifest,
+        name,
+        version: tarball.version,
+        _id: `${name}@${tarball.version}`,
+        dist: {
+          ...(await computeNpmTarballDist(mirrorPath)),
+          tarball: getNpmMirrorTarballUrl(registryUrl, name, tarball.version),
+        },
+      };
+      files.push(mirrorPath);
+      versionCount++;
+    }
+
+    packument['dist-tags'].latest = getLatestVersion(Object.keys(packument.versions));
+    await fs.outputJson(packumentPath, packument, { spaces: 2 });
+    files.push(packumentPath);
+  }
+
+  const metadataPath = path.join(registryDir, NPM_REGISTRY_MIRROR_METADATA_FILE);
+  await fs.outputJson(metadataPath, { registryUrl }, { spaces: 2 });
+  files.push(metadataPath);
+
+  return {
+    registryDir,
+    registryUrl,
+    packageCount: tarballsByName.size,
+    versionCount,
+    files,
+  };
+}
+
+/**
+ * 미러에 기록된 tarball URL 기준 주소 읽기
+ */
+export async function readNpmRegistryMirrorUrl(registryDir: string): Promise<string> {
+  const metadataPath = path.join(registryDir, NPM_REGISTRY_MIRROR_METADATA_FILE);
+  if (!(await fs.pathExists(metadataPath))) {
+    return NPM_CONSTANTS.DEFAULT_MIRROR_URL;
+  }
+  const metadata = (await fs.readJson(metadataPath)) as { registryUrl?: string };
+  return metadata.registryUrl ?? NPM_CONSTANTS.DEFAULT_MIRROR_URL;
+}
+
+/**
+ * dist-tags.latest로 쓸 버전 (정식 릴리스 우선)
+ */
+function getLatestVersion(versions: string[]): string {
+  const valid = versions.filter((version) => semver.valid(version));
+  const releases = valid.filter((version) => !semver.prerelease(version));
+  const candidates = releases.length > 0 ? releases : valid;
+  return candidates.length > 0 ? semver.rsort([...candidates])[0] : versions[versions.length - 1];
+}
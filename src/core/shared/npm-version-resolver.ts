@@ -8,6 +8,7 @@ import * as semver from 'semver';
 import { fetchPackument } from './npm-cache';
 import { NpmPackument, NpmPackageVersion } from './npm-types';
 import { NPM_CONSTANTS } from '../constants/npm';
+import { getNpmScopeRegistry } from './registry-credentials';
 
 // 로거 타입 (프로젝트 공통 로거 사용)
 const logger = {
@@ -43,9 +44,11 @@ export class NpmVersionResolver {
 
   /**
    * packument 조회 (캐싱)
+   *
+   * `.npmrc`처럼 스코프에 레지스트리가 지정된 패키지(@corp/x)는 해당 레지스트리에서 조회한다.
    */
   async fetchPackument(name: string): Promise<NpmPackument> {
-    return fetchPackument(name, { registryUrl: this.registryUrl });
+    return fetchPackument(name, { registryUrl: getNpmScopeRegistry(name) ?? this.registryUrl });
   }
 
   /**
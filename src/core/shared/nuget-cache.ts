@@ -0,0 +1,131 @@
+/**
+ * NuGet V3 API 공유 캐시
+ *
+ * NuGetResolver와 NuGetDownloader가 같은 서비스 인덱스, flat container 버전 목록, .nuspec 응답을 공유하도록 캐시한다.
+ * (https://learn.microsoft.com/nuget/api/package-base-address-resource)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import logger from '../../utils/logger';
+import { NUGET_CONSTANTS } from '../constants/nuget';
+import { createMemoryCache } from './cache/cache-store';
+import { DEFAULT_MEMORY_TTL_MS } from './cache-utils';
+import type { NuGetServiceEndpoints } from './nuget-types';
+import { normalizeNuGetVersion } from './nuget-utils';
+
+/**
+ * 캐시 옵션
+ */
+export interface NuGetCacheOptions {
+  /** V3 서비스 인덱스 URL */
+  serviceIndexUrl?: string;
+}
+
+const endpointCache = createMemoryCache<NuGetServiceEndpoints>('nuget-service-index', DEFAULT_MEMORY_TTL_MS);
+const versionCache = createMemoryCache<string[]>('nuget-versions', DEFAULT_MEMORY_TTL_MS);
+const nuspecCache = createMemoryCache<string>('nuget-nuspec', DEFAULT_MEMORY_TTL_MS);
+
+let sharedClient: AxiosInstance | null = null;
+
+function getClient(): AxiosInstance {
+  if (!sharedClient) {
+    sharedClient = axios.create({ timeout: NUGET_CONSTANTS.API_TIMEOUT_MS });
+  }
+  return sharedClient;
+}
+
+function isNotFound(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 404;
+}
+
+/**
+ * 서비스 인덱스에서 flat container/검색 엔드포인트 조회
+ */
+export async function fetchNuGetServiceEndpoints(options: NuGetCacheOptions = {}): Promise<NuGetServiceEndpoints> {
+  const { serviceIndexUrl = NUGET_CONSTANTS.DEFAULT_SERVICE_INDEX_URL } = options;
+
+  const result = await endpointCache.getOrFetch(serviceIndexUrl, async () => {
+    logger.debug('NuGet 서비스 인덱스 요청', { url: serviceIndexUrl });
+    const response = await getClient().get<{ resources?: Array<{ '@id': string; '@type': string }> }>(serviceIndexUrl);
+    const resources = response.data.resources ?? [];
+    const findResource = (type: string) =>
+      resources.find((resource) => resource['@type'] === type || resource['@type'].startsWith(`${type}/`))?.['@id'];
+
+    const packageBaseAddress = findResource('PackageBaseAddress');
+    if (!packageBaseAddress) {
+      throw new Error(`NuGet 서비스 인덱스에 PackageBaseAddress가 없습니다: ${serviceIndexUrl}`);
+    }
+    return {
+      packageBaseAddress: packageBaseAddress.replace(/\/+$/, ''),
+      searchQueryService: findResource('SearchQueryService'),
+    };
+  });
+  return result.data;
+}
+
+/**
+ * 패키지의 게시된 버전 목록 (flat container 순서 그대로, 오름차순)
+ */
+export async function fetchNuGetVersions(id: string, options: NuGetCacheOptions = {}): Promise<string[]> {
+  const { packageBaseAddress } = await fetchNuGetServiceEndpoints(options);
+  const url = `${packageBaseAddress}/${id.toLowerCase()}/index.json`;
+
+  const result = await versionCache.getOrFetch(url, async () => {
+    logger.debug('NuGet 버전 목록 요청', { url });
+    try {
+      const response = await getClient().get<{ versions?: string[] }>(url);
+      return response.data.versions ?? [];
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`NuGet 패키지를 찾을 수 없습니다: ${id}`);
+      }
+      throw error;
+    }
+  });
+  return result.data;
+}
+
+/**
+ * 패키지 버전의 .nuspec 원문
+ */
+export async function fetchNuGetNuspec(id: string, version: string, options: NuGetCacheOptions = {}): Promise<string> {
+  const url = `${await getNuGetPackageBaseUrl(id, version, options)}/${id.toLowerCase()}.nuspec`;
+
+  const result = await nuspecCache.getOrFetch(url, async () => {
+    logger.debug('NuGet .nuspec 요청', { url });
+    try {
+      const response = await getClient().get<string>(url, {
+        responseType: 'text',
+        transformResponse: (data) => data,
+      });
+      return String(response.data);
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`NuGet 패키지 버전을 찾을 수 없습니다: ${id}@${version}`);
+      }
+      throw error;
+    }
+  });
+  return result.data;
+}
+
+/**
+ * flat container의 패키지 버전 경로 (`<base>/<소문자 id>/<정규화 버전>`)
+ */
+export async function getNuGetPackageBaseUrl(
+  id: string,
+  version: string,
+  options: NuGetCacheOptions = {}
+): Promise<string> {
+  const { packageBaseAddress } = await fetchNuGetServiceEndpoints(options);
+  return `${packageBaseAddress}/${id.toLowerCase()}/${normalizeNuGetVersion(version)}`;
+}
+
+/**
+ * NuGet 캐시 초기화
+ */
+export function clearNuGetCache(): void {
+  endpointCache.clear();
+  versionCache.clear();
+  nuspecCache.clear();
+}
@@ -0,0 +1,74 @@
+/**
+ * NuGet V3 API 및 .nuspec 관련 타입 정의
+ */
+
+/**
+ * V3 서비스 인덱스에서 찾은 엔드포인트
+ */
+export interface NuGetServiceEndpoints {
+  /** `PackageBaseAddress/3.0.0` (flat container) */
+  packageBaseAddress: string;
+  /** `SearchQueryService` (없는 피드도 있음) */
+  searchQueryService?: string;
+}
+
+/**
+ * 검색 API 응답 항목 (https://learn.microsoft.com/nuget/api/search-query-service-resource)
+ */
+export interface NuGetSearchItem {
+  id: string;
+  version: string;
+  description?: string;
+  totalDownloads?: number;
+  versions?: Array<{ version: string; downloads?: number }>;
+}
+
+/**
+ * NuGet 버전 범위 (https://learn.microsoft.com/nuget/concepts/package-versioning#version-ranges)
+ */
+export interface NuGetVersionRange {
+  min?: string;
+  minInclusive: boolean;
+  max?: string;
+  maxInclusive: boolean;
+}
+
+/**
+ * .nuspec 의존성
+ */
+export interface NuGetDependency {
+  id: string;
+  /** 원본 버전 범위 문자열 (없으면 모든 버전) */
+  range: string;
+  exclude?: string;
+}
+
+/**
+ * .nuspec 의존성 그룹 (targetFramework가 없으면 모든 프레임워크 공통)
+ */
+export interface NuGetDependencyGroup {
+  targetFramework?: string;
+  dependencies: NuGetDependency[];
+}
+
+/**
+ * .nuspec에서 읽은 패키지 정보
+ */
+export interface NuGetNuspec {
+  id: string;
+  version: string;
+  description?: string;
+  dependencyGroups: NuGetDependencyGroup[];
+}
+
+/**
+ * 대상 프레임워크 (TFM을 정규화한 값)
+ */
+export interface NuGetFramework {
+  /** 프레임워크 식별자 */
+  framework: '.NETCoreApp' | '.NETStandard' | '.NETFramework';
+  /** 버전 구성요소 (예: net472 → [4, 7, 2]) */
+  version: number[];
+  /** OS 플랫폼 (net8.0-windows → windows) */
+  platform?: string;
+}
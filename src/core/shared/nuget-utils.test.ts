@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareNuGetVersions,
+  getNuGetPackageDir,
+  getNuGetPackageFileName,
+  isNuGetTargetFramework,
+  normalizeNuGetVersion,
+  parseNuGetFramework,
+  parseNuGetVersionRange,
+  parseNuspec,
+  satisfiesNuGetRange,
+  selectLatestNuGetVersion,
+  selectLowestNuGetVersion,
+  selectNuGetDependencyGroup,
+} from './nuget-utils';
+
+describe('nuget-utils', () => {
+  it('버전을 flat container 경로 형식으로 정규화해야 함', () => {
+    expect(normalizeNuGetVersion('1.0')).toBe('1.0.0');
+    expect(normalizeNuGetVersion('1.0.0.0')).toBe('1.0.0');
+    expect(normalizeNuGetVersion('1.2.3.4')).toBe('1.2.3.4');
+    expect(normalizeNuGetVersion('01.002.3')).toBe('1.2.3');
+    expect(normalizeNuGetVersion('1.0.0-Beta.1+build.5')).toBe('1.0.0-beta.1');
+  });
+
+  it('SemVer 2.0 규칙으로 버전을 비교해야 함', () => {
+    expect(compareNuGetVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareNuGetVersions('1.0.0-beta', '1.0.0')).toBeLessThan(0);
+    expect(compareNuGetVersions('1.0.0-beta.2', '1.0.0-beta.10')).toBeLessThan(0);
+    expect(compareNuGetVersions('1.0.0-RC', '1.0.0-rc')).toBe(0);
+    expect(compareNuGetVersions('2.0.0', '10.0.0')).toBeLessThan(0);
+    expect(['13.0.3', '9.0.1', '13.0.1'].sort(compareNuGetVersions)).toEqual(['9.0.1', '13.0.1', '13.0.3']);
+  });
+
+  it('버전 범위 표기를 파싱해야 함', () => {
+    expect(parseNuGetVersionRange('1.0')).toEqual({ min: '1.0', minInclusive: true, maxInclusive: false });
+    expect(parseNuGetVersionRange('[1.0]')).toEqual({ min: '1.0', minInclusive: true, max: '1.0', maxInclusive: true });
+    expect(parseNuGetVersionRange('[1.0,2.0)')).toEqual({ min: '1.0', minInclusive: true, max: '2.0', maxInclusive: false });
+    expect(parseNuGetVersionRange('(,1.0]')).toEqual({ min: undefined, minInclusive: false, max: '1.0', maxInclusive: true });
+    expect(parseNuGetVersionRange('')).toEqual({ minInclusive: true, maxInclusive: false });
+    expect(parseNuGetVersionRange('4.*')).toEqual({ min: '4.0', minInclusive: true, maxInclusive: false });
+    expect(() => parseNuGetVersionRange('[1.0')).toThrow('NuGet 버전 범위를 해석할 수 없습니다');
+    expect(() => parseNuGetVersionRange('(1.0)')).toThrow('NuGet 버전 범위를 해석할 수 없습니다');
+  });
+
+  it('범위를 만족하는 가장 낮은 버전과 최신 안정 버전을 골라야 함', () => {
+    const versions = ['4.0.0', '4.3.0-preview1', '4.3.0', '4.3.1', '5.0.0'];
+
+    expect(satisfiesNuGetRange('4.3.0', parseNuGetVersionRange('[4.0,5.0)'))).toBe(true);
+    expect(satisfiesNuGetRange('5.0.0', parseNuGetVersionRange('[4.0,5.0)'))).toBe(false);
+    expect(selectLowestNuGetVersion(versions, parseNuGetVersionRange('4.1'))).toBe('4.3.0');
+    expect(selectLowestNuGetVersion(versions, parseNuGetVersionRange('4.3.0-preview1'))).toBe('4.3.0-preview1');
+    expect(selectLowestNuGetVersion(versions, parseNuGetVersionRange('6.0'))).toBeUndefined();
+    expect(selectLatestNuGetVersion([...versions, '6.0.0-rc.1'])).toBe('5.0.0');
+    expect(selectLatestNuGetVersion(['1.0.0-alpha', '1.0.0-beta'])).toBe('1.0.0-beta');
+  });
+
+  it('짧은 이름과 긴 이름의 대상 프레임워크를 파싱해야 함', () => {
+    expect(parseNuGetFramework('net8.0')).toEqual({ framework: '.NETCoreApp', version: [8, 0] });
+    expect(parseNuGetFramework('net8.0-windows7.0')).toEqual({ framework: '.NETCoreApp', version: [8, 0], platform: 'windows' });
+    expect(parseNuGetFramework('netstandard2.0')).toEqual({ framework: '.NETStandard', version: [2, 0] });
+    expect(parseNuGetFramework('.NETStandard2.0')).toEqual({ framework: '.NETStandard', version: [2, 0] });
+    expect(parseNuGetFramework('netcoreapp3.1')).toEqual({ framework: '.NETCoreApp', version: [3, 1] });
+    expect(parseNuGetFramework('net472')).toEqual({ framework: '.NETFramework', version: [4, 7, 2] });
+    expect(parseNuGetFramework('.NETFramework4.6.1')).toEqual({ framework: '.NETFramework', version: [4, 6, 1] });
+    expect(isNuGetTargetFramework('net6.0')).toBe(true);
+    expect(isNuGetTargetFramework('uap10.0')).toBe(false);
+  });
+
+  it('대상 프레임워크에 가장 가까운 의존성 그룹을 골라야 함', () => {
+    const groups = [
+      { targetFramework: '.NETFramework4.5', dependencies: [{ id: 'A', range: '1.0' }] },
+      { targetFramework: '.NETStandard1.3', dependencies: [{ id: 'B', range: '1.0' }] },
+      { targetFramework: '.NETStandard2.0', dependencies: [{ id: 'C', range: '1.0' }] },
+      { targetFramework: 'net6.0', dependencies: [{ id: 'D', range: '1.0' }] },
+    ];
+
+    expect(selectNuGetDependencyGroup(groups, 'net8.0')?.targetFramework).toBe('net6.0');
+    expect(selectNuGetDependencyGroup(groups, 'netcoreapp3.1')?.targetFramework).toBe('.NETStandard2.0');
+    expect(selectNuGetDependencyGroup(groups, 'netstandard2.0')?.targetFramework).toBe('.NETStandard2.0');
+    expect(selectNuGetDependencyGroup(groups, 'netstandard1.6')?.targetFramework).toBe('.NETStandard1.3');
+    expect(selectNuGetDependencyGroup(groups, 'net472')?.targetFramework).toBe('.NETFramework4.5');
+    expect(selectNuGetDependencyGroup(groups, 'net8.0-windows')?.targetFramework).toBe('net6.0');
+    expect(() => selectNuGetDependencyGroup(groups, 'foo')).toThrow('지원하지 않는 대상 프레임워크입니다');
+  });
+
+  it('호환 그룹이 없으면 공통 그룹을 쓰고, 공통 그룹도 없으면 undefined를 반환해야 함', () => {
+    expect(selectNuGetDependencyGroup(
+      [{ targetFramework: 'net8.0', dependencies: [] }, { dependencies: [{ id: 'A', range: '1.0' }] }],
+      'netstandard2.0'
+    )).toEqual({ dependencies: [{ id: 'A', range: '1.0' }] });
+    expect(selectNuGetDependencyGroup([{ targetFramework: 'net8.0-windows', dependencies: [] }], 'net8.0')).toBeUndefined();
+  });
+
+  it('로컬 피드 경로를 소문자 id와 정규화 버전으로 만들어야 함', () => {
+    expect(getNuGetPackageDir('Newtonsoft.Json', '13.0.3.0')).toBe('newtonsoft.json/13.0.3');
+    expect(getNuGetPackageFileName('Newtonsoft.Json', '13.0.3')).toBe('newtonsoft.json.13.0.3.nupkg');
+  });
+
+  it('.nuspec의 의존성 그룹과 예전 형식의 의존성 목록을 파싱해야 함', () => {
+    const nuspec = parseNuspec(`<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://schemas.microsoft.com/packaging/2013/05/nuspec.xsd">
+  <metadata minClientVersion="2.12">
+    <id>Microsoft.Extensions.Logging</id>
+    <version>8.0.0</version>
+    <description>Logging infrastructure</description>
+    <dependencies>
+      <group targetFramework=".NETStandard2.0">
+        <dependency id="Microsoft.Extensions.Options" version="8.0.0" exclude="Build,Analyzers" />
+        <dependency id="System.Memory" version="4.5.5" />
+      </group>
+      <group targetFramework="net8.0">
+        <dependency id="Microsoft.Extensions.Options" version="[8.0.0, )" />
+      </group>
+      <group targetFramework="net6.0" />
+    </dependencies>
+  </metadata>
+</package>`);
+
+    expect(nuspec).toEqual({
+      id: 'Microsoft.Extensions.Logging',
+      version: '8.0.0',
+      description: 'Logging infrastructure',
+      dependencyGroups: [
+        {
+          targetFramework: '.NETStandard2.0',
+          dependencies: [
+            { id: 'Microsoft.Extensions.Options', range: '8.0.0', exclude: 'Build,Analyzers' },
+            { id: 'System.Memory', range: '4.5.5' },
+          ],
+        },
+        { targetFramework: 'net8.0', dependencies: [{ id: 'Microsoft.Extensions.Options', range: '[8.0.0, )' }] },
+        { targetFramework: 'net6.0', dependencies: [] },
+      ],
+    });
+
+    expect(parseNuspec(`<package><metadata><id>Old</id><version>1.0</version>
+      <dependencies><dependency id="A" version="1.0" /></dependencies></metadata></package>`).dependencyGroups)
+      .toEqual([{ dependencies: [{ id: 'A', range: '1.0' }] }]);
+    expect(() => parseNuspec('<package><metadata><id>A</id></metadata></package>')).toThrow('.nuspec 형식이 올바르지 않습니다');
+  });
+});
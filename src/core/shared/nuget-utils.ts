@@ -0,0 +1,368 @@
+/**
+ * NuGet 버전/버전 범위/대상 프레임워크/.nuspec 유틸리티
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  NuGetDependency,
+  NuGetDependencyGroup,
+  NuGetFramework,
+  NuGetNuspec,
+  NuGetVersionRange,
+} from './nuget-types';
+
+const nuspecParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  removeNSPrefix: true,
+  isArray: (name) => name === 'group' || name === 'dependency',
+});
+
+/**
+ * 버전 문자열을 숫자 구성요소(4자리)와 프리릴리스 레이블로 분리
+ */
+function parseVersion(version: string): { parts: number[]; prerelease: string[] } {
+  const withoutMetadata = version.trim().split('+')[0];
+  const dash = withoutMetadata.indexOf('-');
+  const release = dash === -1 ? withoutMetadata : withoutMetadata.slice(0, dash);
+  const prerelease = dash === -1 ? '' : withoutMetadata.slice(dash + 1);
+
+  const parts = release.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  while (parts.length < 4) {
+    parts.push(0);
+  }
+  return { parts, prerelease: prerelease ? prerelease.split('.') : [] };
+}
+
+/**
+ * 정규화된 버전 (https://learn.microsoft.com/nuget/concepts/package-versioning#normalized-version-numbers)
+ *
+ * 빌드 메타데이터를 제거하고 앞자리 0과 네 번째 자리 0을 없앤 소문자 버전 (`1.0` → `1.0.0`, `1.0.0.0` → `1.0.0`).
+ * flat container와 로컬 피드 경로가 이 형식을 쓴다.
+ */
+export function normalizeNuGetVersion(version: string): string {
+  const { parts, prerelease } = parseVersion(version);
+  const release = parts[3] === 0 ? parts.slice(0, 3) : parts;
+  return `${release.join('.')}${prerelease.length > 0 ? `-${prerelease.join('.')}` : ''}`.toLowerCase();
+}
+
+/**
+ * 프리릴리스 버전인지 확인
+ */
+export function isNuGetPrerelease(version: string): boolean {
+  return parseVersion(version).prerelease.length > 0;
+}
+
+/**
+ * NuGet 버전 비교 (SemVer 2.0 규칙, 프리릴리스 레이블은 대소문자 무시)
+ */
+export function compareNuGetVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  for (let i = 0; i < 4; i++) {
+    if (left.parts[i] !== right.parts[i]) {
+      return left.parts[i] - right.parts[i];
+    }
+  }
+
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+
+  const length = Math.min(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const l = left.prerelease[i].toLowerCase();
+    const r = right.prerelease[i].toLowerCase();
+    if (l === r) {
+      continue;
+    }
+    const lNumeric = /^\d+$/.test(l);
+    const rNumeric = /^\d+$/.test(r);
+    if (lNumeric && rNumeric) {
+      return Number(l) - Number(r);
+    }
+    if (lNumeric !== rNumeric) {
+      return lNumeric ? -1 : 1;
+    }
+    return l < r ? -1 : 1;
+  }
+  return left.prerelease.length - right.prerelease.length;
+}
+
+/**
+ * 버전 범위 파싱
+ *
+ * - `1.0`: 1.0 이상
+ * - `[1.0]`: 정확히 1.0
+ * - `[1.0,2.0)`, `(,1.0]`, `[1.0,)`: 구간 표기
+ * - 빈 문자열/`*`: 모든 버전, `1.*`: 1.0 이상 (부동 버전은 가장 낮은 버전으로 해석)
+ */
+export function parseNuGetVersionRange(range: string): NuGetVersionRange {
+  const value = range.trim();
+  if (!value || value === '*') {
+    return { minInclusive: true, maxInclusive: false };
+  }
+
+  const open = value[0];
+  if (open !== '[' && open !== '(') {
+    return { min: value.replace(/\*/g, '0'), minInclusive: true, maxInclusive: false };
+  }
+
+  const close = value[value.length - 1];
+  if (value.length < 3 || (close !== ']' && close !== ')')) {
+    throw new Error(`NuGet 버전 범위를 해석할 수 없습니다: ${range}`);
+  }
+
+  const bounds = value.slice(1, -1).split(',').map((bound) => bound.trim());
+  if (bounds.length === 1) {
+    if (open !== '[' || close !== ']' || !bounds[0]) {
+      throw new Error(`NuGet 버전 범위를 해석할 수 없습니다: ${range}`);
+    }
+    return { min: bounds[0], minInclusive: true, max: bounds[0], maxInclusive: true };
+  }
+  if (bounds.length !== 2 || (!bounds[0] && !bounds[1])) {
+    throw new Error(`NuGet 버전 범위를 해석할 수 없습니다: ${range}`);
+  }
+
+  return {
+    min: bounds[0] || undefined,
+    minInclusive: open === '[',
+    max: bounds[1] || undefined,
+    maxInclusive: close === ']',
+  };
+}
+
+/**
+ * 버전이 범위를 만족하는지 확인
+ */
+export function satisfiesNuGetRange(version: string, range: NuGetVersionRange): boolean {
+  if (range.min) {
+    const cmp = compareNuGetVersions(version, range.min);
+    if (cmp < 0 || (cmp === 0 && !range.minInclusive)) {
+      return false;
+    }
+  }
+  if (range.max) {
+    const cmp = compareNuGetVersions(version, range.max);
+    if (cmp > 0 || (cmp === 0 && !range.maxInclusive)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 범위를 만족하는 가장 낮은 버전 (NuGet의 "lowest applicable version" 규칙)
+ *
+ * 하한이 프리릴리스가 아니면 프리릴리스 버전은 고르지 않는다.
+ */
+export function selectLowestNuGetVersion(versions: string[], range: NuGetVersionRange): string | undefined {
+  const allowPrerelease = Boolean(range.min && isNuGetPrerelease(range.min));
+  return versions
+    .filter((version) => (allowPrerelease || !isNuGetPrerelease(version)) && satisfiesNuGetRange(version, range))
+    .sort(compareNuGetVersions)[0];
+}
+
+/**
+ * 가장 높은 안정 버전 (안정 버전이 없으면 가장 높은 프리릴리스)
+ */
+export function selectLatestNuGetVersion(versions: string[]): string | undefined {
+  const sorted = [...versions].sort(compareNuGetVersions).reverse();
+  return sorted.find((version) => !isNuGetPrerelease(version)) ?? sorted[0];
+}
+
+/**
+ * 대상 프레임워크(TFM) 파싱 (지원하지 않는 프레임워크는 null)
+ *
+ * 짧은 이름(`net8.0`, `net8.0-windows`, `netstandard2.0`, `netcoreapp3.1`, `net472`)과
+ * .nuspec의 긴 이름(`.NETStandard2.0`, `.NETFramework4.7.2`, `.NETCoreApp3.1`)을 모두 받는다.
+ */
+export function parseNuGetFramework(tfm: string): NuGetFramework | null {
+  const value = tfm.trim().toLowerCase().replace(/,version=v/, '');
+  const [name, platformPart] = value.split('-', 2);
+  const platform = platformPart?.match(/^[a-z]+/)?.[0];
+
+  const longForm = name.match(/^\.?(netstandard|netcoreapp|netframework)(\d+(?:\.\d+)*)$/);
+  if (longForm) {
+    const framework = longForm[1] === 'netstandard'
+      ? '.NETStandard'
+      : longForm[1] === 'netcoreapp' ? '.NETCoreApp' : '.NETFramework';
+    return { framework, version: toFrameworkVersion(longForm[2]), ...(platform && { platform }) };
+  }
+
+  const dotted = name.match(/^net(\d+\.\d+(?:\.\d+)*)$/);
+  if (dotted) {
+    const version = toFrameworkVersion(dotted[1]);
+    const framework = version[0] >= 5 ? '.NETCoreApp' : '.NETFramework';
+    return { framework, version, ...(platform && { platform }) };
+  }
+
+  // net472, net48 같은 .NET Framework 짧은 이름은 자릿수가 곧 버전 구성요소
+  const compact = name.match(/^net(\d{2,3})$/);
+  if (compact && Number(compact[1][0]) < 5) {
+    return { framework: '.NETFramework', version: compact[1].split('').map(Number) };
+  }
+
+  return null;
+}
+
+/**
+ * 지원하는 대상 프레임워크인지 확인
+ */
+export function isNuGetTargetFramework(tfm: string): boolean {
+  return parseNuGetFramework(tfm) !== null;
+}
+
+/**
+ * 대상 프레임워크에 가장 가까운 의존성 그룹 선택
+ *
+ * NuGet의 nearest framework 규칙을 단순화해 같은 프레임워크의 가장 높은 호환 버전, 그다음 호환되는
+ * 가장 높은 .NETStandard 그룹을 고른다. 호환 그룹이 없으면 targetFramework가 없는 공통 그룹을 쓴다.
+ * 공통 그룹도 없으면 undefined (패키지가 대상 프레임워크를 지원하지 않음).
+ */
+export function selectNuGetDependencyGroup(
+  groups: NuGetDependencyGroup[],
+  targetFramework: string
+): NuGetDependencyGroup | undefined {
+  const target = parseNuGetFramework(targetFramework);
+  if (!target) {
+    throw new Error(`지원하지 않는 대상 프레임워크입니다: ${targetFramework}`);
+  }
+
+  let best: { group: NuGetDependencyGroup; rank: number[] } | undefined;
+  for (const group of groups) {
+    const candidate = group.targetFramework ? parseNuGetFramework(group.targetFramework) : null;
+    const rank = candidate ? getCompatibilityRank(target, candidate) : null;
+    if (rank && (!best || compareNumberArrays(rank, best.rank) > 0)) {
+      best = { group, rank };
+    }
+  }
+
+  return best?.group ?? groups.find((group) => !group.targetFramework);
+}
+
+/**
+ * 로컬 피드의 패키지 디렉토리 (`<소문자 id>/<정규화 버전>`)
+ */
+export function getNuGetPackageDir(id: string, version: string): string {
+  return `${id.toLowerCase()}/${normalizeNuGetVersion(version)}`;
+}
+
+/**
+ * `.nupkg` 파일 이름 (`<소문자 id>.<정규화 버전>.nupkg`)
+ */
+export function getNuGetPackageFileName(id: string, version: string): string {
+  return `${id.toLowerCase()}.${normalizeNuGetVersion(version)}.nupkg`;
+}
+
+/**
+ * .nuspec 파싱
+ *
+ * 그룹 없이 `<dependency>`만 나열한 예전 형식은 targetFramework가 없는 그룹 하나로 본다.
+ */
+export function parseNuspec(content: string): NuGetNuspec {
+  const document = nuspecParser.parse(content) as {
+    package?: { metadata?: Record<string, unknown> };
+  };
+  const metadata = document.package?.metadata;
+  if (!metadata || typeof metadata.id !== 'string' || typeof metadata.version !== 'string') {
+    throw new Error('.nuspec 형식이 올바르지 않습니다 (package/metadata의 id, version 필요)');
+  }
+
+  const dependencies = (typeof metadata.dependencies === 'object' && metadata.dependencies) as {
+    group?: Array<Record<string, unknown>>;
+    dependency?: Array<Record<string, unknown>>;
+  } | false;
+  const dependencyGroups: NuGetDependencyGroup[] = [];
+  if (dependencies) {
+    for (const group of dependencies.group ?? []) {
+      dependencyGroups.push({
+        ...(typeof group['@_targetFramework'] === 'string' && { targetFramework: group['@_targetFramework'] }),
+        dependencies: toDependencies(group.dependency as Array<Record<string, unknown>> | undefined),
+      });
+    }
+    if (dependencies.dependency) {
+      dependencyGroups.push({ dependencies: toDependencies(dependencies.dependency) });
+    }
+  }
+
+  return {
+    id: metadata.id,
+    version: metadata.version,
+    ...(typeof metadata.description === 'string' && { description: metadata.description }),
+    dependencyGroups,
+  };
+}
+
+function toDependencies(entries: Array<Record<string, unknown>> | undefined): NuGetDependency[] {
+  return (entries ?? [])
+    .filter((entry) => typeof entry['@_id'] === 'string')
+    .map((entry) => ({
+      id: entry['@_id'] as string,
+      range: typeof entry['@_version'] === 'string' ? entry['@_version'] : '',
+      ...(typeof entry['@_exclude'] === 'string' && { exclude: entry['@_exclude'] }),
+    }));
+}
+
+function toFrameworkVersion(value: string): number[] {
+  return value.split('.').map(Number);
+}
+
+function compareNumberArrays(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 대상 프레임워크에서 후보 그룹을 쓸 수 있으면 순위(클수록 가까움), 없으면 null
+ *
+ * 순위: [같은 프레임워크 2 / .NETStandard 대체 1, ...버전(4자리), 플랫폼 일치 1/0]
+ */
+function getCompatibilityRank(target: NuGetFramework, candidate: NuGetFramework): number[] | null {
+  if (candidate.platform && candidate.platform !== target.platform) {
+    return null;
+  }
+
+  const version = [...candidate.version, 0, 0, 0, 0].slice(0, 4);
+  const platformMatch = candidate.platform ? 1 : 0;
+  if (candidate.framework === target.framework) {
+    return compareNumberArrays(candidate.version, target.version) <= 0 ? [2, ...version, platformMatch] : null;
+  }
+
+  if (candidate.framework === '.NETStandard') {
+    const maxStandard = getMaxNetStandardVersion(target);
+    if (maxStandard && compareNumberArrays(candidate.version, maxStandard) <= 0) {
+      return [1, ...version, platformMatch];
+    }
+  }
+  return null;
+}
+
+/**
+ * 대상 프레임워크가 구현하는 가장 높은 .NET Standard 버전
+ * (https://learn.microsoft.com/dotnet/standard/net-standard#net-implementation-support)
+ */
+function getMaxNetStandardVersion(target: NuGetFramework): number[] | null {
+  const atLeast = (version: number[]) => compareNumberArrays(target.version, version) >= 0;
+
+  if (target.framework === '.NETCoreApp') {
+    if (atLeast([3, 0])) return [2, 1];
+    if (atLeast([2, 0])) return [2, 0];
+    return [1, 6];
+  }
+  if (target.framework === '.NETFramework') {
+    if (atLeast([4, 6, 1])) return [2, 0];
+    if (atLeast([4, 6])) return [1, 3];
+    if (atLeast([4, 5, 1])) return [1, 2];
+    if (atLeast([4, 5])) return [1, 1];
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildPipLockEntries,
+  collectPipLockArtifacts,
+  formatPipConstraintsFile,
+  formatPipLockFile,
+  writePipLockFiles,
+} from './pip-lock';
+
+const sha256 = (content: string): string =>
+  crypto.createHash('sha256').update(content).digest('hex');
+
+describe('pip 잠금 파일', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pip-lock-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeArtifact = (relativePath: string, content: string): string => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('하위 디렉토리에서 패키지 버전과 일치하는 wheel/sdist만 수집한다', async () => {
+    writeArtifact('linux/PyYAML-6.0.1-cp311-cp311-manylinux_2_17_x86_64.whl', 'linux');
+    writeArtifact('win/PyYAML-6.0.1-cp311-cp311-win_amd64.whl', 'windows');
+    writeArtifact('PyYAML-6.0.1.tar.gz', 'sdist');
+    writeArtifact('PyYAML-6.0.0.tar.gz', 'old');
+    writeArtifact('requests-2.28.0-py3-none-any.whl', 'requests');
+
+    const artifacts = await collectPipLockArtifacts([{ name: 'pyyaml', version: '6.0.1' }], tempDir);
+
+    expect(artifacts.map((artifact) => path.basename(artifact.filePath)).sort()).toEqual([
+      'PyYAML-6.0.1-cp311-cp311-manylinux_2_17_x86_64.whl',
+      'PyYAML-6.0.1-cp311-cp311-win_amd64.whl',
+      'PyYAML-6.0.1.tar.gz',
+    ]);
+  });
+
+  it('같은 패키지 버전의 플랫폼별 파일 해시를 한 엔트리로 묶고 중복을 제거한다', async () => {
+    const entries = await buildPipLockEntries([
+      { name: 'urllib3', version: '2.2.0', filePath: writeArtifact('a/urllib3-2.2.0-py3-none-any.whl', 'same') },
+      { name: 'urllib3', version: '2.2.0', filePath: writeArtifact('b/urllib3-2.2.0-py3-none-any.whl', 'same') },
+      { name: 'cffi', version: '1.16.0', filePath: writeArtifact('cffi-1.16.0-cp311-cp311-win_amd64.whl', 'win') },
+      { name: 'cffi', version: '1.16.0', filePath: writeArtifact('cffi-1.16.0.tar.gz', 'sdist') },
+    ]);
+
+    expect(entries).toEqual([
+      { name: 'cffi', version: '1.16.0', hashes: [sha256('win'), sha256('sdist')].sort() },
+      { name: 'urllib3', version: '2.2.0', hashes: [sha256('same')] },
+    ]);
+  });
+
+  it('requirements 형식으로 --hash 줄을 이어 쓰고 constraints에는 버전만 쓴다', () => {
+    const entries = [{ name: 'idna', version: '3.7', hashes: ['aaa', 'bbb'] }];
+
+    expect(formatPipLockFile(entries)).toContain(
+      'idna==3.7 \\\n    --hash=sha256:aaa \\\n    --hash=sha256:bbb\n'
+    );
+    expect(formatPipConstraintsFile(entries)).toContain('\nidna==3.7\n');
+  });
+
+  it('잠글 아티팩트가 없으면 파일을 만들지 않는다', async () => {
+    expect(await writePipLockFiles(tempDir, [])).toBeNull();
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+});
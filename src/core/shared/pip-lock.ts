@@ -0,0 +1,150 @@
+/**
+ * pip 잠금 파일 생성
+ *
+ * 다운로드된 pip 아티팩트의 sha256으로 해시 고정 requirements 파일과 constraints 파일을 만든다.
+ * 폐쇄망에서 `pip install --require-hashes --no-index`로 재현 가능하고 변조를 감지할 수 있는 설치에 사용한다.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { calculateFileChecksum } from './integrity/checksum';
+import { extractVersionFromFilename } from './pip-simple-api';
+import { normalizePackageName } from './pip-wheel';
+
+/** 해시 고정 requirements 파일 이름 */
+export const PIP_LOCK_FILE_NAME = 'requirements.lock.txt';
+
+/** 버전만 고정한 constraints 파일 이름 */
+export const PIP_CONSTRAINTS_FILE_NAME = 'constraints.txt';
+
+/**
+ * 잠금 대상 pip 아티팩트 (다운로드된 wheel/sdist 파일)
+ */
+export interface PipLockArtifact {
+  name: string;
+  version: string;
+  filePath: string;
+}
+
+/**
+ * 잠금 파일 엔트리 (패키지 버전별 허용 해시 목록)
+ */
+export interface PipLockEntry {
+  name: string;
+  version: string;
+  /** sha256 hex 목록 (대상 플랫폼별 wheel과 sdist 모두 포함) */
+  hashes: string[];
+}
+
+/**
+ * 파일명이 해당 pip 패키지 버전의 아티팩트인지 확인
+ */
+export function isPipArtifactOf(filename: string, name: string, version: string): boolean {
+  return extractVersionFromFilename(filename, name) === version;
+}
+
+/**
+ * 디렉토리에서 pip 패키지의 아티팩트 파일 수집 (하위 디렉토리 포함)
+ */
+export async function collectPipLockArtifacts(
+  packages: Array<{ name: string; version: string }>,
+  searchDir: string
+): Promise<PipLockArtifact[]> {
+  if (packages.length === 0 || !(await fs.pathExists(searchDir))) {
+    return [];
+  }
+
+  const files = await listFilesRecursive(searchDir);
+  return packages.flatMap((pkg) =>
+    files
+      .filter((filePath) => isPipArtifactOf(path.basename(filePath), pkg.name, pkg.version))
+      .map((filePath) => ({ name: pkg.name, version: pkg.version, filePath }))
+  );
+}
+
+/**
+ * 아티팩트 sha256 계산 후 패키지 버전별 엔트리로 묶기
+ */
+export async function buildPipLockEntries(artifacts: PipLockArtifact[]): Promise<PipLockEntry[]> {
+  const entries = new Map<string, PipLockEntry>();
+
+  for (const artifact of artifacts) {
+    const key = `${normalizePackageName(artifact.name)}==${artifact.version}`;
+    const entry = entries.get(key) ?? { name: artifact.name, version: artifact.version, hashes: [] };
+    const digest = await calculateFileChecksum(artifact.filePath, 'sha256');
+    if (!entry.hashes.includes(digest)) {
+      entry.hashes.push(digest);
+    }
+    entries.set(key, entry);
+  }
+
+  return Array.from(entries.values())
+    .map((entry) => ({ ...entry, hashes: [...entry.hashes].sort() }))
+    .sort((a, b) => normalizePackageName(a.name).localeCompare(normalizePackageName(b.name)));
+}
+
+/**
+ * 해시 고정 requirements 파일 내용 생성
+ */
+export function formatPipLockFile(entries: PipLockEntry[]): string {
+  const lines = [
+    '# DepsSmuggler pip 잠금 파일',
+    `# pip install --require-hashes --no-index --find-links packages -r ${PIP_LOCK_FILE_NAME}`,
+    '',
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      [
+        `${entry.name}==${entry.version}`,
+        ...entry.hashes.map((hash) => `    --hash=sha256:${hash}`),
+      ].join(' \\\n')
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * constraints 파일 내용 생성 (해시 없이 버전만 고정)
+ */
+export function formatPipConstraintsFile(entries: PipLockEntry[]): string {
+  return [
+    '# DepsSmuggler pip constraints 파일',
+    `# pip install -c ${PIP_CONSTRAINTS_FILE_NAME} <package>`,
+    '',
+    ...entries.map((entry) => `${entry.name}==${entry.version}`),
+    '',
+  ].join('\n');
+}
+
+/**
+ * 잠금 파일과 constraints 파일 기록
+ *
+ * @returns 잠금 파일 경로 (잠글 아티팩트가 없으면 null)
+ */
+export async function writePipLockFiles(
+  outputDir: string,
+  artifacts: PipLockArtifact[]
+): Promise<string | null> {
+  const entries = await buildPipLockEntries(artifacts);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const lockPath = path.join(outputDir, PIP_LOCK_FILE_NAME);
+  await fs.writeFile(lockPath, formatPipLockFile(entries));
+  await fs.writeFile(path.join(outputDir, PIP_CONSTRAINTS_FILE_NAME), formatPipConstraintsFile(entries));
+  return lockPath;
+}
+
+async function listFilesRecursive(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFilesRecursive(entryPath) : Promise.resolve([entryPath]);
+    })
+  );
+  return nested.flat();
+}
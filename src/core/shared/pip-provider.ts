@@ -495,7 +495,9 @@ export class PipProvider {
         'Windows': 'windows',
         'Darwin': 'macos',
       };
-      if (systemMap[requiredSystem] !== this.config.platform) {
+      // musl 기반 Linux도 platform_system은 Linux
+      const platform = this.config.platform === 'linux-musl' ? 'linux' : this.config.platform;
+      if (systemMap[requiredSystem] !== platform) {
         return false;
       }
     }
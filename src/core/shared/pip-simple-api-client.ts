@@ -13,6 +13,7 @@ import axios from 'axios';
 import { createDiskCache, CacheStore } from './cache/cache-store';
 import logger from '../../utils/logger';
 import { getConfigManager } from '../config';
+import { getRegistryAuthHeaders } from './registry-credentials';
 
 /**
  * Simple API에서 반환되는 패키지 파일 정보
@@ -109,6 +110,8 @@ export async function fetchPackageFiles(
         headers: {
           'User-Agent': 'DepsSmuggler/1.0',
           Accept: 'text/html,application/xhtml+xml',
+          // 사설 인덱스 인증 (registry-credentials)
+          ...getRegistryAuthHeaders(url),
         },
         timeout: 30000,
       });
@@ -354,6 +357,7 @@ export async function fetchWheelMetadata(
       headers: {
         'User-Agent': 'DepsSmuggler/1.0',
         Accept: 'text/plain',
+        ...getRegistryAuthHeaders(metadataUrl),
       },
       timeout: 30000,
       responseType: 'arraybuffer',
@@ -4,6 +4,7 @@
  *
  * 참고:
  * - https://peps.python.org/pep-0425/
+ * - https://peps.python.org/pep-0656/ (musllinux)
  * - https://github.com/pypa/pip/blob/main/src/pip/_internal/utils/compatibility_tags.py
  */
 
@@ -31,9 +32,14 @@ export interface TargetPythonConfig {
 }
 
 /**
- * 플랫폼 타입
+ * 플랫폼 타입 (linux-musl: Alpine 등 musl libc 기반 Linux)
  */
-export type PlatformType = 'windows' | 'macos' | 'linux' | 'any';
+export type PlatformType = 'windows' | 'macos' | 'linux' | 'linux-musl' | 'any';
+
+/**
+ * 기본 musl 버전 (Alpine 3.13+ 는 musl 1.2)
+ */
+export const DEFAULT_MUSL_VERSION: [number, number] = [1, 2];
 
 /**
  * 아키텍처 타입
@@ -210,6 +216,97 @@ export function generateLinuxPlatformTags(arch: ArchType): string[] {
   return tags;
 }
 
+/**
+ * musllinux 플랫폼 태그 생성 (PEP 656)
+ *
+ * musllinux_{major}_{minor}_{arch} 태그는 대상 musl 버전 이하이면 호환되므로
+ * 대상 버전부터 {major}_0까지 내려가며 생성한다. manylinux(glibc) 태그는 포함하지 않는다.
+ */
+export function generateMusllinuxPlatformTags(
+  arch: ArchType,
+  muslVersion: [number, number] = DEFAULT_MUSL_VERSION
+): string[] {
+  const tags: string[] = [];
+  // musllinux 휠은 Linux 관례대로 aarch64 이름을 사용한다
+  const normalizedArch = normalizeArch(arch === 'arm64' ? 'aarch64' : arch);
+  const [major, minor] = muslVersion;
+
+  for (let m = minor; m >= 0; m--) {
+    tags.push(`musllinux_${major}_${m}_${normalizedArch}`);
+  }
+
+  // 기본 linux 태그
+  tags.push(`linux_${normalizedArch}`);
+
+  return tags;
+}
+
+/**
+ * musl 버전 문자열 파싱 (예: "1.2" -> [1, 2], 형식이 잘못되면 기본값)
+ */
+export function parseMuslVersion(version?: string): [number, number] {
+  const match = version ? /^(\d+)\.(\d+)$/.exec(version) : null;
+  return match ? [Number(match[1]), Number(match[2])] : DEFAULT_MUSL_VERSION;
+}
+
+/**
+ * musllinux 태그 파싱
+ *
+ * @returns musl 버전과 아키텍처 (musllinux 태그가 아니면 null)
+ */
+export function parseMusllinuxTag(
+  tag: string
+): { major: number; minor: number; arch: string } | null {
+  const match = /^musllinux_(\d+)_(\d+)_(.+)$/.exec(tag);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    arch: match[3],
+  };
+}
+
+/**
+ * musl 대상에서 wheel 플랫폼 태그 호환 여부
+ *
+ * 같은 major의 musllinux 태그 중 대상 musl 버전 이하만 허용하고,
+ * glibc 전용인 manylinux 태그는 거부한다.
+ *
+ * @param tag wheel 플랫폼 태그 (예: musllinux_1_1_x86_64)
+ * @param arch 대상 아키텍처
+ * @param muslVersion 대상 musl 버전 (예: '1.2')
+ */
+export function isMuslPlatformTagCompatible(
+  tag: string,
+  arch: string,
+  muslVersion?: string
+): boolean {
+  return getMuslPlatformTagPriority([tag], arch, muslVersion) !== Infinity;
+}
+
+/**
+ * musl 대상에서 wheel 플랫폼 태그 우선순위 (낮을수록 좋음, 호환되지 않으면 Infinity)
+ *
+ * @param tags wheel 파일명의 플랫폼 태그 목록 (압축 태그 세트)
+ */
+export function getMuslPlatformTagPriority(
+  tags: string[],
+  arch: string,
+  muslVersion?: string
+): number {
+  const targetArch = arch === 'arm64' ? 'aarch64' : arch;
+  const supported = generateMusllinuxPlatformTags(
+    targetArch as ArchType,
+    parseMuslVersion(muslVersion)
+  );
+
+  return tags.reduce((best, tag) => {
+    const index = supported.indexOf(tag.toLowerCase());
+    return index === -1 ? best : Math.min(best, index);
+  }, Infinity);
+}
+
 /**
  * macOS 플랫폼 태그 생성
  */
@@ -268,11 +365,14 @@ export function generateWindowsPlatformTags(arch: ArchType): string[] {
  */
 export function generatePlatformTags(
   platform: PlatformType,
-  arch: ArchType
+  arch: ArchType,
+  muslVersion?: [number, number]
 ): string[] {
   switch (platform) {
     case 'linux':
       return [...generateLinuxPlatformTags(arch), 'any'];
+    case 'linux-musl':
+      return [...generateMusllinuxPlatformTags(arch, muslVersion), 'any'];
     case 'macos':
       return [...generateMacOSPlatformTags(arch), 'any'];
     case 'windows':
@@ -308,9 +408,10 @@ export function getFullSupportedTags(
   pythonVersion: string,
   platform: PlatformType,
   arch: ArchType,
-  implementation: string = 'cp'
+  implementation: string = 'cp',
+  muslVersion?: [number, number]
 ): PlatformTag[] {
-  const platformTags = generatePlatformTags(platform, arch);
+  const platformTags = generatePlatformTags(platform, arch, muslVersion);
 
   const config: TargetPythonConfig = {
     version: pythonVersion,
@@ -1,6 +1,10 @@
 // PyPI 관련 유틸리티 함수 (PEP 425 기반 태그 우선순위 구현)
+import * as http from 'http';
 import * as https from 'https';
+import { getNetworkAgent } from './network-proxy';
+import { getMirroredRequest } from './registry-mirrors';
 import { fetchPackageFiles } from './pip-simple-api-client';
+import { generateMusllinuxPlatformTags, parseMuslVersion, type ArchType } from './pip-tags';
 import type { DownloadUrlResult } from './types';
 
 /**
@@ -47,7 +51,8 @@ function parseWheelTags(filename: string): WheelTags | null {
 function generateSupportedTags(
   pythonVersion: string,
   targetOS: string,
-  architecture: string
+  architecture: string,
+  muslVersion?: string
 ): Array<{ python: string; abi: string; platform: string }> {
   const tags: Array<{ python: string; abi: string; platform: string }> = [];
 
@@ -60,7 +65,7 @@ function generateSupportedTags(
   const cpTag = `cp${major}${minor}`;
 
   // 플랫폼 태그 목록 생성
-  const platformTags = generatePlatformTags(targetOS, architecture);
+  const platformTags = generatePlatformTags(targetOS, architecture, muslVersion);
 
   // 1. CPython 구현체 특화 태그 (가장 높은 우선순위)
   // cp311-cp311-{platform}
@@ -118,7 +123,7 @@ function generateSupportedTags(
 /**
  * 플랫폼 태그 목록 생성 (우선순위 순)
  */
-function generatePlatformTags(targetOS: string, architecture: string): string[] {
+function generatePlatformTags(targetOS: string, architecture: string, muslVersion?: string): string[] {
   const platforms: string[] = [];
   const os = targetOS?.toLowerCase() || 'any';
   const arch = architecture?.toLowerCase() || 'x86_64';
@@ -132,6 +137,11 @@ function generatePlatformTags(targetOS: string, architecture: string): string[]
   };
   const normalizedArch = archMap[arch] || arch;
 
+  // musl 대상 (Alpine 등): musllinux 태그만 사용
+  if (os === 'linux-musl') {
+    return generateMusllinuxPlatformTags(normalizedArch as ArchType, parseMuslVersion(muslVersion));
+  }
+
   if (os === 'linux' || os === 'any') {
     // manylinux 태그 (최신부터)
     // 최신 glibc 버전 기반 manylinux 태그
@@ -230,6 +240,10 @@ function isCompatiblePlatform(filename: string, targetOS?: string, architecture?
     if (os === 'linux' && !lower.includes('linux') && !lower.includes('manylinux') && !lower.includes('musllinux')) {
       return false;
     }
+    // musl 대상은 manylinux(glibc) 휠을 쓸 수 없다
+    if (os === 'linux-musl' && (!lower.includes('linux') || lower.includes('manylinux'))) {
+      return false;
+    }
     if (os === 'windows' && !lower.includes('win')) {
       return false;
     }
@@ -290,7 +304,8 @@ export async function getPyPIDownloadUrl(
   architecture?: string,
   targetOS?: string,
   pythonVersion?: string,
-  indexUrl?: string
+  indexUrl?: string,
+  muslVersion?: string
 ): Promise<DownloadUrlResult | null> {
   // Case 1: indexUrl이 있는 경우 - Simple API 사용
   if (indexUrl) {
@@ -318,7 +333,7 @@ export async function getPyPIDownloadUrl(
       }));
 
       // 기존 selectBestRelease 함수로 최적 파일 선택
-      return selectBestRelease(releases, architecture, targetOS, pythonVersion);
+      return selectBestRelease(releases, architecture, targetOS, pythonVersion, muslVersion);
     } catch {
       return null;
     }
@@ -326,9 +341,10 @@ export async function getPyPIDownloadUrl(
 
   // Case 2: indexUrl이 없는 경우 - 기존 PyPI JSON API 사용 (하위 호환성)
   return new Promise((resolve) => {
-    const url = `https://pypi.org/pypi/${packageName}/${version}/json`;
+    const { url, headers } = getMirroredRequest(`https://pypi.org/pypi/${packageName}/${version}/json`);
+    const protocol = url.startsWith('https') ? https : http;
 
-    https.get(url, { headers: { 'User-Agent': 'DepsSmuggler/1.0' } }, (res) => {
+    protocol.get(url, { headers: { 'User-Agent': 'DepsSmuggler/1.0', ...headers }, agent: getNetworkAgent() }, (res) => {
       let data = '';
       res.on('data', (chunk) => (data += chunk));
       res.on('end', () => {
@@ -341,7 +357,7 @@ export async function getPyPIDownloadUrl(
             return;
           }
 
-          const result = selectBestRelease(releases, architecture, targetOS, pythonVersion);
+          const result = selectBestRelease(releases, architecture, targetOS, pythonVersion, muslVersion);
           resolve(result);
         } catch {
           resolve(null);
@@ -358,14 +374,15 @@ function selectBestRelease(
   releases: PyPIRelease[],
   architecture?: string,
   targetOS?: string,
-  pythonVersion?: string
+  pythonVersion?: string,
+  muslVersion?: string
 ): DownloadUrlResult {
   const pyVer = pythonVersion || '3.11';
   const os = targetOS || 'any';
   const arch = architecture || 'x86_64';
 
   // 지원 태그 목록 생성
-  const supportedTags = generateSupportedTags(pyVer, os, arch);
+  const supportedTags = generateSupportedTags(pyVer, os, arch, muslVersion);
 
   // wheel 파일들을 우선순위와 함께 수집
   const wheelCandidates: Array<{
@@ -0,0 +1,123 @@
+/**
+ * pip/conda 멀티 타겟 다운로드
+ *
+ * 여러 대상 환경(OS/아키텍처/Python 버전)을 한 세션에서 각각 해결한 뒤 같은 아티팩트는 한 번만 받고,
+ * 패키지마다 어느 대상에 속하는지 metadata.pythonTargets에 기록해 대상별 잠금 파일/설치 스크립트를 만든다.
+ */
+
+import type { PythonDownloadTarget } from '../../types/platform/python-download-target';
+import { getPackageArtifactKey } from './dependency-tree-utils';
+
+/** 대상별 설치 스크립트와 잠금 파일을 두는 디렉토리 (출력 디렉토리 기준) */
+export const PYTHON_TARGETS_DIR = 'targets';
+
+type TargetPackage = Parameters<typeof getPackageArtifactKey>[0];
+
+const TARGET_OSES = new Set<PythonDownloadTarget['targetOS']>(['linux', 'linux-musl', 'windows', 'macos']);
+const TARGET_ARCHITECTURES: Record<string, PythonDownloadTarget['architecture']> = {
+  x86_64: 'x86_64',
+  amd64: 'x86_64',
+  aarch64: 'aarch64',
+  arm64: 'aarch64',
+};
+const PYTHON_VERSION_PATTERN = /^\d+\.\d+$/;
+
+/**
+ * `<os>/<arch>/<python>` 형식 대상 파싱 (예: linux/x86_64/3.9, linux-musl/aarch64/3.12)
+ */
+export function parsePythonDownloadTarget(spec: string): PythonDownloadTarget {
+  const parts = spec.trim().split('/');
+  if (parts.length !== 3 || parts.some((part) => !part)) {
+    throw new Error(`잘못된 대상 형식입니다: ${spec} (예: linux/x86_64/3.9)`);
+  }
+
+  const [targetOS, arch, pythonVersion] = parts;
+  if (!TARGET_OSES.has(targetOS as PythonDownloadTarget['targetOS'])) {
+    throw new Error(`지원하지 않는 대상 OS입니다: ${targetOS} (linux, linux-musl, windows, macos)`);
+  }
+  const architecture = TARGET_ARCHITECTURES[arch];
+  if (!architecture) {
+    throw new Error(`지원하지 않는 대상 아키텍처입니다: ${arch} (x86_64, aarch64)`);
+  }
+  if (!PYTHON_VERSION_PATTERN.test(pythonVersion)) {
+    throw new Error(`대상 Python 버전은 major.minor 형식이어야 합니다: ${pythonVersion}`);
+  }
+
+  return {
+    targetOS: targetOS as PythonDownloadTarget['targetOS'],
+    architecture,
+    pythonVersion,
+  };
+}
+
+/**
+ * 대상 목록 파싱 (별칭까지 같은 대상은 한 번만)
+ */
+export function parsePythonDownloadTargets(specs: string[]): PythonDownloadTarget[] {
+  const targets = new Map<string, PythonDownloadTarget>();
+  for (const spec of specs) {
+    const target = parsePythonDownloadTarget(spec);
+    targets.set(getPythonTargetSlug(target), target);
+  }
+  return [...targets.values()];
+}
+
+export function formatPythonDownloadTarget(target: PythonDownloadTarget): string {
+  return `${target.targetOS}/${target.architecture}/${target.pythonVersion}`;
+}
+
+/**
+ * 대상 식별자 (디렉토리 이름과 metadata.pythonTargets 값, 예: linux-x86_64-py3.9)
+ */
+export function getPythonTargetSlug(target: PythonDownloadTarget): string {
+  return `${target.targetOS}-${target.architecture}-py${target.pythonVersion}`;
+}
+
+/**
+ * 패키지가 속한 대상 식별자 목록 (멀티 타겟으로 해결하지 않은 패키지는 undefined)
+ */
+export function getPythonTargetSlugs(pkg: { metadata?: Record<string, unknown> }): string[] | undefined {
+  const slugs = pkg.metadata?.pythonTargets;
+  return Array.isArray(slugs) ? slugs.filter((slug): slug is string => typeof slug === 'string') : undefined;
+}
+
+/**
+ * 대상별 해결 결과를 합친다
+ *
+ * 같은 아티팩트(순수 Python wheel, noarch conda 패키지 등)는 처음 나온 항목 하나로 합치고
+ * 속한 대상을 모두 metadata.pythonTargets에 기록한다.
+ */
+export function mergePythonTargetPackages<T extends TargetPackage>(
+  results: Array<{ target: PythonDownloadTarget; packages: T[] }>
+): T[] {
+  const merged = new Map<string, T>();
+
+  for (const { target, packages } of results) {
+    const slug = getPythonTargetSlug(target);
+    for (const pkg of packages) {
+      const key = getPackageArtifactKey(pkg);
+      const existing = merged.get(key);
+      const slugs = existing ? getPythonTargetSlugs(existing) ?? [] : [];
+      merged.set(key, {
+        ...(existing ?? pkg),
+        metadata: {
+          ...((existing ?? pkg).metadata ?? {}),
+          pythonTargets: slugs.includes(slug) ? slugs : [...slugs, slug],
+        },
+      });
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * 대상에 속한 패키지만 고른다
+ */
+export function selectPythonTargetPackages<T extends { metadata?: Record<string, unknown> }>(
+  packages: T[],
+  target: PythonDownloadTarget
+): T[] {
+  const slug = getPythonTargetSlug(target);
+  return packages.filter((pkg) => getPythonTargetSlugs(pkg)?.includes(slug));
+}
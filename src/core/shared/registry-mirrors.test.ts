@@ -0,0 +1,183 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import axios from 'axios';
+import { Agent, request } from 'undici';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  applyRegistryMirrors,
+  createRegistryMirrorInterceptor,
+  getMirroredRequest,
+  getRegistryMirrorCandidates,
+  resolveRegistryMirrors,
+  testRegistryMirror,
+} from './registry-mirrors';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  authorization?: string;
+}
+
+const startServer = async (status: number, requests: RecordedRequest[]) => {
+  const server = http.createServer((req, res) => {
+    requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ served: status }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+describe('resolveRegistryMirrors', () => {
+  it('빈 URL을 버리고 끝 슬래시를 지운 뒤 우선순위 순으로 정렬해야 함', () => {
+    expect(resolveRegistryMirrors({
+      pip: [
+        { url: 'https://b.corp/pypi/', priority: 2 },
+        { url: '  ' },
+        { url: 'https://a.corp/pypi', priority: 1 },
+      ],
+      npm: [],
+    })).toEqual({
+      pip: [
+        { url: 'https://a.corp/pypi', priority: 1 },
+        { url: 'https://b.corp/pypi', priority: 2 },
+      ],
+    });
+  });
+
+  it('잘못된 URL과 http(s)가 아닌 프로토콜은 오류를 내야 함', () => {
+    expect(() => resolveRegistryMirrors({ maven: [{ url: 'nexus' }] })).toThrow('잘못된 maven 미러 주소');
+    expect(() => resolveRegistryMirrors({ npm: [{ url: 'ftp://nexus.corp/npm' }] })).toThrow('지원하지 않는 npm 미러 프로토콜');
+  });
+});
+
+describe('getRegistryMirrorCandidates', () => {
+  const mirrors = resolveRegistryMirrors({
+    maven: [{ url: 'https://nexus.corp/repository/maven-central', username: 'ci', password: 'secret' }],
+    npm: [
+      { url: 'https://second.corp/npm', priority: 1 },
+      { url: 'https://first.corp/npm', priority: 0, token: 'npm-token' },
+    ],
+  });
+
+  it('공개 저장소 기준 URL을 우선순위 순 미러 URL로 바꿔야 함', () => {
+    expect(getRegistryMirrorCandidates('https://registry.npmjs.org/@types%2fnode', mirrors)).toEqual([
+      { ecosystem: 'npm', url: 'https://first.corp/npm/@types%2fnode', authorization: 'Bearer npm-token' },
+      { ecosystem: 'npm', url: 'https://second.corp/npm/@types%2fnode', authorization: undefined },
+    ]);
+    expect(getRegistryMirrorCandidates(
+      'https://repo.maven.apache.org/maven2/junit/junit/maven-metadata.xml',
+      mirrors
+    )).toEqual([{
+      ecosystem: 'maven',
+      url: 'https://nexus.corp/repository/maven-central/junit/junit/maven-metadata.xml',
+      authorization: `Basic ${Buffer.from('ci:secret').toString('base64')}`,
+    }]);
+  });
+
+  it('미러가 없는 생태계와 접두사만 같은 호스트는 그대로 둬야 함', () => {
+    expect(getRegistryMirrorCandidates('https://pypi.org/simple/requests/', mirrors)).toEqual([]);
+    expect(getRegistryMirrorCandidates('https://registry.npmjs.org.evil.com/x', mirrors)).toEqual([]);
+    expect(getRegistryMirrorCandidates('https://repo1.maven.org/maven3/x', mirrors)).toEqual([]);
+  });
+});
+
+describe('미러 적용', () => {
+  const firstRequests: RecordedRequest[] = [];
+  const secondRequests: RecordedRequest[] = [];
+  let failing: Awaited<ReturnType<typeof startServer>>;
+  let healthy: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    failing = await startServer(503, firstRequests);
+    healthy = await startServer(200, secondRequests);
+  });
+
+  afterEach(() => {
+    applyRegistryMirrors({});
+    firstRequests.length = 0;
+    secondRequests.length = 0;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => failing.server.close(resolve));
+    await new Promise((resolve) => healthy.server.close(resolve));
+  });
+
+  it('axios 요청은 실패한 미러를 건너뛰고 다음 미러에서 받아야 함', async () => {
+    applyRegistryMirrors(resolveRegistryMirrors({
+      pip: [
+        { url: failing.url, priority: 0 },
+        { url: `${healthy.url}/repository/pypi`, priority: 1, username: 'ci', password: 'pw' },
+      ],
+    }));
+
+    const response = await axios.get('https://pypi.org/pypi/requests/json');
+
+    expect(response.data).toEqual({ served: 200 });
+    expect(firstRequests.map((req) => req.url)).toEqual(['/pypi/requests/json']);
+    expect(secondRequests).toEqual([{
+      method: 'GET',
+      url: '/repository/pypi/pypi/requests/json',
+      authorization: `Basic ${Buffer.from('ci:pw').toString('base64')}`,
+    }]);
+  });
+
+  it('axios 인스턴스의 baseURL 요청도 미러로 보내야 함', async () => {
+    applyRegistryMirrors(resolveRegistryMirrors({ npm: [{ url: healthy.url, token: 'tkn' }] }));
+
+    const client = axios.create({ baseURL: 'https://registry.npmjs.org' });
+    await client.get('/lodash');
+
+    expect(secondRequests).toEqual([{ method: 'GET', url: '/lodash', authorization: 'Bearer tkn' }]);
+  });
+
+  it('fetch 디스패처 인터셉터는 최우선 미러로 보내야 함', async () => {
+    applyRegistryMirrors(resolveRegistryMirrors({ go: [{ url: `${healthy.url}/go`, token: 'go-token' }] }));
+    const dispatcher = new Agent().compose(createRegistryMirrorInterceptor());
+
+    try {
+      const response = await request('https://proxy.golang.org/golang.org/x/text/@v/list', { dispatcher });
+      expect(await response.body.json()).toEqual({ served: 200 });
+    } finally {
+      await dispatcher.close();
+    }
+    expect(secondRequests).toEqual([{
+      method: 'GET',
+      url: '/go/golang.org/x/text/@v/list',
+      authorization: 'Bearer go-token',
+    }]);
+  });
+
+  it('http 모듈 요청은 최우선 미러 URL과 인증 헤더를 받아야 함', () => {
+    applyRegistryMirrors(resolveRegistryMirrors({ pip: [{ url: healthy.url, token: 't' }] }));
+
+    expect(getMirroredRequest('https://pypi.org/pypi/six/1.16.0/json')).toEqual({
+      url: `${healthy.url}/pypi/six/1.16.0/json`,
+      headers: { Authorization: 'Bearer t' },
+    });
+    expect(getMirroredRequest('https://files.pythonhosted.org/x.whl')).toEqual({
+      url: 'https://files.pythonhosted.org/x.whl',
+      headers: {},
+    });
+  });
+
+  it('연결 테스트는 생태계별 경로로 상태와 인증 실패를 알려야 함', async () => {
+    const ok = await testRegistryMirror('nuget', { url: `${healthy.url}/nuget/` });
+    expect(ok).toMatchObject({ success: true, status: 200, url: `${healthy.url}/nuget/v3/index.json` });
+    expect(secondRequests[0]).toMatchObject({ method: 'HEAD', url: '/nuget/v3/index.json' });
+
+    const unavailable = await testRegistryMirror('pip', { url: failing.url });
+    expect(unavailable).toMatchObject({ success: false, status: 503, error: 'HTTP 503' });
+
+    const unauthorized = await startServer(401, []);
+    try {
+      expect(await testRegistryMirror('maven', { url: unauthorized.url })).toMatchObject({
+        success: false,
+        error: '인증 실패 (HTTP 401)',
+      });
+    } finally {
+      await new Promise((resolve) => unauthorized.server.close(resolve));
+    }
+  });
+});
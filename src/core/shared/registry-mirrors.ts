@@ -0,0 +1,327 @@
+/**
+ * 생태계별 저장소 미러 (Nexus, Artifactory, devpi 등)
+ *
+ * 리졸버·다운로더·검색은 공개 저장소 URL(PyPI, npm, Maven Central 등)을 그대로 쓰고, 요청 시점에
+ * 공개 저장소 기준 URL을 설정된 미러 URL로 바꿔 보낸다. 미러가 여러 개면 우선순위 순으로 시도하고,
+ * 연결 실패·5xx·404면 다음 미러로 넘어간다. axios는 기본 어댑터를, fetch는 undici 전역 디스패처
+ * 인터셉터(network-proxy 참고)를 통해 적용되므로 개별 모듈을 수정하지 않아도 같은 설정을 따른다.
+ */
+
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import type { Dispatcher } from 'undici';
+
+/** 미러를 설정할 수 있는 생태계 */
+export type RegistryEcosystem = 'pip' | 'conda' | 'maven' | 'npm' | 'go' | 'cargo' | 'nuget' | 'docker';
+
+export const REGISTRY_ECOSYSTEMS: RegistryEcosystem[] = ['pip', 'conda', 'maven', 'npm', 'go', 'cargo', 'nuget', 'docker'];
+
+/**
+ * 미러 하나 (설정 파일/UI 입력값)
+ */
+export interface RegistryMirror {
+  /** 공개 저장소 기준 URL 자리에 들어갈 미러 URL (예: https://nexus.corp/repository/pypi-proxy) */
+  url: string;
+  /** 낮을수록 먼저 시도 (기본 0) */
+  priority?: number;
+  /** 기본 인증 사용자 */
+  username?: string;
+  /** 기본 인증 비밀번호 (암호화되어 저장됨) */
+  password?: string;
+  /** Bearer 토큰 (암호화되어 저장됨, 있으면 기본 인증 대신 사용) */
+  token?: string;
+}
+
+export type RegistryMirrorSettings = Partial<Record<RegistryEcosystem, RegistryMirror[]>>;
+
+/**
+ * 생태계별 공개 저장소 기준 URL (이 접두사로 시작하는 요청을 미러로 보낸다)
+ *
+ * 미러는 같은 경로 구조를 제공해야 한다. 예를 들어 pip 미러는 `/simple/<이름>/`과
+ * `/pypi/<이름>/json`을, cargo 미러는 sparse 인덱스와 `/crates/<이름>/<파일>`을 제공해야 한다.
+ */
+export const REGISTRY_UPSTREAMS: Record<RegistryEcosystem, string[]> = {
+  pip: ['https://pypi.org'],
+  conda: ['https://conda.anaconda.org'],
+  maven: ['https://repo1.maven.org/maven2', 'https://repo.maven.apache.org/maven2'],
+  npm: ['https://registry.npmjs.org'],
+  go: ['https://proxy.golang.org'],
+  cargo: ['https://index.crates.io', 'https://static.crates.io'],
+  nuget: ['https://api.nuget.org'],
+  docker: ['https://registry-1.docker.io'],
+};
+
+/** 연결 테스트에 쓰는 생태계별 가벼운 경로 */
+const PROBE_PATHS: Record<RegistryEcosystem, string> = {
+  pip: '/simple/pip/',
+  conda: '/conda-forge/noarch/repodata.json',
+  maven: '/junit/junit/maven-metadata.xml',
+  npm: '/is-number',
+  go: '/golang.org/x/text/@v/list',
+  cargo: '/config.json',
+  nuget: '/v3/index.json',
+  docker: '/v2/',
+};
+
+/**
+ * 요청 하나에 대해 시도할 미러 URL
+ */
+export interface RegistryMirrorCandidate {
+  ecosystem: RegistryEcosystem;
+  url: string;
+  /** 미러 인증 헤더 (인증 정보가 없으면 undefined) */
+  authorization?: string;
+}
+
+let currentMirrors: RegistryMirrorSettings = {};
+let mirrorAdapterInstalled = false;
+
+/**
+ * 설정값 정규화 (빈 URL 제거, 끝 슬래시 제거, 우선순위 정렬)
+ *
+ * URL이 http/https가 아니면 오류를 던진다.
+ */
+export function resolveRegistryMirrors(settings: RegistryMirrorSettings = {}): RegistryMirrorSettings {
+  const resolved: RegistryMirrorSettings = {};
+
+  for (const ecosystem of REGISTRY_ECOSYSTEMS) {
+    const mirrors = (settings[ecosystem] ?? [])
+      .filter((mirror) => mirror?.url?.trim())
+      .map((mirror) => {
+        const url = mirror.url.trim().replace(/\/+$/, '');
+        let parsed: URL;
+        try {
+          parsed = new URL(url);
+        } catch {
+          throw new Error(`잘못된 ${ecosystem} 미러 주소입니다: ${mirror.url}`);
+        }
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+          throw new Error(`지원하지 않는 ${ecosystem} 미러 프로토콜입니다: ${parsed.protocol} (http, https만 지원)`);
+        }
+        return { ...mirror, url, priority: Number(mirror.priority) || 0 };
+      })
+      .sort((a, b) => a.priority - b.priority);
+
+    if (mirrors.length > 0) {
+      resolved[ecosystem] = mirrors;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * 미러 인증 헤더 (토큰이 있으면 Bearer, 사용자가 있으면 Basic)
+ */
+export function getMirrorAuthorization(mirror: RegistryMirror): string | undefined {
+  if (mirror.token) {
+    return `Bearer ${mirror.token}`;
+  }
+  if (mirror.username) {
+    return `Basic ${Buffer.from(`${mirror.username}:${mirror.password ?? ''}`).toString('base64')}`;
+  }
+  return undefined;
+}
+
+/**
+ * 요청 URL을 보낼 미러 URL 목록 (우선순위 순, 미러 대상이 아니면 빈 배열)
+ */
+export function getRegistryMirrorCandidates(
+  requestUrl: string,
+  mirrors: RegistryMirrorSettings = currentMirrors
+): RegistryMirrorCandidate[] {
+  for (const ecosystem of REGISTRY_ECOSYSTEMS) {
+    const ecosystemMirrors = mirrors[ecosystem];
+    if (!ecosystemMirrors?.length) {
+      continue;
+    }
+
+    const upstream = REGISTRY_UPSTREAMS[ecosystem].find((base) => (
+      requestUrl === base || requestUrl.startsWith(`${base}/`) || requestUrl.startsWith(`${base}?`)
+    ));
+    if (upstream) {
+      const rest = requestUrl.slice(upstream.length);
+      return ecosystemMirrors.map((mirror) => ({
+        ecosystem,
+        url: `${mirror.url}${rest}`,
+        authorization: getMirrorAuthorization(mirror),
+      }));
+    }
+  }
+  return [];
+}
+
+/**
+ * Node http/https 모듈로 직접 보내는 요청에 쓸 최우선 미러 URL과 인증 헤더
+ */
+export function getMirroredRequest(requestUrl: string): { url: string; headers: Record<string, string> } {
+  const [candidate] = getRegistryMirrorCandidates(requestUrl);
+  if (!candidate) {
+    return { url: requestUrl, headers: {} };
+  }
+  return {
+    url: candidate.url,
+    headers: candidate.authorization ? { Authorization: candidate.authorization } : {},
+  };
+}
+
+/**
+ * 현재 적용된 미러 설정
+ */
+export function getRegistryMirrors(): RegistryMirrorSettings {
+  return currentMirrors;
+}
+
+/** 다음 미러로 넘어갈 오류인지 (연결 실패, 5xx, 404) */
+function shouldTryNextMirror(error: unknown): boolean {
+  if (!(error instanceof AxiosError)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status >= 500 || status === 404;
+}
+
+function getRequestUrl(config: InternalAxiosRequestConfig): string | undefined {
+  const url = config.url ?? '';
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url) || !config.baseURL) {
+    return url || undefined;
+  }
+  return `${config.baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/**
+ * 공개 저장소 요청을 미러로 바꿔 보내는 axios 어댑터를 만든다
+ */
+function createMirrorAdapter(): AxiosAdapter {
+  const defaultAdapter = axios.getAdapter(axios.defaults.adapter);
+
+  return async (config) => {
+    const requestUrl = getRequestUrl(config);
+    const candidates = requestUrl ? getRegistryMirrorCandidates(requestUrl) : [];
+    if (candidates.length === 0) {
+      return defaultAdapter(config);
+    }
+
+    let lastError: unknown;
+    for (const candidate of candidates) {
+      const headers = AxiosHeaders.from(config.headers);
+      if (candidate.authorization) {
+        headers.set('Authorization', candidate.authorization);
+      }
+
+      try {
+        return await defaultAdapter({ ...config, baseURL: undefined, url: candidate.url, headers }) as AxiosResponse;
+      } catch (error) {
+        lastError = error;
+        if (!shouldTryNextMirror(error)) {
+          throw error;
+        }
+      }
+    }
+    throw lastError;
+  };
+}
+
+/**
+ * fetch(undici) 요청을 최우선 미러로 바꿔 보내는 디스패처 인터셉터
+ *
+ * 본문을 다시 보낼 수 없는 스트림 요청이 섞이므로 fetch 경로는 다음 미러로 넘어가지 않는다.
+ */
+export function createRegistryMirrorInterceptor(): Dispatcher.DispatcherComposeInterceptor {
+  return (dispatch) => (opts, handler) => {
+    if (!opts.origin) {
+      return dispatch(opts, handler);
+    }
+
+    const origin = String(opts.origin).replace(/\/+$/, '');
+    const [candidate] = getRegistryMirrorCandidates(`${origin}${opts.path}`);
+    if (!candidate) {
+      return dispatch(opts, handler);
+    }
+
+    const target = new URL(candidate.url);
+    let headers = opts.headers;
+    if (candidate.authorization) {
+      headers = Array.isArray(headers)
+        ? [...headers, 'authorization', candidate.authorization]
+        : { ...(headers as Record<string, string> | null | undefined), authorization: candidate.authorization };
+    }
+    return dispatch({ ...opts, origin: target.origin, path: `${target.pathname}${target.search}`, headers }, handler);
+  };
+}
+
+/**
+ * 미러 설정을 프로세스 전체에 적용
+ *
+ * axios 기본 어댑터는 처음 한 번만 교체하고, 이후에는 요청 시점의 설정을 읽으므로 이미 만든 axios
+ * 인스턴스에도 바뀐 설정이 적용된다.
+ */
+export function applyRegistryMirrors(mirrors: RegistryMirrorSettings): void {
+  currentMirrors = mirrors;
+
+  if (!mirrorAdapterInstalled) {
+    axios.defaults.adapter = createMirrorAdapter();
+    mirrorAdapterInstalled = true;
+  }
+}
+
+/**
+ * 미러 연결 테스트 결과
+ */
+export interface RegistryMirrorTestResult {
+  ecosystem: RegistryEcosystem;
+  url: string;
+  success: boolean;
+  /** HTTP 상태 코드 (응답을 받은 경우) */
+  status?: number;
+  /** 응답까지 걸린 시간 (ms) */
+  latencyMs?: number;
+  error?: string;
+}
+
+/**
+ * 미러에 생태계별 가벼운 요청을 보내 연결과 인증을 확인
+ */
+export async function testRegistryMirror(
+  ecosystem: RegistryEcosystem,
+  mirror: RegistryMirror,
+  timeoutMs = 10000
+): Promise<RegistryMirrorTestResult> {
+  const url = `${mirror.url.trim().replace(/\/+$/, '')}${PROBE_PATHS[ecosystem]}`;
+  const authorization = getMirrorAuthorization(mirror);
+  const startedAt = Date.now();
+
+  try {
+    const response = await axios.head(url, {
+      timeout: timeoutMs,
+      headers: authorization ? { Authorization: authorization } : undefined,
+      validateStatus: () => true,
+    });
+    const latencyMs = Date.now() - startedAt;
+    const success = response.status < 400;
+    return {
+      ecosystem,
+      url,
+      success,
+      status: response.status,
+      latencyMs,
+      ...(!success && {
+        error: response.status === 401 || response.status === 403
+          ? `인증 실패 (HTTP ${response.status})`
+          : `HTTP ${response.status}`,
+      }),
+    };
+  } catch (error) {
+    return {
+      ecosystem,
+      url,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearPartialDownload,
+  completePartialDownload,
+  getPartialDownloadPath,
+  getPartialDownloadStatePath,
+  getResumeOffset,
+  isResumedResponse,
+  readPartialDownloadState,
+  writePartialDownloadState,
+} from './resumable-download';
+
+const URL = 'https://files.example.test/torch-2.3.0-cp312-cp312-linux_x86_64.whl';
+
+describe('resumable-download', () => {
+  let tempDir: string;
+  let filePath: string;
+  const headPackage = vi.fn();
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'depssmuggler-resume-'));
+    filePath = path.join(tempDir, 'torch.whl');
+    headPackage.mockReset();
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  async function writePartial(content: string, state: Record<string, unknown>): Promise<void> {
+    await fs.writeFile(getPartialDownloadPath(filePath), content);
+    await writePartialDownloadState(filePath, { url: URL, bytesReceived: content.length, ...state });
+  }
+
+  it('상태 파일을 쓰고 읽어야 함', async () => {
+    await writePartialDownloadState(filePath, { url: URL, etag: '"abc"', bytesReceived: 3, totalBytes: 10 });
+
+    expect(await readPartialDownloadState(filePath)).toEqual(expect.objectContaining({
+      url: URL,
+      etag: '"abc"',
+      bytesReceived: 3,
+      totalBytes: 10,
+      updatedAt: expect.any(String),
+    }));
+    expect(getPartialDownloadStatePath(filePath)).toBe(`${filePath}.part.json`);
+  });
+
+  it('원격 ETag가 같으면 .part 크기부터 이어받아야 함', async () => {
+    await writePartial('hello', { etag: '"v1"' });
+    headPackage.mockResolvedValue({ url: URL, status: 200, etag: '"v1"', contentLength: 10, headers: {} });
+
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(5);
+    expect(headPackage).toHaveBeenCalledWith({ url: URL, signal: undefined });
+  });
+
+  it('인증 헤더를 주면 HEAD 요청에도 함께 보내야 함', async () => {
+    await writePartial('hello', { etag: '"v1"' });
+    headPackage.mockResolvedValue({ url: URL, status: 200, etag: '"v1"', headers: {} });
+
+    expect(await getResumeOffset(filePath, URL, { headPackage }, undefined, { Authorization: 'Bearer token' })).toBe(5);
+    expect(headPackage).toHaveBeenCalledWith({
+      url: URL,
+      signal: undefined,
+      headers: { Authorization: 'Bearer token' },
+    });
+  });
+
+  it('ETag가 없으면 Last-Modified로 원격 파일 변경을 확인해야 함', async () => {
+    await writePartial('hello', { lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' });
+    headPackage.mockResolvedValue({
+      url: URL,
+      status: 200,
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      headers: {},
+    });
+
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(5);
+  });
+
+  it('원격 파일이 바뀌었거나 HEAD가 실패하면 남은 파일을 지우고 처음부터 받아야 함', async () => {
+    await writePartial('hello', { etag: '"v1"' });
+    headPackage.mockResolvedValueOnce({ url: URL, status: 200, etag: '"v2"', headers: {} });
+
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(0);
+    expect(await fs.pathExists(getPartialDownloadPath(filePath))).toBe(false);
+    expect(await fs.pathExists(getPartialDownloadStatePath(filePath))).toBe(false);
+
+    await writePartial('hello', { etag: '"v1"' });
+    headPackage.mockRejectedValueOnce(new Error('패키지 HEAD 조회 실패: 405 Method Not Allowed'));
+
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(0);
+    expect(await fs.pathExists(getPartialDownloadPath(filePath))).toBe(false);
+  });
+
+  it('URL이 다르거나 검증할 헤더가 없거나 이미 전체를 받았으면 이어받지 않아야 함', async () => {
+    await writePartial('hello', { url: 'https://other.example.test/file', etag: '"v1"' });
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(0);
+
+    await writePartial('hello', {});
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(0);
+
+    await writePartial('hello', { etag: '"v1"' });
+    headPackage.mockResolvedValue({ url: URL, status: 200, etag: '"v1"', contentLength: 5, headers: {} });
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(0);
+
+    expect(headPackage).toHaveBeenCalledTimes(1);
+    expect(await getResumeOffset(filePath, URL, { headPackage })).toBe(0);
+  });
+
+  it('완료하면 .part를 최종 경로로 옮기고 상태 파일을 지워야 함', async () => {
+    await writePartial('hello', { etag: '"v1"' });
+
+    await completePartialDownload(filePath);
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('hello');
+    expect(await fs.pathExists(getPartialDownloadStatePath(filePath))).toBe(false);
+
+    await writePartial('again', { etag: '"v1"' });
+    await clearPartialDownload(filePath);
+    expect(await fs.readdir(tempDir)).toEqual(['torch.whl']);
+  });
+
+  it('요청한 위치부터의 206 응답만 이어받기로 인정해야 함', () => {
+    expect(isResumedResponse(206, 'bytes 5-9/10', 5)).toBe(true);
+    expect(isResumedResponse(200, undefined, 5)).toBe(false);
+    expect(isResumedResponse(206, 'bytes 0-9/10', 5)).toBe(false);
+    expect(isResumedResponse(206, 'bytes 0-9/10', 0)).toBe(false);
+  });
+});
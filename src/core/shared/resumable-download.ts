@@ -0,0 +1,146 @@
+/**
+ * HTTP Range 이어받기 유틸리티
+ *
+ * 다운로드 중인 파일은 `<파일>.part`에 쓰고, 옆의 `<파일>.part.json`에 URL, ETag/Last-Modified,
+ * 받은 바이트 수를 기록한다. 네트워크 오류, 앱 재시작, 재개로 같은 파일을 다시 받을 때
+ * 원격 파일이 바뀌지 않았으면 `Range: bytes=<받은 크기>-`로 나머지만 요청한다.
+ * 서버가 Range를 무시하고 200으로 전체 본문을 보내면 처음부터 다시 쓴다.
+ */
+
+import * as fs from 'fs-extra';
+import logger from '../../utils/logger';
+import type { PackageFetchPort } from '../ports/package-fetch-port';
+
+/**
+ * 이어받기 상태 (sidecar 파일 내용)
+ */
+export interface PartialDownloadState {
+  /** 다운로드 URL */
+  url: string;
+  /** 응답의 ETag */
+  etag?: string;
+  /** 응답의 Last-Modified */
+  lastModified?: string;
+  /** 전체 크기 (알 수 없으면 생략) */
+  totalBytes?: number;
+  /** 지금까지 받은 바이트 수 */
+  bytesReceived: number;
+  /** 마지막 기록 시각 (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * 다운로드 중인 파일 경로
+ */
+export function getPartialDownloadPath(filePath: string): string {
+  return `${filePath}.part`;
+}
+
+/**
+ * 이어받기 상태 파일 경로
+ */
+export function getPartialDownloadStatePath(filePath: string): string {
+  return `${filePath}.part.json`;
+}
+
+/**
+ * 다운로드 중인 파일 또는 상태 파일인지 (아카이브에 묶지 않을 파일)
+ */
+export function isPartialDownloadPath(filePath: string): boolean {
+  return filePath.endsWith('.part') || filePath.endsWith('.part.json');
+}
+
+/**
+ * 이어받기 상태 조회 (없거나 읽을 수 없으면 null)
+ */
+export async function readPartialDownloadState(filePath: string): Promise<PartialDownloadState | null> {
+  try {
+    const state = await fs.readJson(getPartialDownloadStatePath(filePath)) as PartialDownloadState;
+    return typeof state?.url === 'string' ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 이어받기 상태 기록
+ */
+export async function writePartialDownloadState(
+  filePath: string,
+  state: Omit<PartialDownloadState, 'updatedAt'>
+): Promise<void> {
+  await fs.writeJson(getPartialDownloadStatePath(filePath), { ...state, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * 다운로드 중인 파일과 상태 파일 삭제
+ */
+export async function clearPartialDownload(filePath: string): Promise<void> {
+  await Promise.all([
+    fs.remove(getPartialDownloadPath(filePath)),
+    fs.remove(getPartialDownloadStatePath(filePath)),
+  ]);
+}
+
+/**
+ * 받은 파일을 최종 경로로 옮기고 상태 파일 삭제
+ */
+export async function completePartialDownload(filePath: string): Promise<void> {
+  await fs.move(getPartialDownloadPath(filePath), filePath, { overwrite: true });
+  await fs.remove(getPartialDownloadStatePath(filePath));
+}
+
+/**
+ * 이어받을 시작 위치 계산
+ *
+ * 상태 파일의 URL이 같고, `headPackage`로 조회한 ETag(없으면 Last-Modified)가 기록과 같을 때만
+ * `.part` 파일 크기를 반환한다. 그 외에는 남은 파일을 지우고 0을 반환한다.
+ *
+ * @param headers HEAD 요청에 붙일 헤더 (인증이 필요한 저장소는 본 요청과 같은 Authorization)
+ */
+export async function getResumeOffset(
+  filePath: string,
+  url: string,
+  fetchPort: Pick<PackageFetchPort, 'headPackage'>,
+  signal?: AbortSignal,
+  headers?: Record<string, string>
+): Promise<number> {
+  const state = await readPartialDownloadState(filePath);
+  const partialPath = getPartialDownloadPath(filePath);
+  const size = await fs.stat(partialPath).then((stat) => stat.size, () => 0);
+
+  if (!state || state.url !== url || size === 0 || (!state.etag && !state.lastModified)) {
+    if (state || size > 0) {
+      await clearPartialDownload(filePath);
+    }
+    return 0;
+  }
+
+  try {
+    const head = await fetchPort.headPackage({ url, signal, ...(headers && { headers }) });
+    const unchanged = state.etag ? head.etag === state.etag : head.lastModified === state.lastModified;
+    const totalBytes = head.contentLength ?? state.totalBytes;
+    if (unchanged && (totalBytes === undefined || size < totalBytes)) {
+      logger.debug('이어받기 가능', { url, offset: size, totalBytes });
+      return size;
+    }
+    logger.debug('원격 파일이 바뀌어 처음부터 다시 받음', { url, etag: head.etag, lastModified: head.lastModified });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    logger.debug('이어받기 확인 실패, 처음부터 다시 받음', { url, error });
+  }
+
+  await clearPartialDownload(filePath);
+  return 0;
+}
+
+/**
+ * Range 요청 응답이 요청한 위치부터의 부분 응답인지 확인
+ *
+ * 서버가 Range를 무시하면 200과 전체 본문을 보내므로 false (처음부터 다시 씀).
+ */
+export function isResumedResponse(status: number, contentRange: string | null | undefined, offset: number): boolean {
+  return offset > 0 && status === 206 && Boolean(contentRange?.startsWith(`bytes ${offset}-`));
+}
@@ -13,13 +13,13 @@ describe('generateInstallScripts', () => {
     }
   });
 
-  it('중첩된 pip 아티팩트 디렉터리를 Bash와 PowerShell에서 모두 탐색한다', () => {
+  it('중첩된 pip 아티팩트 디렉터리를 Bash와 PowerShell에서 모두 탐색한다', async () => {
     const outputDir = fs.mkdtempSync(
       path.join(os.tmpdir(), 'script-utils-'),
     );
     outputDirs.push(outputDir);
 
-    generateInstallScripts(outputDir, [
+    await generateInstallScripts(outputDir, [
       {
         name: 'requests',
         version: '2.28.0',
@@ -47,4 +47,143 @@ describe('generateInstallScripts', () => {
     );
     expect(powerShellScript).toContain('@PipFindLinkArgs');
   });
+
+  it('pip 아티팩트가 있으면 잠금 파일을 만들고 --require-hashes로 설치한다', async () => {
+    const outputDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'script-utils-'),
+    );
+    outputDirs.push(outputDir);
+    const wheelDir = path.join(outputDir, 'packages', 'pip');
+    fs.mkdirSync(wheelDir, { recursive: true });
+    fs.writeFileSync(path.join(wheelDir, 'requests-2.28.0-py3-none-any.whl'), 'wheel');
+
+    await generateInstallScripts(outputDir, [
+      {
+        id: 'pip-requests-2.28.0',
+        name: 'requests',
+        version: '2.28.0',
+        type: 'pip',
+      },
+    ]);
+
+    const lockFile = fs.readFileSync(
+      path.join(outputDir, 'requirements.lock.txt'),
+      'utf8',
+    );
+    const bashScript = fs.readFileSync(
+      path.join(outputDir, 'install.sh'),
+      'utf8',
+    );
+    const powerShellScript = fs.readFileSync(
+      path.join(outputDir, 'install.ps1'),
+      'utf8',
+    );
+
+    expect(lockFile).toContain('requests==2.28.0 \\\n    --hash=sha256:');
+    expect(bashScript).toContain(
+      'pip install --require-hashes --no-index "${PIP_FIND_LINK_ARGS[@]}" -r "$SCRIPT_DIR/requirements.lock.txt"',
+    );
+    expect(bashScript).not.toContain('requests==2.28.0');
+    expect(powerShellScript).toContain('--require-hashes');
+  });
+
+  it('멀티 타겟 패키지는 대상별 디렉터리에 잠금 파일과 스크립트를 만든다', async () => {
+    const outputDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'script-utils-'),
+    );
+    outputDirs.push(outputDir);
+    const wheelDir = path.join(outputDir, 'packages', 'pip');
+    fs.mkdirSync(wheelDir, { recursive: true });
+    const linuxWheel = 'numpy-1.26.4-cp39-cp39-manylinux_2_17_x86_64.whl';
+    const windowsWheel = 'numpy-1.26.4-cp311-cp311-win_amd64.whl';
+    fs.writeFileSync(path.join(wheelDir, linuxWheel), 'linux');
+    fs.writeFileSync(path.join(wheelDir, windowsWheel), 'windows');
+
+    await generateInstallScripts(
+      outputDir,
+      [
+        {
+          name: 'numpy',
+          version: '1.26.4',
+          type: 'pip',
+          filename: linuxWheel,
+          metadata: { pythonTargets: ['linux-x86_64-py3.9'] },
+        },
+        {
+          name: 'numpy',
+          version: '1.26.4',
+          type: 'pip',
+          filename: windowsWheel,
+          metadata: { pythonTargets: ['windows-x86_64-py3.11'] },
+        },
+      ],
+      [
+        { targetOS: 'linux', architecture: 'x86_64', pythonVersion: '3.9' },
+        { targetOS: 'windows', architecture: 'x86_64', pythonVersion: '3.11' },
+      ],
+    );
+
+    const linuxDir = path.join(outputDir, 'targets', 'linux-x86_64-py3.9');
+    const windowsDir = path.join(outputDir, 'targets', 'windows-x86_64-py3.11');
+    const linuxLock = fs.readFileSync(path.join(linuxDir, 'requirements.lock.txt'), 'utf8');
+    const windowsLock = fs.readFileSync(path.join(windowsDir, 'requirements.lock.txt'), 'utf8');
+
+    expect(fs.existsSync(path.join(outputDir, 'install.sh'))).toBe(false);
+    expect(linuxLock.match(/--hash=sha256:/g)).toHaveLength(1);
+    expect(linuxLock).not.toEqual(windowsLock);
+    expect(fs.readFileSync(path.join(linuxDir, 'install.sh'), 'utf8')).toContain(
+      'find "$SCRIPT_DIR/../../packages" -type d -print0',
+    );
+    expect(fs.readFileSync(path.join(windowsDir, 'install.ps1'), 'utf8')).toContain(
+      "-ChildPath '../../packages'",
+    );
+  });
+
+  it('docker-load 스크립트는 다운로드한 출력 형식과 세션 번들 여부를 따른다', async () => {
+    const outputDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'script-utils-'),
+    );
+    outputDirs.push(outputDir);
+    const images = [
+      { name: 'nginx', version: '1.27', type: 'docker' },
+      { name: 'redis', version: '7', type: 'docker' },
+    ];
+
+    await generateInstallScripts(outputDir, images, [], { docker: { outputFormat: 'oci-layout', sessionBundle: true } });
+
+    expect(fs.readFileSync(path.join(outputDir, 'docker-load.sh'), 'utf8')).toContain(
+      'docker load -i "$SCRIPT_DIR/packages/docker-images.oci.tar"',
+    );
+    expect(fs.readFileSync(path.join(outputDir, 'docker-load.ps1'), 'utf8')).toContain(
+      'docker-images.oci.tar',
+    );
+
+    await generateInstallScripts(outputDir, images, [], { docker: { outputFormat: 'oci-layout', sessionBundle: false } });
+
+    const bashScript = fs.readFileSync(path.join(outputDir, 'docker-load.sh'), 'utf8');
+    expect(bashScript).not.toContain('docker-images');
+    expect(bashScript).toContain('docker load -i "$SCRIPT_DIR/packages/nginx-1.27.oci.tar"');
+  });
+
+  it('cargo vendor 디렉토리가 있으면 source replacement 설정을 추가한다', async () => {
+    const outputDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'script-utils-'),
+    );
+    outputDirs.push(outputDir);
+    const crates = [{ name: 'serde', version: '1.0.200', type: 'cargo' }];
+
+    await generateInstallScripts(outputDir, crates, [], { cargoVendorDir: 'vendor' });
+
+    const bashScript = fs.readFileSync(path.join(outputDir, 'install.sh'), 'utf8');
+    const powerShellScript = fs.readFileSync(path.join(outputDir, 'install.ps1'), 'utf8');
+    expect(bashScript).toContain('CARGO_SOURCE_DIR="$SCRIPT_DIR/packages/vendor"');
+    expect(bashScript).toContain('replace-with = "depssmuggler-offline"');
+    expect(bashScript).toContain('directory = "$CARGO_SOURCE_DIR"');
+    expect(powerShellScript).toContain("-ChildPath 'vendor'");
+    expect(powerShellScript).toContain("'[source.depssmuggler-offline]'");
+
+    await generateInstallScripts(outputDir, crates);
+
+    expect(fs.readFileSync(path.join(outputDir, 'install.sh'), 'utf8')).not.toContain('CARGO_SOURCE_DIR');
+  });
 });
@@ -1,29 +1,60 @@
 // 설치 스크립트 생성 유틸리티
 import * as fs from 'fs';
 import * as path from 'path';
+import { CARGO_CONSTANTS } from '../constants/cargo';
+import {
+  getDockerArchiveExtension,
+  getDockerSessionBundleFileName,
+  shouldUseDockerSessionBundle,
+} from '../downloaders/docker-session-bundle';
 import type { DownloadPackage } from './types';
+import type { DockerOutputFormat } from '../../types';
+import type { PythonDownloadTarget } from '../../types/platform/python-download-target';
 import { isWindows } from './path-utils';
+import { collectPipLockArtifacts, PIP_LOCK_FILE_NAME, writePipLockFiles } from './pip-lock';
+import {
+  PYTHON_TARGETS_DIR,
+  getPythonTargetSlug,
+  getPythonTargetSlugs,
+  selectPythonTargetPackages,
+} from './python-download-targets';
 
 /**
  * 설치 스크립트 생성 (Bash + PowerShell)
+ *
+ * pip 패키지가 있으면 requirements.lock.txt를 함께 만들고 --require-hashes로 설치한다.
+ * 멀티 타겟으로 해결한 pip/conda 패키지는 targets/<대상>/에 대상별 잠금 파일과 스크립트를 따로 만든다.
  */
-export function generateInstallScripts(
+export async function generateInstallScripts(
   outputDir: string,
-  packages: DownloadPackage[]
-): void {
-  const bashScript = generateBashScript(packages);
-  const psScript = generatePowerShellScript(packages);
+  packages: DownloadPackage[],
+  pythonTargets: PythonDownloadTarget[] = [],
+  options: InstallScriptOptions = {}
+): Promise<void> {
+  const packagesDir = path.join(outputDir, 'packages');
+  const sharedPackages = pythonTargets.length > 0
+    ? packages.filter((p) => !getPythonTargetSlugs(p))
+    : packages;
+
+  if (sharedPackages.length > 0 || pythonTargets.length === 0) {
+    await writeInstallScripts(outputDir, sharedPackages, packagesDir, 'packages', options.cargoVendorDir);
+  }
 
-  // Windows에서는 mode 옵션이 무시되므로 조건부 처리
-  const bashWriteOptions = isWindows ? {} : { mode: 0o755 };
-  fs.writeFileSync(path.join(outputDir, 'install.sh'), bashScript, bashWriteOptions);
-  fs.writeFileSync(path.join(outputDir, 'install.ps1'), psScript);
+  for (const target of pythonTargets) {
+    const targetPackages = selectPythonTargetPackages(packages, target);
+    if (targetPackages.length > 0) {
+      const targetDir = path.join(outputDir, PYTHON_TARGETS_DIR, getPythonTargetSlug(target));
+      fs.mkdirSync(targetDir, { recursive: true });
+      await writeInstallScripts(targetDir, targetPackages, packagesDir, '../../packages');
+    }
+  }
 
   // Docker 이미지가 포함된 경우 docker-load 스크립트 생성
   const dockerPackages = packages.filter((p) => p.type === 'docker');
   if (dockerPackages.length > 0) {
-    const dockerBashScript = generateDockerLoadBashScript(dockerPackages);
-    const dockerPsScript = generateDockerLoadPowerShellScript(dockerPackages);
+    const dockerImages = resolveDockerLoadTargets(dockerPackages, options.docker ?? {});
+    const dockerBashScript = generateDockerLoadBashScript(dockerImages);
+    const dockerPsScript = generateDockerLoadPowerShellScript(dockerImages);
 
     const dockerBashWriteOptions = isWindows ? {} : { mode: 0o755 };
     fs.writeFileSync(path.join(outputDir, 'docker-load.sh'), dockerBashScript, dockerBashWriteOptions);
@@ -31,10 +62,80 @@ export function generateInstallScripts(
   }
 }
 
+/**
+ * docker-load 스크립트 옵션
+ */
+export interface DockerScriptOptions {
+  /** 다운로드한 이미지 출력 형식 (기본: docker-archive) */
+  outputFormat?: DockerOutputFormat;
+  /** 다운로드가 세션 번들을 만들었는지 (미지정 시 이미지 수로 판단) */
+  sessionBundle?: boolean;
+}
+
+/**
+ * 설치 스크립트 옵션
+ */
+export interface InstallScriptOptions {
+  docker?: DockerScriptOptions;
+  /** packages 디렉토리 기준 cargo vendor 디렉토리 (지정 시 source replacement 설정) */
+  cargoVendorDir?: string;
+}
+
+/**
+ * 잠금 파일과 설치 스크립트 기록
+ *
+ * @param scriptPackagesDir 스크립트 위치 기준 packages 디렉토리 경로
+ * @param cargoVendorDir packages 디렉토리 기준 cargo vendor 디렉토리
+ */
+async function writeInstallScripts(
+  scriptDir: string,
+  packages: DownloadPackage[],
+  packagesDir: string,
+  scriptPackagesDir: string,
+  cargoVendorDir?: string
+): Promise<void> {
+  const pipPackages = packages.filter((p) => p.type === 'pip');
+  // 멀티 타겟이면 같은 버전의 다른 대상 wheel도 함께 받아져 있으므로 이 대상이 고른 파일만 잠근다
+  const artifactFilenames = new Map<string, Set<string>>();
+  for (const p of pipPackages) {
+    const filename = getPythonTargetSlugs(p) ? getArtifactFilename(p) : undefined;
+    if (filename) {
+      const key = `${p.name}@${p.version}`;
+      artifactFilenames.set(key, (artifactFilenames.get(key) ?? new Set()).add(filename));
+    }
+  }
+  const pipArtifacts = (await collectPipLockArtifacts(pipPackages, packagesDir)).filter((artifact) => {
+    const filenames = artifactFilenames.get(`${artifact.name}@${artifact.version}`);
+    return !filenames || filenames.has(path.basename(artifact.filePath));
+  });
+  const hasPipLock = (await writePipLockFiles(scriptDir, pipArtifacts)) !== null;
+
+  const cargoDir = packages.some((p) => p.type === 'cargo') ? cargoVendorDir : undefined;
+  const bashScript = generateBashScript(packages, hasPipLock, scriptPackagesDir, cargoDir);
+  const psScript = generatePowerShellScript(packages, hasPipLock, scriptPackagesDir, cargoDir);
+
+  // Windows에서는 mode 옵션이 무시되므로 조건부 처리
+  const bashWriteOptions = isWindows ? {} : { mode: 0o755 };
+  fs.writeFileSync(path.join(scriptDir, 'install.sh'), bashScript, bashWriteOptions);
+  fs.writeFileSync(path.join(scriptDir, 'install.ps1'), psScript);
+}
+
+function getArtifactFilename(pkg: DownloadPackage): string | undefined {
+  if (pkg.filename) {
+    return pkg.filename;
+  }
+  return typeof pkg.metadata?.filename === 'string' ? pkg.metadata.filename : undefined;
+}
+
 /**
  * Bash 설치 스크립트 생성
  */
-function generateBashScript(packages: DownloadPackage[]): string {
+function generateBashScript(
+  packages: DownloadPackage[],
+  hasPipLock: boolean,
+  packagesDir: string,
+  cargoVendorDir?: string
+): string {
   const pipPackages = packages.filter((p) => p.type === 'pip');
   const condaPackages = packages.filter((p) => p.type === 'conda');
   const mavenPackages = packages.filter((p) => p.type === 'maven');
@@ -54,10 +155,12 @@ SCRIPT_DIR="$( cd "$( dirname "\${BASH_SOURCE[0]}" )" && pwd )"
 ${hasPythonPackages ? `PIP_FIND_LINK_ARGS=()
 while IFS= read -r -d '' directory; do
     PIP_FIND_LINK_ARGS+=(--find-links="$directory")
-done < <(find "$SCRIPT_DIR/packages" -type d -print0)
+done < <(find "$SCRIPT_DIR/${packagesDir}" -type d -print0)
 
 ` : ''}
-${pipPackages.length > 0 ? `# pip 패키지 설치
+${pipPackages.length > 0 ? hasPipLock ? `# pip 패키지 설치 (해시 검증)
+pip install --require-hashes --no-index "\${PIP_FIND_LINK_ARGS[@]}" -r "$SCRIPT_DIR/${PIP_LOCK_FILE_NAME}"
+` : `# pip 패키지 설치
 ${pipPackages.map((p) => `pip install --no-index "\${PIP_FIND_LINK_ARGS[@]}" ${p.name}==${p.version}`).join('\n')}
 ` : ''}
 ${condaPackages.length > 0 ? `# conda 패키지 설치
@@ -66,14 +169,52 @@ ${condaPackages.map((p) => `pip install --no-index "\${PIP_FIND_LINK_ARGS[@]}" $
 ${mavenPackages.length > 0 ? `# Maven 아티팩트 복사
 echo "Maven artifacts are in packages/ directory"
 ` : ''}
+${cargoVendorDir ? generateCargoSourceBash(packagesDir, cargoVendorDir) : ''}
 echo "Installation complete!"
 `;
 }
 
+/**
+ * Cargo source replacement 설정 (Bash)
+ *
+ * CARGO_PROJECT_DIR이 지정되면 프로젝트의 .cargo/config.toml, 아니면 CARGO_HOME의 config.toml에 추가한다.
+ */
+function generateCargoSourceBash(packagesDir: string, cargoVendorDir: string): string {
+  return [
+    '# Cargo crate 설정 (source replacement)',
+    `CARGO_SOURCE_DIR="$SCRIPT_DIR/${packagesDir}/${cargoVendorDir}"`,
+    'if [ -n "${CARGO_PROJECT_DIR:-}" ]; then',
+    '    CARGO_CONFIG="$CARGO_PROJECT_DIR/.cargo/config.toml"',
+    'else',
+    '    CARGO_CONFIG="${CARGO_HOME:-$HOME/.cargo}/config.toml"',
+    'fi',
+    'if [ -f "$CARGO_CONFIG" ] && grep -q \'^\\[source\\.crates-io\\]\' "$CARGO_CONFIG"; then',
+    '    echo "Warning: $CARGO_CONFIG already has [source.crates-io]; point it to directory = \\"$CARGO_SOURCE_DIR\\" manually"',
+    'else',
+    '    mkdir -p "$(dirname "$CARGO_CONFIG")"',
+    '    cat >> "$CARGO_CONFIG" <<EOF',
+    '',
+    '[source.crates-io]',
+    `replace-with = "${CARGO_CONSTANTS.REPLACEMENT_SOURCE}"`,
+    '',
+    `[source.${CARGO_CONSTANTS.REPLACEMENT_SOURCE}]`,
+    'directory = "$CARGO_SOURCE_DIR"',
+    'EOF',
+    '    echo "Cargo source replacement added to $CARGO_CONFIG (build with: cargo build --offline)"',
+    'fi',
+    '',
+  ].join('\n');
+}
+
 /**
  * PowerShell 설치 스크립트 생성
  */
-function generatePowerShellScript(packages: DownloadPackage[]): string {
+function generatePowerShellScript(
+  packages: DownloadPackage[],
+  hasPipLock: boolean,
+  packagesDir: string,
+  cargoVendorDir?: string
+): string {
   const pipPackages = packages.filter((p) => p.type === 'pip');
   const condaPackages = packages.filter((p) => p.type === 'conda');
   const mavenPackages = packages.filter((p) => p.type === 'maven');
@@ -89,7 +230,7 @@ Write-Host "Installing packages..."
 
 $ScriptDir = Split-Path -Parent $MyInvocation.MyCommand.Path
 
-$PackagesDir = Join-Path -Path $ScriptDir -ChildPath 'packages'
+$PackagesDir = Join-Path -Path $ScriptDir -ChildPath '${packagesDir}'
 
 ${hasPythonPackages ? `$PipFindLinkArgs = @("--find-links=$PackagesDir")
 $PipFindLinkArgs += @(
@@ -98,7 +239,9 @@ $PipFindLinkArgs += @(
 )
 
 ` : ''}
-${pipPackages.length > 0 ? `# pip 패키지 설치
+${pipPackages.length > 0 ? hasPipLock ? `# pip 패키지 설치 (해시 검증)
+pip install --require-hashes --no-index @PipFindLinkArgs -r (Join-Path -Path $ScriptDir -ChildPath '${PIP_LOCK_FILE_NAME}')
+` : `# pip 패키지 설치
 ${pipPackages.map((p) => `pip install --no-index @PipFindLinkArgs ${p.name}==${p.version}`).join('\n')}
 ` : ''}
 ${condaPackages.length > 0 ? `# conda 패키지 설치
@@ -107,23 +250,80 @@ ${condaPackages.map((p) => `pip install --no-index @PipFindLinkArgs ${p.name}==$
 ${mavenPackages.length > 0 ? `# Maven 아티팩트 복사
 Write-Host "Maven artifacts are in packages/ directory"
 ` : ''}
+${cargoVendorDir ? generateCargoSourcePowerShell(cargoVendorDir) : ''}
 Write-Host "Installation complete!"
 `;
 }
 
 /**
- * Docker load Bash 스크립트 생성
+ * Cargo source replacement 설정 (PowerShell)
  */
-function generateDockerLoadBashScript(packages: DownloadPackage[]): string {
-  const dockerImages = packages.map((p) => {
+function generateCargoSourcePowerShell(cargoVendorDir: string): string {
+  return [
+    '# Cargo crate 설정 (source replacement)',
+    `$CargoSourceDir = (Resolve-Path (Join-Path -Path $PackagesDir -ChildPath '${cargoVendorDir}')).Path -replace "\\\\", "/"`,
+    'if ($env:CARGO_PROJECT_DIR) {',
+    "    $CargoConfig = Join-Path -Path $env:CARGO_PROJECT_DIR -ChildPath '.cargo\\config.toml'",
+    '} else {',
+    "    $CargoHome = if ($env:CARGO_HOME) { $env:CARGO_HOME } else { Join-Path -Path $HOME -ChildPath '.cargo' }",
+    "    $CargoConfig = Join-Path -Path $CargoHome -ChildPath 'config.toml'",
+    '}',
+    "if ((Test-Path $CargoConfig) -and (Select-String -Path $CargoConfig -Pattern '^\\[source\\.crates-io\\]' -Quiet)) {",
+    '    Write-Host "Warning: $CargoConfig already has [source.crates-io]; point it to directory = `"$CargoSourceDir`" manually"',
+    '} else {',
+    '    New-Item -ItemType Directory -Force -Path (Split-Path -Parent $CargoConfig) | Out-Null',
+    '    Add-Content -Path $CargoConfig -Value @(',
+    "        '',",
+    "        '[source.crates-io]',",
+    `        'replace-with = "${CARGO_CONSTANTS.REPLACEMENT_SOURCE}"',`,
+    "        '',",
+    `        '[source.${CARGO_CONSTANTS.REPLACEMENT_SOURCE}]',`,
+    '        "directory = `"$CargoSourceDir`""',
+    '    )',
+    '    Write-Host "Cargo source replacement added to $CargoConfig (build with: cargo build --offline)"',
+    '}',
+    '',
+  ].join('\n');
+}
+
+interface DockerLoadTarget {
+  fileName: string;
+  fullName: string;
+}
+
+/**
+ * docker load 대상 파일 목록
+ *
+ * 다운로드가 세션 번들을 만들었으면 레이어를 공유하는 번들 하나에 모든 이미지가 들어 있다.
+ */
+function resolveDockerLoadTargets(
+  packages: DownloadPackage[],
+  docker: DockerScriptOptions
+): DockerLoadTarget[] {
+  const outputFormat = docker.outputFormat ?? 'docker-archive';
+  if (docker.sessionBundle ?? shouldUseDockerSessionBundle(packages.length)) {
+    return [
+      {
+        fileName: getDockerSessionBundleFileName(outputFormat),
+        fullName: packages.map((p) => `${p.name}:${p.version}`).join(', '),
+      },
+    ];
+  }
+
+  return packages.map((p) => {
     const imageName = p.name.replace(/[:/]/g, '-');
-    const fileName = `${imageName}-${p.version}.tar`;
+    const fileName = `${imageName}-${p.version}${getDockerArchiveExtension(outputFormat)}`;
     return {
       fileName,
       fullName: `${p.name}:${p.version}`,
     };
   });
+}
 
+/**
+ * Docker load Bash 스크립트 생성
+ */
+function generateDockerLoadBashScript(dockerImages: DockerLoadTarget[]): string {
   return `#!/bin/bash
 # DepsSmuggler Docker 이미지 로드 스크립트
 # 생성일: ${new Date().toISOString()}
@@ -166,16 +366,7 @@ docker images | head -20
 /**
  * Docker load PowerShell 스크립트 생성
  */
-function generateDockerLoadPowerShellScript(packages: DownloadPackage[]): string {
-  const dockerImages = packages.map((p) => {
-    const imageName = p.name.replace(/[:/]/g, '-');
-    const fileName = `${imageName}-${p.version}.tar`;
-    return {
-      fileName,
-      fullName: `${p.name}:${p.version}`,
-    };
-  });
-
+function generateDockerLoadPowerShellScript(dockerImages: DockerLoadTarget[]): string {
   return `# DepsSmuggler Docker 이미지 로드 스크립트
 # 생성일: ${new Date().toISOString()}
 
@@ -0,0 +1,122 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { describe, expect, it } from 'vitest';
+import {
+  TransferLimiter,
+  describeTransferLimits,
+  formatRate,
+  parseRate,
+  resolveTransferLimits,
+} from './transfer-limiter';
+
+describe('parseRate', () => {
+  it.each([
+    ['1024', 1024],
+    ['500K', 500 * 1024],
+    ['5M', 5 * 1024 * 1024],
+    ['1.5m', 1.5 * 1024 * 1024],
+    ['2G', 2 * 1024 * 1024 * 1024],
+    ['5MB', 5 * 1024 * 1024],
+    ['5M/s', 5 * 1024 * 1024],
+  ])('%s → %d', (value, expected) => {
+    expect(parseRate(value)).toBe(expected);
+  });
+
+  it('잘못된 형식은 오류를 내야 함', () => {
+    expect(() => parseRate('fast')).toThrow('잘못된 대역폭 제한');
+    expect(() => parseRate('5T')).toThrow('잘못된 대역폭 제한');
+    expect(() => parseRate(-1)).toThrow('잘못된 대역폭 제한');
+  });
+});
+
+describe('resolveTransferLimits', () => {
+  it('비어 있거나 0이면 무제한으로 처리해야 함', () => {
+    expect(resolveTransferLimits({})).toEqual({ bytesPerSecond: 0, perHostConcurrency: 0 });
+    expect(resolveTransferLimits({ limitRate: '', perHostConcurrency: 0 })).toEqual({
+      bytesPerSecond: 0,
+      perHostConcurrency: 0,
+    });
+    expect(describeTransferLimits(resolveTransferLimits({}))).toBeNull();
+  });
+
+  it('설정 파일의 숫자값과 CLI 문자열 값을 모두 받아야 함', () => {
+    expect(resolveTransferLimits({ limitRate: 2048, perHostConcurrency: '2' })).toEqual({
+      bytesPerSecond: 2048,
+      perHostConcurrency: 2,
+    });
+    expect(describeTransferLimits(resolveTransferLimits({ limitRate: '5M', perHostConcurrency: 2 })))
+      .toBe('최대 5 MB/s, 호스트당 2개 연결');
+    expect(formatRate(1536)).toBe('1.5 KB/s');
+  });
+
+  it('호스트별 동시 연결 수가 음수나 소수면 오류를 내야 함', () => {
+    expect(() => resolveTransferLimits({ perHostConcurrency: -1 })).toThrow('잘못된 호스트별 동시 연결 수');
+    expect(() => resolveTransferLimits({ perHostConcurrency: '1.5' })).toThrow('잘못된 호스트별 동시 연결 수');
+  });
+});
+
+describe('TransferLimiter', () => {
+  it('같은 호스트의 연결 수만 제한해야 함', async () => {
+    const limiter = new TransferLimiter();
+    limiter.configure({ bytesPerSecond: 0, perHostConcurrency: 1 });
+
+    const releaseFirst = await limiter.acquireHost('https://registry-1.docker.io/v2/library/nginx/blobs/a');
+    let secondAcquired = false;
+    const second = limiter.acquireHost('https://registry-1.docker.io/v2/library/nginx/blobs/b').then((release) => {
+      secondAcquired = true;
+      return release;
+    });
+    const releaseOther = await limiter.acquireHost('https://files.pythonhosted.org/packages/x.whl');
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(secondAcquired).toBe(false);
+
+    releaseFirst();
+    releaseFirst();
+    const releaseSecond = await second;
+    expect(secondAcquired).toBe(true);
+
+    releaseSecond();
+    releaseOther();
+  });
+
+  it('제한을 풀면 대기 중인 요청을 바로 진행시켜야 함', async () => {
+    const limiter = new TransferLimiter();
+    limiter.configure({ bytesPerSecond: 0, perHostConcurrency: 1 });
+    const release = await limiter.acquireHost('https://pypi.org/simple/a');
+    const waiting = limiter.acquireHost('https://pypi.org/simple/b');
+
+    limiter.configure({ bytesPerSecond: 0, perHostConcurrency: 0 });
+
+    const releaseWaiting = await waiting;
+    release();
+    releaseWaiting();
+  });
+
+  it('모든 스트림을 합친 속도를 상한 이하로 맞춰야 함', async () => {
+    const limiter = new TransferLimiter();
+    limiter.configure({ bytesPerSecond: 100 * 1024, perHostConcurrency: 0 });
+    const chunks = Array.from({ length: 3 }, () => Buffer.alloc(10 * 1024));
+    const received: Buffer[] = [];
+
+    const startedAt = Date.now();
+    await Promise.all([
+      pipeline(
+        Readable.from(chunks),
+        limiter.createThrottleStream(),
+        new Writable({
+          write(chunk: Buffer, _encoding, callback) {
+            received.push(chunk);
+            callback();
+          },
+        })
+      ),
+      limiter.consume(10 * 1024),
+    ]);
+    const elapsed = Date.now() - startedAt;
+
+    // 40KB를 100KB/s로 받으면 약 400ms
+    expect(elapsed).toBeGreaterThanOrEqual(350);
+    expect(Buffer.concat(received)).toEqual(Buffer.concat(chunks));
+  });
+});
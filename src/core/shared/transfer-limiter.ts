@@ -0,0 +1,225 @@
+/**
+ * 다운로드 대역폭 제한 및 호스트별 동시 연결 제한
+ *
+ * 동시 다운로드 수(concurrency-limiter)는 패키지 개수만 제한하므로, 공유 회선을 다 쓰거나
+ * Docker Hub/PyPI 요청 제한에 걸리지 않도록 프로세스 전체의 초당 바이트 수와 호스트별 동시
+ * 연결 수를 따로 제한한다. 언어 패키지, OS 패키지, Docker blob 다운로드가 같은 인스턴스를 공유한다.
+ */
+
+import { Transform } from 'stream';
+
+/**
+ * 사용자 전송 제한 설정 (설정 파일/CLI 입력값)
+ */
+export interface TransferLimitSettings {
+  /** 전체 다운로드 속도 상한 (예: '5M', '500K', 숫자면 바이트, 비어 있거나 0이면 무제한) */
+  limitRate?: string | number;
+  /** 호스트별 동시 연결 수 (비어 있거나 0이면 무제한) */
+  perHostConcurrency?: number | string;
+}
+
+/**
+ * 정규화한 전송 제한 (0은 무제한)
+ */
+export interface TransferLimits {
+  bytesPerSecond: number;
+  perHostConcurrency: number;
+}
+
+const UNLIMITED: TransferLimits = { bytesPerSecond: 0, perHostConcurrency: 0 };
+
+const RATE_UNITS: Record<string, number> = {
+  '': 1,
+  k: 1024,
+  m: 1024 * 1024,
+  g: 1024 * 1024 * 1024,
+};
+
+/**
+ * 속도 문자열을 초당 바이트로 변환
+ *
+ * curl `--limit-rate`와 같이 K/M/G 접미사(1024 단위)를 받으며 `5MB`, `5M/s`도 허용한다.
+ */
+export function parseRate(value: string | number): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`잘못된 대역폭 제한입니다: ${value}`);
+    }
+    return Math.floor(value);
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)(?:i?b)?(?:\/s)?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`잘못된 대역폭 제한입니다: ${value} (예: 500K, 5M, 1G)`);
+  }
+  return Math.floor(parseFloat(match[1]) * RATE_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * 초당 바이트를 표시용 문자열로 변환 (예: 5 MB/s)
+ */
+export function formatRate(bytesPerSecond: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytesPerSecond;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${parseFloat(value.toFixed(2))} ${units[unitIndex]}/s`;
+}
+
+/**
+ * 설정값을 검증해 전송 제한으로 변환
+ */
+export function resolveTransferLimits(settings: TransferLimitSettings = {}): TransferLimits {
+  const rawRate = typeof settings.limitRate === 'string' ? settings.limitRate.trim() : settings.limitRate;
+  const bytesPerSecond = rawRate ? parseRate(rawRate) : 0;
+
+  const rawPerHost = typeof settings.perHostConcurrency === 'string'
+    ? settings.perHostConcurrency.trim()
+    : settings.perHostConcurrency;
+  const perHostConcurrency = rawPerHost ? Number(rawPerHost) : 0;
+  if (!Number.isInteger(perHostConcurrency) || perHostConcurrency < 0) {
+    throw new Error(`잘못된 호스트별 동시 연결 수입니다: ${settings.perHostConcurrency} (0 이상의 정수)`);
+  }
+
+  return { bytesPerSecond, perHostConcurrency };
+}
+
+/**
+ * 진행 화면에 표시할 제한 설명 (제한이 없으면 null)
+ */
+export function describeTransferLimits(limits: TransferLimits): string | null {
+  const parts: string[] = [];
+  if (limits.bytesPerSecond > 0) {
+    parts.push(`최대 ${formatRate(limits.bytesPerSecond)}`);
+  }
+  if (limits.perHostConcurrency > 0) {
+    parts.push(`호스트당 ${limits.perHostConcurrency}개 연결`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+interface HostSlots {
+  active: number;
+  waiters: Array<() => void>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class TransferLimiter {
+  private limits: TransferLimits = UNLIMITED;
+  /** 다음 바이트를 보낼 수 있는 시각 (모든 스트림이 공유하는 토큰 버킷) */
+  private nextSendTime = 0;
+  private hosts = new Map<string, HostSlots>();
+
+  /**
+   * 제한 변경 (진행 중인 다운로드에도 다음 청크부터 적용)
+   */
+  configure(limits: TransferLimits): void {
+    this.limits = limits;
+    this.nextSendTime = 0;
+    // 호스트별 제한이 늘거나 해제되면 대기 중인 요청을 그만큼 깨운다
+    for (const [host, slots] of this.hosts) {
+      this.drain(host, slots);
+    }
+  }
+
+  getLimits(): TransferLimits {
+    return this.limits;
+  }
+
+  /**
+   * 받은 바이트만큼 속도 제한 대기
+   */
+  async consume(bytes: number): Promise<void> {
+    const { bytesPerSecond } = this.limits;
+    if (bytesPerSecond <= 0 || bytes <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const startTime = Math.max(this.nextSendTime, now);
+    this.nextSendTime = startTime + (bytes / bytesPerSecond) * 1000;
+    const delay = this.nextSendTime - now;
+    if (delay > 0) {
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * 응답 스트림과 파일 사이에 끼워 속도를 제한하는 Transform
+   *
+   * 제한 대기 중에는 다음 청크를 읽지 않으므로 TCP 수신 속도도 함께 줄어든다.
+   */
+  createThrottleStream(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        this.consume(chunk.length).then(() => callback(null, chunk), callback);
+      },
+    });
+  }
+
+  /**
+   * 대상 URL 호스트의 연결 슬롯 획득 (반환한 함수로 해제)
+   */
+  async acquireHost(url: string): Promise<() => void> {
+    const host = new URL(url).host.toLowerCase();
+    let slots = this.hosts.get(host);
+    if (!slots) {
+      slots = { active: 0, waiters: [] };
+      this.hosts.set(host, slots);
+    }
+
+    const limit = this.limits.perHostConcurrency;
+    if (limit > 0 && slots.active >= limit) {
+      await new Promise<void>((resolve) => slots.waiters.push(resolve));
+    } else {
+      slots.active++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      slots.active--;
+      this.drain(host, slots);
+    };
+  }
+
+  /**
+   * 호스트 슬롯을 잡은 채로 작업 실행
+   */
+  async withHostSlot<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const release = await this.acquireHost(url);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  private drain(host: string, slots: HostSlots): void {
+    const limit = this.limits.perHostConcurrency;
+    while (slots.waiters.length > 0 && (limit <= 0 || slots.active < limit)) {
+      slots.active++;
+      slots.waiters.shift()?.();
+    }
+    if (slots.active === 0 && slots.waiters.length === 0) {
+      this.hosts.delete(host);
+    }
+  }
+}
+
+// 싱글톤 인스턴스
+let transferLimiterInstance: TransferLimiter | null = null;
+
+export function getTransferLimiter(): TransferLimiter {
+  if (!transferLimiterInstance) {
+    transferLimiterInstance = new TransferLimiter();
+  }
+  return transferLimiterInstance;
+}
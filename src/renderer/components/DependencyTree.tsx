@@ -38,6 +38,9 @@ const typeColors: Record<PackageType, string> = {
   conda: '#44a833',
   maven: '#c71a36',
   npm: '#cb3837',
+  go: '#00add8',
+  cargo: '#dea584',
+  nuget: '#004880',
   yum: '#ff6600',
   apt: '#a80030',
   apk: '#0d597f',
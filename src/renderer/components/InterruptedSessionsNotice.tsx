@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Modal, Button, List, Typography, Space, message } from 'antd';
+import { HistoryOutlined, PlayCircleOutlined, DeleteOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { createPendingDownloadItems } from '../pages/download-page/utils';
+import { useDownloadStore } from '../stores/download-store';
+import type { PendingDownloadSource } from '../pages/download-page/types';
+import type { DownloadSessionSummary } from '../../types/electron';
+
+const { Text } = Typography;
+
+type SessionPackage = PendingDownloadSource & { architecture?: string };
+
+/**
+ * 앱 시작 시 중단된 다운로드 세션을 보여주고 재개/삭제를 선택받는다
+ */
+export function InterruptedSessionsNotice() {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<DownloadSessionSummary[]>([]);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const sessionsAPI = window.electronAPI?.download?.sessions;
+    if (!sessionsAPI) return;
+
+    sessionsAPI.list()
+      .then((list) => {
+        setSessions(list);
+        setVisible(list.length > 0);
+      })
+      .catch((error) => {
+        console.error('중단된 다운로드 세션 조회 실패:', error);
+      });
+  }, []);
+
+  // 재개: 세션의 패키지를 다운로드 목록에 올리고 다운로드 페이지로 이동
+  const handleResume = useCallback((session: DownloadSessionSummary) => {
+    const packages = session.packages as SessionPackage[];
+    const store = useDownloadStore.getState();
+    store.reset();
+    store.setItems(createPendingDownloadItems(
+      packages.map((pkg) => ({ ...pkg, arch: pkg.arch ?? pkg.architecture }))
+    ));
+    store.setOutputPath(session.outputDir);
+    store.setDepsResolved(true);
+    store.setResumeSessionId(session.id);
+    store.addLog(
+      'info',
+      '중단된 다운로드 세션 불러옴',
+      `${session.completedPackageIds.length}/${packages.length}개 완료 · 시작을 누르면 나머지를 이어받습니다`
+    );
+    setVisible(false);
+    navigate('/download');
+  }, [navigate]);
+
+  // 삭제: 세션 기록만 지우고 받은 파일은 출력 폴더에 그대로 둔다
+  const handleDiscard = useCallback(async (session: DownloadSessionSummary) => {
+    const result = await window.electronAPI.download.sessions?.discard(session.id);
+    if (!result?.success) {
+      message.error('세션 삭제 실패');
+      return;
+    }
+
+    const remaining = sessions.filter((candidate) => candidate.id !== session.id);
+    setSessions(remaining);
+    setVisible(remaining.length > 0);
+  }, [sessions]);
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <HistoryOutlined style={{ color: '#1890ff' }} />
+          <span>중단된 다운로드</span>
+        </Space>
+      }
+      open={visible}
+      onCancel={() => setVisible(false)}
+      footer={null}
+    >
+      <List
+        dataSource={sessions}
+        renderItem={(session) => (
+          <List.Item
+            actions={[
+              <Button
+                key="resume"
+                type="primary"
+                size="small"
+                icon={<PlayCircleOutlined />}
+                onClick={() => handleResume(session)}
+              >
+                재개
+              </Button>,
+              <Button
+                key="discard"
+                danger
+                size="small"
+                icon={<DeleteOutlined />}
+                onClick={() => handleDiscard(session)}
+              >
+                삭제
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              title={`패키지 ${session.packages.length}개 (완료 ${session.completedPackageIds.length}개)`}
+              description={
+                <Space direction="vertical" size={0}>
+                  <Text type="secondary" style={{ fontSize: 12 }}>{session.outputDir}</Text>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {new Date(session.updatedAt).toLocaleString('ko-KR')}
+                  </Text>
+                </Space>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Modal>
+  );
+}
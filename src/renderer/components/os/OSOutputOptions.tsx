@@ -10,6 +10,7 @@ import type {
   ArchiveFormat,
   ScriptType,
   OSPackageManager,
+  InstalledBaselinePreset,
 } from '../../../core/downloaders/os-shared/types';
 
 interface OSOutputOptionsProps {
@@ -54,6 +55,21 @@ const SCRIPT_TYPE_OPTIONS: Array<{ value: ScriptType; label: string; description
   },
 ];
 
+type BaselineMode = 'none' | InstalledBaselinePreset | 'file';
+
+const BASELINE_OPTIONS: Array<{ value: BaselineMode; label: string }> = [
+  { value: 'none', label: '사용 안 함' },
+  { value: 'minimal', label: '최소 설치 (minimal)' },
+  { value: 'server', label: '서버 설치 (server)' },
+  { value: 'file', label: '설치 목록 파일' },
+];
+
+const BASELINE_COMMANDS: Record<OSPackageManager, string> = {
+  yum: 'rpm -qa',
+  apt: 'dpkg-query -W',
+  apk: 'cat /lib/apk/db/installed',
+};
+
 export const OSOutputOptions: React.FC<OSOutputOptionsProps> = ({
   value,
   onChange,
@@ -113,6 +129,45 @@ export const OSOutputOptions: React.FC<OSOutputOptionsProps> = ({
     });
   };
 
+  const handleSignRepositoryChange = (signRepository: boolean) => {
+    onChange({
+      ...value,
+      signRepository,
+    });
+  };
+
+  const baselineMode: BaselineMode = value.installedBaseline?.preset
+    ?? (value.installedBaseline ? 'file' : 'none');
+
+  const handleBaselineModeChange = (mode: BaselineMode) => {
+    onChange({
+      ...value,
+      installedBaseline: mode === 'none'
+        ? undefined
+        : mode === 'file'
+          ? { fileName: value.installedBaseline?.fileName, content: value.installedBaseline?.content }
+          : { preset: mode },
+    });
+  };
+
+  // 설치 목록 파일은 내용째 옵션에 담아 메인 프로세스에서 파싱
+  const handleBaselineFileChange = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      onChange({
+        ...value,
+        installedBaseline: {
+          fileName: file.name,
+          content: e.target?.result as string,
+        },
+      });
+    };
+    reader.readAsText(file);
+  };
+
   const handleScriptTypeToggle = (scriptType: ScriptType) => {
     if (requiresLocalRepoScript && scriptType === 'local-repo') {
       return;
@@ -196,6 +251,59 @@ export const OSOutputOptions: React.FC<OSOutputOptionsProps> = ({
         </div>
       )}
 
+      {/* 저장소 서명 */}
+      {requiresLocalRepoScript && (
+        <div className="option-group">
+          <div className="switch-row">
+            <label className="option-label">저장소 메타데이터 서명</label>
+            <label className="switch">
+              <input
+                type="checkbox"
+                checked={Boolean(value.signRepository)}
+                onChange={(e) => handleSignRepositoryChange(e.target.checked)}
+              />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <p className="option-hint">
+            번들 전용 키로 저장소 메타데이터에 서명하고 공개키를 함께 넣습니다.
+            설정 스크립트는 서명 검증을 끄는 대신 이 키를 등록합니다.
+          </p>
+        </div>
+      )}
+
+      {/* 설치 기준선 */}
+      <div className="option-group">
+        <label className="option-label">설치 기준선</label>
+        <select
+          className="baseline-select"
+          value={baselineMode}
+          onChange={(e) => handleBaselineModeChange(e.target.value as BaselineMode)}
+        >
+          {BASELINE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {baselineMode === 'file' && (
+          <div className="baseline-file">
+            <input
+              type="file"
+              accept=".txt,.list,installed"
+              onChange={(e) => handleBaselineFileChange(e.target.files?.[0])}
+            />
+            {value.installedBaseline?.fileName && (
+              <span className="baseline-file-name">{value.installedBaseline.fileName}</span>
+            )}
+          </div>
+        )}
+        <p className="option-hint">
+          대상 호스트에 이미 설치된 패키지로 충족되는 의존성은 다운로드하지 않습니다.
+          {packageManager && ` 설치 목록은 대상 호스트에서 ${BASELINE_COMMANDS[packageManager]} 출력을 저장해 사용하세요.`}
+        </p>
+      </div>
+
       {/* 스크립트 포함 여부 */}
       <div className="option-group">
         <div className="switch-row">
@@ -381,6 +489,27 @@ export const OSOutputOptions: React.FC<OSOutputOptionsProps> = ({
           color: #fff;
         }
 
+        /* 설치 기준선 */
+        .baseline-select {
+          padding: 8px 12px;
+          border: 1px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: #fff;
+        }
+
+        .baseline-file {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-top: 10px;
+        }
+
+        .baseline-file-name {
+          font-size: 13px;
+          color: #666;
+        }
+
         /* 스위치 */
         .switch-row {
           display: flex;
@@ -11,6 +11,12 @@ export interface OSPackageOutputOptions {
   archiveFormat?: 'zip' | 'tar.gz';
   generateScripts: boolean;
   scriptTypes: Array<'dependency-order' | 'local-repo'>;
+  signRepository?: boolean;
+  installedBaseline?: {
+    preset?: 'minimal' | 'server';
+    fileName?: string;
+    content?: string;
+  };
 }
 
 export type ElectronAPI = PreloadElectronAPI;
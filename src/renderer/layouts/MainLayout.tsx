@@ -9,6 +9,7 @@ import {
   HistoryOutlined,
   SettingOutlined,
 } from '@ant-design/icons';
+import { InterruptedSessionsNotice } from '../components/InterruptedSessionsNotice';
 import { useCartStore } from '../stores/cart-store';
 
 const { Header, Sider, Content, Footer } = Layout;
@@ -120,6 +121,7 @@ const MainLayout: React.FC = () => {
           DepsSmuggler ©{new Date().getFullYear()} - MIT License
         </Footer>
       </Layout>
+      <InterruptedSessionsNotice />
     </Layout>
   );
 };
@@ -20,6 +20,7 @@ export interface RendererOSSearchRequest {
   query: string;
   distribution: RendererOSSearchDistribution;
   architecture: string;
+  moduleStreams?: string[];
   matchType?: string;
   limit?: number;
 }
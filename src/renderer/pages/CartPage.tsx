@@ -42,6 +42,16 @@ import { getRendererDataClient } from '../lib/renderer-data-client';
 import { DependencyResolutionResult, DependencyNode, PackageType as CorePackageType } from '../../types';
 import type { DependencyAPI } from '../../types/electron';
 import { getPackageArtifactKey } from '../../core/shared/dependency-tree-utils';
+import {
+  detectNpmLockfileFormat,
+  isNpmLockedPackage,
+  parseNpmLockfile,
+  toNpmLockedPackageInfo,
+} from '../../core/shared/npm-lockfile';
+import { detectMavenProjectFileFormat, isMavenProjectPackage } from '../../core/shared/maven-project-file';
+import { isGoModFile, isGoProjectPackage } from '../../core/shared/go-module-utils';
+import { detectCargoProjectFileFormat, isCargoProjectPackage } from '../../core/shared/cargo-utils';
+import { getLibraryTargetOptions } from './download-delivery-utils';
 
 const { Title, Text, Paragraph } = Typography;
 const { TextArea } = Input;
@@ -53,6 +63,9 @@ const typeColors: Record<PackageType, string> = {
   conda: 'green',
   maven: 'orange',
   npm: 'red',
+  go: 'lime',
+  cargo: 'volcano',
+  nuget: 'gold',
   yum: 'purple',
   apt: 'cyan',
   apk: 'magenta',
@@ -67,12 +80,22 @@ const estimatedSizePerPackage: Record<PackageType, number> = {
   conda: 5.0,
   maven: 3.0,
   npm: 1.5,
+  go: 1.0,
+  cargo: 0.5,
+  nuget: 1.0,
   yum: 10.0,
   apt: 8.0,
   apk: 4.0,
   docker: 150.0,
 };
 
+// 파일에서 파싱한 패키지 (잠금 파일 항목은 metadata에 resolved URL/integrity 포함)
+interface ParsedPackage {
+  name: string;
+  version: string;
+  metadata?: Record<string, unknown>;
+}
+
 const CartPage: React.FC = () => {
   const navigate = useNavigate();
   const { items, removeItem, clearCart, addItem } = useCartStore();
@@ -126,6 +149,13 @@ const CartPage: React.FC = () => {
         name: item.name,
         version: item.version,
         architecture: item.arch,
+        // 잠금 파일/프로젝트 파일 항목은 이미 해결된 패키지이므로 다시 해결하지 않도록 metadata 전달
+        ...(isNpmLockedPackage(item) ||
+        isMavenProjectPackage(item) ||
+        isGoProjectPackage(item) ||
+        isCargoProjectPackage(item)
+          ? { metadata: item.metadata }
+          : {}),
       }));
 
       let result: {
@@ -136,9 +166,7 @@ const CartPage: React.FC = () => {
       };
 
       // Electron IPC 사용 (개발/프로덕션 모두)
-      const resolverOptions = {
-        targetOS: settings.defaultTargetOS || 'any',
-      };
+      const resolverOptions = getLibraryTargetOptions(settings.defaultTargetOS || 'any', settings.pipTargetPlatform);
 
       const dependencyAPI = window.electronAPI?.dependency as DependencyAPI | undefined;
       if (!dependencyAPI?.resolve) {
@@ -258,7 +286,7 @@ const CartPage: React.FC = () => {
     } finally {
       setLoadingDeps(false);
     }
-  }, [items, itemsHash, estimatedSize, settings.defaultTargetOS, dependencyData, lastDepsHash]);
+  }, [items, itemsHash, estimatedSize, settings.defaultTargetOS, settings.pipTargetPlatform, dependencyData, lastDepsHash]);
 
   // 의존성 트리 보기 핸들러
   const handleShowDependencyTree = useCallback(async () => {
@@ -289,7 +317,7 @@ const CartPage: React.FC = () => {
   const draggerProps: UploadProps = {
     name: 'file',
     multiple: true,
-    accept: '.txt,.xml,.json',
+    accept: '.txt,.xml,.pom,.json,.lock,.lockfile,.yaml,.yml,.mod,.toml',
     beforeUpload: handleFileUpload,
     showUploadList: false,
   };
@@ -297,9 +325,26 @@ const CartPage: React.FC = () => {
   // 패키지 파일 파싱
   const parsePackageFile = async (filename: string, content: string) => {
     let type: PackageType = 'pip';
-    let packages: { name: string; version: string }[] = [];
+    let packages: ParsedPackage[] = [];
+    const lockfileFormat = detectNpmLockfileFormat(filename);
 
-    if (filename === 'requirements.txt' || filename.endsWith('.txt')) {
+    if (lockfileFormat) {
+      // 잠금 파일은 해결된 트리 그대로 (resolved URL, integrity 보존)
+      type = 'npm';
+      packages = parseNpmLockfileContent(content, lockfileFormat);
+    } else if (detectMavenProjectFileFormat(filename)) {
+      // pom.xml / gradle.lockfile은 parent, BOM, exclusions까지 반영해 전이 의존성을 함께 가져온다
+      type = 'maven';
+      packages = await importMavenProjectFile(filename, content);
+    } else if (isGoModFile(filename)) {
+      // go.mod는 MVS로 빌드 목록 전체를 해결해 가져온다
+      type = 'go';
+      packages = await importResolvedProjectFile(filename, content, 'go.mod', 'Go 모듈 빌드 목록을 해결하는 중...');
+    } else if (detectCargoProjectFileFormat(filename)) {
+      // Cargo.lock은 잠긴 버전 그대로, Cargo.toml은 sparse 인덱스로 crate 그래프를 해결해 가져온다
+      type = 'cargo';
+      packages = await importResolvedProjectFile(filename, content, filename, 'crate 의존성을 해결하는 중...');
+    } else if (filename === 'requirements.txt' || filename.endsWith('.txt')) {
       type = 'pip';
       packages = parseRequirementsTxt(content);
     } else if (filename === 'pom.xml' || filename.endsWith('.xml')) {
@@ -344,6 +389,50 @@ const CartPage: React.FC = () => {
     return packages;
   };
 
+  // Maven 프로젝트 파일 가져오기 (의존성 해결 API를 쓸 수 없으면 pom.xml 직접 의존성만 파싱)
+  const importMavenProjectFile = async (filename: string, content: string): Promise<ParsedPackage[]> => {
+    const dependencyAPI = window.electronAPI?.dependency as DependencyAPI | undefined;
+    if (!dependencyAPI?.importProjectFile) {
+      return detectMavenProjectFileFormat(filename) === 'pom' ? parsePomXml(content) : [];
+    }
+
+    const hide = message.loading('프로젝트 의존성을 해결하는 중...', 0);
+    try {
+      const result = await dependencyAPI.importProjectFile(filename, content);
+      return result.packages;
+    } catch (error) {
+      message.error(`프로젝트 파일 가져오기 실패: ${(error as Error).message}`);
+      return [];
+    } finally {
+      hide();
+    }
+  };
+
+  // go.mod/Cargo.lock/Cargo.toml 가져오기 (의존성 해결 API가 필요)
+  const importResolvedProjectFile = async (
+    filename: string,
+    content: string,
+    label: string,
+    loadingMessage: string
+  ): Promise<ParsedPackage[]> => {
+    const dependencyAPI = window.electronAPI?.dependency as DependencyAPI | undefined;
+    if (!dependencyAPI?.importProjectFile) {
+      message.error(`${label} 가져오기는 데스크톱 앱에서만 지원됩니다`);
+      return [];
+    }
+
+    const hide = message.loading(loadingMessage, 0);
+    try {
+      const result = await dependencyAPI.importProjectFile(filename, content);
+      return result.packages;
+    } catch (error) {
+      message.error(`${label} 가져오기 실패: ${(error as Error).message}`);
+      return [];
+    } finally {
+      hide();
+    }
+  };
+
   // package.json 파싱
   const parsePackageJson = (content: string): { name: string; version: string }[] => {
     try {
@@ -359,6 +448,19 @@ const CartPage: React.FC = () => {
     }
   };
 
+  // npm 잠금 파일 파싱
+  const parseNpmLockfileContent = (
+    content: string,
+    format: NonNullable<ReturnType<typeof detectNpmLockfileFormat>>
+  ): ParsedPackage[] => {
+    try {
+      return parseNpmLockfile(content, format).map((pkg) => toNpmLockedPackageInfo(pkg, format));
+    } catch {
+      message.error('잠금 파일 파싱 실패');
+      return [];
+    }
+  };
+
   // 패키지 최신 버전 조회
   const fetchLatestVersion = async (type: PackageType, packageName: string): Promise<string | null> => {
     try {
@@ -370,7 +472,7 @@ const CartPage: React.FC = () => {
   };
 
   // 파싱된 패키지 추가
-  const addParsedPackages = async (type: PackageType, packages: { name: string; version: string }[]) => {
+  const addParsedPackages = async (type: PackageType, packages: ParsedPackage[]) => {
     if (packages.length === 0) {
       message.warning('파싱된 패키지가 없습니다');
       return;
@@ -397,6 +499,7 @@ const CartPage: React.FC = () => {
           type,
           name: pkg.name,
           version: pkg.version,
+          ...(pkg.metadata ? { metadata: pkg.metadata } : {}),
         });
         addedCount++;
       }
@@ -417,7 +520,7 @@ const CartPage: React.FC = () => {
     }
 
     let type: PackageType;
-    let packages: { name: string; version: string }[] = [];
+    let packages: ParsedPackage[] = [];
 
     switch (textInputType) {
       case 'requirements':
@@ -426,7 +529,7 @@ const CartPage: React.FC = () => {
         break;
       case 'pom':
         type = 'maven';
-        packages = parsePomXml(textInputValue);
+        packages = await importMavenProjectFile('pom.xml', textInputValue);
         break;
       case 'package':
         type = 'npm';
@@ -707,7 +810,7 @@ flask~=2.0.0`}
                 패키지 파일을 드래그하여 놓거나 클릭하여 업로드하세요
               </p>
               <p className="ant-upload-hint">
-                requirements.txt, pom.xml, package.json 파일 지원
+                requirements.txt, pom.xml, package.json, package-lock.json, yarn.lock, pnpm-lock.yaml, go.mod, Cargo.lock, Cargo.toml 파일 지원
               </p>
             </Dragger>
 
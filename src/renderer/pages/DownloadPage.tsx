@@ -22,6 +22,7 @@ function DownloadPage() {
         historyOSOutputOptions={controller.osFlow.historyOSOutputOptions}
         osDownloading={controller.osFlow.osDownloading}
         isOSPackaging={controller.osFlow.isOSPackaging}
+        transferLimitLabel={controller.transferLimitLabel}
         onCancelOSDownload={controller.osFlow.handleCancelOSDownload}
         onStartOSDownload={controller.osFlow.handleStartOSDownload}
         onOpenFolder={controller.handleOpenFolder}
@@ -94,6 +95,7 @@ function DownloadPage() {
       packagingProgress={controller.packagingProgress}
       totalSpeed={controller.totalSpeed}
       remainingTime={controller.remainingTime}
+      transferLimitLabel={controller.transferLimitLabel}
       includeDependencies={controller.includeDependencies}
       depsResolved={controller.depsResolved}
       isResolvingDeps={controller.isResolvingDeps}
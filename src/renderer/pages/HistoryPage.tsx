@@ -42,6 +42,9 @@ const typeColors: Record<PackageType, string> = {
   conda: 'green',
   maven: 'orange',
   npm: 'red',
+  go: 'lime',
+  cargo: 'volcano',
+  nuget: 'gold',
   yum: 'purple',
   apt: 'cyan',
   apk: 'magenta',
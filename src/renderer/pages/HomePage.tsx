@@ -34,6 +34,9 @@ const packageCategories: PackageCategory[] = [
       { type: 'conda', label: 'conda', description: 'Python/R (Anaconda)', color: '#44a833' },
       { type: 'maven', label: 'Maven', description: 'Java 라이브러리', color: '#c71a36' },
       { type: 'npm', label: 'npm', description: 'Node.js 패키지', color: '#cb3837' },
+      { type: 'go', label: 'Go', description: 'Go 모듈', color: '#00add8' },
+      { type: 'cargo', label: 'Cargo', description: 'Rust crate', color: '#dea584' },
+      { type: 'nuget', label: 'NuGet', description: '.NET 패키지', color: '#004880' },
     ],
   },
   {
@@ -32,6 +32,9 @@ import { useSearchParams } from 'react-router-dom';
 import { useSettingsStore } from '../stores/settings-store';
 import { CacheSettingsSection } from './settings/CacheSettingsSection';
 import { DeliverySettingsSection } from './settings/DeliverySettingsSection';
+import { NetworkSettingsSection } from './settings/NetworkSettingsSection';
+import { RegistryCredentialSettingsSection } from './settings/RegistryCredentialSettingsSection';
+import { RegistryMirrorSettingsSection } from './settings/RegistryMirrorSettingsSection';
 import {
   SETTINGS_CARD_BODY_PADDING,
   SETTINGS_CARD_MARGIN,
@@ -52,6 +55,9 @@ import type { OSDistribution } from '../global';
 
 const { Title, Text } = Typography;
 
+// NuGet 의존성 그룹 선택에 쓰는 대상 프레임워크 (TFM)
+const DOTNET_TARGET_FRAMEWORKS = ['net9.0', 'net8.0', 'net6.0', 'netstandard2.1', 'netstandard2.0', 'net48', 'net472'];
+
 const SettingsPage: React.FC = () => {
   const {
     concurrentDownloads,
@@ -59,6 +65,8 @@ const SettingsPage: React.FC = () => {
     cachePath,
     includeDependencies,
     defaultDownloadPath,
+    limitRate,
+    perHostConcurrency,
     defaultOutputFormat,
     includeInstallScripts,
     enableFileSplit,
@@ -69,6 +77,14 @@ const SettingsPage: React.FC = () => {
     smtpPassword,
     smtpFrom,
     smtpTo,
+    httpProxy,
+    httpsProxy,
+    noProxy,
+    proxyUsername,
+    proxyPassword,
+    caBundlePath,
+    registryMirrors,
+    registryCredentials,
     languageVersions,
     defaultTargetOS,
     defaultArchitecture,
@@ -83,6 +99,8 @@ const SettingsPage: React.FC = () => {
     dockerArchitecture,
     dockerLayerCompression,
     dockerIncludeLoadScript,
+    dockerOutputFormat,
+    dockerBundlePlatforms,
     autoUpdate,
     autoDownloadUpdate,
     downloadRenderInterval,
@@ -105,6 +123,7 @@ const SettingsPage: React.FC = () => {
     conda: ['python-settings', 'library-env'],
     maven: [],
     npm: [],
+    nuget: ['dotnet-settings'],
     yum: ['os-distribution'],
     apt: ['os-distribution'],
     apk: ['os-distribution'],
@@ -139,6 +158,8 @@ const SettingsPage: React.FC = () => {
     cachePath,
     includeDependencies,
     defaultDownloadPath,
+    limitRate,
+    perHostConcurrency,
     defaultOutputFormat,
     includeInstallScripts,
     enableFileSplit,
@@ -149,6 +170,14 @@ const SettingsPage: React.FC = () => {
     smtpPassword,
     smtpFrom,
     smtpTo,
+    httpProxy,
+    httpsProxy,
+    noProxy,
+    proxyUsername,
+    proxyPassword,
+    caBundlePath,
+    registryMirrors,
+    registryCredentials,
     languageVersions,
     defaultTargetOS,
     defaultArchitecture,
@@ -161,6 +190,8 @@ const SettingsPage: React.FC = () => {
     dockerArchitecture,
     dockerLayerCompression,
     dockerIncludeLoadScript,
+    dockerOutputFormat,
+    dockerBundlePlatforms,
     autoUpdate,
     autoDownloadUpdate,
     downloadRenderInterval,
@@ -559,6 +590,29 @@ const SettingsPage: React.FC = () => {
               </Form.Item>
             </Col>
           </Row>
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="limitRate"
+                label="대역폭 제한"
+                tooltip="모든 다운로드를 합친 초당 최대 전송량 (K/M/G 단위, 비우면 무제한)"
+                rules={[{ pattern: /^\s*(\d+(\.\d+)?\s*[kmg]?(i?b)?(\/s)?)?\s*$/i, message: '예: 500K, 5M, 1G' }]}
+                style={{ marginBottom: 8 }}
+              >
+                <Input placeholder="무제한 (예: 5M)" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item
+                name="perHostConcurrency"
+                label="호스트당 동시 연결"
+                tooltip="같은 저장소/레지스트리에 동시에 여는 최대 연결 수 (0이면 무제한)"
+                style={{ marginBottom: 8 }}
+              >
+                <InputNumber min={0} max={10} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+          </Row>
         </Card>
 
         <DeliverySettingsSection
@@ -570,6 +624,15 @@ const SettingsPage: React.FC = () => {
           testingSmtp={testingSmtp}
         />
 
+        <NetworkSettingsSection />
+
+        <RegistryMirrorSettingsSection />
+
+        <RegistryCredentialSettingsSection
+          customPipIndexUrls={customPipIndexUrls}
+          onAddPipIndexUrl={addCustomPipIndexUrl}
+        />
+
         {/* Python 버전 설정 */}
         <div
           id="python-settings"
@@ -689,6 +752,42 @@ const SettingsPage: React.FC = () => {
         </Card>
         </div>
 
+        {/* .NET 대상 프레임워크 설정 */}
+        <div
+          id="dotnet-settings"
+          ref={highlightType && highlightSections[highlightType]?.includes('dotnet-settings') ? highlightedRef : undefined}
+        >
+        <Card
+          title={
+            <Space>
+              <span>.NET 설정</span>
+              <Tag color="gold">nuget</Tag>
+              <Tooltip title="NuGet 패키지는 대상 프레임워크(TFM)별로 의존성 그룹이 다릅니다. 폐쇄망 프로젝트의 TargetFramework와 같은 값을 선택하세요.">
+                <InfoCircleOutlined style={{ color: '#999' }} />
+              </Tooltip>
+            </Space>
+          }
+          size="small"
+          style={getCardStyle('dotnet-settings')}
+          styles={{ body: { padding: SETTINGS_CARD_BODY_PADDING } }}
+        >
+          <Form.Item
+            name={['languageVersions', 'dotnet']}
+            label="대상 프레임워크"
+            tooltip="NuGet 의존성 해결 시 .nuspec의 의존성 그룹 선택에 사용"
+            style={{ marginBottom: 0 }}
+          >
+            <Select size="small">
+              {DOTNET_TARGET_FRAMEWORKS.map((tfm) => (
+                <Select.Option key={tfm} value={tfm}>
+                  {tfm}
+                </Select.Option>
+              ))}
+            </Select>
+          </Form.Item>
+        </Card>
+        </div>
+
         {/* 라이브러리 대상 환경 설정 */}
         <div
           id="library-env"
@@ -775,13 +874,54 @@ const SettingsPage: React.FC = () => {
           </Form.Item>
 
           {/* Linux 전용 설정 */}
-          <Form.Item noStyle shouldUpdate={(prev, curr) => prev.pipTargetPlatform?.os !== curr.pipTargetPlatform?.os}>
+          <Form.Item
+            noStyle
+            shouldUpdate={(prev, curr) =>
+              prev.pipTargetPlatform?.os !== curr.pipTargetPlatform?.os ||
+              prev.pipTargetPlatform?.libc !== curr.pipTargetPlatform?.libc
+            }
+          >
             {({ getFieldValue }) => {
               const pipOs = getFieldValue(['pipTargetPlatform', 'os']);
+              const pipLibc = getFieldValue(['pipTargetPlatform', 'libc']) || 'glibc';
 
               if (pipOs === 'linux') {
+                const libcSelect = (
+                  <Form.Item
+                    name={['pipTargetPlatform', 'libc']}
+                    label="C 라이브러리"
+                    tooltip="Alpine 등 musl 기반 배포판은 musllinux wheel을 사용합니다"
+                    style={{ marginBottom: 8 }}
+                  >
+                    <Select size="small">
+                      <Select.Option value="glibc">glibc (manylinux)</Select.Option>
+                      <Select.Option value="musl">musl (musllinux, Alpine)</Select.Option>
+                    </Select>
+                  </Form.Item>
+                );
+
+                if (pipLibc === 'musl') {
+                  return (
+                    <>
+                      {libcSelect}
+                      <Form.Item
+                        name={['pipTargetPlatform', 'muslVersion']}
+                        label="musl 버전"
+                        tooltip="wheel 파일의 musllinux 태그와 매칭됩니다."
+                        style={{ marginBottom: 8 }}
+                      >
+                        <Select size="small">
+                          <Select.Option value="1.1">1.1 (musllinux_1_1, Alpine 3.12~3.16)</Select.Option>
+                          <Select.Option value="1.2">1.2 (musllinux_1_2, Alpine 3.17+)</Select.Option>
+                        </Select>
+                      </Form.Item>
+                    </>
+                  );
+                }
+
                 return (
                   <>
+                    {libcSelect}
                     <Form.Item
                       name={['pipTargetPlatform', 'linuxDistro']}
                       label="Linux 배포판"
@@ -1075,6 +1215,26 @@ const SettingsPage: React.FC = () => {
               </Form.Item>
             </Col>
           </Row>
+          <Form.Item
+            name="yumModuleStreams"
+            style={{ marginBottom: 8 }}
+            rules={[
+              {
+                // 앱은 장바구니 패키지만 받으므로 프로필(name:stream/profile)은 CLI에서만 지원한다
+                validator: (_, value?: string[]) =>
+                  (value ?? []).every((stream) => /^[^:/\s]+:[^:/\s]+$/.test(stream.trim()))
+                    ? Promise.resolve()
+                    : Promise.reject(new Error('모듈 스트림은 name:stream 형식입니다 (프로필은 CLI의 --module에서만 지정할 수 있습니다)')),
+              },
+            ]}
+          >
+            <Select
+              mode="tags"
+              size="small"
+              placeholder="비워 두면 기본 모듈 스트림을 사용합니다 (예: nodejs:20, postgresql:15)"
+              tokenSeparators={[',']}
+            />
+          </Form.Item>
 
           {/* APT */}
           <Text type="secondary" style={{ fontSize: 12 }}>APT (Debian/Ubuntu)</Text>
@@ -1189,6 +1349,51 @@ const SettingsPage: React.FC = () => {
               </Form.Item>
             </Col>
           </Row>
+          <Row gutter={16}>
+            <Col span={16}>
+              <Form.Item
+                name="dockerOutputFormat"
+                label="이미지 출력 형식"
+                tooltip="OCI 레이아웃은 skopeo, containerd, Podman에서 oci: 전송으로 사용할 수 있습니다"
+                style={{ marginBottom: 8 }}
+              >
+                <Select size="small">
+                  <Select.Option value="docker-archive">docker load (tar)</Select.Option>
+                  <Select.Option value="oci-layout">OCI 이미지 레이아웃</Select.Option>
+                </Select>
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item
+            noStyle
+            shouldUpdate={(prev, curr) => prev.dockerOutputFormat !== curr.dockerOutputFormat}
+          >
+            {({ getFieldValue }) => (
+              <Row gutter={16}>
+                <Col span={16}>
+                  <Form.Item
+                    name="dockerBundlePlatforms"
+                    label="멀티 아키텍처 번들"
+                    tooltip="선택한 플랫폼을 원본 매니페스트 리스트와 함께 하나의 OCI 레이아웃에 담습니다. 비워두면 단일 아키텍처로 다운로드합니다"
+                    style={{ marginBottom: 8 }}
+                  >
+                    <Select
+                      size="small"
+                      mode="multiple"
+                      allowClear
+                      placeholder="단일 아키텍처"
+                      disabled={getFieldValue('dockerOutputFormat') !== 'oci-layout'}
+                    >
+                      <Select.Option value="amd64">amd64</Select.Option>
+                      <Select.Option value="arm64">arm64</Select.Option>
+                      <Select.Option value="arm/v7">arm/v7</Select.Option>
+                      <Select.Option value="386">386</Select.Option>
+                    </Select>
+                  </Form.Item>
+                </Col>
+              </Row>
+            )}
+          </Form.Item>
         </Card>
         </div>
 
@@ -51,9 +51,21 @@ import {
   type CategoryType,
   type OSCartContextSnapshot,
 } from './wizard-page/types';
+import { NUGET_CONSTANTS } from '../../core/constants/nuget';
+import { parsePythonDownloadTarget } from '../../core/shared/python-download-targets';
 
 const { Title, Text } = Typography;
 
+// pip/conda 멀티 타겟 프리셋
+const pythonTargetPresets = [
+  'linux/x86_64/3.9',
+  'linux/x86_64/3.11',
+  'linux/aarch64/3.11',
+  'linux-musl/x86_64/3.12',
+  'windows/x86_64/3.11',
+  'macos/aarch64/3.12',
+].map((value) => ({ value, label: value }));
+
 // 카테고리 옵션
 const categoryOptions: { value: CategoryType; label: string; icon: React.ReactNode; description: string }[] = [
   {
@@ -82,6 +94,9 @@ const packageTypeOptions: { value: PackageType; label: string; category: Categor
   { value: 'conda', label: 'conda', category: 'library', description: 'Python/R 패키지 (Anaconda)' },
   { value: 'maven', label: 'Maven', category: 'library', description: 'Java 라이브러리 및 플러그인' },
   { value: 'npm', label: 'npm', category: 'library', description: 'Node.js 패키지' },
+  { value: 'go', label: 'Go', category: 'library', description: 'Go 모듈 (GOPROXY)' },
+  { value: 'cargo', label: 'Cargo', category: 'library', description: 'Rust crate (crates.io)' },
+  { value: 'nuget', label: 'NuGet', category: 'library', description: '.NET 패키지 (nuget.org)' },
   { value: 'yum', label: 'YUM', category: 'os', description: 'RHEL/CentOS/Fedora 패키지' },
   { value: 'apt', label: 'APT', category: 'os', description: 'Ubuntu/Debian 패키지' },
   { value: 'apk', label: 'APK', category: 'os', description: 'Alpine Linux 패키지' },
@@ -143,7 +158,7 @@ const getLanguageKey = (type: PackageType): 'python' | 'java' | 'node' | null =>
 
 // 언어 버전 선택 단계 스킵 여부
 const shouldSkipLanguageVersion = (type: PackageType): boolean => {
-  return ['yum', 'apt', 'apk', 'docker'].includes(type);
+  return ['go', 'cargo', 'yum', 'apt', 'apk', 'docker'].includes(type);
 };
 
 // Docker 레지스트리 옵션
@@ -196,6 +211,7 @@ const WizardPage: React.FC = () => {
     condaChannel,
     customCondaChannels,
     pipTargetPlatform,
+    pythonDownloadTargets,
     cudaVersion,
     yumDistribution,
     aptDistribution,
@@ -208,8 +224,22 @@ const WizardPage: React.FC = () => {
     dockerIncludeLoadScript,
     customPipIndexUrls,
     addCustomPipIndexUrl,
+    updateSettings,
   } = useSettingsStore();
 
+  const handlePythonTargetsChange = (values: string[]) => {
+    const targets: string[] = [];
+    for (const value of values) {
+      try {
+        parsePythonDownloadTarget(value);
+        targets.push(value.trim());
+      } catch (error) {
+        message.warning(error instanceof Error ? error.message : String(error));
+      }
+    }
+    updateSettings({ pythonDownloadTargets: [...new Set(targets)] });
+  };
+
   // Docker 레지스트리 상태
   const [dockerRegistry, setDockerRegistry] = useState<DockerRegistry>(defaultDockerRegistry);
   const [customRegistryUrl, setCustomRegistryUrl] = useState(dockerCustomRegistry);
@@ -254,7 +284,7 @@ const WizardPage: React.FC = () => {
   React.useEffect(() => {
     const langKey = getLanguageKey(packageType);
     if (langKey && langKey in languageVersions) {
-      setLanguageVersion(languageVersions[langKey as keyof typeof languageVersions]);
+      setLanguageVersion(languageVersions[langKey as keyof typeof languageVersions] ?? '');
     } else {
       setLanguageVersion('');
     }
@@ -375,6 +405,10 @@ const WizardPage: React.FC = () => {
         ...(LIBRARY_PACKAGE_TYPES.includes(packageType) && { targetOS: defaultTargetOS }),
         // Docker 이미지 메타데이터
         ...dockerMetadata,
+        // NuGet은 대상 프레임워크별로 의존성이 달라 항목에 저장
+        ...(packageType === 'nuget' && {
+          targetFramework: languageVersions.dotnet || NUGET_CONSTANTS.DEFAULT_TARGET_FRAMEWORK,
+        }),
         // OS 패키지 전체 정보 (의존성 해결에 사용)
         ...(OS_PACKAGE_TYPES.includes(packageType) && selectedPackage.osPackageInfo && {
           osPackageInfo: selectedPackage.osPackageInfo,
@@ -555,6 +589,8 @@ const WizardPage: React.FC = () => {
                 const arch = pipTargetPlatform?.arch || 'x86_64';
                 const distro = pipTargetPlatform?.linuxDistro;
                 const glibc = pipTargetPlatform?.glibcVersion;
+                const isMusl = pipTargetPlatform?.libc === 'musl';
+                const muslVer = pipTargetPlatform?.muslVersion || '1.2';
                 const macosVer = pipTargetPlatform?.macosVersion;
 
                 return (
@@ -562,8 +598,9 @@ const WizardPage: React.FC = () => {
                     <Tag color="blue">Python {pythonVersion}</Tag>
                     <Tag color="green">{osLabels[os] || os}</Tag>
                     <Tag color="purple">{arch}</Tag>
-                    {os === 'linux' && glibc && <Tag color="orange">glibc {glibc}</Tag>}
-                    {os === 'linux' && distro && <Tag color="cyan">{distro}</Tag>}
+                    {os === 'linux' && isMusl && <Tag color="orange">musl {muslVer}</Tag>}
+                    {os === 'linux' && !isMusl && glibc && <Tag color="orange">glibc {glibc}</Tag>}
+                    {os === 'linux' && !isMusl && distro && <Tag color="cyan">{distro}</Tag>}
                     {os === 'macos' && macosVer && <Tag color="orange">macOS {macosVer}+</Tag>}
                     {cudaVersion && <Tag color="volcano">CUDA {cudaVersion}</Tag>}
                   </>
@@ -588,16 +625,26 @@ const WizardPage: React.FC = () => {
 
               case 'maven':
               case 'npm':
-                // maven, npm은 플랫폼 설정 없음
+              case 'go':
+              case 'cargo':
+                // maven, npm, go, cargo는 플랫폼 설정 없음
                 return (
                   <Tag color="default">플랫폼 독립적</Tag>
                 );
 
+              case 'nuget':
+                return (
+                  <Tag color="gold">{languageVersions.dotnet || NUGET_CONSTANTS.DEFAULT_TARGET_FRAMEWORK}</Tag>
+                );
+
               case 'yum':
                 return (
                   <>
                     <Tag color="red">{yumDistribution?.id || 'rocky-9'}</Tag>
                     <Tag color="purple">{yumDistribution?.architecture || 'x86_64'}</Tag>
+                    {yumDistribution?.moduleStreams?.map((stream) => (
+                      <Tag key={stream} color="magenta">{stream}</Tag>
+                    ))}
                   </>
                 );
 
@@ -712,6 +759,27 @@ const WizardPage: React.FC = () => {
             {/* 패키지 타입별 환경 설정 정보 바 */}
             {renderEnvironmentInfoBar()}
 
+            {/* pip/conda 멀티 타겟 선택 UI */}
+            {(packageType === 'pip' || packageType === 'conda') && (
+              <div style={{ marginBottom: 16 }}>
+                <Text strong style={{ display: 'block', marginBottom: 8 }}>대상 환경 (멀티 타겟)</Text>
+                <Select
+                  mode="tags"
+                  value={pythonDownloadTargets}
+                  onChange={handlePythonTargetsChange}
+                  options={pythonTargetPresets}
+                  placeholder="비워 두면 위 설정의 단일 대상으로 받습니다 (예: linux/x86_64/3.9)"
+                  style={{ width: '100%' }}
+                />
+                {pythonDownloadTargets.length > 0 && (
+                  <Text type="secondary" style={{ fontSize: 12, display: 'block', marginTop: 4 }}>
+                    대상마다 따로 해결한 뒤 같은 파일은 한 번만 받고, 대상별 설치 스크립트와 잠금 파일을
+                    targets/&lt;대상&gt;/에 만듭니다
+                  </Text>
+                )}
+              </div>
+            )}
+
             {/* Docker 타입일 때 레지스트리 선택 UI */}
             {packageType === 'docker' && (
               <div style={{ marginBottom: 16 }}>
@@ -852,6 +920,9 @@ const WizardPage: React.FC = () => {
                     case 'conda': return '패키지명을 입력하세요 (예: numpy, scipy, pytorch)';
                     case 'maven': return '아티팩트를 입력하세요 (예: org.springframework:spring-core)';
                     case 'npm': return '패키지명을 입력하세요 (예: lodash, express, react)';
+                    case 'go': return '모듈 경로를 입력하세요 (예: github.com/gin-gonic/gin, golang.org/x/text)';
+                    case 'cargo': return 'crate 이름을 입력하세요 (예: serde, tokio, reqwest)';
+                    case 'nuget': return '패키지 ID를 입력하세요 (예: Newtonsoft.Json, Serilog, Dapper)';
                     case 'yum': return '패키지명을 입력하세요 (예: httpd, nginx, vim)';
                     case 'apt': return '패키지명을 입력하세요 (예: nginx, curl, git)';
                     case 'apk': return '패키지명을 입력하세요 (예: nginx, curl, git)';
@@ -4,6 +4,7 @@ import {
   buildHistoryRestoreSettings,
   buildHistorySettings,
   getEmailDeliveryValidationError,
+  getLibraryTargetOptions,
 } from './download-delivery-utils';
 
 describe('download-delivery-utils', () => {
@@ -157,4 +158,87 @@ describe('download-delivery-utils', () => {
       smtp: undefined,
     });
   });
+
+  it('멀티 아키텍처 번들 플랫폼은 OCI 레이아웃일 때만 전달해야 함', () => {
+    const baseInput = {
+      outputDir: '/tmp/downloads',
+      outputFormat: 'zip' as const,
+      includeScripts: true,
+      includeDependencies: false,
+      concurrency: 1,
+      deliveryMethod: 'local' as const,
+      smtpTo: '',
+      smtpHost: '',
+      smtpPort: 587,
+      smtpUser: '',
+      smtpPassword: '',
+      smtpFrom: '',
+      fileSplitEnabled: false,
+      maxFileSizeMB: 10,
+      dockerBundlePlatforms: ['amd64', 'arm64'],
+    };
+
+    expect(
+      buildDownloadStartOptions({ ...baseInput, dockerOutputFormat: 'oci-layout' })
+    ).toMatchObject({
+      dockerOutputFormat: 'oci-layout',
+      dockerPlatforms: ['amd64', 'arm64'],
+    });
+    expect(
+      buildDownloadStartOptions({ ...baseInput, dockerOutputFormat: 'docker-archive' })
+    ).not.toHaveProperty('dockerPlatforms');
+  });
+
+  it('pip/conda 멀티 타겟은 지정했을 때만 전달해야 함', () => {
+    const baseInput = {
+      outputDir: '/tmp/downloads',
+      outputFormat: 'zip' as const,
+      includeScripts: true,
+      includeDependencies: true,
+      concurrency: 1,
+      deliveryMethod: 'local' as const,
+      smtpTo: '',
+      smtpHost: '',
+      smtpPort: 587,
+      smtpUser: '',
+      smtpPassword: '',
+      smtpFrom: '',
+      fileSplitEnabled: false,
+      maxFileSizeMB: 10,
+    };
+    const pythonTargets = [
+      { targetOS: 'linux' as const, architecture: 'x86_64' as const, pythonVersion: '3.9' },
+      { targetOS: 'windows' as const, architecture: 'x86_64' as const, pythonVersion: '3.11' },
+    ];
+
+    expect(buildDownloadStartOptions({ ...baseInput, pythonTargets })).toMatchObject({ pythonTargets });
+    expect(buildDownloadStartOptions({ ...baseInput, pythonTargets: [] })).not.toHaveProperty('pythonTargets');
+  });
+
+  it('pip 대상 libc가 musl이면 linux-musl과 musl 버전으로 해결/다운로드해야 함', () => {
+    const musl = { os: 'linux' as const, libc: 'musl' as const, muslVersion: '1.1' };
+
+    expect(getLibraryTargetOptions('linux', musl)).toEqual({ targetOS: 'linux-musl', muslVersion: '1.1' });
+    expect(getLibraryTargetOptions('linux', { os: 'linux', libc: 'glibc' })).toEqual({ targetOS: 'linux' });
+    expect(getLibraryTargetOptions('windows', musl)).toEqual({ targetOS: 'windows' });
+    expect(getLibraryTargetOptions('linux')).toEqual({ targetOS: 'linux' });
+
+    expect(buildDownloadStartOptions({
+      outputDir: '/tmp/downloads',
+      outputFormat: 'zip',
+      includeScripts: false,
+      includeDependencies: true,
+      concurrency: 1,
+      deliveryMethod: 'local',
+      smtpTo: '',
+      smtpHost: '',
+      smtpPort: 587,
+      smtpUser: '',
+      smtpPassword: '',
+      smtpFrom: '',
+      fileSplitEnabled: false,
+      maxFileSizeMB: 10,
+      ...getLibraryTargetOptions('linux', musl),
+    })).toMatchObject({ targetOS: 'linux-musl', muslVersion: '1.1' });
+  });
 });
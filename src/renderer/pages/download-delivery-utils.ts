@@ -1,5 +1,6 @@
 import type { OSPackageOutputOptions } from '../../core/downloaders/os-shared/types';
-import type { DeliveryMethod, HistorySettings } from '../../types';
+import type { DeliveryMethod, DockerOutputFormat, HistorySettings } from '../../types';
+import type { PipTargetPlatform } from '../../types/platform/pip-target-platform';
 import type { DownloadStartOptions } from '../../types/electron';
 
 export const EMAIL_DELIVERY_VALIDATION_MESSAGE =
@@ -41,6 +42,7 @@ interface BuildDownloadStartOptionsInput {
   architecture?: string;
   includeDependencies: boolean;
   pythonVersion?: string;
+  muslVersion?: string;
   concurrency: number;
   deliveryMethod: DeliveryMethod;
   smtpTo: string;
@@ -51,6 +53,9 @@ interface BuildDownloadStartOptionsInput {
   smtpFrom: string;
   fileSplitEnabled: boolean;
   maxFileSizeMB: number;
+  dockerOutputFormat?: DockerOutputFormat;
+  dockerBundlePlatforms?: string[];
+  pythonTargets?: DownloadStartOptions['pythonTargets'];
 }
 
 export function buildHistorySettings(input: BuildHistorySettingsInput): HistorySettings {
@@ -98,6 +103,26 @@ export function getEmailDeliveryValidationError(
   return null;
 }
 
+/**
+ * pip/conda 대상 OS 옵션
+ *
+ * 폐쇄망 OS가 Linux이고 pip 대상 libc가 musl이면 linux-musl과 musl 버전을 넘겨
+ * 의존성 해결과 다운로드 모두 musllinux 휠을 고르게 한다.
+ */
+export function getLibraryTargetOptions(
+  defaultTargetOS: string,
+  pipTargetPlatform?: Pick<PipTargetPlatform, 'os' | 'libc' | 'muslVersion'>
+): { targetOS: string; muslVersion?: string } {
+  if (defaultTargetOS === 'linux' && pipTargetPlatform?.os === 'linux' && pipTargetPlatform.libc === 'musl') {
+    return {
+      targetOS: 'linux-musl',
+      ...(pipTargetPlatform.muslVersion ? { muslVersion: pipTargetPlatform.muslVersion } : {}),
+    };
+  }
+
+  return { targetOS: defaultTargetOS };
+}
+
 export function buildDownloadStartOptions(
   input: BuildDownloadStartOptionsInput
 ): DownloadStartOptions {
@@ -111,6 +136,7 @@ export function buildDownloadStartOptions(
     architecture: input.architecture,
     includeDependencies: input.includeDependencies,
     pythonVersion: input.pythonVersion,
+    ...(input.muslVersion ? { muslVersion: input.muslVersion } : {}),
     concurrency: input.concurrency,
     deliveryMethod: input.deliveryMethod,
     email: input.deliveryMethod === 'email'
@@ -132,5 +158,10 @@ export function buildDownloadStartOptions(
           from: normalizedFrom,
         }
       : undefined,
+    ...(input.dockerOutputFormat ? { dockerOutputFormat: input.dockerOutputFormat } : {}),
+    ...(input.dockerOutputFormat === 'oci-layout' && input.dockerBundlePlatforms?.length
+      ? { dockerPlatforms: input.dockerBundlePlatforms }
+      : {}),
+    ...(input.pythonTargets?.length ? { pythonTargets: input.pythonTargets } : {}),
   };
 }
@@ -1,5 +1,5 @@
 import { FolderOpenOutlined, StopOutlined } from '@ant-design/icons';
-import { Alert, Button, Card, Input, Space, Typography } from 'antd';
+import { Alert, Button, Card, Input, Space, Tag, Typography } from 'antd';
 import { OSDownloadProgress, OSDownloadResult, OSPackageCart } from '../../../components/os';
 import type {
   OSPackageInfo,
@@ -23,6 +23,8 @@ interface DedicatedOSDownloadViewProps {
   historyOSOutputOptions?: OSPackageOutputOptions;
   osDownloading: boolean;
   isOSPackaging: boolean;
+  /** 적용 중인 전송 제한 (없으면 null) */
+  transferLimitLabel: string | null;
   onCancelOSDownload: () => void;
   onStartOSDownload: (outputOptions: OSPackageOutputOptions) => Promise<void>;
   onOpenFolder: () => Promise<void> | void;
@@ -43,6 +45,7 @@ export function DedicatedOSDownloadView({
   historyOSOutputOptions,
   osDownloading,
   isOSPackaging,
+  transferLimitLabel,
   onCancelOSDownload,
   onStartOSDownload,
   onOpenFolder,
@@ -110,7 +113,10 @@ export function DedicatedOSDownloadView({
             packageCount={osPackages.length}
             outputDir={outputDir}
           />
-          <div style={{ marginTop: 16, textAlign: 'right' }}>
+          <div style={{ marginTop: 16, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <span>
+              {transferLimitLabel && <Tag color="purple">전송 제한: {transferLimitLabel}</Tag>}
+            </span>
             <Button
               danger
               icon={<StopOutlined />}
@@ -52,6 +52,8 @@ interface DownloadStandardViewProps {
   packagingProgress: number;
   totalSpeed: number;
   remainingTime: string | null;
+  /** 적용 중인 전송 제한 (없으면 null) */
+  transferLimitLabel: string | null;
   includeDependencies: boolean;
   depsResolved: boolean;
   isResolvingDeps: boolean;
@@ -89,6 +91,7 @@ export function DownloadStandardView({
   packagingProgress,
   totalSpeed,
   remainingTime,
+  transferLimitLabel,
   includeDependencies,
   depsResolved,
   isResolvingDeps,
@@ -182,6 +185,7 @@ export function DownloadStandardView({
             {completedCount > 0 && <Tag color="green">{completedCount}개 완료</Tag>}
             {failedCount > 0 && <Tag color="red">{failedCount}개 실패</Tag>}
             {skippedCount > 0 && <Tag color="orange">{skippedCount}개 건너뜀</Tag>}
+            {transferLimitLabel && <Tag color="purple">전송 제한: {transferLimitLabel}</Tag>}
           </Space>
         }
         style={{ marginBottom: 24 }}
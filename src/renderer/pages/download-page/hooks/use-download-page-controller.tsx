@@ -1,6 +1,6 @@
 import { ExclamationCircleOutlined } from '@ant-design/icons';
 import { message, Modal } from 'antd';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useCartStore } from '../../../stores/cart-store';
 import {
@@ -10,14 +10,17 @@ import {
 } from '../../../stores/download-store';
 import { useHistoryStore } from '../../../stores/history-store';
 import { useSettingsStore } from '../../../stores/settings-store';
+import { parsePythonDownloadTargets } from '../../../../core/shared/python-download-targets';
 import {
   buildDownloadStartOptions,
   buildHistorySettings,
   getEmailDeliveryValidationError,
+  getLibraryTargetOptions,
 } from '../../download-delivery-utils';
 import {
   createPendingDownloadItems,
   formatBytes,
+  formatTransferLimitLabel,
   hasMatchingActiveCartSnapshot,
   persistHistoryAndMaybeClearCart,
 } from '../utils';
@@ -59,6 +62,7 @@ export function useDownloadPageController() {
   const clearCart = useCartStore((state) => state.clearCart);
   const {
     defaultTargetOS,
+    pipTargetPlatform,
     defaultArchitecture,
     includeDependencies,
     languageVersions,
@@ -79,7 +83,17 @@ export function useDownloadPageController() {
     smtpTo,
     defaultOutputFormat,
     includeInstallScripts,
+    dockerOutputFormat,
+    dockerBundlePlatforms,
+    pythonDownloadTargets,
+    limitRate,
+    perHostConcurrency,
   } = useSettingsStore();
+  // 위저드에서 검증해 저장하므로 여기서는 형식 오류가 나지 않음
+  const pythonTargets = useMemo(
+    () => parsePythonDownloadTargets(pythonDownloadTargets ?? []),
+    [pythonDownloadTargets]
+  );
   const {
     items: downloadItems,
     isDownloading,
@@ -954,7 +968,7 @@ export function useDownloadPageController() {
       }));
 
       const options = {
-        targetOS: defaultTargetOS,
+        ...getLibraryTargetOptions(defaultTargetOS, pipTargetPlatform),
         architecture: defaultArchitecture,
         includeDependencies,
         pythonVersion: languageVersions.python,
@@ -962,6 +976,7 @@ export function useDownloadPageController() {
         yumDistribution,
         aptDistribution,
         apkDistribution,
+        ...(pythonTargets.length > 0 ? { pythonTargets } : {}),
       };
 
       if (!dependencyAPI?.resolve) {
@@ -1083,9 +1098,11 @@ export function useDownloadPageController() {
     cudaVersion,
     defaultArchitecture,
     defaultTargetOS,
+    pipTargetPlatform,
     includeDependencies,
     languageVersions.python,
     outputDir,
+    pythonTargets,
     setDepsResolved,
     setItems,
     yumDistribution,
@@ -1207,7 +1224,9 @@ export function useDownloadPageController() {
         }
       };
 
-      const canProceed = await checkOutputPath();
+      // 중단된 세션을 이어받을 때는 출력 폴더의 기존 파일을 그대로 사용
+      const { resumeSessionId } = useDownloadStore.getState();
+      const canProceed = resumeSessionId ? true : await checkOutputPath();
       if (!canProceed) {
         restorePreviousSessionState();
         return;
@@ -1245,7 +1264,7 @@ export function useDownloadPageController() {
           outputDir,
           outputFormat,
           includeScripts: includeInstallScripts,
-          targetOS: defaultTargetOS,
+          ...getLibraryTargetOptions(defaultTargetOS, pipTargetPlatform),
           architecture: defaultArchitecture,
           includeDependencies,
           pythonVersion: languageVersions.python,
@@ -1259,14 +1278,21 @@ export function useDownloadPageController() {
           smtpFrom,
           fileSplitEnabled: enableFileSplit,
           maxFileSizeMB: maxFileSize,
+          dockerOutputFormat,
+          dockerBundlePlatforms,
+          pythonTargets,
         });
 
         await window.electronAPI.download.start({
           sessionId: sessionSnapshot.id,
+          ...(resumeSessionId ? { resumeSessionId } : {}),
           packages,
           options,
         });
         clearProvisionalDownloadSession(sessionSnapshot.id);
+        if (resumeSessionId) {
+          useDownloadStore.getState().setResumeSessionId(null);
+        }
       } catch (error) {
         restorePreviousSessionState();
         addLog('error', '다운로드 시작 실패', String(error));
@@ -1291,8 +1317,11 @@ export function useDownloadPageController() {
     createDownloadSessionSnapshot,
     defaultArchitecture,
     defaultTargetOS,
+    pipTargetPlatform,
     deliveryMethod,
     depsResolved,
+    dockerBundlePlatforms,
+    dockerOutputFormat,
     downloadItems,
     effectiveSmtpTo,
     enableFileSplit,
@@ -1306,6 +1335,7 @@ export function useDownloadPageController() {
     outputFormat,
     packagingProgress,
     packagingStatus,
+    pythonTargets,
     startTime,
     setIsDownloading,
     setIsPaused,
@@ -1513,7 +1543,7 @@ export function useDownloadPageController() {
         outputDir,
         outputFormat,
         includeScripts: includeInstallScripts,
-        targetOS: defaultTargetOS,
+        ...getLibraryTargetOptions(defaultTargetOS, pipTargetPlatform),
         architecture: defaultArchitecture,
         includeDependencies: false,
         pythonVersion: languageVersions.python,
@@ -1527,6 +1557,9 @@ export function useDownloadPageController() {
         smtpFrom,
         fileSplitEnabled: enableFileSplit,
         maxFileSizeMB: maxFileSize,
+        dockerOutputFormat,
+        dockerBundlePlatforms,
+        pythonTargets,
       });
 
       await window.electronAPI.download.start({
@@ -1560,7 +1593,10 @@ export function useDownloadPageController() {
     createDownloadSessionSnapshot,
     defaultArchitecture,
     defaultTargetOS,
+    pipTargetPlatform,
     deliveryMethod,
+    dockerBundlePlatforms,
+    dockerOutputFormat,
     effectiveSmtpTo,
     enableFileSplit,
     includeInstallScripts,
@@ -1572,6 +1608,7 @@ export function useDownloadPageController() {
     outputFormat,
     packagingProgress,
     packagingStatus,
+    pythonTargets,
     retryItem,
     setIsDownloading,
     setIsPaused,
@@ -1682,6 +1719,7 @@ export function useDownloadPageController() {
     totalProgress,
     totalSpeed,
     remainingTime,
+    transferLimitLabel: formatTransferLimitLabel(limitRate, perHostConcurrency),
     osFlow,
     handleSelectFolder,
     handleResolveDependencies,
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   createPendingDownloadItems,
+  formatTransferLimitLabel,
   hasMatchingActiveCartSnapshot,
   hasMatchingCartSnapshot,
   getPackageGroupStatus,
@@ -178,4 +179,10 @@ describe('download-page/utils', () => {
     expect(result).toBe(true);
     expect(cleared).toBe(false);
   });
+
+  it('전송 제한이 있을 때만 진행 화면 문구를 만든다', () => {
+    expect(formatTransferLimitLabel('5M', 2)).toBe('최대 5M/s, 호스트당 2개 연결');
+    expect(formatTransferLimitLabel(' 500K/s ', 0)).toBe('최대 500K/s');
+    expect(formatTransferLimitLabel('', 0)).toBeNull();
+  });
 });
@@ -184,6 +184,21 @@ export function formatBytes(bytes: number): string {
   return `${bytes} B`;
 }
 
+/**
+ * 설정의 전송 제한을 진행 화면 표시용 문구로 변환 (제한이 없으면 null)
+ */
+export function formatTransferLimitLabel(limitRate: string, perHostConcurrency: number): string | null {
+  const parts: string[] = [];
+  const rate = limitRate.trim().replace(/\/s$/i, '');
+  if (rate && rate !== '0') {
+    parts.push(`최대 ${rate}/s`);
+  }
+  if (perHostConcurrency > 0) {
+    parts.push(`호스트당 ${perHostConcurrency}개 연결`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
 export function getPackageDependencies(items: DownloadStoreItem[], parentId: string): DownloadStoreItem[] {
   return items.filter((item) => item.isDependency && item.parentId === parentId);
 }
@@ -0,0 +1,81 @@
+import { Card, Col, Form, Input, Row, Typography } from 'antd';
+import React from 'react';
+import {
+  SETTINGS_CARD_BODY_PADDING,
+  SETTINGS_CARD_MARGIN,
+} from './settings-form-utils';
+
+const { Text } = Typography;
+
+export const NetworkSettingsSection: React.FC = () => {
+  return (
+    <Card
+      title="네트워크 (프록시/인증서)"
+      size="small"
+      style={{ marginBottom: SETTINGS_CARD_MARGIN }}
+      styles={{ body: { padding: SETTINGS_CARD_BODY_PADDING } }}
+    >
+      <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 8 }}>
+        비워 두면 HTTP_PROXY / HTTPS_PROXY / NO_PROXY 환경 변수를 사용합니다. 모든 패키지 저장소,
+        Docker 레지스트리, OS 저장소 요청에 적용됩니다.
+      </Text>
+
+      <Row gutter={8}>
+        <Col span={12}>
+          <Form.Item name="httpProxy" label="HTTP 프록시" style={{ marginBottom: 8 }}>
+            <Input size="small" placeholder="http://proxy.example.com:3128" />
+          </Form.Item>
+        </Col>
+        <Col span={12}>
+          <Form.Item
+            name="httpsProxy"
+            label="HTTPS 프록시"
+            tooltip="비워 두면 HTTP 프록시를 사용합니다"
+            style={{ marginBottom: 8 }}
+          >
+            <Input size="small" placeholder="http://proxy.example.com:3128" />
+          </Form.Item>
+        </Col>
+      </Row>
+
+      <Row gutter={8}>
+        <Col span={24}>
+          <Form.Item
+            name="noProxy"
+            label="프록시 제외"
+            tooltip="쉼표로 구분합니다. .example.com은 하위 도메인 포함, *는 전체 제외"
+            style={{ marginBottom: 8 }}
+          >
+            <Input size="small" placeholder="localhost,127.0.0.1,.corp.local" />
+          </Form.Item>
+        </Col>
+      </Row>
+
+      <Row gutter={8}>
+        <Col span={12}>
+          <Form.Item name="proxyUsername" label="프록시 사용자명" style={{ marginBottom: 8 }}>
+            <Input size="small" placeholder="기본 인증 (선택)" />
+          </Form.Item>
+        </Col>
+        <Col span={12}>
+          <Form.Item name="proxyPassword" label="프록시 비밀번호" style={{ marginBottom: 8 }}>
+            <Input.Password size="small" placeholder="••••••••" />
+          </Form.Item>
+        </Col>
+      </Row>
+
+      <Row gutter={8}>
+        <Col span={24}>
+          <Form.Item
+            name="caBundlePath"
+            label="사용자 CA 번들"
+            tooltip="TLS 검사 프록시의 루트 인증서(PEM) 경로. 시스템 기본 인증서에 추가됩니다"
+            style={{ marginBottom: 8 }}
+          >
+            <Input size="small" placeholder="/etc/pki/ca-trust/source/anchors/corp-ca.pem" />
+          </Form.Item>
+        </Col>
+      </Row>
+    </Card>
+  );
+};
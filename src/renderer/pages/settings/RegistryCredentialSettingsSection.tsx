@@ -0,0 +1,186 @@
+import { DeleteOutlined, ImportOutlined, PlusOutlined } from '@ant-design/icons';
+import {
+  Button,
+  Card,
+  Col,
+  Form,
+  Input,
+  Row,
+  Select,
+  Space,
+  Typography,
+  message,
+} from 'antd';
+import React from 'react';
+import {
+  SETTINGS_CARD_BODY_PADDING,
+  SETTINGS_CARD_MARGIN,
+  type RegistryMirrorFormEntry,
+} from './settings-form-utils';
+import type { RegistryCredentialEntry } from '../../../types/electron';
+
+const { Text } = Typography;
+
+const ECOSYSTEM_OPTIONS = [
+  { value: 'pip', label: 'pip' },
+  { value: 'npm', label: 'npm' },
+  { value: 'maven', label: 'Maven' },
+];
+
+interface RegistryCredentialSettingsSectionProps {
+  customPipIndexUrls: Array<{ label: string; url: string }>;
+  onAddPipIndexUrl: (label: string, url: string) => void;
+}
+
+const credentialKey = (credential: RegistryCredentialEntry) =>
+  `${credential.ecosystem}|${credential.url.replace(/\/+$/, '')}|${credential.scope ?? ''}`;
+
+export const RegistryCredentialSettingsSection: React.FC<RegistryCredentialSettingsSectionProps> = ({
+  customPipIndexUrls,
+  onAddPipIndexUrl,
+}) => {
+  const form = Form.useFormInstance();
+  const [importing, setImporting] = React.useState(false);
+
+  const handleImport = async () => {
+    if (!window.electronAPI?.config?.importRegistryCredentials) {
+      message.warning('현재 환경에서는 설정 파일 가져오기를 사용할 수 없습니다');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const result = await window.electronAPI.config.importRegistryCredentials();
+      if (!result.success) {
+        message.error(`가져오기 실패: ${result.error}`);
+        return;
+      }
+      if (!result.sources?.length) {
+        message.info('.npmrc, pip.conf, ~/.m2/settings.xml을 찾을 수 없습니다');
+        return;
+      }
+
+      // 같은 생태계·URL·스코프는 가져온 값으로 교체
+      const imported = result.credentials ?? [];
+      const importedKeys = new Set(imported.map(credentialKey));
+      const existing = (form.getFieldValue('registryCredentials') ?? []) as RegistryCredentialEntry[];
+      form.setFieldValue('registryCredentials', [
+        ...existing.filter((credential) => !credential.url || !importedKeys.has(credentialKey(credential))),
+        ...imported,
+      ]);
+
+      const mavenMirrors = result.mavenMirrors ?? [];
+      if (mavenMirrors.length > 0) {
+        const mirrorUrls = new Set(mavenMirrors.map((mirror) => mirror.url));
+        const mirrorEntries = (form.getFieldValue('registryMirrorEntries') ?? []) as RegistryMirrorFormEntry[];
+        form.setFieldValue('registryMirrorEntries', [
+          ...mirrorEntries.filter((entry) => entry.ecosystem !== 'maven' || !mirrorUrls.has(entry.url)),
+          ...mavenMirrors.map((mirror) => ({ ecosystem: 'maven' as const, ...mirror })),
+        ]);
+      }
+
+      for (const url of result.pipIndexUrls ?? []) {
+        if (!customPipIndexUrls.some((item) => item.url === url)) {
+          onAddPipIndexUrl(new URL(url).host, url);
+        }
+      }
+
+      message.success(
+        `인증 정보 ${imported.length}개, Maven 미러 ${mavenMirrors.length}개를 가져왔습니다. 저장하면 적용됩니다`
+      );
+      for (const warning of result.warnings ?? []) {
+        message.warning(warning);
+      }
+    } catch (error) {
+      message.error(`가져오기 실패: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card
+      title="사설 저장소 인증"
+      size="small"
+      style={{ marginBottom: SETTINGS_CARD_MARGIN }}
+      styles={{ body: { padding: SETTINGS_CARD_BODY_PADDING } }}
+      extra={
+        <Button size="small" icon={<ImportOutlined />} loading={importing} onClick={() => void handleImport()}>
+          설정 파일에서 가져오기
+        </Button>
+      }
+    >
+      <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 8 }}>
+        pip 인덱스, npm 레지스트리, Maven 저장소 URL별 인증 정보입니다. URL로 시작하는 요청(없으면 같은 호스트
+        요청)에 인증 헤더를 붙이며, npm 스코프를 지정하면 해당 스코프 패키지를 그 레지스트리에서 조회합니다.
+        비밀번호와 토큰은 암호화되어 저장됩니다.
+      </Text>
+
+      <Form.List name="registryCredentials">
+        {(fields, { add, remove }) => (
+          <>
+            {fields.map(({ key, name }) => (
+              <Row gutter={8} key={key} align="middle" style={{ marginBottom: 4 }}>
+                <Col span={3}>
+                  <Form.Item name={[name, 'ecosystem']} style={{ marginBottom: 0 }}>
+                    <Select size="small" options={ECOSYSTEM_OPTIONS} />
+                  </Form.Item>
+                </Col>
+                <Col span={7}>
+                  <Form.Item
+                    name={[name, 'url']}
+                    style={{ marginBottom: 0 }}
+                    rules={[{ pattern: /^https?:\/\/\S+$/, message: 'http(s) URL을 입력하세요' }]}
+                  >
+                    <Input size="small" placeholder="https://nexus.corp/repository/pypi-internal/simple" />
+                  </Form.Item>
+                </Col>
+                <Col span={3}>
+                  <Form.Item noStyle shouldUpdate>
+                    {({ getFieldValue }) => (
+                      <Form.Item name={[name, 'scope']} style={{ marginBottom: 0 }}>
+                        <Input
+                          size="small"
+                          placeholder="@scope"
+                          disabled={getFieldValue(['registryCredentials', name, 'ecosystem']) !== 'npm'}
+                        />
+                      </Form.Item>
+                    )}
+                  </Form.Item>
+                </Col>
+                <Col span={3}>
+                  <Form.Item name={[name, 'username']} style={{ marginBottom: 0 }}>
+                    <Input size="small" placeholder="사용자명" />
+                  </Form.Item>
+                </Col>
+                <Col span={3}>
+                  <Form.Item name={[name, 'password']} style={{ marginBottom: 0 }}>
+                    <Input.Password size="small" placeholder="비밀번호" />
+                  </Form.Item>
+                </Col>
+                <Col span={4}>
+                  <Form.Item name={[name, 'token']} style={{ marginBottom: 0 }}>
+                    <Input.Password size="small" placeholder="토큰 (_authToken)" />
+                  </Form.Item>
+                </Col>
+                <Col span={1}>
+                  <Space size={4}>
+                    <Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                  </Space>
+                </Col>
+              </Row>
+            ))}
+            <Button
+              type="dashed"
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => add({ ecosystem: 'pip', url: '' })}
+            >
+              인증 정보 추가
+            </Button>
+          </>
+        )}
+      </Form.List>
+    </Card>
+  );
+};
@@ -0,0 +1,150 @@
+import { ApiOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import {
+  Button,
+  Card,
+  Col,
+  Form,
+  Input,
+  InputNumber,
+  Row,
+  Select,
+  Space,
+  Typography,
+  message,
+} from 'antd';
+import React from 'react';
+import {
+  SETTINGS_CARD_BODY_PADDING,
+  SETTINGS_CARD_MARGIN,
+  type RegistryMirrorFormEntry,
+} from './settings-form-utils';
+
+const { Text } = Typography;
+
+const ECOSYSTEM_OPTIONS = [
+  { value: 'pip', label: 'pip (PyPI)' },
+  { value: 'conda', label: 'conda' },
+  { value: 'maven', label: 'Maven' },
+  { value: 'npm', label: 'npm' },
+  { value: 'go', label: 'Go 모듈' },
+  { value: 'cargo', label: 'Cargo' },
+  { value: 'nuget', label: 'NuGet' },
+  { value: 'docker', label: 'Docker Hub' },
+];
+
+export const RegistryMirrorSettingsSection: React.FC = () => {
+  const form = Form.useFormInstance();
+  const [testingIndex, setTestingIndex] = React.useState<number | null>(null);
+
+  const handleTest = async (index: number) => {
+    const entry = form.getFieldValue(['registryMirrorEntries', index]) as RegistryMirrorFormEntry | undefined;
+    if (!entry?.ecosystem || !entry.url?.trim()) {
+      message.warning('생태계와 미러 URL을 입력하세요');
+      return;
+    }
+    if (!window.electronAPI?.testRegistryMirror) {
+      message.warning('현재 환경에서는 미러 연결 테스트를 사용할 수 없습니다');
+      return;
+    }
+
+    setTestingIndex(index);
+    try {
+      const result = await window.electronAPI.testRegistryMirror({
+        ecosystem: entry.ecosystem,
+        url: entry.url,
+        username: entry.username,
+        password: entry.password,
+        token: entry.token,
+      });
+      if (result.success) {
+        message.success(`연결 성공: HTTP ${result.status} (${result.latencyMs}ms)`);
+      } else {
+        message.error(`연결 실패: ${result.error}`);
+      }
+    } catch (error) {
+      message.error(`연결 실패: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setTestingIndex(null);
+    }
+  };
+
+  return (
+    <Card
+      title="저장소 미러 (Nexus/Artifactory)"
+      size="small"
+      style={{ marginBottom: SETTINGS_CARD_MARGIN }}
+      styles={{ body: { padding: SETTINGS_CARD_BODY_PADDING } }}
+    >
+      <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 8 }}>
+        공개 저장소 대신 사용할 미러를 생태계별로 지정합니다. 검색, 버전 조회, 의존성 해석, 다운로드에
+        모두 적용되며 우선순위가 낮은 미러부터 시도하고 실패하면 다음 미러로 넘어갑니다. 미러는 공개
+        저장소와 같은 경로 구조(예: PyPI 프록시의 /simple, /pypi)를 제공해야 합니다.
+      </Text>
+
+      <Form.List name="registryMirrorEntries">
+        {(fields, { add, remove }) => (
+          <>
+            {fields.map(({ key, name }) => (
+              <Row gutter={8} key={key} align="middle" style={{ marginBottom: 4 }}>
+                <Col span={4}>
+                  <Form.Item name={[name, 'ecosystem']} style={{ marginBottom: 0 }}>
+                    <Select size="small" options={ECOSYSTEM_OPTIONS} placeholder="생태계" />
+                  </Form.Item>
+                </Col>
+                <Col span={7}>
+                  <Form.Item
+                    name={[name, 'url']}
+                    style={{ marginBottom: 0 }}
+                    rules={[{ pattern: /^https?:\/\/\S+$/, message: 'http(s) URL을 입력하세요' }]}
+                  >
+                    <Input size="small" placeholder="https://nexus.corp/repository/pypi-proxy" />
+                  </Form.Item>
+                </Col>
+                <Col span={2}>
+                  <Form.Item name={[name, 'priority']} style={{ marginBottom: 0 }} tooltip="낮을수록 먼저 시도">
+                    <InputNumber size="small" min={0} placeholder="0" style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={3}>
+                  <Form.Item name={[name, 'username']} style={{ marginBottom: 0 }}>
+                    <Input size="small" placeholder="사용자명" />
+                  </Form.Item>
+                </Col>
+                <Col span={3}>
+                  <Form.Item name={[name, 'password']} style={{ marginBottom: 0 }}>
+                    <Input.Password size="small" placeholder="비밀번호" />
+                  </Form.Item>
+                </Col>
+                <Col span={3}>
+                  <Form.Item name={[name, 'token']} style={{ marginBottom: 0 }}>
+                    <Input.Password size="small" placeholder="토큰" />
+                  </Form.Item>
+                </Col>
+                <Col span={2}>
+                  <Space size={4}>
+                    <Button
+                      size="small"
+                      icon={<ApiOutlined />}
+                      title="연결 테스트"
+                      loading={testingIndex === name}
+                      onClick={() => void handleTest(name)}
+                    />
+                    <Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                  </Space>
+                </Col>
+              </Row>
+            ))}
+            <Button
+              type="dashed"
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => add({ ecosystem: 'pip', url: '', priority: fields.length })}
+            >
+              미러 추가
+            </Button>
+          </>
+        )}
+      </Form.List>
+    </Card>
+  );
+};
@@ -14,6 +14,8 @@ describe('settings-form-utils', () => {
       cachePath: '/tmp/cache',
       includeDependencies: true,
       defaultDownloadPath: '/tmp/output',
+      limitRate: '5M',
+      perHostConcurrency: 2,
       defaultOutputFormat: 'tar.gz',
       includeInstallScripts: true,
       enableFileSplit: true,
@@ -24,6 +26,18 @@ describe('settings-form-utils', () => {
       smtpPassword: 'secret',
       smtpFrom: 'sender@example.com',
       smtpTo: 'offline@example.com',
+      httpsProxy: 'http://proxy.corp.local:3128',
+      noProxy: 'localhost,.corp.local',
+      proxyUsername: 'corp-user',
+      proxyPassword: 'proxy-secret',
+      caBundlePath: '/etc/pki/corp-ca.pem',
+      httpProxy: '',
+      registryMirrors: {
+        pip: [{ url: 'https://nexus.corp/repository/pypi-proxy', priority: 0, username: 'ci', password: 'pw' }],
+      },
+      registryCredentials: [
+        { ecosystem: 'npm', url: 'https://nexus.corp/repository/npm-internal', scope: '@corp', token: 'npm-token' },
+      ],
       languageVersions: { python: '3.12' },
       defaultTargetOS: 'linux',
       defaultArchitecture: 'x86_64',
@@ -50,6 +64,8 @@ describe('settings-form-utils', () => {
       cachePath: '/tmp/cache',
       includeDependencies: true,
       defaultDownloadPath: '/tmp/output',
+      limitRate: '5M',
+      perHostConcurrency: 2,
       defaultOutputFormat: 'tar.gz',
       includeInstallScripts: true,
       enableFileSplit: true,
@@ -60,6 +76,24 @@ describe('settings-form-utils', () => {
       smtpPassword: 'secret',
       smtpFrom: 'sender@example.com',
       smtpTo: 'offline@example.com',
+      httpsProxy: 'http://proxy.corp.local:3128',
+      noProxy: 'localhost,.corp.local',
+      proxyUsername: 'corp-user',
+      proxyPassword: 'proxy-secret',
+      caBundlePath: '/etc/pki/corp-ca.pem',
+      httpProxy: '',
+      registryMirrorEntries: [
+        {
+          ecosystem: 'pip',
+          url: 'https://nexus.corp/repository/pypi-proxy',
+          priority: 0,
+          username: 'ci',
+          password: 'pw',
+        },
+      ],
+      registryCredentials: [
+        { ecosystem: 'npm', url: 'https://nexus.corp/repository/npm-internal', scope: '@corp', token: 'npm-token' },
+      ],
       languageVersions: { python: '3.12' },
       defaultTargetOS: 'linux',
       defaultArchitecture: 'x86_64',
@@ -73,6 +107,7 @@ describe('settings-form-utils', () => {
       cudaVersion: '12.4',
       yumDistributionId: 'rocky-9',
       yumArchitecture: 'x86_64',
+      yumModuleStreams: [],
       aptDistributionId: 'ubuntu-24.04',
       aptArchitecture: 'amd64',
       apkDistributionId: 'alpine-3.19',
@@ -92,6 +127,7 @@ describe('settings-form-utils', () => {
       defaultDownloadPath: '/tmp/downloads',
       yumDistributionId: 'rocky-10',
       yumArchitecture: 'x86_64',
+      yumModuleStreams: ['nodejs:20', ' postgresql:15'],
       aptDistributionId: 'debian-12',
       aptArchitecture: 'arm64',
       apkDistributionId: 'alpine-3.20',
@@ -106,6 +142,7 @@ describe('settings-form-utils', () => {
       yumDistribution: {
         id: 'rocky-10',
         architecture: 'x86_64',
+        moduleStreams: ['nodejs:20', 'postgresql:15'],
       },
       aptDistribution: {
         id: 'debian-12',
@@ -118,6 +155,34 @@ describe('settings-form-utils', () => {
     });
   });
 
+  it('저장소 미러 폼 줄을 생태계별 목록으로 묶어 저장해야 함', () => {
+    expect(normalizeSettingsFormValues({
+      registryMirrorEntries: [
+        { ecosystem: 'npm', url: ' https://nexus.corp/repository/npm-proxy ', priority: 1 },
+        { ecosystem: 'pip', url: '', priority: 0 },
+        { ecosystem: 'npm', url: 'https://artifactory.corp/api/npm/npm', priority: 0, token: 't' },
+      ],
+    })).toEqual({
+      registryMirrors: {
+        npm: [
+          { url: 'https://nexus.corp/repository/npm-proxy', priority: 1 },
+          { url: 'https://artifactory.corp/api/npm/npm', priority: 0, token: 't' },
+        ],
+      },
+    });
+  });
+
+  it('URL이 빈 저장소 인증 줄은 저장하지 않아야 함', () => {
+    expect(normalizeSettingsFormValues({
+      registryCredentials: [
+        { ecosystem: 'pip', url: ' https://pypi.corp/simple ', username: 'ci', password: 'pw' },
+        { ecosystem: 'npm', url: '' },
+      ],
+    })).toEqual({
+      registryCredentials: [{ ecosystem: 'pip', url: 'https://pypi.corp/simple', username: 'ci', password: 'pw' }],
+    });
+  });
+
   it('SMTP 테스트는 사용 가능한 경로를 명시적으로 분류해야 함', () => {
     expect(getSmtpTestMode(undefined)).toBe('browser-simulated');
     expect(getSmtpTestMode({})).toBe('missing-ipc');
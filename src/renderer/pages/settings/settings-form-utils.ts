@@ -1,9 +1,16 @@
+import type { RegistryCredential } from '../../../core/shared/registry-credentials';
+import type {
+  RegistryEcosystem,
+  RegistryMirror,
+  RegistryMirrorSettings,
+} from '../../../core/shared/registry-mirrors';
 import type {
   CondaChannel,
   CudaVersion,
   DefaultArchitecture,
   DockerArchitecture,
   DockerLayerCompression,
+  DockerOutputFormat,
   LanguageVersions,
   OSDistributionSetting,
   PipTargetPlatform,
@@ -19,6 +26,8 @@ export interface SettingsStoreSnapshot {
   cachePath: string;
   includeDependencies: boolean;
   defaultDownloadPath: string;
+  limitRate: string;
+  perHostConcurrency: number;
   defaultOutputFormat: 'zip' | 'tar.gz';
   includeInstallScripts: boolean;
   enableFileSplit: boolean;
@@ -29,6 +38,14 @@ export interface SettingsStoreSnapshot {
   smtpPassword: string;
   smtpFrom: string;
   smtpTo: string;
+  httpProxy: string;
+  httpsProxy: string;
+  noProxy: string;
+  proxyUsername: string;
+  proxyPassword: string;
+  caBundlePath: string;
+  registryMirrors: RegistryMirrorSettings;
+  registryCredentials: RegistryCredential[];
   languageVersions: LanguageVersions;
   defaultTargetOS: TargetOS;
   defaultArchitecture: DefaultArchitecture;
@@ -41,6 +58,8 @@ export interface SettingsStoreSnapshot {
   dockerArchitecture: DockerArchitecture;
   dockerLayerCompression: DockerLayerCompression;
   dockerIncludeLoadScript: boolean;
+  dockerOutputFormat: DockerOutputFormat;
+  dockerBundlePlatforms: DockerArchitecture[];
   autoUpdate: boolean;
   autoDownloadUpdate: boolean;
   downloadRenderInterval: number;
@@ -52,6 +71,8 @@ export interface SettingsFormValues {
   cachePath: string;
   includeDependencies: boolean;
   defaultDownloadPath: string;
+  limitRate: string;
+  perHostConcurrency: number;
   defaultOutputFormat: 'zip' | 'tar.gz';
   includeInstallScripts: boolean;
   enableFileSplit: boolean;
@@ -62,6 +83,14 @@ export interface SettingsFormValues {
   smtpPassword: string;
   smtpFrom: string;
   smtpTo: string;
+  httpProxy: string;
+  httpsProxy: string;
+  noProxy: string;
+  proxyUsername: string;
+  proxyPassword: string;
+  caBundlePath: string;
+  registryMirrorEntries: RegistryMirrorFormEntry[];
+  registryCredentials: RegistryCredential[];
   languageVersions: LanguageVersions;
   defaultTargetOS: TargetOS;
   defaultArchitecture: DefaultArchitecture;
@@ -70,6 +99,7 @@ export interface SettingsFormValues {
   cudaVersion: CudaVersion;
   yumDistributionId: string;
   yumArchitecture: string;
+  yumModuleStreams: string[];
   aptDistributionId: string;
   aptArchitecture: string;
   apkDistributionId: string;
@@ -77,11 +107,20 @@ export interface SettingsFormValues {
   dockerArchitecture: DockerArchitecture;
   dockerLayerCompression: DockerLayerCompression;
   dockerIncludeLoadScript: boolean;
+  dockerOutputFormat: DockerOutputFormat;
+  dockerBundlePlatforms: DockerArchitecture[];
   autoUpdate: boolean;
   autoDownloadUpdate: boolean;
   downloadRenderInterval: number;
 }
 
+/**
+ * 저장소 미러 폼 한 줄 (생태계별 목록을 한 표로 펼친 형태)
+ */
+export interface RegistryMirrorFormEntry extends RegistryMirror {
+  ecosystem: RegistryEcosystem;
+}
+
 export type SettingsFormSubmission = Record<string, unknown> & Partial<SettingsFormValues>;
 
 export interface SettingsFormValueWriter {
@@ -153,6 +192,8 @@ export function buildSettingsFormValues(settings: SettingsStoreSnapshot): Settin
     cachePath: settings.cachePath,
     includeDependencies: settings.includeDependencies,
     defaultDownloadPath: settings.defaultDownloadPath,
+    limitRate: settings.limitRate,
+    perHostConcurrency: settings.perHostConcurrency,
     defaultOutputFormat: settings.defaultOutputFormat,
     includeInstallScripts: settings.includeInstallScripts,
     enableFileSplit: settings.enableFileSplit,
@@ -163,6 +204,14 @@ export function buildSettingsFormValues(settings: SettingsStoreSnapshot): Settin
     smtpPassword: settings.smtpPassword,
     smtpFrom: settings.smtpFrom,
     smtpTo: settings.smtpTo,
+    httpProxy: settings.httpProxy,
+    httpsProxy: settings.httpsProxy,
+    noProxy: settings.noProxy,
+    proxyUsername: settings.proxyUsername,
+    proxyPassword: settings.proxyPassword,
+    caBundlePath: settings.caBundlePath,
+    registryMirrorEntries: flattenRegistryMirrors(settings.registryMirrors),
+    registryCredentials: settings.registryCredentials,
     languageVersions: settings.languageVersions,
     defaultTargetOS: settings.defaultTargetOS,
     defaultArchitecture: settings.defaultArchitecture,
@@ -171,6 +220,7 @@ export function buildSettingsFormValues(settings: SettingsStoreSnapshot): Settin
     cudaVersion: settings.cudaVersion,
     yumDistributionId: settings.yumDistribution.id,
     yumArchitecture: settings.yumDistribution.architecture,
+    yumModuleStreams: settings.yumDistribution.moduleStreams ?? [],
     aptDistributionId: settings.aptDistribution.id,
     aptArchitecture: settings.aptDistribution.architecture,
     apkDistributionId: settings.apkDistribution.id,
@@ -178,6 +228,8 @@ export function buildSettingsFormValues(settings: SettingsStoreSnapshot): Settin
     dockerArchitecture: settings.dockerArchitecture,
     dockerLayerCompression: settings.dockerLayerCompression,
     dockerIncludeLoadScript: settings.dockerIncludeLoadScript,
+    dockerOutputFormat: settings.dockerOutputFormat,
+    dockerBundlePlatforms: settings.dockerBundlePlatforms,
     autoUpdate: settings.autoUpdate,
     autoDownloadUpdate: settings.autoDownloadUpdate,
     downloadRenderInterval: settings.downloadRenderInterval,
@@ -193,6 +245,9 @@ export function normalizeSettingsFormValues(
     normalizedValues.yumDistribution = {
       id: values.yumDistributionId,
       architecture: values.yumArchitecture,
+      ...(values.yumModuleStreams && values.yumModuleStreams.length > 0
+        ? { moduleStreams: values.yumModuleStreams.map((stream) => stream.trim()) }
+        : {}),
     };
   }
 
@@ -210,8 +265,21 @@ export function normalizeSettingsFormValues(
     };
   }
 
+  if (values.registryMirrorEntries) {
+    normalizedValues.registryMirrors = groupRegistryMirrorEntries(values.registryMirrorEntries);
+  }
+
+  if (values.registryCredentials) {
+    // 추가만 하고 URL을 비워 둔 줄은 저장하지 않는다
+    normalizedValues.registryCredentials = values.registryCredentials
+      .filter((credential) => credential?.ecosystem && credential.url?.trim())
+      .map((credential) => ({ ...credential, url: credential.url.trim() }));
+  }
+
+  delete normalizedValues.registryMirrorEntries;
   delete normalizedValues.yumDistributionId;
   delete normalizedValues.yumArchitecture;
+  delete normalizedValues.yumModuleStreams;
   delete normalizedValues.aptDistributionId;
   delete normalizedValues.aptArchitecture;
   delete normalizedValues.apkDistributionId;
@@ -227,3 +295,21 @@ export function getSmtpTestMode(electronAPI?: SmtpTester): SmtpTestMode {
 
   return typeof electronAPI.testSmtpConnection === 'function' ? 'ipc' : 'missing-ipc';
 }
+
+export function flattenRegistryMirrors(mirrors: RegistryMirrorSettings = {}): RegistryMirrorFormEntry[] {
+  return (Object.entries(mirrors) as Array<[RegistryEcosystem, RegistryMirror[]]>).flatMap(
+    ([ecosystem, list]) => list.map((mirror) => ({ ecosystem, ...mirror }))
+  );
+}
+
+export function groupRegistryMirrorEntries(entries: RegistryMirrorFormEntry[]): RegistryMirrorSettings {
+  const grouped: RegistryMirrorSettings = {};
+  for (const { ecosystem, ...mirror } of entries) {
+    // 추가만 하고 URL을 비워 둔 줄은 저장하지 않는다
+    if (!ecosystem || !mirror.url?.trim()) {
+      continue;
+    }
+    (grouped[ecosystem] ??= []).push({ ...mirror, url: mirror.url.trim() });
+  }
+  return grouped;
+}
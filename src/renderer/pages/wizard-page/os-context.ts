@@ -31,6 +31,7 @@ export interface WizardOSDistributionInfo {
   osType: 'linux';
   packageManager: OSPackageType;
   architecture: string;
+  moduleStreams?: string[];
 }
 
 function getDistributionSetting(
@@ -64,6 +65,7 @@ export function getOSDistributionInfo(
     osType: 'linux',
     packageManager: match.packageManager,
     architecture: match.distribution.architecture,
+    moduleStreams: match.distribution.moduleStreams,
   };
 }
 
@@ -75,6 +75,7 @@ export function createSearchService({
             packageManager: distribution.packageManager,
           },
           architecture: distribution.architecture,
+          moduleStreams: distribution.moduleStreams,
           matchType: 'partial',
           limit: 20,
         });
@@ -99,6 +100,7 @@ export function createSearchService({
             packageManager: distribution.packageManager,
           },
           architecture: distribution.architecture,
+          moduleStreams: distribution.moduleStreams,
           matchType: 'partial',
           limit: 50,
         });
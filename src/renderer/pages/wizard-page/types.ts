@@ -27,7 +27,7 @@ export interface OSCartContextSnapshot {
   packageManager: 'yum' | 'apt' | 'apk';
 }
 
-export const LIBRARY_PACKAGE_TYPES: PackageType[] = ['pip', 'conda', 'maven', 'npm'];
+export const LIBRARY_PACKAGE_TYPES: PackageType[] = ['pip', 'conda', 'maven', 'npm', 'go', 'cargo', 'nuget'];
 export const OS_PACKAGE_TYPES: PackageType[] = ['yum', 'apt', 'apk'];
 
 export const PACKAGE_TYPE_TO_CATEGORY: Record<PackageType, CategoryType> = {
@@ -35,6 +35,9 @@ export const PACKAGE_TYPE_TO_CATEGORY: Record<PackageType, CategoryType> = {
   conda: 'library',
   maven: 'library',
   npm: 'library',
+  go: 'library',
+  cargo: 'library',
+  nuget: 'library',
   yum: 'os',
   apt: 'os',
   apk: 'os',
@@ -2,7 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
 // 패키지 타입
-export type PackageType = 'pip' | 'conda' | 'maven' | 'npm' | 'yum' | 'apt' | 'apk' | 'docker';
+export type PackageType = 'pip' | 'conda' | 'maven' | 'npm' | 'go' | 'cargo' | 'nuget' | 'yum' | 'apt' | 'apk' | 'docker';
 
 // 아키텍처 타입 (Docker: arm/v7, 386 포함)
 export type Architecture = 'x86_64' | 'amd64' | 'arm64' | 'aarch64' | 'i386' | 'i686' | 'noarch' | 'all' | 'arm/v7' | '386';
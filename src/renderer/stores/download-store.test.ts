@@ -107,6 +107,7 @@ describe('download-store', () => {
       startTime: 123,
       currentItemIndex: 1,
       depsResolved: true,
+      resumeSessionId: '1760000000000-abc123',
     });
 
     useDownloadStore.getState().reset();
@@ -122,6 +123,7 @@ describe('download-store', () => {
       startTime: null,
       currentItemIndex: 0,
       depsResolved: false,
+      resumeSessionId: null,
     });
   });
 });
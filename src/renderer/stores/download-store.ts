@@ -67,6 +67,8 @@ interface DownloadState {
   startTime: number | null;
   currentItemIndex: number;
   depsResolved: boolean;
+  /** 이어받을 다운로드 세션 ID (시작 시 재개를 선택한 경우) */
+  resumeSessionId: string | null;
 
   // Actions
   setItems: (items: DownloadStoreItem[]) => void;
@@ -86,6 +88,7 @@ interface DownloadState {
   skipItem: (id: string) => void;
   retryItem: (id: string) => void;
   setDepsResolved: (resolved: boolean) => void;
+  setResumeSessionId: (sessionId: string | null) => void;
   reset: () => void;
 }
 
@@ -106,6 +109,7 @@ export const useDownloadStore = create<DownloadState>()((set) => ({
   startTime: null,
   currentItemIndex: 0,
   depsResolved: false,
+  resumeSessionId: null,
 
   setItems: (items) => set({ items }),
 
@@ -190,6 +194,8 @@ export const useDownloadStore = create<DownloadState>()((set) => ({
 
   setDepsResolved: (resolved) => set({ depsResolved: resolved }),
 
+  setResumeSessionId: (resumeSessionId) => set({ resumeSessionId }),
+
   reset: () =>
     set({
       items: [],
@@ -201,5 +207,6 @@ export const useDownloadStore = create<DownloadState>()((set) => ({
       startTime: null,
       currentItemIndex: 0,
       depsResolved: false,
+      resumeSessionId: null,
     }),
 }));
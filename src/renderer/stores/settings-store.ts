@@ -1,10 +1,14 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage, StateStorage } from 'zustand/middleware';
+import type { RegistryCredential } from '../../core/shared/registry-credentials';
+import type { RegistryMirrorSettings } from '../../core/shared/registry-mirrors';
+import type { DockerOutputFormat } from '../../types/download/options';
 import type { PipTargetPlatform } from '../../types/platform/pip-target-platform';
 
 // 언어 버전 타입 정의
 export interface LanguageVersions {
   python: string;  // 예: '3.11', '3.10', '3.9'
+  dotnet?: string;  // .NET 대상 프레임워크 (예: 'net8.0', 'netstandard2.0')
   // java와 node 제거: JAR/tarball은 런타임 버전과 무관하게 동일 파일
 }
 
@@ -32,15 +36,20 @@ export type DockerRetryStrategy = 'layer' | 'full';
 // Docker 아키텍처 타입 정의
 export type DockerArchitecture = 'amd64' | 'arm64' | 'arm/v7' | '386';
 
+// Docker 이미지 출력 형식 (docker load tar / OCI 이미지 레이아웃)
+export type { DockerOutputFormat } from '../../types/download/options';
+
 // pip 타겟 플랫폼 타입 정의 (타입은 별도 파일에서 import)
 export type { PipTargetPlatform } from '../../types/platform/pip-target-platform';
 
 // OS 배포판 설정 타입 정의
 // id: 배포판 식별자 (예: 'rocky-9', 'almalinux-8', 'ubuntu-22.04', 'debian-12', 'alpine-3.18')
 // architecture: 대상 CPU 아키텍처 (YUM/APK: 'x86_64', 'aarch64' / APT: 'amd64', 'arm64', 'i386')
+// moduleStreams: YUM 모듈 스트림 (예: 'nodejs:20', 'postgresql:15')
 export interface OSDistributionSetting {
   id: string;           // 배포판 ID - API에서 동적으로 로드된 목록과 매칭
   architecture: string; // 아키텍처 - 배포판별 지원 아키텍처 중 선택
+  moduleStreams?: string[]; // 모듈 스트림 - YUM 배포판에서만 사용
 }
 
 // 설정 상태
@@ -51,6 +60,8 @@ interface SettingsState {
   cachePath: string;
   includeDependencies: boolean; // 의존성 자동 포함 다운로드
   defaultDownloadPath: string;  // 기본 다운로드 경로
+  limitRate: string;            // 전체 다운로드 속도 상한 (예: '5M', 빈 값이면 무제한)
+  perHostConcurrency: number;   // 호스트별 동시 연결 수 (0이면 무제한)
 
   // 출력 설정
   defaultOutputFormat: 'zip' | 'tar.gz';
@@ -68,6 +79,20 @@ interface SettingsState {
   smtpFrom: string;
   smtpTo: string;
 
+  // 네트워크 설정 (비어 있으면 HTTP_PROXY/HTTPS_PROXY/NO_PROXY 환경 변수 사용)
+  httpProxy: string;
+  httpsProxy: string;
+  noProxy: string;
+  proxyUsername: string;
+  proxyPassword: string;
+  caBundlePath: string;  // 사용자 CA 번들 (PEM)
+
+  // 저장소 미러 설정 (생태계별 Nexus/Artifactory 등, 비어 있으면 공개 저장소 사용)
+  registryMirrors: RegistryMirrorSettings;
+
+  // 사설 저장소 인증 정보 (pip 인덱스, npm 스코프 레지스트리, Maven 서버)
+  registryCredentials: RegistryCredential[];
+
   // 언어 버전 설정
   languageVersions: LanguageVersions;
 
@@ -78,6 +103,9 @@ interface SettingsState {
   // pip 타겟 플랫폼 설정 (wheel 호환성용)
   pipTargetPlatform: PipTargetPlatform;
 
+  // pip/conda 멀티 타겟 (os/arch/python 형식, 비어 있으면 단일 대상)
+  pythonDownloadTargets: string[];
+
   // Conda 채널 설정
   condaChannel: CondaChannel;
   customCondaChannels: string[];  // 사용자가 추가한 커스텀 채널 목록
@@ -100,6 +128,8 @@ interface SettingsState {
   dockerLayerCompression: DockerLayerCompression;  // 레이어 압축 방식
   dockerRetryStrategy: DockerRetryStrategy; // 재시도 전략
   dockerIncludeLoadScript: boolean;         // docker load 스크립트 포함
+  dockerOutputFormat: DockerOutputFormat;   // 이미지 출력 형식
+  dockerBundlePlatforms: DockerArchitecture[]; // 멀티 아키텍처 번들 플랫폼 (OCI 레이아웃 전용)
 
   // 자동 업데이트 설정
   autoUpdate: boolean;                      // 자동 업데이트 활성화
@@ -127,6 +157,8 @@ const defaultSettings = {
   cachePath: '',
   includeDependencies: true, // 기본값: 의존성 포함
   defaultDownloadPath: '',   // 기본 다운로드 경로 (빈 값이면 시스템 기본 다운로드 폴더 사용)
+  limitRate: '',
+  perHostConcurrency: 0,
 
   defaultOutputFormat: 'zip' as const,
   includeInstallScripts: true,
@@ -141,8 +173,19 @@ const defaultSettings = {
   smtpFrom: '',
   smtpTo: '',
 
+  httpProxy: '',
+  httpsProxy: '',
+  noProxy: '',
+  proxyUsername: '',
+  proxyPassword: '',
+  caBundlePath: '',
+
+  registryMirrors: {},
+  registryCredentials: [],
+
   languageVersions: {
     python: '3.11',
+    dotnet: 'net8.0',
   },
 
   defaultTargetOS: 'linux' as const,
@@ -153,8 +196,11 @@ const defaultSettings = {
     os: 'linux' as const,
     arch: 'x86_64' as const,
     linuxDistro: 'rocky9',
+    libc: 'glibc' as const,
     glibcVersion: '2.34',
+    muslVersion: '1.2',
   },
+  pythonDownloadTargets: [],
 
   condaChannel: 'conda-forge' as const,
   customCondaChannels: [],
@@ -182,6 +228,8 @@ const defaultSettings = {
   dockerLayerCompression: 'gzip' as const,
   dockerRetryStrategy: 'layer' as const,
   dockerIncludeLoadScript: true,
+  dockerOutputFormat: 'docker-archive' as DockerOutputFormat,
+  dockerBundlePlatforms: [] as DockerArchitecture[],
 
   // 자동 업데이트 기본값
   autoUpdate: true,
@@ -0,0 +1,202 @@
+/**
+ * OpenPGP 테스트 유틸리티
+ * 시스템 gpg 없이 Node crypto로 테스트용 공개키와 서명(분리 서명, cleartext 서명), 비밀키 내보내기를 만든다.
+ */
+
+import * as crypto from 'crypto';
+
+export interface TestSigningKey {
+  /** ASCII armor 공개키 */
+  armoredPublicKey: string;
+  fingerprint: string;
+  keyId: string;
+  /** 분리 서명 패킷 (바이너리) */
+  sign: (data: Buffer, signatureType?: number) => Buffer;
+  /** ASCII armor 분리 서명 */
+  signArmored: (data: Buffer) => string;
+  /** cleartext 서명 메시지 (InRelease 형식) */
+  clearsign: (text: string) => string;
+  /** gpg --armor --export-secret-keys 형식 비밀키 (암호가 있으면 AES-128 + iterated S2K로 보호, RSA 전용) */
+  exportSecretKey: (passphrase?: string) => string;
+}
+
+/**
+ * 테스트용 서명 키 생성 (RSA 2048 또는 EdDSA Ed25519)
+ */
+export function createTestSigningKey(algorithm: 'rsa' | 'ed25519', userId = 'Test Signing Key <test@example.test>'): TestSigningKey {
+  const createdAt = Math.floor(Date.now() / 1000) - 60;
+  const { publicKey, privateKey } = algorithm === 'rsa'
+    ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : crypto.generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  const keyHeader = Buffer.alloc(6);
+  keyHeader[0] = 4;
+  keyHeader.writeUInt32BE(createdAt, 1);
+  keyHeader[5] = algorithm === 'rsa' ? 1 : 22;
+  const keyMaterial = algorithm === 'rsa'
+    ? Buffer.concat([encodeMpi(Buffer.from(jwk.n as string, 'base64url')), encodeMpi(Buffer.from(jwk.e as string, 'base64url'))])
+    : Buffer.concat([
+      Buffer.from([9]),
+      Buffer.from('2b06010401da470f01', 'hex'),
+      encodeMpi(Buffer.concat([Buffer.from([0x40]), Buffer.from(jwk.x as string, 'base64url')])),
+    ]);
+  const keyBody = Buffer.concat([keyHeader, keyMaterial]);
+  const fingerprint = crypto
+    .createHash('sha1')
+    .update(Buffer.from([0x99, keyBody.length >> 8, keyBody.length & 0xff]))
+    .update(keyBody)
+    .digest();
+
+  const sign = (data: Buffer, signatureType = 0x00): Buffer => {
+    const creation = Buffer.alloc(4);
+    creation.writeUInt32BE(createdAt + 30, 0);
+    const hashedSubpackets = Buffer.concat([
+      encodeSubpacket(2, creation),
+      encodeSubpacket(33, Buffer.concat([Buffer.from([4]), fingerprint])),
+    ]);
+    const hashedPortion = Buffer.concat([
+      Buffer.from([4, signatureType, keyHeader[5], 8, hashedSubpackets.length >> 8, hashedSubpackets.length & 0xff]),
+      hashedSubpackets,
+    ]);
+    const trailer = Buffer.from([4, 0xff, 0, 0, 0, 0]);
+    trailer.writeUInt32BE(hashedPortion.length, 2);
+    const signedData = Buffer.concat([data, hashedPortion, trailer]);
+    const digest = crypto.createHash('sha256').update(signedData).digest();
+
+    let values: Buffer;
+    if (algorithm === 'rsa') {
+      values = encodeMpi(crypto.sign('sha256', signedData, privateKey));
+    } else {
+      const signature = crypto.sign(null, digest, privateKey);
+      values = Buffer.concat([encodeMpi(signature.subarray(0, 32)), encodeMpi(signature.subarray(32))]);
+    }
+
+    const unhashedSubpackets = encodeSubpacket(16, fingerprint.subarray(12));
+    return encodePacket(2, Buffer.concat([
+      hashedPortion,
+      Buffer.from([unhashedSubpackets.length >> 8, unhashedSubpackets.length & 0xff]),
+      unhashedSubpackets,
+      digest.subarray(0, 2),
+      values,
+    ]));
+  };
+
+  return {
+    armoredPublicKey: armor('PUBLIC KEY BLOCK', Buffer.concat([
+      encodePacket(6, keyBody),
+      encodePacket(13, Buffer.from(userId, 'utf8')),
+    ])),
+    fingerprint: fingerprint.toString('hex').toUpperCase(),
+    keyId: fingerprint.subarray(12).toString('hex').toUpperCase(),
+    sign,
+    signArmored: (data) => armor('SIGNATURE', sign(data)),
+    exportSecretKey: (passphrase) => {
+      const privateJwk = privateKey.export({ format: 'jwk' });
+      const [d, p, q] = [privateJwk.d, privateJwk.p, privateJwk.q].map((value) => Buffer.from(value as string, 'base64url'));
+      // OpenPGP는 p < q, u = p^-1 mod q
+      const [small, large] = BigInt(`0x${p.toString('hex')}`) < BigInt(`0x${q.toString('hex')}`) ? [p, q] : [q, p];
+      const u = modInverse(BigInt(`0x${small.toString('hex')}`), BigInt(`0x${large.toString('hex')}`)).toString(16);
+      const material = Buffer.concat(
+        [d, small, large, Buffer.from(u.length % 2 === 0 ? u : `0${u}`, 'hex')].map(encodeMpi)
+      );
+
+      let protection: Buffer;
+      if (passphrase === undefined) {
+        const checksum = material.reduce((sum, byte) => (sum + byte) & 0xffff, 0);
+        protection = Buffer.concat([Buffer.from([0]), material, Buffer.from([checksum >> 8, checksum & 0xff])]);
+      } else {
+        const salt = crypto.randomBytes(8);
+        const iv = crypto.randomBytes(16);
+        // count 바이트 0x60 = 65536바이트 반복 해시
+        const input = Buffer.concat([salt, Buffer.from(passphrase, 'utf8')]);
+        const hash = crypto.createHash('sha256');
+        for (let remaining = 65536; remaining > 0; remaining -= input.length) {
+          hash.update(input.subarray(0, Math.min(remaining, input.length)));
+        }
+        const cipher = crypto.createCipheriv('aes-128-cfb', hash.digest().subarray(0, 16), iv);
+        const plain = Buffer.concat([material, crypto.createHash('sha1').update(material).digest()]);
+        protection = Buffer.concat([
+          Buffer.from([254, 7, 3, 8]),
+          salt,
+          Buffer.from([0x60]),
+          iv,
+          cipher.update(plain),
+          cipher.final(),
+        ]);
+      }
+
+      return armor('PRIVATE KEY BLOCK', Buffer.concat([
+        encodePacket(5, Buffer.concat([keyBody, protection])),
+        encodePacket(13, Buffer.from(userId, 'utf8')),
+      ]));
+    },
+    clearsign: (text) => {
+      const lines = text.replace(/\n$/, '').split('\n');
+      const signedData = Buffer.from(lines.map((line) => line.replace(/[ \t]+$/, '')).join('\r\n'), 'utf8');
+      return [
+        '-----BEGIN PGP SIGNED MESSAGE-----',
+        'Hash: SHA256',
+        '',
+        ...lines.map((line) => (line.startsWith('-') ? `- ${line}` : line)),
+        armor('SIGNATURE', sign(signedData, 0x01)),
+      ].join('\n');
+    },
+  };
+}
+
+function modInverse(value: bigint, modulus: bigint): bigint {
+  let [oldR, r] = [value % modulus, modulus];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return ((oldS % modulus) + modulus) % modulus;
+}
+
+function encodeMpi(value: Buffer): Buffer {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) {
+    start += 1;
+  }
+  const trimmed = value.subarray(start);
+  const bits = (trimmed.length - 1) * 8 + (trimmed[0] === 0 ? 0 : 32 - Math.clz32(trimmed[0]));
+  return Buffer.concat([Buffer.from([bits >> 8, bits & 0xff]), trimmed]);
+}
+
+function encodeSubpacket(type: number, data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([data.length + 1, type]), data]);
+}
+
+function encodePacket(tag: number, body: Buffer): Buffer {
+  const length = body.length < 192
+    ? Buffer.from([body.length])
+    : body.length < 8384
+      ? Buffer.from([((body.length - 192) >> 8) + 192, (body.length - 192) & 0xff])
+      : Buffer.from([0xff, body.length >>> 24, (body.length >> 16) & 0xff, (body.length >> 8) & 0xff, body.length & 0xff]);
+  return Buffer.concat([Buffer.from([0xc0 | tag]), length, body]);
+}
+
+function armor(type: string, data: Buffer): string {
+  let crc = 0xb704ce;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc <<= 1;
+      if (crc & 0x1000000) {
+        crc ^= 0x1864cfb;
+      }
+    }
+  }
+  const checksum = Buffer.from([(crc >> 16) & 0xff, (crc >> 8) & 0xff, crc & 0xff]).toString('base64');
+
+  return [
+    `-----BEGIN PGP ${type}-----`,
+    '',
+    ...(data.toString('base64').match(/.{1,64}/g) ?? []),
+    `=${checksum}`,
+    `-----END PGP ${type}-----`,
+  ].join('\n');
+}
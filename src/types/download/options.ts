@@ -1,8 +1,12 @@
 import type { Architecture } from '../platform/architecture';
 import type { TargetOS } from '../platform/os-target';
+import type { PythonDownloadTarget } from '../platform/python-download-target';
 
 export type DownloadOutputFormat = 'zip' | 'tar.gz';
 export type DownloadDeliveryMethod = 'local' | 'email';
+export type DockerOutputFormat = 'docker-archive' | 'oci-layout';
+export type NpmOutputFormat = 'tarball' | 'registry';
+export type CargoOutputFormat = 'vendor' | 'registry';
 
 export interface DownloadEmailOptions {
   to: string;
@@ -32,11 +36,17 @@ export interface DownloadOptions {
   architecture?: Architecture;
   includeDependencies?: boolean;
   pythonVersion?: string;
+  /** musl 버전 (targetOS가 linux-musl일 때 musllinux 태그 범위) */
+  muslVersion?: string;
   concurrency?: number;
   deliveryMethod?: DownloadDeliveryMethod;
   email?: DownloadEmailOptions;
   fileSplit?: DownloadFileSplitOptions;
   smtp?: DownloadSmtpOptions;
+  dockerOutputFormat?: DockerOutputFormat;
+  dockerPlatforms?: Architecture[];
+  /** pip/conda 멀티 타겟 (지정하면 대상별로 해결한 파일을 합치고 대상별 설치 스크립트를 만든다) */
+  pythonTargets?: PythonDownloadTarget[];
 }
 
 export interface PipDownloadOptions extends DownloadOptions {
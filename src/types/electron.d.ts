@@ -48,6 +48,8 @@ export interface AllCompleteData {
 
 export interface DownloadStartRequest {
   sessionId?: number;
+  /** 이어받을 다운로드 세션 ID (download.sessions.list 결과) */
+  resumeSessionId?: string;
   packages: unknown[];
   options: DownloadStartOptions;
 }
@@ -60,6 +62,10 @@ export interface DownloadStartOptions {
   architecture?: string;
   includeDependencies?: boolean;
   pythonVersion?: string;
+  /** musl 버전 (targetOS가 linux-musl일 때) */
+  muslVersion?: string;
+  /** pip/conda 멀티 타겟 (지정하면 대상별 설치 스크립트를 targets/<대상>/에 생성) */
+  pythonTargets?: PythonDownloadTargetEntry[];
   concurrency?: number;
   deliveryMethod?: 'local' | 'email';
   email?: {
@@ -79,6 +85,8 @@ export interface DownloadStartOptions {
     from?: string;
     secure?: boolean;
   };
+  dockerOutputFormat?: 'docker-archive' | 'oci-layout';
+  dockerPlatforms?: string[];
 }
 
 export interface SmtpConnectionConfig {
@@ -94,6 +102,37 @@ export interface SmtpConnectionResult {
   error?: string;
 }
 
+export interface RegistryMirrorTestConfig {
+  ecosystem: 'pip' | 'conda' | 'maven' | 'npm' | 'go' | 'cargo' | 'nuget' | 'docker';
+  url: string;
+  username?: string;
+  password?: string;
+  token?: string;
+}
+
+export interface RegistryMirrorTestResult {
+  success: boolean;
+  url?: string;
+  status?: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface DownloadSessionSummary {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  createdAt: string;
+  updatedAt: string;
+  outputDir: string;
+  packages: unknown[];
+  completedPackageIds: string[];
+}
+
+export interface DownloadSessionsAPI {
+  list: () => Promise<DownloadSessionSummary[]>;
+  discard: (sessionId: string) => Promise<{ success: boolean }>;
+}
+
 export interface DownloadAPI {
   start: (data: DownloadStartRequest) => Promise<void>;
   pause: () => Promise<void>;
@@ -109,6 +148,7 @@ export interface DownloadAPI {
     success: boolean;
     deleted?: boolean;
   }>;
+  sessions?: DownloadSessionsAPI;
   onProgress: (callback: (progress: DownloadProgressData) => void) => () => void;
   onStatus?: (callback: (status: DownloadStatusData) => void) => () => void;
   onDepsResolved?: (callback: (data: DepsResolvedData) => void) => () => void;
@@ -120,6 +160,27 @@ export interface ConfigAPI {
   set: (config: unknown) => Promise<{ success: boolean; error?: string }>;
   reset: () => Promise<{ success: boolean; error?: string }>;
   getPath: () => Promise<string>;
+  importRegistryCredentials?: () => Promise<RegistryCredentialImportResult>;
+}
+
+export interface RegistryCredentialEntry {
+  ecosystem: 'pip' | 'npm' | 'maven';
+  url: string;
+  scope?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+  source?: string;
+}
+
+export interface RegistryCredentialImportResult {
+  success: boolean;
+  credentials?: RegistryCredentialEntry[];
+  mavenMirrors?: Array<{ url: string; priority?: number; username?: string; password?: string }>;
+  pipIndexUrls?: string[];
+  sources?: string[];
+  warnings?: string[];
+  error?: string;
 }
 
 export interface CacheAPI {
@@ -174,11 +235,20 @@ export interface DependencyResolveOptions {
   targetOS?: string;
   architecture?: string;
   pythonVersion?: string;
+  muslVersion?: string;
   cudaVersion?: string | null;
-  yumDistribution?: { id: string; architecture: string };
+  yumDistribution?: { id: string; architecture: string; moduleStreams?: string[] };
   aptDistribution?: { id: string; architecture: string };
   apkDistribution?: { id: string; architecture: string };
   includeRecommends?: boolean;
+  /** pip/conda 멀티 타겟 (대상마다 따로 해결한 뒤 합침) */
+  pythonTargets?: PythonDownloadTargetEntry[];
+}
+
+export interface PythonDownloadTargetEntry {
+  targetOS: 'linux' | 'linux-musl' | 'windows' | 'macos';
+  architecture: 'x86_64' | 'aarch64';
+  pythonVersion: string;
 }
 
 export interface DependencyProgressInfo {
@@ -191,11 +261,18 @@ export interface DependencyProgressInfo {
   error?: string;
 }
 
+export interface ProjectFileImportResult {
+  type: 'maven' | 'go' | 'cargo';
+  packages: Array<{ type: string; name: string; version: string; metadata?: Record<string, unknown> }>;
+}
+
 export interface DependencyAPI {
   resolve: (data: {
     packages: unknown[];
     options?: DependencyResolveOptions;
   }) => Promise<DependencyResolveResult>;
+  /** pom.xml / gradle.lockfile / go.mod / Cargo.lock / Cargo.toml에서 해결된 패키지 목록 가져오기 */
+  importProjectFile?: (fileName: string, content: string) => Promise<ProjectFileImportResult>;
   onProgress?: (callback: (progress: DependencyProgressInfo) => void) => () => void;
 }
 
@@ -270,6 +347,7 @@ export interface OSPackageAPI {
     architecture: string;
     matchType?: string;
     limit?: number;
+    moduleStreams?: string[];
   }) => Promise<{ packages: unknown[]; totalCount: number }>;
   resolveDependencies: (options: {
     packages: unknown[];
@@ -312,6 +390,7 @@ export interface ElectronAPI {
   saveFile: (defaultPath: string) => Promise<string | null>;
   openFolder: (folderPath: string) => Promise<void>;
   testSmtpConnection?: (config: SmtpConnectionConfig) => Promise<SmtpConnectionResult>;
+  testRegistryMirror?: (config: RegistryMirrorTestConfig) => Promise<RegistryMirrorTestResult>;
   download: DownloadAPI;
   config: ConfigAPI;
   cache: CacheAPI;
@@ -12,4 +12,5 @@ export * from './packaging';
 export * from './platform/architecture';
 export * from './platform/os-target';
 export * from './platform/pip-target-platform';
+export * from './platform/python-download-target';
 export * from './resolver/dependency-graph';
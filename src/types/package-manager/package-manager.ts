@@ -3,6 +3,9 @@ export type PackageType =
   | 'conda'
   | 'maven'
   | 'npm'
+  | 'go'
+  | 'cargo'
+  | 'nuget'
   | 'yum'
   | 'apt'
   | 'apk'
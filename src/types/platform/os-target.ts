@@ -1,2 +1,2 @@
-export type TargetOS = 'windows' | 'macos' | 'linux' | 'any';
+export type TargetOS = 'windows' | 'macos' | 'linux' | 'linux-musl' | 'any';
 export type OsTarget = TargetOS;
@@ -1,8 +1,14 @@
+export type PipLinuxLibc = 'glibc' | 'musl';
+
 export interface PipTargetPlatform {
   os: 'linux' | 'macos' | 'windows';
   arch: 'x86_64' | 'aarch64' | 'arm64' | 'i386' | 'amd64' | 'arm/v7' | '386';
   pythonVersion?: string;
   linuxDistro?: string;
+  /** Linux C 라이브러리 (기본값: glibc, musl은 Alpine 등 musllinux 휠 대상) */
+  libc?: PipLinuxLibc;
   glibcVersion?: string;
+  /** musl 버전 (예: '1.2', libc가 musl일 때 musllinux 태그와 매칭) */
+  muslVersion?: string;
   macosVersion?: string;
 }
@@ -0,0 +1,11 @@
+import type { TargetOS } from './os-target';
+
+/**
+ * pip/conda 멀티 타겟 다운로드의 대상 환경 하나 (예: linux/x86_64/3.9)
+ */
+export interface PythonDownloadTarget {
+  targetOS: Exclude<TargetOS, 'any'>;
+  architecture: 'x86_64' | 'aarch64';
+  /** Python major.minor */
+  pythonVersion: string;
+}
@@ -34,6 +34,8 @@ export interface DependencyResolutionResult {
 export interface ResolverTargetPlatform {
   system?: 'Linux' | 'Windows' | 'Darwin';
   machine?: 'x86_64' | 'aarch64' | 'arm64';
+  /** Linux C 라이브러리 (musl이면 musllinux wheel 대상) */
+  libc?: 'glibc' | 'musl';
 }
 
 export interface ResolverOptions {